@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPetitionSummary,
+  digestPetitionSummary,
+  type PetitionSummaryInput,
+} from '@/lib/bankruptcy/acknowledgment';
+import { hashPortalToken, parsePortalIdentifier } from '@/lib/auth/portal';
+
+const input = (overrides: Partial<PetitionSummaryInput> = {}): PetitionSummaryInput => ({
+  caseRow: {
+    client_name: 'Jordan Debtor',
+    address: '12 Elm St',
+    city: 'Austin',
+    state: 'TX',
+    zip: '78701',
+    county: 'Travis',
+    case_type: 'chapter7',
+    filing_type: 'individual',
+    household_size: 2,
+  },
+  income: [
+    { employer: 'Acme Co', income_source: 'employment', gross_amount: '2500.00' },
+    { employer: 'Acme Co', income_source: 'employment', gross_amount: '2500.50' },
+    { employer: null, income_source: 'social_security', gross_amount: 900 },
+  ],
+  expenses: [{ category: 'housing', description: 'Rent', monthly_amount: '1200.00' }],
+  assets: [{ asset_type: 'vehicle', description: '2015 Honda Civic', current_value: '6000' }],
+  debts: [{ creditor_name: 'Big Bank', debt_type: 'credit_card', balance: '4300.25' }],
+  sofaAnswers: { prior_addresses: true, lawsuits: false },
+  ...overrides,
+});
+
+describe('buildPetitionSummary', () => {
+  it('groups income by employer, or by source without one', () => {
+    const summary = buildPetitionSummary(input());
+
+    expect(summary.income).toEqual([
+      { label: 'Acme Co', detail: 'Employment', amount: 5000.5 },
+      { label: 'Social security', detail: 'Social security', amount: 900 },
+    ]);
+    expect(summary.totals).toEqual({ income: 5900.5, expenses: 1200, assets: 6000, debts: 4300.25 });
+  });
+
+  it('lists the SOFA questions answered yes and counts the unanswered', () => {
+    const summary = buildPetitionSummary(input());
+
+    expect(summary.sofaYes).toHaveLength(1);
+    expect(summary.sofaYes[0]).toMatch(/lived anywhere other than where you live now/);
+    expect(summary.sofaUnanswered).toBe(9);
+  });
+
+  it('formats the debtor address on one line', () => {
+    expect(buildPetitionSummary(input()).debtor.address).toBe('12 Elm St, Austin, TX 78701');
+  });
+});
+
+describe('digestPetitionSummary', () => {
+  it('is stable for the same facts and changes when they change', () => {
+    const digest = digestPetitionSummary(buildPetitionSummary(input()));
+
+    expect(digestPetitionSummary(buildPetitionSummary(input()))).toBe(digest);
+    expect(digestPetitionSummary(buildPetitionSummary(input({
+      debts: [{ creditor_name: 'Big Bank', debt_type: 'credit_card', balance: '4300.26' }],
+    })))).not.toBe(digest);
+  });
+});
+
+describe('portal links', () => {
+  it('stores a hash rather than the token', () => {
+    expect(hashPortalToken('token')).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashPortalToken('token')).not.toBe(hashPortalToken('other'));
+  });
+
+  it('reads the firm and case from portal identifiers only', () => {
+    expect(parsePortalIdentifier('portal:org_1:case_1')).toEqual({ organizationId: 'org_1', caseId: 'case_1' });
+    expect(parsePortalIdentifier('email-verification:someone@example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import type { Form101Data, Form106IData } from '@/lib/bankruptcy/form-mapper';
+import {
+  fillAcroForm,
+  formatFieldValue,
+  listAcroFormFields,
+  listMappedFields,
+  loadOfficialTemplate,
+  OFFICIAL_FORM_MAPS,
+  OFFICIAL_FORMS_DIR,
+  type AcroFormMap,
+} from '@/lib/bankruptcy/acroform';
+
+interface TestFormData {
+  debtorName: string;
+  chapter: string;
+  total: number;
+  claims: Array<{ creditorName: string; amount: number }>;
+}
+
+async function buildTemplate(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([612, 792]);
+  const form = pdf.getForm();
+
+  form.createTextField('Debtor 1').addToPage(page, { x: 50, y: 700, width: 200, height: 20 });
+  form.createCheckBox('Chapter 7').addToPage(page, { x: 50, y: 660, width: 12, height: 12 });
+  form.createTextField('Total').addToPage(page, { x: 50, y: 620, width: 100, height: 20 });
+  for (let n = 1; n <= 2; n++) {
+    form.createTextField(`Creditor ${n}`).addToPage(page, { x: 50, y: 600 - n * 30, width: 200, height: 20 });
+    form.createTextField(`Amount ${n}`).addToPage(page, { x: 300, y: 600 - n * 30, width: 100, height: 20 });
+  }
+
+  return pdf.save();
+}
+
+const map: AcroFormMap<TestFormData> = {
+  formId: 'formTest',
+  template: 'test.pdf',
+  filename: 'Test.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Chapter 7', source: 'chapter', when: '7' },
+    { field: 'Total', source: 'total', format: 'currency' },
+    { field: 'Spouse', source: d => d.debtorName },
+  ],
+  tables: [
+    {
+      source: 'claims',
+      capacity: 2,
+      title: 'Part 1: Claims',
+      columns: [
+        { field: 'Creditor {n}', source: 'creditorName', label: "Creditor's name" },
+        { field: 'Amount {n}', source: 'amount', label: 'Amount', format: 'currency' },
+      ],
+    },
+  ],
+};
+
+const data: TestFormData = {
+  debtorName: 'Jane Doe',
+  chapter: '7',
+  total: 1234.5,
+  claims: [
+    { creditorName: 'First Bank', amount: 1000 },
+    { creditorName: 'Second Bank', amount: 200 },
+    { creditorName: 'Third Bank', amount: 34.5 },
+  ],
+};
+
+describe('AcroForm filling', () => {
+  it('fills mapped fields without flattening when requested', async () => {
+    const result = await fillAcroForm(await buildTemplate(), map, data, { flatten: false });
+    const form = (await PDFDocument.load(result.bytes)).getForm();
+
+    expect(form.getTextField('Debtor 1').getText()).toBe('Jane Doe');
+    expect(form.getCheckBox('Chapter 7').isChecked()).toBe(true);
+    expect(form.getTextField('Total').getText()).toBe('1,234.50');
+    expect(form.getTextField('Creditor 2').getText()).toBe('Second Bank');
+  });
+
+  it('reports mapped fields missing from the template', async () => {
+    const result = await fillAcroForm(await buildTemplate(), map, data);
+    expect(result.missingFields).toEqual(['Spouse']);
+  });
+
+  it('moves rows beyond capacity to continuation pages', async () => {
+    const result = await fillAcroForm(await buildTemplate(), map, data);
+    const pdf = await PDFDocument.load(result.bytes);
+
+    expect(result.overflowRows).toBe(1);
+    expect(pdf.getPageCount()).toBe(2);
+  });
+
+  it('flattens the filled form', async () => {
+    const result = await fillAcroForm(await buildTemplate(), map, data);
+    expect(await listAcroFormFields(result.bytes)).toEqual([]);
+  });
+
+  it('formats dates and currency for text fields', () => {
+    expect(formatFieldValue('2024-03-05', 'date')).toBe('03/05/2024');
+    expect(formatFieldValue(null, 'currency')).toBe('');
+  });
+});
+
+describe('official form field maps', () => {
+  it('expands table rows up to capacity', () => {
+    expect(listMappedFields(map)).toEqual(['Debtor 1', 'Chapter 7', 'Total', 'Spouse', 'Creditor 1', 'Amount 1', 'Creditor 2', 'Amount 2']);
+  });
+
+  // Each map is checked once its template is vendored in public/official-forms
+  for (const official of Object.values(OFFICIAL_FORM_MAPS)) {
+    const vendored = existsSync(path.join(OFFICIAL_FORMS_DIR, official.template));
+
+    it.skipIf(!vendored)(`maps only fields that exist in ${official.template}`, async () => {
+      const template = await loadOfficialTemplate(official.template);
+      const fields = new Set((await listAcroFormFields(template!)).map(field => field.name));
+
+      expect(listMappedFields(official).filter(name => !fields.has(name))).toEqual([]);
+    });
+  }
+});
+
+function mappedValue<T>(data: T, source: string | ((data: T) => unknown)): unknown {
+  if (typeof source === 'function') return source(data);
+  return source.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], data);
+}
+
+/**
+ * The vendored template, or a stand-in with exactly the mapped fields until
+ * the official PDF is added
+ */
+async function officialTemplate<T>(official: AcroFormMap<T>, data: T): Promise<Uint8Array> {
+  const vendored = await loadOfficialTemplate(official.template);
+  if (vendored) return vendored;
+
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([612, 792]);
+  const form = pdf.getForm();
+  const mapped = new Map(official.fields.map(mapping => [mapping.field, mapping]));
+  listMappedFields(official as AcroFormMap<never>).forEach((name, i) => {
+    const placement = { x: 40 + (i % 3) * 180, y: 750 - Math.floor(i / 3) * 24, width: 160, height: 18 };
+    const mapping = mapped.get(name);
+    if (mapping?.format === 'radio') {
+      form.createRadioGroup(name).addOptionToPage(String(mappedValue(data, mapping.source)), page, placement);
+    } else if (mapping && (mapping.format === 'checkbox' || mapping.when !== undefined)) {
+      form.createCheckBox(name).addToPage(page, { ...placement, width: 12, height: 12 });
+    } else {
+      form.createTextField(name).addToPage(page, placement);
+    }
+  });
+  return pdf.save();
+}
+
+describe('official form round trip', () => {
+  const petition: Form101Data = {
+    formName: 'Form 101 - Voluntary Petition for Individuals Filing for Bankruptcy',
+    courtDistrict: 'Western District of Texas',
+    debtorName: 'Jane Doe',
+    ssn: '123-45-6789',
+    address: { street: '100 Congress Ave', city: 'Austin', state: 'TX', zip: '78701', county: 'Travis' },
+    chapter: '7',
+    filingType: 'individual',
+    hasAttorney: true,
+    previousFilings: [{ district: 'Western District of Texas', caseNumber: '19-10001', date: '2019-04-02' }],
+    isPendingCase: false,
+    estimatedCreditors: '1-49',
+    estimatedAssets: '$0 - $50,000',
+    estimatedLiabilities: '$50,001 - $100,000',
+    estimatedIncome: '$50,001 - $100,000',
+  };
+
+  const income: Form106IData = {
+    formName: 'Form 106I - Schedule I: Your Income',
+    debtorName: 'Jane Doe',
+    caseNumber: '26-10001',
+    incomeSources: [{
+      employer: 'Acme Logistics',
+      occupation: 'Dispatcher',
+      address: '1 Warehouse Rd, Austin, TX 78701',
+      startDate: '2021-06-01',
+      monthlyGross: 4333.33,
+      payrollDeductions: { taxes: 650, socialSecurity: 331.5, insurance: 210, retirement: 130, other: 0 },
+      monthlyNet: 3011.83,
+    }],
+    netBusinessIncome: 0,
+    businessStatements: [],
+    otherIncome: [{ source: 'Child support', amount: 400 }],
+    totalMonthlyIncome: 3411.83,
+  };
+
+  it('fills and flattens Form 101 with the mapped values', async () => {
+    const template = await officialTemplate(OFFICIAL_FORM_MAPS.form101!, petition);
+    const filled = await fillAcroForm(template, OFFICIAL_FORM_MAPS.form101!, petition, { flatten: false });
+    const form = (await PDFDocument.load(filled.bytes)).getForm();
+
+    expect(filled.missingFields).toEqual([]);
+    expect(form.getTextField('Debtor1.Name').getText()).toBe('Jane Doe');
+    expect(form.getTextField('Debtor1.SSNum').getText()).toBe('6789');
+    expect(form.getTextField('Debtor1.County').getText()).toBe('Travis');
+    expect(form.getCheckBox('Check Box1').isChecked()).toBe(true);
+    expect(form.getCheckBox('Check Box4').isChecked()).toBe(false);
+    expect(form.getRadioGroup('Estimated Liabilities').getSelected()).toBe('$50,001 - $100,000');
+    expect(form.getTextField('Prior Date 1').getText()).toBe('04/02/2019');
+
+    const flattened = await fillAcroForm(template, OFFICIAL_FORM_MAPS.form101!, petition);
+    expect(flattened.missingFields).toEqual([]);
+    expect(await listAcroFormFields(flattened.bytes)).toEqual([]);
+  });
+
+  it('fills and flattens Schedule I with the mapped values', async () => {
+    const template = await officialTemplate(OFFICIAL_FORM_MAPS.form106I!, income);
+    const filled = await fillAcroForm(template, OFFICIAL_FORM_MAPS.form106I!, income, { flatten: false });
+    const form = (await PDFDocument.load(filled.bytes)).getForm();
+
+    expect(filled.missingFields).toEqual([]);
+    expect(form.getTextField('Employers name').getText()).toBe('Acme Logistics');
+    expect(form.getTextField('2').getText()).toBe('4,333.33');
+    expect(form.getTextField('5a').getText()).toBe('650.00');
+    expect(form.getTextField('7').getText()).toBe('3,011.83');
+    expect(form.getTextField('8h 1').getText()).toBe('400.00');
+    expect(form.getTextField('12').getText()).toBe('3,411.83');
+
+    const flattened = await fillAcroForm(template, OFFICIAL_FORM_MAPS.form106I!, income);
+    expect(flattened.missingFields).toEqual([]);
+    expect(await listAcroFormFields(flattened.bytes)).toEqual([]);
+  });
+});
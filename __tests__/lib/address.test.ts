@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatAddress,
+  getCaseAddressIssues,
+  lookupZip,
+  normalizeAddress,
+  normalizeCaseAddressFields,
+  normalizeStreetLine,
+  validateAddress,
+} from '@/lib/bankruptcy/address';
+import { COUNTY_HOUSING_STANDARDS, getCountyHousingStandard } from '@/lib/bankruptcy/chapter7';
+import { parseHousingTable } from '@/lib/bankruptcy/standards';
+
+describe('normalizeStreetLine', () => {
+  it('abbreviates suffixes, directionals, and unit designators', () => {
+    expect(normalizeStreetLine('123  North Main Street')).toBe('123 N Main St');
+    expect(normalizeStreetLine('500 Park Avenue Suite 200')).toBe('500 Park Ave Ste 200');
+    expect(normalizeStreetLine('P.O. Box 1234')).toBe('PO Box 1234');
+  });
+
+  it('leaves short street names alone', () => {
+    expect(normalizeStreetLine('10 North Street')).toBe('10 North St');
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('validates state codes and ZIP formats', () => {
+    const { address, issues } = normalizeAddress({
+      street1: '1 Main Street',
+      city: 'Austin',
+      state: 'Texas',
+      zip: '787011234',
+    });
+
+    expect(address).toMatchObject({ street1: '1 Main St', state: 'TX', zip: '78701-1234' });
+    expect(issues).toEqual([]);
+    expect(formatAddress(address)).toBe('1 Main St, Austin, TX 78701-1234');
+  });
+
+  it('reports invalid states and ZIPs', () => {
+    const { issues } = normalizeAddress({ street1: '1 Main St', city: 'Austin', state: 'Texass', zip: '7870' });
+    expect(issues.map(i => i.field)).toEqual(['state', 'zip']);
+  });
+});
+
+describe('ZIP to county', () => {
+  it('looks up the county for a ZIP', () => {
+    expect(lookupZip('90012')).toMatchObject({ state: 'CA', county: 'Los Angeles' });
+    expect(lookupZip('00000')).toBeNull();
+  });
+
+  it('fills in a missing county', () => {
+    const { address, issues } = validateAddress({ street1: '1 Main St', city: 'Austin', state: 'TX', zip: '78701' });
+    expect(address.county).toBe('Travis');
+    expect(issues).toEqual([]);
+  });
+
+  it('flags a county that does not match the ZIP', () => {
+    const { issues } = validateAddress({
+      street1: '1 Main St',
+      city: 'Austin',
+      state: 'TX',
+      zip: '78701',
+      county: 'Harris County',
+    });
+    expect(issues).toEqual([
+      { field: 'county', severity: 'warning', message: 'ZIP 78701 is in Travis County, not Harris' },
+    ]);
+  });
+
+  it('treats county spelling variants as a match', () => {
+    const { issues } = validateAddress({ street1: '1 Main St', city: 'Clayton', state: 'MO', zip: '63105', county: 'Saint Louis County' });
+    expect(issues.filter(i => i.field === 'county')).toEqual([]);
+  });
+});
+
+describe('case address columns', () => {
+  it('normalizes only the fields provided', () => {
+    expect(normalizeCaseAddressFields({ address: '9 Elm Street' })).toEqual({ address: '9 Elm St' });
+    expect(normalizeCaseAddressFields({ zip: '10001', county: '' })).toEqual({ zip: '10001', county: 'New York' });
+  });
+
+  it('flags cases whose county does not match their ZIP', () => {
+    const issues = getCaseAddressIssues({ address: '1 Main St', city: 'Miami', state: 'FL', zip: '33101', county: 'Broward' });
+    expect(issues.some(i => i.field === 'county' && i.severity === 'warning')).toBe(true);
+  });
+});
+
+describe('county names through to housing allowances', () => {
+  // Rows as the IRS housing and utilities tables spell them
+  const { table: housing } = parseHousingTable([
+    ['State', 'County', 'Family of 1', 'Family of 2', 'Family of 3', 'Family of 4', 'Family of 5 or more'],
+    ['Maryland', 'Baltimore County', 1900, 2230, 2350, 2620, 2660],
+    ['Maryland', 'Baltimore city', 1500, 1760, 1860, 2070, 2100],
+    ['Missouri', 'St. Louis County', 1700, 2000, 2100, 2340, 2380],
+    ['Missouri', 'St. Louis city', 1350, 1590, 1670, 1860, 1890],
+    ['Connecticut', 'Capitol Planning Region', 1800, 2110, 2230, 2480, 2520],
+    ['Connecticut', 'Western Connecticut Planning Region', 2600, 3050, 3220, 3580, 3640],
+  ]);
+
+  const allowance = (state: string, zip: string, county?: string) => {
+    const fields = normalizeCaseAddressFields({ address: '1 Main St', city: 'Anytown', state, zip, county });
+    return {
+      county: fields.county,
+      issues: getCaseAddressIssues(fields),
+      amount: getCountyHousingStandard(state, fields.county, 2, { ...COUNTY_HOUSING_STANDARDS, ...housing }),
+    };
+  };
+
+  it('matches San Francisco under its consolidated city-county name', () => {
+    expect(allowance('CA', '94102')).toEqual({ county: 'San Francisco', issues: [], amount: 4910 });
+    expect(allowance('CA', '94102', 'City and County of San Francisco')).toEqual({
+      county: 'San Francisco',
+      issues: [],
+      amount: 4910,
+    });
+  });
+
+  it('keeps Baltimore city apart from Baltimore County', () => {
+    expect(allowance('MD', '21202')).toEqual({ county: 'Baltimore city', issues: [], amount: 1760 });
+    expect(allowance('MD', '21030').amount).toBe(2230);
+  });
+
+  it('keeps St. Louis city apart from St. Louis County', () => {
+    expect(allowance('MO', '63101')).toEqual({ county: 'St. Louis city', issues: [], amount: 1590 });
+    expect(allowance('MO', '63101', 'City of Saint Louis').county).toBe('St. Louis city');
+    expect(allowance('MO', '63105').amount).toBe(2000);
+  });
+
+  it('finds the allowance for other spellings of a stored county', () => {
+    expect(getCountyHousingStandard('MO', 'Saint Louis City', 2, housing!)).toBe(1590);
+  });
+
+  it('uses Connecticut planning regions rather than the former counties', () => {
+    expect(allowance('CT', '06103')).toEqual({ county: 'Capitol Planning Region', issues: [], amount: 2110 });
+    expect(allowance('CT', '06902').amount).toBe(3050);
+    // Former counties are not in the dataset or the tables
+    expect(allowance('CT', '06103', 'Hartford').issues).toEqual([
+      { field: 'county', severity: 'warning', message: 'ZIP 06103 is in Capitol Planning Region, not Hartford' },
+    ]);
+    expect(getCountyHousingStandard('CT', 'Capitol', 2, housing!)).toBe(2110);
+  });
+
+  it('leaves out territories the standards do not cover', () => {
+    expect(lookupZip('96960')).toBeNull();
+  });
+
+  it('names independent cities without a County suffix', () => {
+    const { issues } = validateAddress({ street1: '1 Main St', city: 'Baltimore', state: 'MD', zip: '21202', county: 'Harford' });
+    expect(issues).toEqual([
+      { field: 'county', severity: 'warning', message: 'ZIP 21202 is in Baltimore city, not Harford' },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  determineCommitmentPeriod,
+  calculateProjectedDisposableIncome,
+  buildPlanSchedule,
+} from '@/lib/bankruptcy/chapter13';
+import { calculateIRSAllowances, getStateMedianIncome } from '@/lib/bankruptcy/chapter7';
+
+describe('determineCommitmentPeriod', () => {
+  it('uses a 3-year period at or below the state median', () => {
+    const median = getStateMedianIncome('TX', 2);
+    const result = determineCommitmentPeriod('TX', 2, median / 12);
+
+    expect(result.isAboveMedian).toBe(false);
+    expect(result.commitmentPeriodMonths).toBe(36);
+  });
+
+  it('uses a 5-year period above the state median', () => {
+    const median = getStateMedianIncome('TX', 2);
+    const result = determineCommitmentPeriod('TX', 2, median / 12 + 100);
+
+    expect(result.isAboveMedian).toBe(true);
+    expect(result.commitmentPeriodMonths).toBe(60);
+  });
+});
+
+describe('calculateProjectedDisposableIncome', () => {
+  const allowances = calculateIRSAllowances('TX', 2, 'HARRIS', true, 1, 40);
+
+  it('uses Schedule I net income and actual expenses for below-median debtors', () => {
+    // Gross CMI of 5000 nets 4600 after payroll taxes
+    const result = calculateProjectedDisposableIncome(5000, 2, false, allowances, 4600, 4200);
+
+    expect(result.method).toBe('schedule_j');
+    expect(result.currentMonthlyIncome).toBe(5000);
+    expect(result.monthlyIncome).toBe(4600);
+    expect(result.monthlyDisposableIncome).toBe(400);
+    expect(result.breakdown).toBeUndefined();
+  });
+
+  it('uses Form 122C-2 deductions for above-median debtors', () => {
+    const result = calculateProjectedDisposableIncome(12000, 2, true, allowances, 9000, 4200, { taxes: 2500 });
+
+    expect(result.method).toBe('form_122c2');
+    expect(result.breakdown).toBeDefined();
+    expect(result.monthlyIncome).toBe(12000);
+    expect(result.monthlyDisposableIncome).toBeCloseTo(12000 - result.totalDeductions, 2);
+  });
+});
+
+describe('buildPlanSchedule', () => {
+  it('pays trustee fees and required claims before the unsecured dividend', () => {
+    const plan = buildPlanSchedule({
+      commitmentPeriodMonths: 60,
+      monthlyDisposableIncome: 500,
+      priorityClaims: [{ creditorName: 'IRS', amount: 6000 }],
+      securedArrears: [{ creditorName: 'Mortgage Co', amount: 3000 }],
+      nonpriorityUnsecuredTotal: 40000,
+    });
+
+    expect(plan.monthlyPayment).toBe(500);
+    expect(plan.totalPlanPayments).toBe(30000);
+    expect(plan.trusteeFees).toBe(3000);
+    expect(plan.unsecuredPool).toBe(18000);
+    expect(plan.unsecuredDividendPercent).toBe(45);
+    expect(plan.feasible).toBe(true);
+    expect(plan.distributions.map(d => d.category)).toEqual([
+      'trustee_fee',
+      'priority',
+      'secured_arrears',
+      'unsecured',
+    ]);
+  });
+
+  it('raises the payment to fund priority claims and flags infeasible plans', () => {
+    const plan = buildPlanSchedule({
+      commitmentPeriodMonths: 36,
+      monthlyDisposableIncome: 100,
+      priorityClaims: [{ creditorName: 'State Tax Board', amount: 9000 }],
+      securedArrears: [],
+      nonpriorityUnsecuredTotal: 20000,
+      trusteeFeeRate: 0.1,
+    });
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.monthlyPayment).toBe(plan.minimumMonthlyPayment);
+    expect(plan.unsecuredDividendPercent).toBe(0);
+    expect(plan.warnings.length).toBeGreaterThan(0);
+  });
+
+  it('caps the payment at the amount that pays unsecured creditors in full', () => {
+    const plan = buildPlanSchedule({
+      commitmentPeriodMonths: 36,
+      monthlyDisposableIncome: 5000,
+      priorityClaims: [],
+      securedArrears: [],
+      nonpriorityUnsecuredTotal: 9000,
+      trusteeFeeRate: 0.1,
+    });
+
+    expect(plan.monthlyPayment).toBeCloseTo(277.78, 2);
+    expect(plan.unsecuredDividendPercent).toBe(100);
+  });
+});
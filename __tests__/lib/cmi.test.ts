@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMeansTestDeductions,
+  calculateCMI,
+  calculateScheduleIMonthlyIncome,
+  getLookbackMonths,
+  type IncomeRecord,
+} from '@/lib/bankruptcy/case-financials';
+import { calculateForm122A2, calculateIRSAllowances } from '@/lib/bankruptcy/chapter7';
+
+const wages = (month: string, amount: number, documentId: string | null = null): IncomeRecord => ({
+  income_month: month,
+  income_source: 'employment',
+  gross_amount: amount,
+  document_id: documentId,
+});
+
+describe('getLookbackMonths', () => {
+  it('returns the six full calendar months before the filing month', () => {
+    expect(getLookbackMonths('2026-03-15')).toEqual([
+      '2025-09', '2025-10', '2025-11', '2025-12', '2026-01', '2026-02',
+    ]);
+    expect(getLookbackMonths('2026-07-01')).toEqual([
+      '2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06',
+    ]);
+  });
+});
+
+describe('calculateCMI', () => {
+  const filingDate = '2026-07-10';
+
+  it('ignores income received in the filing month or before the look-back', () => {
+    const records = ['2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06']
+      .map(month => wages(month, 3000, 'doc_1'));
+    records.push(wages('2026-07', 9000), wages('2025-12', 9000));
+
+    const cmi = calculateCMI(records, { filingDate });
+
+    expect(cmi.sixMonthTotal).toBe(18000);
+    expect(cmi.currentMonthlyIncome).toBe(3000);
+    expect(cmi.recordsOutsideLookback).toBe(2);
+    expect(cmi.isComplete).toBe(true);
+    expect(cmi.monthlyBreakdown.every(m => m.status === 'documented')).toBe(true);
+  });
+
+  it('flags months without records and still divides by six', () => {
+    const cmi = calculateCMI([
+      wages('2026-01', 6000),
+      wages('2026-03', 6000, 'doc_2'),
+    ], { filingDate });
+
+    expect(cmi.monthlyBreakdown.map(m => m.status)).toEqual([
+      'reported', 'missing', 'documented', 'missing', 'missing', 'missing',
+    ]);
+    expect(cmi.gaps).toEqual(['2026-02', '2026-04', '2026-05', '2026-06']);
+    expect(cmi.monthsCovered).toBe(2);
+    expect(cmi.currentMonthlyIncome).toBe(2000);
+  });
+
+  it('counts every source except Social Security benefits', () => {
+    const cmi = calculateCMI([
+      wages('2026-06', 2400),
+      { income_month: '2026-06', income_source: 'rental', gross_amount: '600.00' },
+      { income_month: '2026-06', income_source: 'social_security', gross_amount: 1200 },
+      { income_month: '2026-05', income_source: 'government', gross_amount: 900, description: 'SSDI benefit' },
+    ], { filingDate });
+
+    const june = cmi.monthlyBreakdown[5];
+    expect(june.totalGross).toBe(3000);
+    expect(june.excludedSocialSecurity).toBe(1200);
+    expect(june.sources).toEqual([
+      { source: 'employment', amount: 2400 },
+      { source: 'rental', amount: 600 },
+    ]);
+    // A benefits-only month still has evidence
+    expect(cmi.monthlyBreakdown[4].status).toBe('reported');
+    expect(cmi.excludedSocialSecurity).toBe(2100);
+    expect(cmi.sixMonthTotal).toBe(3000);
+  });
+
+  describe('non-filing spouse', () => {
+    const records = ['2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06'].flatMap(month => [
+      wages(month, 3000),
+      { income_month: month, income_source: 'spouse', gross_amount: 2000 },
+    ]);
+
+    it('counts the spouse in full and deducts what is not paid to the household', () => {
+      const cmi = calculateCMI(records, { filingDate, nonFilingSpouse: { householdContribution: 1500 } });
+
+      expect(cmi.currentMonthlyIncome).toBe(5000);
+      expect(cmi.spouseIncome).toBe(2000);
+      expect(cmi.maritalAdjustment).toBe(500);
+      expect(cmi.adjustedCurrentMonthlyIncome).toBe(4500);
+    });
+
+    it('makes no adjustment until the contribution is known', () => {
+      const cmi = calculateCMI(records, { filingDate });
+      expect(cmi.maritalAdjustment).toBe(0);
+      expect(cmi.adjustedCurrentMonthlyIncome).toBe(5000);
+    });
+
+    it('counts only contributions from a spouse living apart', () => {
+      const cmi = calculateCMI(records, {
+        filingDate,
+        nonFilingSpouse: { householdContribution: 400, separateHousehold: true },
+      });
+
+      expect(cmi.currentMonthlyIncome).toBe(3400);
+      expect(cmi.maritalAdjustment).toBe(0);
+    });
+
+    it('treats a joint filer spouse as a debtor', () => {
+      const cmi = calculateCMI(records, { filingDate, jointFiling: true, nonFilingSpouse: { householdContribution: 0 } });
+      expect(cmi.currentMonthlyIncome).toBe(5000);
+      expect(cmi.maritalAdjustment).toBe(0);
+    });
+
+    it('applies the marital adjustment on Form 122A-2 Line 3', () => {
+      const breakdown = calculateForm122A2(
+        5000,
+        2,
+        calculateIRSAllowances('TX', 2, 'HARRIS', true, 1, 40),
+        { maritalAdjustment: 500 }
+      );
+
+      expect(breakdown.lines.find(l => l.line === '4')?.amount).toBe(4500);
+      expect(breakdown.currentMonthlyIncome).toBe(4500);
+      expect(breakdown.monthlyDisposableIncome).toBe(Math.round((4500 - breakdown.totalDeductions) * 100) / 100);
+    });
+  });
+});
+
+describe('calculateScheduleIMonthlyIncome', () => {
+  it('averages take-home pay, including benefits CMI excludes, over months with income', () => {
+    const records: IncomeRecord[] = [
+      { ...wages('2026-05', 5000), net_amount: '3800.00' },
+      { ...wages('2026-06', 5000), net_amount: '3800.00' },
+      { income_month: '2026-06', income_source: 'social_security', gross_amount: 1200 },
+      // Filing month
+      { ...wages('2026-07', 9000), net_amount: 7000 },
+    ];
+
+    expect(calculateCMI(records, { filingDate: '2026-07-10' }).currentMonthlyIncome).toBe(1666.67);
+    expect(calculateScheduleIMonthlyIncome(records, '2026-07-10')).toBe(4400);
+  });
+});
+
+describe('buildMeansTestDeductions', () => {
+  it('carries case expenses onto Form 122A-2 Lines 16-23', () => {
+    const expenses = [
+      { category: 'taxes', monthly_amount: '900.00' },
+      { category: 'payroll_deductions', monthly_amount: '150.00' },
+      { category: 'payroll_deductions', monthly_amount: '25.50' },
+      { category: 'life_insurance', monthly_amount: '40.00' },
+      { category: 'court_ordered_payments', monthly_amount: '600.00' },
+      { category: 'education', monthly_amount: '75.00' },
+      { category: 'childcare', monthly_amount: '300.00' },
+      { category: 'telecommunications', monthly_amount: '120.00' },
+      // Covered by the housing and utilities standard
+      { category: 'utilities', monthly_amount: '250.00' },
+    ];
+    const breakdown = calculateForm122A2(
+      8000,
+      3,
+      calculateIRSAllowances('TX', 3, 'HARRIS', true, 1, 40),
+      buildMeansTestDeductions(expenses, [])
+    );
+    const line = (number: string) => breakdown.lines.find(l => l.line === number)?.amount;
+
+    expect(line('16')).toBe(900);
+    expect(line('17')).toBe(175.5);
+    expect(line('18')).toBe(40);
+    expect(line('19')).toBe(600);
+    expect(line('20')).toBe(75);
+    expect(line('21')).toBe(300);
+    expect(line('23')).toBe(120);
+  });
+});
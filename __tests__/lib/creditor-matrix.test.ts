@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCreditorMatrix,
+  formatCreditorMatrixText,
+  parseMailingAddress,
+  MATRIX_LINE_WIDTH,
+  MATRIX_MAX_LINES,
+  type MatrixDebt,
+} from '@/lib/bankruptcy/creditor-matrix';
+
+const debt = (overrides: Partial<MatrixDebt>): MatrixDebt => ({
+  id: 'debt_1',
+  creditorName: 'Creditor',
+  creditorAddress: null,
+  debtType: 'credit_card',
+  ...overrides,
+});
+
+describe('parseMailingAddress', () => {
+  it('parses comma-separated addresses with full state names', () => {
+    const { address, issues } = parseMailingAddress('P.O. Box 1234, Suite 5, Salt Lake City, Utah 84130-0285');
+
+    expect(issues).toEqual([]);
+    expect(address).toEqual({
+      lines: ['PO Box 1234', 'Suite 5'],
+      city: 'Salt Lake City',
+      state: 'UT',
+      zip: '84130-0285',
+    });
+  });
+
+  it('parses multi-line addresses and two-word states', () => {
+    const { address } = parseMailingAddress('500 Main St.\nCharleston, West Virginia 25301');
+    expect(address).toMatchObject({ lines: ['500 Main St'], city: 'Charleston', state: 'WV', zip: '25301' });
+  });
+
+  it('reports addresses it cannot mail to', () => {
+    expect(parseMailingAddress('').issues).toEqual(['No mailing address']);
+    expect(parseMailingAddress('123 Main St, Springfield').issues).toEqual(['Missing ZIP code']);
+  });
+});
+
+describe('buildCreditorMatrix', () => {
+  it('dedupes creditors across debts', () => {
+    const matrix = buildCreditorMatrix([
+      debt({ id: 'd1', creditorName: 'Capital One, N.A.', creditorAddress: 'PO Box 30285, Salt Lake City, UT 84130' }),
+      debt({ id: 'd2', creditorName: 'CAPITAL ONE', creditorAddress: 'P.O. Box 30285\nSalt Lake City UT 84130' }),
+      debt({ id: 'd3', creditorName: 'Capital One', creditorAddress: null }),
+    ], 'CA');
+
+    expect(matrix.entries).toHaveLength(1);
+    expect(matrix.entries[0].debtIds).toEqual(['d1', 'd2', 'd3']);
+  });
+
+  it('adds tax and child support notice parties', () => {
+    const matrix = buildCreditorMatrix([
+      debt({ id: 'd1', creditorName: 'State Tax', creditorAddress: '1 Capitol Ave, Austin, TX 78701', debtType: 'tax' }),
+      debt({ id: 'd2', creditorName: 'Jane Roe', creditorAddress: '2 Oak St, Dallas, TX 75201', debtType: 'child_support' }),
+    ], 'TX');
+
+    const notices = matrix.entries.filter(e => e.kind === 'notice').map(e => e.name);
+    expect(notices).toEqual([
+      'Internal Revenue Service',
+      'Office of the Attorney General',
+      'Texas Comptroller of Public Accounts',
+    ]);
+    expect(matrix.warnings).toEqual([]);
+  });
+
+  it('warns when no state notice address is on file', () => {
+    const matrix = buildCreditorMatrix([debt({ debtType: 'tax', creditorAddress: '1 Main St, Boise, ID 83702' })], 'ID');
+    expect(matrix.warnings[0]).toContain('No state taxing authority address on file for ID');
+  });
+});
+
+describe('formatCreditorMatrixText', () => {
+  it('emits fixed-width blocks separated by blank lines', () => {
+    const matrix = buildCreditorMatrix([
+      debt({ id: 'd1', creditorName: 'Acme Collections', creditorAddress: '10 Elm St, Dayton, OH 45402' }),
+      debt({
+        id: 'd2',
+        creditorName: 'Very Long Creditor Name Financial Services Incorporated',
+        creditorAddress: 'Attn: Bankruptcy Department, 123 Main Street, Floor 2, Suite 300, Dayton, OH 45402',
+      }),
+      debt({ id: 'd3', creditorName: 'No Address Bank', creditorAddress: null }),
+    ], 'OH');
+
+    const { text, warnings } = formatCreditorMatrixText(matrix);
+    const blocks = text.trimEnd().split('\r\n\r\n');
+
+    expect(blocks[0]).toBe('Acme Collections\r\n10 Elm St\r\nDayton OH 45402');
+    expect(blocks).toHaveLength(2);
+    for (const block of blocks) {
+      const lines = block.split('\r\n');
+      expect(lines.length).toBeLessThanOrEqual(MATRIX_MAX_LINES);
+      lines.forEach(line => expect(line.length).toBeLessThanOrEqual(MATRIX_LINE_WIDTH));
+      expect(lines[lines.length - 1]).toBe('Dayton OH 45402');
+    }
+    expect(warnings[0]).toContain('shortened');
+    expect(matrix.warnings.some(w => w.startsWith('No Address Bank'))).toBe(true);
+  });
+});
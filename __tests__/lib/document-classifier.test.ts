@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import {
+  classifyByKeywords,
+  classifyPages,
+  parseClassificationResponse,
+  segmentPages,
+  type PageClassification,
+} from '@/lib/extraction/document-classifier';
+import {
+  countPdfPages,
+  expandUploads,
+  extractPdfPages,
+  segmentFileName,
+  splitPdfPages,
+  UploadLimitError,
+} from '@/lib/documents/files';
+import type { CaseDevClient } from '@/lib/case-dev/client';
+
+const page = (documentType: string, overrides: Partial<PageClassification> = {}): PageClassification => ({
+  documentType,
+  confidence: 0.9,
+  method: 'llm',
+  startsNewDocument: false,
+  ...overrides,
+});
+
+const makePdf = async (pageCount: number) => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage();
+  return pdf.save();
+};
+
+const asUpload = (name: string, type: string, bytes: Uint8Array) => ({
+  name,
+  type,
+  arrayBuffer: async () => bytes.slice().buffer as ArrayBuffer,
+});
+
+describe('classifyByKeywords', () => {
+  it('picks the type with the most matching phrases', () => {
+    const result = classifyByKeywords('ACME Corp Earnings Statement\nPay Period: 03/01-03/15\nGross Pay 2,400.00\nNet Pay 1,850.00');
+    expect(result.documentType).toBe('paystub');
+    expect(result.method).toBe('keyword');
+    expect(result.confidence).toBe(0.7);
+  });
+
+  it('returns other with low confidence when nothing matches', () => {
+    const result = classifyByKeywords('Thank you for your business.');
+    expect(result).toMatchObject({ documentType: 'other', confidence: 0.2 });
+  });
+
+  it('marks first pages as starting a new document', () => {
+    expect(classifyByKeywords('Checking account statement — Page 1 of 4').startsNewDocument).toBe(true);
+    expect(classifyByKeywords('Checking account statement — Page 2 of 4').startsNewDocument).toBe(false);
+  });
+});
+
+describe('parseClassificationResponse', () => {
+  it('maps pages by number and leaves unknown types unclassified', () => {
+    const content = `Here you go:
+{"pages": [
+  {"page": 1, "documentType": "bank_statement", "startsNewDocument": true, "confidence": 0.95},
+  {"page": 3, "documentType": "grocery_receipt", "confidence": 0.9}
+]}`;
+
+    const results = parseClassificationResponse(content, 3);
+
+    expect(results[0]).toEqual({ documentType: 'bank_statement', confidence: 0.95, method: 'llm', startsNewDocument: true });
+    expect(results[1]).toBeNull();
+    expect(results[2]).toBeNull();
+  });
+
+  it('returns all nulls for unparseable content', () => {
+    expect(parseClassificationResponse('not json', 2)).toEqual([null, null]);
+  });
+});
+
+describe('classifyPages', () => {
+  it('falls back to keywords when the LLM call fails', async () => {
+    const client = {
+      completeLLM: async () => { throw new Error('LLM unavailable'); },
+    } as unknown as CaseDevClient;
+
+    const results = await classifyPages(client, [
+      'Form W-2 Wage and Tax Statement',
+      'Statement period 01/01-01/31 Beginning balance Ending balance',
+      'Transactions continued',
+    ]);
+
+    expect(results.map(r => r.documentType)).toEqual(['w2', 'bank_statement', 'bank_statement']);
+    expect(results[2].confidence).toBe(0.3);
+  });
+
+  it('uses LLM results and fills missing pages from keywords', async () => {
+    const client = {
+      completeLLM: async () => ({
+        choices: [{ message: { content: '{"pages":[{"page":1,"documentType":"mortgage","startsNewDocument":true,"confidence":0.9}]}' } }],
+      }),
+    } as unknown as CaseDevClient;
+
+    const results = await classifyPages(client, ['Loan servicing notice', 'Lease agreement between landlord and tenant']);
+
+    expect(results[0]).toMatchObject({ documentType: 'mortgage', method: 'llm' });
+    expect(results[1]).toMatchObject({ documentType: 'lease', method: 'keyword' });
+  });
+});
+
+describe('segmentPages', () => {
+  it('splits on type changes and on pages that start a new document', () => {
+    const segments = segmentPages([
+      page('paystub', { startsNewDocument: true }),
+      page('paystub', { startsNewDocument: true }),
+      page('bank_statement', { confidence: 0.8 }),
+      page('bank_statement', { confidence: 0.6, method: 'keyword' }),
+    ]);
+
+    expect(segments).toEqual([
+      { documentType: 'paystub', startPage: 1, endPage: 1, confidence: 0.9, method: 'llm' },
+      { documentType: 'paystub', startPage: 2, endPage: 2, confidence: 0.9, method: 'llm' },
+      { documentType: 'bank_statement', startPage: 3, endPage: 4, confidence: 0.7, method: 'keyword' },
+    ]);
+  });
+});
+
+describe('upload files', () => {
+  it('splits and slices PDFs by page', async () => {
+    const pdf = await makePdf(5);
+
+    expect(await splitPdfPages(pdf)).toHaveLength(5);
+    expect(await countPdfPages(await extractPdfPages(pdf, 2, 4))).toBe(3);
+  });
+
+  it('expands ZIP archives and skips unsupported files', async () => {
+    const zip = new JSZip();
+    zip.file('b-statement.pdf', await makePdf(1));
+    zip.file('a-paystub.png', new Uint8Array([1, 2, 3]));
+    zip.file('notes.txt', 'hello');
+    zip.file('__MACOSX/._b-statement.pdf', 'metadata');
+    const zipBytes = await zip.generateAsync({ type: 'uint8array' });
+
+    const { files, skipped } = await expandUploads([asUpload('scans.zip', 'application/zip', zipBytes)]);
+
+    expect(files.map(f => [f.name, f.contentType])).toEqual([
+      ['a-paystub.png', 'image/png'],
+      ['b-statement.pdf', 'application/pdf'],
+    ]);
+    expect(skipped).toEqual(['scans.zip/notes.txt']);
+  });
+
+  it('refuses archives that unpack past the batch limits before inflating them', async () => {
+    const zip = new JSZip();
+    zip.file('a.png', new Uint8Array([1]));
+    zip.file('b.png', new Uint8Array([2]));
+    zip.file('big.pdf', new Uint8Array(2 * 1024 * 1024), { compression: 'DEFLATE' });
+    const upload = asUpload('scans.zip', 'application/zip', await zip.generateAsync({ type: 'uint8array' }));
+
+    await expect(expandUploads([upload], { maxBytes: 1024 * 1024 })).rejects.toThrow(UploadLimitError);
+    await expect(expandUploads([upload], { maxEntries: 2 })).rejects.toThrow('more than 2 files');
+  });
+
+  it('stops inflating an entry that outgrows its declared size', async () => {
+    const zip = new JSZip();
+    zip.file('big.pdf', new Uint8Array(256 * 1024), { compression: 'DEFLATE' });
+    const bytes = await zip.generateAsync({ type: 'uint8array' });
+
+    // Understate the size in the central directory header
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let i = bytes.length - 22; i >= 0; i--) {
+      if (view.getUint32(i, true) === 0x02014b50) {
+        view.setUint32(i + 24, 1024, true);
+        break;
+      }
+    }
+
+    await expect(expandUploads([asUpload('scans.zip', 'application/zip', bytes)])).rejects.toThrow(
+      'unpacks to more than its archive header declares'
+    );
+  });
+
+  it('names page ranges cut from a larger file', () => {
+    expect(segmentFileName('scan.pdf', 3, 7)).toBe('scan (pages 3-7).pdf');
+    expect(segmentFileName('scan.pdf', 2, 2)).toBe('scan (page 2).pdf');
+  });
+});
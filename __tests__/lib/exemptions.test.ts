@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  determineExemptionDomicile,
+  getAvailableExemptionSchemes,
+  allocateExemptions,
+  analyzeCaseExemptions,
+  FEDERAL_EXEMPTIONS,
+  getExemptionScheme,
+  getStateExemptionSchedule,
+} from '@/lib/bankruptcy/exemptions';
+
+const FILING_DATE = '2026-06-01';
+
+describe('determineExemptionDomicile', () => {
+  it('uses the state of residence for the full 730 days', () => {
+    const result = determineExemptionDomicile(
+      [{ state: 'TX', fromDate: '2020-01-01', toDate: null }],
+      FILING_DATE
+    );
+
+    expect(result.state).toBe('TX');
+    expect(result.rule).toBe('730_day');
+  });
+
+  it('falls back to the longest residence in the prior 180 days after a recent move', () => {
+    const result = determineExemptionDomicile(
+      [
+        { state: 'FL', fromDate: '2018-01-01', toDate: '2025-01-31' },
+        { state: 'TX', fromDate: '2025-02-01', toDate: null },
+      ],
+      FILING_DATE
+    );
+
+    expect(result.state).toBe('FL');
+    expect(result.rule).toBe('180_day_prior');
+  });
+
+  it('warns when the domicile state differs from the current state', () => {
+    const domicile = determineExemptionDomicile(
+      [
+        { state: 'FL', fromDate: '2018-01-01', toDate: '2025-01-31' },
+        { state: 'TX', fromDate: '2025-02-01', toDate: null },
+      ],
+      FILING_DATE
+    );
+    const { schemes, warnings } = getAvailableExemptionSchemes(domicile, 'TX');
+
+    expect(schemes.map(s => s.id)).toEqual(['FL']);
+    expect(warnings.length).toBeGreaterThan(0);
+  });
+
+  it('offers both California systems and no federal election', () => {
+    const domicile = determineExemptionDomicile([{ state: 'CA', fromDate: '2015-01-01' }], FILING_DATE);
+
+    expect(getAvailableExemptionSchemes(domicile, 'CA').schemes.map(s => s.id)).toEqual(['CA_704', 'CA_703']);
+    expect(getExemptionScheme('CA_703')?.name).toBe('California Exemptions (§ 703.140(b))');
+  });
+
+  it('reports an opt-out state without a schedule as not supported', () => {
+    const domicile = determineExemptionDomicile([{ state: 'OH', fromDate: '2015-01-01' }], FILING_DATE);
+    const { status, schemes, warnings } = getAvailableExemptionSchemes(domicile, 'OH');
+
+    expect(status).toBe('not_supported');
+    expect(schemes).toEqual([]);
+    expect(warnings).toContain('OH exemption schedule is not yet supported; prepare Schedule C manually');
+    expect(getAvailableExemptionSchemes(
+      determineExemptionDomicile([{ state: 'TX', fromDate: '2015-01-01' }], FILING_DATE),
+      'TX'
+    ).status).toBe('supported');
+  });
+});
+
+describe('allocateExemptions', () => {
+  it('rolls unused federal homestead into the wildcard', () => {
+    const analysis = allocateExemptions(
+      [{ id: 'acct', assetType: 'bank_account', description: 'Savings', currentValue: 20000 }],
+      FEDERAL_EXEMPTIONS
+    );
+
+    const claims = analysis.allocations[0].claims;
+    expect(claims).toHaveLength(1);
+    expect(claims[0].ruleId).toBe('federal_wildcard');
+    expect(claims[0].amount).toBe(1675 + 15800);
+    expect(analysis.totalNonExempt).toBe(20000 - 17475);
+  });
+
+  it('limits household goods to the per-item cap', () => {
+    const analysis = allocateExemptions(
+      [{ id: 'sofa', assetType: 'household_goods', description: 'Sofa', currentValue: 1000 }],
+      FEDERAL_EXEMPTIONS
+    );
+
+    const claims = analysis.allocations[0].claims;
+    expect(claims.find(c => c.ruleId === 'federal_household_goods')?.amount).toBe(800);
+    expect(claims.find(c => c.ruleId === 'federal_wildcard')?.amount).toBe(200);
+  });
+
+  it('skips the Florida wildcard when a homestead is claimed', () => {
+    const florida = getStateExemptionSchedule('FL')!.schemes[0];
+    const analysis = allocateExemptions(
+      [
+        { id: 'home', assetType: 'real_estate', description: 'Residence', currentValue: 300000, liens: 200000 },
+        { id: 'acct', assetType: 'bank_account', description: 'Checking', currentValue: 3000 },
+      ],
+      florida
+    );
+
+    const claimedRules = analysis.allocations.flatMap(a => a.claims.map(c => c.ruleId));
+    expect(claimedRules).toContain('fl_homestead');
+    expect(claimedRules).not.toContain('fl_wildcard');
+    expect(analysis.allocations[1].totalExempt).toBe(1000);
+  });
+});
+
+describe('analyzeCaseExemptions', () => {
+  it('recommends the more protective scheme when a federal election is allowed', () => {
+    const result = analyzeCaseExemptions({
+      assets: [
+        { id: 'home', assetType: 'real_estate', description: 'Residence', currentValue: 250000 },
+      ],
+      debts: [{ secured: true, debtType: 'mortgage', balance: 150000, collateral: null }],
+      currentState: 'TX',
+      filingDate: FILING_DATE,
+    });
+
+    expect(result.analyses.map(a => a.scheme.id).sort()).toEqual(['TX', 'federal']);
+    expect(result.recommended?.scheme.id).toBe('TX');
+    expect(result.recommended?.totalExempt).toBe(100000);
+  });
+
+  it('applies the domicile rule as of the filing date', () => {
+    const input = {
+      assets: [{ id: 'acct', assetType: 'bank_account', description: 'Savings', currentValue: 1000 }],
+      debts: [],
+      currentState: 'NY',
+      residenceHistory: [{ state: 'FL', fromDate: '2015-01-01', toDate: '2024-12-31' }],
+    };
+
+    expect(analyzeCaseExemptions({ ...input, filingDate: '2025-06-01' }).domicile.state).toBe('FL');
+    expect(analyzeCaseExemptions({ ...input, filingDate: '2027-06-01' }).domicile.state).toBe('NY');
+  });
+
+  it('recommends nothing when the domicile state is not supported', () => {
+    const result = analyzeCaseExemptions({
+      assets: [{ id: 'acct', assetType: 'bank_account', description: 'Savings', currentValue: 1000 }],
+      debts: [],
+      currentState: 'OH',
+      filingDate: FILING_DATE,
+    });
+
+    expect(result.scheduleStatus).toBe('not_supported');
+    expect(result.analyses).toEqual([]);
+    expect(result.recommended).toBeNull();
+  });
+});
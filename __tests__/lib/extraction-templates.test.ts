@@ -0,0 +1,139 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  bankStatementToAsset,
+  matchTemplate,
+  payFrequencyOf,
+  payStubToMonthlyIncome,
+  templateTaxForm,
+  type ParsedBankStatement,
+  type ParsedPayStub,
+  type ParsedTaxReturn,
+  type TemplateResult,
+} from '@/lib/extraction/templates';
+
+const FIXTURES = path.join(__dirname, '../fixtures/extraction');
+
+interface Expected {
+  documentType: string;
+  parserId: string | null;
+  result: Record<string, string | number | null> | null;
+}
+
+const fixtures = readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.txt'))
+  .map(file => {
+    const name = file.replace(/\.txt$/, '');
+    return {
+      name,
+      text: readFileSync(path.join(FIXTURES, file), 'utf8'),
+      expected: JSON.parse(readFileSync(path.join(FIXTURES, `${name}.expected.json`), 'utf8')) as Expected,
+    };
+  });
+
+// Drop the character offsets so results compare against plain values
+function values(result: TemplateResult): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(result).map(([key, field]) => [
+      key,
+      field && typeof field === 'object' && 'value' in field ? field.value : field,
+    ])
+  );
+}
+
+function fixture(name: string) {
+  const found = fixtures.find(entry => entry.name === name);
+  if (!found) throw new Error(`Missing fixture ${name}`);
+  return found;
+}
+
+describe('template fixtures', () => {
+  it.each(fixtures.map(entry => [entry.name, entry] as const))('%s', (_name, { text, expected }) => {
+    const match = matchTemplate(text, expected.documentType);
+
+    expect(match?.parserId ?? null).toBe(expected.parserId);
+    expect(match ? values(match.result) : null).toEqual(expected.result);
+  });
+});
+
+describe('matchTemplate', () => {
+  it('only considers parsers for the document type', () => {
+    expect(matchTemplate(fixture('adp-paystub').text, 'bank_statement')).toBeNull();
+  });
+
+  it('falls back when a required field is missing', () => {
+    const text = fixture('adp-paystub').text.replace(/Gross Pay.*\n/, '');
+    expect(matchTemplate(text, 'paystub')).toBeNull();
+  });
+
+  it('keeps the sign of an overdrawn balance', () => {
+    const text = fixture('chase-statement').text.replace('$2,468.82', '-$12.40');
+    const match = matchTemplate(text, 'bank_statement');
+    expect((match?.result as ParsedBankStatement).endingBalance.value).toBe(-12.4);
+  });
+
+  it('reads a loss printed in parentheses on a tax form', () => {
+    const text = fixture('form-1040').text.replace(/(Attach Schedule C[ .]+3\s+)18,400\./, '$1(2,150.)');
+    const match = matchTemplate(text, 'tax_return');
+    expect((match?.result as ParsedTaxReturn).businessIncome?.value).toBe(-2150);
+  });
+});
+
+describe('payFrequencyOf', () => {
+  const frequencyOf = (name: string) =>
+    payFrequencyOf(matchTemplate(fixture(name).text, 'paystub')?.result as ParsedPayStub);
+
+  it('infers the frequency from the pay period', () => {
+    expect(frequencyOf('adp-paystub')).toBe('biweekly');
+    expect(frequencyOf('gusto-paystub')).toBe('semi_monthly');
+  });
+});
+
+describe('conversions', () => {
+  it('turns a pay stub into monthly income with sources', () => {
+    const { text } = fixture('gusto-paystub');
+    const stub = matchTemplate(text, 'paystub')!.result as ParsedPayStub;
+    const income = payStubToMonthlyIncome(stub, 'Gusto', text);
+
+    expect(income).toMatchObject({
+      incomeMonth: '2025-02',
+      grossAmount: 3125,
+      netAmount: 2414.91,
+      employer: 'Brightline Studio Inc.',
+      incomeSource: 'employment',
+    });
+    expect(income.fieldSources.grossAmount.snippet).toBe('$3,125.00');
+    expect(income.fieldSources.incomeMonth.snippet).toBe('Feb 05, 2025');
+  });
+
+  it('turns a bank statement into a bank account asset', () => {
+    const { text } = fixture('capital-one-statement');
+    const statement = matchTemplate(text, 'bank_statement')!.result as ParsedBankStatement;
+    const asset = bankStatementToAsset(statement, 'capital_one', text);
+
+    expect(asset).toMatchObject({
+      assetType: 'bank-account',
+      description: 'Capital One savings account ****4417',
+      estimatedValue: 4480.55,
+      accountLast4: '4417',
+      statementDate: '2025-06-30',
+      source: 'template:capital_one',
+    });
+    expect(asset.fieldSources.estimatedValue.snippet).toBe('$4,480.55');
+  });
+
+  it('turns a 1040 into tax form figures with sources', () => {
+    const { text } = fixture('form-1040');
+    const form = templateTaxForm(matchTemplate(text, 'tax_return')!, text);
+
+    expect(form).toMatchObject({
+      formType: '1040',
+      taxYear: 2024,
+      adjustedGrossIncome: 69558,
+      refund: 1250,
+      source: 'template:form_1040',
+    });
+    expect(form?.fieldSources.refund).toMatchObject({ page: 2, snippet: '1,250.' });
+  });
+});
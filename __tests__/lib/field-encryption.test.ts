@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import {
+  FieldCipher,
+  isEncryptedValue,
+  keyVersionOf,
+  unwrapDataKey,
+  wrapDataKey,
+} from '@/lib/db/field-encryption';
+
+const keyring = (...versions: number[]) => new Map(versions.map(version => [version, crypto.randomBytes(32)]));
+
+describe('FieldCipher', () => {
+  it('round-trips values under the active key version', () => {
+    const cipher = new FieldCipher(keyring(1), 1);
+    const encrypted = cipher.encrypt('4111111111111111');
+
+    expect(isEncryptedValue(encrypted)).toBe(true);
+    expect(keyVersionOf(encrypted)).toBe(1);
+    expect(encrypted).not.toContain('4111111111111111');
+    expect(cipher.decrypt(encrypted)).toBe('4111111111111111');
+  });
+
+  it('uses a fresh IV for each value', () => {
+    const cipher = new FieldCipher(keyring(1), 1);
+
+    expect(cipher.encrypt('123-45-6789')).not.toBe(cipher.encrypt('123-45-6789'));
+  });
+
+  it('passes nulls and plaintext written before encryption through', () => {
+    const cipher = new FieldCipher(keyring(1), 1);
+
+    expect(cipher.encrypt(null)).toBeNull();
+    expect(cipher.decrypt(null)).toBeNull();
+    expect(cipher.decrypt('PAGE 1 plain OCR text')).toBe('PAGE 1 plain OCR text');
+    expect(cipher.encrypt('')).not.toBe('');
+    expect(cipher.decrypt(cipher.encrypt(''))).toBe('');
+  });
+
+  it('reads values from retired key versions and flags them for rotation', () => {
+    const keys = keyring(1, 2);
+    const old = new FieldCipher(keys, 1).encrypt('1980-01-15');
+    const current = new FieldCipher(keys, 2);
+
+    expect(current.decrypt(old)).toBe('1980-01-15');
+    expect(current.isCurrent(old)).toBe(false);
+    expect(current.isCurrent('plaintext')).toBe(false);
+    expect(current.isCurrent(current.encrypt('1980-01-15'))).toBe(true);
+    expect(current.isCurrent(null)).toBe(true);
+  });
+
+  it('refuses values from purged key versions and tampered ciphertext', () => {
+    const encrypted = new FieldCipher(keyring(1), 1).encrypt('secret');
+    const other = new FieldCipher(keyring(2), 2);
+
+    expect(() => other.decrypt(encrypted)).toThrow('Data key version 1 is not available');
+
+    const keys = keyring(1);
+    const cipher = new FieldCipher(keys, 1);
+    const parts = cipher.encrypt('secret').split(':');
+    parts[5] = Buffer.from('tampered').toString('base64');
+    expect(() => cipher.decrypt(parts.join(':'))).toThrow();
+  });
+
+  it('requires the active key to be loaded', () => {
+    expect(() => new FieldCipher(keyring(1), 2)).toThrow('Active data key version 2 is missing');
+  });
+});
+
+describe('data key wrapping', () => {
+  it('wraps data keys with the server key', () => {
+    const key = crypto.randomBytes(32);
+    const wrapped = wrapDataKey(key);
+
+    expect(wrapped).not.toContain(key.toString('hex'));
+    expect(unwrapDataKey(wrapped).equals(key)).toBe(true);
+  });
+});
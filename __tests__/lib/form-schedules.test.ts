@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapToForm106C,
+  mapToForm106G,
+  mapToForm106H,
+  mapToForm106Sum,
+  mapAllForms,
+  type FormData,
+} from '@/lib/bankruptcy/form-mapper';
+
+const debt = (overrides: Partial<FormData['debts'][number]>): FormData['debts'][number] => ({
+  id: 'debt_1',
+  creditorName: 'Creditor',
+  creditorAddress: null,
+  accountLast4: null,
+  balance: 0,
+  monthlyPayment: null,
+  interestRate: null,
+  debtType: 'credit_card',
+  secured: false,
+  priority: false,
+  collateral: null,
+  collateralValue: null,
+  ...overrides,
+});
+
+const baseData: FormData = {
+  caseData: {
+    id: 'case_1',
+    clientName: 'Jane Doe',
+    caseNumber: null,
+    caseType: 'chapter7',
+    status: 'intake',
+    createdAt: '2026-01-01',
+    state: 'TX',
+    householdSize: 1,
+    filingDate: null,
+  },
+  income: [],
+  expenses: [{ id: 'exp_1', category: 'housing', description: 'Rent', monthlyAmount: 1200 }],
+  assets: [
+    {
+      id: 'asset_1',
+      assetType: 'vehicle',
+      description: '2018 Honda Civic',
+      currentValue: 9000,
+      address: null,
+      make: 'Honda',
+      model: 'Civic',
+      year: 2018,
+      vin: null,
+      institution: null,
+      accountNumberLast4: null,
+      ownershipPercentage: 100,
+    },
+  ],
+  debts: [
+    debt({ id: 'debt_auto', creditorName: 'Ally', balance: 7000, debtType: 'auto_loan', secured: true }),
+    debt({ id: 'debt_card', creditorName: 'Chase', balance: 12000 }),
+    debt({ id: 'debt_tax', creditorName: 'IRS', balance: 3000, debtType: 'tax', priority: true }),
+  ],
+  contracts: [
+    {
+      id: 'contract_1',
+      counterpartyName: 'Oakwood Apartments',
+      counterpartyAddress: null,
+      contractType: 'residential_lease',
+      description: 'Apartment lease',
+      monthlyPayment: 1200,
+      expirationDate: '2026-12-31',
+    },
+  ],
+  codebtors: [
+    { id: 'cb_1', debtId: 'debt_auto', name: 'John Doe', address: null, relationship: 'Spouse' },
+    { id: 'cb_2', debtId: 'missing', name: 'Orphan', address: null, relationship: null },
+  ],
+};
+
+describe('mapToForm106C', () => {
+  it('marks Schedule C for a state whose schedule is not supported', () => {
+    const form = mapToForm106C({ ...baseData, caseData: { ...baseData.caseData, state: 'OH' } });
+
+    expect(form.scheduleStatus).toBe('not_supported');
+    expect(form.claims).toEqual([]);
+    expect(form.schemeName).toBe('OH exemptions (claimed manually)');
+    expect(form.warnings).toContain('OH exemption schedule is not yet supported; prepare Schedule C manually');
+    expect(mapToForm106C(baseData).scheduleStatus).toBe('supported');
+  });
+});
+
+describe('mapToForm106G', () => {
+  it('lists contracts with readable types', () => {
+    const form = mapToForm106G(baseData);
+
+    expect(form.contracts).toHaveLength(1);
+    expect(form.contracts[0].contractType).toBe('Residential lease');
+    expect(form.contracts[0].monthlyPayment).toBe(1200);
+  });
+});
+
+describe('mapToForm106H', () => {
+  it('links codebtors to their debt schedule and flags community property states', () => {
+    const form = mapToForm106H(baseData);
+
+    expect(form.codebtors).toEqual([
+      { name: 'John Doe', address: '', relationship: 'Spouse', creditorName: 'Ally', schedule: 'D' },
+    ]);
+    expect(form.livedInCommunityPropertyState).toBe(true);
+    expect(form.communityPropertyStates).toEqual(['TX']);
+  });
+});
+
+describe('mapToForm106Sum', () => {
+  it('carries totals from the schedules', () => {
+    const form = mapToForm106Sum(baseData);
+
+    expect(form.assets.total).toBe(9000);
+    expect(form.liabilities).toEqual({
+      securedClaims: 7000,
+      priorityClaims: 3000,
+      nonpriorityClaims: 12000,
+      total: 22000,
+    });
+    expect(form.monthlyExpenses).toBe(1200);
+    expect(form.primarilyConsumerDebts).toBe(true);
+    expect(form.certainClaims.taxes).toBe(3000);
+    expect(form.certainClaims.total).toBe(3000);
+  });
+});
+
+describe('mapAllForms', () => {
+  it('includes the complete schedule packet', () => {
+    const forms = mapAllForms(baseData);
+
+    expect(Object.keys(forms)).toEqual(
+      expect.arrayContaining(['form106G', 'form106H', 'form106Sum', 'form106Dec'])
+    );
+  });
+});
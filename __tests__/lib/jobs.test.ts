@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import type postgres from 'postgres';
+import {
+  getFailureOutcome,
+  getRetryDelay,
+  runJobSteps,
+  summarizeDocumentJob,
+  JobDeferredError,
+  JobFailedError,
+  type Job,
+  type JobHandler,
+  type JobRecorder,
+} from '@/lib/jobs';
+import type { CaseDevClient } from '@/lib/case-dev/client';
+
+const makeJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job_1',
+  jobType: 'test',
+  caseId: 'case_1',
+  subjectId: 'doc_1',
+  status: 'running',
+  payload: {},
+  currentStep: null,
+  stepResults: {},
+  progress: 0,
+  message: null,
+  attempts: 1,
+  maxAttempts: 5,
+  runAfter: '2026-01-01T00:00:00.000Z',
+  lastError: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  completedAt: null,
+  ...overrides,
+});
+
+const makeRecorder = () => {
+  const saved: Record<string, Record<string, unknown>> = {};
+  const reported: string[] = [];
+  const recorder: JobRecorder = {
+    report: async update => {
+      reported.push(update.message);
+    },
+    saveStepResult: async (step, result) => {
+      saved[step] = result;
+    },
+  };
+  return { recorder, saved, reported };
+};
+
+const options = (recorder: JobRecorder) => ({
+  sql: {} as postgres.Sql,
+  getClient: () => ({}) as CaseDevClient,
+  getApiKey: () => 'test-key',
+  recorder,
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay after each attempt', () => {
+    expect(getRetryDelay(1)).toBe(5000);
+    expect(getRetryDelay(2)).toBe(10000);
+    expect(getRetryDelay(3)).toBe(20000);
+  });
+
+  it('caps the delay at five minutes', () => {
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('getFailureOutcome', () => {
+  it('retries ordinary errors with backoff', () => {
+    expect(getFailureOutcome({ attempts: 2, maxAttempts: 5 }, new Error('timeout'))).toEqual({
+      status: 'retry',
+      delayMs: 10000,
+      error: 'timeout',
+    });
+  });
+
+  it('fails once attempts are used up', () => {
+    expect(getFailureOutcome({ attempts: 5, maxAttempts: 5 }, new Error('timeout'))).toEqual({
+      status: 'failed',
+      error: 'timeout',
+    });
+  });
+
+  it('fails immediately on JobFailedError', () => {
+    const outcome = getFailureOutcome({ attempts: 1, maxAttempts: 5 }, new JobFailedError('Document not found'));
+    expect(outcome.status).toBe('failed');
+  });
+
+  it('defers without counting as a failure', () => {
+    const outcome = getFailureOutcome({ attempts: 5, maxAttempts: 5 }, new JobDeferredError('Waiting for OCR', 5000));
+    expect(outcome).toEqual({ status: 'deferred', delayMs: 5000, message: 'Waiting for OCR' });
+  });
+});
+
+describe('runJobSteps', () => {
+  it('runs steps in order and saves each result', async () => {
+    const order: string[] = [];
+    const handler: JobHandler = {
+      jobType: 'test',
+      completedMessage: 'Done',
+      steps: [
+        { name: 'first', progress: 10, message: 'First', run: async () => { order.push('first'); return { a: 1 }; } },
+        {
+          name: 'second',
+          progress: 50,
+          message: 'Second',
+          run: async ({ results }) => { order.push('second'); return { b: Number(results.first.a) + 1 }; },
+        },
+      ],
+    };
+    const { recorder, saved, reported } = makeRecorder();
+
+    const outcome = await runJobSteps(makeJob(), handler, options(recorder));
+
+    expect(order).toEqual(['first', 'second']);
+    expect(saved).toEqual({ first: { a: 1 }, second: { b: 2 } });
+    expect(reported).toEqual(['First', 'Second']);
+    expect(outcome).toEqual({ status: 'completed', results: { first: { a: 1 }, second: { b: 2 } } });
+  });
+
+  it('resumes after the steps a previous attempt completed', async () => {
+    const order: string[] = [];
+    const handler: JobHandler = {
+      jobType: 'test',
+      completedMessage: 'Done',
+      steps: ['ocr', 'validate', 'extract'].map(name => ({
+        name,
+        progress: 0,
+        message: name,
+        run: async () => { order.push(name); return { ok: true }; },
+      })),
+    };
+    const { recorder } = makeRecorder();
+
+    await runJobSteps(makeJob({ stepResults: { ocr: { ocrTextLength: 1200 } } }), handler, options(recorder));
+
+    expect(order).toEqual(['validate', 'extract']);
+  });
+
+  it('stops at a failing step without saving it', async () => {
+    const handler: JobHandler = {
+      jobType: 'test',
+      completedMessage: 'Done',
+      steps: [
+        { name: 'first', progress: 0, message: 'First', run: async () => ({ ok: true }) },
+        { name: 'second', progress: 0, message: 'Second', run: async () => { throw new Error('LLM unavailable'); } },
+        { name: 'third', progress: 0, message: 'Third', run: async () => ({ ok: true }) },
+      ],
+    };
+    const { recorder, saved } = makeRecorder();
+
+    const outcome = await runJobSteps(makeJob({ attempts: 1 }), handler, options(recorder));
+
+    expect(Object.keys(saved)).toEqual(['first']);
+    expect(outcome).toEqual({ status: 'retry', delayMs: 5000, error: 'LLM unavailable' });
+  });
+});
+
+describe('summarizeDocumentJob', () => {
+  it('reports extraction counts from the step results', () => {
+    const summary = summarizeDocumentJob(makeJob({
+      status: 'completed',
+      stepResults: {
+        ocr: { ocrTextLength: 2400 },
+        validate: { validationStatus: 'needs_review', validationNotes: 'Missing pay date' },
+        extract: { extractedIncomeCount: 2, extractionWarnings: ['Skipped duplicate income'] },
+        reconcile: { skipped: true },
+      },
+    }));
+
+    expect(summary).toMatchObject({
+      validationStatus: 'needs_review',
+      validationNotes: 'Missing pay date',
+      ocrTextLength: 2400,
+      extractedIncomeCount: 2,
+      extractedDebtCount: 0,
+      extractionWarnings: ['Skipped duplicate income'],
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMeansTest,
+  calculateIRSAllowances,
+  calculateForm122A2,
+  getAdditionalFoodClothingLimit,
+  CHAPTER_7_LIMITS,
+} from '@/lib/bankruptcy/chapter7';
+
+const lineAmount = (lines: { line: string; amount: number }[], line: string) =>
+  lines.find(l => l.line === line)?.amount;
+
+describe('calculateMeansTest', () => {
+  // Single TX debtor with one vehicle; the tax deduction keeps CMI above median
+  const deductions = { taxes: 3000 };
+  const baseDeductions = calculateForm122A2(
+    0,
+    1,
+    calculateIRSAllowances('TX', 1, 'HARRIS', true, 1, 40),
+    deductions
+  ).totalDeductions;
+
+  const runAboveMedian = (sixtyMonthDisposable: number, unsecuredDebt: number) =>
+    calculateMeansTest(
+      'TX',
+      1,
+      baseDeductions + sixtyMonthDisposable / 60,
+      0,
+      unsecuredDebt,
+      'HARRIS',
+      true,
+      1,
+      40,
+      deductions
+    );
+
+  it('passes below-median debtors without a Form 122A-2 breakdown', () => {
+    const result = calculateMeansTest('TX', 1, 3000, 2500, 20000, 'HARRIS');
+
+    expect(result.isAboveMedian).toBe(false);
+    expect(result.passes).toBe(true);
+    expect(result.presumptionOfAbuse).toBe(false);
+    expect(result.breakdown).toBeUndefined();
+  });
+
+  it('finds no presumption when 60-month disposable income is below the lower threshold', () => {
+    const result = runAboveMedian(CHAPTER_7_LIMITS.lowerThreshold60 - 600, 10000);
+
+    expect(result.isAboveMedian).toBe(true);
+    expect(result.presumptionOfAbuse).toBe(false);
+    expect(result.passes).toBe(true);
+    expect(result.breakdown?.unsecuredDebtThreshold).toBeUndefined();
+  });
+
+  it('finds a presumption when 60-month disposable income exceeds the upper threshold', () => {
+    const result = runAboveMedian(CHAPTER_7_LIMITS.upperThreshold60 + 600, 1000000);
+
+    expect(result.presumptionOfAbuse).toBe(true);
+    expect(result.passes).toBe(false);
+    expect(result.sixtyMonthDisposable).toBeCloseTo(CHAPTER_7_LIMITS.upperThreshold60 + 600, 0);
+  });
+
+  it('applies the 25% unsecured debt test between the thresholds', () => {
+    const between = 12000;
+
+    const smallDebt = runAboveMedian(between, 40000);
+    expect(smallDebt.presumptionOfAbuse).toBe(true);
+    expect(smallDebt.breakdown?.unsecuredDebtThreshold).toBe(10000);
+
+    const largeDebt = runAboveMedian(between, 60000);
+    expect(largeDebt.presumptionOfAbuse).toBe(false);
+    expect(lineAmount(largeDebt.breakdown!.lines, '41b')).toBe(15000);
+  });
+});
+
+describe('calculateForm122A2', () => {
+  const allowances = calculateIRSAllowances('TX', 2, 'HARRIS', true, 1, 40);
+
+  it('averages secured and priority debt payments over 60 months', () => {
+    const breakdown = calculateForm122A2(10000, 2, allowances, {
+      securedDebts: [
+        { monthlyPayment: 600, monthsRemaining: 30, cureAmount: 1200, collateralType: 'other' },
+        { monthlyPayment: 200 },
+      ],
+      priorityDebtTotal: 6000,
+    });
+
+    expect(lineAmount(breakdown.lines, '33')).toBe(500);
+    expect(lineAmount(breakdown.lines, '34')).toBe(20);
+    expect(lineAmount(breakdown.lines, '35')).toBe(100);
+    expect(breakdown.debtPaymentDeductions).toBe(620);
+  });
+
+  it('offsets vehicle ownership by vehicle loan payments', () => {
+    const breakdown = calculateForm122A2(10000, 2, allowances, {
+      securedDebts: [{ monthlyPayment: 100000, collateralType: 'vehicle' }],
+    });
+
+    expect(lineAmount(breakdown.lines, '13')).toBe(0);
+  });
+
+  it('caps additional food and clothing at 5% of the standard', () => {
+    const breakdown = calculateForm122A2(10000, 2, allowances, {
+      additionalFoodClothing: 10000,
+    });
+
+    expect(lineAmount(breakdown.lines, '30')).toBe(getAdditionalFoodClothingLimit(2));
+  });
+
+  it('totals Line 38 from Lines 24, 32, and 37', () => {
+    const breakdown = calculateForm122A2(10000, 2, allowances, {
+      taxes: 1500,
+      childcare: 400,
+      healthInsurance: 300,
+    });
+
+    expect(breakdown.totalDeductions).toBeCloseTo(
+      breakdown.irsStandardDeductions +
+        breakdown.additionalExpenseDeductions +
+        breakdown.debtPaymentDeductions,
+      2
+    );
+    expect(breakdown.monthlyDisposableIncome).toBeCloseTo(10000 - breakdown.totalDeductions, 2);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getTableConfig, PgTable } from 'drizzle-orm/pg-core';
+import { loadMigrations, splitStatements } from '@/lib/db/migrate';
+import * as caseSchema from '@/lib/db/case-schema';
+import { SOFA_SECTIONS } from '@/lib/bankruptcy/sofa';
+
+describe('splitStatements', () => {
+  it('splits on statement breakpoints and drops blanks', () => {
+    const text = 'CREATE TABLE a (id text);\n--> statement-breakpoint\nCREATE TABLE b (id text);\n--> statement-breakpoint\n';
+
+    expect(splitStatements(text)).toEqual(['CREATE TABLE a (id text);', 'CREATE TABLE b (id text);']);
+  });
+});
+
+describe('loadMigrations', () => {
+  const migrations = loadMigrations();
+
+  it('loads case migrations in version order starting at the baseline', () => {
+    expect(migrations[0].name).toBe('0000_baseline');
+    expect(migrations.map(m => m.version)).toEqual(migrations.map((_, i) => i));
+  });
+
+  it('checksums each file', () => {
+    for (const migration of migrations) {
+      expect(migration.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(migration.statements.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('keeps the baseline idempotent for databases created by the old inline DDL', () => {
+    const creates = migrations[0].statements.filter(s => /^CREATE (UNIQUE )?(TABLE|INDEX)/.test(s));
+
+    expect(creates.length).toBeGreaterThan(0);
+    expect(creates.every(s => s.includes('IF NOT EXISTS'))).toBe(true);
+  });
+});
+
+describe('case schema', () => {
+  const tables = new Map(
+    Object.values(caseSchema)
+      .filter(value => value instanceof PgTable)
+      .map(table => {
+        const config = getTableConfig(table);
+        return [config.name, config.columns.map(column => column.name)];
+      })
+  );
+
+  it('has a table for every SOFA section with its field columns', () => {
+    for (const section of SOFA_SECTIONS) {
+      const columns = tables.get(section.table);
+
+      expect(columns, section.table).toBeDefined();
+      for (const field of section.fields) {
+        expect(columns, `${section.table}.${field.column}`).toContain(field.column);
+      }
+    }
+  });
+});
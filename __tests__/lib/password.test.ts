@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from '@/lib/auth/password';
+
+describe('password hashing', () => {
+  it('verifies the password it hashed and rejects others', async () => {
+    const stored = await hashPassword('correct horse battery');
+
+    expect(stored).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(await verifyPassword('correct horse battery', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse battery', stored)).toBe(false);
+  });
+
+  it('salts each hash', async () => {
+    expect(await hashPassword('same password')).not.toBe(await hashPassword('same password'));
+  });
+
+  it('rejects stored values it did not produce', async () => {
+    expect(await verifyPassword('anything', 'plaintext')).toBe(false);
+    expect(await verifyPassword('anything', 'bcrypt:abc:def')).toBe(false);
+  });
+});
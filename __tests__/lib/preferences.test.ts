@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzePreferences,
+  creditorMatches,
+  insiderMatches,
+  preferenceSofaSuggestions,
+  preferenceThreshold,
+  type Insider,
+  type PaymentEvidence,
+  type PreferenceDebt,
+  type PreferenceInput,
+} from '@/lib/bankruptcy/preferences';
+
+const debts: PreferenceDebt[] = [
+  { id: 'd1', documentId: null, creditorName: 'Capital One Bank (USA), N.A.', creditorAddress: 'PO Box 30285', accountLast4: '1234', balance: 2400, debtType: 'credit_card' },
+  { id: 'd2', documentId: null, creditorName: 'Ford Motor Credit', creditorAddress: null, accountLast4: null, balance: 9100, debtType: 'auto_loan' },
+  { id: 'd3', documentId: 'doc_card', creditorName: 'Chase Card Services', creditorAddress: null, accountLast4: '9911', balance: 1800, debtType: 'credit_card' },
+];
+
+const insiders: Insider[] = [
+  { id: 'i1', name: 'Maria Sample', relationship: 'Mother', source: 'insider_list', debtId: null },
+  { id: 'c1', name: 'Daniel Sample', relationship: 'Brother', source: 'codebtor', debtId: 'd2' },
+];
+
+function payment(postedDate: string, description: string, amount: number): PaymentEvidence {
+  return {
+    id: `${postedDate}|${description}`,
+    source: 'bank_statement',
+    documentId: 'doc_bank',
+    accountLast4: '7735',
+    postedDate,
+    description,
+    amount,
+  };
+}
+
+const cardStatement = `Chase Card Services
+Statement Date: 05/20/2025
+Opening/Closing Date 04/21/25 - 05/20/25
+
+PAYMENTS AND OTHER CREDITS
+05/02   Payment Thank You - Web                 -650.00
+05/10   Payment Thank You - Web                 -200.00
+
+PURCHASES
+04/25   KROGER #1234                              88.12
+05/15   LATE PAYMENT FEE                          40.00
+`;
+
+function input(overrides: Partial<PreferenceInput> = {}): PreferenceInput {
+  return {
+    filingDate: '2025-06-30',
+    filingDateEstimated: false,
+    debts,
+    insiders,
+    bankPayments: [
+      payment('2025-04-05', 'CAPITAL ONE MOBILE PMT', 300),
+      payment('2025-05-05', 'CAPITAL ONE MOBILE PMT', 300),
+      payment('2025-06-05', 'CAPITAL ONE MOBILE PMT', 300),
+      // Before the 90 days
+      payment('2025-03-01', 'CAPITAL ONE MOBILE PMT', 300),
+      payment('2024-11-12', 'ZELLE PAYMENT TO MARIA SAMPLE', 1500),
+      payment('2025-01-15', 'FORD MOTOR CREDIT PMT', 450),
+      payment('2025-06-12', 'WIRE TRANSFER OUT REF 5521', 9000),
+      // Same payment as the card statement shows on 05/10
+      payment('2025-05-09', 'CHASE CREDIT CRD AUTOPAY', 200),
+    ],
+    bankCoverage: { from: '2024-10-01', to: '2025-06-20' },
+    cardStatements: [{ documentId: 'doc_card', text: cardStatement }],
+    ...overrides,
+  };
+}
+
+describe('preferenceThreshold', () => {
+  it('uses the § 547(c)(9) amount in effect on the filing date', () => {
+    expect(preferenceThreshold('2025-03-31')).toBe(7575);
+    expect(preferenceThreshold('2025-04-01')).toBe(8575);
+  });
+});
+
+describe('payment matching', () => {
+  it('matches the distinctive words of the creditor name or the account number', () => {
+    expect(creditorMatches('CAPITAL ONE MOBILE PMT', debts[0])).toBe(true);
+    expect(creditorMatches('ONLINE PMT TO CARD 1234', { creditorName: 'Cardholder Svcs', accountLast4: '1234' })).toBe(true);
+    expect(creditorMatches('SYNCHRONY BANK PAYMENT', { creditorName: 'Synchrony Bank/Amazon', accountLast4: null })).toBe(true);
+    expect(creditorMatches('ONE STOP MARKET', debts[0])).toBe(false);
+  });
+
+  it('matches insiders by first and last name', () => {
+    expect(insiderMatches('ZELLE PAYMENT TO MARIA SAMPLE', insiders[0])).toBe(true);
+    expect(insiderMatches('ZELLE PAYMENT TO MARIA LOPEZ', insiders[0])).toBe(false);
+  });
+});
+
+describe('analyzePreferences', () => {
+  it('totals payments to each creditor in the 90 days before filing', () => {
+    const report = analyzePreferences(input());
+
+    expect(report.preferenceWindow).toEqual({ from: '2025-04-01', to: '2025-06-30' });
+    expect(report.creditorPayments.map(finding => [finding.creditorName, finding.total, finding.payments.length])).toEqual([
+      ['Capital One Bank (USA), N.A.', 900, 3],
+      ['Chase Card Services', 850, 2],
+    ]);
+  });
+
+  it('reads card statement payments and skips ones the bank ledger already has', () => {
+    const chase = analyzePreferences(input()).creditorPayments.find(finding => finding.debtId === 'd3');
+
+    expect(chase?.payments.map(p => [p.source, p.postedDate, p.amount])).toEqual([
+      ['card_statement', '2025-05-02', 650],
+      ['bank_statement', '2025-05-09', 200],
+    ]);
+  });
+
+  it('finds payments to and for insiders in the year before filing', () => {
+    const report = analyzePreferences(input());
+
+    expect(report.insiderPayments.map(finding => [finding.insiderName, finding.basis, finding.creditorName, finding.total])).toEqual([
+      ['Maria Sample', 'paid_insider', null, 1500],
+      ['Daniel Sample', 'benefited_insider', 'Ford Motor Credit', 450],
+    ]);
+    // Paid to an insider, so not also a creditor payment
+    expect(report.creditorPayments.some(finding => finding.payments.some(p => p.description.includes('MARIA')))).toBe(false);
+  });
+
+  it('flags single transfers at or above the § 547(c)(9) amount', () => {
+    const report = analyzePreferences(input());
+
+    expect(report.transferThreshold).toBe(8575);
+    expect(report.largeTransfers.map(p => p.description)).toEqual(['WIRE TRANSFER OUT REF 5521']);
+    expect(report.risk).toBe('high');
+  });
+
+  it('notes look-back periods the statements do not cover', () => {
+    const report = analyzePreferences(input({
+      bankPayments: [],
+      bankCoverage: { from: '2025-05-01', to: '2025-05-31' },
+      cardStatements: [],
+    }));
+
+    expect(report.risk).toBe('none');
+    expect(report.gaps).toEqual([
+      'Statements on file start 2025-05-01; the 90-day look-back begins 2025-04-01',
+    ]);
+    expect(analyzePreferences(input({ bankPayments: [], bankCoverage: null, cardStatements: [] })).gaps).toEqual([
+      'No bank or card statements on file; payments before filing cannot be checked',
+    ]);
+  });
+
+  it('suggests SOFA entries for questions 6-8', () => {
+    const suggestions = preferenceSofaSuggestions(analyzePreferences(input()));
+
+    expect(suggestions.creditor_payments[0]).toEqual({
+      creditorName: 'Capital One Bank (USA), N.A.',
+      creditorAddress: 'PO Box 30285',
+      paymentDates: '2025-04-05, 2025-05-05, 2025-06-05',
+      totalPaid: 900,
+      amountStillOwed: 2400,
+      reason: 'credit_card',
+    });
+    expect(suggestions.insider_payments[1]).toMatchObject({
+      insiderName: 'Daniel Sample',
+      relationship: 'Brother',
+      totalPaid: 450,
+      reason: 'Payment to Ford Motor Credit on a debt Daniel Sample is also liable for',
+    });
+  });
+});
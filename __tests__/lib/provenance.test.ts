@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PAGE_BREAK,
+  locateAmount,
+  locateQuote,
+  pageAt,
+  resolveFieldSources,
+} from '@/lib/extraction/provenance';
+
+const statement = [
+  'First National Bank\nAccount ending 4821\nStatement Date: 03/31/2025',
+  'Beginning balance $12,450.00\nEnding   balance\n$2,450.00\nMinimum payment 85',
+].join(PAGE_BREAK);
+
+describe('pageAt', () => {
+  it('counts page breaks before the offset', () => {
+    expect(pageAt(statement, 0)).toBe(1);
+    expect(pageAt(statement, statement.indexOf('Beginning'))).toBe(2);
+    expect(pageAt('no breaks here', 10)).toBe(1);
+  });
+});
+
+describe('locateQuote', () => {
+  it('finds exact quotes', () => {
+    const span = locateQuote(statement, 'Account ending 4821');
+    expect(statement.slice(span!.start, span!.end)).toBe('Account ending 4821');
+  });
+
+  it('ignores case and whitespace differences', () => {
+    const span = locateQuote(statement, 'ending balance $2,450.00');
+    expect(statement.slice(span!.start, span!.end)).toBe('Ending   balance\n$2,450.00');
+  });
+
+  it('returns null for quotes that are not in the text', () => {
+    expect(locateQuote(statement, 'Savings account')).toBeNull();
+    expect(locateQuote(statement, '   ')).toBeNull();
+  });
+});
+
+describe('locateAmount', () => {
+  it('matches formatted amounts without matching longer numbers', () => {
+    const span = locateAmount(statement, 2450);
+    expect(statement.slice(span!.start, span!.end)).toBe('$2,450.00');
+  });
+
+  it('matches amounts printed without cents', () => {
+    const span = locateAmount(statement, 85);
+    expect(statement.slice(span!.start, span!.end)).toBe('85');
+  });
+
+  it('returns null when the amount is not printed', () => {
+    expect(locateAmount(statement, 450)).toBeNull();
+    expect(locateAmount(statement, 0)).toBeNull();
+  });
+});
+
+describe('resolveFieldSources', () => {
+  it('prefers quotes, falls back to values, and omits fields it cannot find', () => {
+    const sources = resolveFieldSources(
+      statement,
+      { currentBalance: 'Ending balance $2,450.00', creditorName: 'not in the document' },
+      { currentBalance: 2450, creditorName: 'First National Bank', accountLast4: '9999', monthlyPayment: null }
+    );
+
+    expect(sources.currentBalance).toMatchObject({ page: 2, snippet: 'Ending   balance\n$2,450.00' });
+    expect(sources.creditorName).toEqual({ page: 1, start: 0, end: 19, snippet: 'First National Bank' });
+    expect(Object.keys(sources).sort()).toEqual(['creditorName', 'currentBalance']);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RECONCILIATION_POLICY,
+  diffRunSnapshots,
+  explainCmiChange,
+  parsePolicySettings,
+  reconcileIncome,
+  replayReconciliation,
+  snapshotOf,
+  type RawIncomeExtraction,
+  type ReconciliationPolicy,
+} from '@/lib/bankruptcy/income';
+
+function extraction(overrides: Partial<RawIncomeExtraction>): RawIncomeExtraction {
+  return {
+    id: 'ext_1',
+    documentId: 'doc_1',
+    documentType: 'paystub',
+    documentDate: '2026-03-13',
+    rawAmount: 2000,
+    frequency: 'biweekly',
+    amountType: 'gross',
+    payerName: 'Acme Corp',
+    payerEIN: null,
+    periodStart: '2026-02-28',
+    periodEnd: '2026-03-13',
+    ytdGross: null,
+    ytdNet: null,
+    ytdFederalWithheld: null,
+    extractionConfidence: 0.9,
+    ...overrides,
+  };
+}
+
+const w2 = extraction({
+  id: 'ext_w2',
+  documentId: 'doc_w2',
+  documentType: 'w2',
+  documentDate: '2025-12-31',
+  rawAmount: 48000,
+  frequency: 'annual',
+  periodStart: '2025-01-01',
+  periodEnd: '2025-12-31',
+  taxYear: 2025,
+});
+
+// Two 2026 stubs 13% apart when annualized ($52,000 and $67,600)
+const stubs = [
+  extraction({ id: 'ext_a', documentId: 'doc_a' }),
+  extraction({ id: 'ext_b', documentId: 'doc_b', rawAmount: 2600, documentDate: '2026-03-27', periodStart: '2026-03-14', periodEnd: '2026-03-27' }),
+];
+
+const loose: ReconciliationPolicy = { ...DEFAULT_RECONCILIATION_POLICY, version: 2, varianceThreshold: 0.15 };
+
+function run(inputs: RawIncomeExtraction[], policy: ReconciliationPolicy) {
+  return { ...snapshotOf(replayReconciliation({ caseId: 'case_1', inputs }, policy)), policy, inputs };
+}
+
+describe('reconcileIncome policy', () => {
+  it('applies the default policy when none is given', () => {
+    const { sources, decisions } = reconcileIncome({ caseId: 'case_1', normalizedIncomes: [] });
+    expect(sources).toEqual([]);
+    expect(decisions).toEqual([]);
+
+    const stub = run(stubs, DEFAULT_RECONCILIATION_POLICY);
+    expect(stub.sources).toMatchObject([{ status: 'needs_review', verifiedAnnualGross: 52000 }]);
+    expect(stub.decisions[0]).toMatchObject({
+      sourceKey: 'acme corp|employment|2026',
+      rule: 'periodic_review',
+      basisDocumentIds: ['doc_a'],
+      documentIds: ['doc_a', 'doc_b'],
+    });
+    expect(stub.decisions[0].reason).toContain('between the 10.0% and 20.0% thresholds (13.0%)');
+  });
+
+  it('records why a figure was chosen under a looser variance tolerance', () => {
+    const { sources, decisions } = run(stubs, loose);
+
+    expect(sources).toMatchObject([{ status: 'verified', verifiedAnnualGross: 59800 }]);
+    expect(decisions[0]).toMatchObject({ rule: 'periodic_match', basisDocumentIds: ['doc_a', 'doc_b'] });
+    expect(decisions[0].reason).toBe('Average of documents within the 15.0% tolerance (13.0%)');
+  });
+
+  it('holds a single document to the policy confidence cutoff', () => {
+    expect(run([w2], DEFAULT_RECONCILIATION_POLICY).sources[0].status).toBe('verified');
+
+    const strict = run([w2], { ...DEFAULT_RECONCILIATION_POLICY, version: 3, minConfidence: 0.9 });
+    expect(strict.sources[0].status).toBe('needs_review');
+    expect(strict.decisions[0].reason).toBe('W2 used as the only document, checked against the 0.9 confidence cutoff');
+  });
+});
+
+describe('diffRunSnapshots', () => {
+  it('reports added, changed, and removed sources against the previous run', () => {
+    const previous = { ...run([w2, stubs[0]], DEFAULT_RECONCILIATION_POLICY), id: 'recrun_1' };
+    const next = run(stubs, DEFAULT_RECONCILIATION_POLICY);
+
+    const diff = diffRunSnapshots(previous, next);
+
+    expect(diff.previousRunId).toBe('recrun_1');
+    expect(diff.cmiBefore).toBe(4333.33);
+    expect(diff.cmiAfter).toBe(4333.33);
+    expect(diff.sources.map(change => [change.sourceKey, change.change])).toEqual([
+      ['acme corp|employment|2026', 'changed'],
+      ['acme corp|employment|2025', 'removed'],
+    ]);
+    expect(diff.sources[0].before?.status).toBe('verified');
+    expect(diff.sources[0].after?.status).toBe('needs_review');
+  });
+
+  it('treats every source as added on a case\'s first run', () => {
+    const diff = diffRunSnapshots(null, run(stubs, DEFAULT_RECONCILIATION_POLICY));
+    expect(diff.cmiBefore).toBeNull();
+    expect(diff.sources.map(change => change.change)).toEqual(['added']);
+  });
+
+  it('finds no differences when a run is replayed under its own policy', () => {
+    const recorded = run(stubs, loose);
+    expect(diffRunSnapshots(recorded, run(recorded.inputs, recorded.policy)).sources).toEqual([]);
+  });
+});
+
+describe('explainCmiChange', () => {
+  it('attributes a policy change to the employer whose figure moved', () => {
+    const explanation = explainCmiChange(run(stubs, DEFAULT_RECONCILIATION_POLICY), run(stubs, loose));
+
+    expect(explanation).toMatchObject({
+      cmiBefore: 4333.33,
+      cmiAfter: 4983.33,
+      change: 650,
+      policyChanges: [{ field: 'varianceThreshold', from: 0.10, to: 0.15 }],
+      documentsAdded: [],
+      documentsRemoved: [],
+    });
+    expect(explanation.contributions).toEqual([{
+      employerName: 'Acme Corp',
+      before: 4333.33,
+      after: 4983.33,
+      change: 650,
+      reason: '$52,000.00 to $59,800.00 a year: Average of documents within the 15.0% tolerance (13.0%)',
+    }]);
+  });
+
+  it('explains a move to a newer year from added documents', () => {
+    const explanation = explainCmiChange(run([w2], DEFAULT_RECONCILIATION_POLICY), run([w2, ...stubs], DEFAULT_RECONCILIATION_POLICY));
+
+    expect(explanation.policyChanges).toEqual([]);
+    expect(explanation.documentsAdded).toEqual(['doc_a', 'doc_b']);
+    expect(explanation.change).toBe(333.33);
+    expect(explanation.contributions[0].reason).toMatch(/^Now counted from 2026 instead of 2025: /);
+  });
+});
+
+describe('parsePolicySettings', () => {
+  it('fills omitted settings from the base policy', () => {
+    const { version, ...settings } = loose;
+    expect(version).toBe(2);
+    expect(parsePolicySettings({ minConfidence: '0.8' }, loose)).toEqual({
+      settings: { ...settings, minConfidence: 0.8 },
+    });
+  });
+
+  it('rejects out-of-range and inconsistent thresholds', () => {
+    expect(parsePolicySettings({ minConfidence: 1.5 })).toEqual({ error: 'minConfidence must be a number between 0 and 1' });
+    expect(parsePolicySettings({ conflictFactor: 'low' })).toEqual({ error: 'conflictFactor must be a number between 0 and 2' });
+    expect(parsePolicySettings({ highVarianceThreshold: 0.05 }))
+      .toEqual({ error: 'highVarianceThreshold must not be below varianceThreshold' });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { redactSensitive } from '@/lib/utils/redact';
+
+describe('redactSensitive', () => {
+  it('masks SSNs down to the last 4', () => {
+    expect(redactSensitive('SSN: 123-45-6789')).toBe('SSN: ***-**-6789');
+    expect(redactSensitive('123 45 6789')).toBe('*** ** 6789');
+  });
+
+  it('masks account and card numbers down to the last 4', () => {
+    expect(redactSensitive('Account Number: 000123456789')).toBe('Account Number: ********6789');
+    expect(redactSensitive('Card 4111-1111-1111-1234')).toBe('Card ****-****-****-1234');
+  });
+
+  it('masks labeled dates of birth', () => {
+    expect(redactSensitive('DOB: 01/15/1980')).toBe('DOB: **/**/****');
+    expect(redactSensitive('Date of Birth January 15, 1980')).toBe('Date of Birth ******* **, ****');
+  });
+
+  it('leaves amounts, statement dates and short numbers alone', () => {
+    const text = 'Statement Date 01/31/2024  Gross Pay 4,250.00  Check 1042  Balance 12345.67';
+
+    expect(redactSensitive(text)).toBe(text);
+  });
+
+  it('keeps the text length so offsets still line up', () => {
+    const text = 'Employee SSN 123-45-6789, DOB 1980-01-15, acct 9876543210';
+
+    expect(redactSensitive(text)).toHaveLength(text.length);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeReviewChanges,
+  parseReviewDecisions,
+  parseReviewItemId,
+  reviewItemId,
+  sortReviewItems,
+  type ReviewItem,
+} from '@/lib/review';
+
+const item = (overrides: Partial<ReviewItem>): ReviewItem => ({
+  id: 'debt:debt_1',
+  kind: 'debt',
+  recordId: 'debt_1',
+  caseId: 'case_1',
+  clientName: 'Jane Doe',
+  reason: 'low_confidence',
+  confidence: 0.5,
+  title: 'Capital One',
+  amount: 1200,
+  detail: null,
+  documentId: null,
+  fieldSources: null,
+  values: {},
+  createdAt: '2025-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('review item ids', () => {
+  it('round-trips kind and record id', () => {
+    const id = reviewItemId('reconciled_income', 'recon_123_abc');
+    expect(parseReviewItemId(id)).toEqual({ kind: 'reconciled_income', recordId: 'recon_123_abc' });
+  });
+
+  it('rejects unknown kinds and missing record ids', () => {
+    expect(parseReviewItemId('expense:exp_1')).toBeNull();
+    expect(parseReviewItemId('debt:')).toBeNull();
+    expect(parseReviewItemId('debt_1')).toBeNull();
+  });
+});
+
+describe('normalizeReviewChanges', () => {
+  it('maps edited fields to columns and parses amounts', () => {
+    const { values, errors } = normalizeReviewChanges('income_record', {
+      grossAmount: '$4,250.456',
+      incomeMonth: '2025-02',
+      netAmount: '',
+    });
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ gross_amount: 4250.46, income_month: '2025-02', net_amount: null });
+  });
+
+  it('reports invalid, missing required, and non-editable fields', () => {
+    const { errors } = normalizeReviewChanges('debt', {
+      balance: 'abc',
+      creditorName: '',
+      debtType: 'medical',
+    });
+
+    expect(errors).toEqual([
+      'Creditor is required',
+      'Balance must be a positive number',
+      'Debt fields cannot be edited: debtType',
+    ]);
+  });
+
+  it('validates income months', () => {
+    expect(normalizeReviewChanges('income_record', { incomeMonth: '2025-13' }).errors).toEqual([
+      'Month must be a month (YYYY-MM)',
+    ]);
+  });
+});
+
+describe('parseReviewDecisions', () => {
+  it('keeps valid decisions and reports the rest by index', () => {
+    const { decisions, errors } = parseReviewDecisions({
+      decisions: [
+        { itemId: 'debt:debt_1', action: 'accept' },
+        { itemId: 'asset:asset_1', action: 'edit', changes: { currentValue: 9000 } },
+        { itemId: 'asset:asset_2', action: 'edit' },
+        { itemId: 'debt:debt_2', action: 'approve' },
+        { itemId: 'nope', action: 'reject' },
+      ],
+    });
+
+    expect(decisions).toEqual([
+      { itemId: 'debt:debt_1', action: 'accept' },
+      { itemId: 'asset:asset_1', action: 'edit', changes: { currentValue: 9000 } },
+    ]);
+    expect(errors).toEqual([
+      'decisions[2]: edit requires changes',
+      'decisions[3]: action must be one of accept, edit, reject',
+      'decisions[4]: unknown item id',
+    ]);
+  });
+
+  it('requires a non-empty decisions array', () => {
+    expect(parseReviewDecisions({ decisions: [] }).errors).toEqual(['decisions must be a non-empty array']);
+    expect(parseReviewDecisions(null).errors).toEqual(['decisions must be a non-empty array']);
+  });
+});
+
+describe('sortReviewItems', () => {
+  it('puts conflicts first, then lower confidence, then older items', () => {
+    const sorted = sortReviewItems([
+      item({ id: 'a', confidence: 0.6 }),
+      item({ id: 'b', reason: 'needs_review', kind: 'document', confidence: null }),
+      item({ id: 'c', confidence: 0.3 }),
+      item({ id: 'd', reason: 'conflict', kind: 'reconciled_income', confidence: 0.8 }),
+      item({ id: 'e', confidence: 0.3, createdAt: '2025-01-01T00:00:00.000Z' }),
+    ]);
+
+    expect(sorted.map(i => i.id)).toEqual(['d', 'b', 'e', 'c', 'a']);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCMI, type IncomeRecord } from '@/lib/bankruptcy/case-financials';
+import { mapToForm106I, type FormData } from '@/lib/bankruptcy/form-mapper';
+import {
+  analyzeSelfEmployment,
+  scheduleCEntries,
+  scheduleCImports,
+  selfEmploymentIncomeRecords,
+  withSelfEmploymentIncome,
+  type SelfEmploymentEntry,
+} from '@/lib/bankruptcy/self-employment';
+import type { CaseTaxForm } from '@/lib/bankruptcy/tax-forms';
+
+// Look-back for a July 2026 filing: January through June 2026
+const filingDate = '2026-07-10';
+const LOOKBACK = ['2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06'];
+
+let nextId = 0;
+function entry(
+  businessName: string,
+  entryMonth: string,
+  amount: number,
+  overrides: Partial<SelfEmploymentEntry> = {}
+): SelfEmploymentEntry {
+  return {
+    id: `se_${++nextId}`,
+    businessName,
+    entryMonth,
+    entryType: 'receipts',
+    category: null,
+    amount,
+    description: null,
+    taxFormId: null,
+    ...overrides,
+  };
+}
+
+const expense = (businessName: string, entryMonth: string, amount: number, category: SelfEmploymentEntry['category']) =>
+  entry(businessName, entryMonth, amount, { entryType: 'expense', category });
+
+const courierLedger = LOOKBACK.flatMap(month => [
+  entry('Sample Delivery', month, 3000),
+  expense('Sample Delivery', month, 800, 'vehicle'),
+  expense('Sample Delivery', month, 100, 'insurance'),
+]);
+
+describe('analyzeSelfEmployment', () => {
+  it('nets gross receipts against categorized expenses over the look-back', () => {
+    const report = analyzeSelfEmployment(
+      [...courierLedger, entry('Sample Delivery', '2026-07', 9000), entry('Sample Delivery', '2025-12', 9000)],
+      filingDate
+    );
+    const [business] = report.businesses;
+
+    expect(business.months.map(m => m.month)).toEqual(LOOKBACK);
+    expect(business.months[0]).toMatchObject({
+      grossReceipts: 3000,
+      expenses: 900,
+      expensesByCategory: { vehicle: 800, insurance: 100 },
+      netIncome: 2100,
+    });
+    expect(business).toMatchObject({
+      sixMonthReceipts: 18000,
+      sixMonthExpenses: 5400,
+      monthlyGrossReceipts: 3000,
+      monthlyExpenses: 900,
+      monthlyNetIncome: 2100,
+    });
+    expect(report.monthlyNetIncome).toBe(2100);
+    expect(report.gaps).toEqual([]);
+  });
+
+  it('counts a business that lost money over the look-back as zero', () => {
+    const report = analyzeSelfEmployment([
+      ...courierLedger,
+      entry('Sample Crafts', '2026-03', 400),
+      expense('Sample Crafts', '2026-03', 1000, 'supplies'),
+    ], filingDate);
+
+    const crafts = report.businesses.find(b => b.businessName === 'Sample Crafts');
+    expect(crafts?.months[0].netIncome).toBe(-600);
+    expect(crafts?.monthlyNetIncome).toBe(0);
+    expect(report.monthlyNetIncome).toBe(2100);
+    expect(selfEmploymentIncomeRecords(report)
+      .filter(record => record.description === 'Sample Crafts net business income')
+      .map(record => record.gross_amount)).toEqual([0]);
+  });
+
+  it('uses a month\'s own entries in place of its Schedule C share', () => {
+    const imported = { taxFormId: 'tax_2026', description: null };
+    const report = analyzeSelfEmployment([
+      entry('Sample Delivery', '2026-01', 2600, imported),
+      expense('Sample Delivery', '2026-01', 1000, 'other'),
+      { ...expense('Sample Delivery', '2026-01', 1000, 'other'), ...imported },
+      entry('Sample Delivery', '2026-01', 3000),
+      entry('Sample Delivery', '2026-02', 2600, imported),
+    ], filingDate);
+
+    expect(report.businesses[0].months.map(m => [m.month, m.netIncome, m.fromScheduleC])).toEqual([
+      ['2026-01', 2000, false],
+      ['2026-02', 2600, true],
+    ]);
+    expect(report.gaps).toEqual(['2026-03', '2026-04', '2026-05', '2026-06']);
+  });
+});
+
+describe('withSelfEmploymentIncome', () => {
+  it('replaces gross self-employment records with the net for ledger months', () => {
+    const records: IncomeRecord[] = [
+      ...LOOKBACK.map(month => ({ income_month: month, income_source: 'employment', gross_amount: 1000 })),
+      { income_month: '2026-02', income_source: 'self_employment', gross_amount: 3000, document_id: 'doc_1' },
+      { income_month: '2025-12', income_source: 'self_employment', gross_amount: 18400 },
+    ];
+    const report = analyzeSelfEmployment(courierLedger, filingDate);
+
+    const cmi = calculateCMI(withSelfEmploymentIncome(records, report), { filingDate });
+
+    expect(cmi.currentMonthlyIncome).toBe(3100);
+    expect(cmi.monthlyBreakdown[1].sources).toEqual([
+      { source: 'employment', amount: 1000 },
+      { source: 'self_employment', amount: 2100 },
+    ]);
+    expect(cmi.recordsOutsideLookback).toBe(1);
+  });
+
+  it('leaves the records alone when the ledger is empty', () => {
+    const records: IncomeRecord[] = [{ income_month: '2026-02', income_source: 'self_employment', gross_amount: 3000 }];
+    expect(withSelfEmploymentIncome(records, analyzeSelfEmployment([], filingDate))).toBe(records);
+  });
+});
+
+describe('Schedule C import', () => {
+  const taxReturn: CaseTaxForm = {
+    id: 'tax_2025',
+    documentId: 'doc_2025',
+    formType: '1040',
+    taxYear: 2025,
+    filingStatus: 'single',
+    wages: null,
+    totalIncome: 18400,
+    adjustedGrossIncome: 17100,
+    businessIncome: 18400,
+    businessReceipts: 31200,
+    businessExpenses: 12800.05,
+    rentalIncome: null,
+    refund: null,
+    amountOwed: null,
+    source: 'template:form_1040',
+    confidence: 0.95,
+    fieldSources: {},
+  };
+
+  it('offers only returns with Schedule C figures', () => {
+    expect(scheduleCImports([taxReturn, { ...taxReturn, id: 'tax_2024', taxYear: 2024, businessReceipts: null }]))
+      .toEqual([{ taxFormId: 'tax_2025', taxYear: 2025, grossReceipts: 31200, expenses: 12800.05, netProfit: 18400 }]);
+  });
+
+  it('spreads receipts and expenses over the tax year to the cent', () => {
+    const [schedule] = scheduleCImports([taxReturn]);
+    const entries = scheduleCEntries(schedule, 'Sample Delivery');
+    const total = (type: SelfEmploymentEntry['entryType']) =>
+      Math.round(entries.filter(e => e.entryType === type).reduce((sum, e) => sum + e.amount, 0) * 100) / 100;
+
+    expect(entries).toHaveLength(24);
+    expect(new Set(entries.map(e => e.entryMonth)).size).toBe(12);
+    expect(total('receipts')).toBe(31200);
+    expect(total('expense')).toBe(12800.05);
+    expect(entries.every(e => e.taxFormId === 'tax_2025' && e.businessName === 'Sample Delivery')).toBe(true);
+  });
+});
+
+describe('mapToForm106I', () => {
+  const data: FormData = {
+    caseData: {
+      id: 'case_1',
+      clientName: 'Jordan Sample',
+      caseNumber: null,
+      caseType: 'chapter7',
+      status: 'intake',
+      createdAt: '2026-06-01',
+      state: 'CA',
+      householdSize: 1,
+      filingDate: filingDate,
+    },
+    income: [
+      { id: 'inc_1', employer: 'Acme', occupation: 'Clerk', grossPay: 2000, netPay: 1600, payPeriod: 'monthly', incomeSource: 'employment', ytdGross: null },
+      { id: 'inc_2', employer: 'Sample Delivery', occupation: null, grossPay: 3000, netPay: null, payPeriod: 'monthly', incomeSource: 'business', ytdGross: null },
+    ],
+    selfEmployment: [
+      { businessName: 'Sample Delivery', monthlyGrossReceipts: 3000, monthlyExpenses: 900, monthlyNetIncome: 2100 },
+    ],
+    expenses: [],
+    assets: [],
+    debts: [],
+  };
+
+  it('reports ledger business income on Line 8a instead of as a gross income source', () => {
+    const form = mapToForm106I(data);
+
+    expect(form.incomeSources.map(source => source.employer)).toEqual(['Acme']);
+    expect(form.netBusinessIncome).toBe(2100);
+    expect(form.businessStatements).toEqual([
+      { businessName: 'Sample Delivery', grossReceipts: 3000, expenses: 900, netIncome: 2100 },
+    ]);
+    expect(form.totalMonthlyIncome).toBe(3700);
+  });
+});
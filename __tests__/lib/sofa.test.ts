@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { getSofaSection, normalizeSofaEntry, type SofaData } from '@/lib/bankruptcy/sofa';
+import { mapToForm107, type FormData } from '@/lib/bankruptcy/form-mapper';
+
+describe('normalizeSofaEntry', () => {
+  const payments = getSofaSection('creditor_payments')!;
+
+  it('maps fields to columns and coerces money values', () => {
+    const { values, errors } = normalizeSofaEntry(payments, {
+      creditorName: 'Capital One',
+      paymentDates: '03/01, 04/01',
+      totalPaid: '$1,250.50',
+      reason: 'credit_card',
+    });
+
+    expect(errors).toEqual([]);
+    expect(values.creditor_name).toBe('Capital One');
+    expect(values.total_paid).toBe(1250.5);
+    expect(values.amount_still_owed).toBeNull();
+  });
+
+  it('reports missing required fields and invalid options', () => {
+    const { errors } = normalizeSofaEntry(payments, { creditorName: 'Capital One', reason: 'vacation' });
+
+    expect(errors).toContain('Dates of Payment is required');
+    expect(errors).toContain('Total Amount Paid is required');
+    expect(errors.some(e => e.startsWith('Reason for Payment must be one of'))).toBe(true);
+  });
+
+  it('only touches provided fields on partial updates', () => {
+    const { values, errors } = normalizeSofaEntry(payments, { totalPaid: 900 }, { partial: true });
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ total_paid: 900 });
+  });
+});
+
+describe('mapToForm107', () => {
+  const baseData: FormData = {
+    caseData: {
+      id: 'case_1',
+      clientName: 'Jane Doe',
+      caseNumber: null,
+      caseType: 'chapter7',
+      status: 'intake',
+      createdAt: '2026-01-01',
+      state: 'TX',
+      householdSize: 1,
+      filingDate: null,
+    },
+    income: [],
+    expenses: [],
+    assets: [],
+    debts: [],
+  };
+
+  const emptySofa = (): SofaData => ({
+    answers: {},
+    entries: {
+      prior_addresses: [],
+      income_history: [],
+      creditor_payments: [],
+      insider_payments: [],
+      lawsuits: [],
+      repossessions: [],
+      gifts: [],
+      losses: [],
+      transfers: [],
+      closed_accounts: [],
+      safe_deposit_boxes: [],
+    },
+  });
+
+  it('marks questions yes, no, or unanswered', () => {
+    const sofa = emptySofa();
+    sofa.answers.lawsuits = false;
+    sofa.entries.gifts.push({
+      id: 'g1',
+      recipientName: 'Church',
+      isCharity: true,
+      description: 'Donation',
+      giftDate: '2025-12-01',
+      value: 1500,
+    });
+
+    const form = mapToForm107({ ...baseData, sofa });
+    const byQuestion = Object.fromEntries(form.questions.map(q => [q.questions, q]));
+
+    expect(byQuestion['9'].answer).toBe('no');
+    expect(byQuestion['13-14'].answer).toBe('yes');
+    expect(byQuestion['13-14'].rows[0]).toContain('$1,500.00');
+    expect(form.unansweredCount).toBe(form.questions.length - 2);
+  });
+
+  it('lists prior addresses from the debtor profile', () => {
+    const form = mapToForm107({
+      ...baseData,
+      debtorInfo: {
+        firstName: 'Jane',
+        lastName: 'Doe',
+        previousAddresses: [
+          { street: '1 Main St', city: 'Miami', state: 'FL', zip: '33101', fromDate: '2020-01-01', toDate: '2024-05-31' },
+        ],
+      },
+    });
+
+    const priorAddresses = form.questions.find(q => q.questions === '2')!;
+    expect(priorAddresses.answer).toBe('yes');
+    expect(priorAddresses.rows[0].slice(0, 3)).toEqual(['1 Main St', 'Miami', 'FL']);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import ExcelJS from 'exceljs';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { calculateMeansTest, getStateMedianIncome } from '@/lib/bankruptcy/chapter7';
+import {
+  BUNDLED_RELEASE,
+  getStandardsRelease,
+  listStandardsReleases,
+  loadStandardsDirectory,
+  parseHousingTable,
+  parseMedianIncomeTable,
+  parseNationalStandardsTable,
+  parseTransportationTable,
+  registerStandardsRelease,
+  resetStandardsReleases,
+} from '@/lib/bankruptcy/standards';
+
+afterEach(() => {
+  resetStandardsReleases();
+});
+
+describe('standards registry', () => {
+  it('selects the release in effect on the filing date', () => {
+    registerStandardsRelease({
+      effectiveFrom: '2026-04-01',
+      medianIncome: { TX: [70000, 90000, 100000, 120000, 11500] },
+    });
+
+    expect(getStandardsRelease('2026-01-15').version).toBe(BUNDLED_RELEASE.version);
+    expect(getStandardsRelease('2026-04-01').version).toBe('2026-04-01');
+    expect(getStandardsRelease(new Date('2026-09-30T12:00:00Z')).version).toBe('2026-04-01');
+    // Dates before the bundled release fall back to it
+    expect(getStandardsRelease('2020-01-01').version).toBe(BUNDLED_RELEASE.version);
+
+    const [bundled, april] = listStandardsReleases();
+    expect(bundled.effectiveTo).toBe('2026-04-01');
+    expect(april.effectiveTo).toBeUndefined();
+  });
+
+  it('carries over tables and states a release does not revise', () => {
+    registerStandardsRelease({
+      effectiveFrom: '2026-04-01',
+      medianIncome: { TX: [70000, 90000, 100000, 120000, 11500] },
+    });
+    const april = getStandardsRelease('2026-04-01');
+
+    expect(getStateMedianIncome('TX', 1, april)).toBe(70000);
+    expect(getStateMedianIncome('TX', 6, april)).toBe(143000);
+    expect(april.medianIncome.CA).toEqual(BUNDLED_RELEASE.medianIncome.CA);
+    expect(april.housing).toEqual(BUNDLED_RELEASE.housing);
+  });
+
+  it('runs the means test against the filing-date release', () => {
+    registerStandardsRelease({
+      effectiveFrom: '2026-04-01',
+      medianIncome: { TX: [50000, 90000, 100000, 120000, 11500] },
+    });
+
+    const before = calculateMeansTest('TX', 1, 5000, 0, 0, 'HARRIS', true, 1, 40, {}, '2026-03-31');
+    const after = calculateMeansTest('TX', 1, 5000, 0, 0, 'HARRIS', true, 1, 40, {}, '2026-04-01');
+
+    expect(before.standardsVersion).toBe(BUNDLED_RELEASE.version);
+    expect(before.isAboveMedian).toBe(false);
+    expect(after.standardsVersion).toBe('2026-04-01');
+    expect(after.medianIncome).toBe(50000);
+    expect(after.isAboveMedian).toBe(true);
+    expect(after.allowances?.standardsVersion).toBe('2026-04-01');
+  });
+});
+
+describe('standards table parsers', () => {
+  it('reads the median income table and its per-person footnote', () => {
+    const { table, warnings } = parseMedianIncomeTable([
+      ['Census Bureau Median Family Income By Family Size'],
+      ['STATE', '1 EARNER', '2 PEOPLE', '3 PEOPLE', '4 PEOPLE *'],
+      ['Alabama', '$63,000', '$76,000', '$91,000', '$105,000'],
+      ['Northern Mariana Islands', 30000, 35000, 40000, 45000],
+      ['Texas', 66000, 85000, 97000, 116000],
+      ['* Add $11,400 for each individual in excess of 4.'],
+    ]);
+
+    expect(table).toEqual({
+      AL: [63000, 76000, 91000, 105000, 11400],
+      TX: [66000, 85000, 97000, 116000, 11400],
+    });
+    expect(warnings).toEqual(['Median income: skipped "Northern Mariana Islands"']);
+  });
+
+  it('reads National Standards with a separate additional-person table', () => {
+    const { table } = parseNationalStandardsTable([
+      ['Expense', 'One Person', 'Two Persons', 'Three Persons', 'Four Persons'],
+      ['Food', 760, 890, 1060, 1250],
+      ['Housekeeping supplies', 42, 80, 82, 90],
+      ['Apparel & services', 100, 190, 230, 290],
+      ['Personal care products & services', 45, 70, 70, 80],
+      ['Miscellaneous', 155, 275, 300, 360],
+      ['Total', 1102, 1505, 1742, 2070],
+      [],
+      ['More than four persons', 'Additional Persons Amount'],
+      ['Food', 280],
+      ['Housekeeping supplies', 0],
+      ['Apparel & services', 76],
+      ['Personal care products & services', 27],
+      ['Miscellaneous', 75],
+    ]);
+
+    expect(table?.[1]).toEqual({
+      food: 760, housekeeping: 42, apparel: 100, personalCare: 45, miscellaneous: 155, total: 1102,
+    });
+    expect(table?.additionalPerson.total).toBe(458);
+  });
+
+  it('sums split housing columns under merged family-size headers', () => {
+    const { table } = parseHousingTable(
+      [
+        ['Texas Housing and Utilities Standards'],
+        ['County', 'Family of 1', '', 'Family of 2', '', 'Family of 3', '', 'Family of 4', '', 'Family of 5 or more', ''],
+        ['', 'Non-Mortgage', 'Mortgage/Rent', 'Non-Mortgage', 'Mortgage/Rent', 'Non-Mortgage', 'Mortgage/Rent', 'Non-Mortgage', 'Mortgage/Rent', 'Non-Mortgage', 'Mortgage/Rent'],
+        ['Harris County', 600, 1200, 700, 1400, 740, 1470, 820, 1640, 830, 1670],
+      ],
+      'TX'
+    );
+
+    expect(table).toEqual({ TX: { HARRIS: [1800, 2100, 2210, 2460, 2500] } });
+  });
+
+  it('maps transportation rows to ownership, regions, and metro areas', () => {
+    const { table, warnings } = parseTransportationTable([
+      ['Ownership Costs', 'One Car', 'Two Cars'],
+      ['National', '$680', '$1,360'],
+      ['Operating Costs', 'One Car', 'Two Cars'],
+      ['South', 290, 580],
+      ['Houston', 370, 740],
+      ['Nashville', 300, 600],
+      ['Public Transportation', 250],
+    ]);
+
+    expect(table?.ownership).toEqual({ oneVehicle: 680, twoVehicles: 1360 });
+    expect(table?.regionalBaseline).toEqual({ South: { oneCar: 290, twoCars: 580 } });
+    expect(table?.metroAreas?.HOUSTON).toMatchObject({ name: 'Houston', oneCar: 370, twoCars: 740 });
+    expect(table?.publicTransportation).toBe(250);
+    expect(warnings).toEqual(['Transportation: no counties map to metro area "Nashville"']);
+  });
+});
+
+describe('loadStandardsDirectory', () => {
+  it('imports release directories of CSV files', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'standards-'));
+    try {
+      await mkdir(path.join(dir, '20260401'));
+      await writeFile(
+        path.join(dir, '20260401', 'median_income_table.csv'),
+        'State,1 Earner,2 People,3 People,4 People,Each Additional Person\nTexas,"$70,000","$90,000","$100,000","$120,000","$11,500"\n'
+      );
+      await writeFile(
+        path.join(dir, '20260401', 'housing_utilities_TX.csv'),
+        'County,Family of 1,Family of 2,Family of 3,Family of 4,Family of 5 or more\nHarris,1900,2200,2300,2550,2600\n'
+      );
+      await writeFile(path.join(dir, '20260401', 'release.json'), JSON.stringify({ version: 'USTP 2026-04' }));
+
+      const result = await loadStandardsDirectory(dir);
+      expect(result.warnings).toEqual([]);
+
+      const release = getStandardsRelease('2026-05-01');
+      expect(release.version).toBe('USTP 2026-04');
+      expect(release.medianIncome.TX).toEqual([70000, 90000, 100000, 120000, 11500]);
+      expect(release.housing.TX.HARRIS).toEqual([1900, 2200, 2300, 2550, 2600]);
+      // A state's file replaces that state's counties; other states carry over
+      expect(release.housing.TX.TRAVIS).toBeUndefined();
+      expect(release.housing.CA).toEqual(BUNDLED_RELEASE.housing.CA);
+      expect(release.sources).toEqual(['20260401/housing_utilities_TX.csv', '20260401/median_income_table.csv']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads quoted CSV cells', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'standards-'));
+    try {
+      await mkdir(path.join(dir, '20260401'));
+      await writeFile(
+        path.join(dir, '20260401', 'housing_utilities.csv'),
+        '\uFEFFState,County,"Family\r\nof 1",Family of 2,Family of 3,Family of 4,Family of 5 or more\r\n' +
+          'Maryland,"St. Mary\'s","1,900",2200,2300,2550,2600\r\n'
+      );
+
+      const result = await loadStandardsDirectory(dir);
+      expect(result.warnings).toEqual([]);
+      expect(getStandardsRelease('2026-05-01').housing.MD).toEqual({ "ST. MARY'S": [1900, 2200, 2300, 2550, 2600] });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads XLSX workbooks and reports legacy .xls files', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'standards-'));
+    try {
+      await mkdir(path.join(dir, '20260401'));
+
+      // Merged "Family of N" headers over non-mortgage and mortgage columns
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Alabama');
+      sheet.addRow(['County', 'Family of 1', '', 'Family of 2', '', 'Family of 3', '', 'Family of 4', '', 'Family of 5 or more', '']);
+      sheet.addRow(['', ...Array(5).fill(['Non-Mortgage', 'Mortgage/Rent']).flat()]);
+      sheet.addRow(['Jefferson County', 600, 1000, 700, 1200, 750, 1300, 800, 1500, 850, 1550]);
+      sheet.addRow(['Madison County', { formula: '500+100', result: 600 }, 900, 700, 1000, 750, 1100, 800, 1200, 850, 1250]);
+      for (const column of ['B', 'D', 'F', 'H', 'J']) {
+        const next = String.fromCharCode(column.charCodeAt(0) + 1);
+        sheet.mergeCells(`${column}1:${next}1`);
+      }
+      await workbook.xlsx.writeFile(path.join(dir, '20260401', 'housing_utilities_AL.xlsx'));
+      await writeFile(path.join(dir, '20260401', 'national_standards.xls'), 'not a workbook');
+
+      const result = await loadStandardsDirectory(dir);
+      expect(result.warnings).toEqual([
+        '20260401/national_standards.xls: legacy .xls workbooks are not read; save it as XLSX or CSV',
+      ]);
+      const release = getStandardsRelease('2026-05-01');
+      expect(release.housing.AL).toEqual({
+        JEFFERSON: [1600, 1900, 2050, 2300, 2400],
+        MADISON: [1500, 1700, 1850, 2000, 2100],
+      });
+      expect(release.sources).toEqual(['20260401/housing_utilities_AL.xlsx']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import type { Extracted1099, ExtractedTaxReturn } from '@/lib/extraction/financial-extractor';
+import {
+  analyzeIncomeHistory,
+  crossCheckTaxReturns,
+  incomeHistorySuggestions,
+  taxFormIncomes,
+  taxRefundAsset,
+  type CaseTaxForm,
+  type ReconciledYearSource,
+} from '@/lib/bankruptcy/tax-forms';
+
+function taxReturn(taxYear: number, overrides: Partial<ExtractedTaxReturn> = {}): CaseTaxForm {
+  return {
+    id: `tax_${taxYear}`,
+    documentId: `doc_${taxYear}`,
+    formType: '1040',
+    taxYear,
+    filingStatus: 'married_joint',
+    wages: 52340,
+    totalIncome: 70858,
+    adjustedGrossIncome: 69558,
+    businessIncome: 18400,
+    businessReceipts: 31200,
+    businessExpenses: 12800,
+    rentalIncome: null,
+    refund: 1250,
+    amountOwed: null,
+    source: 'template:form_1040',
+    confidence: 0.95,
+    fieldSources: {
+      wages: { page: 1, start: 10, end: 17, snippet: '52,340.' },
+      refund: { page: 2, start: 90, end: 96, snippet: '1,250.' },
+    },
+    ...overrides,
+  };
+}
+
+function form1099(formType: Extracted1099['formType'], amount: number, payerName: string | null, box = '1'): CaseTaxForm {
+  return {
+    id: `tax_${formType}`,
+    documentId: null,
+    formType,
+    taxYear: 2024,
+    payerName,
+    amount,
+    box,
+    federalWithheld: null,
+    source: 'template:form_1099',
+    confidence: 0.95,
+    fieldSources: {},
+  };
+}
+
+const sources: ReconciledYearSource[] = [
+  { employerName: 'Acme Manufacturing', incomeType: 'employment', incomeYear: 2024, verifiedAnnualGross: 40100 },
+  { employerName: 'Brightline Studio Inc.', incomeType: 'employment', incomeYear: 2024, verifiedAnnualGross: 12240 },
+  { employerName: 'Acme Manufacturing', incomeType: 'employment', incomeYear: 2023, verifiedAnnualGross: 61000 },
+  { employerName: 'Rideway Logistics LLC', incomeType: 'self_employment', incomeYear: 2023, verifiedAnnualGross: 9000 },
+];
+
+describe('taxFormIncomes', () => {
+  it('records each income line of a return in December of the tax year', () => {
+    const incomes = taxFormIncomes(taxReturn(2024));
+
+    expect(incomes.map(income => [income.incomeMonth, income.incomeSource, income.grossAmount])).toEqual([
+      ['2024-12', 'employment', 52340],
+      ['2024-12', 'self_employment', 18400],
+    ]);
+    expect(incomes[0].fieldSources.grossAmount.snippet).toBe('52,340.');
+  });
+
+  it('classifies 1099 income by form and box', () => {
+    const sourceOf = (form: CaseTaxForm) => taxFormIncomes(form)[0].incomeSource;
+
+    expect(sourceOf(form1099('1099-R', 8400, 'Fidelity Investments'))).toBe('pension');
+    expect(sourceOf(form1099('1099-MISC', 6000, 'Oak Street Partners', '1'))).toBe('rental');
+    expect(sourceOf(form1099('1099-MISC', 600, 'Survey Co', '3'))).toBe('other');
+    // Described so the CMI calculation leaves it out
+    expect(taxFormIncomes(form1099('SSA-1099', 19872, 'Social Security Administration'))[0].description)
+      .toBe('2024 SSA-1099 social security benefits from Social Security Administration');
+  });
+});
+
+describe('taxRefundAsset', () => {
+  it('treats the latest return\'s refund as an estate asset', () => {
+    const asset = taxRefundAsset(taxReturn(2024), new Date('2025-03-15'));
+
+    expect(asset).toMatchObject({
+      assetType: 'tax_refund',
+      description: '2024 federal income tax refund',
+      estimatedValue: 1250,
+    });
+    expect(asset?.fieldSources.estimatedValue.snippet).toBe('1,250.');
+  });
+
+  it('skips refunds already paid and returns with a balance due', () => {
+    expect(taxRefundAsset(taxReturn(2022), new Date('2025-03-15'))).toBeNull();
+    expect(taxRefundAsset(taxReturn(2024, { refund: null, amountOwed: 400 }), new Date('2025-03-15'))).toBeNull();
+  });
+});
+
+describe('crossCheckTaxReturns', () => {
+  it('compares wages with the employers reconciled for the year', () => {
+    const checks = crossCheckTaxReturns([taxReturn(2024), taxReturn(2023, { wages: 48000, businessIncome: null })], sources);
+
+    expect(checks.map(check => [check.taxYear, check.line, check.status, check.documented])).toEqual([
+      [2024, 'wages', 'matches', 52340],
+      [2024, 'business_income', 'unsupported', 0],
+      [2023, 'wages', 'differs', 61000],
+      [2023, 'business_income', 'unreported', 9000],
+    ]);
+    expect(checks[0].employers).toEqual(['Acme Manufacturing', 'Brightline Studio Inc.']);
+    expect(checks[3].message).toBe('Rideway Logistics LLC paid $9,000.00 in 2023, but the return reports no business income');
+  });
+});
+
+describe('income history', () => {
+  const report = analyzeIncomeHistory({
+    filingDate: '2025-06-30',
+    filingDateEstimated: false,
+    forms: [
+      taxReturn(2024),
+      taxReturn(2021),
+      form1099('1099-NEC', 21750, 'Rideway Logistics LLC'),
+      form1099('1099-INT', 118, 'First Federal Savings'),
+    ],
+    sources,
+  });
+
+  it('covers the two years before filing and notes missing returns', () => {
+    expect(report.years).toEqual([2023, 2024]);
+    expect(report.forms.map(form => form.taxYear)).not.toContain(2021);
+    expect(report.gaps).toEqual(['No 2023 tax return on file']);
+  });
+
+  it('suggests SOFA entries without counting 1099 income the return already reports', () => {
+    expect(incomeHistorySuggestions(report)).toEqual([
+      { incomeType: 'employment', year: '2024', source: 'Wages, salaries, and tips (Form 1040)', grossAmount: 52340 },
+      { incomeType: 'business', year: '2024', source: 'Business income (Schedule C)', grossAmount: 18400 },
+      { incomeType: 'other', year: '2024', source: 'Interest from First Federal Savings (1099-INT)', grossAmount: 118 },
+    ]);
+  });
+});
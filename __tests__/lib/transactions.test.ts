@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  categorizeTransaction,
+  flagTransaction,
+  groupRecurringDeposits,
+  parseStatementTransactions,
+  payerKey,
+  proposeExpenses,
+  type BankTransaction,
+  type TransactionCategory,
+} from '@/lib/transactions';
+
+const statement = `JPMorgan Chase Bank, N.A.
+December 15, 2024 through January 14, 2025
+Account Number: 000000 4821 7735
+
+DEPOSITS AND ADDITIONS
+12/20   ACME LOGISTICS PAYROLL PPD ID: 9876543210        1,935.00
+01/03   SSA TREAS 310 XXSOC SEC                          1,104.00
+01/03   DOORDASH INC DIR DEP                               212.45
+
+ELECTRONIC WITHDRAWALS
+12/16   ZELLE PAYMENT TO MARIA SAMPLE                    1,500.00
+12/28   KROGER #1234                                       142.37
+01/02   DUKE ENERGY PAYMENT                                188.12
+01/05   ATM WITHDRAWAL 123 MAIN ST                         600.00
+
+DAILY ENDING BALANCE
+01/05   2,310.19
+`;
+
+const ledger = `ACCOUNT ACTIVITY
+Date    Description                          Amount       Balance
+03/01   Beginning balance                                 1,000.00
+03/03   ONLINE TRANSFER FROM SAV 1122         250.00       1,250.00
+03/04   SHELL OIL 57442                        41.10       1,208.90
+03/06   RENT PAYMENT PARKVIEW APTS            900.00         308.90
+03/09   REFUND AMAZON MKTPLACE                 19.99         328.89
+03/10   CHECK 1042                            -75.00         253.89
+`;
+
+function entry(postedDate: string, description: string, amount: number, category?: TransactionCategory) {
+  return {
+    id: `${postedDate}|${description}`,
+    postedDate,
+    description,
+    amount,
+    category: category ?? categorizeTransaction(description, amount),
+  } as BankTransaction;
+}
+
+describe('parseStatementTransactions', () => {
+  it('reads direction from statement sections and skips daily balances', () => {
+    const transactions = parseStatementTransactions(statement);
+
+    expect(transactions.map(t => [t.postedDate, t.amount])).toEqual([
+      ['2024-12-20', 1935],
+      ['2025-01-03', 1104],
+      ['2025-01-03', 212.45],
+      ['2024-12-16', -1500],
+      ['2024-12-28', -142.37],
+      ['2025-01-02', -188.12],
+      ['2025-01-05', -600],
+    ]);
+    expect(transactions[0].description).toBe('ACME LOGISTICS PAYROLL PPD ID: 9876543210');
+  });
+
+  it('records where each transaction was printed', () => {
+    const [first] = parseStatementTransactions(statement);
+    expect(first.fieldSources.amount.snippet).toBe('1,935.00');
+    expect(first.fieldSources.postedDate.snippet).toBe('12/20');
+  });
+
+  it('reads direction from the running balance and explicit signs', () => {
+    const transactions = parseStatementTransactions(`Statement Period 03/01/2025 - 03/31/2025\n${ledger}`);
+
+    expect(transactions.map(t => t.amount)).toEqual([250, -41.1, -900, 19.99, -75]);
+  });
+});
+
+describe('categorizeTransaction', () => {
+  it('sorts deposits by source', () => {
+    expect(categorizeTransaction('ACME LOGISTICS PAYROLL PPD', 1935)).toBe('payroll');
+    expect(categorizeTransaction('SSA TREAS 310 XXSOC SEC', 1104)).toBe('social_security');
+    expect(categorizeTransaction('OH CHILD SUPPORT SDU', 300)).toBe('child_support');
+    expect(categorizeTransaction('UBER USA 6787 EDI PYMNTS', 350)).toBe('gig_platform');
+    expect(categorizeTransaction('ZELLE FROM JOHN SAMPLE', 50)).toBe('transfer');
+    expect(categorizeTransaction('REFUND AMAZON MKTPLACE', 19.99)).toBe('other_income');
+  });
+
+  it('sorts spending into Schedule J buckets', () => {
+    expect(categorizeTransaction('KROGER #1234', -142.37)).toBe('food');
+    expect(categorizeTransaction('DUKE ENERGY PAYMENT', -188.12)).toBe('utilities');
+    expect(categorizeTransaction('UBER EATS PENDING', -24.5)).toBe('food');
+    expect(categorizeTransaction('UBER TRIP HELP.UBER.COM', -18)).toBe('transportation');
+    expect(categorizeTransaction('CAPITAL ONE MOBILE PMT', -85)).toBe('debt_payments');
+    expect(categorizeTransaction('ZELLE TO PARKVIEW RENT', -900)).toBe('housing');
+    expect(categorizeTransaction('ATM WITHDRAWAL 123 MAIN ST', -600)).toBe('cash_withdrawal');
+    expect(categorizeTransaction('ONLINE TRANSFER TO SAV 1122', -250)).toBe('transfer');
+    expect(categorizeTransaction('CHECK 1042', -75)).toBe('other');
+  });
+});
+
+describe('flagTransaction', () => {
+  it('flags large transfers in either direction and large cash withdrawals', () => {
+    expect(flagTransaction({ amount: -1500, category: 'transfer' })).toBe('large_transfer');
+    expect(flagTransaction({ amount: 2000, category: 'transfer' })).toBe('large_transfer');
+    expect(flagTransaction({ amount: -100, category: 'transfer' })).toBeNull();
+    expect(flagTransaction({ amount: -600, category: 'cash_withdrawal' })).toBe('cash_withdrawal');
+    expect(flagTransaction({ amount: -40, category: 'cash_withdrawal' })).toBeNull();
+    expect(flagTransaction({ amount: -2500, category: 'housing' })).toBeNull();
+  });
+});
+
+describe('groupRecurringDeposits', () => {
+  it('groups deposits from the same payer across reference numbers', () => {
+    expect(payerKey('ACME LOGISTICS PAYROLL PPD ID: 9876543210')).toBe(payerKey('ACME LOGISTICS PAYROLL PPD ID: 1234567890'));
+
+    const groups = groupRecurringDeposits([
+      entry('2025-01-03', 'ACME LOGISTICS PAYROLL PPD ID: 111', 1935),
+      entry('2025-01-17', 'ACME LOGISTICS PAYROLL PPD ID: 222', 1935),
+      entry('2025-02-14', 'ACME LOGISTICS PAYROLL PPD ID: 333', 1935),
+      entry('2025-01-03', 'SSA TREAS 310 XXSOC SEC', 1104),
+      entry('2025-02-03', 'SSA TREAS 310 XXSOC SEC', 1104),
+      entry('2025-01-09', 'ZELLE FROM JOHN SAMPLE', 500),
+      entry('2025-02-09', 'ZELLE FROM JOHN SAMPLE', 500),
+      entry('2025-01-20', 'REFUND AMAZON MKTPLACE', 19.99),
+    ]);
+
+    expect(groups.map(group => [group.deposit.category, group.deposit.deposits, group.deposit.monthlyAverage])).toEqual([
+      ['payroll', 3, 2902.5],
+      ['social_security', 2, 1104],
+    ]);
+    expect(groups[0].deposit.months).toEqual(['2025-01', '2025-02']);
+  });
+});
+
+describe('proposeExpenses', () => {
+  it('averages spending over the most recent six months on file', () => {
+    const entries = [
+      // Outside the window once July is on file
+      entry('2025-01-10', 'KROGER #1234', -1000),
+      ...['02', '03', '04', '05', '06', '07'].map(month => entry(`2025-${month}-10`, 'KROGER #1234', -300)),
+      entry('2025-03-02', 'DUKE ENERGY PAYMENT', -180),
+      entry('2025-03-05', 'ATM WITHDRAWAL', -600),
+      entry('2025-03-06', 'PAYROLL', 2000),
+    ];
+
+    expect(proposeExpenses(entries)).toEqual([
+      { category: 'utilities', monthlyAverage: 30, months: 6, transactions: 1 },
+      { category: 'food', monthlyAverage: 300, months: 6, transactions: 6 },
+    ]);
+  });
+
+  it('uses fewer months when the ledger is shorter', () => {
+    const entries = [entry('2025-03-10', 'KROGER #1234', -200), entry('2025-04-10', 'KROGER #1234', -100)];
+    expect(proposeExpenses(entries)).toEqual([{ category: 'food', monthlyAverage: 150, months: 2, transactions: 2 }]);
+  });
+});
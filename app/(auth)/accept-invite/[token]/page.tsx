@@ -0,0 +1,162 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Scale, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RoleDescriptions, type LegalRole } from '@/lib/auth/roles';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
+
+interface InvitationDetails {
+  organizationName: string;
+  email: string;
+  role: LegalRole;
+  expiresAt: string;
+}
+
+/**
+ * Accept Invitation Page
+ *
+ * Opened from the link a firm owner or partner sends. Choosing a name and
+ * password creates the member's account and signs them in.
+ */
+export default function AcceptInvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const router = useRouter();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/invitations/${encodeURIComponent(token)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Invitation not found or expired');
+        setInvitation(data);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to accept invitation');
+      }
+
+      SimpleAuth.clearLegacyStorage();
+      router.push(SimpleAuth.homePath(data.role));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center px-4 py-12 bg-background">
+      <div className="w-full max-w-md space-y-8">
+        <div className="flex items-center justify-center gap-3">
+          <Scale className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl tracking-tight text-foreground">Bankruptcy Tool</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {invitation ? `Join ${invitation.organizationName}` : 'Accept Invitation'}
+            </CardTitle>
+            <CardDescription>
+              {loading && 'Loading invitation...'}
+              {invitation && (
+                <>
+                  You&apos;re invited as {invitation.role}: {RoleDescriptions[invitation.role].toLowerCase()}.
+                </>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="ml-2">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {invitation && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" value={invitation.email} disabled />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="name">Your Name</Label>
+                  <Input
+                    id="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={submitting}
+                  />
+                  <p className="text-xs text-muted-foreground">At least 10 characters</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    disabled={submitting}
+                  />
+                </div>
+
+                <Button
+                  onClick={handleAccept}
+                  disabled={!name || !password || !confirmPassword || submitting}
+                  className="w-full"
+                >
+                  {submitting ? 'Creating your account...' : 'Accept Invitation'}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -10,9 +10,13 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { provisionDatabase } from '@/lib/database/provision';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
 
 export default function SimpleLoginPage() {
+  const [mode, setMode] = useState<'apiKey' | 'member'>('apiKey');
   const [apiKey, setApiKey] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('Verifying...');
   const [error, setError] = useState<string | null>(null);
@@ -50,14 +54,13 @@ export default function SimpleLoginPage() {
         return;
       }
 
-      // Store API key in localStorage
-      localStorage.setItem('casedev_api_key', apiKey);
+      // The key now lives in the session cookie set by verify-key
+      SimpleAuth.clearLegacyStorage();
 
-      // Provision/retrieve database - this ensures we always have the correct
-      // database connection, even if localStorage was cleared
+      // Provision/retrieve database and attach it to the new session
       setLoadingMessage('Connecting to your database...');
       try {
-        await provisionDatabase(apiKey);
+        await provisionDatabase();
         console.log('Database provisioned/retrieved successfully during login');
       } catch (dbError: any) {
         console.error('Database provisioning failed during login:', dbError);
@@ -73,6 +76,31 @@ export default function SimpleLoginPage() {
     }
   };
 
+  const handleMemberLogin = async () => {
+    if (!email.trim() || !password) {
+      setError('Please enter your email and password');
+      return;
+    }
+
+    setLoading(true);
+    setLoadingMessage('Signing in...');
+    setError(null);
+
+    try {
+      // Members use the firm's key and database, attached by the session route
+      const role = await SimpleAuth.signIn(email.trim(), password);
+      router.push(SimpleAuth.homePath(role));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Incorrect email or password');
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (next: 'apiKey' | 'member') => {
+    setMode(next);
+    setError(null);
+  };
+
   return (
     <div className="min-h-screen w-full flex items-center justify-center px-4 py-12 bg-background">
       <div className="w-full max-w-md space-y-8">
@@ -104,59 +132,132 @@ export default function SimpleLoginPage() {
           </a>
         </div>
 
+        {/* Firm Member Login */}
+        {mode === 'member' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign In to Your Firm</CardTitle>
+              <CardDescription>
+                Use the email and password you chose when you accepted your invitation
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="ml-2">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && email && password) {
+                      handleMemberLogin();
+                    }
+                  }}
+                  disabled={loading}
+                />
+              </div>
+
+              <Button
+                onClick={handleMemberLogin}
+                disabled={!email || !password || loading}
+                className="w-full"
+              >
+                {loading ? loadingMessage : 'Sign In'}
+              </Button>
+
+              <button
+                type="button"
+                onClick={() => switchMode('apiKey')}
+                className="w-full text-xs text-muted-foreground hover:text-foreground"
+              >
+                Sign in with a case.dev API key instead
+              </button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Login Form */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Connect Your case.dev Account</CardTitle>
-            <CardDescription>
-              Enter your case.dev API key to get started
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription className="ml-2">{error}</AlertDescription>
-              </Alert>
-            )}
-
-            <div className="space-y-2">
-              <Label htmlFor="api-key">case.dev API Key</Label>
-              <Input
-                id="api-key"
-                type="password"
-                placeholder="sk_case_..."
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && apiKey) {
-                    handleLogin();
-                  }
-                }}
-                disabled={loading}
-              />
-              <p className="text-xs text-muted-foreground">
-                Get your API key from{' '}
-                <a
-                  href="https://console.case.dev"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  console.case.dev
-                </a>
-              </p>
-            </div>
-
-            <Button
-              onClick={handleLogin}
-              disabled={!apiKey || loading}
-              className="w-full"
-            >
-              {loading ? loadingMessage : 'Continue'}
-            </Button>
-          </CardContent>
-        </Card>
+        {mode === 'apiKey' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Connect Your case.dev Account</CardTitle>
+              <CardDescription>
+                Enter your case.dev API key to get started
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="ml-2">{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="api-key">case.dev API Key</Label>
+                <Input
+                  id="api-key"
+                  type="password"
+                  placeholder="sk_case_..."
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && apiKey) {
+                      handleLogin();
+                    }
+                  }}
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Get your API key from{' '}
+                  <a
+                    href="https://console.case.dev"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    console.case.dev
+                  </a>
+                </p>
+              </div>
+
+              <Button
+                onClick={handleLogin}
+                disabled={!apiKey || loading}
+                className="w-full"
+              >
+                {loading ? loadingMessage : 'Continue'}
+              </Button>
+
+              <button
+                type="button"
+                onClick={() => switchMode('member')}
+                className="w-full text-xs text-muted-foreground hover:text-foreground"
+              >
+                Invited to a firm? Sign in with email and password
+              </button>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Info */}
         <div className="rounded border border-border bg-card p-4 space-y-2">
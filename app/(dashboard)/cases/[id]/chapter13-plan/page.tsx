@@ -0,0 +1,477 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  Calculator,
+  CalendarClock,
+  ChevronRight,
+  DollarSign,
+  Percent,
+  ArrowLeft,
+  RefreshCw,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  FileText,
+} from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface PlanDistribution {
+  category: "trustee_fee" | "attorney_fee" | "priority" | "secured_arrears" | "unsecured";
+  creditorName: string;
+  totalAmount: number;
+  monthlyAmount: number;
+}
+
+interface Chapter13PlanData {
+  caseId: string;
+  calculatedAt: string;
+  inputs: {
+    state: string;
+    householdSize: number;
+    currentMonthlyIncome: number;
+    monthlyExpenses: number;
+  };
+  commitmentPeriod: {
+    annualIncome: number;
+    medianIncome: number;
+    isAboveMedian: boolean;
+    commitmentPeriodMonths: 36 | 60;
+    reason: string;
+  };
+  disposableIncome: {
+    method: "form_122c2" | "schedule_j";
+    monthlyIncome: number;
+    totalDeductions: number;
+    monthlyDisposableIncome: number;
+  };
+  securedDebts: { id: string; creditorName: string; balance: number; arrearage: number }[];
+  plan: {
+    monthlyPayment: number;
+    totalPlanPayments: number;
+    trusteeFeeRate: number;
+    trusteeFees: number;
+    unsecuredPool: number;
+    nonpriorityUnsecuredTotal: number;
+    unsecuredDividendPercent: number;
+    minimumMonthlyPayment: number;
+    feasible: boolean;
+    distributions: PlanDistribution[];
+    warnings: string[];
+  };
+}
+
+const CATEGORY_LABELS: Record<PlanDistribution["category"], string> = {
+  trustee_fee: "Trustee Fee",
+  attorney_fee: "Administrative",
+  priority: "Priority",
+  secured_arrears: "Secured Arrears",
+  unsecured: "Unsecured",
+};
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function Chapter13PlanPage() {
+  const params = useParams();
+  const router = useRouter();
+  const id = params.id as string;
+
+  const [planData, setPlanData] = useState<Chapter13PlanData | null>(null);
+  const [clientName, setClientName] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [calculating, setCalculating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Plan assumptions
+  const [trusteeFeePercent, setTrusteeFeePercent] = useState("10");
+  const [attorneyFees, setAttorneyFees] = useState("");
+  const [arrears, setArrears] = useState<Record<string, string>>({});
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/chapter13-plan`
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to calculate plan");
+      }
+
+      setPlanData(await response.json());
+    } catch (err) {
+      console.error("Error fetching Chapter 13 plan:", err);
+      setError(err instanceof Error ? err.message : "Failed to calculate plan");
+    }
+  }, [id]);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const response = await fetch(
+          `/api/cases/${id}`
+        );
+        if (response.status === 401) {
+          router.push("/login");
+          return;
+        }
+        if (response.ok) {
+          const data = await response.json();
+          setClientName(data.case?.clientName || "");
+        }
+        await fetchPlan();
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    load();
+  }, [id, router, fetchPlan]);
+
+  const handleRecalculate = async () => {
+    setCalculating(true);
+    setError(null);
+    try {
+      const securedArrears: Record<string, number> = {};
+      for (const [debtId, value] of Object.entries(arrears)) {
+        if (value) securedArrears[debtId] = parseFloat(value);
+      }
+
+      const response = await fetch(
+        `/api/cases/${id}/chapter13-plan`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            trusteeFeeRate: parseFloat(trusteeFeePercent || "0") / 100,
+            attorneyFeesBalance: attorneyFees ? parseFloat(attorneyFees) : 0,
+            securedArrears,
+          }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to calculate plan");
+      }
+      setPlanData(data);
+    } catch (err) {
+      console.error("Error recalculating Chapter 13 plan:", err);
+      setError(err instanceof Error ? err.message : "Failed to calculate plan");
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!planData) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">{error || "Case not found"}</h2>
+          <Link href="/cases" className="text-primary hover:underline">
+            Return to Cases
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { commitmentPeriod, disposableIncome, plan } = planData;
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+          <Link href="/cases" className="hover:text-foreground">
+            Cases
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <Link href={`/cases/${id}`} className="hover:text-foreground">
+            {clientName || "Case"}
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span>Chapter 13 Plan</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" onClick={() => router.push(`/cases/${id}`)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Chapter 13 Plan Calculator</h1>
+              <p className="text-muted-foreground mt-1">
+                Draft plan payment schedule per Forms 122C-1 and 122C-2
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleRecalculate}
+            disabled={calculating}
+            className="flex items-center gap-2 px-4 py-2 border rounded-lg hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            {calculating ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            Recalculate
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg border bg-red-50 border-red-200 mb-6 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Feasibility Warnings */}
+      {plan.warnings.length > 0 && (
+        <div className="p-6 rounded-lg border bg-yellow-50 border-yellow-200 mb-8">
+          <div className="flex items-start gap-4">
+            <AlertTriangle className="w-8 h-8 text-yellow-600 flex-shrink-0" />
+            <div>
+              <h2 className="text-lg font-semibold text-yellow-800">
+                {plan.feasible ? "Plan Review Needed" : "Plan May Not Be Feasible"}
+              </h2>
+              <ul className="text-yellow-700 mt-1 list-disc pl-5 space-y-1">
+                {plan.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Plan Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="bg-card p-4 rounded-lg border">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <CalendarClock className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{commitmentPeriod.commitmentPeriodMonths} months</div>
+              <div className="text-sm text-muted-foreground">Commitment Period</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-card p-4 rounded-lg border">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-green-100 rounded-lg">
+              <DollarSign className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{formatCurrency(plan.monthlyPayment)}</div>
+              <div className="text-sm text-muted-foreground">Monthly Plan Payment</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-card p-4 rounded-lg border">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-100 rounded-lg">
+              <Calculator className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{formatCurrency(disposableIncome.monthlyDisposableIncome)}</div>
+              <div className="text-sm text-muted-foreground">Projected Disposable Income</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-card p-4 rounded-lg border">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              <Percent className="w-5 h-5 text-orange-600" />
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{plan.unsecuredDividendPercent}%</div>
+              <div className="text-sm text-muted-foreground">Unsecured Dividend</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Commitment Period and Disposable Income */}
+        <div className="bg-card p-6 rounded-lg border">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <FileText className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Income Analysis</h2>
+              <p className="text-sm text-muted-foreground">{commitmentPeriod.reason}</p>
+            </div>
+          </div>
+
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Current Monthly Income</span>
+              <span className="font-semibold">{formatCurrency(planData.inputs.currentMonthlyIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Annualized Income</span>
+              <span>{formatCurrency(commitmentPeriod.annualIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {planData.inputs.state} Median ({planData.inputs.householdSize} person household)
+              </span>
+              <span>{formatCurrency(commitmentPeriod.medianIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {disposableIncome.method === "form_122c2"
+                  ? "Current Monthly Income"
+                  : "Net Monthly Income (Schedule I)"}
+              </span>
+              <span>{formatCurrency(disposableIncome.monthlyIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {disposableIncome.method === "form_122c2"
+                  ? "Deductions (Form 122C-2)"
+                  : "Expenses (Schedule J)"}
+              </span>
+              <span className="text-red-600">-{formatCurrency(disposableIncome.totalDeductions)}</span>
+            </div>
+            <div className="border-t pt-2 mt-2 flex justify-between font-medium">
+              <span>Projected Disposable Income</span>
+              <span>{formatCurrency(disposableIncome.monthlyDisposableIncome)}/mo</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Plan Assumptions */}
+        <div className="bg-card p-6 rounded-lg border">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-purple-100 rounded-lg">
+              <Calculator className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Plan Assumptions</h2>
+              <p className="text-sm text-muted-foreground">Adjust and recalculate</p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="trusteeFee">Trustee Fee (%)</Label>
+                <Input
+                  id="trusteeFee"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="10"
+                  value={trusteeFeePercent}
+                  onChange={(e) => setTrusteeFeePercent(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="attorneyFees">Unpaid Attorney Fees ($)</Label>
+                <Input
+                  id="attorneyFees"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={attorneyFees}
+                  onChange={(e) => setAttorneyFees(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {planData.securedDebts.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-sm text-muted-foreground">Secured Arrears to Cure</h3>
+                {planData.securedDebts.map((debt) => (
+                  <div key={debt.id} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="flex-1">
+                      {debt.creditorName}
+                      <span className="text-muted-foreground ml-2">({formatCurrency(debt.balance)} balance)</span>
+                    </span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      className="w-32"
+                      value={arrears[debt.id] ?? (debt.arrearage ? String(debt.arrearage) : "")}
+                      onChange={(e) => setArrears({ ...arrears, [debt.id]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Payment Schedule */}
+        <div className="bg-card p-6 rounded-lg border lg:col-span-2">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-green-100 rounded-lg">
+              <DollarSign className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Draft Payment Schedule</h2>
+              <p className="text-sm text-muted-foreground">
+                {formatCurrency(plan.monthlyPayment)} × {commitmentPeriod.commitmentPeriodMonths} months = {formatCurrency(plan.totalPlanPayments)}
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Class</th>
+                  <th className="py-2 pr-4 font-medium">Payee</th>
+                  <th className="py-2 pr-4 font-medium text-right">Monthly</th>
+                  <th className="py-2 font-medium text-right">Plan Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.distributions.map((d) => (
+                  <tr key={`${d.category}-${d.creditorName}`} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{CATEGORY_LABELS[d.category]}</td>
+                    <td className="py-2 pr-4">{d.creditorName}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(d.monthlyAmount)}</td>
+                    <td className="py-2 text-right">{formatCurrency(d.totalAmount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="border-t pt-4 mt-4 flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              Unsecured creditors receive {formatCurrency(plan.unsecuredPool)} of {formatCurrency(plan.nonpriorityUnsecuredTotal)}
+            </span>
+            <span className="font-medium">{plan.unsecuredDividendPercent}% dividend</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -37,23 +37,17 @@ export default function CaseCreatedPage() {
   const [pageState, setPageState] = useState<PageState>('prompt');
 
   useEffect(() => {
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-    if (!connectionString) {
-      router.push('/login');
-      return;
-    }
-
-    fetchCaseData(connectionString);
+    fetchCaseData();
   }, [id, router]);
 
-  const fetchCaseData = async (connectionString: string) => {
+  const fetchCaseData = async () => {
     try {
       const response = await fetch(
-        `/api/cases/${id}?connectionString=${encodeURIComponent(connectionString)}`
+        `/api/cases/${id}`
       );
 
       if (!response.ok) {
-        router.push('/cases');
+        router.push(response.status === 401 ? '/login' : '/cases');
         return;
       }
 
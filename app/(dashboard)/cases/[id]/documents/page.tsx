@@ -44,6 +44,15 @@ interface Document {
   uploadedAt: string;
   fileUrl: string | null;
   vaultObjectId?: string | null;
+  classification?: {
+    predictedType: string;
+    confidence: number;
+    method: "llm" | "keyword" | "manual";
+    sourceFileName?: string;
+    startPage?: number;
+    endPage?: number;
+    correctedFrom?: string;
+  } | null;
 }
 
 const DOCUMENT_TYPES = [
@@ -65,6 +74,12 @@ const DOCUMENT_TYPES = [
   { value: "other", label: "Other" },
 ];
 
+// Upload type that sends files to the batch endpoint for classification
+const AUTO_DETECT_TYPE = "auto";
+
+// How often to check on a batch upload
+const BATCH_POLL_INTERVAL_MS = 3000;
+
 // Use shared required documents from lib/bankruptcy/required-documents.ts
 // This ensures consistency across all pages (dashboard, documents, etc.)
 
@@ -93,6 +108,7 @@ export default function CaseDocumentsPage() {
   const quickUploadRef = useRef<HTMLInputElement>(null);
   const eventSourcesRef = useRef<Map<number, EventSource>>(new Map());
   const reprocessEventSourceRef = useRef<EventSource | null>(null);
+  const batchPollsRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
 
   // Filter state
   const [filterType, setFilterType] = useState<string>("all");
@@ -100,6 +116,7 @@ export default function CaseDocumentsPage() {
   // Action states
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
   const [reprocessingId, setReprocessingId] = useState<string | null>(null);
+  const [retypingId, setRetypingId] = useState<string | null>(null);
   const [viewingDocument, setViewingDocument] = useState<Document | null>(null);
   const [documentText, setDocumentText] = useState<string | null>(null);
   const [loadingText, setLoadingText] = useState(false);
@@ -111,11 +128,9 @@ export default function CaseDocumentsPage() {
   // Guided upload wizard state
   const [showGuidedUpload, setShowGuidedUpload] = useState(false);
 
-  const connectionString = typeof window !== 'undefined' ? localStorage.getItem("bankruptcy_db_connection") : null;
-  const apiKey = typeof window !== 'undefined' ? localStorage.getItem("casedev_api_key") : null;
-
   // Cleanup SSE connections on unmount
   useEffect(() => {
+    const batchPolls = batchPollsRef.current;
     return () => {
       eventSourcesRef.current.forEach((es) => es.close());
       eventSourcesRef.current.clear();
@@ -124,15 +139,17 @@ export default function CaseDocumentsPage() {
         reprocessEventSourceRef.current.close();
         reprocessEventSourceRef.current = null;
       }
+      batchPolls.forEach((timer) => clearTimeout(timer));
+      batchPolls.clear();
     };
   }, []);
 
   const fetchDocuments = useCallback(async () => {
-    if (!caseId || !connectionString) return;
+    if (!caseId) return;
 
     try {
       const docsResponse = await fetch(
-        `/api/cases/${caseId}/documents?connectionString=${encodeURIComponent(connectionString)}`
+        `/api/cases/${caseId}/documents`
       );
 
       if (docsResponse.ok) {
@@ -142,20 +159,12 @@ export default function CaseDocumentsPage() {
     } catch (err) {
       console.error("Error fetching documents:", err);
     }
-  }, [caseId, connectionString]);
+  }, [caseId]);
 
   // Subscribe to SSE for document processing status
   const subscribeToDocumentStatus = useCallback(
     (documentId: string, fileIndex: number) => {
-      if (!connectionString || !apiKey) return;
-
-      const searchParams = new URLSearchParams({
-        connectionString,
-        apiKey,
-      });
-
-      const url = `/api/documents/${documentId}/status?${searchParams.toString()}`;
-      const eventSource = new EventSource(url);
+      const eventSource = new EventSource(`/api/documents/${documentId}/status`);
       eventSourcesRef.current.set(fileIndex, eventSource);
 
       eventSource.addEventListener("status", (event) => {
@@ -206,7 +215,20 @@ export default function CaseDocumentsPage() {
         }
       });
 
-      eventSource.addEventListener("error", () => {
+      eventSource.addEventListener("error", (event) => {
+        // Job failures arrive as an "error" event with a message
+        if (event instanceof MessageEvent) {
+          try {
+            const data = JSON.parse(event.data);
+            setUploadingFiles((prev) =>
+              prev.map((f, idx) =>
+                idx === fileIndex ? { ...f, status: "error", statusMessage: data.message } : f
+              )
+            );
+          } catch (e) {
+            console.error("Failed to parse SSE event:", e);
+          }
+        }
         eventSource.close();
         eventSourcesRef.current.delete(fileIndex);
       });
@@ -216,30 +238,23 @@ export default function CaseDocumentsPage() {
         eventSourcesRef.current.delete(fileIndex);
       };
     },
-    [connectionString, apiKey, fetchDocuments]
+    [fetchDocuments]
   );
 
   useEffect(() => {
     if (!caseId) return;
 
-    if (!apiKey) {
-      router.push("/login");
-      return;
-    }
-
-    if (!connectionString) {
-      setError("Database not provisioned. Please go to settings to set up your database.");
-      setLoading(false);
-      return;
-    }
-
     const fetchData = async () => {
       try {
         const caseResponse = await fetch(
-          `/api/cases/${caseId}?connectionString=${encodeURIComponent(connectionString)}`
+          `/api/cases/${caseId}`
         );
 
         if (!caseResponse.ok) {
+          if (caseResponse.status === 401) {
+            router.push("/login");
+            return;
+          }
           if (caseResponse.status === 404) {
             router.push("/cases");
             return;
@@ -259,10 +274,120 @@ export default function CaseDocumentsPage() {
     };
 
     fetchData();
-  }, [caseId, router, connectionString, apiKey, fetchDocuments]);
+  }, [caseId, router, fetchDocuments]);
+
+  // Poll a batch upload until its documents have been created
+  const pollBatchStatus = useCallback(
+    (batchId: string, fileIndex: number) => {
+      const poll = async () => {
+        try {
+          const response = await fetch(
+            `/api/documents/batch/${batchId}`
+          );
+          if (!response.ok) throw new Error("Failed to fetch batch status");
+
+          const { batch, job } = await response.json();
+          const finished = batch.status !== "processing";
+          const failed = batch.status === "failed";
+
+          setUploadingFiles((prev) =>
+            prev.map((f, idx) =>
+              idx === fileIndex
+                ? {
+                    ...f,
+                    status: failed ? "error" : finished ? "done" : "processing",
+                    progress: job?.progress ?? f.progress,
+                    statusMessage: failed
+                      ? job?.lastError || "Batch upload failed"
+                      : finished
+                      ? `${batch.documentCount} documents detected`
+                      : job?.message || f.statusMessage,
+                  }
+                : f
+            )
+          );
+
+          if (finished) {
+            fetchDocuments();
+            return;
+          }
+        } catch (err) {
+          console.error("Batch status error:", err);
+        }
+
+        const timer = setTimeout(() => {
+          batchPollsRef.current.delete(timer);
+          poll();
+        }, BATCH_POLL_INTERVAL_MS);
+        batchPollsRef.current.add(timer);
+      };
+
+      poll();
+    },
+    [fetchDocuments]
+  );
+
+  // Upload files as one batch; pages are split and classified on the server
+  const handleBatchUpload = async (files: File[]) => {
+    if (!caseId) return;
+
+    const fileIndex = uploadingFiles.length;
+    setUploadingFiles(prev => [
+      ...prev,
+      {
+        name: files.length === 1 ? files[0].name : `${files.length} files`,
+        status: 'uploading',
+        progress: 0,
+        statusMessage: 'Uploading...',
+      },
+    ]);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      formData.append("caseId", caseId);
+
+      const response = await fetch(
+        `/api/documents/batch`,
+        {
+          method: "POST",
+          body: formData,
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Upload failed");
+      }
+
+      setUploadingFiles(prev =>
+        prev.map((f, idx) =>
+          idx === fileIndex
+            ? { ...f, status: 'processing', progress: 5, statusMessage: `Detecting documents in ${data.pageCount} pages...` }
+            : f
+        )
+      );
+      pollBatchStatus(data.batch.id, fileIndex);
+    } catch (err) {
+      setUploadingFiles(prev =>
+        prev.map((f, idx) =>
+          idx === fileIndex
+            ? { ...f, status: 'error', statusMessage: err instanceof Error ? err.message : 'Upload failed' }
+            : f
+        )
+      );
+    }
+
+    setUploadingType(null);
+  };
 
   const handleUpload = async (files: File[], documentType: string) => {
-    if (!connectionString || !apiKey || !caseId) return;
+    if (!caseId) return;
+
+    // ZIP archives can only be unpacked by the batch upload
+    if (documentType === AUTO_DETECT_TYPE || files.some(f => f.name.toLowerCase().endsWith('.zip'))) {
+      return handleBatchUpload(files);
+    }
 
     const startIndex = uploadingFiles.length;
     const newUploadingFiles = files.map(f => ({
@@ -284,10 +409,9 @@ export default function CaseDocumentsPage() {
         formData.append("documentType", documentType);
 
         const response = await fetch(
-          `/api/documents/upload?connectionString=${encodeURIComponent(connectionString)}`,
+          `/api/documents/upload`,
           {
             method: "POST",
-            headers: { 'x-api-key': apiKey },
             body: formData,
           }
         );
@@ -366,15 +490,10 @@ export default function CaseDocumentsPage() {
   };
 
   const handleDownload = async (doc: Document) => {
-    if (!connectionString) return;
-
     setDownloadingId(doc.id);
     try {
       const response = await fetch(
-        `/api/cases/${caseId}/documents/${doc.id}?connectionString=${encodeURIComponent(connectionString)}&action=download`,
-        {
-          headers: apiKey ? { 'x-casedev-api-key': apiKey } : {},
-        }
+        `/api/cases/${caseId}/documents/${doc.id}?action=download`
       );
 
       if (!response.ok) {
@@ -404,17 +523,9 @@ export default function CaseDocumentsPage() {
     setDocumentText(null);
     setLoadingText(true);
 
-    if (!connectionString) {
-      setLoadingText(false);
-      return;
-    }
-
     try {
       const response = await fetch(
-        `/api/cases/${caseId}/documents/${doc.id}?connectionString=${encodeURIComponent(connectionString)}&action=text`,
-        {
-          headers: apiKey ? { 'x-casedev-api-key': apiKey } : {},
-        }
+        `/api/cases/${caseId}/documents/${doc.id}?action=text`
       );
 
       if (response.ok) {
@@ -434,14 +545,11 @@ export default function CaseDocumentsPage() {
   };
 
   const handleDeleteConfirm = async () => {
-    if (!documentToDelete || !connectionString) return;
+    if (!documentToDelete) return;
 
     const response = await fetch(
-      `/api/cases/${caseId}/documents/${documentToDelete.id}?connectionString=${encodeURIComponent(connectionString)}&deleteFromVault=true`,
-      {
-        method: 'DELETE',
-        headers: apiKey ? { 'x-casedev-api-key': apiKey } : {},
-      }
+      `/api/cases/${caseId}/documents/${documentToDelete.id}?deleteFromVault=true`,
+      { method: 'DELETE' }
     );
 
     if (!response.ok) {
@@ -452,10 +560,36 @@ export default function CaseDocumentsPage() {
     setDocumentToDelete(null);
   };
 
-  // Re-process a document to re-run LLM extraction
-  const handleReprocess = useCallback((doc: Document) => {
-    if (!connectionString || !apiKey) return;
+  // Correct a misclassified document; its figures are re-extracted under the new type
+  const handleTypeChange = async (doc: Document, documentType: string) => {
+    if (documentType === doc.documentType) return;
 
+    setRetypingId(doc.id);
+    try {
+      const response = await fetch(
+        `/api/cases/${caseId}/documents/${doc.id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ documentType }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update document type');
+      }
+
+      await fetchDocuments();
+    } catch (err) {
+      console.error('Document type update error:', err);
+    } finally {
+      setRetypingId(null);
+    }
+  };
+
+  // Re-process a document to re-run LLM extraction
+  const handleReprocess = useCallback(async (doc: Document) => {
     // Close any existing reprocess connection
     if (reprocessEventSourceRef.current) {
       reprocessEventSourceRef.current.close();
@@ -465,15 +599,16 @@ export default function CaseDocumentsPage() {
     setReprocessingId(doc.id);
 
     try {
-      // Subscribe to SSE for processing status
-      const searchParams = new URLSearchParams({
-        connectionString,
-        apiKey,
-        reprocess: 'true', // Signal to re-run extraction
-      });
+      // Queue the re-run; it keeps going if this page is closed
+      const jobResponse = await fetch(`/api/documents/${doc.id}/job`, { method: 'POST' });
+
+      if (!jobResponse.ok) {
+        const data = await jobResponse.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to queue reprocessing');
+      }
 
-      const url = `/api/documents/${doc.id}/status?${searchParams.toString()}`;
-      const eventSource = new EventSource(url);
+      // Subscribe to SSE for processing status
+      const eventSource = new EventSource(`/api/documents/${doc.id}/status`);
       reprocessEventSourceRef.current = eventSource;
 
       eventSource.addEventListener("status", (event) => {
@@ -503,7 +638,7 @@ export default function CaseDocumentsPage() {
       console.error('Reprocess error:', err);
       setReprocessingId(null);
     }
-  }, [connectionString, apiKey, fetchDocuments]);
+  }, [fetchDocuments]);
 
   if (loading) {
     return (
@@ -628,7 +763,7 @@ export default function CaseDocumentsPage() {
         type="file"
         className="hidden"
         multiple
-        accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+        accept=".pdf,.jpg,.jpeg,.png,.doc,.docx,.zip"
         onChange={handleFileSelect}
       />
 
@@ -857,6 +992,7 @@ export default function CaseDocumentsPage() {
             onChange={(e) => setSelectedUploadType(e.target.value)}
             className="flex h-11 w-full rounded-xl border border-input bg-background px-4 py-2.5 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
           >
+            <option value={AUTO_DETECT_TYPE}>Detect automatically</option>
             {DOCUMENT_TYPES.map((type) => (
               <option key={type.value} value={type.value}>
                 {type.label}
@@ -890,6 +1026,11 @@ export default function CaseDocumentsPage() {
           <p className="text-xs text-muted-foreground mt-4">
             PDF, JPG, PNG, DOC, DOCX (Max 10MB each)
           </p>
+          {selectedUploadType === AUTO_DETECT_TYPE && (
+            <p className="text-xs text-muted-foreground mt-1">
+              PDF, JPG, PNG, or ZIP. Combined scans are split into separate documents.
+            </p>
+          )}
         </div>
 
         {/* Upload Progress */}
@@ -985,7 +1126,44 @@ export default function CaseDocumentsPage() {
                   <div className="min-w-0">
                     <p className="font-medium truncate">{doc.fileName}</p>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <span>{getDocTypeLabel(doc.documentType)}</span>
+                      {doc.classification ? (
+                        <span className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                          <select
+                            value={doc.documentType || "other"}
+                            onChange={(e) => handleTypeChange(doc, e.target.value)}
+                            disabled={retypingId === doc.id}
+                            className="text-sm border border-input rounded-md px-2 py-0.5 bg-background focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+                            title="Correct the detected document type"
+                          >
+                            {DOCUMENT_TYPES.map((type) => (
+                              <option key={type.value} value={type.value}>
+                                {type.label}
+                              </option>
+                            ))}
+                          </select>
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded-full ${
+                              doc.classification.method === "manual"
+                                ? "bg-blue-100 text-blue-700"
+                                : doc.classification.confidence >= 0.7
+                                ? "bg-green-100 text-green-700"
+                                : "bg-yellow-100 text-yellow-700"
+                            }`}
+                            title={doc.classification.sourceFileName ? `From ${doc.classification.sourceFileName}` : undefined}
+                          >
+                            {doc.classification.method === "manual"
+                              ? "Corrected"
+                              : `Detected ${Math.round(doc.classification.confidence * 100)}%`}
+                          </span>
+                          {doc.classification.startPage && (
+                            <span className="text-xs">
+                              pp. {doc.classification.startPage}–{doc.classification.endPage}
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span>{getDocTypeLabel(doc.documentType)}</span>
+                      )}
                       <span>•</span>
                       <span>{new Date(doc.uploadedAt).toLocaleDateString()}</span>
                     </div>
@@ -24,6 +24,8 @@ import {
   ShieldCheck,
   AlertTriangle,
   FileWarning,
+  FileSignature,
+  Users,
 } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -31,7 +33,13 @@ import { AddIncomeModal } from "@/components/cases/financial/add-income-modal";
 import { AddDebtModal } from "@/components/cases/financial/add-debt-modal";
 import { AddAssetModal } from "@/components/cases/financial/add-asset-modal";
 import { AddExpenseModal } from "@/components/cases/financial/add-expense-modal";
+import { AddContractModal, CONTRACT_TYPES } from "@/components/cases/financial/add-contract-modal";
+import { AddCodebtorModal } from "@/components/cases/financial/add-codebtor-modal";
 import { DeleteConfirmationModal } from "@/components/cases/financial/delete-confirmation-modal";
+import { SourcePopover } from "@/components/cases/financial/source-popover";
+import { BankActivityCard } from "@/components/cases/financial/bank-activity-card";
+import type { FieldSources } from "@/lib/extraction/provenance";
+import type { BankTransaction, TransactionSummary } from "@/lib/transactions/types";
 
 interface BankruptcyCase {
   id: string;
@@ -58,6 +66,7 @@ interface IncomeRecord {
   incomeSource: string;
   description: string | null;
   confidence: number | null;
+  fieldSources: FieldSources | null;
   extractedAt: string | null;
   createdAt: string;
 }
@@ -84,6 +93,8 @@ interface AssetRecord {
   institution: string | null;
   accountNumberLast4: string | null;
   ownershipPercentage: number;
+  documentId: string | null;
+  fieldSources: FieldSources | null;
 }
 
 interface DebtRecord {
@@ -99,6 +110,27 @@ interface DebtRecord {
   priority: boolean;
   collateral: string | null;
   collateralValue: number | null;
+  documentId: string | null;
+  fieldSources: FieldSources | null;
+}
+
+interface ContractRecord {
+  id: string;
+  counterpartyName: string;
+  counterpartyAddress: string | null;
+  contractType: string;
+  description: string;
+  monthlyPayment: number | null;
+  expirationDate: string | null;
+}
+
+interface CodebtorRecord {
+  id: string;
+  debtId: string;
+  name: string;
+  address: string | null;
+  relationship: string | null;
+  creditorName: string | null;
 }
 
 interface ReconciledIncomeSource {
@@ -135,19 +167,23 @@ interface ReconciliationSummary {
 }
 
 // Delete item type for confirmation modal
-type DeleteItemType = 'income' | 'expense' | 'asset' | 'debt';
+type DeleteItemType = 'income' | 'expense' | 'asset' | 'debt' | 'contract' | 'codebtor';
 
 // Category icons mapping
 const CATEGORY_ICONS: Record<string, typeof Home> = {
   housing: Home,
   transportation: Car,
   utilities: DollarSign,
+  telecommunications: DollarSign,
   food: DollarSign,
   medical: DollarSign,
   insurance: DollarSign,
+  life_insurance: DollarSign,
   clothing: DollarSign,
   childcare: DollarSign,
   taxes: DollarSign,
+  payroll_deductions: DollarSign,
+  court_ordered_payments: DollarSign,
   debt_payments: CreditCard,
   entertainment: DollarSign,
   education: DollarSign,
@@ -158,13 +194,17 @@ const CATEGORY_ICONS: Record<string, typeof Home> = {
 const CATEGORY_LABELS: Record<string, string> = {
   housing: 'Housing',
   utilities: 'Utilities',
+  telecommunications: 'Phone/Internet',
   food: 'Food',
   clothing: 'Clothing',
   transportation: 'Transportation',
   medical: 'Medical/Healthcare',
   childcare: 'Childcare',
   insurance: 'Insurance',
+  life_insurance: 'Term Life Insurance',
   taxes: 'Taxes',
+  payroll_deductions: 'Payroll Deductions',
+  court_ordered_payments: 'Court-Ordered Payments',
   debt_payments: 'Debt Payments',
   entertainment: 'Entertainment',
   education: 'Education',
@@ -172,6 +212,11 @@ const CATEGORY_LABELS: Record<string, string> = {
 };
 
 // Format income month (YYYY-MM) to readable format
+// Extracted fields that can be traced back to the document, with display names
+const INCOME_SOURCE_FIELDS = { grossAmount: "Gross amount", netAmount: "Net amount", employer: "Employer", incomeMonth: "Pay date" };
+const ASSET_SOURCE_FIELDS = { estimatedValue: "Value", description: "Description", institutionName: "Institution", accountLast4: "Account", statementDate: "Statement date" };
+const DEBT_SOURCE_FIELDS = { currentBalance: "Balance", monthlyPayment: "Monthly payment", creditorName: "Creditor", accountLast4: "Account", statementDate: "Statement date" };
+
 function formatIncomeMonth(incomeMonth: string): string {
   if (!incomeMonth) return 'Unknown';
   const [year, month] = incomeMonth.split('-');
@@ -210,6 +255,10 @@ export default function CaseFinancialPage() {
   const [expenseRecords, setExpenseRecords] = useState<ExpenseRecord[]>([]);
   const [assetRecords, setAssetRecords] = useState<AssetRecord[]>([]);
   const [debtRecords, setDebtRecords] = useState<DebtRecord[]>([]);
+  const [contractRecords, setContractRecords] = useState<ContractRecord[]>([]);
+  const [codebtorRecords, setCodebtorRecords] = useState<CodebtorRecord[]>([]);
+  const [bankTransactions, setBankTransactions] = useState<BankTransaction[]>([]);
+  const [transactionSummary, setTransactionSummary] = useState<TransactionSummary | null>(null);
 
   // Reconciled income
   const [reconciliationSummary, setReconciliationSummary] = useState<ReconciliationSummary | null>(null);
@@ -220,6 +269,8 @@ export default function CaseFinancialPage() {
   const [addExpenseOpen, setAddExpenseOpen] = useState(false);
   const [addAssetOpen, setAddAssetOpen] = useState(false);
   const [addDebtOpen, setAddDebtOpen] = useState(false);
+  const [addContractOpen, setAddContractOpen] = useState(false);
+  const [addCodebtorOpen, setAddCodebtorOpen] = useState(false);
 
   // Delete confirmation modal state
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
@@ -227,18 +278,17 @@ export default function CaseFinancialPage() {
   const [deleteItemId, setDeleteItemId] = useState<string>('');
   const [deleteItemName, setDeleteItemName] = useState<string>('');
 
-  const connectionString = typeof window !== 'undefined' ? localStorage.getItem("bankruptcy_db_connection") : null;
-
   const fetchFinancialData = useCallback(async () => {
-    if (!connectionString) return;
-
     try {
-      const [incomeRes, expenseRes, assetRes, debtRes, reconcileRes] = await Promise.all([
-        fetch(`/api/cases/${id}/income?connectionString=${encodeURIComponent(connectionString)}`),
-        fetch(`/api/cases/${id}/expenses?connectionString=${encodeURIComponent(connectionString)}`),
-        fetch(`/api/cases/${id}/assets?connectionString=${encodeURIComponent(connectionString)}`),
-        fetch(`/api/cases/${id}/debts?connectionString=${encodeURIComponent(connectionString)}`),
-        fetch(`/api/cases/${id}/income/reconcile?connectionString=${encodeURIComponent(connectionString)}`),
+      const [incomeRes, expenseRes, assetRes, debtRes, reconcileRes, contractRes, codebtorRes, transactionRes] = await Promise.all([
+        fetch(`/api/cases/${id}/income`),
+        fetch(`/api/cases/${id}/expenses`),
+        fetch(`/api/cases/${id}/assets`),
+        fetch(`/api/cases/${id}/debts`),
+        fetch(`/api/cases/${id}/income/reconcile`),
+        fetch(`/api/cases/${id}/contracts`),
+        fetch(`/api/cases/${id}/codebtors`),
+        fetch(`/api/cases/${id}/transactions`),
       ]);
 
       if (incomeRes.ok) {
@@ -261,21 +311,28 @@ export default function CaseFinancialPage() {
         const data = await reconcileRes.json();
         setReconciliationSummary(data.summary || null);
       }
+      if (contractRes.ok) {
+        const data = await contractRes.json();
+        setContractRecords(data.contracts || []);
+      }
+      if (codebtorRes.ok) {
+        const data = await codebtorRes.json();
+        setCodebtorRecords(data.codebtors || []);
+      }
+      if (transactionRes.ok) {
+        const data = await transactionRes.json();
+        setBankTransactions(data.transactions || []);
+        setTransactionSummary(data.summary || null);
+      }
     } catch (err) {
       console.error("Error fetching financial data:", err);
     }
-  }, [id, connectionString]);
+  }, [id]);
 
   const triggerReconciliation = useCallback(async () => {
-    if (!connectionString) return;
-
     setReconciling(true);
     try {
-      const apiKey = localStorage.getItem("casedev_api_key");
-      const res = await fetch(
-        `/api/cases/${id}/income/reconcile?connectionString=${encodeURIComponent(connectionString)}${apiKey ? `&apiKey=${encodeURIComponent(apiKey)}` : ''}`,
-        { method: 'POST' }
-      );
+      const res = await fetch(`/api/cases/${id}/income/reconcile`, { method: 'POST' });
 
       if (res.ok) {
         const data = await res.json();
@@ -286,22 +343,18 @@ export default function CaseFinancialPage() {
     } finally {
       setReconciling(false);
     }
-  }, [id, connectionString]);
+  }, [id]);
 
   useEffect(() => {
-    const apiKey = localStorage.getItem("casedev_api_key");
-    const connStr = localStorage.getItem("bankruptcy_db_connection");
-
-    if (!apiKey || !connStr) {
-      router.push("/login");
-      return;
-    }
-
     async function fetchCase() {
       try {
         const response = await fetch(
-          `/api/cases/${id}?connectionString=${encodeURIComponent(connStr!)}`
+          `/api/cases/${id}`
         );
+        if (response.status === 401) {
+          router.push("/login");
+          return;
+        }
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -336,19 +389,16 @@ export default function CaseFinancialPage() {
   };
 
   const handleDeleteConfirm = async () => {
-    if (!connectionString) return;
-
     const endpoints: Record<DeleteItemType, string> = {
       income: `/api/cases/${id}/income/${deleteItemId}`,
       expense: `/api/cases/${id}/expenses/${deleteItemId}`,
       asset: `/api/cases/${id}/assets/${deleteItemId}`,
       debt: `/api/cases/${id}/debts/${deleteItemId}`,
+      contract: `/api/cases/${id}/contracts/${deleteItemId}`,
+      codebtor: `/api/cases/${id}/codebtors/${deleteItemId}`,
     };
 
-    const response = await fetch(
-      `${endpoints[deleteItemType]}?connectionString=${encodeURIComponent(connectionString)}`,
-      { method: 'DELETE' }
-    );
+    const response = await fetch(endpoints[deleteItemType], { method: 'DELETE' });
 
     if (!response.ok) {
       throw new Error('Failed to delete item');
@@ -441,6 +491,7 @@ export default function CaseFinancialPage() {
         onOpenChange={setAddExpenseOpen}
         caseId={id}
         onSuccess={fetchFinancialData}
+        proposals={transactionSummary?.expenseProposals}
       />
       <AddAssetModal
         open={addAssetOpen}
@@ -454,6 +505,19 @@ export default function CaseFinancialPage() {
         caseId={id}
         onSuccess={fetchFinancialData}
       />
+      <AddContractModal
+        open={addContractOpen}
+        onOpenChange={setAddContractOpen}
+        caseId={id}
+        onSuccess={fetchFinancialData}
+      />
+      <AddCodebtorModal
+        open={addCodebtorOpen}
+        onOpenChange={setAddCodebtorOpen}
+        caseId={id}
+        debts={debtRecords}
+        onSuccess={fetchFinancialData}
+      />
       <DeleteConfirmationModal
         open={deleteModalOpen}
         onOpenChange={setDeleteModalOpen}
@@ -846,6 +910,12 @@ export default function CaseFinancialPage() {
                       <span className="font-semibold">
                         ${Number(record.grossAmount).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                       </span>
+                      <SourcePopover
+                        caseId={id}
+                        documentId={record.documentId}
+                        fieldSources={record.fieldSources}
+                        fieldLabels={INCOME_SOURCE_FIELDS}
+                      />
                       <button
                         onClick={() => handleDeleteClick('income', record.id, record.employer || 'Income')}
                         className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-red-600 transition-all"
@@ -943,6 +1013,18 @@ export default function CaseFinancialPage() {
           )}
         </div>
 
+        {/* Bank Activity Section */}
+        {transactionSummary && transactionSummary.transactionCount > 0 && (
+          <div className="lg:col-span-2">
+            <BankActivityCard
+              caseId={id}
+              transactions={bankTransactions}
+              summary={transactionSummary}
+              onChange={fetchFinancialData}
+            />
+          </div>
+        )}
+
         {/* Assets Section */}
         <div className="bg-card p-6 rounded-lg border">
           <div className="flex items-center justify-between mb-6">
@@ -970,6 +1052,12 @@ export default function CaseFinancialPage() {
                       <span className="font-medium">{asset.description}</span>
                       <div className="flex items-center gap-3">
                         <span className="font-semibold">${Number(asset.currentValue).toLocaleString()}</span>
+                        <SourcePopover
+                          caseId={id}
+                          documentId={asset.documentId}
+                          fieldSources={asset.fieldSources}
+                          fieldLabels={ASSET_SOURCE_FIELDS}
+                        />
                         <button
                           onClick={() => handleDeleteClick('asset', asset.id, asset.description)}
                           className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-red-600 transition-all"
@@ -1030,6 +1118,12 @@ export default function CaseFinancialPage() {
                       <span className="font-medium text-sm">{debt.creditorName}</span>
                       <div className="flex items-center gap-3">
                         <span className="font-semibold">${Number(debt.balance).toLocaleString()}</span>
+                        <SourcePopover
+                          caseId={id}
+                          documentId={debt.documentId}
+                          fieldSources={debt.fieldSources}
+                          fieldLabels={DEBT_SOURCE_FIELDS}
+                        />
                         <button
                           onClick={() => handleDeleteClick('debt', debt.id, debt.creditorName)}
                           className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-red-600 transition-all"
@@ -1081,6 +1175,107 @@ export default function CaseFinancialPage() {
             />
           )}
         </div>
+
+        {/* Contracts & Leases Section (Schedule G) */}
+        <div className="bg-card p-6 rounded-lg border">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-purple-100 rounded-lg">
+                <FileSignature className="w-5 h-5 text-purple-600" />
+              </div>
+              <h2 className="text-xl font-semibold">Contracts & Leases</h2>
+            </div>
+            <button
+              onClick={() => setAddContractOpen(true)}
+              className="flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Plus className="w-4 h-4" />
+              Add Contract
+            </button>
+          </div>
+
+          {contractRecords.length > 0 ? (
+            <div className="space-y-3">
+              {contractRecords.map((contract) => (
+                <div key={contract.id} className="p-3 bg-muted/50 rounded-lg group">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">{contract.counterpartyName}</span>
+                    <div className="flex items-center gap-3">
+                      {contract.monthlyPayment && Number(contract.monthlyPayment) > 0 && (
+                        <span className="font-semibold">${Number(contract.monthlyPayment).toLocaleString()}/mo</span>
+                      )}
+                      <button
+                        onClick={() => handleDeleteClick('contract', contract.id, contract.counterpartyName)}
+                        className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-red-600 transition-all"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>{contract.description}</span>
+                    <span>
+                      {CONTRACT_TYPES.find(t => t.value === contract.contractType)?.label || contract.contractType}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              title="No Contracts"
+              description="Add leases and executory contracts for Schedule G"
+              onAdd={() => setAddContractOpen(true)}
+            />
+          )}
+        </div>
+
+        {/* Codebtors Section (Schedule H) */}
+        <div className="bg-card p-6 rounded-lg border">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-teal-100 rounded-lg">
+                <Users className="w-5 h-5 text-teal-600" />
+              </div>
+              <h2 className="text-xl font-semibold">Codebtors</h2>
+            </div>
+            <button
+              onClick={() => setAddCodebtorOpen(true)}
+              className="flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              <Plus className="w-4 h-4" />
+              Add Codebtor
+            </button>
+          </div>
+
+          {codebtorRecords.length > 0 ? (
+            <div className="space-y-3">
+              {codebtorRecords.map((codebtor) => (
+                <div key={codebtor.id} className="p-3 bg-muted/50 rounded-lg group">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">{codebtor.name}</span>
+                    <button
+                      onClick={() => handleDeleteClick('codebtor', codebtor.id, codebtor.name)}
+                      className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-red-600 transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>{codebtor.relationship || 'Codebtor'}</span>
+                    <span>Liable on {codebtor.creditorName || 'removed debt'}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              title="No Codebtors"
+              description="Add anyone else who is liable on the debtor's debts"
+              onAdd={() => setAddCodebtorOpen(true)}
+            />
+          )}
+        </div>
       </div>
     </div>
   );
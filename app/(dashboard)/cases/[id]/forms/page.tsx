@@ -44,6 +44,8 @@ interface GeneratedFormData {
   base64: string;
   size: number;
   generatedAt?: string;
+  source?: "acroform" | "generated";
+  warnings?: string[];
 }
 
 interface FormDefinition {
@@ -77,6 +79,8 @@ export default function CaseFormsPage({
   const [generatingFormId, setGeneratingFormId] = useState<string | null>(null);
   const [downloadingAll, setDownloadingAll] = useState(false);
   const [previewForm, setPreviewForm] = useState<GeneratedFormData | null>(null);
+  const [downloadingMatrix, setDownloadingMatrix] = useState<"txt" | "pdf" | null>(null);
+  const [matrixWarnings, setMatrixWarnings] = useState<string[]>([]);
 
   // Unwrap params
   useEffect(() => {
@@ -87,19 +91,15 @@ export default function CaseFormsPage({
   useEffect(() => {
     if (!id) return;
 
-    const apiKey = localStorage.getItem("casedev_api_key");
-    const connectionString = localStorage.getItem("bankruptcy_db_connection");
-
-    if (!apiKey || !connectionString) {
-      router.push("/login");
-      return;
-    }
-
     const fetchCase = async () => {
       try {
         const response = await fetch(
-          `/api/cases/${id}?connectionString=${encodeURIComponent(connectionString)}`
+          `/api/cases/${id}`
         );
+        if (response.status === 401) {
+          router.push("/login");
+          return;
+        }
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -127,13 +127,10 @@ export default function CaseFormsPage({
   const generateForms = useCallback(async () => {
     if (!id) return;
 
-    const connectionString = localStorage.getItem("bankruptcy_db_connection");
-    if (!connectionString) return;
-
     setGenerating(true);
     try {
       const response = await fetch(
-        `/api/cases/${id}/forms/generate?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${id}/forms/generate`,
         { method: "POST" }
       );
 
@@ -201,6 +198,37 @@ export default function CaseFormsPage({
     }
   }, [generatedForms, caseData]);
 
+  // Download the creditor matrix upload file or its verification PDF
+  const downloadCreditorMatrix = useCallback(async (format: "txt" | "pdf") => {
+    if (!id) return;
+
+    setDownloadingMatrix(format);
+    try {
+      const baseUrl = `/api/cases/${id}/creditor-matrix`;
+      const [fileResponse, reviewResponse] = await Promise.all([
+        fetch(`${baseUrl}?format=${format}`),
+        fetch(baseUrl),
+      ]);
+
+      if (!fileResponse.ok) {
+        throw new Error("Failed to build creditor matrix");
+      }
+
+      if (reviewResponse.ok) {
+        const review = await reviewResponse.json();
+        setMatrixWarnings(review.warnings || []);
+      }
+
+      const blob = await fileResponse.blob();
+      saveAs(blob, format === "txt" ? "creditor_matrix.txt" : "Creditor_Matrix_Verification.pdf");
+    } catch (err) {
+      console.error("Error downloading creditor matrix:", err);
+      alert("Failed to build the creditor matrix. Please try again.");
+    } finally {
+      setDownloadingMatrix(null);
+    }
+  }, [id]);
+
   // Preview a form (open PDF in modal)
   const previewFormPdf = useCallback((form: GeneratedFormData) => {
     setPreviewForm(form);
@@ -246,6 +274,15 @@ export default function CaseFormsPage({
       required: true,
       pages: 8,
     },
+    // Summary of Assets and Liabilities
+    {
+      id: "106Sum",
+      name: "Official Form 106Sum",
+      title: "Summary of Your Assets and Liabilities and Certain Statistical Information",
+      description: "Totals carried from Schedules A/B, D, E/F, I, and J",
+      required: true,
+      pages: 2,
+    },
     // Schedules A/B - Property
     {
       id: "106AB",
@@ -318,6 +355,15 @@ export default function CaseFormsPage({
       required: true,
       pages: 4,
     },
+    // Declaration About Schedules
+    {
+      id: "106Dec",
+      name: "Official Form 106Dec",
+      title: "Declaration About an Individual Debtor's Schedules",
+      description: "Debtor's signed declaration that the schedules are true and correct",
+      required: true,
+      pages: 1,
+    },
     // Statement of Financial Affairs
     {
       id: "107",
@@ -367,7 +413,7 @@ export default function CaseFormsPage({
 
   // Merge form definitions with generated forms
   const forms: Form[] = formDefinitions.map((def) => {
-    const generated = generatedForms.find((g) => g.formId === def.id);
+    const generated = generatedForms.find((g) => g.formId === `form${def.id}`);
     return {
       ...def,
       status: generated ? "ready" as const : "not_started" as const,
@@ -612,6 +658,56 @@ export default function CaseFormsPage({
         </button>
       </div>
 
+      {/* Creditor Matrix */}
+      <div className="bg-card p-4 rounded-lg border mb-8">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="font-semibold">Creditor Matrix</h2>
+            <p className="text-sm text-muted-foreground">
+              Mailing list of creditors and notice parties for upload with the petition
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadCreditorMatrix("txt")}
+              disabled={downloadingMatrix !== null}
+            >
+              {downloadingMatrix === "txt" ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              Upload File (.txt)
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadCreditorMatrix("pdf")}
+              disabled={downloadingMatrix !== null}
+            >
+              {downloadingMatrix === "pdf" ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <FileText className="w-4 h-4 mr-2" />
+              )}
+              Verification (PDF)
+            </Button>
+          </div>
+        </div>
+        {matrixWarnings.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {matrixWarnings.map((warning, i) => (
+              <li key={i} className="flex items-start gap-2 text-xs text-yellow-700">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       {/* Forms List */}
       <div className="bg-card rounded-lg border">
         <div className="p-4 border-b">
@@ -660,8 +756,16 @@ export default function CaseFormsPage({
                   {form.lastGenerated && (
                     <p className="text-xs text-muted-foreground mt-2">
                       Last generated: {form.lastGenerated.toLocaleDateString()} at {form.lastGenerated.toLocaleTimeString()}
+                      {form.generatedData?.source && (
+                        <span className="ml-2">
+                          {form.generatedData.source === "acroform" ? "· Official PDF" : "· Draft layout"}
+                        </span>
+                      )}
                     </p>
                   )}
+                  {form.generatedData?.warnings?.map((warning, i) => (
+                    <p key={i} className="text-xs text-yellow-700 mt-1">{warning}</p>
+                  ))}
                 </div>
                 
                 {/* Actions */}
@@ -22,6 +22,8 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 
 interface BankruptcyCase {
   id: string;
@@ -43,12 +45,38 @@ interface MeansTestData {
   inputs: {
     state: string;
     householdSize: number;
-    monthlyGrossIncome: number;
+    currentMonthlyIncome: number;
     monthlyExpenses: number;
     totalUnsecuredDebt: number;
     totalSecuredDebt: number;
     hasVehicle: boolean;
     vehicleCount: number;
+    filingDate: string | null;
+    jointFiling: boolean;
+    nonFilingSpouse: { householdContribution?: number | null; separateHousehold?: boolean } | null;
+  };
+  standardsVersion: string;
+  cmiDetails: {
+    filingMonth: string;
+    lookbackStart: string;
+    lookbackEnd: string;
+    monthlyBreakdown: {
+      month: string;
+      totalGross: number;
+      excludedSocialSecurity: number;
+      sources: { source: string; amount: number }[];
+      recordCount: number;
+      status: "documented" | "reported" | "missing";
+    }[];
+    sixMonthTotal: number;
+    currentMonthlyIncome: number;
+    excludedSocialSecurity: number;
+    spouseIncome: number;
+    maritalAdjustment: number;
+    adjustedCurrentMonthlyIncome: number;
+    gaps: string[];
+    isComplete: boolean;
+    recordsOutsideLookback: number;
   };
   irsAllowances: {
     nationalStandards: number;
@@ -66,9 +94,25 @@ interface MeansTestData {
     sixtyMonthDisposable?: number;
     presumptionOfAbuse: boolean;
     reason: string;
+    breakdown?: {
+      lines: { line: string; description: string; amount: number }[];
+      irsStandardDeductions: number;
+      additionalExpenseDeductions: number;
+      debtPaymentDeductions: number;
+      totalDeductions: number;
+      sixtyMonthDisposable: number;
+      unsecuredDebtThreshold?: number;
+    };
   };
 }
 
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+// Subtotal and result lines are emphasized in the Form 122A-2 breakdown
+const FORM_122A2_TOTAL_LINES = ["4", "24", "32", "37", "38", "39c", "39d"];
+
 export default function CaseMeansTestPage() {
   const params = useParams();
   const router = useRouter();
@@ -79,40 +123,37 @@ export default function CaseMeansTestPage() {
   const [loading, setLoading] = useState(true);
   const [calculating, setCalculating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  const connectionString = typeof window !== 'undefined' ? localStorage.getItem("bankruptcy_db_connection") : null;
+  const [spouseContribution, setSpouseContribution] = useState("");
+  const [spouseSeparate, setSpouseSeparate] = useState(false);
 
   const fetchMeansTest = useCallback(async () => {
-    if (!connectionString) return;
-
     try {
       const response = await fetch(
-        `/api/cases/${id}/means-test?connectionString=${encodeURIComponent(connectionString)}`
+        `/api/cases/${id}/means-test`
       );
 
       if (response.ok) {
-        const data = await response.json();
+        const data: MeansTestData = await response.json();
         setMeansTestData(data);
+        const spouse = data.inputs.nonFilingSpouse;
+        setSpouseContribution(spouse?.householdContribution != null ? String(spouse.householdContribution) : "");
+        setSpouseSeparate(spouse?.separateHousehold ?? false);
       }
     } catch (err) {
       console.error("Error fetching means test:", err);
     }
-  }, [id, connectionString]);
+  }, [id]);
 
   useEffect(() => {
-    const apiKey = localStorage.getItem("casedev_api_key");
-    const connStr = localStorage.getItem("bankruptcy_db_connection");
-
-    if (!apiKey || !connStr) {
-      router.push("/login");
-      return;
-    }
-
     async function fetchCase() {
       try {
         const response = await fetch(
-          `/api/cases/${id}?connectionString=${encodeURIComponent(connStr!)}`
+          `/api/cases/${id}`
         );
+        if (response.status === 401) {
+          router.push("/login");
+          return;
+        }
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -137,14 +178,25 @@ export default function CaseMeansTestPage() {
     fetchMeansTest();
   }, [id, router, fetchMeansTest]);
 
-  const handleRecalculate = async () => {
-    if (!connectionString) return;
+  // Married debtors filing alone report the spouse's household contribution
+  const showSpouseSettings = meansTestData !== null && !meansTestData.inputs.jointFiling &&
+    (meansTestData.cmiDetails.spouseIncome > 0 || meansTestData.inputs.nonFilingSpouse !== null);
 
+  const handleRecalculate = async () => {
     setCalculating(true);
     try {
       const response = await fetch(
-        `/api/cases/${id}/means-test?connectionString=${encodeURIComponent(connectionString)}`,
-        { method: 'POST' }
+        `/api/cases/${id}/means-test`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(showSpouseSettings ? {
+            nonFilingSpouse: {
+              householdContribution: spouseContribution,
+              separateHousehold: spouseSeparate,
+            },
+          } : {}),
+        }
       );
 
       if (response.ok) {
@@ -189,6 +241,7 @@ export default function CaseMeansTestPage() {
   const monthlyDisposableIncome = meansTestData?.result.monthlyDisposableIncome ?? 0;
   const state = meansTestData?.inputs.state ?? caseData.state ?? "—";
   const householdSize = meansTestData?.inputs.householdSize ?? caseData.householdSize ?? 1;
+  const cmiDetails = meansTestData?.cmiDetails;
 
   return (
     <div className="container mx-auto p-6 max-w-7xl">
@@ -285,6 +338,8 @@ export default function CaseMeansTestPage() {
               {meansTestData?.calculatedAt && (
                 <p className="text-sm text-muted-foreground mt-2">
                   Last calculated: {new Date(meansTestData.calculatedAt).toLocaleString()}
+                  {" · "}Standards effective {meansTestData.standardsVersion}
+                  {meansTestData.inputs.filingDate ? ` (filed ${meansTestData.inputs.filingDate})` : " (not yet filed; using current figures)"}
                 </p>
               )}
             </div>
@@ -358,6 +413,137 @@ export default function CaseMeansTestPage() {
         </div>
       </div>
 
+      {/* Six-Month Look-Back */}
+      {cmiDetails && (
+        <div className="bg-card p-6 rounded-lg border mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <DollarSign className="w-5 h-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">Six-Month Look-Back</h2>
+                <p className="text-sm text-muted-foreground">
+                  {formatMonth(cmiDetails.lookbackStart)} – {formatMonth(cmiDetails.lookbackEnd)}, the six full months before {formatMonth(cmiDetails.filingMonth)}
+                </p>
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-2xl font-bold">
+                ${cmiDetails.currentMonthlyIncome.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </div>
+              <div className="text-sm text-muted-foreground">Current Monthly Income</div>
+            </div>
+          </div>
+
+          {cmiDetails.gaps.length > 0 && (
+            <div className="flex items-start gap-2 p-3 mb-4 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                No income records for {cmiDetails.gaps.map(formatMonth).join(", ")}. CMI is still divided by 6;
+                add the month&apos;s income or confirm the client had none.
+              </span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {cmiDetails.monthlyBreakdown.map((month) => (
+              <div
+                key={month.month}
+                className={`p-3 rounded-lg border ${month.status === "missing" ? "bg-yellow-50 border-yellow-200" : "bg-muted/50"}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium">{formatMonth(month.month)}</span>
+                  {month.status === "missing" ? (
+                    <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                  ) : month.status === "documented" ? (
+                    <FileText className="w-4 h-4 text-green-600" />
+                  ) : null}
+                </div>
+                <div className="text-lg font-semibold">
+                  ${month.totalGross.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {month.status === "missing"
+                    ? "No evidence"
+                    : month.status === "documented"
+                      ? "From documents"
+                      : "Entered without a document"}
+                </div>
+                {month.sources.map((source) => (
+                  <div key={source.source} className="flex justify-between text-xs mt-1">
+                    <span className="text-muted-foreground capitalize">{source.source.replace(/_/g, " ")}</span>
+                    <span>${source.amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                  </div>
+                ))}
+                {month.excludedSocialSecurity > 0 && (
+                  <div className="flex justify-between text-xs mt-1 text-muted-foreground line-through">
+                    <span>Social Security</span>
+                    <span>${month.excludedSocialSecurity.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Six-month total</span>
+              <span>${cmiDetails.sixMonthTotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </div>
+            {cmiDetails.excludedSocialSecurity > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Social Security benefits excluded</span>
+                <span>${cmiDetails.excludedSocialSecurity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+            )}
+            {cmiDetails.maritalAdjustment > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Marital adjustment (Form 122A-2 Line 3)</span>
+                <span>-${cmiDetails.maritalAdjustment.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+              </div>
+            )}
+            {cmiDetails.recordsOutsideLookback > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {cmiDetails.recordsOutsideLookback} income record{cmiDetails.recordsOutsideLookback === 1 ? "" : "s"} outside the look-back period not counted
+              </p>
+            )}
+          </div>
+
+          {showSpouseSettings && (
+            <div className="mt-4 p-4 rounded-lg bg-muted/50 space-y-3">
+              <div>
+                <h3 className="font-medium text-sm">Non-Filing Spouse</h3>
+                <p className="text-xs text-muted-foreground">
+                  Spouse income averages ${cmiDetails.spouseIncome.toLocaleString(undefined, { maximumFractionDigits: 0 })}/mo.
+                  Enter what the spouse regularly pays toward household expenses, then recalculate.
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 text-sm">
+                  Monthly household contribution
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={spouseContribution}
+                    onChange={(e) => setSpouseContribution(e.target.value)}
+                    className="w-32"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={spouseSeparate}
+                    onCheckedChange={(checked) => setSpouseSeparate(checked === true)}
+                  />
+                  Living in separate households
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Step 1: Income Comparison */}
         <div className="bg-card p-6 rounded-lg border">
@@ -459,37 +645,31 @@ export default function CaseMeansTestPage() {
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-muted-foreground">Monthly Income</span>
                   <span className="font-semibold">
-                    ${meansTestData?.inputs.monthlyGrossIncome.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    ${meansTestData?.inputs.currentMonthlyIncome.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                   </span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
-                  <span className="text-muted-foreground">IRS Allowances (Total)</span>
+                  <span className="text-muted-foreground">Total Deductions (Line 38)</span>
                   <span className="text-red-600">
-                    -${meansTestData?.irsAllowances.total.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    -${(meansTestData?.result.breakdown?.totalDeductions ?? 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                   </span>
                 </div>
                 <div className="flex justify-between items-center text-sm pl-4">
-                  <span className="text-muted-foreground">National Standards</span>
+                  <span className="text-muted-foreground">IRS Expense Allowances</span>
                   <span className="text-muted-foreground">
-                    ${meansTestData?.irsAllowances.nationalStandards.toLocaleString()}
+                    ${(meansTestData?.result.breakdown?.irsStandardDeductions ?? 0).toLocaleString()}
                   </span>
                 </div>
                 <div className="flex justify-between items-center text-sm pl-4">
-                  <span className="text-muted-foreground">Housing & Utilities</span>
+                  <span className="text-muted-foreground">Additional Expenses</span>
                   <span className="text-muted-foreground">
-                    ${meansTestData?.irsAllowances.housingUtilities.toLocaleString()}
+                    ${(meansTestData?.result.breakdown?.additionalExpenseDeductions ?? 0).toLocaleString()}
                   </span>
                 </div>
                 <div className="flex justify-between items-center text-sm pl-4">
-                  <span className="text-muted-foreground">Transportation</span>
+                  <span className="text-muted-foreground">Debt Payments</span>
                   <span className="text-muted-foreground">
-                    ${meansTestData?.irsAllowances.transportation.toLocaleString()}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center text-sm pl-4">
-                  <span className="text-muted-foreground">Health Care</span>
-                  <span className="text-muted-foreground">
-                    ${meansTestData?.irsAllowances.healthCare.toLocaleString()}
+                    ${(meansTestData?.result.breakdown?.debtPaymentDeductions ?? 0).toLocaleString()}
                   </span>
                 </div>
                 <div className="border-t pt-2 mt-2">
@@ -505,6 +685,14 @@ export default function CaseMeansTestPage() {
                       ${((meansTestData?.result.sixtyMonthDisposable ?? 0)).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                     </span>
                   </div>
+                  {meansTestData?.result.breakdown?.unsecuredDebtThreshold !== undefined && (
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-sm text-muted-foreground">25% of Unsecured Debt</span>
+                      <span className="text-sm">
+                        ${meansTestData.result.breakdown.unsecuredDebtThreshold.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -521,6 +709,41 @@ export default function CaseMeansTestPage() {
           )}
         </div>
 
+        {/* Form 122A-2 Line Detail */}
+        {hasData && meansTestData?.result.breakdown && (
+          <div className="bg-card p-6 rounded-lg border lg:col-span-2">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-orange-100 rounded-lg">
+                <FileText className="w-5 h-5 text-orange-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">Form 122A-2 Calculation</h2>
+                <p className="text-sm text-muted-foreground">Line-by-line presumption of abuse test</p>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {meansTestData.result.breakdown.lines.map((item) => {
+                const isTotal = FORM_122A2_TOTAL_LINES.includes(item.line);
+                return (
+                  <div
+                    key={item.line}
+                    className={`flex justify-between text-sm p-2 rounded ${isTotal ? 'bg-muted font-medium' : 'bg-muted/50'}`}
+                  >
+                    <span>
+                      <span className="text-muted-foreground mr-2">Line {item.line}</span>
+                      {item.description}
+                    </span>
+                    <span>
+                      {item.amount < 0 ? '-' : ''}${Math.abs(item.amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* IRS Allowances Detail */}
         <div className="bg-card p-6 rounded-lg border">
           <div className="flex items-center justify-between mb-6">
@@ -14,16 +14,19 @@ import {
   AlertTriangle,
   CheckCircle2,
   Pencil,
+  ClipboardList,
 } from "lucide-react";
 import Link from "next/link";
 import { DocumentUpload } from "@/components/cases/document-upload";
 import { CaseStatusBadge } from "@/components/cases/case-status-badge";
 import { EditClientModal } from "@/components/cases/edit-client-modal";
+import { PortalAccess } from "@/components/cases/portal-access";
 import {
   getRequiredDocuments,
   getMissingDocuments,
   getDocumentCompletionPercentage,
 } from "@/lib/bankruptcy/required-documents";
+import type { AddressIssue } from "@/lib/bankruptcy/address/types";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -70,6 +73,7 @@ export default function CaseDetailPage() {
   const id = params.id as string;
   
   const [caseData, setCaseData] = useState<CaseData | null>(null);
+  const [addressIssues, setAddressIssues] = useState<AddressIssue[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -79,16 +83,10 @@ export default function CaseDetailPage() {
   const [editModalOpen, setEditModalOpen] = useState(false);
 
   const handleDeleteCase = async () => {
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-    if (!connectionString) {
-      setError('Database connection not found');
-      return;
-    }
-
     setDeleting(true);
     try {
       const response = await fetch(
-        `/api/cases/${id}?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${id}`,
         { method: 'DELETE' }
       );
 
@@ -106,29 +104,21 @@ export default function CaseDetailPage() {
   };
 
   useEffect(() => {
-    const apiKey = localStorage.getItem('casedev_api_key');
-    if (!apiKey) {
-      router.push('/login');
-      return;
-    }
-
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-    if (!connectionString) {
-      setError('Database not initialized. Please log in again.');
-      setLoading(false);
-      return;
-    }
-
-    fetchCaseData(connectionString);
-    fetchDocuments(connectionString);
+    fetchCaseData();
+    fetchDocuments();
   }, [id, router]);
 
-  const fetchCaseData = async (connectionString: string) => {
+  const fetchCaseData = async () => {
     try {
       const response = await fetch(
-        `/api/cases/${id}?connectionString=${encodeURIComponent(connectionString)}`
+        `/api/cases/${id}`
       );
-      
+
+      if (response.status === 401) {
+        router.push('/login');
+        return;
+      }
+
       if (!response.ok) {
         if (response.status === 404) {
           setError('Case not found');
@@ -142,6 +132,7 @@ export default function CaseDetailPage() {
 
       const data = await response.json();
       setCaseData(data.case);
+      setAddressIssues(data.addressIssues || []);
       setLoading(false);
     } catch (err) {
       console.error('Error fetching case:', err);
@@ -150,10 +141,10 @@ export default function CaseDetailPage() {
     }
   };
 
-  const fetchDocuments = async (connectionString: string) => {
+  const fetchDocuments = async () => {
     try {
       const response = await fetch(
-        `/api/cases/${id}/documents?connectionString=${encodeURIComponent(connectionString)}`
+        `/api/cases/${id}/documents`
       );
       
       if (response.ok) {
@@ -362,7 +353,10 @@ export default function CaseDetailPage() {
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
         caseData={caseData}
-        onSuccess={(updatedCase) => setCaseData(updatedCase)}
+        onSuccess={(updatedCase, issues) => {
+          setCaseData(updatedCase);
+          setAddressIssues(issues || []);
+        }}
       />
 
       {/* Delete Confirmation Dialog */}
@@ -441,6 +435,12 @@ export default function CaseDetailPage() {
                 {caseData.county} County
               </p>
             )}
+            {addressIssues.map((issue, i) => (
+              <p key={i} className="flex items-start gap-2 text-xs text-amber-700 mt-2">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {issue.message}
+              </p>
+            ))}
           </div>
         </div>
 
@@ -469,8 +469,10 @@ export default function CaseDetailPage() {
         </div>
       </div>
 
+      <PortalAccess caseId={id} />
+
       {/* Quick Actions */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
         <Link
           href={`/cases/${id}/documents`}
           className="bg-card p-4 rounded border border-border hover:shadow-md transition-shadow hover:border-primary/50"
@@ -506,7 +508,7 @@ export default function CaseDetailPage() {
         </Link>
 
         <Link
-          href={`/cases/${id}/means-test`}
+          href={caseData.caseType === "chapter13" ? `/cases/${id}/chapter13-plan` : `/cases/${id}/means-test`}
           className="bg-card p-4 rounded border border-border hover:shadow-md transition-shadow hover:border-primary/50"
         >
           <div className="flex items-center gap-3">
@@ -514,9 +516,28 @@ export default function CaseDetailPage() {
               <Calculator className="w-5 h-5 text-primary" />
             </div>
             <div className="flex-1">
-              <div className="font-semibold">Means Test</div>
+              <div className="font-semibold">
+                {caseData.caseType === "chapter13" ? "Chapter 13 Plan" : "Means Test"}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {caseData.caseType === "chapter13" ? "Plan payment schedule" : "Chapter 7 eligibility"}
+              </div>
+            </div>
+          </div>
+        </Link>
+
+        <Link
+          href={`/cases/${id}/sofa`}
+          className="bg-card p-4 rounded border border-border hover:shadow-md transition-shadow hover:border-primary/50"
+        >
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-accent rounded">
+              <ClipboardList className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1">
+              <div className="font-semibold">Financial Affairs</div>
               <div className="text-sm text-muted-foreground">
-                Chapter 7 eligibility
+                Form 107 interview
               </div>
             </div>
           </div>
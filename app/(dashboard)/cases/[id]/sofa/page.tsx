@@ -0,0 +1,512 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  ChevronRight,
+  ChevronLeft,
+  ArrowLeft,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  Plus,
+  Trash2,
+  ClipboardList,
+} from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StatementFindings } from "@/components/cases/sofa/statement-findings";
+import { TaxFormFindings } from "@/components/cases/sofa/tax-form-findings";
+import type { SofaEntry, SofaField, SofaSection, SofaSectionKey } from "@/lib/bankruptcy/sofa";
+import type {
+  Insider,
+  PreferenceReport,
+  PreferenceSofaSuggestions,
+  SofaSuggestion,
+} from "@/lib/bankruptcy/preferences";
+import type { IncomeHistoryReport } from "@/lib/bankruptcy/tax-forms";
+
+type EntryDraft = Record<string, string | boolean>;
+
+interface StatementLookback {
+  report: PreferenceReport;
+  suggestions: PreferenceSofaSuggestions;
+  insiders: Insider[];
+}
+
+interface TaxFormHistory {
+  report: IncomeHistoryReport;
+  suggestions: SofaSuggestion[];
+}
+
+function formatValue(field: SofaField, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  switch (field.type) {
+    case "money":
+      return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case "boolean":
+      return value ? "Yes" : "No";
+    case "select":
+      return field.options?.find((o) => o.value === value)?.label || String(value);
+    default:
+      return String(value);
+  }
+}
+
+function emptyDraft(section: SofaSection): EntryDraft {
+  return Object.fromEntries(
+    section.fields.map((f) => [f.name, f.type === "boolean" ? false : ""])
+  );
+}
+
+export default function StatementOfFinancialAffairsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const id = params.id as string;
+
+  const [clientName, setClientName] = useState<string>("");
+  const [sections, setSections] = useState<SofaSection[]>([]);
+  const [answers, setAnswers] = useState<Partial<Record<SofaSectionKey, boolean>>>({});
+  const [entries, setEntries] = useState<Partial<Record<SofaSectionKey, SofaEntry[]>>>({});
+  const [step, setStep] = useState(0);
+  const [draft, setDraft] = useState<EntryDraft>({});
+  const [lookback, setLookback] = useState<StatementLookback | null>(null);
+  const [incomeHistory, setIncomeHistory] = useState<TaxFormHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSofa = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/sofa`
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load statement of financial affairs");
+      }
+
+      setSections(data.sections);
+      setAnswers(data.answers);
+      setEntries(data.entries);
+    } catch (err) {
+      console.error("Error fetching SOFA:", err);
+      setError(err instanceof Error ? err.message : "Failed to load statement of financial affairs");
+    }
+  }, [id]);
+
+  // Statement findings are a hint for questions 6-8; the interview works without them
+  const fetchLookback = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/preferences`
+      );
+      if (response.ok) {
+        setLookback(await response.json());
+      }
+    } catch (err) {
+      console.error("Error fetching statement findings:", err);
+    }
+  }, [id]);
+
+  // Tax return findings are a hint for questions 4-5
+  const fetchIncomeHistory = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/income-history`
+      );
+      if (response.ok) {
+        setIncomeHistory(await response.json());
+      }
+    } catch (err) {
+      console.error("Error fetching income history:", err);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const response = await fetch(
+          `/api/cases/${id}`
+        );
+        if (response.status === 401) {
+          router.push("/login");
+          return;
+        }
+        if (response.ok) {
+          const data = await response.json();
+          setClientName(data.case?.clientName || "");
+        }
+        await fetchSofa();
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    load();
+    fetchLookback();
+    fetchIncomeHistory();
+  }, [id, router, fetchSofa, fetchLookback, fetchIncomeHistory]);
+
+  const section = sections[step];
+
+  // Reset the add-entry form when moving between sections
+  useEffect(() => {
+    if (section) setDraft(emptyDraft(section));
+  }, [section]);
+
+  const handleAnswer = async (answer: boolean) => {
+    if (!section) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/sofa`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ section: section.key, answer }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save answer");
+      }
+      setAnswers((prev) => ({ ...prev, [section.key]: answer }));
+    } catch (err) {
+      console.error("Error saving SOFA answer:", err);
+      setError(err instanceof Error ? err.message : "Failed to save answer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUseSuggestion = async (suggestion: SofaSuggestion) => {
+    if (!section) return;
+    if (answers[section.key] !== true) await handleAnswer(true);
+    setDraft({
+      ...emptyDraft(section),
+      ...Object.fromEntries(
+        Object.entries(suggestion).map(([name, value]) => [name, value === null ? "" : String(value)])
+      ),
+    });
+  };
+
+  const handleAddEntry = async () => {
+    if (!section) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/sofa/${section.key}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add entry");
+      }
+      setEntries((prev) => ({ ...prev, [section.key]: [...(prev[section.key] || []), data.entry] }));
+      setAnswers((prev) => ({ ...prev, [section.key]: true }));
+      setDraft(emptyDraft(section));
+    } catch (err) {
+      console.error("Error adding SOFA entry:", err);
+      setError(err instanceof Error ? err.message : "Failed to add entry");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteEntry = async (entryId: string) => {
+    if (!section) return;
+
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/cases/${id}/sofa/${section.key}/${entryId}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete entry");
+      }
+      setEntries((prev) => ({
+        ...prev,
+        [section.key]: (prev[section.key] || []).filter((e) => e.id !== entryId),
+      }));
+    } catch (err) {
+      console.error("Error deleting SOFA entry:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete entry");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!section) {
+    return (
+      <div className="container mx-auto p-6 max-w-7xl">
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">{error || "Case not found"}</h2>
+          <Link href="/cases" className="text-primary hover:underline">
+            Return to Cases
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const sectionEntries = entries[section.key] || [];
+  const isAnswered = (key: SofaSectionKey) =>
+    answers[key] !== undefined || (entries[key]?.length || 0) > 0;
+  const answeredCount = sections.filter((s) => isAnswered(s.key)).length;
+  const showEntries = answers[section.key] === true || sectionEntries.length > 0;
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+          <Link href="/cases" className="hover:text-foreground">
+            Cases
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <Link href={`/cases/${id}`} className="hover:text-foreground">
+            {clientName || "Case"}
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span>Financial Affairs</span>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="icon" onClick={() => router.push(`/cases/${id}`)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Statement of Financial Affairs</h1>
+            <p className="text-muted-foreground mt-1">
+              Official Form 107 interview — {answeredCount} of {sections.length} sections answered
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg border bg-red-50 border-red-200 mb-6 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Section list */}
+        <div className="bg-card p-4 rounded-lg border h-fit">
+          <h2 className="text-sm font-semibold text-muted-foreground mb-3">Sections</h2>
+          <div className="space-y-1">
+            {sections.map((s, index) => (
+              <button
+                key={s.key}
+                onClick={() => setStep(index)}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-sm transition-colors ${
+                  index === step ? "bg-primary/10 text-primary font-medium" : "hover:bg-muted"
+                }`}
+              >
+                {isAnswered(s.key) ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                ) : (
+                  <Circle className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                )}
+                <span className="truncate">Q{s.questions} · Part {s.part}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Current section */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="bg-card p-6 rounded-lg border">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+              <ClipboardList className="w-4 h-4" />
+              Part {section.part}: {section.partTitle}
+            </div>
+            <h2 className="text-xl font-semibold mb-1">
+              {section.questions}. {section.prompt}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">Look-back period: {section.lookback}</p>
+
+            <div className="flex gap-3">
+              <Button
+                variant={answers[section.key] === false && sectionEntries.length === 0 ? "default" : "outline"}
+                onClick={() => handleAnswer(false)}
+                disabled={saving || sectionEntries.length > 0}
+              >
+                No
+              </Button>
+              <Button
+                variant={showEntries ? "default" : "outline"}
+                onClick={() => handleAnswer(true)}
+                disabled={saving}
+              >
+                Yes
+              </Button>
+            </div>
+            {sectionEntries.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Remove all entries to answer &quot;No&quot;.
+              </p>
+            )}
+          </div>
+
+          {incomeHistory && section.key === "income_history" && (
+            <TaxFormFindings
+              report={incomeHistory.report}
+              suggestions={incomeHistory.suggestions}
+              onUse={handleUseSuggestion}
+            />
+          )}
+
+          {lookback && (section.key === "creditor_payments" || section.key === "insider_payments") && (
+            <StatementFindings
+              caseId={id}
+              section={section.key}
+              report={lookback.report}
+              suggestions={lookback.suggestions}
+              insiders={lookback.insiders}
+              onUse={handleUseSuggestion}
+              onChange={fetchLookback}
+            />
+          )}
+
+          {showEntries && (
+            <div className="bg-card p-6 rounded-lg border">
+              <h3 className="text-lg font-semibold mb-4">Details</h3>
+
+              {sectionEntries.length > 0 ? (
+                <div className="overflow-x-auto mb-6">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        {section.fields.map((f) => (
+                          <th key={f.name} className="text-left py-2 pr-4 font-medium text-muted-foreground">
+                            {f.label}
+                          </th>
+                        ))}
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sectionEntries.map((entry) => (
+                        <tr key={entry.id} className="border-b last:border-0">
+                          {section.fields.map((f) => (
+                            <td key={f.name} className="py-2 pr-4">
+                              {formatValue(f, entry[f.name])}
+                            </td>
+                          ))}
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => handleDeleteEntry(entry.id)}
+                              className="p-1 text-muted-foreground hover:text-red-600"
+                              title="Remove entry"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground mb-6">No entries yet.</p>
+              )}
+
+              {/* Add entry */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {section.fields.map((f) => (
+                  <div key={f.name} className="space-y-1">
+                    <Label htmlFor={`sofa-${f.name}`}>
+                      {f.label}
+                      {f.required && <span className="text-red-500"> *</span>}
+                    </Label>
+                    {f.type === "select" ? (
+                      <select
+                        id={`sofa-${f.name}`}
+                        value={String(draft[f.name] ?? "")}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, [f.name]: e.target.value }))}
+                        className="w-full h-9 px-3 rounded-md border bg-background text-sm"
+                      >
+                        <option value="">Select...</option>
+                        {f.options?.map((o) => (
+                          <option key={o.value} value={o.value}>
+                            {o.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : f.type === "boolean" ? (
+                      <div className="flex items-center h-9">
+                        <input
+                          id={`sofa-${f.name}`}
+                          type="checkbox"
+                          checked={Boolean(draft[f.name])}
+                          onChange={(e) => setDraft((prev) => ({ ...prev, [f.name]: e.target.checked }))}
+                          className="h-4 w-4"
+                        />
+                      </div>
+                    ) : (
+                      <Input
+                        id={`sofa-${f.name}`}
+                        type={f.type === "date" ? "date" : f.type === "money" ? "number" : "text"}
+                        step={f.type === "money" ? "0.01" : undefined}
+                        value={String(draft[f.name] ?? "")}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, [f.name]: e.target.value }))}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+              <Button className="mt-4" onClick={handleAddEntry} disabled={saving}>
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add Entry
+              </Button>
+            </div>
+          )}
+
+          {/* Navigation */}
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+              <ChevronLeft className="w-4 h-4 mr-2" />
+              Previous
+            </Button>
+            {step < sections.length - 1 ? (
+              <Button onClick={() => setStep(step + 1)}>
+                Next
+                <ChevronRight className="w-4 h-4 ml-2" />
+              </Button>
+            ) : (
+              <Button onClick={() => router.push(`/cases/${id}/forms`)}>
+                Review Forms
+                <ChevronRight className="w-4 h-4 ml-2" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,19 +6,21 @@ import { ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { NewCaseForm } from '@/components/cases/new-case-form';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
 
 export default function NewCasePage() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Check if user has API key
-    const apiKey = localStorage.getItem('casedev_api_key');
-    if (!apiKey) {
-      router.push('/login');
-      return;
-    }
-    setLoading(false);
+    // Check if user has a session
+    SimpleAuth.isAuthenticated().then((authenticated) => {
+      if (!authenticated) {
+        router.push('/login');
+        return;
+      }
+      setLoading(false);
+    });
   }, [router]);
 
   if (loading) {
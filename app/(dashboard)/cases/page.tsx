@@ -19,7 +19,8 @@ import {
   Shield,
   Trash2,
   Phone,
-  CheckCircle2
+  CheckCircle2,
+  Inbox
 } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
@@ -35,7 +36,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { initializeDatabase, hasDatabase } from '@/lib/database/provision';
+import { initializeDatabase } from '@/lib/database/provision';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
 import { CaseSelectorModal } from '@/components/cases/case-selector-modal';
 import { IntakeCallButton } from '@/components/voice/intake-call-button';
 import { OutboundIntakeModal } from '@/components/voice/outbound-intake-modal';
@@ -131,16 +133,7 @@ export default function CasesPage() {
 
     setDeleting(true);
     try {
-      const connectionString = localStorage.getItem('bankruptcy_db_connection');
-      if (!connectionString) {
-        console.error('No database connection found');
-        return;
-      }
-
-      const response = await fetch(
-        `/api/cases/${caseToDelete.id}?connectionString=${encodeURIComponent(connectionString)}`,
-        { method: 'DELETE' }
-      );
+      const response = await fetch(`/api/cases/${caseToDelete.id}`, { method: 'DELETE' });
 
       if (response.ok) {
         // Remove the case from the local state
@@ -184,17 +177,17 @@ export default function CasesPage() {
 
   useEffect(() => {
     async function init() {
-      // Check if user has API key
-      const apiKey = localStorage.getItem('casedev_api_key');
-      if (!apiKey) {
+      // Check if user has a session
+      const session = await SimpleAuth.getSession();
+      if (!session) {
         router.push('/login');
         return;
       }
 
       // Check if database exists, create if not
-      if (!hasDatabase()) {
+      if (!session.database) {
         // Try to initialize database in background (non-blocking)
-        initializeDatabase(apiKey)
+        initializeDatabase()
           .then(() => {
             console.log('Database initialized successfully');
             loadCases();
@@ -210,21 +203,9 @@ export default function CasesPage() {
 
     async function loadCases() {
       try {
-        // Get database connection string from localStorage
-        const connectionString = localStorage.getItem('bankruptcy_db_connection');
-        console.log('loadCases called, connectionString:', connectionString ? `${connectionString.substring(0, 50)}...` : 'null');
-        
-        if (!connectionString) {
-          console.log('No database connection found in localStorage');
-          setCases([]);
-          setLoading(false);
-          return;
-        }
-
-        // Load cases from database via API
-        const url = `/api/cases/list?connectionString=${encodeURIComponent(connectionString)}`;
+        // Load cases from the session's database via API
         console.log('Fetching cases from API...');
-        const response = await fetch(url);
+        const response = await fetch('/api/cases/list');
         const data = await response.json();
         console.log('Cases loaded from API:', data.cases?.length || 0, 'cases');
         setCases(data.cases || []);
@@ -271,6 +252,18 @@ export default function CasesPage() {
                 Call for Intake
               </Button>
               <IntakeCallButton />
+              <Link href="/settings/firm">
+                <Button variant="outline">
+                  <Users className="w-4 h-4 mr-2" />
+                  Firm
+                </Button>
+              </Link>
+              <Link href="/review">
+                <Button variant="outline">
+                  <Inbox className="w-4 h-4 mr-2" />
+                  Review Inbox
+                </Button>
+              </Link>
               <Button variant="outline" onClick={() => setApiKeyDialogOpen(true)}>
                 <Key className="w-4 h-4 mr-2" />
                 Configure API Key
@@ -483,7 +476,7 @@ export default function CasesPage() {
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={() => router.push('/login')}>
+              <AlertDialogAction onClick={() => SimpleAuth.logout().then(() => router.push('/login'))}>
                 Proceed
               </AlertDialogAction>
             </AlertDialogFooter>
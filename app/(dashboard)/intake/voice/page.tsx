@@ -25,6 +25,7 @@ import { useVapi } from "@/app/hooks/useVapi";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { SimpleAuth } from "@/lib/auth/simple-auth";
 
 interface ExtractedClientData {
   clientName?: string;
@@ -90,10 +91,9 @@ export default function VoiceIntakePage() {
 
   // Check auth
   useEffect(() => {
-    const apiKey = localStorage.getItem("casedev_api_key");
-    if (!apiKey) {
-      router.push("/login");
-    }
+    SimpleAuth.isAuthenticated().then((authenticated) => {
+      if (!authenticated) router.push("/login");
+    });
   }, [router]);
 
   // Process extracted data from Vapi function calls
@@ -150,12 +150,12 @@ export default function VoiceIntakePage() {
     }
   }, [isSessionActive, transcripts.length]);
 
-  const handleStartCall = useCallback(() => {
-    const connectionString = localStorage.getItem("bankruptcy_db_connection");
+  const handleStartCall = useCallback(async () => {
+    const callToken = await SimpleAuth.getCallToken();
     setCallCompleted(false);
     startCall({
       metadata: {
-        connectionString,
+        callToken,
         source: "voice-intake-page",
       },
       firstMessage:
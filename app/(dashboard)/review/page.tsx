@@ -0,0 +1,424 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle,
+  Check,
+  ChevronRight,
+  FileWarning,
+  Inbox,
+  Loader2,
+  Pencil,
+  RefreshCw,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { SourcePopover } from "@/components/cases/financial/source-popover";
+import { DEFAULT_REVIEW_CONFIDENCE, REVIEW_KINDS } from "@/lib/review/kinds";
+import type { ReviewAction, ReviewDecision, ReviewItem, ReviewOutcome } from "@/lib/review/types";
+
+const THRESHOLD_STORAGE_KEY = "review_confidence_threshold";
+
+const REASON_LABELS: Record<ReviewItem["reason"], string> = {
+  conflict: "Conflict",
+  needs_review: "Needs review",
+  low_confidence: "Low confidence",
+};
+
+// Where each kind of item is shown within its case
+const CASE_SECTION: Record<ReviewItem["kind"], string> = {
+  income_record: "financial",
+  debt: "financial",
+  asset: "financial",
+  reconciled_income: "financial",
+  document: "documents",
+};
+
+const KEYBOARD_HELP = [
+  ["j / k", "Next / previous"],
+  ["x", "Select"],
+  ["a", "Accept"],
+  ["e", "Edit"],
+  ["r", "Reject"],
+  ["Enter", "Save edit"],
+  ["Esc", "Cancel"],
+];
+
+function formatMoney(value: number | null) {
+  return value === null ? "—" : `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function ReviewInboxPage() {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ itemId: string; values: Record<string, string> } | null>(null);
+
+  const [threshold, setThreshold] = useState(() => {
+    const saved = typeof window !== "undefined" ? Number(localStorage.getItem(THRESHOLD_STORAGE_KEY)) : 0;
+    return saved > 0 && saved <= 1 ? saved : DEFAULT_REVIEW_CONFIDENCE;
+  });
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  const fetchQueue = useCallback(async (confidenceThreshold: number) => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/review?threshold=${confidenceThreshold}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load review queue");
+
+      setItems(data.items);
+      setSelected(new Set());
+      setFocusIndex(0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load review queue");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Later threshold changes refetch from the handler
+  const initialThreshold = useRef(threshold);
+  useEffect(() => {
+    fetchQueue(initialThreshold.current);
+  }, [fetchQueue]);
+
+  // Focus stays in place as reviewed items drop out of the list
+  const activeIndex = Math.min(focusIndex, Math.max(items.length - 1, 0));
+  const focused = items[activeIndex] as ReviewItem | undefined;
+
+  useEffect(() => {
+    if (focused) rowRefs.current[focused.id]?.scrollIntoView({ block: "nearest" });
+  }, [focused]);
+
+  const submitDecisions = useCallback(async (decisions: ReviewDecision[]) => {
+    if (decisions.length === 0) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decisions }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save review");
+
+      const results: ReviewOutcome[] = data.results;
+      const done = new Set(results.filter(r => r.ok).map(r => r.itemId));
+      const failed = Object.fromEntries(results.filter(r => !r.ok).map(r => [r.itemId, r.error || "Failed"]));
+
+      setItems(prev => prev.filter(item => !done.has(item.id)));
+      setSelected(prev => new Set([...prev].filter(itemId => !done.has(itemId))));
+      setItemErrors(prev => {
+        const next = { ...prev, ...failed };
+        done.forEach(itemId => delete next[itemId]);
+        return next;
+      });
+      if (editing && done.has(editing.itemId)) setEditing(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save review");
+    } finally {
+      setSaving(false);
+    }
+  }, [editing]);
+
+  // Accept and reject apply to the selection, or the focused item when nothing is selected
+  const decide = useCallback((action: Exclude<ReviewAction, "edit">) => {
+    const targets = selected.size > 0 ? [...selected] : focused ? [focused.id] : [];
+    submitDecisions(targets.map(itemId => ({ itemId, action })));
+  }, [selected, focused, submitDecisions]);
+
+  const startEdit = useCallback((item: ReviewItem) => {
+    if (REVIEW_KINDS[item.kind].fields.length === 0) return;
+    setEditing({
+      itemId: item.id,
+      values: Object.fromEntries(
+        REVIEW_KINDS[item.kind].fields.map(field => [field.name, item.values[field.name]?.toString() ?? ""])
+      ),
+    });
+  }, []);
+
+  const saveEdit = useCallback(() => {
+    if (!editing) return;
+    submitDecisions([{ itemId: editing.itemId, action: "edit", changes: editing.values }]);
+  }, [editing, submitDecisions]);
+
+  const toggleSelected = useCallback((itemId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || saving) return;
+
+      const target = event.target as HTMLElement;
+      const typing = target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable;
+
+      if (editing) {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          saveEdit();
+        } else if (event.key === "Escape") {
+          setEditing(null);
+        }
+        return;
+      }
+      if (typing) return;
+
+      switch (event.key) {
+        case "j":
+        case "ArrowDown":
+          event.preventDefault();
+          setFocusIndex(Math.min(activeIndex + 1, items.length - 1));
+          break;
+        case "k":
+        case "ArrowUp":
+          event.preventDefault();
+          setFocusIndex(Math.max(activeIndex - 1, 0));
+          break;
+        case "x":
+          if (focused) toggleSelected(focused.id);
+          break;
+        case "a":
+          decide("accept");
+          break;
+        case "r":
+          decide("reject");
+          break;
+        case "e":
+          if (focused) {
+            event.preventDefault();
+            startEdit(focused);
+          }
+          break;
+        case "Escape":
+          setSelected(new Set());
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [items.length, activeIndex, focused, editing, saving, decide, saveEdit, startEdit, toggleSelected]);
+
+  const handleThresholdChange = (value: number) => {
+    setThreshold(value);
+    localStorage.setItem(THRESHOLD_STORAGE_KEY, String(value));
+    fetchQueue(value);
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+          <Link href="/cases" className="hover:text-foreground">
+            Cases
+          </Link>
+          <ChevronRight className="w-4 h-4" />
+          <span>Review Inbox</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Review Inbox</h1>
+            <p className="text-muted-foreground mt-1">
+              Low-confidence extractions, income conflicts, and flagged documents across all cases
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => fetchQueue(threshold)} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="flex flex-wrap items-end gap-6 mb-6">
+        <label className="text-sm">
+          <span className="block text-muted-foreground mb-1">Confidence below</span>
+          <select
+            value={threshold}
+            onChange={e => handleThresholdChange(Number(e.target.value))}
+            className="h-10 rounded-lg border border-input bg-background px-3 text-sm"
+          >
+            {[0.5, 0.6, 0.7, 0.8, 0.9].map(value => (
+              <option key={value} value={value}>{Math.round(value * 100)}%</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-2 ml-auto">
+          <span className="text-sm text-muted-foreground">
+            {selected.size > 0 ? `${selected.size} selected` : `${items.length} open`}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => decide("accept")} disabled={saving || items.length === 0}>
+            <Check className="w-4 h-4" />
+            Accept
+          </Button>
+          <Button variant="destructive" size="sm" onClick={() => decide("reject")} disabled={saving || items.length === 0}>
+            <X className="w-4 h-4" />
+            Reject
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground mb-4">
+        {KEYBOARD_HELP.map(([key, label]) => (
+          <span key={key}>
+            <kbd className="rounded border bg-muted px-1.5 py-0.5 font-mono">{key}</kbd> {label}
+          </span>
+        ))}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 mb-4 rounded-lg border border-destructive/30 bg-destructive/10 text-destructive text-sm">
+          <AlertTriangle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="flex flex-col items-center gap-3 py-16 text-muted-foreground">
+          <Inbox className="w-10 h-10" />
+          <p>Nothing to review.</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border divide-y">
+          {items.map((item, index) => {
+            const isFocused = index === activeIndex;
+            const isEditing = editing?.itemId === item.id;
+            const fields = REVIEW_KINDS[item.kind].fields;
+
+            return (
+              <div
+                key={item.id}
+                ref={el => { rowRefs.current[item.id] = el; }}
+                onClick={() => setFocusIndex(index)}
+                className={`group p-4 ${isFocused ? "bg-muted/60 ring-2 ring-inset ring-primary/40" : "hover:bg-muted/30"}`}
+              >
+                <div className="flex items-start gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(item.id)}
+                    onChange={() => toggleSelected(item.id)}
+                    className="mt-1"
+                    aria-label="Select item"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <Badge variant={item.reason === "conflict" ? "destructive" : "secondary"}>
+                        {REASON_LABELS[item.reason]}
+                      </Badge>
+                      <Badge variant="outline">{REVIEW_KINDS[item.kind].label}</Badge>
+                      {item.confidence !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(item.confidence * 100)}% confidence
+                        </span>
+                      )}
+                    </div>
+                    <p className="font-medium truncate">{item.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      <Link
+                        href={`/cases/${item.caseId}/${CASE_SECTION[item.kind]}`}
+                        className="hover:text-foreground hover:underline"
+                        onClick={e => e.stopPropagation()}
+                      >
+                        {item.clientName || "Unknown client"}
+                      </Link>
+                      {item.detail && <> · {item.detail}</>}
+                    </p>
+                    {itemErrors[item.id] && (
+                      <p className="flex items-center gap-1 text-sm text-destructive mt-1">
+                        <FileWarning className="w-4 h-4" />
+                        {itemErrors[item.id]}
+                      </p>
+                    )}
+
+                    {isEditing && (
+                      <div className="flex flex-wrap items-end gap-3 mt-3">
+                        {fields.map((field, fieldIndex) => (
+                          <label key={field.name} className="text-xs">
+                            <span className="block text-muted-foreground mb-1">{field.label}</span>
+                            <Input
+                              autoFocus={fieldIndex === 0}
+                              value={editing.values[field.name]}
+                              placeholder={field.type === "month" ? "YYYY-MM" : undefined}
+                              inputMode={field.type === "money" ? "decimal" : undefined}
+                              onChange={e =>
+                                setEditing({ ...editing, values: { ...editing.values, [field.name]: e.target.value } })
+                              }
+                              className="w-40"
+                            />
+                          </label>
+                        ))}
+                        <Button size="sm" onClick={saveEdit} disabled={saving}>Save</Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {item.amount !== null && <span className="font-semibold">{formatMoney(item.amount)}</span>}
+                    <SourcePopover
+                      caseId={item.caseId}
+                      documentId={item.documentId}
+                      fieldSources={item.fieldSources}
+                      fieldLabels={Object.fromEntries(fields.map(field => [field.sourceField ?? field.name, field.label]))}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Accept (a)"
+                      onClick={() => submitDecisions([{ itemId: item.id, action: "accept" }])}
+                      disabled={saving}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    {fields.length > 0 && (
+                      <Button variant="ghost" size="icon" title="Edit (e)" onClick={() => startEdit(item)} disabled={saving}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Reject (r)"
+                      onClick={() => submitDecisions([{ itemId: item.id, action: "reject" }])}
+                      disabled={saving}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
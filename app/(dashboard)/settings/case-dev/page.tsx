@@ -2,10 +2,11 @@
  * case.dev Settings Page
  *
  * Allows users to connect/disconnect their case.dev API key
- * Shows what features will be enabled after connection
+ * Shows what features will be enabled after connection and the database schema version
  */
 
 import { CaseDevConnect } from '@/components/case-dev/connect-button';
+import { MigrationStatus } from '@/components/case-dev/migration-status';
 
 export default function CaseDevSettingsPage() {
   return (
@@ -22,6 +23,9 @@ export default function CaseDevSettingsPage() {
         {/* Connection Component */}
         <CaseDevConnect />
 
+        {/* Case Database Migrations */}
+        <MigrationStatus />
+
         {/* Features List */}
         <div className="rounded-lg border p-4 space-y-2">
           <h3 className="font-semibold">What you'll be able to do:</h3>
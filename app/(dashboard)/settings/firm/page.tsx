@@ -0,0 +1,25 @@
+/**
+ * Firm Settings Page
+ *
+ * Firm account, members and their roles, and invitations
+ */
+
+import { FirmMembers } from '@/components/organization/firm-members';
+
+export default function FirmSettingsPage() {
+  return (
+    <div className="container max-w-2xl py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">Firm</h1>
+          <p className="text-muted-foreground mt-2">
+            Invite attorneys, paralegals, staff, and clients. Each role sees and changes only what it needs.
+          </p>
+        </div>
+
+        <FirmMembers />
+      </div>
+    </div>
+  );
+}
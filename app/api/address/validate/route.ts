@@ -0,0 +1,29 @@
+/**
+ * Validate and normalize an address
+ * Runs offline against the bundled ZIP-to-county dataset; no database needed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAddress, type Address } from '@/lib/bankruptcy/address';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, requireCounty } = body as { address?: Partial<Address>; requireCounty?: boolean };
+
+    if (!address || typeof address !== 'object') {
+      return NextResponse.json(
+        { error: 'address is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(validateAddress(address, { requireCounty: !!requireCounty }));
+  } catch (error) {
+    console.error('Error validating address:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to validate address' },
+      { status: 500 }
+    );
+  }
+}
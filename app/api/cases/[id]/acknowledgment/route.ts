@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { loadAcknowledgmentStatus, recordAcknowledgment } from '@/lib/bankruptcy/acknowledgment';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Petition Acknowledgment API
+ *
+ * GET: The petition summary the debtor reviews, the latest acknowledgment,
+ *      and whether it still covers the current summary
+ * POST: The debtor acknowledges the summary ({ signerName, agreed, digest }).
+ *       digest is the one they reviewed; 409 when the case changed since.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const status = await loadAcknowledgmentStatus(sql, id);
+      if (!status) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(status);
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching petition acknowledgment:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch petition acknowledgment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { petition: ['acknowledge'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const signerName = typeof body.signerName === 'string' ? body.signerName.trim() : '';
+    if (!signerName) {
+      return NextResponse.json(
+        { error: 'Type your full name to sign' },
+        { status: 400 }
+      );
+    }
+
+    if (body.agreed !== true) {
+      return NextResponse.json(
+        { error: 'You must declare that the information is true and correct' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const status = await loadAcknowledgmentStatus(sql, id);
+      if (!status) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      if (body.digest !== status.digest) {
+        return NextResponse.json(
+          { error: 'Your petition changed since you opened it. Review it again before signing.' },
+          { status: 409 }
+        );
+      }
+
+      const acknowledgment = await recordAcknowledgment(sql, {
+        caseId: id,
+        signerName,
+        summary: status.summary,
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+        userAgent: request.headers.get('user-agent'),
+      });
+
+      return NextResponse.json({ acknowledgment, current: true }, { status: 201 });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error recording petition acknowledgment:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record acknowledgment' },
+      { status: 500 }
+    );
+  }
+}
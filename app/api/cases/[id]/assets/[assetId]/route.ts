@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
 
 export async function GET(
   request: NextRequest,
@@ -7,14 +8,9 @@ export async function GET(
 ) {
   try {
     const { id, assetId } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
@@ -65,16 +61,11 @@ export async function PUT(
 ) {
   try {
     const { id, assetId } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     const sql = postgres(connectionString);
 
     try {
@@ -136,14 +127,9 @@ export async function DELETE(
 ) {
   try {
     const { id, assetId } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
 
 export async function GET(
   request: NextRequest,
@@ -7,42 +8,18 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists
-      await sql`
-        CREATE TABLE IF NOT EXISTS assets (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          asset_type TEXT NOT NULL,
-          description TEXT NOT NULL,
-          current_value DECIMAL(10, 2) NOT NULL,
-          address TEXT,
-          make TEXT,
-          model TEXT,
-          year INTEGER,
-          vin TEXT,
-          institution TEXT,
-          account_number_last4 TEXT,
-          ownership_percentage DECIMAL(5, 2) DEFAULT 100,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       const records = await sql`
         SELECT
           id,
           case_id as "caseId",
+          document_id as "documentId",
           asset_type as "assetType",
           description,
           current_value as "currentValue",
@@ -54,6 +31,7 @@ export async function GET(
           institution,
           account_number_last4 as "accountNumberLast4",
           ownership_percentage as "ownershipPercentage",
+          field_sources as "fieldSources",
           created_at as "createdAt"
         FROM assets
         WHERE case_id = ${id}
@@ -79,16 +57,11 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     if (!body.assetType || !body.description || body.currentValue === undefined) {
       return NextResponse.json(
         { error: 'Asset type, description, and current value are required' },
@@ -99,26 +72,6 @@ export async function POST(
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists
-      await sql`
-        CREATE TABLE IF NOT EXISTS assets (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          asset_type TEXT NOT NULL,
-          description TEXT NOT NULL,
-          current_value DECIMAL(10, 2) NOT NULL,
-          address TEXT,
-          make TEXT,
-          model TEXT,
-          year INTEGER,
-          vin TEXT,
-          institution TEXT,
-          account_number_last4 TEXT,
-          ownership_percentage DECIMAL(5, 2) DEFAULT 100,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       const recordId = `asset_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
       const result = await sql`
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { calculateIRSAllowances } from '@/lib/bankruptcy/chapter7';
+import { ensureStandardsLoaded, getStandardsRelease, toEffectiveDate } from '@/lib/bankruptcy/standards';
+import {
+  determineCommitmentPeriod,
+  calculateProjectedDisposableIncome,
+  buildPlanSchedule,
+  type CommitmentPeriodResult,
+  type ProjectedDisposableIncome,
+  type Chapter13Plan,
+} from '@/lib/bankruptcy/chapter13';
+import {
+  calculateCMI,
+  calculateScheduleIMonthlyIncome,
+  buildMeansTestDeductions,
+  type CMIDetails,
+  type IncomeRecord,
+  type ExpenseRecord,
+  type DebtRecord,
+} from '@/lib/bankruptcy/case-financials';
+import { loadNonFilingSpouse } from '@/lib/bankruptcy/income';
+import { loadSelfEmploymentReport, withSelfEmploymentIncome } from '@/lib/bankruptcy/self-employment';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Chapter 13 Plan API
+ *
+ * Determines the commitment period (Form B 122C-1), projected disposable
+ * income (Form B 122C-2), and a draft plan payment schedule.
+ * GET uses defaults; POST accepts plan assumptions in the request body.
+ */
+
+interface PlanOptions {
+  trusteeFeeRate?: number;
+  attorneyFeesBalance?: number;
+  // Secured arrearage to cure through the plan, keyed by debt ID
+  securedArrears?: Record<string, number>;
+}
+
+interface PlanDebtRecord extends DebtRecord {
+  id: string;
+}
+
+interface Chapter13PlanResponse {
+  caseId: string;
+  calculatedAt: string;
+  inputs: {
+    state: string;
+    county: string | null;
+    householdSize: number;
+    currentMonthlyIncome: number;
+    monthlyExpenses: number;
+    trusteeFeeRate?: number;
+    attorneyFeesBalance: number;
+    filingDate: string | null;
+  };
+  standardsVersion: string;
+  cmiDetails: CMIDetails;
+  commitmentPeriod: CommitmentPeriodResult;
+  disposableIncome: ProjectedDisposableIncome;
+  securedDebts: { id: string; creditorName: string; balance: number; arrearage: number }[];
+  plan: Chapter13Plan;
+}
+
+async function calculatePlan(
+  sql: postgres.Sql,
+  caseId: string,
+  options: PlanOptions
+): Promise<Chapter13PlanResponse | null> {
+  const caseResult = await sql`
+    SELECT id, filing_type, household_size, state, county, filing_date
+    FROM bankruptcy_cases
+    WHERE id = ${caseId}
+  `;
+
+  if (caseResult.length === 0) {
+    return null;
+  }
+
+  const caseData = caseResult[0];
+
+  const incomeRecords = await sql`
+    SELECT income_month, gross_amount, net_amount, income_source, document_id, description
+    FROM income_records
+    WHERE case_id = ${caseId}
+    ORDER BY income_month DESC
+  `;
+
+  const expenseRecords = await sql`
+    SELECT category, monthly_amount FROM expenses WHERE case_id = ${caseId}
+  `;
+
+  const debtRecords = await sql`
+    SELECT id, creditor_name, debt_type, balance, secured, priority, monthly_payment
+    FROM debts
+    WHERE case_id = ${caseId}
+    ORDER BY balance DESC
+  ` as unknown as PlanDebtRecord[];
+
+  const assetRecords = await sql`
+    SELECT asset_type FROM assets WHERE case_id = ${caseId}
+  `;
+
+  const filingDate = caseData.filing_date ? toEffectiveDate(caseData.filing_date) : null;
+  const selfEmployment = await loadSelfEmploymentReport(sql, caseId, filingDate);
+  const caseIncome = withSelfEmploymentIncome(incomeRecords as unknown as IncomeRecord[], selfEmployment);
+  const cmiDetails = calculateCMI(caseIncome, {
+    filingDate,
+    jointFiling: caseData.filing_type === 'joint',
+    nonFilingSpouse: await loadNonFilingSpouse(sql, caseId),
+  });
+  // Form 122C-1 applies the marital adjustment before the median comparison
+  const currentMonthlyIncome = cmiDetails.adjustedCurrentMonthlyIncome;
+
+  const monthlyExpenses = expenseRecords.reduce(
+    (sum, e) => sum + Number(e.monthly_amount),
+    0
+  );
+
+  const vehicleCount = assetRecords.filter(a => a.asset_type === 'vehicle').length;
+  const state = caseData.state || 'CA';
+  const county = caseData.county || null;
+  const householdSize = caseData.household_size || 1;
+
+  // Median income and IRS standards in effect on the filing date
+  await ensureStandardsLoaded();
+  const standards = getStandardsRelease(filingDate);
+
+  // Form 122C-1: Applicable commitment period
+  const commitmentPeriod = determineCommitmentPeriod(state, householdSize, currentMonthlyIncome, standards);
+
+  // Form 122C-2: Projected disposable income
+  const irsAllowances = calculateIRSAllowances(
+    state,
+    householdSize,
+    county,
+    vehicleCount > 0,
+    vehicleCount || 1,
+    40,
+    standards
+  );
+  const disposableIncome = calculateProjectedDisposableIncome(
+    currentMonthlyIncome,
+    householdSize,
+    commitmentPeriod.isAboveMedian,
+    irsAllowances,
+    calculateScheduleIMonthlyIncome(caseIncome, filingDate),
+    monthlyExpenses,
+    buildMeansTestDeductions(expenseRecords as unknown as ExpenseRecord[], debtRecords),
+    standards
+  );
+
+  const securedDebts = debtRecords
+    .filter(d => d.secured)
+    .map(d => ({
+      id: d.id,
+      creditorName: d.creditor_name,
+      balance: Number(d.balance),
+      arrearage: Number(options.securedArrears?.[d.id]) || 0,
+    }));
+
+  const plan = buildPlanSchedule({
+    commitmentPeriodMonths: commitmentPeriod.commitmentPeriodMonths,
+    monthlyDisposableIncome: disposableIncome.monthlyDisposableIncome,
+    priorityClaims: debtRecords
+      .filter(d => d.priority && !d.secured)
+      .map(d => ({ debtId: d.id, creditorName: d.creditor_name, amount: Number(d.balance) })),
+    securedArrears: securedDebts.map(d => ({
+      debtId: d.id,
+      creditorName: d.creditorName,
+      amount: d.arrearage,
+    })),
+    nonpriorityUnsecuredTotal: debtRecords
+      .filter(d => !d.secured && !d.priority)
+      .reduce((sum, d) => sum + Number(d.balance), 0),
+    attorneyFeesBalance: options.attorneyFeesBalance,
+    trusteeFeeRate: options.trusteeFeeRate,
+  });
+
+  return {
+    caseId,
+    calculatedAt: new Date().toISOString(),
+    inputs: {
+      state,
+      county,
+      householdSize,
+      currentMonthlyIncome,
+      monthlyExpenses,
+      trusteeFeeRate: options.trusteeFeeRate,
+      attorneyFeesBalance: options.attorneyFeesBalance || 0,
+      filingDate,
+    },
+    standardsVersion: standards.version,
+    cmiDetails,
+    commitmentPeriod,
+    disposableIncome,
+    securedDebts,
+    plan,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: caseId } = await params;
+  const session = requireCaseAccess(request, caseId, { analysis: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const sql = postgres(connectionString);
+
+  try {
+    const response = await calculatePlan(sql, caseId, {});
+
+    if (!response) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating Chapter 13 plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate Chapter 13 plan' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: caseId } = await params;
+  const session = requireCaseAccess(request, caseId, { matter: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const body: PlanOptions = await request.json().catch(() => ({}));
+
+  if (
+    body.trusteeFeeRate !== undefined &&
+    (typeof body.trusteeFeeRate !== 'number' || body.trusteeFeeRate < 0 || body.trusteeFeeRate > 0.1)
+  ) {
+    return NextResponse.json(
+      { error: 'Trustee fee rate must be between 0 and 0.10' },
+      { status: 400 }
+    );
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const response = await calculatePlan(sql, caseId, body);
+
+    if (!response) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating Chapter 13 plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate Chapter 13 plan' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Codebtors API (Schedule H)
+ *
+ * Each codebtor is linked to the debt they are also liable for.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const records = await sql`
+        SELECT
+          c.id,
+          c.case_id as "caseId",
+          c.debt_id as "debtId",
+          c.name,
+          c.address,
+          c.relationship,
+          d.creditor_name as "creditorName",
+          d.secured,
+          c.created_at as "createdAt"
+        FROM codebtors c
+        LEFT JOIN debts d ON d.id = c.debt_id
+        WHERE c.case_id = ${id}
+        ORDER BY c.created_at
+      `;
+
+      return NextResponse.json({ codebtors: records });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching codebtors:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch codebtors' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    if (!body.name || !body.debtId) {
+      return NextResponse.json(
+        { error: 'Codebtor name and debt are required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const debts = await sql`
+        SELECT id, creditor_name, secured FROM debts
+        WHERE id = ${body.debtId} AND case_id = ${id}
+      `;
+
+      if (debts.length === 0) {
+        return NextResponse.json(
+          { error: 'Debt not found for this case' },
+          { status: 400 }
+        );
+      }
+
+      const recordId = `codebtor_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+      const result = await sql`
+        INSERT INTO codebtors (
+          id, case_id, debt_id, name, address, relationship, created_at
+        ) VALUES (
+          ${recordId},
+          ${id},
+          ${body.debtId},
+          ${body.name},
+          ${body.address || null},
+          ${body.relationship || null},
+          NOW()
+        )
+        RETURNING
+          id,
+          case_id as "caseId",
+          debt_id as "debtId",
+          name,
+          address,
+          relationship,
+          created_at as "createdAt"
+      `;
+
+      return NextResponse.json({
+        codebtor: {
+          ...result[0],
+          creditorName: debts[0].creditor_name,
+          secured: debts[0].secured,
+        },
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error creating codebtor:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create codebtor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contractId: string }> }
+) {
+  try {
+    const { id, contractId } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const sql = postgres(connectionString);
+
+    try {
+      const result = await sql`
+        UPDATE executory_contracts
+        SET
+          counterparty_name = COALESCE(${body.counterpartyName ?? null}, counterparty_name),
+          counterparty_address = COALESCE(${body.counterpartyAddress ?? null}, counterparty_address),
+          contract_type = COALESCE(${body.contractType ?? null}, contract_type),
+          description = COALESCE(${body.description ?? null}, description),
+          monthly_payment = COALESCE(${body.monthlyPayment ? parseFloat(body.monthlyPayment) : null}, monthly_payment),
+          expiration_date = COALESCE(${body.expirationDate || null}, expiration_date)
+        WHERE id = ${contractId} AND case_id = ${id}
+        RETURNING
+          id,
+          case_id as "caseId",
+          counterparty_name as "counterpartyName",
+          counterparty_address as "counterpartyAddress",
+          contract_type as "contractType",
+          description,
+          monthly_payment as "monthlyPayment",
+          expiration_date as "expirationDate",
+          created_at as "createdAt"
+      `;
+
+      if (result.length === 0) {
+        return NextResponse.json(
+          { error: 'Contract not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ contract: result[0] });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error updating contract:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update contract' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contractId: string }> }
+) {
+  try {
+    const { id, contractId } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const result = await sql`
+        DELETE FROM executory_contracts
+        WHERE id = ${contractId} AND case_id = ${id}
+        RETURNING id
+      `;
+
+      if (result.length === 0) {
+        return NextResponse.json(
+          { error: 'Contract not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error deleting contract:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete contract' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Executory Contracts and Unexpired Leases API (Schedule G)
+ */
+
+const CONTRACT_TYPES = ['residential_lease', 'vehicle_lease', 'equipment_lease', 'service_contract', 'other'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const records = await sql`
+        SELECT
+          id,
+          case_id as "caseId",
+          counterparty_name as "counterpartyName",
+          counterparty_address as "counterpartyAddress",
+          contract_type as "contractType",
+          description,
+          monthly_payment as "monthlyPayment",
+          expiration_date as "expirationDate",
+          created_at as "createdAt"
+        FROM executory_contracts
+        WHERE case_id = ${id}
+        ORDER BY created_at
+      `;
+
+      return NextResponse.json({ contracts: records });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching contracts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch contracts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    if (!body.counterpartyName || !body.description) {
+      return NextResponse.json(
+        { error: 'Counterparty name and description are required' },
+        { status: 400 }
+      );
+    }
+
+    const contractType = body.contractType || 'other';
+    if (!CONTRACT_TYPES.includes(contractType)) {
+      return NextResponse.json(
+        { error: `Contract type must be one of: ${CONTRACT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const recordId = `contract_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+      const result = await sql`
+        INSERT INTO executory_contracts (
+          id, case_id, counterparty_name, counterparty_address, contract_type,
+          description, monthly_payment, expiration_date, created_at
+        ) VALUES (
+          ${recordId},
+          ${id},
+          ${body.counterpartyName},
+          ${body.counterpartyAddress || null},
+          ${contractType},
+          ${body.description},
+          ${body.monthlyPayment ? parseFloat(body.monthlyPayment) : null},
+          ${body.expirationDate || null},
+          NOW()
+        )
+        RETURNING
+          id,
+          case_id as "caseId",
+          counterparty_name as "counterpartyName",
+          counterparty_address as "counterpartyAddress",
+          contract_type as "contractType",
+          description,
+          monthly_payment as "monthlyPayment",
+          expiration_date as "expirationDate",
+          created_at as "createdAt"
+      `;
+
+      return NextResponse.json({ contract: result[0] });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error creating contract:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create contract' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { buildCreditorMatrix, formatCreditorMatrixText } from '@/lib/bankruptcy/creditor-matrix';
+import { generateCreditorMatrixVerification } from '@/lib/bankruptcy/pdf-generator';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * GET /api/cases/[id]/creditor-matrix?format=json|txt|pdf
+ *
+ * json (default) returns the entries and warnings for review; txt returns
+ * the fixed-width upload file; pdf returns the verification page.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: caseId } = await params;
+  const session = requireCaseAccess(request, caseId, { analysis: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+  const format = request.nextUrl.searchParams.get('format') || 'json';
+
+  if (!['json', 'txt', 'pdf'].includes(format)) {
+    return NextResponse.json(
+      { error: 'format must be json, txt, or pdf' },
+      { status: 400 }
+    );
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const caseResult = await sql`
+      SELECT id, client_name, case_number, state
+      FROM bankruptcy_cases
+      WHERE id = ${caseId}
+    `;
+
+    if (caseResult.length === 0) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const caseData = caseResult[0];
+
+    const debts = await sql`
+      SELECT id, creditor_name, creditor_address, debt_type
+      FROM debts WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+
+    const matrix = buildCreditorMatrix(
+      debts.map(d => ({
+        id: d.id,
+        creditorName: d.creditor_name,
+        creditorAddress: d.creditor_address,
+        debtType: d.debt_type,
+      })),
+      caseData.state
+    );
+    const { text, warnings: formatWarnings } = formatCreditorMatrixText(matrix);
+    const warnings = [...matrix.warnings, ...formatWarnings];
+
+    if (format === 'txt') {
+      return new NextResponse(text, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="creditor_matrix.txt"',
+        },
+      });
+    }
+
+    if (format === 'pdf') {
+      const form = generateCreditorMatrixVerification(matrix, caseData.client_name, caseData.case_number || '');
+      return new NextResponse(await form.blob.arrayBuffer(), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${form.filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      entries: matrix.entries,
+      warnings,
+      text,
+    });
+  } catch (error) {
+    console.error('Error building creditor matrix:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build creditor matrix' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+import { loadFieldCipher } from '@/lib/db/field-encryption';
 
 export async function GET(
   request: NextRequest,
@@ -7,14 +9,9 @@ export async function GET(
 ) {
   try {
     const { id, debtId } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
@@ -48,7 +45,11 @@ export async function GET(
         );
       }
 
-      return NextResponse.json({ debt: records[0] });
+      const cipher = await loadFieldCipher(sql);
+
+      return NextResponse.json({
+        debt: { ...records[0], accountNumber: cipher.decrypt(records[0].accountNumber) },
+      });
     } finally {
       await sql.end();
     }
@@ -67,25 +68,21 @@ export async function PUT(
 ) {
   try {
     const { id, debtId } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     const sql = postgres(connectionString);
 
     try {
+      const cipher = await loadFieldCipher(sql);
       const result = await sql`
         UPDATE debts
         SET
           creditor_name = COALESCE(${body.creditorName}, creditor_name),
           creditor_address = COALESCE(${body.creditorAddress}, creditor_address),
-          account_number = COALESCE(${body.accountNumber}, account_number),
+          account_number = COALESCE(${cipher.encrypt(body.accountNumber)}, account_number),
           account_last4 = COALESCE(${body.accountLast4}, account_last4),
           balance = COALESCE(${body.balance ? parseFloat(body.balance) : null}, balance),
           monthly_payment = COALESCE(${body.monthlyPayment ? parseFloat(body.monthlyPayment) : null}, monthly_payment),
@@ -123,7 +120,9 @@ export async function PUT(
         );
       }
 
-      return NextResponse.json({ debt: result[0] });
+      return NextResponse.json({
+        debt: { ...result[0], accountNumber: cipher.decrypt(result[0].accountNumber) },
+      });
     } finally {
       await sql.end();
     }
@@ -142,14 +141,9 @@ export async function DELETE(
 ) {
   try {
     const { id, debtId } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+import { loadFieldCipher } from '@/lib/db/field-encryption';
 
 export async function GET(
   request: NextRequest,
@@ -7,44 +9,18 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists
-      await sql`
-        CREATE TABLE IF NOT EXISTS debts (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          creditor_name TEXT NOT NULL,
-          creditor_address TEXT,
-          account_number TEXT,
-          account_last4 TEXT,
-          balance DECIMAL(10, 2) NOT NULL,
-          monthly_payment DECIMAL(10, 2),
-          interest_rate DECIMAL(5, 2),
-          debt_type TEXT NOT NULL,
-          secured BOOLEAN DEFAULT false,
-          priority BOOLEAN DEFAULT false,
-          collateral TEXT,
-          collateral_value DECIMAL(10, 2),
-          date_incurred DATE,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       const records = await sql`
         SELECT
           id,
           case_id as "caseId",
+          document_id as "documentId",
           creditor_name as "creditorName",
           creditor_address as "creditorAddress",
           account_number as "accountNumber",
@@ -58,13 +34,18 @@ export async function GET(
           collateral,
           collateral_value as "collateralValue",
           date_incurred as "dateIncurred",
+          field_sources as "fieldSources",
           created_at as "createdAt"
         FROM debts
         WHERE case_id = ${id}
         ORDER BY balance DESC
       `;
 
-      return NextResponse.json({ debts: records });
+      const cipher = await loadFieldCipher(sql);
+
+      return NextResponse.json({
+        debts: records.map(record => ({ ...record, accountNumber: cipher.decrypt(record.accountNumber) })),
+      });
     } finally {
       await sql.end();
     }
@@ -83,16 +64,11 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     if (!body.creditorName || !body.balance || !body.debtType) {
       return NextResponse.json(
         { error: 'Creditor name, balance, and debt type are required' },
@@ -103,29 +79,9 @@ export async function POST(
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists
-      await sql`
-        CREATE TABLE IF NOT EXISTS debts (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          creditor_name TEXT NOT NULL,
-          creditor_address TEXT,
-          account_number TEXT,
-          account_last4 TEXT,
-          balance DECIMAL(10, 2) NOT NULL,
-          monthly_payment DECIMAL(10, 2),
-          interest_rate DECIMAL(5, 2),
-          debt_type TEXT NOT NULL,
-          secured BOOLEAN DEFAULT false,
-          priority BOOLEAN DEFAULT false,
-          collateral TEXT,
-          collateral_value DECIMAL(10, 2),
-          date_incurred DATE,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       const recordId = `debt_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const cipher = await loadFieldCipher(sql);
+      const accountNumber: string | null = body.accountNumber || null;
 
       const result = await sql`
         INSERT INTO debts (
@@ -137,8 +93,8 @@ export async function POST(
           ${id},
           ${body.creditorName},
           ${body.creditorAddress || null},
-          ${body.accountNumber || null},
-          ${body.accountLast4 || null},
+          ${cipher.encrypt(accountNumber)},
+          ${body.accountLast4 || accountNumber?.replace(/\D/g, '').slice(-4) || null},
           ${parseFloat(body.balance)},
           ${body.monthlyPayment ? parseFloat(body.monthlyPayment) : null},
           ${body.interestRate ? parseFloat(body.interestRate) : null},
@@ -169,7 +125,7 @@ export async function POST(
           created_at as "createdAt"
       `;
 
-      return NextResponse.json({ debt: result[0] });
+      return NextResponse.json({ debt: { ...result[0], accountNumber } });
     } finally {
       await sql.end();
     }
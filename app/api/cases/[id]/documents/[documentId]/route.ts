@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
 import { CaseDevClient } from '@/lib/case-dev/client';
+import { loadFieldCipher } from '@/lib/db/field-encryption';
+import type { DocumentClassification } from '@/lib/documents';
+import { enqueueDocumentProcessing, kickInProcessWorker } from '@/lib/jobs';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+// Tables holding figures extracted from a document
+const EXTRACTED_TABLES = ['income_records', 'debts', 'assets', 'expenses', 'bank_transactions'];
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; documentId: string }> }
 ) {
   const { id: caseId, documentId } = await params;
-  const connectionString = request.nextUrl.searchParams.get('connectionString');
+  const session = requireCaseAccess(request, caseId, { document: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString, apiKey } = session;
   const action = request.nextUrl.searchParams.get('action') || 'info';
-  const apiKey = request.headers.get('x-casedev-api-key');
-
-  if (!connectionString) {
-    return NextResponse.json({ error: 'Connection string is required' }, { status: 400 });
-  }
 
   const sql = postgres(connectionString);
 
@@ -51,7 +55,7 @@ export async function GET(
 
     if (action === 'download') {
       // Get download URL from case.dev vault
-      if (document.vault_file_id && apiKey) {
+      if (document.vault_file_id) {
         const client = new CaseDevClient(apiKey);
 
         // Parse vault info from vault_file_id (format: vaultId:objectId)
@@ -81,13 +85,15 @@ export async function GET(
     }
 
     if (action === 'text') {
+      const cipher = await loadFieldCipher(sql);
+
       // Return OCR text if available
       if (document.ocr_text) {
-        return NextResponse.json({ text: document.ocr_text });
+        return NextResponse.json({ text: cipher.decrypt(document.ocr_text) });
       }
 
       // Try to fetch from vault if we have vault info
-      if (document.vault_file_id && apiKey) {
+      if (document.vault_file_id) {
         const client = new CaseDevClient(apiKey);
         const [vaultId, objectId] = document.vault_file_id.split(':');
 
@@ -98,7 +104,7 @@ export async function GET(
             // Cache the OCR text in the database
             if (text) {
               await sql`
-                UPDATE case_documents SET ocr_text = ${text} WHERE id = ${documentId}
+                UPDATE case_documents SET ocr_text = ${cipher.encrypt(text)} WHERE id = ${documentId}
               `;
             }
 
@@ -124,18 +130,92 @@ export async function GET(
   }
 }
 
-export async function DELETE(
+/**
+ * Correct a document's type. Figures extracted under the old type are
+ * removed, and the document is re-processed when an API key is sent.
+ */
+export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; documentId: string }> }
 ) {
   const { id: caseId, documentId } = await params;
-  const connectionString = request.nextUrl.searchParams.get('connectionString');
-  const apiKey = request.headers.get('x-casedev-api-key');
-  const deleteFromVault = request.nextUrl.searchParams.get('deleteFromVault') === 'true';
+  const session = requireCaseAccess(request, caseId, { document: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString, apiKey } = session;
+
+  const body = await request.json();
+  const documentType = body?.documentType as string | undefined;
+
+  if (typeof documentType !== 'string' || !documentType.trim()) {
+    return NextResponse.json({ error: 'documentType is required' }, { status: 400 });
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const documentResult = await sql`
+      SELECT id, document_type, classification FROM case_documents
+      WHERE id = ${documentId} AND case_id = ${caseId}
+    `;
+
+    if (documentResult.length === 0) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const document = documentResult[0];
+    if (document.document_type === documentType) {
+      return NextResponse.json({ success: true, documentType, reprocessing: false });
+    }
+
+    const previous = (document.classification ?? {}) as Partial<DocumentClassification>;
+    const classification: DocumentClassification = {
+      ...previous,
+      predictedType: previous.predictedType ?? document.document_type,
+      confidence: 1,
+      method: 'manual',
+      correctedFrom: document.document_type,
+      correctedAt: new Date().toISOString(),
+    };
+
+    await sql`
+      UPDATE case_documents
+      SET document_type = ${documentType},
+          validation_status = 'pending',
+          classification = ${sql.json(JSON.parse(JSON.stringify(classification)))}
+      WHERE id = ${documentId}
+    `;
 
-  if (!connectionString) {
-    return NextResponse.json({ error: 'Connection string is required' }, { status: 400 });
+    for (const table of EXTRACTED_TABLES) {
+      const exists = await sql`SELECT to_regclass(${table}) IS NOT NULL as "exists"`;
+      if (exists[0].exists) {
+        await sql`DELETE FROM ${sql(table)} WHERE document_id = ${documentId}`;
+      }
+    }
+
+    const job = await enqueueDocumentProcessing(sql, { documentId, caseId, reprocess: true, apiKey });
+    kickInProcessWorker(connectionString);
+
+    return NextResponse.json({ success: true, documentType, classification, reprocessing: true, jobId: job.id });
+  } catch (error) {
+    console.error('Error updating document type:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update document type' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
   }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; documentId: string }> }
+) {
+  const { id: caseId, documentId } = await params;
+  const session = requireCaseAccess(request, caseId, { document: ['delete'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString, apiKey } = session;
+  const deleteFromVault = request.nextUrl.searchParams.get('deleteFromVault') === 'true';
 
   const sql = postgres(connectionString);
 
@@ -153,7 +233,7 @@ export async function DELETE(
     const document = documentResult[0];
 
     // Delete from vault if requested and we have vault info
-    if (deleteFromVault && document.vault_file_id && apiKey) {
+    if (deleteFromVault && document.vault_file_id) {
       const client = new CaseDevClient(apiKey);
       const [vaultId, objectId] = document.vault_file_id.split(':');
 
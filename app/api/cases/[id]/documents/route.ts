@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
 
 export async function GET(
   request: NextRequest,
@@ -7,31 +8,13 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { document: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
     try {
-      // Check if case_documents table exists
-      const tableExists = await sql`
-        SELECT EXISTS (
-          SELECT FROM information_schema.tables 
-          WHERE table_name = 'case_documents'
-        )
-      `;
-
-      if (!tableExists[0].exists) {
-        // Table doesn't exist yet, return empty array
-        return NextResponse.json({ documents: [] });
-      }
-
       // Fetch documents for this case
       const documents = await sql`
         SELECT
@@ -43,6 +26,7 @@ export async function GET(
           document_type as "documentType",
           validation_status as "validationStatus",
           extracted_data as "extractedData",
+          classification,
           uploaded_at as "uploadedAt"
         FROM case_documents
         WHERE case_id = ${id}
@@ -68,64 +52,14 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { document: ['create'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     const sql = postgres(connectionString);
 
     try {
-      // Ensure case_documents table exists
-      // Note: case_id is TEXT to match bankruptcy_cases.id which uses TEXT primary keys
-      try {
-        await sql`
-          CREATE TABLE IF NOT EXISTS case_documents (
-            id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
-            case_id TEXT NOT NULL REFERENCES bankruptcy_cases(id) ON DELETE CASCADE,
-            file_name TEXT NOT NULL,
-            file_type TEXT,
-            file_size INTEGER,
-            document_type TEXT,
-            validation_status TEXT DEFAULT 'pending',
-            extracted_data JSONB,
-            vault_file_id TEXT,
-            ocr_text TEXT,
-            ocr_completed BOOLEAN DEFAULT FALSE,
-            uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-          )
-        `;
-      } catch (tableError: any) {
-        // If table creation fails due to schema mismatch, try to drop and recreate
-        if (tableError.code === '42804' || tableError.message?.includes('incompatible types')) {
-          console.log('Dropping and recreating case_documents table due to schema mismatch...');
-          await sql`DROP TABLE IF EXISTS case_documents CASCADE`;
-          await sql`
-            CREATE TABLE case_documents (
-              id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
-              case_id TEXT NOT NULL REFERENCES bankruptcy_cases(id) ON DELETE CASCADE,
-              file_name TEXT NOT NULL,
-              file_type TEXT,
-              file_size INTEGER,
-              document_type TEXT,
-              validation_status TEXT DEFAULT 'pending',
-              extracted_data JSONB,
-              vault_file_id TEXT,
-              ocr_text TEXT,
-              ocr_completed BOOLEAN DEFAULT FALSE,
-              uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-            )
-          `;
-        } else {
-          throw tableError;
-        }
-      }
-
       // Insert document record
       const result = await sql`
         INSERT INTO case_documents (
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { analyzeCaseExemptions, type CaseExemptionResult } from '@/lib/bankruptcy/exemptions';
+import { getSofaSection, loadSofaSectionEntries } from '@/lib/bankruptcy/sofa';
+import { toEffectiveDate } from '@/lib/bankruptcy/standards';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Exemptions API
+ *
+ * GET: Determine the applicable exemption law (730-day domicile rule) and
+ *      allocate each available scheme across the case's assets.
+ * POST: Save one scheme's allocation as the Schedule C claims. Refused when
+ *       the domicile state's schedule is not yet supported.
+ */
+
+async function analyzeCase(sql: postgres.Sql, caseId: string): Promise<CaseExemptionResult | null> {
+  const caseResult = await sql`
+    SELECT id, state, household_size, filing_type, filing_date
+    FROM bankruptcy_cases
+    WHERE id = ${caseId}
+  `;
+
+  if (caseResult.length === 0) {
+    return null;
+  }
+
+  const caseData = caseResult[0];
+
+  const assetRecords = await sql`
+    SELECT id, asset_type, description, current_value, ownership_percentage
+    FROM assets
+    WHERE case_id = ${caseId}
+  `;
+
+  const debtRecords = await sql`
+    SELECT debt_type, balance, secured, collateral
+    FROM debts
+    WHERE case_id = ${caseId}
+  `;
+
+  // Prior addresses from the SOFA drive the 730-day domicile rule
+  const priorAddresses = await loadSofaSectionEntries(sql, caseId, getSofaSection('prior_addresses')!);
+
+  return analyzeCaseExemptions({
+    assets: assetRecords.map(a => ({
+      id: a.id,
+      assetType: a.asset_type,
+      description: a.description,
+      currentValue: Number(a.current_value),
+      ownershipPercentage: a.ownership_percentage !== null ? Number(a.ownership_percentage) : 100,
+    })),
+    debts: debtRecords.map(d => ({
+      secured: d.secured,
+      debtType: d.debt_type,
+      balance: Number(d.balance),
+      collateral: d.collateral,
+    })),
+    currentState: caseData.state,
+    residenceHistory: priorAddresses.map(a => ({
+      state: String(a.state),
+      fromDate: String(a.fromDate),
+      toDate: a.toDate ? String(a.toDate) : null,
+    })),
+    filingDate: caseData.filing_date ? toEffectiveDate(caseData.filing_date) : null,
+    jointFiling: caseData.filing_type === 'joint',
+    householdSize: caseData.household_size,
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: caseId } = await params;
+  const session = requireCaseAccess(request, caseId, { analysis: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const sql = postgres(connectionString);
+
+  try {
+    const result = await analyzeCase(sql, caseId);
+    if (!result) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const savedClaims = await sql`
+      SELECT
+        asset_id as "assetId",
+        scheme_id as "schemeId",
+        rule_id as "ruleId",
+        category,
+        statute,
+        amount
+      FROM asset_exemptions
+      WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+
+    return NextResponse.json({
+      caseId,
+      ...result,
+      savedClaims: savedClaims.map(c => ({ ...c, amount: Number(c.amount) })),
+    });
+  } catch (error) {
+    console.error('Error analyzing exemptions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to analyze exemptions' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: caseId } = await params;
+  const session = requireCaseAccess(request, caseId, { matter: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const body: { schemeId?: string } = await request.json().catch(() => ({}));
+  const sql = postgres(connectionString);
+
+  try {
+    const result = await analyzeCase(sql, caseId);
+    if (!result) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    if (result.scheduleStatus === 'not_supported') {
+      return NextResponse.json(
+        { error: `${result.domicile.state} exemption schedule is not yet supported; prepare Schedule C manually` },
+        { status: 400 }
+      );
+    }
+
+    const analysis = body.schemeId
+      ? result.analyses.find(a => a.scheme.id === body.schemeId)
+      : result.recommended;
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: `Exemption scheme ${body.schemeId} is not available for this case` },
+        { status: 400 }
+      );
+    }
+
+    const claims = analysis.allocations.flatMap(a => a.claims);
+
+    // Replace any previously saved claims
+    await sql.begin(async transaction => {
+      // postgres.js types TransactionSql without the tagged-template call signature
+      const tx = transaction as unknown as postgres.Sql;
+      await tx`DELETE FROM asset_exemptions WHERE case_id = ${caseId}`;
+      for (const claim of claims) {
+        const claimId = `exm_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+        await tx`
+          INSERT INTO asset_exemptions (
+            id, case_id, asset_id, scheme_id, rule_id, category, statute, amount
+          ) VALUES (
+            ${claimId}, ${caseId}, ${claim.assetId}, ${claim.schemeId},
+            ${claim.ruleId}, ${claim.category}, ${claim.statute}, ${claim.amount}
+          )
+        `;
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      schemeId: analysis.scheme.id,
+      claims,
+      totalExempt: analysis.totalExempt,
+      totalNonExempt: analysis.totalNonExempt,
+    });
+  } catch (error) {
+    console.error('Error saving exemptions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save exemptions' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
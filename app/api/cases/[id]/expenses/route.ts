@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
 
 export async function GET(
   request: NextRequest,
@@ -7,32 +8,13 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists
-      await sql`
-        CREATE TABLE IF NOT EXISTS expenses (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          category TEXT NOT NULL,
-          description TEXT,
-          monthly_amount DECIMAL(10, 2) NOT NULL,
-          is_irs_standard BOOLEAN DEFAULT false,
-          irs_standard_type TEXT,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       const records = await sql`
         SELECT
           id,
@@ -67,16 +49,11 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     if (!body.category || body.monthlyAmount === undefined) {
       return NextResponse.json(
         { error: 'Category and monthly amount are required' },
@@ -87,20 +64,6 @@ export async function POST(
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists
-      await sql`
-        CREATE TABLE IF NOT EXISTS expenses (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          category TEXT NOT NULL,
-          description TEXT,
-          monthly_amount DECIMAL(10, 2) NOT NULL,
-          is_irs_standard BOOLEAN DEFAULT false,
-          irs_standard_type TEXT,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       const recordId = `exp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
       const result = await sql`
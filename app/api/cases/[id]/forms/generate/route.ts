@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
 import { mapAllForms, FormData } from '@/lib/bankruptcy/form-mapper';
-import { generateAllForms, GeneratedForm } from '@/lib/bankruptcy/pdf-generator';
+import { generateOfficialForms } from '@/lib/bankruptcy/acroform';
+import { loadSofaData, getPreviousAddresses } from '@/lib/bankruptcy/sofa';
+import { loadSelfEmploymentReport } from '@/lib/bankruptcy/self-employment';
+import { toEffectiveDate } from '@/lib/bankruptcy/standards';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+import { loadFieldCipher } from '@/lib/db/field-encryption';
 
 // Helper to calculate monthly income from pay period
 function calculateMonthlyIncome(grossPay: number | null, payPeriod: string | null): number {
@@ -20,18 +25,17 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: caseId } = await params;
-  const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-  if (!connectionString) {
-    return NextResponse.json({ error: 'Connection string is required' }, { status: 400 });
-  }
+  const session = requireCaseAccess(request, caseId, { analysis: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
 
   const sql = postgres(connectionString);
 
   try {
     // Fetch case data
     const caseResult = await sql`
-      SELECT id, client_name, case_number, case_type, status, created_at, state, household_size, filing_date
+      SELECT id, client_name, case_number, case_type, filing_type, status, created_at, state, household_size, filing_date,
+             ssn, date_of_birth
       FROM bankruptcy_cases
       WHERE id = ${caseId}
     `;
@@ -41,6 +45,7 @@ export async function POST(
     }
 
     const caseData = caseResult[0];
+    const cipher = await loadFieldCipher(sql);
 
     // Fetch income records
     const incomeRecords = await sql`
@@ -48,6 +53,13 @@ export async function POST(
       FROM income WHERE case_id = ${caseId}
     `;
 
+    // Net business income from the self-employment ledger (Schedule I Line 8a)
+    const selfEmployment = await loadSelfEmploymentReport(
+      sql,
+      caseId,
+      caseData.filing_date ? toEffectiveDate(caseData.filing_date) : null
+    );
+
     // Fetch expense records
     const expenseRecords = await sql`
       SELECT id, category, description, monthly_amount
@@ -68,6 +80,31 @@ export async function POST(
       FROM debts WHERE case_id = ${caseId}
     `;
 
+    // Fetch saved exemption claims (Schedule C)
+    const exemptionRecords = await sql`
+      SELECT asset_id, scheme_id, rule_id, category, statute, amount
+      FROM asset_exemptions WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+
+    // Fetch executory contracts and leases (Schedule G)
+    const contractRecords = await sql`
+      SELECT id, counterparty_name, counterparty_address, contract_type, description,
+             monthly_payment, expiration_date
+      FROM executory_contracts WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+
+    // Fetch codebtors (Schedule H)
+    const codebtorRecords = await sql`
+      SELECT id, debt_id, name, address, relationship
+      FROM codebtors WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+
+    // Fetch Statement of Financial Affairs answers
+    const sofa = await loadSofaData(sql, caseId);
+
     // Calculate means test data
     const monthlyGrossIncome = incomeRecords.reduce(
       (sum, r) => sum + calculateMonthlyIncome(Number(r.gross_pay), r.pay_period),
@@ -78,14 +115,19 @@ export async function POST(
       .filter(d => !d.secured)
       .reduce((sum, d) => sum + Number(d.balance), 0);
 
-    // Get state median income (simplified)
+    // Get state median income in effect on the filing date (simplified)
     const { getStateMedianIncome } = await import('@/lib/bankruptcy/chapter7');
+    const { ensureStandardsLoaded, getStandardsRelease } = await import('@/lib/bankruptcy/standards');
+    await ensureStandardsLoaded();
     const state = caseData.state || 'CA';
     const householdSize = caseData.household_size || 1;
-    const medianIncome = getStateMedianIncome(state, householdSize);
+    const medianIncome = getStateMedianIncome(state, householdSize, getStandardsRelease(caseData.filing_date));
     const annualIncome = monthlyGrossIncome * 12;
     const isAboveMedian = annualIncome > medianIncome;
 
+    // Parse name from clientName
+    const nameParts = (caseData.client_name || '').split(' ');
+
     // Prepare form data
     const formData: FormData = {
       caseData: {
@@ -98,6 +140,14 @@ export async function POST(
         state: caseData.state,
         householdSize: caseData.household_size,
         filingDate: caseData.filing_date,
+        filingType: caseData.filing_type,
+      },
+      debtorInfo: {
+        firstName: nameParts[0] || '',
+        lastName: nameParts[nameParts.length - 1] || '',
+        ssn: cipher.decrypt(caseData.ssn)?.replace(/^(\d{3})(\d{2})(\d{4})$/, '$1-$2-$3') ?? undefined,
+        dateOfBirth: cipher.decrypt(caseData.date_of_birth) ?? undefined,
+        previousAddresses: getPreviousAddresses(sofa),
       },
       income: incomeRecords.map(r => ({
         id: r.id,
@@ -109,6 +159,12 @@ export async function POST(
         incomeSource: r.income_source,
         ytdGross: Number(r.ytd_gross),
       })),
+      selfEmployment: selfEmployment.businesses.map(b => ({
+        businessName: b.businessName,
+        monthlyGrossReceipts: b.monthlyGrossReceipts,
+        monthlyExpenses: b.monthlyExpenses,
+        monthlyNetIncome: b.monthlyNetIncome,
+      })),
       expenses: expenseRecords.map(e => ({
         id: e.id,
         category: e.category,
@@ -143,6 +199,31 @@ export async function POST(
         collateral: d.collateral,
         collateralValue: Number(d.collateral_value),
       })),
+      exemptionClaims: exemptionRecords.map(e => ({
+        assetId: e.asset_id,
+        schemeId: e.scheme_id,
+        ruleId: e.rule_id,
+        category: e.category,
+        statute: e.statute,
+        amount: Number(e.amount),
+      })),
+      sofa,
+      contracts: contractRecords.map(c => ({
+        id: c.id,
+        counterpartyName: c.counterparty_name,
+        counterpartyAddress: c.counterparty_address,
+        contractType: c.contract_type,
+        description: c.description,
+        monthlyPayment: c.monthly_payment !== null ? Number(c.monthly_payment) : null,
+        expirationDate: c.expiration_date ? new Date(c.expiration_date).toISOString().substring(0, 10) : null,
+      })),
+      codebtors: codebtorRecords.map(c => ({
+        id: c.id,
+        debtId: c.debt_id,
+        name: c.name,
+        address: c.address,
+        relationship: c.relationship,
+      })),
       meansTest: {
         passes: !isAboveMedian,
         annualIncome,
@@ -156,8 +237,8 @@ export async function POST(
     // Map data to form structures
     const allFormsData = mapAllForms(formData);
 
-    // Generate PDFs
-    const generatedForms = generateAllForms(allFormsData);
+    // Fill official PDFs where templates are vendored, otherwise draw them
+    const generatedForms = await generateOfficialForms(allFormsData);
 
     // Convert blobs to base64 for response
     const formsWithBase64 = await Promise.all(
@@ -170,6 +251,8 @@ export async function POST(
           filename: form.filename,
           base64,
           size: form.blob.size,
+          source: form.source,
+          warnings: form.warnings,
         };
       })
     );
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { loadNonFilingSpouse, saveNonFilingSpouse } from '@/lib/bankruptcy/income';
+import type { NonFilingSpouse } from '@/lib/bankruptcy/case-financials';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Household Questions API
+ *
+ * The debtor's answers about their household, asked in the client portal:
+ *
+ * GET: Household size, filing type, and non-filing spouse facts
+ * PUT: Save { householdSize, nonFilingSpouse? }
+ */
+
+const MAX_HOUSEHOLD_SIZE = 20;
+
+function parseContribution(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const cases = await sql`
+        SELECT household_size, filing_type FROM bankruptcy_cases WHERE id = ${id}
+      `;
+      if (cases.length === 0) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        householdSize: cases[0].household_size,
+        filingType: cases[0].filing_type,
+        nonFilingSpouse: await loadNonFilingSpouse(sql, id),
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching household:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch household' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { questionnaire: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body: { householdSize?: unknown; nonFilingSpouse?: NonFilingSpouse } = await request.json();
+
+    const householdSize = Number(body.householdSize);
+    if (!Number.isInteger(householdSize) || householdSize < 1 || householdSize > MAX_HOUSEHOLD_SIZE) {
+      return NextResponse.json(
+        { error: `Household size must be a whole number from 1 to ${MAX_HOUSEHOLD_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const updated = await sql`
+        UPDATE bankruptcy_cases
+        SET household_size = ${householdSize}, updated_at = NOW()
+        WHERE id = ${id}
+        RETURNING filing_type
+      `;
+      if (updated.length === 0) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      let nonFilingSpouse = await loadNonFilingSpouse(sql, id);
+      if (body.nonFilingSpouse) {
+        nonFilingSpouse = {
+          householdContribution: parseContribution(body.nonFilingSpouse.householdContribution),
+          separateHousehold: Boolean(body.nonFilingSpouse.separateHousehold),
+        };
+        await saveNonFilingSpouse(sql, id, nonFilingSpouse);
+      }
+
+      return NextResponse.json({
+        householdSize,
+        filingType: updated[0].filing_type,
+        nonFilingSpouse,
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error saving household:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save household' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { analyzeIncomeHistory, incomeHistorySuggestions, loadIncomeHistoryInput } from '@/lib/bankruptcy/tax-forms';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Prior-Year Income API
+ *
+ * GET: Tax returns and 1099s for the two years before filing, each
+ * return checked against the reconciled employers, with the SOFA
+ * question 4-5 entries they suggest
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { analysis: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const input = await loadIncomeHistoryInput(sql, id);
+      if (!input) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      const report = analyzeIncomeHistory(input);
+
+      return NextResponse.json({
+        report,
+        suggestions: incomeHistorySuggestions(report),
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error loading income history:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load income history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { calculateCMI, type IncomeRecord as CMIIncomeRecord } from '@/lib/bankruptcy/case-financials';
+import { loadNonFilingSpouse } from '@/lib/bankruptcy/income';
+import { loadSelfEmploymentReport, withSelfEmploymentIncome } from '@/lib/bankruptcy/self-employment';
+import { toEffectiveDate } from '@/lib/bankruptcy/standards';
+import { requireCaseAccess } from '@/lib/auth/require-session';
 
 /**
  * Income Records API
  *
  * Manages income records for 6-month CMI calculation per Form B 122A-2.
  * Income is tracked by calendar month (YYYY-MM) to calculate the average
- * monthly income received during the 6 months before filing.
+ * monthly income received during the 6 full calendar months before the
+ * filing month.
  */
 
 // Income source types per Form B 122A-2
@@ -20,6 +26,7 @@ type IncomeSource =
   | 'spouse'          // Line 8: Income from spouse (if not filing jointly)
   | 'alimony'         // Line 9: Alimony/maintenance received
   | 'contributions'   // Line 10: Regular contributions from others
+  | 'social_security' // Excluded from CMI by § 101(10A)(B)
   | 'other';          // Line 11: Other income
 
 interface IncomeRecord {
@@ -37,66 +44,21 @@ interface IncomeRecord {
   createdAt: string;
 }
 
-interface MonthlyIncomeSummary {
-  month: string;
-  totalGross: number;
-  totalNet: number | null;
-  sources: {
-    source: IncomeSource;
-    amount: number;
-  }[];
-}
-
-interface CMICalculation {
-  monthlyIncomes: MonthlyIncomeSummary[];
-  sixMonthTotal: number;
-  currentMonthlyIncome: number; // CMI = 6-month total / 6
-  monthsCovered: number;
-  isComplete: boolean; // True if all 6 months have income data
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-    const calculateCMI = request.nextUrl.searchParams.get('calculateCMI') === 'true';
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const includeCMI = request.nextUrl.searchParams.get('calculateCMI') === 'true';
+    // The CMI calculation is means test work; records alone are the debtor's own
+    const session = requireCaseAccess(request, id, includeCMI ? { analysis: ['read'] } : { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists with new schema
-      await sql`
-        CREATE TABLE IF NOT EXISTS income_records (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          document_id TEXT,
-          income_month TEXT NOT NULL,
-          employer TEXT,
-          gross_amount DECIMAL(10, 2) NOT NULL,
-          net_amount DECIMAL(10, 2),
-          income_source TEXT NOT NULL DEFAULT 'employment',
-          description TEXT,
-          confidence DECIMAL(3, 2),
-          extracted_at TIMESTAMP,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
-      // Create index on income_month if not exists
-      await sql`
-        CREATE INDEX IF NOT EXISTS income_records_month_idx ON income_records (income_month)
-      `;
-
       const records = await sql`
         SELECT
           id,
@@ -109,6 +71,7 @@ export async function GET(
           income_source as "incomeSource",
           description,
           confidence,
+          field_sources as "fieldSources",
           extracted_at as "extractedAt",
           created_at as "createdAt"
         FROM income_records
@@ -116,12 +79,30 @@ export async function GET(
         ORDER BY income_month DESC, created_at DESC
       `;
 
-      // If CMI calculation requested, compute 6-month average
-      if (calculateCMI) {
-        const cmiResult = calculateCurrentMonthlyIncome(records as unknown as IncomeRecord[]);
+      // If CMI calculation requested, compute the look-back average
+      if (includeCMI) {
+        const caseResult = await sql`
+          SELECT filing_type, filing_date FROM bankruptcy_cases WHERE id = ${id}
+        `;
+        const caseData = caseResult[0];
+        const cmiRecords: CMIIncomeRecord[] = (records as unknown as IncomeRecord[]).map(r => ({
+          income_month: r.incomeMonth,
+          income_source: r.incomeSource,
+          gross_amount: r.grossAmount,
+          document_id: r.documentId,
+          description: r.description,
+        }));
+
+        const filingDate = caseData?.filing_date ? toEffectiveDate(caseData.filing_date) : null;
+        const selfEmployment = await loadSelfEmploymentReport(sql, id, filingDate);
+
         return NextResponse.json({
           incomeRecords: records,
-          cmi: cmiResult,
+          cmi: calculateCMI(withSelfEmploymentIncome(cmiRecords, selfEmployment), {
+            filingDate,
+            jointFiling: caseData?.filing_type === 'joint',
+            nonFilingSpouse: await loadNonFilingSpouse(sql, id),
+          }),
         });
       }
 
@@ -144,16 +125,11 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
     // Validate required fields
     if (!body.incomeMonth) {
       return NextResponse.json(
@@ -172,24 +148,6 @@ export async function POST(
     const sql = postgres(connectionString);
 
     try {
-      // Ensure table exists with new schema
-      await sql`
-        CREATE TABLE IF NOT EXISTS income_records (
-          id TEXT PRIMARY KEY,
-          case_id TEXT NOT NULL,
-          document_id TEXT,
-          income_month TEXT NOT NULL,
-          employer TEXT,
-          gross_amount DECIMAL(10, 2) NOT NULL,
-          net_amount DECIMAL(10, 2),
-          income_source TEXT NOT NULL DEFAULT 'employment',
-          description TEXT,
-          confidence DECIMAL(3, 2),
-          extracted_at TIMESTAMP,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       // Generate ID
       const recordId = `inc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
@@ -238,69 +196,3 @@ export async function POST(
     );
   }
 }
-
-/**
- * Calculate Current Monthly Income (CMI) per Form B 122A-2
- *
- * CMI = Total income received during 6 full calendar months before filing / 6
- *
- * Per 11 U.S.C. § 101(10A), this includes all income from any source
- * received during the 6-month period, divided by 6.
- */
-function calculateCurrentMonthlyIncome(records: IncomeRecord[]): CMICalculation {
-  // Get the 6 most recent months from the data
-  const monthlyTotals = new Map<string, MonthlyIncomeSummary>();
-
-  for (const record of records) {
-    const month = record.incomeMonth;
-    if (!monthlyTotals.has(month)) {
-      monthlyTotals.set(month, {
-        month,
-        totalGross: 0,
-        totalNet: 0,
-        sources: [],
-      });
-    }
-
-    const summary = monthlyTotals.get(month)!;
-    const grossAmount = Number(record.grossAmount) || 0;
-    const netAmount = record.netAmount ? Number(record.netAmount) : null;
-
-    summary.totalGross += grossAmount;
-    if (netAmount !== null) {
-      summary.totalNet = (summary.totalNet || 0) + netAmount;
-    }
-
-    // Track income by source
-    const existingSource = summary.sources.find(s => s.source === record.incomeSource);
-    if (existingSource) {
-      existingSource.amount += grossAmount;
-    } else {
-      summary.sources.push({
-        source: record.incomeSource as IncomeSource,
-        amount: grossAmount,
-      });
-    }
-  }
-
-  // Sort months descending and take the 6 most recent
-  const sortedMonths = Array.from(monthlyTotals.values())
-    .sort((a, b) => b.month.localeCompare(a.month))
-    .slice(0, 6);
-
-  // Calculate totals
-  const sixMonthTotal = sortedMonths.reduce((sum, m) => sum + m.totalGross, 0);
-  const monthsCovered = sortedMonths.length;
-
-  // CMI is always divided by 6, even if fewer months have data
-  // This is per Form B 122A-2 instructions
-  const currentMonthlyIncome = sixMonthTotal / 6;
-
-  return {
-    monthlyIncomes: sortedMonths,
-    sixMonthTotal,
-    currentMonthlyIncome: Math.round(currentMonthlyIncome * 100) / 100,
-    monthsCovered,
-    isComplete: monthsCovered >= 6,
-  };
-}
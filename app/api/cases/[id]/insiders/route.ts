@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { loadInsiders } from '@/lib/bankruptcy/preferences';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Insiders API
+ *
+ * Relatives, partners, and others who count as insiders for the SOFA
+ * look-back. Codebtors whose relationship makes them insiders are
+ * included in the list but managed on Schedule H.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const insiders = await loadInsiders(sql, id);
+      return NextResponse.json({ insiders });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching insiders:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch insiders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const relationship = typeof body.relationship === 'string' ? body.relationship.trim() : '';
+    if (!name || !relationship) {
+      return NextResponse.json(
+        { error: 'Insider name and relationship are required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const insiderId = `insider_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      await sql`
+        INSERT INTO case_insiders (id, case_id, name, relationship, created_at)
+        VALUES (${insiderId}, ${id}, ${name}, ${relationship}, NOW())
+      `;
+
+      return NextResponse.json({
+        insider: { id: insiderId, name, relationship, source: 'insider_list', debtId: null },
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error creating insider:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create insider' },
+      { status: 500 }
+    );
+  }
+}
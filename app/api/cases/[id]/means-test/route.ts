@@ -3,32 +3,35 @@ import postgres from 'postgres';
 import {
   calculateMeansTest,
   calculateIRSAllowances,
-  getStateMedianIncome,
   type MeansTestResult,
   type MeansTestAllowances,
 } from '@/lib/bankruptcy/chapter7';
+import { ensureStandardsLoaded, getStandardsRelease, toEffectiveDate } from '@/lib/bankruptcy/standards';
+import {
+  calculateCMI,
+  buildMeansTestDeductions,
+  type CMIDetails,
+  type IncomeRecord,
+  type ExpenseRecord,
+  type DebtRecord,
+  type NonFilingSpouse,
+} from '@/lib/bankruptcy/case-financials';
+import { loadNonFilingSpouse, saveNonFilingSpouse } from '@/lib/bankruptcy/income';
+import { loadSelfEmploymentReport, withSelfEmploymentIncome } from '@/lib/bankruptcy/self-employment';
+import { requireCaseAccess } from '@/lib/auth/require-session';
 
 /**
  * Means Test API
  *
  * Calculates Chapter 7 eligibility per Form B 122A-2.
- * Uses 6-month average Current Monthly Income (CMI) per 11 U.S.C. § 101(10A).
+ * Uses 6-month average Current Monthly Income (CMI) per 11 U.S.C. § 101(10A),
+ * taken from the six full calendar months before the filing month.
+ * Median income and IRS standards come from the release in effect on the
+ * filing date (today if the case has not been filed). POST records the
+ * result and its standards version in means_test_results, and accepts the
+ * non-filing spouse's household contribution for the marital adjustment.
  */
 
-interface MonthlyIncomeSummary {
-  month: string;
-  totalGross: number;
-  sources: { source: string; amount: number }[];
-}
-
-interface CMIDetails {
-  monthlyBreakdown: MonthlyIncomeSummary[];
-  sixMonthTotal: number;
-  currentMonthlyIncome: number; // CMI = 6-month total / 6
-  monthsCovered: number;
-  isComplete: boolean;
-}
-
 interface MeansTestResponse {
   caseId: string;
   calculatedAt: string;
@@ -42,72 +45,20 @@ interface MeansTestResponse {
     totalSecuredDebt: number;
     hasVehicle: boolean;
     vehicleCount: number;
+    filingDate: string | null;
+    jointFiling: boolean;
+    nonFilingSpouse: NonFilingSpouse | null;
   };
+  standardsVersion: string;
   cmiDetails: CMIDetails; // Detailed 6-month income breakdown
   irsAllowances: MeansTestAllowances;
   result: MeansTestResult;
 }
 
-interface IncomeRecord {
-  income_month: string;
-  income_source: string;
-  gross_amount: number | string;
-}
-
-/**
- * Calculate Current Monthly Income (CMI) from income records
- * Per Form B 122A-2: CMI = Total income for 6 months / 6
- */
-function calculateCMI(incomeRecords: IncomeRecord[]): CMIDetails {
-  const monthlyTotals = new Map<string, MonthlyIncomeSummary>();
-
-  for (const record of incomeRecords) {
-    const month = record.income_month;
-    if (!month) continue;
-
-    if (!monthlyTotals.has(month)) {
-      monthlyTotals.set(month, {
-        month,
-        totalGross: 0,
-        sources: [],
-      });
-    }
-
-    const summary = monthlyTotals.get(month)!;
-    const grossAmount = Number(record.gross_amount) || 0;
-
-    summary.totalGross += grossAmount;
-
-    // Track by source
-    const existingSource = summary.sources.find(s => s.source === record.income_source);
-    if (existingSource) {
-      existingSource.amount += grossAmount;
-    } else {
-      summary.sources.push({
-        source: record.income_source || 'employment',
-        amount: grossAmount,
-      });
-    }
-  }
-
-  // Sort months descending and take the 6 most recent
-  const sortedMonths = Array.from(monthlyTotals.values())
-    .sort((a, b) => b.month.localeCompare(a.month))
-    .slice(0, 6);
-
-  const sixMonthTotal = sortedMonths.reduce((sum, m) => sum + m.totalGross, 0);
-  const monthsCovered = sortedMonths.length;
-
-  // CMI is always divided by 6 per Form B 122A-2
-  const currentMonthlyIncome = sixMonthTotal / 6;
-
-  return {
-    monthlyBreakdown: sortedMonths,
-    sixMonthTotal,
-    currentMonthlyIncome: Math.round(currentMonthlyIncome * 100) / 100,
-    monthsCovered,
-    isComplete: monthsCovered >= 6,
-  };
+function parseContribution(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
 }
 
 export async function GET(
@@ -115,11 +66,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: caseId } = await params;
-  const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-  if (!connectionString) {
-    return NextResponse.json({ error: 'Connection string is required' }, { status: 400 });
-  }
+  const session = requireCaseAccess(request, caseId, { analysis: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
 
   const sql = postgres(connectionString);
 
@@ -127,7 +76,7 @@ export async function GET(
     // Fetch case data including county for IRS Local Standards
     // Note: Financial totals are calculated from related tables, not stored on the case
     const caseResult = await sql`
-      SELECT id, client_name, case_type, status, household_size, state, county
+      SELECT id, client_name, case_type, filing_type, status, household_size, state, county, filing_date
       FROM bankruptcy_cases
       WHERE id = ${caseId}
     `;
@@ -141,7 +90,7 @@ export async function GET(
     // Fetch income records with new schema (income_month, gross_amount)
     // Get all records to calculate 6-month CMI
     const incomeRecords = await sql`
-      SELECT income_month, gross_amount, income_source
+      SELECT income_month, gross_amount, income_source, document_id, description
       FROM income_records
       WHERE case_id = ${caseId}
       ORDER BY income_month DESC
@@ -149,12 +98,14 @@ export async function GET(
 
     // Fetch expense records
     const expenseRecords = await sql`
-      SELECT monthly_amount FROM expenses WHERE case_id = ${caseId}
+      SELECT category, monthly_amount FROM expenses WHERE case_id = ${caseId}
     `;
 
     // Fetch debt records
     const debtRecords = await sql`
-      SELECT balance, secured, monthly_payment FROM debts WHERE case_id = ${caseId}
+      SELECT creditor_name, debt_type, balance, secured, priority, monthly_payment
+      FROM debts
+      WHERE case_id = ${caseId}
     `;
 
     // Fetch asset records (to check for vehicles)
@@ -162,8 +113,18 @@ export async function GET(
       SELECT asset_type FROM assets WHERE case_id = ${caseId}
     `;
 
-    // Calculate 6-month CMI per Form B 122A-2
-    const cmiDetails = calculateCMI(incomeRecords as unknown as IncomeRecord[]);
+    const nonFilingSpouse = await loadNonFilingSpouse(sql, caseId);
+
+    const filingDate = caseData.filing_date ? toEffectiveDate(caseData.filing_date) : null;
+    const jointFiling = caseData.filing_type === 'joint';
+
+    // Calculate 6-month CMI per Form B 122A-2, with business income net of expenses
+    const selfEmployment = await loadSelfEmploymentReport(sql, caseId, filingDate);
+    const cmiDetails = calculateCMI(withSelfEmploymentIncome(incomeRecords as unknown as IncomeRecord[], selfEmployment), {
+      filingDate,
+      jointFiling,
+      nonFilingSpouse,
+    });
     const currentMonthlyIncome = cmiDetails.currentMonthlyIncome;
 
     const monthlyExpenses = expenseRecords.reduce(
@@ -175,10 +136,19 @@ export async function GET(
       .filter(d => d.secured)
       .reduce((sum, d) => sum + Number(d.balance), 0);
 
+    // Nonpriority unsecured debt for Form B 122A-2 Line 41a
     const totalUnsecuredDebt = debtRecords
-      .filter(d => !d.secured)
+      .filter(d => !d.secured && !d.priority)
       .reduce((sum, d) => sum + Number(d.balance), 0);
 
+    const deductions = {
+      ...buildMeansTestDeductions(
+        expenseRecords as unknown as ExpenseRecord[],
+        debtRecords as unknown as DebtRecord[]
+      ),
+      maritalAdjustment: cmiDetails.maritalAdjustment,
+    };
+
     // Check for vehicles
     const vehicleCount = assetRecords.filter(a => a.asset_type === 'vehicle').length;
     const hasVehicle = vehicleCount > 0;
@@ -188,6 +158,9 @@ export async function GET(
     const county = caseData.county || null;
     const householdSize = caseData.household_size || 1;
 
+    await ensureStandardsLoaded();
+    const standards = getStandardsRelease(filingDate);
+
     // Calculate IRS allowances (uses county-level housing and regional transportation)
     const irsAllowances = calculateIRSAllowances(
       state,
@@ -195,7 +168,8 @@ export async function GET(
       county,
       hasVehicle,
       vehicleCount || 1,
-      40
+      40,
+      standards
     );
 
     // Calculate means test result using 6-month CMI
@@ -208,7 +182,9 @@ export async function GET(
       county,
       hasVehicle,
       vehicleCount || 1,
-      40
+      40,
+      deductions,
+      filingDate
     );
 
     const response: MeansTestResponse = {
@@ -224,7 +200,11 @@ export async function GET(
         totalSecuredDebt,
         hasVehicle,
         vehicleCount: vehicleCount || 0,
+        filingDate,
+        jointFiling,
+        nonFilingSpouse,
       },
+      standardsVersion: result.standardsVersion,
       cmiDetails, // Include full 6-month breakdown
       irsAllowances,
       result,
@@ -247,11 +227,10 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: caseId } = await params;
-  const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-  if (!connectionString) {
-    return NextResponse.json({ error: 'Connection string is required' }, { status: 400 });
-  }
+  const session = requireCaseAccess(request, caseId, { matter: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+  const body: { nonFilingSpouse?: NonFilingSpouse } = await request.json().catch(() => ({}));
 
   const sql = postgres(connectionString);
 
@@ -259,7 +238,7 @@ export async function POST(
     // Fetch case data including county for IRS Local Standards
     // Note: Financial totals are calculated from related tables, not stored on the case
     const caseResult = await sql`
-      SELECT id, client_name, case_type, status, household_size, state, county
+      SELECT id, client_name, case_type, filing_type, status, household_size, state, county, filing_date
       FROM bankruptcy_cases
       WHERE id = ${caseId}
     `;
@@ -272,7 +251,7 @@ export async function POST(
 
     // Fetch income records with new schema
     const incomeRecords = await sql`
-      SELECT income_month, gross_amount, income_source
+      SELECT income_month, gross_amount, income_source, document_id, description
       FROM income_records
       WHERE case_id = ${caseId}
       ORDER BY income_month DESC
@@ -280,12 +259,14 @@ export async function POST(
 
     // Fetch expense records
     const expenseRecords = await sql`
-      SELECT monthly_amount FROM expenses WHERE case_id = ${caseId}
+      SELECT category, monthly_amount FROM expenses WHERE case_id = ${caseId}
     `;
 
     // Fetch debt records
     const debtRecords = await sql`
-      SELECT balance, secured, monthly_payment FROM debts WHERE case_id = ${caseId}
+      SELECT creditor_name, debt_type, balance, secured, priority, monthly_payment
+      FROM debts
+      WHERE case_id = ${caseId}
     `;
 
     // Fetch asset records (to check for vehicles)
@@ -293,8 +274,26 @@ export async function POST(
       SELECT asset_type FROM assets WHERE case_id = ${caseId}
     `;
 
-    // Calculate 6-month CMI per Form B 122A-2
-    const cmiDetails = calculateCMI(incomeRecords as unknown as IncomeRecord[]);
+    // Save the non-filing spouse's household contribution when provided
+    let nonFilingSpouse = await loadNonFilingSpouse(sql, caseId);
+    if (body.nonFilingSpouse) {
+      nonFilingSpouse = {
+        householdContribution: parseContribution(body.nonFilingSpouse.householdContribution),
+        separateHousehold: Boolean(body.nonFilingSpouse.separateHousehold),
+      };
+      await saveNonFilingSpouse(sql, caseId, nonFilingSpouse);
+    }
+
+    const filingDate = caseData.filing_date ? toEffectiveDate(caseData.filing_date) : null;
+    const jointFiling = caseData.filing_type === 'joint';
+
+    // Calculate 6-month CMI per Form B 122A-2, with business income net of expenses
+    const selfEmployment = await loadSelfEmploymentReport(sql, caseId, filingDate);
+    const cmiDetails = calculateCMI(withSelfEmploymentIncome(incomeRecords as unknown as IncomeRecord[], selfEmployment), {
+      filingDate,
+      jointFiling,
+      nonFilingSpouse,
+    });
     const currentMonthlyIncome = cmiDetails.currentMonthlyIncome;
 
     const monthlyExpenses = expenseRecords.reduce(
@@ -306,10 +305,19 @@ export async function POST(
       .filter(d => d.secured)
       .reduce((sum, d) => sum + Number(d.balance), 0);
 
+    // Nonpriority unsecured debt for Form B 122A-2 Line 41a
     const totalUnsecuredDebt = debtRecords
-      .filter(d => !d.secured)
+      .filter(d => !d.secured && !d.priority)
       .reduce((sum, d) => sum + Number(d.balance), 0);
 
+    const deductions = {
+      ...buildMeansTestDeductions(
+        expenseRecords as unknown as ExpenseRecord[],
+        debtRecords as unknown as DebtRecord[]
+      ),
+      maritalAdjustment: cmiDetails.maritalAdjustment,
+    };
+
     // Check for vehicles
     const vehicleCount = assetRecords.filter(a => a.asset_type === 'vehicle').length;
     const hasVehicle = vehicleCount > 0;
@@ -319,6 +327,9 @@ export async function POST(
     const county = caseData.county || null;
     const householdSize = caseData.household_size || 1;
 
+    await ensureStandardsLoaded();
+    const standards = getStandardsRelease(filingDate);
+
     // Calculate IRS allowances
     const irsAllowances = calculateIRSAllowances(
       state,
@@ -326,7 +337,8 @@ export async function POST(
       county,
       hasVehicle,
       vehicleCount || 1,
-      40
+      40,
+      standards
     );
 
     // Calculate means test result using 6-month CMI
@@ -339,9 +351,43 @@ export async function POST(
       county,
       hasVehicle,
       vehicleCount || 1,
-      40
+      40,
+      deductions,
+      filingDate
     );
 
+    // Record the result with the standards release it was computed under
+    const resultId = `mtr_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    await sql`
+      INSERT INTO means_test_results (
+        id, case_id, current_monthly_income, annualized_income, state_median_income,
+        below_median, disposable_income, passed, eligible, explanation, standards_version
+      ) VALUES (
+        ${resultId},
+        ${caseId},
+        ${currentMonthlyIncome},
+        ${result.annualIncome},
+        ${result.medianIncome},
+        ${!result.isAboveMedian},
+        ${result.monthlyDisposableIncome ?? null},
+        ${result.passes},
+        ${result.passes},
+        ${result.reason},
+        ${result.standardsVersion}
+      )
+      ON CONFLICT (case_id) DO UPDATE SET
+        current_monthly_income = EXCLUDED.current_monthly_income,
+        annualized_income = EXCLUDED.annualized_income,
+        state_median_income = EXCLUDED.state_median_income,
+        below_median = EXCLUDED.below_median,
+        disposable_income = EXCLUDED.disposable_income,
+        passed = EXCLUDED.passed,
+        eligible = EXCLUDED.eligible,
+        explanation = EXCLUDED.explanation,
+        standards_version = EXCLUDED.standards_version,
+        calculated_at = NOW()
+    `;
+
     // Update case timestamp to reflect recalculation
     await sql`
       UPDATE bankruptcy_cases
@@ -362,7 +408,11 @@ export async function POST(
         totalSecuredDebt,
         hasVehicle,
         vehicleCount: vehicleCount || 0,
+        filingDate,
+        jointFiling,
+        nonFilingSpouse,
       },
+      standardsVersion: result.standardsVersion,
       cmiDetails,
       irsAllowances,
       result,
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+import { destroyPortalSessions } from '@/lib/auth/session';
+import { firmAccountsEnabled } from '@/lib/auth/organization';
+import { createPortalLink, getPortalLink, revokePortalLink } from '@/lib/auth/portal';
+
+/**
+ * Client Portal Link API
+ *
+ * GET: Whether the case has an active portal link and when it expires
+ * POST: Issue a new portal link for the debtor, replacing any earlier one
+ * DELETE: Revoke the link and sign the debtor out of the portal
+ *
+ * Portal links need a firm account; the link's token is returned only once.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+
+    if (!firmAccountsEnabled() || !session.member) {
+      return NextResponse.json({ enabled: false, link: null });
+    }
+
+    const link = await getPortalLink(session.member.organizationId, id);
+    return NextResponse.json({ enabled: true, link });
+  } catch (error) {
+    console.error('Error fetching portal link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch portal link' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    if (!firmAccountsEnabled() || !session.member) {
+      return NextResponse.json(
+        { error: 'Create a firm account before inviting clients to the portal' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const cases = await sql`SELECT id FROM bankruptcy_cases WHERE id = ${id}`;
+      if (cases.length === 0) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+    } finally {
+      await sql.end();
+    }
+
+    const { token, expiresAt } = await createPortalLink(session.member.organizationId, id);
+
+    return NextResponse.json(
+      {
+        portalUrl: new URL(`/portal/link/${token}`, request.nextUrl.origin).toString(),
+        expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating portal link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create portal link' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+
+    if (!firmAccountsEnabled() || !session.member) {
+      return NextResponse.json({ error: 'Portal link not found' }, { status: 404 });
+    }
+
+    await revokePortalLink(session.member.organizationId, id);
+    destroyPortalSessions(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking portal link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke portal link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { analyzePreferences, loadPreferenceInput, preferenceSofaSuggestions } from '@/lib/bankruptcy/preferences';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Preference Risk API
+ *
+ * GET: Payments to creditors in the 90 days before filing, payments to or
+ * for insiders in the year before filing, and transfers at or above the
+ * § 547(c)(9) amount, with the SOFA question 6-8 entries they suggest
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { analysis: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const input = await loadPreferenceInput(sql, id);
+      if (!input) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      const report = analyzePreferences(input);
+
+      return NextResponse.json({
+        report,
+        suggestions: preferenceSofaSuggestions(report),
+        insiders: input.insiders,
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error analyzing preference payments:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to analyze preference payments' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { getCaseAddressIssues, normalizeCaseAddressFields } from '@/lib/bankruptcy/address';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+import { loadFieldCipher } from '@/lib/db/field-encryption';
 
 export async function GET(
   request: NextRequest,
@@ -7,14 +10,9 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
@@ -27,6 +25,8 @@ export async function GET(
           client_email as "clientEmail",
           client_phone as "clientPhone",
           ssn_last4 as "ssnLast4",
+          ssn IS NOT NULL as "ssnOnFile",
+          date_of_birth as "dateOfBirth",
           address,
           city,
           state,
@@ -49,7 +49,14 @@ export async function GET(
         );
       }
 
-      return NextResponse.json({ case: cases[0] });
+      // The full SSN is only decrypted for the forms that need it
+      const cipher = await loadFieldCipher(sql);
+      const caseRecord = { ...cases[0], dateOfBirth: cipher.decrypt(cases[0].dateOfBirth) };
+
+      return NextResponse.json({
+        case: caseRecord,
+        addressIssues: getCaseAddressIssues(cases[0]),
+      });
     } finally {
       await sql.end();
     }
@@ -68,30 +75,45 @@ export async function PUT(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
 
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
+    const ssn = typeof body.ssn === 'string' && body.ssn.trim() ? body.ssn.replace(/\D/g, '') : null;
+    if (ssn !== null && ssn.length !== 9) {
+      return NextResponse.json({ error: 'SSN must be 9 digits' }, { status: 400 });
+    }
+    const dateOfBirth = typeof body.dateOfBirth === 'string' && body.dateOfBirth.trim() ? body.dateOfBirth.trim() : null;
+    if (dateOfBirth !== null && !/^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth)) {
+      return NextResponse.json({ error: 'Date of birth must be YYYY-MM-DD' }, { status: 400 });
     }
 
     const sql = postgres(connectionString);
 
     try {
+      const cipher = await loadFieldCipher(sql);
+      const address = normalizeCaseAddressFields({
+        address: body.address,
+        city: body.city,
+        state: body.state,
+        zip: body.zip,
+        county: body.county,
+      });
+
       // Convert undefined values to null (postgres.js doesn't accept undefined)
       const updates = {
         clientName: body.clientName ?? null,
         clientEmail: body.clientEmail ?? null,
         clientPhone: body.clientPhone ?? null,
-        ssnLast4: body.ssnLast4 ?? null,
-        address: body.address ?? null,
-        city: body.city ?? null,
-        state: body.state ?? null,
-        zip: body.zip ?? null,
-        county: body.county ?? null,
+        ssnLast4: body.ssnLast4 ?? ssn?.slice(-4) ?? null,
+        ssn: cipher.encrypt(ssn),
+        dateOfBirth: cipher.encrypt(dateOfBirth),
+        address: address.address ?? null,
+        city: address.city ?? null,
+        state: address.state ?? null,
+        zip: address.zip ?? null,
+        county: address.county ?? null,
         caseType: body.caseType ?? null,
         filingType: body.filingType ?? null,
         householdSize: body.householdSize ?? null,
@@ -106,6 +128,8 @@ export async function PUT(
           client_email = COALESCE(${updates.clientEmail}, client_email),
           client_phone = COALESCE(${updates.clientPhone}, client_phone),
           ssn_last4 = COALESCE(${updates.ssnLast4}, ssn_last4),
+          ssn = COALESCE(${updates.ssn}, ssn),
+          date_of_birth = COALESCE(${updates.dateOfBirth}, date_of_birth),
           address = COALESCE(${updates.address}, address),
           city = COALESCE(${updates.city}, city),
           state = COALESCE(${updates.state}, state),
@@ -123,6 +147,8 @@ export async function PUT(
           client_email as "clientEmail",
           client_phone as "clientPhone",
           ssn_last4 as "ssnLast4",
+          ssn IS NOT NULL as "ssnOnFile",
+          date_of_birth as "dateOfBirth",
           address,
           city,
           state,
@@ -143,7 +169,12 @@ export async function PUT(
         );
       }
 
-      return NextResponse.json({ case: result[0] });
+      const caseRecord = { ...result[0], dateOfBirth: cipher.decrypt(result[0].dateOfBirth) };
+
+      return NextResponse.json({
+        case: caseRecord,
+        addressIssues: getCaseAddressIssues(result[0]),
+      });
     } finally {
       await sql.end();
     }
@@ -162,14 +193,9 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
+    const session = requireCaseAccess(request, id, { matter: ['delete'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     const sql = postgres(connectionString);
 
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+) {
+  try {
+    const { id, entryId } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const result = await sql`
+        DELETE FROM self_employment_entries
+        WHERE id = ${entryId} AND case_id = ${id}
+        RETURNING id
+      `;
+
+      if (result.length === 0) {
+        return NextResponse.json(
+          { error: 'Ledger entry not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error deleting self-employment entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete ledger entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { loadTaxForms } from '@/lib/bankruptcy/tax-forms';
+import {
+  BUSINESS_EXPENSE_CATEGORIES,
+  analyzeSelfEmployment,
+  loadSelfEmploymentEntries,
+  saveSelfEmploymentMonth,
+  scheduleCImports,
+  type BusinessExpenseCategory,
+  type NewSelfEmploymentEntry,
+} from '@/lib/bankruptcy/self-employment';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Self-Employment Ledger API
+ *
+ * GET: The case's receipts and business expenses, netted over the CMI
+ * look-back, and the saved returns whose Schedule C can be imported
+ * POST: Save one business's gross receipts and expenses for a month
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { analysis: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const [caseRow] = await sql`
+        SELECT to_char(filing_date, 'YYYY-MM-DD') as "filingDate"
+        FROM bankruptcy_cases
+        WHERE id = ${id}
+      `;
+      if (!caseRow) {
+        return NextResponse.json(
+          { error: 'Case not found' },
+          { status: 404 }
+        );
+      }
+
+      const entries = await loadSelfEmploymentEntries(sql, id);
+
+      return NextResponse.json({
+        entries,
+        report: analyzeSelfEmployment(entries, caseRow.filingDate),
+        scheduleCImports: scheduleCImports(await loadTaxForms(sql, id)),
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error loading self-employment ledger:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load self-employment ledger' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const businessName = typeof body.businessName === 'string' ? body.businessName.trim() : '';
+    const entryMonth = typeof body.entryMonth === 'string' ? body.entryMonth : '';
+    const grossReceipts = parseFloat(body.grossReceipts);
+    if (!businessName || !/^\d{4}-\d{2}$/.test(entryMonth)) {
+      return NextResponse.json(
+        { error: 'businessName and entryMonth (format: YYYY-MM) are required' },
+        { status: 400 }
+      );
+    }
+    if (isNaN(grossReceipts) || grossReceipts < 0) {
+      return NextResponse.json(
+        { error: 'grossReceipts is required and must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const expenses: Array<{ category?: string; amount?: unknown; description?: string }> =
+      Array.isArray(body.expenses) ? body.expenses : [];
+    const entries: NewSelfEmploymentEntry[] = [{
+      businessName,
+      entryMonth,
+      entryType: 'receipts',
+      category: null,
+      amount: grossReceipts,
+      description: null,
+      taxFormId: null,
+    }];
+
+    for (const expense of expenses) {
+      const amount = parseFloat(String(expense.amount));
+      if (isNaN(amount) || amount <= 0) continue;
+
+      const category = expense.category && expense.category in BUSINESS_EXPENSE_CATEGORIES
+        ? expense.category as BusinessExpenseCategory
+        : 'other';
+      entries.push({
+        businessName,
+        entryMonth,
+        entryType: 'expense',
+        category,
+        amount,
+        description: expense.description?.trim() || null,
+        taxFormId: null,
+      });
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      await saveSelfEmploymentMonth(sql, id, businessName, entryMonth, entries);
+      return NextResponse.json({ success: true, entries: entries.length });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error saving self-employment month:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save self-employment month' },
+      { status: 500 }
+    );
+  }
+}
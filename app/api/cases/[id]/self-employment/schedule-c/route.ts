@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { importScheduleC } from '@/lib/bankruptcy/self-employment';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * POST: Spread a saved return's Schedule C receipts and expenses over the
+ * months of its tax year in the self-employment ledger
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const businessName = typeof body.businessName === 'string' ? body.businessName.trim() : '';
+    if (!body.taxFormId || !businessName) {
+      return NextResponse.json(
+        { error: 'taxFormId and businessName are required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const imported = await importScheduleC(sql, id, String(body.taxFormId), businessName);
+      if (!imported) {
+        return NextResponse.json(
+          { error: 'No Schedule C figures found on that return' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error importing Schedule C:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import Schedule C' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { getSofaSection, normalizeSofaEntry, rowToSofaEntry } from '@/lib/bankruptcy/sofa';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; section: string; entryId: string }> }
+) {
+  try {
+    const { id, section: sectionKey, entryId } = await params;
+    const session = requireCaseAccess(request, id, { questionnaire: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const section = getSofaSection(sectionKey);
+    if (!section) {
+      return NextResponse.json(
+        { error: `Unknown SOFA section: ${sectionKey}` },
+        { status: 404 }
+      );
+    }
+
+    const { values, errors } = normalizeSofaEntry(section, body, { partial: true });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    if (Object.keys(values).length === 0) {
+      return NextResponse.json(
+        { error: 'No fields to update' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const result = await sql`
+        UPDATE ${sql(section.table)}
+        SET ${sql(values)}
+        WHERE id = ${entryId} AND case_id = ${id}
+        RETURNING *
+      `;
+
+      if (result.length === 0) {
+        return NextResponse.json(
+          { error: 'Entry not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ entry: rowToSofaEntry(section, result[0]) });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error updating SOFA entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; section: string; entryId: string }> }
+) {
+  try {
+    const { id, section: sectionKey, entryId } = await params;
+    const session = requireCaseAccess(request, id, { questionnaire: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const section = getSofaSection(sectionKey);
+    if (!section) {
+      return NextResponse.json(
+        { error: `Unknown SOFA section: ${sectionKey}` },
+        { status: 404 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const result = await sql`
+        DELETE FROM ${sql(section.table)}
+        WHERE id = ${entryId} AND case_id = ${id}
+        RETURNING id
+      `;
+
+      if (result.length === 0) {
+        return NextResponse.json(
+          { error: 'Entry not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error deleting SOFA entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import {
+  getSofaSection,
+  loadSofaSectionEntries,
+  normalizeSofaEntry,
+  rowToSofaEntry,
+} from '@/lib/bankruptcy/sofa';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; section: string }> }
+) {
+  try {
+    const { id, section: sectionKey } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const section = getSofaSection(sectionKey);
+    if (!section) {
+      return NextResponse.json(
+        { error: `Unknown SOFA section: ${sectionKey}` },
+        { status: 404 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const entries = await loadSofaSectionEntries(sql, id, section);
+
+      return NextResponse.json({ section: section.key, entries });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching SOFA entries:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch entries' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; section: string }> }
+) {
+  try {
+    const { id, section: sectionKey } = await params;
+    const session = requireCaseAccess(request, id, { questionnaire: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const section = getSofaSection(sectionKey);
+    if (!section) {
+      return NextResponse.json(
+        { error: `Unknown SOFA section: ${sectionKey}` },
+        { status: 404 }
+      );
+    }
+
+    const { values, errors } = normalizeSofaEntry(section, body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      const record = {
+        id: `sofa_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        case_id: id,
+        ...values,
+      };
+
+      const result = await sql`
+        INSERT INTO ${sql(section.table)} ${sql(record)}
+        RETURNING *
+      `;
+
+      // Adding an entry answers the section's question "yes"
+      await sql`
+        INSERT INTO sofa_answers (case_id, section, answer, updated_at)
+        VALUES (${id}, ${section.key}, true, NOW())
+        ON CONFLICT (case_id, section)
+        DO UPDATE SET answer = true, updated_at = NOW()
+      `;
+
+      return NextResponse.json({ entry: rowToSofaEntry(section, result[0]) });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error creating SOFA entry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create entry' },
+      { status: 500 }
+    );
+  }
+}
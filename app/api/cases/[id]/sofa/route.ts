@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { SOFA_SECTIONS, getSofaSection, loadSofaData } from '@/lib/bankruptcy/sofa';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Statement of Financial Affairs API
+ *
+ * GET: All SOFA sections with their yes/no answers and entries
+ * PUT: Record the yes/no answer for a section ({ section, answer })
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const sofa = await loadSofaData(sql, id);
+
+      return NextResponse.json({
+        sections: SOFA_SECTIONS,
+        answers: sofa.answers,
+        entries: sofa.entries,
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching SOFA:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch statement of financial affairs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { questionnaire: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    if (!getSofaSection(body.section)) {
+      return NextResponse.json(
+        { error: `Unknown SOFA section: ${body.section}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.answer !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Answer must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const sql = postgres(connectionString);
+
+    try {
+      await sql`
+        INSERT INTO sofa_answers (case_id, section, answer, updated_at)
+        VALUES (${id}, ${body.section}, ${body.answer}, NOW())
+        ON CONFLICT (case_id, section)
+        DO UPDATE SET answer = EXCLUDED.answer, updated_at = NOW()
+      `;
+
+      return NextResponse.json({ section: body.section, answer: body.answer });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error saving SOFA answer:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { allowedCategory, loadTransaction, updateTransactionCategory } from '@/lib/transactions';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * PATCH: Recategorize a transaction ({ category }). The choice is kept
+ * when the statement is extracted again.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; transactionId: string }> }
+) {
+  try {
+    const { id, transactionId } = await params;
+    const session = requireCaseAccess(request, id, { matter: ['update'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+    const body = await request.json();
+
+    const sql = postgres(connectionString);
+
+    try {
+      const transaction = await loadTransaction(sql, id, transactionId);
+      if (!transaction) {
+        return NextResponse.json(
+          { error: 'Transaction not found' },
+          { status: 404 }
+        );
+      }
+
+      const category = typeof body.category === 'string' ? body.category : '';
+      if (!allowedCategory(category, transaction.amount)) {
+        return NextResponse.json(
+          { error: `Category "${category}" does not apply to a ${transaction.amount >= 0 ? 'deposit' : 'withdrawal'}` },
+          { status: 400 }
+        );
+      }
+
+      const updated = await updateTransactionCategory(sql, transaction, category);
+      return NextResponse.json({ transaction: updated });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error updating bank transaction:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update bank transaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { loadCaseTransactions, summarizeTransactions } from '@/lib/transactions';
+import { requireCaseAccess } from '@/lib/auth/require-session';
+
+/**
+ * Bank Transactions API
+ *
+ * GET: The case's statement ledger with recurring deposits, proposed
+ * Schedule J averages, and flagged transactions
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = requireCaseAccess(request, id, { analysis: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
+    const sql = postgres(connectionString);
+
+    try {
+      const transactions = await loadCaseTransactions(sql, id);
+
+      return NextResponse.json({
+        transactions,
+        summary: summarizeTransactions(transactions),
+      });
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error fetching bank transactions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch bank transactions' },
+      { status: 500 }
+    );
+  }
+}
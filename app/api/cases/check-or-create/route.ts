@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requirePermission } from '@/lib/auth/require-session';
 
 /**
  * Check if a case exists for a client, or create a new one
@@ -7,10 +8,13 @@ import postgres from 'postgres';
  */
 export async function POST(request: NextRequest) {
   try {
+    const session = requirePermission(request, { matter: ['create'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
-    const { connectionString, userId, firstName, lastName, phoneNumber } = body;
+    const { userId, firstName, lastName, phoneNumber } = body;
 
-    if (!connectionString || !userId || !firstName || !lastName) {
+    if (!userId || !firstName || !lastName) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -1,44 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { normalizeCaseAddressFields } from '@/lib/bankruptcy/address';
+import { requirePermission } from '@/lib/auth/require-session';
 
 export async function POST(request: NextRequest) {
   try {
+    const session = requirePermission(request, { matter: ['create'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
     const body = await request.json();
-    const { caseData, connectionString } = body;
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database connection string is required' },
-        { status: 400 }
-      );
-    }
+    const caseData = normalizeCaseAddressFields(body.caseData);
 
     // Connect to database
     const sql = postgres(connectionString);
 
     try {
-      // Create cases table if it doesn't exist
-      await sql`
-        CREATE TABLE IF NOT EXISTS bankruptcy_cases (
-          id TEXT PRIMARY KEY,
-          client_name TEXT NOT NULL,
-          client_email TEXT,
-          client_phone TEXT,
-          ssn_last4 TEXT,
-          address TEXT,
-          city TEXT,
-          state TEXT,
-          zip TEXT,
-          county TEXT,
-          case_type TEXT NOT NULL,
-          filing_type TEXT NOT NULL,
-          household_size INTEGER,
-          status TEXT NOT NULL,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       // Insert the case
       await sql`
         INSERT INTO bankruptcy_cases (
@@ -1,43 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { requirePermission } from '@/lib/auth/require-session';
 
 export async function GET(request: NextRequest) {
   try {
-    // Get connection string from query parameter
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-
-    if (!connectionString) {
-      // Return empty array if database not initialized yet
-      return NextResponse.json({ cases: [] });
-    }
+    const session = requirePermission(request, { matter: ['read'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
 
     // Connect to database
     const sql = postgres(connectionString);
 
     try {
-      // Create cases table if it doesn't exist
-      await sql`
-        CREATE TABLE IF NOT EXISTS bankruptcy_cases (
-          id TEXT PRIMARY KEY,
-          client_name TEXT NOT NULL,
-          client_email TEXT,
-          client_phone TEXT,
-          ssn_last4 TEXT,
-          address TEXT,
-          city TEXT,
-          state TEXT,
-          zip TEXT,
-          county TEXT,
-          case_type TEXT NOT NULL,
-          filing_type TEXT NOT NULL,
-          household_size INTEGER,
-          status TEXT NOT NULL,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
-      // Fetch all cases
+      // Fetch all cases; clients see only their own matter
       const cases = await sql`
         SELECT
           id,
@@ -57,6 +32,7 @@ export async function GET(request: NextRequest) {
           created_at as "createdAt",
           updated_at as "updatedAt"
         FROM bankruptcy_cases
+        ${session.role === 'client' ? sql`WHERE id = ${session.member?.caseId ?? ''}` : sql``}
         ORDER BY created_at DESC
       `;
 
@@ -1,19 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
-import { db } from "@/lib/db";
-import { bankruptcyCases } from "@/lib/db/schema";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { requirePermission } from "@/lib/auth/require-session";
+import { bankruptcyCases } from "@/lib/db/case-schema";
 import { eq, desc } from "drizzle-orm";
 
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const session = requirePermission(request, { matter: ["create"] });
+    if (session instanceof NextResponse) return session;
 
     // Parse request body
     const body = await request.json();
@@ -34,10 +29,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the case
-    const [newCase] = await db
+    const client = postgres(session.connectionString);
+    const [newCase] = await drizzle(client)
       .insert(bankruptcyCases)
       .values({
-        userId: session.user.id,
+        userId: session.member?.userId ?? null,
         clientName: body.clientName,
         clientEmail: body.clientEmail || null,
         clientPhone: body.clientPhone || null,
@@ -52,7 +48,8 @@ export async function POST(request: NextRequest) {
         householdSize: body.householdSize ? parseInt(body.householdSize) : null,
         status: "intake",
       })
-      .returning();
+      .returning()
+      .finally(() => client.end());
 
     return NextResponse.json({
       success: true,
@@ -70,21 +67,18 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
-
-    if (!session?.user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const session = requirePermission(request, { matter: ["read"] });
+    if (session instanceof NextResponse) return session;
 
-    // Get all cases for this user
-    const cases = await db
-      .select()
-      .from(bankruptcyCases)
-      .where(eq(bankruptcyCases.userId, session.user.id))
-      .orderBy(desc(bankruptcyCases.createdAt));
+    // Clients see only their own matter; firm staff see every case
+    const client = postgres(session.connectionString);
+    const query = drizzle(client).select().from(bankruptcyCases);
+    const cases = await (session.role === "client"
+      ? query.where(eq(bankruptcyCases.id, session.member?.caseId ?? ""))
+      : query
+    )
+      .orderBy(desc(bankruptcyCases.createdAt))
+      .finally(() => client.end());
 
     return NextResponse.json({
       success: true,
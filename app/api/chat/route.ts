@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import postgres from "postgres";
 import { CaseDevClient } from "@/lib/case-dev/client";
+import { requireSession } from "@/lib/auth/require-session";
+import { redactSensitive } from "@/lib/utils/redact";
 
 /**
  * Chat API for client intake and case questions
@@ -112,20 +114,15 @@ Available actions:
 
 export async function POST(request: NextRequest) {
   try {
-    const connectionString = request.nextUrl.searchParams.get("connectionString");
-    const apiKey = request.headers.get("x-api-key");
+    const session = requireSession(request);
+    if (session instanceof NextResponse) return session;
+    const { connectionString, apiKey } = session;
 
-    if (!connectionString) {
+    // The assistant's actions can read any case, so clients can't use it
+    if (session.role === 'client') {
       return NextResponse.json(
-        { error: "Database connection required" },
-        { status: 400 }
-      );
-    }
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "API key required" },
-        { status: 401 }
+        { error: 'Your role does not allow this' },
+        { status: 403 }
       );
     }
 
@@ -143,10 +140,10 @@ export async function POST(request: NextRequest) {
     const client = new CaseDevClient(apiKey);
 
     try {
-      // Build conversation with system prompt
+      // Build conversation with system prompt; the assistant only needs the SSN's last 4
       const conversationMessages: ChatMessage[] = [
         { role: "system", content: SYSTEM_PROMPT },
-        ...messages,
+        ...messages.map((message) => ({ ...message, content: redactSensitive(message.content) })),
       ];
 
       // If we have a verified client context, add it
@@ -309,27 +306,6 @@ async function executeAction(
 
       const id = `case_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
-      await sql`
-        CREATE TABLE IF NOT EXISTS bankruptcy_cases (
-          id TEXT PRIMARY KEY,
-          client_name TEXT NOT NULL,
-          client_email TEXT,
-          client_phone TEXT,
-          ssn_last4 TEXT,
-          address TEXT,
-          city TEXT,
-          state TEXT,
-          zip TEXT,
-          county TEXT,
-          case_type TEXT NOT NULL,
-          filing_type TEXT NOT NULL,
-          household_size INTEGER,
-          status TEXT NOT NULL,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
-        )
-      `;
-
       await sql`
         INSERT INTO bankruptcy_cases (
           id, client_name, ssn_last4, case_type, filing_type, status
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import { requireSession } from '@/lib/auth/require-session';
+import { getMigrationStatus } from '@/lib/db/migrate';
+
+/**
+ * Case Database Migrations API
+ *
+ * GET: Applied and pending schema migrations for the session's case database
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = requireSession(request);
+    if (session instanceof NextResponse) return session;
+
+    const sql = postgres(session.connectionString, { max: 1 });
+
+    try {
+      const status = await getMigrationStatus(sql);
+      return NextResponse.json(status);
+    } finally {
+      await sql.end();
+    }
+  } catch (error) {
+    console.error('Error reading migration status:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read migration status' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CaseDevClient } from '@/lib/case-dev/client';
-
+import { attachDatabase } from '@/lib/auth/session';
+import { requireSession } from '@/lib/auth/require-session';
+
+/**
+ * Find or create the signed-in user's case database, apply pending schema
+ * migrations, and attach it to the session. The connection string stays on
+ * the server.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { apiKey } = body;
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key is required' },
-        { status: 400 }
-      );
-    }
+    const session = requireSession(request, { database: false });
+    if (session instanceof NextResponse) return session;
 
-    const client = new CaseDevClient(apiKey);
+    const client = new CaseDevClient(session.apiKey);
 
     // First, check for existing bankruptcy-tool database
     console.log('Checking for existing bankruptcy-tool database...');
@@ -76,9 +76,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Brings the case tables up to date before any route uses them
+    await attachDatabase(session.id, { projectId, connectionString: connection.connectionUri });
+
     return NextResponse.json({
       projectId: projectId,
-      connectionString: connection.connectionUri,
       region: 'aws-us-east-1',
       isNewDatabase: isNewDatabase,
     });
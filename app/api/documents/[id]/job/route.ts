@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import postgres from "postgres";
+import {
+  enqueueDocumentProcessing,
+  getLatestJob,
+  kickInProcessWorker,
+  DOCUMENT_PROCESSING_JOB,
+} from "@/lib/jobs";
+import { canAccessCase, requirePermission } from "@/lib/auth/require-session";
+
+/**
+ * Document Processing Job API
+ *
+ * GET: Latest processing job for the document
+ * POST: Queue a re-run of OCR, validation, extraction, and reconciliation
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: documentId } = await params;
+  const session = requirePermission(request, { document: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const sql = postgres(connectionString);
+
+  try {
+    const docs = await sql`
+      SELECT case_id as "caseId" FROM case_documents WHERE id = ${documentId}
+    `;
+
+    if (docs.length === 0 || !canAccessCase(session, docs[0].caseId)) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const job = await getLatestJob(sql, DOCUMENT_PROCESSING_JOB, documentId);
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Error fetching document job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch document job" },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: documentId } = await params;
+  const session = requirePermission(request, { document: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString, apiKey } = session;
+
+  const sql = postgres(connectionString);
+
+  try {
+    const docs = await sql`
+      SELECT case_id as "caseId" FROM case_documents WHERE id = ${documentId}
+    `;
+
+    if (docs.length === 0) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const job = await enqueueDocumentProcessing(sql, {
+      documentId,
+      caseId: docs[0].caseId,
+      reprocess: true,
+      apiKey,
+    });
+    kickInProcessWorker(connectionString);
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing document job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to queue document job" },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import postgres from "postgres";
+import { getDocumentBatch } from "@/lib/documents";
+import { getLatestJob, DOCUMENT_BATCH_JOB } from "@/lib/jobs";
+import { canAccessCase, requirePermission } from "@/lib/auth/require-session";
+
+/**
+ * Batch Upload Status API
+ *
+ * GET: Batch status, its job, and the documents created so far
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: batchId } = await params;
+  const session = requirePermission(request, { document: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const sql = postgres(connectionString);
+
+  try {
+    const batch = await getDocumentBatch(sql, batchId);
+    if (!batch || !canAccessCase(session, batch.caseId)) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const job = await getLatestJob(sql, DOCUMENT_BATCH_JOB, batchId);
+    const documents = await sql`
+      SELECT
+        d.id,
+        d.file_name as "fileName",
+        d.document_type as "documentType",
+        d.classification
+      FROM case_documents d
+      WHERE d.id IN (
+        SELECT DISTINCT document_id FROM document_batch_pages
+        WHERE batch_id = ${batchId} AND document_id IS NOT NULL
+      )
+      ORDER BY d.id
+    `;
+
+    return NextResponse.json({ batch, job, documents });
+  } catch (error) {
+    console.error("Error fetching document batch:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch document batch" },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import postgres from "postgres";
+import { CaseDevClient } from "@/lib/case-dev/client";
+import {
+  countPdfPages,
+  createDocumentBatch,
+  expandUploads,
+  isPdfFile,
+  uploadCaseFile,
+  UploadLimitError,
+} from "@/lib/documents";
+import { enqueueDocumentBatch, kickInProcessWorker } from "@/lib/jobs";
+import { canAccessCase, requirePermission } from "@/lib/auth/require-session";
+
+/**
+ * Batch Document Upload API
+ *
+ * POST: Upload several files or ZIP archives at once. Each page is
+ * classified in the background and grouped into case documents.
+ */
+
+// Pages per batch; larger uploads should be split by the user
+const MAX_BATCH_PAGES = 200;
+
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, { document: ['create'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString, apiKey } = session;
+
+  const formData = await request.formData();
+  const caseId = formData.get("caseId") as string;
+  const uploads = formData.getAll("files").filter((entry): entry is File => entry instanceof File);
+
+  if (!caseId || uploads.length === 0) {
+    return NextResponse.json({ error: "Files and caseId are required" }, { status: 400 });
+  }
+
+  if (!canAccessCase(session, caseId)) {
+    return NextResponse.json({ error: "Case not found" }, { status: 404 });
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const caseResult = await sql`
+      SELECT id FROM bankruptcy_cases WHERE id = ${caseId}
+    `;
+
+    if (caseResult.length === 0) {
+      return NextResponse.json({ error: "Case not found" }, { status: 404 });
+    }
+
+    const { files, skipped } = await expandUploads(uploads);
+    const counted: Array<{ file: (typeof files)[number]; pageCount: number }> = [];
+
+    for (const file of files) {
+      if (!isPdfFile(file)) {
+        counted.push({ file, pageCount: 1 });
+        continue;
+      }
+      try {
+        counted.push({ file, pageCount: await countPdfPages(file.bytes) });
+      } catch {
+        // Unreadable PDF
+        skipped.push(file.name);
+      }
+    }
+
+    if (counted.length === 0) {
+      return NextResponse.json(
+        { error: "No PDF or image files found in the upload", skippedFiles: skipped },
+        { status: 400 }
+      );
+    }
+
+    const totalPages = counted.reduce((sum, entry) => sum + entry.pageCount, 0);
+    if (totalPages > MAX_BATCH_PAGES) {
+      return NextResponse.json(
+        { error: `Batch has ${totalPages} pages; upload at most ${MAX_BATCH_PAGES} pages at a time` },
+        { status: 413 }
+      );
+    }
+
+    const client = new CaseDevClient(apiKey);
+    const sources = [];
+
+    for (const { file, pageCount } of counted) {
+      // Multi-page files are read page by page after splitting
+      const vaultFileId = await uploadCaseFile(client, caseId, file, {
+        enableOCR: pageCount === 1,
+        metadata: { batchUpload: true },
+      });
+      sources.push({ fileName: file.name, contentType: file.contentType, vaultFileId, pageCount });
+    }
+
+    const batch = await createDocumentBatch(sql, { caseId, sources, skippedFiles: skipped });
+    const job = await enqueueDocumentBatch(sql, { batchId: batch.id, caseId, apiKey });
+    kickInProcessWorker(connectionString);
+
+    return NextResponse.json(
+      { success: true, batch, jobId: job.id, pageCount: totalPages },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof UploadLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    console.error("Error uploading document batch:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to upload document batch" },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -1,28 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import postgres from "postgres";
 import { CaseDevClient } from "@/lib/case-dev/client";
+import { enqueueDocumentProcessing, kickInProcessWorker } from "@/lib/jobs";
+import { canAccessCase, requirePermission } from "@/lib/auth/require-session";
 
 export async function POST(request: NextRequest) {
   try {
-    // Get connection string from query params
-    const connectionString = request.nextUrl.searchParams.get('connectionString');
-    
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database not initialized' },
-        { status: 400 }
-      );
-    }
-
-    // Get API key from header
-    const apiKey = request.headers.get('x-api-key');
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
+    const session = requirePermission(request, { document: ['create'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString, apiKey } = session;
 
     // Parse form data
     const formData = await request.formData();
@@ -37,6 +23,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Clients upload only to their own case
+    if (!canAccessCase(session, caseId)) {
+      return NextResponse.json(
+        { error: "Case not found" },
+        { status: 404 }
+      );
+    }
+
     const sql = postgres(connectionString);
 
     try {
@@ -74,51 +68,6 @@ export async function POST(request: NextRequest) {
       // Store both vaultId and objectId in format "vaultId:objectId" for download/delete operations
       const vaultFileId = `${uploadResult.vaultId}:${uploadResult.objectId}`;
 
-      // Ensure case_documents table exists
-      // Note: case_id is TEXT to match bankruptcy_cases.id which uses TEXT primary keys
-      try {
-        await sql`
-          CREATE TABLE IF NOT EXISTS case_documents (
-            id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
-            case_id TEXT NOT NULL REFERENCES bankruptcy_cases(id) ON DELETE CASCADE,
-            file_name TEXT NOT NULL,
-            file_type TEXT,
-            file_size INTEGER,
-            document_type TEXT,
-            validation_status TEXT DEFAULT 'pending',
-            extracted_data JSONB,
-            vault_file_id TEXT,
-            ocr_text TEXT,
-            ocr_completed BOOLEAN DEFAULT FALSE,
-            uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-          )
-        `;
-      } catch (tableError: any) {
-        // If table creation fails due to schema mismatch, try to drop and recreate
-        if (tableError.code === '42804' || tableError.message?.includes('incompatible types')) {
-          console.log('Dropping and recreating case_documents table due to schema mismatch...');
-          await sql`DROP TABLE IF EXISTS case_documents CASCADE`;
-          await sql`
-            CREATE TABLE case_documents (
-              id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
-              case_id TEXT NOT NULL REFERENCES bankruptcy_cases(id) ON DELETE CASCADE,
-              file_name TEXT NOT NULL,
-              file_type TEXT,
-              file_size INTEGER,
-              document_type TEXT,
-              validation_status TEXT DEFAULT 'pending',
-              extracted_data JSONB,
-              vault_file_id TEXT,
-              ocr_text TEXT,
-              ocr_completed BOOLEAN DEFAULT FALSE,
-              uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-            )
-          `;
-        } else {
-          throw tableError;
-        }
-      }
-
       // Store document record in database
       const result = await sql`
         INSERT INTO case_documents (
@@ -152,11 +101,20 @@ export async function POST(request: NextRequest) {
 
       const newDocument = result[0];
 
+      // Queue OCR and extraction; the worker picks it up from the job table
+      const job = await enqueueDocumentProcessing(sql, {
+        documentId: newDocument.id,
+        caseId,
+        apiKey,
+      });
+      kickInProcessWorker(connectionString);
+
       // Return immediately - client will use SSE to track processing status
       return NextResponse.json({
         success: true,
         documentId: newDocument.id,
         document: newDocument,
+        jobId: job.id,
         vaultId: uploadResult.vaultId,
         message: "Document uploaded. Subscribe to SSE for processing updates.",
       });
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  attachDatabase,
+  createSession,
+  destroySession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from '@/lib/auth/session';
+import { acceptInvitation, getPendingInvitation, MembershipError } from '@/lib/auth/organization';
+
+/**
+ * Invitation Acceptance API
+ *
+ * Doesn't require a session; the token in the invite link is the credential.
+ *
+ * GET: The firm, email, and role an invitation is for
+ * POST: Accept with a name and password, creating the account and signing in
+ */
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const invitation = await getPendingInvitation(token);
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'Invitation not found or expired' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      organizationName: invitation.organizationName,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error loading invitation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const { name, password } = await request.json();
+
+    const access = await acceptInvitation(token, { name: name ?? '', password: password ?? '' });
+
+    const previousSessionId = request.cookies.get(SESSION_COOKIE)?.value;
+    if (previousSessionId) destroySession(previousSessionId);
+
+    const session = createSession(access.apiKey, access.member);
+    if (access.database) await attachDatabase(session.id, access.database);
+
+    const response = NextResponse.json({ success: true, role: access.member.role }, { status: 201 });
+    response.cookies.set(SESSION_COOKIE, session.id, sessionCookieOptions(session.expiresAt));
+    return response;
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to accept invitation' },
+      { status: 500 }
+    );
+  }
+}
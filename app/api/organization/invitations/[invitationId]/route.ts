@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth/require-session';
+import { cancelInvitation, MembershipError } from '@/lib/auth/organization';
+
+/**
+ * DELETE: Cancel a pending invitation
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ invitationId: string }> }
+) {
+  const { invitationId } = await params;
+  const session = requirePermission(request, { invitation: ['cancel'] }, { database: false });
+  if (session instanceof NextResponse) return session;
+
+  if (!session.member) {
+    return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+  }
+
+  try {
+    await cancelInvitation(session.member.organizationId, invitationId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error canceling invitation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel invitation' },
+      { status: 500 }
+    );
+  }
+}
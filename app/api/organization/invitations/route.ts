@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth/require-session';
+import { createInvitation, MembershipError } from '@/lib/auth/organization';
+
+/**
+ * Firm Invitations API
+ *
+ * POST: Invite someone to the firm with a role; returns the link to send them.
+ * Client invitations name the case the client may see.
+ */
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, { invitation: ['create'] }, { database: false });
+  if (session instanceof NextResponse) return session;
+
+  if (!session.member?.userId) {
+    return NextResponse.json(
+      { error: 'Create a firm account before inviting members' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { email, role, caseId } = await request.json();
+
+    const invitation = await createInvitation({
+      organizationId: session.member.organizationId,
+      inviterId: session.member.userId,
+      email: email ?? '',
+      role: role ?? '',
+      caseId,
+    });
+
+    return NextResponse.json(
+      {
+        invitation,
+        inviteUrl: new URL(`/accept-invite/${invitation.id}`, request.nextUrl.origin).toString(),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating invitation:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create invitation' },
+      { status: 500 }
+    );
+  }
+}
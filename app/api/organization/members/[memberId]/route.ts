@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { destroyMemberSessions } from '@/lib/auth/session';
+import { requirePermission } from '@/lib/auth/require-session';
+import { MembershipError, removeMember } from '@/lib/auth/organization';
+
+/**
+ * DELETE: Remove a member from the firm and end their sessions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ memberId: string }> }
+) {
+  const { memberId } = await params;
+  const session = requirePermission(request, { member: ['delete'] }, { database: false });
+  if (session instanceof NextResponse) return session;
+
+  if (!session.member) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+
+  try {
+    const userId = await removeMember(session.member.organizationId, memberId);
+    destroyMemberSessions(userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error removing member:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { attachMember } from '@/lib/auth/session';
+import { requirePermission } from '@/lib/auth/require-session';
+import { createFirm, firmAccountsEnabled, getFirm, MembershipError } from '@/lib/auth/organization';
+
+/**
+ * Firm Account API
+ *
+ * GET: The caller's firm with its members and pending invitations
+ * POST: Create a firm owned by the signed-in case.dev key holder
+ */
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, { member: ['read'] }, { database: false });
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const firm = session.member ? await getFirm(session.member.organizationId) : null;
+
+    return NextResponse.json({
+      enabled: firmAccountsEnabled(),
+      firm,
+      role: session.role,
+      userId: session.member?.userId ?? null,
+    });
+  } catch (error) {
+    console.error('Error loading firm:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load firm' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, { organization: ['update'] });
+  if (session instanceof NextResponse) return session;
+
+  if (session.member) {
+    return NextResponse.json(
+      { error: 'You already belong to a firm' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const { firmName, ownerName, email, password } = await request.json();
+
+    const member = await createFirm({
+      firmName: firmName ?? '',
+      ownerName: ownerName ?? '',
+      email: email ?? '',
+      password: password ?? '',
+      apiKey: session.apiKey,
+      database: { projectId: session.projectId!, connectionString: session.connectionString },
+    });
+    attachMember(session.id, member);
+
+    return NextResponse.json({ firm: await getFirm(member.organizationId) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating firm:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create firm' },
+      { status: 500 }
+    );
+  }
+}
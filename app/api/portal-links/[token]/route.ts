@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  attachDatabase,
+  createSession,
+  destroySession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from '@/lib/auth/session';
+import { firmAccountsEnabled, MembershipError } from '@/lib/auth/organization';
+import { redeemPortalLink } from '@/lib/auth/portal';
+
+/**
+ * Client Portal Sign-In API
+ *
+ * Doesn't require a session; the token in the portal link is the credential.
+ *
+ * POST: Sign the debtor in to the portal for the link's case
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!firmAccountsEnabled()) {
+      return NextResponse.json(
+        { error: 'The client portal is not configured' },
+        { status: 400 }
+      );
+    }
+
+    const access = await redeemPortalLink(token);
+    if (!access || !access.database) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired. Ask your attorney for a new one.' },
+        { status: 404 }
+      );
+    }
+
+    const previousSessionId = request.cookies.get(SESSION_COOKIE)?.value;
+    if (previousSessionId) destroySession(previousSessionId);
+
+    const session = createSession(access.apiKey, access.member);
+    await attachDatabase(session.id, access.database);
+
+    const response = NextResponse.json({ success: true, caseId: access.member.caseId });
+    response.cookies.set(SESSION_COOKIE, session.id, sessionCookieOptions(session.expiresAt));
+    return response;
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error opening portal link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to open portal link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import postgres from 'postgres';
+import {
+  DEFAULT_RECONCILIATION_POLICY,
+  loadReconciliationPolicy,
+  parsePolicySettings,
+  policyChanges,
+  saveReconciliationPolicy,
+} from '@/lib/bankruptcy/income';
+import { requirePermission } from '@/lib/auth/require-session';
+
+/**
+ * Reconciliation Policy API
+ *
+ * GET: The firm's current income reconciliation policy and the defaults
+ * PUT: Save new settings as the next policy version; omitted settings keep their current values
+ */
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, { matter: ['read'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const sql = postgres(connectionString);
+
+  try {
+    const policy = await loadReconciliationPolicy(sql);
+    return NextResponse.json({ policy, defaults: DEFAULT_RECONCILIATION_POLICY });
+  } catch (error) {
+    console.error('Error loading reconciliation policy:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load reconciliation policy' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const session = requirePermission(request, { organization: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Policy settings are required' }, { status: 400 });
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const current = await loadReconciliationPolicy(sql);
+    const parsed = parsePolicySettings(body, current);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const updatedBy = typeof body.updatedBy === 'string' && body.updatedBy.trim() ? body.updatedBy.trim() : null;
+    const policy = await saveReconciliationPolicy(sql, parsed.settings, updatedBy);
+    return NextResponse.json({ policy, changes: policyChanges(current, policy) });
+  } catch (error) {
+    console.error('Error saving reconciliation policy:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save reconciliation policy' },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import postgres from "postgres";
+import {
+  DEFAULT_REVIEW_CONFIDENCE,
+  applyReviewDecision,
+  loadReviewQueue,
+  parseReviewDecisions,
+  type ReviewOutcome,
+} from "@/lib/review";
+import { describeSessionMember } from "@/lib/auth/organization";
+import { requirePermission } from "@/lib/auth/require-session";
+
+/**
+ * Review Inbox API
+ *
+ * GET: Open review items across all cases (?threshold=0.7 sets the confidence cut-off)
+ * POST: Apply a batch of accept/edit/reject decisions, attributed to the
+ *       signed-in member
+ */
+
+export async function GET(request: NextRequest) {
+  const session = requirePermission(request, { document: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+  const thresholdParam = request.nextUrl.searchParams.get("threshold");
+
+  const threshold = thresholdParam === null ? DEFAULT_REVIEW_CONFIDENCE : Number(thresholdParam);
+  if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+    return NextResponse.json({ error: "threshold must be between 0 and 1" }, { status: 400 });
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const items = await loadReviewQueue(sql, { confidenceThreshold: threshold });
+    return NextResponse.json({ items, threshold });
+  } catch (error) {
+    console.error("Error loading review queue:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load review queue" },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, { document: ['update'] });
+  if (session instanceof NextResponse) return session;
+  const { connectionString } = session;
+
+  const body = await request.json().catch(() => null);
+  const { decisions, errors } = parseReviewDecisions(body);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    const reviewer = await describeSessionMember(session.member);
+
+    // Each decision stands alone so one bad item does not block the batch
+    const results: ReviewOutcome[] = [];
+    for (const decision of decisions) {
+      try {
+        results.push(await applyReviewDecision(sql, decision, reviewer));
+      } catch (decisionError) {
+        console.error(`Error applying review decision for ${decision.itemId}:`, decisionError);
+        results.push({
+          itemId: decision.itemId,
+          action: decision.action,
+          ok: false,
+          error: decisionError instanceof Error ? decisionError.message : "Failed to apply decision",
+        });
+      }
+    }
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error applying review decisions:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to apply review decisions" },
+      { status: 500 }
+    );
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyEncryption } from '@/lib/case-dev/encryption';
+import {
+  attachDatabase,
+  createSession,
+  destroySession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from '@/lib/auth/session';
+import { requireSession } from '@/lib/auth/require-session';
+import { firmAccountsEnabled, MembershipError, signInMember } from '@/lib/auth/organization';
+
+/**
+ * Session API
+ *
+ * GET: Whether the caller is signed in, their firm role, and whether they have a database;
+ *      never returns the key or connection string
+ * POST: Sign in as a firm member with email and password
+ * DELETE: Sign out
+ */
+
+export async function GET(request: NextRequest) {
+  const session = requireSession(request, { database: false });
+  if (session instanceof NextResponse) return session;
+
+  return NextResponse.json({
+    authenticated: true,
+    apiKeyLast4: ApiKeyEncryption.getLast4(session.apiKey),
+    database: session.projectId ? { projectId: session.projectId } : null,
+    role: session.role,
+    member: session.member,
+    expiresAt: session.expiresAt.toISOString(),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!firmAccountsEnabled()) {
+      return NextResponse.json(
+        { error: 'Firm accounts are not configured; sign in with a case.dev API key' },
+        { status: 400 }
+      );
+    }
+
+    const access = await signInMember(email, password);
+    if (!access) {
+      return NextResponse.json(
+        { error: 'Incorrect email or password' },
+        { status: 401 }
+      );
+    }
+
+    // Replace any session this browser already had
+    const previousSessionId = request.cookies.get(SESSION_COOKIE)?.value;
+    if (previousSessionId) destroySession(previousSessionId);
+
+    const session = createSession(access.apiKey, access.member);
+    if (access.database) await attachDatabase(session.id, access.database);
+
+    const response = NextResponse.json({ success: true, role: access.member.role });
+    response.cookies.set(SESSION_COOKIE, session.id, sessionCookieOptions(session.expiresAt));
+    return response;
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.cookies.get(SESSION_COOKIE)?.value;
+  if (sessionId) destroySession(sessionId);
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
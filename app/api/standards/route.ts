@@ -0,0 +1,56 @@
+/**
+ * Means test standards releases
+ * GET lists the releases the means test can select from; POST re-scans
+ * data/standards after new USTP files are dropped in. The registry is
+ * shared by every firm on the server, so only owners may re-scan it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ensureStandardsLoaded,
+  getStandardsRelease,
+  listStandardsReleases,
+  loadStandardsDirectory,
+  type StandardsImport,
+} from '@/lib/bankruptcy/standards';
+import { requirePermission } from '@/lib/auth/require-session';
+
+function summarize(result: StandardsImport) {
+  return {
+    current: getStandardsRelease().version,
+    releases: listStandardsReleases().map(release => ({
+      version: release.version,
+      effectiveFrom: release.effectiveFrom,
+      effectiveTo: release.effectiveTo ?? null,
+      sources: release.sources,
+    })),
+    warnings: result.warnings,
+  };
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json(summarize(await ensureStandardsLoaded()));
+  } catch (error) {
+    console.error('Error loading standards:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load standards' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, { organization: ['update'] }, { database: false });
+  if (session instanceof NextResponse) return session;
+
+  try {
+    return NextResponse.json(summarize(await loadStandardsDirectory()));
+  } catch (error) {
+    console.error('Error importing standards:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import standards' },
+      { status: 500 }
+    );
+  }
+}
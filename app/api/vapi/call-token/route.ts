@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issueCallToken } from '@/lib/auth/session';
+import { requirePermission } from '@/lib/auth/require-session';
+
+/**
+ * Vapi Call Token API
+ *
+ * POST: A token for a web voice call's metadata. The webhook resolves it to
+ * the session's database, so the connection string never leaves the server.
+ */
+export async function POST(request: NextRequest) {
+  const session = requirePermission(request, { matter: ['create'] });
+  if (session instanceof NextResponse) return session;
+
+  return NextResponse.json({ callToken: issueCallToken(session.id) });
+}
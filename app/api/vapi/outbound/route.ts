@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
 import { validateUSPhoneNumber, formatToE164 } from '@/lib/utils/phone-validation';
+import { issueCallToken } from '@/lib/auth/session';
+import { requirePermission } from '@/lib/auth/require-session';
 
 /**
  * VAPI Outbound Call API
@@ -34,6 +36,10 @@ interface CaseData {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = requirePermission(request, { matter: ['create'] });
+    if (session instanceof NextResponse) return session;
+    const { connectionString } = session;
+
     const body: OutboundCallRequest = await request.json();
     const { caseId, phoneNumber, clientName } = body;
 
@@ -79,16 +85,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get database connection
-    const connectionString = request.nextUrl.searchParams.get('connectionString') || process.env.DATABASE_URL;
-
-    if (!connectionString) {
-      return NextResponse.json(
-        { error: 'Database connection not configured' },
-        { status: 500 }
-      );
-    }
-
     // Fetch existing case data
     const sql = postgres(connectionString);
     let caseData: CaseData;
@@ -186,7 +182,8 @@ export async function POST(request: NextRequest) {
           variableValues: variableValues,
           metadata: {
             caseId: caseId,
-            connectionString: connectionString,
+            // Resolved to the case database by the webhook
+            callToken: issueCallToken(session.id),
           },
         },
       }),
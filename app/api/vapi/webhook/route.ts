@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import postgres from 'postgres';
+import { getCaseAddressIssues, normalizeCaseAddressFields } from '@/lib/bankruptcy/address';
+import { resolveCallToken } from '@/lib/auth/session';
+import { redactSensitive } from '@/lib/utils/redact';
 
 /**
  * Vapi Webhook Handler
@@ -46,15 +49,12 @@ interface VapiRequest {
   };
 }
 
-// Get database connection from request metadata or environment
+// Get database connection from the call token in the request metadata, or the environment
 function getConnectionString(call?: VapiRequest['call']): string | null {
-  // Try assistantOverrides.metadata first (from Web SDK)
-  if (call?.assistantOverrides?.metadata?.connectionString) {
-    return call.assistantOverrides.metadata.connectionString as string;
-  }
-  // Try call.metadata (from API calls or alternate format)
-  if (call?.metadata?.connectionString) {
-    return call.metadata.connectionString as string;
+  // Try assistantOverrides.metadata first (from Web SDK), then call.metadata (from API calls)
+  const callToken = call?.assistantOverrides?.metadata?.callToken ?? call?.metadata?.callToken;
+  if (typeof callToken === 'string') {
+    return resolveCallToken(callToken);
   }
   // Fall back to environment variable
   return process.env.DATABASE_URL || null;
@@ -92,8 +92,8 @@ export async function POST(request: NextRequest) {
       hasCall: !!body.call,
       hasMetadata: !!body.call?.metadata,
       hasAssistantOverrides: !!body.call?.assistantOverrides,
-      metadata: body.call?.metadata, // Direct metadata
-      assistantOverridesMetadata: body.call?.assistantOverrides?.metadata, // Web SDK metadata
+      metadataKeys: Object.keys(body.call?.metadata ?? {}), // Direct metadata
+      assistantOverridesMetadataKeys: Object.keys(body.call?.assistantOverrides?.metadata ?? {}), // Web SDK metadata
     });
 
     // Handle both function-call and tool-calls message types
@@ -142,7 +142,7 @@ export async function POST(request: NextRequest) {
     });
 
     if (!connectionString) {
-      console.error('[VAPI Webhook] Missing connectionString in metadata', {
+      console.error('[VAPI Webhook] No database for call: missing or expired callToken in metadata', {
         hasCallObject: !!body.call,
         hasMetadata: !!body.call?.metadata,
         metadataKeys: body.call?.metadata ? Object.keys(body.call.metadata) : [],
@@ -191,7 +191,7 @@ export async function POST(request: NextRequest) {
           result = { success: false, error: `Unknown function: ${name}` };
       }
 
-      console.log('[VAPI Webhook] Function result:', { function: name, result });
+      console.log('[VAPI Webhook] Function result:', { function: name, result: redactSensitive(JSON.stringify(result)) });
       return NextResponse.json({ result: JSON.stringify(result) });
     } finally {
       await sql.end();
@@ -410,7 +410,7 @@ async function updateCaseIntake(
   sql: postgres.Sql,
   params: Record<string, unknown>,
   userId: string
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; addressWarnings?: string[] }> {
   const caseId = params.case_id as string;
 
   if (!caseId) {
@@ -446,6 +446,16 @@ async function updateCaseIntake(
   if (params.state) updates.state = params.state;
   if (params.zip) updates.zip = params.zip;
   if (params.county) updates.county = params.county;
+  Object.assign(updates, normalizeCaseAddressFields({
+    address: updates.address as string | undefined,
+    city: updates.city as string | undefined,
+    state: updates.state as string | undefined,
+    zip: updates.zip as string | undefined,
+    county: updates.county as string | undefined,
+  }));
+  for (const key of Object.keys(updates)) {
+    if (updates[key] === undefined) delete updates[key];
+  }
   if (params.household_size) updates.household_size = params.household_size;
   if (params.case_type) updates.case_type = params.case_type;
   if (params.filing_type) updates.filing_type = params.filing_type;
@@ -477,6 +487,24 @@ async function updateCaseIntake(
   `;
 
   const fieldsUpdated = Object.keys(updates).length;
+
+  // Read the address back so the assistant can confirm a county that doesn't match the ZIP
+  const [stored] = await sql`
+    SELECT address, city, state, zip, county FROM bankruptcy_cases
+    WHERE id = ${caseId} AND user_id = ${userId}
+  `;
+  const addressWarnings = getCaseAddressIssues(stored || {})
+    .filter(issue => issue.severity === 'warning' && (issue.field === 'county' || issue.field === 'state'))
+    .map(issue => issue.message);
+
+  if (addressWarnings.length > 0) {
+    return {
+      success: true,
+      addressWarnings,
+      message: `Updated ${fieldsUpdated} field(s) on your case. Please confirm the address with the client: ${addressWarnings.join('; ')}.`,
+    };
+  }
+
   return {
     success: true,
     message: `Updated ${fieldsUpdated} field(s) on your case. Is there anything else you'd like to add or update?`,
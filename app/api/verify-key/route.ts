@@ -1,10 +1,13 @@
 /**
- * Verify case.dev API Key and Provision Database
- * Simple endpoint that doesn't require authentication
+ * Verify case.dev API Key and Start a Session
+ * Simple endpoint that doesn't require authentication. A valid key starts a
+ * server-side session, as the firm owner, and sets the httpOnly session cookie.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { CaseDevClient } from '@/lib/case-dev/client';
+import { createSession, destroySession, SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session';
+import { findKeyMember } from '@/lib/auth/organization';
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,11 +34,6 @@ export async function POST(request: NextRequest) {
     try {
       // System health check - lightweight API call to verify the key
       await client.listComputeEnvironments();
-
-      return NextResponse.json({
-        success: true,
-        message: 'API key verified successfully',
-      });
     } catch (error: any) {
       const errorMessage = error.message || 'Unknown error';
 
@@ -72,10 +70,29 @@ export async function POST(request: NextRequest) {
         { status: 500 }
       );
     }
+
+    // Replace any session this browser already had
+    const previousSessionId = request.cookies.get(SESSION_COOKIE)?.value;
+    if (previousSessionId) destroySession(previousSessionId);
+
+    // The key holder owns the firm; link the session to its account if there is one
+    const member = await findKeyMember(apiKey).catch(error => {
+      console.error('[verify-key] Could not look up firm account:', error);
+      return null;
+    });
+
+    const session = createSession(apiKey, member);
+    const response = NextResponse.json({
+      success: true,
+      message: 'API key verified successfully',
+    });
+    response.cookies.set(SESSION_COOKIE, session.id, sessionCookieOptions(session.expiresAt));
+    return response;
   } catch (error: any) {
     console.error('[verify-key] Error:', error);
     return NextResponse.json(
-      { error: 'Failed to verify API key' },
+      // e.g. CASE_DEV_ENCRYPTION_KEY missing, so no session could be started
+      { error: error?.message || 'Failed to verify API key' },
       { status: 500 }
     );
   }
@@ -14,8 +14,6 @@ export interface DocumentStatus {
 
 interface UseDocumentStatusOptions {
   documentId: string;
-  connectionString: string | null;
-  apiKey: string | null;
   enabled?: boolean;
   onComplete?: (status: DocumentStatus) => void;
   onError?: (error: string) => void;
@@ -28,16 +26,12 @@ interface UseDocumentStatusOptions {
  * ```tsx
  * const { status, isConnected, retry } = useDocumentStatus({
  *   documentId: "abc-123",
- *   connectionString: localStorage.getItem("bankruptcy_db_connection"),
- *   apiKey: localStorage.getItem("casedev_api_key"),
  *   onComplete: (status) => console.log("Done!", status),
  * });
  * ```
  */
 export function useDocumentStatus({
   documentId,
-  connectionString,
-  apiKey,
   enabled = true,
   onComplete,
   onError,
@@ -52,7 +46,7 @@ export function useDocumentStatus({
   const completedRef = useRef(false);
 
   const connect = useCallback(() => {
-    if (!documentId || !connectionString || !enabled || completedRef.current) {
+    if (!documentId || !enabled || completedRef.current) {
       return;
     }
 
@@ -61,13 +55,8 @@ export function useDocumentStatus({
       eventSourceRef.current.close();
     }
 
-    const params = new URLSearchParams({
-      connectionString,
-      ...(apiKey && { apiKey }),
-    });
-
-    const url = `/api/documents/${documentId}/status?${params.toString()}`;
-    const eventSource = new EventSource(url);
+    // The session cookie identifies the database and API key
+    const eventSource = new EventSource(`/api/documents/${documentId}/status`);
     eventSourceRef.current = eventSource;
 
     eventSource.onopen = () => {
@@ -138,15 +127,15 @@ export function useDocumentStatus({
       eventSource.close();
       setIsConnected(false);
     };
-  }, [documentId, connectionString, apiKey, enabled, onComplete, onError]);
+  }, [documentId, enabled, onComplete, onError]);
 
   // Connect when enabled
   useEffect(() => {
-    if (enabled && documentId && connectionString) {
+    if (enabled && documentId) {
       const cleanup = connect();
       return cleanup;
     }
-  }, [enabled, documentId, connectionString, connect]);
+  }, [enabled, documentId, connect]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -182,32 +171,22 @@ export function useDocumentStatus({
  */
 export function useMultipleDocumentStatus({
   documentIds,
-  connectionString,
-  apiKey,
   enabled = true,
 }: {
   documentIds: string[];
-  connectionString: string | null;
-  apiKey: string | null;
   enabled?: boolean;
 }) {
   const [statuses, setStatuses] = useState<Record<string, DocumentStatus>>({});
 
   useEffect(() => {
-    if (!enabled || !connectionString || documentIds.length === 0) {
+    if (!enabled || documentIds.length === 0) {
       return;
     }
 
     const eventSources: EventSource[] = [];
 
     documentIds.forEach((documentId) => {
-      const params = new URLSearchParams({
-        connectionString,
-        ...(apiKey && { apiKey }),
-      });
-
-      const url = `/api/documents/${documentId}/status?${params.toString()}`;
-      const eventSource = new EventSource(url);
+      const eventSource = new EventSource(`/api/documents/${documentId}/status`);
       eventSources.push(eventSource);
 
       eventSource.addEventListener("status", (event) => {
@@ -249,7 +228,7 @@ export function useMultipleDocumentStatus({
     return () => {
       eventSources.forEach((es) => es.close());
     };
-  }, [documentIds.join(","), connectionString, apiKey, enabled]);
+  }, [documentIds.join(","), enabled]);
 
   const allComplete = documentIds.every(
     (id) => statuses[id]?.status === "completed" || statuses[id]?.status === "error"
@@ -2,21 +2,17 @@
 
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
 
 export default function Page() {
   const router = useRouter();
 
   useEffect(() => {
-    // Check if user has API key in localStorage
-    const apiKey = localStorage.getItem('casedev_api_key');
-
-    if (apiKey) {
-      // Already logged in - go to cases
-      router.push('/cases');
-    } else {
-      // Not logged in - go to login
-      router.push('/login');
-    }
+    // Check for a server-side session
+    SimpleAuth.isAuthenticated().then((authenticated) => {
+      // Signed in - go to cases; otherwise go to login
+      router.push(authenticated ? '/cases' : '/login');
+    });
   }, [router]);
 
   return (
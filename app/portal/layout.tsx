@@ -0,0 +1,14 @@
+/**
+ * Client Portal Layout
+ *
+ * Pages debtors open from a portal link. No dashboard navigation or chat
+ * widget; the portal shows only the debtor's own case.
+ */
+
+export default function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <div className="min-h-screen bg-background">{children}</div>;
+}
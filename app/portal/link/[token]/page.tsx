@@ -0,0 +1,61 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Scale, AlertCircle, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
+
+/**
+ * Portal Link Page
+ *
+ * Opened from the link the debtor's attorney sends. Exchanges the link's
+ * token for a portal session and continues to the portal.
+ */
+export default function PortalLinkPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/portal-links/${encodeURIComponent(token)}`, { method: 'POST' })
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'This link is invalid or has expired');
+        SimpleAuth.clearLegacyStorage();
+        router.replace('/portal');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'This link is invalid or has expired'));
+  }, [token, router]);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md space-y-8">
+        <div className="flex items-center justify-center gap-3">
+          <Scale className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl tracking-tight text-foreground">Client Portal</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{error ? 'Link Not Valid' : 'Signing you in...'}</CardTitle>
+            <CardDescription>
+              {error ? 'Ask your attorney to send you a new link.' : 'One moment while we open your case.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="ml-2">{error}</AlertDescription>
+              </Alert>
+            ) : (
+              <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Scale, FileText, Home, ClipboardList, PenLine, LogOut, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DocumentChecklist } from '@/components/portal/document-checklist';
+import { HouseholdQuestions } from '@/components/portal/household-questions';
+import { FinancialAffairsQuestions } from '@/components/portal/financial-affairs-questions';
+import { PetitionAcknowledgment } from '@/components/portal/petition-acknowledgment';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
+
+type PortalStep = 'documents' | 'household' | 'history' | 'sign';
+
+const STEPS: Array<{ key: PortalStep; label: string; icon: typeof FileText }> = [
+  { key: 'documents', label: 'Documents', icon: FileText },
+  { key: 'household', label: 'Household', icon: Home },
+  { key: 'history', label: 'Financial History', icon: ClipboardList },
+  { key: 'sign', label: 'Review & Sign', icon: PenLine },
+];
+
+/**
+ * Client Portal
+ *
+ * The debtor's view of their case: the document checklist and uploads,
+ * household and financial history questions, and the petition review
+ * they sign. Signed-in staff are sent back to the dashboard.
+ */
+export default function PortalPage() {
+  const router = useRouter();
+  const [caseId, setCaseId] = useState<string | null>(null);
+  const [clientName, setClientName] = useState('');
+  const [step, setStep] = useState<PortalStep>('documents');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const session = await SimpleAuth.getSession();
+        if (!session) return;
+        if (session.role !== 'client') {
+          router.replace('/cases');
+          return;
+        }
+
+        const id = session.member?.caseId ?? null;
+        setCaseId(id);
+        if (id) {
+          const response = await fetch(`/api/cases/${id}`);
+          if (response.ok) {
+            const data = await response.json();
+            setClientName(data.case?.clientName || '');
+          }
+        }
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    load();
+  }, [router]);
+
+  const handleSignOut = async () => {
+    await SimpleAuth.logout();
+    setCaseId(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!caseId) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Client Portal</CardTitle>
+            <CardDescription>
+              Open the link your attorney sent you to see your case. If your link has
+              expired, ask them for a new one.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center gap-3">
+          <Scale className="h-7 w-7 text-primary" />
+          <div>
+            <h1 className="text-2xl tracking-tight">Client Portal</h1>
+            {clientName && <p className="text-sm text-muted-foreground">{clientName}</p>}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSignOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-6">
+        {STEPS.map(({ key, label, icon: Icon }) => (
+          <button
+            key={key}
+            onClick={() => setStep(key)}
+            className={`flex items-center justify-center gap-2 rounded-lg border px-3 py-2 text-sm transition-colors ${
+              step === key ? 'border-primary bg-primary/10 text-primary font-medium' : 'hover:bg-muted'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {step === 'documents' && <DocumentChecklist caseId={caseId} />}
+      {step === 'household' && <HouseholdQuestions caseId={caseId} />}
+      {step === 'history' && <FinancialAffairsQuestions caseId={caseId} />}
+      {step === 'sign' && <PetitionAcknowledgment caseId={caseId} />}
+    </div>
+  );
+}
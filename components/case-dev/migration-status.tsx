@@ -0,0 +1,82 @@
+/**
+ * Case Database Migration Status
+ *
+ * Shows which schema migrations the user's case database has applied
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '../ui/badge';
+
+interface MigrationStatusResponse {
+  currentVersion: number | null;
+  latestVersion: number | null;
+  applied: Array<{ version: number; name: string; appliedAt: string }>;
+  pending: Array<{ version: number; name: string }>;
+  modified: number[];
+}
+
+export function MigrationStatus() {
+  const [status, setStatus] = useState<MigrationStatusResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/database/migrations')
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load migration status');
+        setStatus(data);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm">Database Schema</h3>
+        {status && (
+          status.pending.length === 0 ? (
+            <Badge variant="secondary">Up to date</Badge>
+          ) : (
+            <Badge variant="outline">{status.pending.length} pending</Badge>
+          )
+        )}
+      </div>
+
+      {loading && <p className="text-xs text-muted-foreground">Checking migrations...</p>}
+
+      {error && <p className="text-xs text-muted-foreground">{error}</p>}
+
+      {status && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Version {status.currentVersion ?? 'none'} of {status.latestVersion ?? 'none'}
+          </p>
+          {status.applied.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {status.applied.map(migration => (
+                <li key={migration.version} className="flex justify-between gap-2">
+                  <span className="font-mono">{migration.name}</span>
+                  <span className="text-muted-foreground">
+                    {status.modified.includes(migration.version)
+                      ? 'Changed since applied'
+                      : new Date(migration.appliedAt).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {status.pending.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Pending: {status.pending.map(m => m.name).join(', ')}. These are applied the next
+              time your database is connected.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle } from 'lucide-react';
+import { US_STATES, normalizeAddress } from '@/lib/bankruptcy/address/normalize';
+import type { Address, AddressIssue } from '@/lib/bankruptcy/address/types';
+
+export type AddressValue = Omit<Address, 'street2' | 'county'> & { street2: string; county: string };
+
+export const EMPTY_ADDRESS: AddressValue = {
+  street1: '',
+  street2: '',
+  city: '',
+  state: '',
+  zip: '',
+  county: '',
+};
+
+interface AddressFieldsProps {
+  value: AddressValue;
+  onChange: (value: AddressValue) => void;
+  /** Prefix for input ids when a form has more than one address */
+  idPrefix?: string;
+  showCounty?: boolean;
+  showStreet2?: boolean;
+  required?: boolean;
+  selectClassName?: string;
+}
+
+/**
+ * Structured address inputs. Normalizes on blur and, when the ZIP changes,
+ * validates against the ZIP dataset to fill in the county and flag a county
+ * or state that doesn't match.
+ */
+export function AddressFields({
+  value,
+  onChange,
+  idPrefix = '',
+  showCounty = false,
+  showStreet2 = false,
+  required = false,
+  selectClassName = 'flex h-11 w-full rounded-xl border border-input bg-background px-4 py-2.5 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+}: AddressFieldsProps) {
+  const [issues, setIssues] = useState<AddressIssue[]>([]);
+
+  const update = (field: keyof AddressValue, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const normalizeField = (field: 'street1' | 'street2' | 'city') => {
+    if (!value[field]) return;
+    const { address } = normalizeAddress({ ...value, [field]: value[field] });
+    if (address[field] !== value[field]) {
+      update(field, address[field] || '');
+    }
+  };
+
+  const validate = async (next: AddressValue) => {
+    if (!next.zip) {
+      setIssues([]);
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/address/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: next, requireCounty: showCounty }),
+      });
+      if (!response.ok) return;
+
+      const result: { address: Address; issues: AddressIssue[] } = await response.json();
+      // Only surface issues for fields the user has filled in so far
+      setIssues(result.issues.filter(issue => issue.severity === 'warning' || next[issue.field]));
+
+      onChange({
+        ...next,
+        zip: result.address.zip,
+        state: next.state || result.address.state,
+        county: showCounty ? next.county || result.address.county || '' : next.county,
+      });
+    } catch (err) {
+      console.error('Error validating address:', err);
+    }
+  };
+
+  const id = (field: string) => `${idPrefix}${field}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={id('street1')}>
+          Street Address {required && <span className="text-destructive">*</span>}
+        </Label>
+        <Input
+          id={id('street1')}
+          value={value.street1}
+          onChange={(e) => update('street1', e.target.value)}
+          onBlur={() => normalizeField('street1')}
+          placeholder="123 Main St"
+          required={required}
+        />
+      </div>
+
+      {showStreet2 && (
+        <div className="space-y-2">
+          <Label htmlFor={id('street2')}>Address Line 2</Label>
+          <Input
+            id={id('street2')}
+            value={value.street2}
+            onChange={(e) => update('street2', e.target.value)}
+            onBlur={() => normalizeField('street2')}
+            placeholder="Suite, PO Box, or attention line"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={id('city')}>
+            City {required && <span className="text-destructive">*</span>}
+          </Label>
+          <Input
+            id={id('city')}
+            value={value.city}
+            onChange={(e) => update('city', e.target.value)}
+            onBlur={() => normalizeField('city')}
+            placeholder="New York"
+            required={required}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={id('state')}>
+            State {required && <span className="text-destructive">*</span>}
+          </Label>
+          <select
+            id={id('state')}
+            value={value.state}
+            onChange={(e) => {
+              const next = { ...value, state: e.target.value };
+              onChange(next);
+              if (next.zip) validate(next);
+            }}
+            className={selectClassName}
+            required={required}
+          >
+            <option value="">Select State</option>
+            {US_STATES.map((state) => (
+              <option key={state} value={state}>
+                {state}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={id('zip')}>
+            ZIP Code {required && <span className="text-destructive">*</span>}
+          </Label>
+          <Input
+            id={id('zip')}
+            value={value.zip}
+            onChange={(e) => update('zip', e.target.value)}
+            onBlur={() => validate(value)}
+            placeholder="10001"
+            required={required}
+          />
+        </div>
+
+        {showCounty && (
+          <div className="space-y-2">
+            <Label htmlFor={id('county')}>
+              County {required && <span className="text-destructive">*</span>}
+            </Label>
+            <Input
+              id={id('county')}
+              value={value.county}
+              onChange={(e) => update('county', e.target.value)}
+              onBlur={() => validate(value)}
+              placeholder="Filled in from ZIP"
+              required={required}
+            />
+          </div>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map((issue, i) => (
+            <li
+              key={i}
+              className={`flex items-start gap-2 text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+            >
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
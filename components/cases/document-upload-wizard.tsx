@@ -19,6 +19,7 @@ import {
   CHAPTER_7_REQUIRED_DOCUMENTS,
   RequiredDocument,
 } from "@/lib/bankruptcy/required-documents";
+import { SimpleAuth } from "@/lib/auth/simple-auth";
 
 interface DocumentUploadWizardProps {
   caseId: string;
@@ -50,8 +51,7 @@ export function DocumentUploadWizard({
   const [currentStep, setCurrentStep] = useState(0);
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
-  const [connectionString, setConnectionString] = useState<string | null>(null);
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
   const [configError, setConfigError] = useState<string | null>(null);
   const [uploadedDocTypes, setUploadedDocTypes] = useState<Set<string>>(new Set());
   const eventSourcesRef = useRef<Map<number, EventSource>>(new Map());
@@ -82,20 +82,18 @@ export function DocumentUploadWizard({
   const isLastStep = currentStep === allDocs.length - 1;
   const totalSteps = allDocs.length;
 
-  // Load connection string and API key from localStorage on mount
+  // Check the session on mount; it carries the database and API key
   useEffect(() => {
-    const storedConnectionString = localStorage.getItem("bankruptcy_db_connection");
-    const storedApiKey = localStorage.getItem("casedev_api_key");
-
-    if (!storedConnectionString) {
-      setConfigError("Database not initialized. Please go back to the dashboard.");
-    } else if (!storedApiKey) {
-      setConfigError("API key not found. Please log in again.");
-    } else {
-      setConnectionString(storedConnectionString);
-      setApiKey(storedApiKey);
-      setConfigError(null);
-    }
+    SimpleAuth.getSession().then((session) => {
+      if (!session) {
+        setConfigError("Not signed in. Please log in again.");
+      } else if (!session.database) {
+        setConfigError("Database not initialized. Please go back to the dashboard.");
+      } else {
+        setReady(true);
+        setConfigError(null);
+      }
+    });
   }, []);
 
   // Cleanup SSE connections on unmount
@@ -109,15 +107,9 @@ export function DocumentUploadWizard({
   // Subscribe to SSE for document processing status
   const subscribeToDocumentStatus = useCallback(
     (documentId: string, fileIndex: number) => {
-      if (!connectionString || !apiKey) return;
-
-      const params = new URLSearchParams({
-        connectionString,
-        apiKey,
-      });
+      if (!ready) return;
 
-      const url = `/api/documents/${documentId}/status?${params.toString()}`;
-      const eventSource = new EventSource(url);
+      const eventSource = new EventSource(`/api/documents/${documentId}/status`);
       eventSourcesRef.current.set(fileIndex, eventSource);
 
       eventSource.addEventListener("status", (event) => {
@@ -184,7 +176,7 @@ export function DocumentUploadWizard({
         eventSourcesRef.current.delete(fileIndex);
       };
     },
-    [connectionString, apiKey, currentDoc]
+    [ready, currentDoc]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -205,7 +197,7 @@ export function DocumentUploadWizard({
       const droppedFiles = Array.from(e.dataTransfer.files);
       handleFiles(droppedFiles);
     },
-    [currentDoc, connectionString, apiKey]
+    [currentDoc, ready]
   );
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -216,7 +208,7 @@ export function DocumentUploadWizard({
   };
 
   const handleFiles = async (selectedFiles: File[]) => {
-    if (!connectionString || !apiKey || !currentDoc) {
+    if (!ready || !currentDoc) {
       setConfigError("Missing configuration. Please refresh the page.");
       return;
     }
@@ -245,12 +237,9 @@ export function DocumentUploadWizard({
 
         // Upload file
         const response = await fetch(
-          `/api/documents/upload?connectionString=${encodeURIComponent(connectionString)}`,
+          `/api/documents/upload`,
           {
             method: "POST",
-            headers: {
-              "x-api-key": apiKey,
-            },
             body: formData,
           }
         );
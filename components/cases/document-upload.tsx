@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { Upload, FileText, X, Loader2, CheckCircle, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { SimpleAuth } from "@/lib/auth/simple-auth";
 
 interface DocumentUploadProps {
   caseId: string;
@@ -42,24 +43,21 @@ export function DocumentUpload({ caseId, onUploadComplete }: DocumentUploadProps
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [documentType, setDocumentType] = useState("paystub");
   const [isDragging, setIsDragging] = useState(false);
-  const [connectionString, setConnectionString] = useState<string | null>(null);
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
   const [configError, setConfigError] = useState<string | null>(null);
 
-  // Load connection string and API key from localStorage on mount
+  // Check the session on mount; it carries the database and API key
   useEffect(() => {
-    const storedConnectionString = localStorage.getItem('bankruptcy_db_connection');
-    const storedApiKey = localStorage.getItem('casedev_api_key');
-    
-    if (!storedConnectionString) {
-      setConfigError('Database not initialized. Please go back to the dashboard.');
-    } else if (!storedApiKey) {
-      setConfigError('API key not found. Please log in again.');
-    } else {
-      setConnectionString(storedConnectionString);
-      setApiKey(storedApiKey);
-      setConfigError(null);
-    }
+    SimpleAuth.getSession().then((session) => {
+      if (!session) {
+        setConfigError('Not signed in. Please log in again.');
+      } else if (!session.database) {
+        setConfigError('Database not initialized. Please go back to the dashboard.');
+      } else {
+        setReady(true);
+        setConfigError(null);
+      }
+    });
   }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -80,7 +78,7 @@ export function DocumentUpload({ caseId, onUploadComplete }: DocumentUploadProps
       const droppedFiles = Array.from(e.dataTransfer.files);
       handleFiles(droppedFiles);
     },
-    [documentType, connectionString, apiKey]
+    [documentType, ready]
   );
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -91,7 +89,7 @@ export function DocumentUpload({ caseId, onUploadComplete }: DocumentUploadProps
   };
 
   const handleFiles = async (selectedFiles: File[]) => {
-    if (!connectionString || !apiKey) {
+    if (!ready) {
       setConfigError('Missing configuration. Please refresh the page.');
       return;
     }
@@ -122,14 +120,11 @@ export function DocumentUpload({ caseId, onUploadComplete }: DocumentUploadProps
         formData.append("caseId", caseId);
         formData.append("documentType", documentType);
 
-        // Upload file with connectionString as query param and apiKey as header
+        // Upload file; the session cookie carries the database and API key
         const response = await fetch(
-          `/api/documents/upload?connectionString=${encodeURIComponent(connectionString)}`,
+          `/api/documents/upload`,
           {
             method: "POST",
-            headers: {
-              'x-api-key': apiKey,
-            },
             body: formData,
           }
         );
@@ -14,6 +14,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Loader2 } from 'lucide-react';
+import { AddressFields, EMPTY_ADDRESS, type AddressValue } from '@/components/cases/address-fields';
+import type { AddressIssue } from '@/lib/bankruptcy/address/types';
 
 interface CaseData {
   id: string;
@@ -39,17 +41,9 @@ interface EditClientModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   caseData: CaseData;
-  onSuccess: (updatedCase: CaseData) => void;
+  onSuccess: (updatedCase: CaseData, addressIssues?: AddressIssue[]) => void;
 }
 
-const US_STATES = [
-  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "FL", "GA",
-  "HI", "ID", "IL", "IN", "IA", "KS", "KY", "LA", "ME", "MD",
-  "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ",
-  "NM", "NY", "NC", "ND", "OH", "OK", "OR", "PA", "RI", "SC",
-  "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY"
-];
-
 export function EditClientModal({ open, onOpenChange, caseData, onSuccess }: EditClientModalProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -58,14 +52,10 @@ export function EditClientModal({ open, onOpenChange, caseData, onSuccess }: Edi
     clientEmail: '',
     clientPhone: '',
     ssnLast4: '',
-    address: '',
-    city: '',
-    state: '',
-    zip: '',
-    county: '',
     filingType: 'individual',
     householdSize: '1',
   });
+  const [address, setAddress] = useState<AddressValue>(EMPTY_ADDRESS);
 
   // Populate form when case data changes or modal opens
   useEffect(() => {
@@ -75,13 +65,16 @@ export function EditClientModal({ open, onOpenChange, caseData, onSuccess }: Edi
         clientEmail: caseData.clientEmail || '',
         clientPhone: caseData.clientPhone || '',
         ssnLast4: caseData.ssnLast4 || '',
-        address: caseData.address || '',
+        filingType: caseData.filingType || 'individual',
+        householdSize: String(caseData.householdSize || 1),
+      });
+      setAddress({
+        ...EMPTY_ADDRESS,
+        street1: caseData.address || '',
         city: caseData.city || '',
         state: caseData.state || '',
         zip: caseData.zip || '',
         county: caseData.county || '',
-        filingType: caseData.filingType || 'individual',
-        householdSize: String(caseData.householdSize || 1),
       });
       setError(null);
     }
@@ -92,22 +85,19 @@ export function EditClientModal({ open, onOpenChange, caseData, onSuccess }: Edi
     setLoading(true);
     setError(null);
 
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-
-    if (!connectionString) {
-      setError('Database connection not found. Please log in again.');
-      setLoading(false);
-      return;
-    }
-
     try {
       const response = await fetch(
-        `/api/cases/${caseData.id}?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${caseData.id}`,
         {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             ...formData,
+            address: address.street1,
+            city: address.city,
+            state: address.state,
+            zip: address.zip,
+            county: address.county,
             householdSize: parseInt(formData.householdSize, 10),
           }),
         }
@@ -119,7 +109,7 @@ export function EditClientModal({ open, onOpenChange, caseData, onSuccess }: Edi
       }
 
       const data = await response.json();
-      onSuccess(data.case);
+      onSuccess(data.case, data.addressIssues);
       onOpenChange(false);
     } catch (err: any) {
       setError(err.message);
@@ -221,66 +211,7 @@ export function EditClientModal({ open, onOpenChange, caseData, onSuccess }: Edi
           <div className="space-y-4">
             <h3 className="text-sm font-medium text-muted-foreground">Address</h3>
 
-            <div className="space-y-2">
-              <Label htmlFor="address">Street Address</Label>
-              <Input
-                id="address"
-                value={formData.address}
-                onChange={(e) => updateFormData('address', e.target.value)}
-                placeholder="123 Main St"
-              />
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="city">City</Label>
-                <Input
-                  id="city"
-                  value={formData.city}
-                  onChange={(e) => updateFormData('city', e.target.value)}
-                  placeholder="New York"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="state">State</Label>
-                <select
-                  id="state"
-                  value={formData.state}
-                  onChange={(e) => updateFormData('state', e.target.value)}
-                  className="flex h-11 w-full rounded-xl border border-input bg-background px-4 py-2.5 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                >
-                  <option value="">Select State</option>
-                  {US_STATES.map((state) => (
-                    <option key={state} value={state}>
-                      {state}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="zip">ZIP Code</Label>
-                <Input
-                  id="zip"
-                  value={formData.zip}
-                  onChange={(e) => updateFormData('zip', e.target.value)}
-                  placeholder="10001"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="county">County</Label>
-                <Input
-                  id="county"
-                  value={formData.county}
-                  onChange={(e) => updateFormData('county', e.target.value)}
-                  placeholder="New York"
-                />
-              </div>
-            </div>
+            <AddressFields value={address} onChange={setAddress} showCounty />
           </div>
 
           {/* Filing Type */}
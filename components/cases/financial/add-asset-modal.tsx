@@ -36,6 +36,7 @@ const ASSET_TYPES = [
   { value: 'household_goods', label: 'Household Goods' },
   { value: 'jewelry', label: 'Jewelry' },
   { value: 'collectibles', label: 'Collectibles' },
+  { value: 'tax_refund', label: 'Tax Refund' },
   { value: 'business', label: 'Business Interest' },
   { value: 'other', label: 'Other' },
 ];
@@ -73,17 +74,9 @@ export function AddAssetModal({ open, onOpenChange, caseId, onSuccess }: AddAsse
       return;
     }
 
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-
-    if (!connectionString) {
-      setError('Database connection not found. Please log in again.');
-      setLoading(false);
-      return;
-    }
-
     try {
       const response = await fetch(
-        `/api/cases/${caseId}/assets?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${caseId}/assets`,
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+interface AddCodebtorModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  caseId: string;
+  debts: Array<{ id: string; creditorName: string; balance: number }>;
+  onSuccess: () => void;
+}
+
+const EMPTY_FORM = {
+  debtId: '',
+  name: '',
+  address: '',
+  relationship: '',
+};
+
+export function AddCodebtorModal({ open, onOpenChange, caseId, debts, onSuccess }: AddCodebtorModalProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const getDebtLabel = (value: string) => {
+    const found = debts.find(d => d.id === value);
+    return found ? `${found.creditorName} ($${Number(found.balance).toLocaleString()})` : 'Choose One...';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    if (!formData.name || !formData.debtId) {
+      setError('Codebtor name and debt are required.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/cases/${caseId}/codebtors`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to add codebtor');
+      }
+
+      // Reset form and close
+      setFormData(EMPTY_FORM);
+      onSuccess();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add codebtor');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Add Codebtor</DialogTitle>
+          <DialogDescription>
+            Someone else who is also liable on one of the debtor&apos;s debts (Schedule H).
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-500 bg-red-50 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="debtId">Debt *</Label>
+            <Select
+              value={formData.debtId}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, debtId: value || prev.debtId }))}
+            >
+              <SelectTrigger>
+                <SelectValue>
+                  {formData.debtId ? getDebtLabel(formData.debtId) : 'Choose One...'}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent className="min-w-[300px]">
+                <SelectItem value="" disabled>Choose One...</SelectItem>
+                {debts.map((debt) => (
+                  <SelectItem key={debt.id} value={debt.id}>
+                    {getDebtLabel(debt.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Codebtor Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Full name"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="relationship">Relationship</Label>
+              <Input
+                id="relationship"
+                value={formData.relationship}
+                onChange={(e) => setFormData(prev => ({ ...prev, relationship: e.target.value }))}
+                placeholder="e.g., Former spouse, Parent"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="address">Address</Label>
+            <Input
+              id="address"
+              value={formData.address}
+              onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+              placeholder="123 Main St, City, State ZIP"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || debts.length === 0}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Codebtor'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+interface AddContractModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  caseId: string;
+  onSuccess: () => void;
+}
+
+export const CONTRACT_TYPES = [
+  { value: 'residential_lease', label: 'Residential Lease' },
+  { value: 'vehicle_lease', label: 'Vehicle Lease' },
+  { value: 'equipment_lease', label: 'Equipment Lease' },
+  { value: 'service_contract', label: 'Service Contract' },
+  { value: 'other', label: 'Other' },
+];
+
+const EMPTY_FORM = {
+  counterpartyName: '',
+  counterpartyAddress: '',
+  contractType: '',
+  description: '',
+  monthlyPayment: '',
+  expirationDate: '',
+};
+
+export function AddContractModal({ open, onOpenChange, caseId, onSuccess }: AddContractModalProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const getContractTypeLabel = (value: string) => {
+    const found = CONTRACT_TYPES.find(type => type.value === value);
+    return found ? found.label : 'Choose One...';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    if (!formData.counterpartyName || !formData.contractType || !formData.description) {
+      setError('Counterparty, contract type, and description are required.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `/api/cases/${caseId}/contracts`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to add contract');
+      }
+
+      // Reset form and close
+      setFormData(EMPTY_FORM);
+      onSuccess();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add contract');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Add Contract or Lease</DialogTitle>
+          <DialogDescription>
+            Executory contracts and unexpired leases for Schedule G.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-500 bg-red-50 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="counterpartyName">Other Party *</Label>
+              <Input
+                id="counterpartyName"
+                value={formData.counterpartyName}
+                onChange={(e) => setFormData(prev => ({ ...prev, counterpartyName: e.target.value }))}
+                placeholder="e.g., Oakwood Apartments"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contractType">Type *</Label>
+              <Select
+                value={formData.contractType}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, contractType: value || prev.contractType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {formData.contractType ? getContractTypeLabel(formData.contractType) : 'Choose One...'}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent className="min-w-[200px]">
+                  <SelectItem value="" disabled>Choose One...</SelectItem>
+                  {CONTRACT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="counterpartyAddress">Other Party Address</Label>
+            <Input
+              id="counterpartyAddress"
+              value={formData.counterpartyAddress}
+              onChange={(e) => setFormData(prev => ({ ...prev, counterpartyAddress: e.target.value }))}
+              placeholder="123 Main St, City, State ZIP"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">What the Contract or Lease Is For *</Label>
+            <Input
+              id="description"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="e.g., 12-month apartment lease"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="monthlyPayment">Monthly Payment ($)</Label>
+              <Input
+                id="monthlyPayment"
+                type="number"
+                step="0.01"
+                value={formData.monthlyPayment}
+                onChange={(e) => setFormData(prev => ({ ...prev, monthlyPayment: e.target.value }))}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expirationDate">Expiration Date</Label>
+              <Input
+                id="expirationDate"
+                type="date"
+                value={formData.expirationDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, expirationDate: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Contract'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
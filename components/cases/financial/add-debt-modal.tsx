@@ -21,6 +21,8 @@ import {
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Loader2 } from 'lucide-react';
+import { AddressFields, EMPTY_ADDRESS, type AddressValue } from '@/components/cases/address-fields';
+import { formatAddress, normalizeAddress } from '@/lib/bankruptcy/address/normalize';
 
 interface AddDebtModalProps {
   open: boolean;
@@ -46,7 +48,6 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
   const [error, setError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     creditorName: '',
-    creditorAddress: '',
     accountLast4: '',
     balance: '',
     monthlyPayment: '',
@@ -57,6 +58,7 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
     collateral: '',
     collateralValue: '',
   });
+  const [creditorAddress, setCreditorAddress] = useState<AddressValue>(EMPTY_ADDRESS);
 
   const getDebtTypeLabel = (value: string) => {
     const found = DEBT_TYPES.find(type => type.value === value);
@@ -74,21 +76,18 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
       return;
     }
 
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-
-    if (!connectionString) {
-      setError('Database connection not found. Please log in again.');
-      setLoading(false);
-      return;
-    }
-
     try {
       const response = await fetch(
-        `/api/cases/${caseId}/debts?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${caseId}/debts`,
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(formData),
+          body: JSON.stringify({
+            ...formData,
+            creditorAddress: creditorAddress.street1 || creditorAddress.city
+              ? formatAddress(normalizeAddress(creditorAddress).address)
+              : '',
+          }),
         }
       );
 
@@ -100,7 +99,6 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
       // Reset form and close
       setFormData({
         creditorName: '',
-        creditorAddress: '',
         accountLast4: '',
         balance: '',
         monthlyPayment: '',
@@ -111,6 +109,7 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
         collateral: '',
         collateralValue: '',
       });
+      setCreditorAddress(EMPTY_ADDRESS);
       onSuccess();
       onOpenChange(false);
     } catch (err: any) {
@@ -122,7 +121,7 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[550px]">
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold">Add Debt</DialogTitle>
           <DialogDescription>
@@ -173,12 +172,12 @@ export function AddDebtModal({ open, onOpenChange, caseId, onSuccess }: AddDebtM
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="creditorAddress">Creditor Address</Label>
-            <Input
-              id="creditorAddress"
-              value={formData.creditorAddress}
-              onChange={(e) => setFormData(prev => ({ ...prev, creditorAddress: e.target.value }))}
-              placeholder="123 Main St, City, State ZIP"
+            <h3 className="text-sm font-medium text-muted-foreground">Creditor Mailing Address</h3>
+            <AddressFields
+              value={creditorAddress}
+              onChange={setCreditorAddress}
+              idPrefix="creditor-"
+              showStreet2
             />
           </div>
 
@@ -19,32 +19,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2 } from 'lucide-react';
+import { Landmark, Loader2 } from 'lucide-react';
+import { EXPENSE_CATEGORIES } from '@/lib/transactions/categories';
+import type { ExpenseProposal } from '@/lib/transactions/types';
 
 interface AddExpenseModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   caseId: string;
   onSuccess: () => void;
+  // Averages from the case's bank statements, offered per category
+  proposals?: ExpenseProposal[];
 }
 
-const EXPENSE_CATEGORIES = [
-  { value: 'housing', label: 'Housing (Rent/Mortgage)' },
-  { value: 'utilities', label: 'Utilities' },
-  { value: 'food', label: 'Food' },
-  { value: 'clothing', label: 'Clothing' },
-  { value: 'transportation', label: 'Transportation' },
-  { value: 'medical', label: 'Medical/Healthcare' },
-  { value: 'childcare', label: 'Childcare' },
-  { value: 'insurance', label: 'Insurance' },
-  { value: 'taxes', label: 'Taxes' },
-  { value: 'debt_payments', label: 'Debt Payments' },
-  { value: 'entertainment', label: 'Entertainment' },
-  { value: 'education', label: 'Education' },
-  { value: 'other', label: 'Other' },
-];
-
-export function AddExpenseModal({ open, onOpenChange, caseId, onSuccess }: AddExpenseModalProps) {
+export function AddExpenseModal({ open, onOpenChange, caseId, onSuccess, proposals = [] }: AddExpenseModalProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
@@ -58,6 +46,16 @@ export function AddExpenseModal({ open, onOpenChange, caseId, onSuccess }: AddEx
     return found ? found.label : 'Choose One...';
   };
 
+  const proposal = proposals.find(p => p.category === formData.category);
+
+  const applyProposal = (p: ExpenseProposal) => {
+    setFormData(prev => ({
+      ...prev,
+      monthlyAmount: p.monthlyAverage.toFixed(2),
+      description: prev.description || `${p.months}-month average from bank statements`,
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -69,17 +67,9 @@ export function AddExpenseModal({ open, onOpenChange, caseId, onSuccess }: AddEx
       return;
     }
 
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-
-    if (!connectionString) {
-      setError('Database connection not found. Please log in again.');
-      setLoading(false);
-      return;
-    }
-
     try {
       const response = await fetch(
-        `/api/cases/${caseId}/expenses?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${caseId}/expenses`,
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -146,6 +136,21 @@ export function AddExpenseModal({ open, onOpenChange, caseId, onSuccess }: AddEx
             </Select>
           </div>
 
+          {proposal && (
+            <div className="flex items-center justify-between gap-3 text-sm bg-muted/50 p-3 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Landmark className="w-4 h-4 text-muted-foreground shrink-0" />
+                <span>
+                  Bank statements average <span className="font-semibold">${proposal.monthlyAverage.toLocaleString()}</span>/mo
+                  over {proposal.months} {proposal.months === 1 ? 'month' : 'months'} ({proposal.transactions} transactions)
+                </span>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => applyProposal(proposal)}>
+                Use
+              </Button>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="description">Description</Label>
             <Input
@@ -19,7 +19,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { BUSINESS_EXPENSE_CATEGORIES } from '@/lib/bankruptcy/self-employment/categories';
+import type { BusinessExpenseCategory, ScheduleCImport } from '@/lib/bankruptcy/self-employment';
 
 interface AddIncomeModalProps {
   open: boolean;
@@ -39,9 +41,28 @@ const INCOME_SOURCES = [
   { value: 'spouse', label: 'Spouse Income (if not filing jointly)' },
   { value: 'alimony', label: 'Alimony / Maintenance' },
   { value: 'contributions', label: 'Regular Contributions (family support)' },
+  { value: 'social_security', label: 'Social Security Benefits (excluded from CMI)' },
   { value: 'other', label: 'Other Income' },
 ];
 
+interface ExpenseDraft {
+  category: BusinessExpenseCategory;
+  amount: string;
+}
+
+const EMPTY_FORM = {
+  incomeMonth: '',
+  employer: '',
+  grossAmount: '',
+  netAmount: '',
+  incomeSource: 'employment',
+  description: '',
+};
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
 // Generate month options for the last 12 months
 function getMonthOptions() {
   const options = [];
@@ -58,16 +79,15 @@ function getMonthOptions() {
 export function AddIncomeModal({ open, onOpenChange, caseId, onSuccess }: AddIncomeModalProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    incomeMonth: '',
-    employer: '',
-    grossAmount: '',
-    netAmount: '',
-    incomeSource: 'employment',
-    description: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  // Self-employment: business expenses for the month and Schedule C imports
+  const [expenses, setExpenses] = useState<ExpenseDraft[]>([]);
+  const [scheduleCImports, setScheduleCImports] = useState<ScheduleCImport[] | null>(null);
 
   const monthOptions = getMonthOptions();
+  const isSelfEmployment = formData.incomeSource === 'self_employment';
+  const totalExpenses = expenses.reduce((sum, expense) => sum + (parseFloat(expense.amount) || 0), 0);
+  const netBusinessIncome = (parseFloat(formData.grossAmount) || 0) - totalExpenses;
 
   const getIncomeSourceLabel = (value: string) => {
     const found = INCOME_SOURCES.find(source => source.value === value);
@@ -79,6 +99,68 @@ export function AddIncomeModal({ open, onOpenChange, caseId, onSuccess }: AddInc
     return found ? found.label : 'Choose One...';
   };
 
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setExpenses([]);
+  };
+
+  const loadScheduleCImports = async () => {
+    try {
+      const response = await fetch(
+        `/api/cases/${caseId}/self-employment`
+      );
+      if (!response.ok) return;
+      const data = await response.json();
+      setScheduleCImports(data.scheduleCImports || []);
+    } catch (err) {
+      console.error('Failed to load Schedule C imports:', err);
+    }
+  };
+
+  const handleSourceChange = (value: string) => {
+    setFormData(prev => ({ ...prev, incomeSource: value }));
+    if (value === 'self_employment' && scheduleCImports === null) {
+      loadScheduleCImports();
+    }
+  };
+
+  const updateExpense = (index: number, changes: Partial<ExpenseDraft>) => {
+    setExpenses(prev => prev.map((expense, i) => (i === index ? { ...expense, ...changes } : expense)));
+  };
+
+  const handleImportScheduleC = async (schedule: ScheduleCImport) => {
+    if (!formData.employer.trim()) {
+      setError('Enter the business name before importing its Schedule C.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/cases/${caseId}/self-employment/schedule-c`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ taxFormId: schedule.taxFormId, businessName: formData.employer.trim() }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to import Schedule C');
+      }
+
+      resetForm();
+      onSuccess();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import Schedule C');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -91,34 +173,46 @@ export function AddIncomeModal({ open, onOpenChange, caseId, onSuccess }: AddInc
       return;
     }
 
-    if (!formData.grossAmount || parseFloat(formData.grossAmount) <= 0) {
-      setError('Please enter a valid gross amount.');
+    if (isSelfEmployment && !formData.employer.trim()) {
+      setError('Please enter the business name.');
       setLoading(false);
       return;
     }
 
-    const connectionString = localStorage.getItem('bankruptcy_db_connection');
-
-    if (!connectionString) {
-      setError('Database connection not found. Please log in again.');
+    if (!formData.grossAmount || parseFloat(formData.grossAmount) <= 0) {
+      setError(isSelfEmployment ? 'Please enter the gross receipts for the month.' : 'Please enter a valid gross amount.');
       setLoading(false);
       return;
     }
 
     try {
+      // Business income goes to the self-employment ledger, netted there
+      const endpoint = isSelfEmployment ? 'self-employment' : 'income';
+      const payload = isSelfEmployment
+        ? {
+          businessName: formData.employer.trim(),
+          entryMonth: formData.incomeMonth,
+          grossReceipts: parseFloat(formData.grossAmount),
+          expenses: expenses.map(expense => ({
+            category: expense.category,
+            amount: parseFloat(expense.amount),
+          })),
+        }
+        : {
+          incomeMonth: formData.incomeMonth,
+          employer: formData.employer || null,
+          grossAmount: parseFloat(formData.grossAmount),
+          netAmount: formData.netAmount ? parseFloat(formData.netAmount) : null,
+          incomeSource: formData.incomeSource,
+          description: formData.description || null,
+        };
+
       const response = await fetch(
-        `/api/cases/${caseId}/income?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/cases/${caseId}/${endpoint}`,
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            incomeMonth: formData.incomeMonth,
-            employer: formData.employer || null,
-            grossAmount: parseFloat(formData.grossAmount),
-            netAmount: formData.netAmount ? parseFloat(formData.netAmount) : null,
-            incomeSource: formData.incomeSource,
-            description: formData.description || null,
-          }),
+          body: JSON.stringify(payload),
         }
       );
 
@@ -128,14 +222,7 @@ export function AddIncomeModal({ open, onOpenChange, caseId, onSuccess }: AddInc
       }
 
       // Reset form and close
-      setFormData({
-        incomeMonth: '',
-        employer: '',
-        grossAmount: '',
-        netAmount: '',
-        incomeSource: 'employment',
-        description: '',
-      });
+      resetForm();
       onSuccess();
       onOpenChange(false);
     } catch (err: any) {
@@ -188,7 +275,7 @@ export function AddIncomeModal({ open, onOpenChange, caseId, onSuccess }: AddInc
               <Label htmlFor="incomeSource">Income Source</Label>
               <Select
                 value={formData.incomeSource}
-                onValueChange={(value) => setFormData(prev => ({ ...prev, incomeSource: value || 'employment' }))}
+                onValueChange={(value) => handleSourceChange(value || 'employment')}
               >
                 <SelectTrigger>
                   <SelectValue>
@@ -207,54 +294,153 @@ export function AddIncomeModal({ open, onOpenChange, caseId, onSuccess }: AddInc
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="employer">Employer / Payer Name</Label>
+            <Label htmlFor="employer">{isSelfEmployment ? 'Business Name *' : 'Employer / Payer Name'}</Label>
             <Input
               id="employer"
               value={formData.employer}
               onChange={(e) => setFormData(prev => ({ ...prev, employer: e.target.value }))}
-              placeholder="e.g., ABC Company, Social Security Admin"
+              placeholder={isSelfEmployment ? 'e.g., Sample Delivery' : 'e.g., ABC Company, Social Security Admin'}
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="grossAmount">Gross Amount ($) *</Label>
-              <Input
-                id="grossAmount"
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.grossAmount}
-                onChange={(e) => setFormData(prev => ({ ...prev, grossAmount: e.target.value }))}
-                placeholder="0.00"
-              />
-              <p className="text-xs text-muted-foreground">Total income received this month before taxes</p>
+          {isSelfEmployment ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="grossReceipts">Gross Receipts ($) *</Label>
+                <Input
+                  id="grossReceipts"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.grossAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, grossAmount: e.target.value }))}
+                  placeholder="0.00"
+                />
+                <p className="text-xs text-muted-foreground">Everything the business took in this month</p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Business Expenses</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setExpenses(prev => [...prev, { category: 'supplies', amount: '' }])}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Expense
+                  </Button>
+                </div>
+                {expenses.map((expense, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={expense.category}
+                      onValueChange={(value) => updateExpense(index, { category: (value || 'other') as BusinessExpenseCategory })}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue>{BUSINESS_EXPENSE_CATEGORIES[expense.category]}</SelectValue>
+                      </SelectTrigger>
+                      <SelectContent className="min-w-[240px]">
+                        {Object.entries(BUSINESS_EXPENSE_CATEGORIES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-32"
+                      value={expense.amount}
+                      onChange={(e) => updateExpense(index, { amount: e.target.value })}
+                      placeholder="0.00"
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setExpenses(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Ordinary and necessary expenses only. Net business income: {formatAmount(netBusinessIncome)}
+                </p>
+              </div>
+
+              {scheduleCImports && scheduleCImports.length > 0 && (
+                <div className="space-y-2 p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm font-medium">Or import a Schedule C</p>
+                  {scheduleCImports.map(schedule => (
+                    <div key={schedule.taxFormId} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-muted-foreground">
+                        {schedule.taxYear}: {formatAmount(schedule.grossReceipts)} receipts, {formatAmount(schedule.expenses)} expenses
+                      </span>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={loading}
+                        onClick={() => handleImportScheduleC(schedule)}
+                      >
+                        Import
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Spreads the year&apos;s receipts and expenses evenly over its months; months entered here take precedence
+                  </p>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="grossAmount">Gross Amount ($) *</Label>
+                <Input
+                  id="grossAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.grossAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, grossAmount: e.target.value }))}
+                  placeholder="0.00"
+                />
+                <p className="text-xs text-muted-foreground">Total income received this month before taxes</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="netAmount">Net Amount ($)</Label>
+                <Input
+                  id="netAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.netAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, netAmount: e.target.value }))}
+                  placeholder="0.00"
+                />
+                <p className="text-xs text-muted-foreground">Take-home pay after deductions</p>
+              </div>
             </div>
+          )}
 
+          {!isSelfEmployment && (
             <div className="space-y-2">
-              <Label htmlFor="netAmount">Net Amount ($)</Label>
+              <Label htmlFor="description">Description (optional)</Label>
               <Input
-                id="netAmount"
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.netAmount}
-                onChange={(e) => setFormData(prev => ({ ...prev, netAmount: e.target.value }))}
-                placeholder="0.00"
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="e.g., Regular bi-weekly paycheck, Quarterly dividend"
               />
-              <p className="text-xs text-muted-foreground">Take-home pay after deductions</p>
             </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Description (optional)</Label>
-            <Input
-              id="description"
-              value={formData.description}
-              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-              placeholder="e.g., Regular bi-weekly paycheck, Quarterly dividend"
-            />
-          </div>
+          )}
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
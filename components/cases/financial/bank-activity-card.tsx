@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Landmark, Repeat } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEPOSIT_CATEGORIES,
+  EXPENSE_CATEGORIES,
+  TRANSACTION_CATEGORY_LABELS,
+} from '@/lib/transactions/categories';
+import type { BankTransaction, TransactionFlag, TransactionSummary } from '@/lib/transactions/types';
+
+interface BankActivityCardProps {
+  caseId: string;
+  transactions: BankTransaction[];
+  summary: TransactionSummary;
+  onChange: () => void;
+}
+
+const FLAG_LABELS: Record<TransactionFlag, string> = {
+  large_transfer: 'Large transfer',
+  cash_withdrawal: 'Cash withdrawal',
+};
+
+const SHARED_CATEGORIES = [
+  { value: 'transfer', label: TRANSACTION_CATEGORY_LABELS.transfer },
+  { value: 'cash_withdrawal', label: TRANSACTION_CATEGORY_LABELS.cash_withdrawal },
+];
+
+function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-');
+  return new Date(Number(year), Number(monthNumber) - 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+}
+
+function formatAmount(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return amount < 0 ? `-$${formatted}` : `$${formatted}`;
+}
+
+/**
+ * Statement ledger summary: recurring deposits, transactions the trustee
+ * will ask about, and every transaction with its category
+ */
+export function BankActivityCard({ caseId, transactions, summary, onChange }: BankActivityCardProps) {
+  const [showLedger, setShowLedger] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const recategorize = async (transaction: BankTransaction, category: string) => {
+    if (category === transaction.category) return;
+
+    setSavingId(transaction.id);
+    try {
+      const res = await fetch(
+        `/api/cases/${caseId}/transactions/${transaction.id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ category }),
+        }
+      );
+      if (res.ok) onChange();
+    } catch (err) {
+      console.error('Error updating transaction category:', err);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-card p-6 rounded-lg border">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-teal-100 rounded-lg">
+            <Landmark className="w-5 h-5 text-teal-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold">Bank Activity</h2>
+            <p className="text-sm text-muted-foreground">
+              {summary.transactionCount} transactions
+              {summary.coverage && ` · ${formatMonth(summary.coverage.from)} – ${formatMonth(summary.coverage.to)}`}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowLedger(!showLedger)}
+          className="flex items-center gap-1 text-sm text-primary hover:underline"
+        >
+          {showLedger ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          {showLedger ? 'Hide ledger' : 'Show ledger'}
+        </button>
+      </div>
+
+      {summary.flagged.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-1">
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+            Trustee will ask about
+          </h3>
+          <div className="space-y-2">
+            {summary.flagged.map(transaction => (
+              <div key={transaction.id} className="flex items-center justify-between p-3 bg-amber-50 rounded-lg text-sm">
+                <div>
+                  <span className="font-medium">{transaction.description}</span>
+                  <p className="text-muted-foreground">
+                    {transaction.postedDate} · {transaction.flag ? FLAG_LABELS[transaction.flag] : ''}
+                  </p>
+                </div>
+                <span className="font-semibold">{formatAmount(transaction.amount)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {summary.recurringDeposits.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-1">
+            <Repeat className="w-4 h-4" />
+            Recurring deposits
+          </h3>
+          <div className="space-y-2">
+            {summary.recurringDeposits.map(deposit => (
+              <div key={`${deposit.category}|${deposit.payer}`} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg text-sm">
+                <div>
+                  <span className="font-medium">{deposit.payer}</span>
+                  <p className="text-muted-foreground">
+                    {TRANSACTION_CATEGORY_LABELS[deposit.category]} · {deposit.deposits} deposits
+                  </p>
+                </div>
+                <span className="font-semibold">${deposit.monthlyAverage.toLocaleString()}/mo</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showLedger && (
+        <div className="space-y-1 max-h-[480px] overflow-y-auto">
+          {transactions.map(transaction => {
+            const options = [...(transaction.amount >= 0 ? DEPOSIT_CATEGORIES : EXPENSE_CATEGORIES), ...SHARED_CATEGORIES];
+            return (
+              <div key={transaction.id} className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-muted/50 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate">{transaction.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {transaction.postedDate}
+                    {transaction.accountLast4 && ` · ****${transaction.accountLast4}`}
+                    {transaction.recurring && ' · recurring'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <Select
+                    value={transaction.category}
+                    onValueChange={(value) => value && recategorize(transaction, value)}
+                    disabled={savingId === transaction.id}
+                  >
+                    <SelectTrigger className="w-[170px]">
+                      <SelectValue>{TRANSACTION_CATEGORY_LABELS[transaction.category] || transaction.category}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent className="min-w-[200px]">
+                      {options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className={`w-24 text-right font-medium ${transaction.amount >= 0 ? 'text-green-600' : ''}`}>
+                    {formatAmount(transaction.amount)}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FileSearch, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Popover, PopoverContent, PopoverTitle, PopoverTrigger } from '@/components/ui/popover';
+import { PAGE_BREAK, type FieldSource, type FieldSources } from '@/lib/extraction/provenance';
+
+interface SourcePopoverProps {
+  caseId: string;
+  documentId: string | null;
+  fieldSources: FieldSources | null | undefined;
+  // Display names for the fields, in the order to show them
+  fieldLabels: Record<string, string>;
+}
+
+/**
+ * "View source" button for an extracted record. Lists the text each field
+ * was read from and opens the document with that text highlighted.
+ */
+export function SourcePopover({ caseId, documentId, fieldSources, fieldLabels }: SourcePopoverProps) {
+  const [viewing, setViewing] = useState<{ label: string; source: FieldSource } | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fields = Object.keys(fieldLabels).filter(field => fieldSources?.[field]);
+  if (!documentId || fields.length === 0) return null;
+
+  const openSource = (label: string, source: FieldSource) => {
+    setViewing({ label, source });
+    if (text !== null) return;
+
+    setLoading(true);
+    fetch(`/api/cases/${caseId}/documents/${documentId}?action=text`)
+      .then(res => res.json())
+      .then(data => setText(data.text || null))
+      .catch(error => console.error('Failed to load document text:', error))
+      .finally(() => setLoading(false));
+  };
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger
+          className="opacity-0 group-hover:opacity-100 p-1 text-muted-foreground hover:text-primary transition-all"
+          title="View source"
+        >
+          <FileSearch className="w-4 h-4" />
+        </PopoverTrigger>
+        <PopoverContent align="end" className="space-y-3">
+          <PopoverTitle>Source text</PopoverTitle>
+          {fields.map(field => {
+            const source = fieldSources![field];
+            return (
+              <button
+                key={field}
+                onClick={() => openSource(fieldLabels[field], source)}
+                className="block w-full text-left rounded-lg p-2 hover:bg-muted transition-colors"
+              >
+                <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                  <span>{fieldLabels[field]}</span>
+                  <span>Page {source.page}</span>
+                </div>
+                <p className="font-mono text-xs bg-yellow-100 text-yellow-900 rounded px-1.5 py-1 break-words">
+                  {source.snippet}
+                </p>
+              </button>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">Select a field to see it in the document.</p>
+        </PopoverContent>
+      </Popover>
+
+      <SourceViewer
+        text={text}
+        loading={loading}
+        viewing={viewing}
+        onClose={() => setViewing(null)}
+      />
+    </>
+  );
+}
+
+function SourceViewer({
+  text,
+  loading,
+  viewing,
+  onClose,
+}: {
+  text: string | null;
+  loading: boolean;
+  viewing: { label: string; source: FieldSource } | null;
+  onClose: () => void;
+}) {
+  const highlightRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [text, viewing]);
+
+  // Offsets go stale if the document was re-read; fall back to the snippet
+  let span: { start: number; end: number } | null = null;
+  if (text && viewing) {
+    const { start, end, snippet } = viewing.source;
+    if (text.slice(start, end) === snippet) {
+      span = { start, end };
+    } else if (text.includes(snippet)) {
+      const found = text.indexOf(snippet);
+      span = { start: found, end: found + snippet.length };
+    }
+  }
+
+  const showPageBreaks = (value: string) => value.split(PAGE_BREAK).join('\n\n──────── page break ────────\n\n');
+
+  return (
+    <Dialog open={!!viewing} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{viewing?.label}</DialogTitle>
+          <DialogDescription>
+            Page {viewing?.source.page} of the source document
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto rounded-lg bg-muted/50 p-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : text ? (
+            <pre className="whitespace-pre-wrap text-xs font-mono">
+              {span ? (
+                <>
+                  {showPageBreaks(text.slice(0, span.start))}
+                  <mark ref={highlightRef} className="bg-yellow-200 rounded px-0.5">
+                    {text.slice(span.start, span.end)}
+                  </mark>
+                  {showPageBreaks(text.slice(span.end))}
+                </>
+              ) : (
+                showPageBreaks(text)
+              )}
+            </pre>
+          ) : (
+            <p className="text-sm text-muted-foreground">Document text is not available.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,14 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { AlertCircle, Loader2 } from "lucide-react";
-
-const US_STATES = [
-  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "FL", "GA",
-  "HI", "ID", "IL", "IN", "IA", "KS", "KY", "LA", "ME", "MD",
-  "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ",
-  "NM", "NY", "NC", "ND", "OH", "OK", "OR", "PA", "RI", "SC",
-  "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY"
-];
+import { AddressFields, EMPTY_ADDRESS, type AddressValue } from "@/components/cases/address-fields";
 
 export function NewCaseForm() {
   const router = useRouter();
@@ -26,15 +19,11 @@ export function NewCaseForm() {
     clientEmail: "",
     clientPhone: "",
     ssnLast4: "",
-    address: "",
-    city: "",
-    state: "",
-    zip: "",
-    county: "",
     caseType: "chapter7" as "chapter7" | "chapter13",
     filingType: "individual" as "individual" | "joint",
     householdSize: "1",
   });
+  const [address, setAddress] = useState<AddressValue>(EMPTY_ADDRESS);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,23 +35,22 @@ export function NewCaseForm() {
       const caseData = {
         id: caseId,
         ...formData,
+        address: address.street1,
+        city: address.city,
+        state: address.state,
+        zip: address.zip,
+        county: address.county,
         status: 'intake',
         createdAt: new Date().toISOString(),
       };
 
-      // Get database connection string from localStorage
-      const connectionString = localStorage.getItem('bankruptcy_db_connection');
-      if (!connectionString) {
-        throw new Error('Database not initialized. Please refresh the page.');
-      }
-
       // Store case in database via API
       const response = await fetch('/api/cases/create', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ caseData, connectionString }),
+        body: JSON.stringify({ caseData }),
       });
 
       if (!response.ok) {
@@ -257,79 +245,13 @@ export function NewCaseForm() {
       <div className="space-y-6 bg-card p-8 rounded-lg border">
         <h2 className="text-xl font-semibold">Address</h2>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div className="md:col-span-2 space-y-2">
-            <Label htmlFor="address">
-              Street Address <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="address"
-              value={formData.address}
-              onChange={(e) => updateFormData("address", e.target.value)}
-              placeholder="123 Main St"
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="city">
-              City <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="city"
-              value={formData.city}
-              onChange={(e) => updateFormData("city", e.target.value)}
-              placeholder="New York"
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="state">
-              State <span className="text-destructive">*</span>
-            </Label>
-            <select
-              id="state"
-              value={formData.state}
-              onChange={(e) => updateFormData("state", e.target.value)}
-              className="flex h-11 w-full rounded border border-input bg-background px-4 py-2.5 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-              required
-            >
-              <option value="">Select State</option>
-              {US_STATES.map((state) => (
-                <option key={state} value={state}>
-                  {state}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="zip">
-              ZIP Code <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="zip"
-              value={formData.zip}
-              onChange={(e) => updateFormData("zip", e.target.value)}
-              placeholder="10001"
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="county">
-              County <span className="text-destructive">*</span>
-            </Label>
-            <Input
-              id="county"
-              value={formData.county}
-              onChange={(e) => updateFormData("county", e.target.value)}
-              placeholder="New York"
-              required
-            />
-          </div>
-        </div>
+        <AddressFields
+          value={address}
+          onChange={setAddress}
+          showCounty
+          required
+          selectClassName="flex h-11 w-full rounded border border-input bg-background px-4 py-2.5 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        />
       </div>
 
       {/* Submit Button */}
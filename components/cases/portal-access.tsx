@@ -0,0 +1,136 @@
+/**
+ * Client Portal Access
+ *
+ * Staff card for a case's client portal: issue or revoke the debtor's
+ * magic link, and see whether the debtor has acknowledged the petition.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, Copy, Link2, AlertTriangle } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { hasPermission } from '@/lib/auth/permissions';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
+import type { PetitionAcknowledgment } from '@/lib/bankruptcy/acknowledgment';
+
+interface PortalStatus {
+  enabled: boolean;
+  link: { createdAt: string | null; expiresAt: string } | null;
+}
+
+interface AcknowledgmentState {
+  acknowledgment: PetitionAcknowledgment | null;
+  current: boolean;
+}
+
+export function PortalAccess({ caseId }: { caseId: string }) {
+  const [portal, setPortal] = useState<PortalStatus | null>(null);
+  const [acknowledgment, setAcknowledgment] = useState<AcknowledgmentState | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [portalUrl, setPortalUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [portalResponse, ackResponse] = await Promise.all([
+      fetch(`/api/cases/${caseId}/portal`),
+      fetch(`/api/cases/${caseId}/acknowledgment`),
+    ]);
+    if (portalResponse.ok) setPortal(await portalResponse.json());
+    if (ackResponse.ok) setAcknowledgment(await ackResponse.json());
+  }, [caseId]);
+
+  useEffect(() => {
+    load().catch(err => console.error('Error loading portal status:', err));
+    SimpleAuth.getSession().then(session => {
+      setCanManage(session ? hasPermission(session.role, { matter: ['update'] }) : false);
+    });
+  }, [load]);
+
+  const send = async (method: 'POST' | 'DELETE') => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${caseId}/portal`, { method });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      setPortalUrl(method === 'POST' ? data.portalUrl : null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!portal) return null;
+
+  const signed = acknowledgment?.acknowledgment;
+
+  return (
+    <div className="bg-card p-6 rounded border border-border mb-8">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Link2 className="w-5 h-5 text-primary" />
+            Client Portal
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {!portal.enabled
+              ? 'Create a firm account to invite the debtor to upload documents and answer questions.'
+              : portal.link
+                ? `Link active until ${new Date(portal.link.expiresAt).toLocaleDateString()}`
+                : 'No active link'}
+          </p>
+        </div>
+        {portal.enabled && canManage && (
+          <div className="flex gap-2">
+            {portal.link && (
+              <Button variant="outline" size="sm" disabled={saving} onClick={() => send('DELETE')}>
+                Revoke
+              </Button>
+            )}
+            <Button size="sm" disabled={saving} onClick={() => send('POST')}>
+              {portal.link ? 'New Link' : 'Create Link'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive mb-3">{error}</p>}
+
+      {portalUrl && (
+        <div className="rounded-lg border p-3 space-y-2 mb-4">
+          <p className="text-xs text-muted-foreground">
+            Send this link to the debtor. It is shown only once and replaces any earlier link.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input value={portalUrl} readOnly className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(portalUrl)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="text-sm">
+        {signed && acknowledgment.current && (
+          <p className="flex items-center gap-2 text-green-700">
+            <CheckCircle2 className="w-4 h-4" />
+            Petition acknowledged by {signed.signerName} on {new Date(signed.acknowledgedAt).toLocaleString()}
+          </p>
+        )}
+        {signed && !acknowledgment.current && (
+          <p className="flex items-center gap-2 text-amber-700">
+            <AlertTriangle className="w-4 h-4" />
+            Acknowledged {new Date(signed.acknowledgedAt).toLocaleDateString()}, but the case has changed
+            since; the debtor must sign again
+          </p>
+        )}
+        {!signed && <p className="text-muted-foreground">The debtor has not acknowledged the petition yet.</p>}
+      </div>
+    </div>
+  );
+}
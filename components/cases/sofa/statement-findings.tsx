@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, FileSearch, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type {
+  Insider,
+  PaymentEvidence,
+  PreferenceReport,
+  PreferenceSofaSuggestions,
+  SofaSuggestion,
+} from '@/lib/bankruptcy/preferences';
+
+type FindingSection = keyof PreferenceSofaSuggestions;
+
+interface StatementFindingsProps {
+  caseId: string;
+  section: FindingSection;
+  report: PreferenceReport;
+  suggestions: PreferenceSofaSuggestions;
+  insiders: Insider[];
+  /** Fill the add-entry form with a suggestion */
+  onUse: (suggestion: SofaSuggestion) => void;
+  /** Reload the report after the insider list changes */
+  onChange: () => void;
+}
+
+const RISK_STYLES: Record<PreferenceReport['risk'], { label: string; className: string }> = {
+  none: { label: 'Nothing found', className: 'bg-green-100 text-green-700' },
+  review: { label: 'Review', className: 'bg-amber-100 text-amber-700' },
+  high: { label: 'High risk', className: 'bg-red-100 text-red-700' },
+};
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function paymentCount(payments: PaymentEvidence[]): string {
+  return `${payments.length} payment${payments.length === 1 ? '' : 's'}`;
+}
+
+function PaymentList({ payments }: { payments: PaymentEvidence[] }) {
+  return (
+    <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+      {payments.map(payment => (
+        <li key={payment.id} className="flex justify-between gap-3">
+          <span className="truncate">
+            {payment.postedDate} · {payment.description}
+            {payment.source === 'card_statement' && ' (card statement)'}
+          </span>
+          <span className="shrink-0">{formatAmount(payment.amount)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Payments found in the case's bank and card statements that answer SOFA
+ * questions 6-8, with the transactions behind each one
+ */
+export function StatementFindings({
+  caseId,
+  section,
+  report,
+  suggestions,
+  insiders,
+  onUse,
+  onChange,
+}: StatementFindingsProps) {
+  const [name, setName] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const findings = section === 'creditor_payments'
+    ? report.creditorPayments.map(finding => ({
+        title: finding.creditorName,
+        detail: paymentCount(finding.payments),
+        total: finding.total,
+        payments: finding.payments,
+      }))
+    : report.insiderPayments.map(finding => ({
+        title: `${finding.insiderName} (${finding.relationship})`,
+        detail: finding.basis === 'benefited_insider'
+          ? `Paid to ${finding.creditorName} on a debt they are also liable for`
+          : paymentCount(finding.payments),
+        total: finding.total,
+        payments: finding.payments,
+      }));
+  const risk = RISK_STYLES[report.risk];
+
+  const request = async (path: string, init: RequestInit) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/cases/${caseId}/insiders${path}`, init);
+      if (res.ok) onChange();
+    } catch (err) {
+      console.error('Error updating insiders:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addInsider = async () => {
+    if (!name.trim() || !relationship.trim()) return;
+    await request('', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, relationship }),
+    });
+    setName('');
+    setRelationship('');
+  };
+
+  return (
+    <div className="bg-card p-6 rounded-lg border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <FileSearch className="w-5 h-5" />
+          Found in statements
+        </h3>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${risk.className}`}>{risk.label}</span>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        {section === 'creditor_payments'
+          ? `Payments totaling ${formatAmount(report.creditorThreshold)} or more to one creditor from ${report.preferenceWindow.from}`
+          : `Payments to or for insiders from ${report.insiderWindow.from}`}
+        {report.filingDateEstimated ? ' (no filing date set; measured from today)' : ` to the ${report.filingDate} filing`}
+      </p>
+
+      {report.gaps.length > 0 && (
+        <div className="mb-4 space-y-1">
+          {report.gaps.map(gap => (
+            <p key={gap} className="text-xs text-amber-700 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {gap}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {section === 'creditor_payments' && report.largeTransfers.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 rounded-lg text-sm">
+          <p className="font-medium text-red-700">
+            Payments at or above the § 547(c)(9) amount of {formatAmount(report.transferThreshold)}
+          </p>
+          <PaymentList payments={report.largeTransfers} />
+        </div>
+      )}
+
+      {findings.length > 0 ? (
+        <div className="space-y-3">
+          {findings.map((finding, index) => (
+            <div key={`${finding.title}|${index}`} className="p-3 bg-muted/50 rounded-lg text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <span className="font-medium">{finding.title}</span>
+                  <p className="text-muted-foreground">{finding.detail} · {formatAmount(finding.total)}</p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => onUse(suggestions[section][index])}>
+                  Use
+                </Button>
+              </div>
+              <PaymentList payments={finding.payments} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No qualifying payments in the statements on file.</p>
+      )}
+
+      {section === 'insider_payments' && (
+        <div className="mt-6 pt-4 border-t">
+          <h4 className="text-sm font-medium mb-2">Insiders</h4>
+          {insiders.length > 0 ? (
+            <ul className="space-y-1 mb-3 text-sm">
+              {insiders.map(insider => (
+                <li key={insider.id} className="flex items-center justify-between">
+                  <span>
+                    {insider.name} · {insider.relationship}
+                    {insider.source === 'codebtor' && <span className="text-muted-foreground"> (codebtor)</span>}
+                  </span>
+                  {insider.source === 'insider_list' && (
+                    <button
+                      onClick={() => request(`/${insider.id}`, { method: 'DELETE' })}
+                      className="p-1 text-muted-foreground hover:text-red-600"
+                      title="Remove insider"
+                      disabled={saving}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground mb-3">
+              Add relatives and business partners so payments to them are found.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+            <Input placeholder="Relationship" value={relationship} onChange={(e) => setRelationship(e.target.value)} />
+            <Button size="sm" onClick={addInsider} disabled={saving || !name.trim() || !relationship.trim()}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
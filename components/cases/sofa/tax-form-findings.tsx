@@ -0,0 +1,91 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { SofaSuggestion } from '@/lib/bankruptcy/preferences';
+import type { IncomeHistoryReport, TaxReturnCheck } from '@/lib/bankruptcy/tax-forms';
+
+interface TaxFormFindingsProps {
+  report: IncomeHistoryReport;
+  suggestions: SofaSuggestion[];
+  /** Fill the add-entry form with a suggestion */
+  onUse: (suggestion: SofaSuggestion) => void;
+}
+
+const CHECK_STYLES: Record<TaxReturnCheck['status'], string> = {
+  matches: 'text-green-700',
+  differs: 'text-amber-700',
+  unsupported: 'text-amber-700',
+  unreported: 'text-red-700',
+};
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Prior-year income read from the case's tax returns and 1099s for SOFA
+ * questions 4-5, with each return checked against the reconciled employers
+ */
+export function TaxFormFindings({ report, suggestions, onUse }: TaxFormFindingsProps) {
+  return (
+    <div className="bg-card p-6 rounded-lg border">
+      <h3 className="text-lg font-semibold flex items-center gap-2 mb-4">
+        <FileText className="w-5 h-5" />
+        Found in tax returns
+      </h3>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Returns and 1099s for {report.years.join(' and ')}
+        {report.filingDateEstimated ? ' (no filing date set; years counted from today)' : ''}
+      </p>
+
+      {report.gaps.length > 0 && (
+        <div className="mb-4 space-y-1">
+          {report.gaps.map(gap => (
+            <p key={gap} className="text-xs text-amber-700 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              {gap}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {report.checks.length > 0 && (
+        <div className="mb-4 space-y-1">
+          {report.checks.map(check => (
+            <p key={`${check.taxYear}|${check.line}`} className={`text-xs flex items-start gap-1 ${CHECK_STYLES[check.status]}`}>
+              {check.status === 'matches'
+                ? <CheckCircle2 className="w-3 h-3 mt-0.5 shrink-0" />
+                : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+              {check.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {suggestions.length > 0 ? (
+        <div className="space-y-3">
+          {suggestions.map((suggestion, index) => (
+            <div
+              key={`${suggestion.year}|${suggestion.source}|${index}`}
+              className="p-3 bg-muted/50 rounded-lg text-sm flex items-center justify-between gap-3"
+            >
+              <div>
+                <span className="font-medium">{suggestion.source}</span>
+                <p className="text-muted-foreground">
+                  {suggestion.year} · {formatAmount(Number(suggestion.grossAmount))}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => onUse(suggestion)}>
+                Use
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No income found in the tax forms on file.</p>
+      )}
+    </div>
+  );
+}
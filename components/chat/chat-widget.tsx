@@ -12,6 +12,7 @@ import {
   Minimize2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { hasDatabase } from "@/lib/database/provision";
 
 interface Message {
   id: string;
@@ -36,14 +37,12 @@ export function ChatWidget() {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [context, setContext] = useState<ChatContext>({});
-  const [connectionString, setConnectionString] = useState<string | null>(null);
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [signedIn, setSignedIn] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    setConnectionString(localStorage.getItem("bankruptcy_db_connection"));
-    setApiKey(localStorage.getItem("casedev_api_key"));
+    hasDatabase().then(setSignedIn);
   }, []);
 
   useEffect(() => {
@@ -73,7 +72,7 @@ export function ChatWidget() {
   }, [isOpen, messages.length]);
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading || !connectionString || !apiKey) return;
+    if (!input.trim() || isLoading || !signedIn) return;
 
     const userMessage: Message = {
       id: `user-${Date.now()}`,
@@ -88,13 +87,10 @@ export function ChatWidget() {
 
     try {
       const response = await fetch(
-        `/api/chat?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/chat`,
         {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-api-key": apiKey,
-          },
+          headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             messages: [...messages, userMessage].map((m) => ({
               role: m.role,
@@ -291,7 +287,7 @@ export function ChatWidget() {
 
       {/* Input */}
       <div className="border-t p-3 flex-shrink-0">
-        {!connectionString || !apiKey ? (
+        {!signedIn ? (
           <div className="text-center text-muted-foreground text-sm py-2">
             Please log in to use the chat assistant.
           </div>
@@ -0,0 +1,394 @@
+/**
+ * Firm Members
+ *
+ * Creates the firm account, lists its members and pending invitations, and
+ * invites new members. Invitations produce a link to send to the invitee.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, Trash2, UserPlus } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+import { hasPermission } from '@/lib/auth/permissions';
+import { RoleDescriptions, type LegalRole } from '@/lib/auth/roles';
+
+interface FirmMember {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: LegalRole;
+  caseId: string | null;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: LegalRole;
+  caseId: string | null;
+  expiresAt: string;
+}
+
+interface FirmResponse {
+  enabled: boolean;
+  firm: { id: string; name: string; members: FirmMember[]; invitations: PendingInvitation[] } | null;
+  role: LegalRole;
+  userId: string | null;
+}
+
+interface CaseOption {
+  id: string;
+  clientName: string;
+}
+
+const INVITABLE_ROLES: LegalRole[] = ['partner', 'associate', 'paralegal', 'staff', 'client'];
+
+const selectClassName =
+  'flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+export function FirmMembers() {
+  const [data, setData] = useState<FirmResponse | null>(null);
+  const [cases, setCases] = useState<CaseOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create firm form
+  const [firmName, setFirmName] = useState('');
+  const [ownerName, setOwnerName] = useState('');
+  const [ownerEmail, setOwnerEmail] = useState('');
+  const [ownerPassword, setOwnerPassword] = useState('');
+
+  // Invite form
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<LegalRole>('associate');
+  const [inviteCaseId, setInviteCaseId] = useState('');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/organization');
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Failed to load firm');
+      setData(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load firm');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    fetch('/api/cases/list')
+      .then(res => res.json())
+      .then(body => setCases(body.cases || []))
+      .catch(() => setCases([]));
+  }, [load]);
+
+  const send = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Request failed');
+      await load();
+      return body;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateFirm = async () => {
+    await send('/api/organization', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ firmName, ownerName, email: ownerEmail, password: ownerPassword }),
+    });
+    setOwnerPassword('');
+  };
+
+  const handleInvite = async () => {
+    setInviteUrl(null);
+    const body = await send('/api/organization/invitations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email: inviteEmail,
+        role: inviteRole,
+        caseId: inviteRole === 'client' ? inviteCaseId : null,
+      }),
+    });
+    if (body) {
+      setInviteUrl(body.inviteUrl);
+      setInviteEmail('');
+    }
+  };
+
+  const caseName = (caseId: string | null) =>
+    cases.find(c => c.id === caseId)?.clientName ?? caseId;
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Firm Members</CardTitle>
+          <CardDescription>Loading...</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (!data) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error || 'Failed to load firm'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!data.enabled) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Firm Members</CardTitle>
+          <CardDescription>
+            Firm accounts need a directory database. Set DATABASE_URL and run the
+            migrations to invite attorneys, paralegals, and staff.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (!data.firm) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Create Your Firm</CardTitle>
+          <CardDescription>
+            Your firm uses this case.dev account and database. Members you invite sign in
+            with email and password and never see the API key.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="firm-name">Firm Name</Label>
+            <Input id="firm-name" value={firmName} onChange={(e) => setFirmName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="owner-name">Your Name</Label>
+            <Input id="owner-name" value={ownerName} onChange={(e) => setOwnerName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="owner-email">Your Email</Label>
+            <Input
+              id="owner-email"
+              type="email"
+              value={ownerEmail}
+              onChange={(e) => setOwnerEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="owner-password">Password</Label>
+            <Input
+              id="owner-password"
+              type="password"
+              value={ownerPassword}
+              onChange={(e) => setOwnerPassword(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              At least 10 characters. You can keep signing in with the API key too.
+            </p>
+          </div>
+          <Button
+            onClick={handleCreateFirm}
+            disabled={!firmName || !ownerName || !ownerEmail || !ownerPassword || saving}
+          >
+            {saving ? 'Creating...' : 'Create Firm'}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { firm, role } = data;
+  const canInvite = hasPermission(role, { invitation: ['create'] });
+  const canCancel = hasPermission(role, { invitation: ['cancel'] });
+  const canRemove = hasPermission(role, { member: ['delete'] });
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{firm.name}</CardTitle>
+          <CardDescription>
+            {firm.members.length} {firm.members.length === 1 ? 'member' : 'members'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y">
+            {firm.members.map(member => (
+              <li key={member.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{member.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {member.email}
+                    {member.caseId && ` · ${caseName(member.caseId)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" title={RoleDescriptions[member.role]}>
+                    {member.role}
+                  </Badge>
+                  {canRemove && member.role !== 'owner' && member.userId !== data.userId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => send(`/api/organization/members/${member.id}`, { method: 'DELETE' })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      {firm.invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {firm.invitations.map(invitation => (
+                <li key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <p className="text-sm">{invitation.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {invitation.role}
+                      {invitation.caseId && ` · ${caseName(invitation.caseId)}`}
+                      {' · expires '}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {canCancel && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => send(`/api/organization/invitations/${invitation.id}`, { method: 'DELETE' })}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {canInvite && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite a Member</CardTitle>
+            <CardDescription>
+              Send the link to the person you invite. It works once and expires in 7 days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <select
+                id="invite-role"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as LegalRole)}
+                className={selectClassName}
+              >
+                {INVITABLE_ROLES.map(option => (
+                  <option key={option} value={option}>
+                    {option} — {RoleDescriptions[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {inviteRole === 'client' && (
+              <div className="space-y-2">
+                <Label htmlFor="invite-case">Client&apos;s Case</Label>
+                <select
+                  id="invite-case"
+                  value={inviteCaseId}
+                  onChange={(e) => setInviteCaseId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Select a case</option>
+                  {cases.map(c => (
+                    <option key={c.id} value={c.id}>{c.clientName}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <Button
+              onClick={handleInvite}
+              disabled={!inviteEmail || (inviteRole === 'client' && !inviteCaseId) || saving}
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              {saving ? 'Inviting...' : 'Create Invitation'}
+            </Button>
+
+            {inviteUrl && (
+              <div className="rounded-lg border p-3 space-y-2">
+                <p className="text-xs text-muted-foreground">Invitation link</p>
+                <div className="flex items-center gap-2">
+                  <Input value={inviteUrl} readOnly className="font-mono text-xs" />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigator.clipboard.writeText(inviteUrl)}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
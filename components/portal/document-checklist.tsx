@@ -0,0 +1,125 @@
+/**
+ * Document Checklist
+ *
+ * The debtor's view of required documents: what is still missing, what has
+ * been received, and an upload area using the same pipeline as staff uploads.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, Circle, FileText } from 'lucide-react';
+import { DocumentUpload } from '../cases/document-upload';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import {
+  getDocumentCompletionPercentage,
+  getMissingDocuments,
+  getRequiredDocuments,
+} from '@/lib/bankruptcy/required-documents';
+
+interface PortalDocument {
+  id: string;
+  fileName: string;
+  documentType: string;
+  uploadedAt: string;
+}
+
+export function DocumentChecklist({ caseId }: { caseId: string }) {
+  const [documents, setDocuments] = useState<PortalDocument[]>([]);
+
+  const load = useCallback(() => {
+    fetch(`/api/cases/${caseId}/documents`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (data) setDocuments(data.documents || []);
+      })
+      .catch(err => console.error('Error fetching documents:', err));
+  }, [caseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const uploadedTypes = documents.map(d => d.documentType);
+  const missing = getMissingDocuments(uploadedTypes);
+  const missingTypes = new Set(missing.map(d => d.type));
+  const completion = getDocumentCompletionPercentage(uploadedTypes);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Documents We Need</CardTitle>
+          <CardDescription>
+            {missing.length === 0
+              ? 'We have every required document. Thank you!'
+              : `${missing.length} required document${missing.length === 1 ? '' : 's'} still needed`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <div className="flex justify-between text-xs text-muted-foreground mb-1">
+              <span>Completion</span>
+              <span>{completion}%</span>
+            </div>
+            <div className="w-full bg-muted rounded-full h-2">
+              <div
+                className="bg-primary h-2 rounded-full transition-all duration-300"
+                style={{ width: `${completion}%` }}
+              />
+            </div>
+          </div>
+
+          <ul className="divide-y">
+            {getRequiredDocuments().map(doc => (
+              <li key={doc.type} className="flex items-start gap-3 py-3">
+                {missingTypes.has(doc.type) ? (
+                  <Circle className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+                ) : (
+                  <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+                )}
+                <div>
+                  <p className="text-sm font-medium">{doc.name}</p>
+                  <p className="text-xs text-muted-foreground">{doc.description}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload Documents</CardTitle>
+          <CardDescription>
+            Choose the kind of document, then drop in a PDF or a clear photo of each page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DocumentUpload caseId={caseId} onUploadComplete={load} />
+        </CardContent>
+      </Card>
+
+      {documents.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Received</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {documents.map(doc => (
+                <li key={doc.id} className="flex items-center gap-3 py-2">
+                  <FileText className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-sm flex-1 truncate">{doc.fileName}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(doc.uploadedAt).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+/**
+ * Financial Affairs Questions
+ *
+ * The Statement of Financial Affairs (Form 107) interview for the debtor:
+ * one yes/no question per section, with details for each "yes". Uses the
+ * same SOFA API as the staff interview, without the statement and tax
+ * return findings staff see.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, ChevronLeft, ChevronRight, Circle, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+import type { SofaEntry, SofaField, SofaSection, SofaSectionKey } from '@/lib/bankruptcy/sofa';
+
+type EntryDraft = Record<string, string | boolean>;
+
+function formatValue(field: SofaField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  switch (field.type) {
+    case 'money':
+      return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'select':
+      return field.options?.find(o => o.value === value)?.label || String(value);
+    default:
+      return String(value);
+  }
+}
+
+function emptyDraft(section: SofaSection): EntryDraft {
+  return Object.fromEntries(section.fields.map(f => [f.name, f.type === 'boolean' ? false : '']));
+}
+
+export function FinancialAffairsQuestions({ caseId }: { caseId: string }) {
+  const [sections, setSections] = useState<SofaSection[]>([]);
+  const [answers, setAnswers] = useState<Partial<Record<SofaSectionKey, boolean>>>({});
+  const [entries, setEntries] = useState<Partial<Record<SofaSectionKey, SofaEntry[]>>>({});
+  const [step, setStep] = useState(0);
+  const [draft, setDraft] = useState<EntryDraft>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cases/${caseId}/sofa`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load questions');
+      setSections(data.sections);
+      setAnswers(data.answers);
+      setEntries(data.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load questions');
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const section = sections[step];
+
+  useEffect(() => {
+    if (section) setDraft(emptyDraft(section));
+  }, [section]);
+
+  const send = async (url: string, init: RequestInit, fallback: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || fallback);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAnswer = async (answer: boolean) => {
+    if (!section) return;
+    const data = await send(`/api/cases/${caseId}/sofa`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ section: section.key, answer }),
+    }, 'Failed to save answer');
+    if (data) setAnswers(prev => ({ ...prev, [section.key]: answer }));
+  };
+
+  const handleAddEntry = async () => {
+    if (!section) return;
+    const data = await send(`/api/cases/${caseId}/sofa/${section.key}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draft),
+    }, 'Failed to add details');
+    if (data) {
+      setEntries(prev => ({ ...prev, [section.key]: [...(prev[section.key] || []), data.entry] }));
+      setAnswers(prev => ({ ...prev, [section.key]: true }));
+      setDraft(emptyDraft(section));
+    }
+  };
+
+  const handleDeleteEntry = async (entryId: string) => {
+    if (!section) return;
+    const data = await send(`/api/cases/${caseId}/sofa/${section.key}/${entryId}`, { method: 'DELETE' }, 'Failed to remove details');
+    if (data) {
+      setEntries(prev => ({
+        ...prev,
+        [section.key]: (prev[section.key] || []).filter(e => e.id !== entryId),
+      }));
+    }
+  };
+
+  if (!section) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Financial History</CardTitle>
+          <CardDescription>{error || 'Loading...'}</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const sectionEntries = entries[section.key] || [];
+  const showEntries = answers[section.key] === true || sectionEntries.length > 0;
+  const isAnswered = (key: SofaSectionKey) => answers[key] !== undefined || (entries[key]?.length || 0) > 0;
+  const answeredCount = sections.filter(s => isAnswered(s.key)).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Financial History</CardTitle>
+        <CardDescription>
+          Question {step + 1} of {sections.length} · {answeredCount} answered
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {sections.map((s, index) => (
+            <button
+              key={s.key}
+              onClick={() => setStep(index)}
+              title={s.prompt}
+              className={`p-1 rounded ${index === step ? 'bg-primary/10' : 'hover:bg-muted'}`}
+            >
+              {isAnswered(s.key) ? (
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+              ) : (
+                <Circle className="w-4 h-4 text-muted-foreground" />
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-1">{section.prompt}</h3>
+          <p className="text-sm text-muted-foreground mb-4">Think back over the last {section.lookback}.</p>
+          <div className="flex gap-3">
+            <Button
+              variant={answers[section.key] === false && sectionEntries.length === 0 ? 'default' : 'outline'}
+              onClick={() => handleAnswer(false)}
+              disabled={saving || sectionEntries.length > 0}
+            >
+              No
+            </Button>
+            <Button variant={showEntries ? 'default' : 'outline'} onClick={() => handleAnswer(true)} disabled={saving}>
+              Yes
+            </Button>
+          </div>
+        </div>
+
+        {showEntries && (
+          <div className="space-y-4">
+            {sectionEntries.length > 0 && (
+              <ul className="divide-y rounded-lg border">
+                {sectionEntries.map(entry => (
+                  <li key={entry.id} className="flex items-start justify-between gap-4 p-3">
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                      {section.fields.map(f => (
+                        <div key={f.name}>
+                          <dt className="text-xs text-muted-foreground">{f.label}</dt>
+                          <dd>{formatValue(f, entry[f.name])}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                    <button
+                      onClick={() => handleDeleteEntry(entry.id)}
+                      className="p-1 text-muted-foreground hover:text-red-600"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {section.fields.map(f => (
+                <div key={f.name} className="space-y-1">
+                  <Label htmlFor={`portal-sofa-${f.name}`}>
+                    {f.label}
+                    {f.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  {f.type === 'select' ? (
+                    <select
+                      id={`portal-sofa-${f.name}`}
+                      value={String(draft[f.name] ?? '')}
+                      onChange={(e) => setDraft(prev => ({ ...prev, [f.name]: e.target.value }))}
+                      className="w-full h-9 px-3 rounded-md border bg-background text-sm"
+                    >
+                      <option value="">Select...</option>
+                      {f.options?.map(o => (
+                        <option key={o.value} value={o.value}>{o.label}</option>
+                      ))}
+                    </select>
+                  ) : f.type === 'boolean' ? (
+                    <div className="flex items-center h-9">
+                      <input
+                        id={`portal-sofa-${f.name}`}
+                        type="checkbox"
+                        checked={Boolean(draft[f.name])}
+                        onChange={(e) => setDraft(prev => ({ ...prev, [f.name]: e.target.checked }))}
+                        className="h-4 w-4"
+                      />
+                    </div>
+                  ) : (
+                    <Input
+                      id={`portal-sofa-${f.name}`}
+                      type={f.type === 'date' ? 'date' : f.type === 'money' ? 'number' : 'text'}
+                      step={f.type === 'money' ? '0.01' : undefined}
+                      value={String(draft[f.name] ?? '')}
+                      onChange={(e) => setDraft(prev => ({ ...prev, [f.name]: e.target.value }))}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleAddEntry} disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+            <ChevronLeft className="w-4 h-4 mr-2" />
+            Previous
+          </Button>
+          <Button onClick={() => setStep(step + 1)} disabled={step === sections.length - 1}>
+            Next
+            <ChevronRight className="w-4 h-4 ml-2" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * Household Questions
+ *
+ * Asks the debtor who lives in their household and, when they are married
+ * and filing alone, about their spouse's support of the household.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+
+export function HouseholdQuestions({ caseId }: { caseId: string }) {
+  const [householdSize, setHouseholdSize] = useState('');
+  const [filingType, setFilingType] = useState<'individual' | 'joint'>('individual');
+  const [marriedFilingAlone, setMarriedFilingAlone] = useState(false);
+  const [separateHousehold, setSeparateHousehold] = useState(false);
+  const [contribution, setContribution] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/cases/${caseId}/household`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load household');
+        setHouseholdSize(data.householdSize ? String(data.householdSize) : '');
+        setFilingType(data.filingType);
+        if (data.nonFilingSpouse) {
+          setMarriedFilingAlone(true);
+          setSeparateHousehold(data.nonFilingSpouse.separateHousehold);
+          setContribution(data.nonFilingSpouse.householdContribution?.toString() ?? '');
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load household'))
+      .finally(() => setLoading(false));
+  }, [caseId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${caseId}/household`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          householdSize: Number(householdSize),
+          nonFilingSpouse: marriedFilingAlone
+            ? { separateHousehold, householdContribution: contribution === '' ? null : Number(contribution) }
+            : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save');
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Household</CardTitle>
+        <CardDescription>
+          {loading ? 'Loading...' : 'Tell us who lives with you and shares household expenses.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="household-size">How many people live in your household, including you?</Label>
+          <Input
+            id="household-size"
+            type="number"
+            min={1}
+            max={20}
+            value={householdSize}
+            onChange={(e) => setHouseholdSize(e.target.value)}
+            className="max-w-32"
+          />
+          <p className="text-xs text-muted-foreground">
+            Count yourself, your spouse, and anyone you support who lives with you.
+          </p>
+        </div>
+
+        {filingType === 'individual' && (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={marriedFilingAlone}
+                onChange={(e) => setMarriedFilingAlone(e.target.checked)}
+                className="h-4 w-4"
+              />
+              I am married, and my spouse is not filing with me
+            </label>
+
+            {marriedFilingAlone && (
+              <div className="space-y-3 pl-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={separateHousehold}
+                    onChange={(e) => setSeparateHousehold(e.target.checked)}
+                    className="h-4 w-4"
+                  />
+                  My spouse and I live apart
+                </label>
+                <div className="space-y-2">
+                  <Label htmlFor="spouse-contribution">
+                    How much does your spouse pay toward household expenses each month?
+                  </Label>
+                  <Input
+                    id="spouse-contribution"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={contribution}
+                    onChange={(e) => setContribution(e.target.value)}
+                    className="max-w-48"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleSave} disabled={!householdSize || saving || loading}>
+            {saving ? 'Saving...' : 'Save Answers'}
+          </Button>
+          {saved && <span className="text-sm text-green-700">Saved</span>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
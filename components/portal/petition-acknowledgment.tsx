@@ -0,0 +1,222 @@
+/**
+ * Petition Acknowledgment
+ *
+ * Shows the debtor a summary of their petition and records their typed
+ * signature declaring it true and correct. The acknowledgment names the
+ * summary's digest, so a later change to the case asks them to sign again.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Alert, AlertDescription } from '../ui/alert';
+import type { AcknowledgmentStatus, SummaryLine } from '@/lib/bankruptcy/acknowledgment';
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function SummarySection({ title, lines, total, note }: {
+  title: string;
+  lines: SummaryLine[];
+  total: number;
+  note?: string;
+}) {
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="font-semibold">{title}</h3>
+        <span className="text-sm font-medium">{formatMoney(total)}</span>
+      </div>
+      {note && <p className="text-xs text-muted-foreground mb-2">{note}</p>}
+      {lines.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None listed</p>
+      ) : (
+        <ul className="divide-y rounded-lg border text-sm">
+          {lines.map((line, index) => (
+            <li key={index} className="flex justify-between gap-4 px-3 py-2">
+              <span>
+                {line.label}
+                {line.detail && <span className="text-muted-foreground"> · {line.detail}</span>}
+              </span>
+              <span>{formatMoney(line.amount)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function PetitionAcknowledgment({ caseId }: { caseId: string }) {
+  const [status, setStatus] = useState<AcknowledgmentStatus | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [agreed, setAgreed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cases/${caseId}/acknowledgment`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load your petition');
+      setStatus(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your petition');
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSign = async () => {
+    if (!status) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${caseId}/acknowledgment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signerName, agreed, digest: status.digest }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        // A changed petition needs a fresh look before signing
+        if (response.status === 409) await load();
+        throw new Error(data.error || 'Failed to sign');
+      }
+      setAgreed(false);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Review and Sign</CardTitle>
+          <CardDescription>{error || 'Loading...'}</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const { summary, acknowledgment, current } = status;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Review Your Petition</CardTitle>
+          <CardDescription>
+            {summary.chapter === 'chapter7' ? 'Chapter 7' : 'Chapter 13'} ·{' '}
+            {summary.filingType === 'joint' ? 'Joint filing' : 'Individual filing'}
+            {summary.householdSize && ` · Household of ${summary.householdSize}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="text-sm">
+            <p className="font-medium">{summary.debtor.name}</p>
+            {summary.debtor.address && <p>{summary.debtor.address}</p>}
+            {summary.debtor.county && <p className="text-muted-foreground">{summary.debtor.county} County</p>}
+          </div>
+
+          <SummarySection
+            title="Income"
+            lines={summary.income}
+            total={summary.totals.income}
+            note="Gross income from the pay records and statements you provided"
+          />
+          <SummarySection title="Monthly Expenses" lines={summary.expenses} total={summary.totals.expenses} />
+          <SummarySection title="Property" lines={summary.assets} total={summary.totals.assets} />
+          <SummarySection title="Debts" lines={summary.debts} total={summary.totals.debts} />
+
+          <div>
+            <h3 className="font-semibold mb-2">Financial History</h3>
+            {summary.sofaYes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You answered &quot;no&quot; to every question.</p>
+            ) : (
+              <ul className="list-disc pl-5 text-sm space-y-1">
+                {summary.sofaYes.map(prompt => <li key={prompt}>Yes: {prompt}</li>)}
+              </ul>
+            )}
+            {summary.sofaUnanswered > 0 && (
+              <p className="text-xs text-amber-700 mt-2">
+                {summary.sofaUnanswered} question{summary.sofaUnanswered === 1 ? '' : 's'} not answered yet
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sign</CardTitle>
+          <CardDescription>
+            If anything above is wrong or missing, contact your attorney before signing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {acknowledgment && current && (
+            <div className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle2 className="w-5 h-5" />
+              Signed by {acknowledgment.signerName} on{' '}
+              {new Date(acknowledgment.acknowledgedAt).toLocaleString()}
+            </div>
+          )}
+          {acknowledgment && !current && (
+            <Alert>
+              <AlertDescription>
+                Your petition has changed since you signed it on{' '}
+                {new Date(acknowledgment.acknowledgedAt).toLocaleDateString()}. Please review it and sign again.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!current && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="signer-name">Type your full name</Label>
+                <Input
+                  id="signer-name"
+                  value={signerName}
+                  onChange={(e) => setSignerName(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={agreed}
+                  onChange={(e) => setAgreed(e.target.checked)}
+                  className="h-4 w-4 mt-0.5"
+                  disabled={saving}
+                />
+                I have reviewed this information and declare under penalty of perjury that it is
+                true and correct.
+              </label>
+              <Button onClick={handleSign} disabled={!signerName.trim() || !agreed || saving}>
+                {saving ? 'Signing...' : 'Sign Petition'}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
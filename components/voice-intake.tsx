@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Mic, Phone, PhoneOff, Volume2, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
 import { useEffect, useCallback } from 'react';
+import { SimpleAuth } from '@/lib/auth/simple-auth';
 
 interface ClientIntakeData {
   clientName?: string;
@@ -42,12 +43,6 @@ export function VoiceIntake({
   const publicKey = process.env.NEXT_PUBLIC_VAPI_PUBLIC_KEY || '';
   const assistantId = process.env.NEXT_PUBLIC_VAPI_ASSISTANT_ID || '';
 
-  // Get database connection from localStorage for Vapi to use in function calls
-  const getConnectionString = () => {
-    if (typeof window === 'undefined') return null;
-    return localStorage.getItem('bankruptcy_db_connection');
-  };
-
   const {
     startCall,
     endCall,
@@ -129,13 +124,14 @@ export function VoiceIntake({
     }
   }, [isSessionActive, transcripts, onCallEnd]);
 
-  const handleStartCall = useCallback(() => {
-    const connectionString = getConnectionString();
+  const handleStartCall = useCallback(async () => {
+    // The webhook resolves the call token to this session's database
+    const callToken = await SimpleAuth.getCallToken();
 
     // Pass metadata to Vapi for function calls
     const assistantOverrides: Record<string, unknown> = {
       metadata: {
-        connectionString,
+        callToken,
         existingCaseId,
       },
     };
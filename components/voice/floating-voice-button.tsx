@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import { useVapi } from "@/app/hooks/useVapi";
 import { Button } from "@/components/ui/button";
+import { SimpleAuth } from "@/lib/auth/simple-auth";
 
 interface FloatingVoiceButtonProps {
   position?: "bottom-right" | "bottom-left";
@@ -84,11 +85,11 @@ export function FloatingVoiceButton({
     return null;
   }
 
-  const handleStartCall = () => {
-    const connectionString = localStorage.getItem("bankruptcy_db_connection");
+  const handleStartCall = async () => {
+    const callToken = await SimpleAuth.getCallToken();
     startCall({
       metadata: {
-        connectionString,
+        callToken,
         source: "floating-button",
       },
     });
@@ -7,6 +7,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Input } from "@/components/ui/input";
 import { useVapi } from "@/app/hooks/useVapi";
 import { getUserId } from "@/lib/utils/get-user-id";
+import { SimpleAuth } from "@/lib/auth/simple-auth";
 
 interface IntakeCallButtonProps {
   className?: string;
@@ -14,7 +15,6 @@ interface IntakeCallButtonProps {
 
 export function IntakeCallButton({ className }: IntakeCallButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [connectionString, setConnectionString] = useState<string | null>(null);
   const [textInput, setTextInput] = useState("");
   const [currentUserId, setCurrentUserId] = useState<string>("");
 
@@ -35,14 +35,11 @@ export function IntakeCallButton({ className }: IntakeCallButtonProps) {
   });
 
   useEffect(() => {
-    const stored = localStorage.getItem("bankruptcy_db_connection");
-    setConnectionString(stored);
-
-    // Get user ID (works with or without auth)
-    // If Better Auth is enabled and user is logged in, we could enhance this
-    // to try fetching from session first, but for now use localStorage-based ID
-    const userId = getUserId();
-    setCurrentUserId(userId);
+    // Firm members are identified by their account; API key sessions fall
+    // back to the localStorage-based ID
+    SimpleAuth.getSession()
+      .then(session => setCurrentUserId(getUserId(session?.member?.userId)))
+      .catch(() => setCurrentUserId(getUserId()));
   }, []);
 
   const handleOpenModal = () => {
@@ -53,15 +50,16 @@ export function IntakeCallButton({ className }: IntakeCallButtonProps) {
   const handleStartCall = async () => {
     clearError();
 
-    // Pass connection string and userId as both metadata AND variableValues
+    // Pass call token and userId as both metadata AND variableValues
     // Web SDK might not forward metadata to webhooks, so we try both approaches
+    const callToken = await SimpleAuth.getCallToken();
     await startCall({
       metadata: {
-        connectionString: connectionString,
+        callToken,
         userId: currentUserId,
       },
       variableValues: {
-        connectionString: connectionString,
+        callToken,
         userId: currentUserId,
       },
     });
@@ -78,18 +78,12 @@ export function OutboundCallModal({
     setApiError(null);
 
     try {
-      // Get database connection from localStorage
-      const connectionString = localStorage.getItem('bankruptcy_db_connection');
-      if (!connectionString) {
-        throw new Error('Database connection not found. Please refresh the page.');
-      }
-
       // Format phone to E.164 format
       const formattedPhone = formatToE164(phoneNumber);
 
       // Call API to initiate outbound call
       const response = await fetch(
-        `/api/vapi/outbound?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/vapi/outbound`,
         {
           method: "POST",
           headers: {
@@ -20,6 +20,7 @@ import {
   formatForDisplay,
 } from "@/lib/utils/phone-validation";
 import { getUserId } from "@/lib/utils/get-user-id";
+import { SimpleAuth } from "@/lib/auth/simple-auth";
 
 interface OutboundIntakeModalProps {
   open: boolean;
@@ -83,13 +84,8 @@ export function OutboundIntakeModal({
     setApiError(null);
 
     try {
-      // Get database connection and userId
-      const connectionString = localStorage.getItem('bankruptcy_db_connection');
-      if (!connectionString) {
-        throw new Error('Database connection not found. Please configure your API key first.');
-      }
-
-      const userId = getUserId();
+      const session = await SimpleAuth.getSession();
+      const userId = getUserId(session?.member?.userId);
       const clientName = `${firstName.trim()} ${lastName.trim()}`;
       const formattedPhone = formatToE164(phoneNumber);
 
@@ -98,7 +94,6 @@ export function OutboundIntakeModal({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          connectionString,
           userId,
           firstName: firstName.trim(),
           lastName: lastName.trim(),
@@ -115,7 +110,7 @@ export function OutboundIntakeModal({
 
       // Step 2: Initiate outbound call
       const callResponse = await fetch(
-        `/api/vapi/outbound?connectionString=${encodeURIComponent(connectionString)}`,
+        `/api/vapi/outbound`,
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
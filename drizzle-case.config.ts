@@ -0,0 +1,12 @@
+import { defineConfig } from 'drizzle-kit';
+
+/**
+ * Migrations for the per-user case databases. Generate with
+ * `bun drizzle-kit generate --config drizzle-case.config.ts`; they are
+ * applied on connect by lib/db/migrate.ts.
+ */
+export default defineConfig({
+  schema: './lib/db/case-schema.ts',
+  out: './drizzle/case',
+  dialect: 'postgresql',
+});
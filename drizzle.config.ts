@@ -7,6 +7,15 @@ export default defineConfig({
   schema: './lib/db/schema.ts',
   out: './drizzle',
   dialect: 'postgresql',
+  // Case tables left here from before per-firm case databases; push must not drop them
+  tablesFilter: [
+    '!assets',
+    '!bankruptcy_cases',
+    '!case_documents',
+    '!debts',
+    '!income_records',
+    '!means_test_results',
+  ],
   dbCredentials: {
     url: process.env.DATABASE_URL!,
   },
@@ -0,0 +1,7 @@
+-- Custom SQL migration file, put your code below! --
+-- Case tables now live in each firm's case database (drizzle/case). Earlier
+-- installs kept cases in this database's assets, bankruptcy_cases,
+-- case_documents, debts, income_records and means_test_results tables; they
+-- are left in place so no case data is lost. See "Legacy case tables" in the
+-- README for copying them out and dropping them by hand.
+SELECT 1;
@@ -0,0 +1,2 @@
+ALTER TABLE "invitation" ADD COLUMN "case_id" text;--> statement-breakpoint
+ALTER TABLE "member" ADD COLUMN "case_id" text;
\ No newline at end of file
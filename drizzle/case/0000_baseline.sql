@@ -0,0 +1,574 @@
+-- Baseline for case databases. Idempotent so databases whose tables were
+-- created inline before migrations existed can adopt it: tables and indexes
+-- use IF NOT EXISTS, and the ADD COLUMN statements bring older tables up
+-- to the columns in lib/db/case-schema.ts.
+CREATE TABLE IF NOT EXISTS "asset_exemptions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"asset_id" text NOT NULL,
+	"scheme_id" text NOT NULL,
+	"rule_id" text NOT NULL,
+	"category" text NOT NULL,
+	"statute" text NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "assets" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"asset_type" text NOT NULL,
+	"description" text NOT NULL,
+	"current_value" numeric(10, 2) NOT NULL,
+	"address" text,
+	"make" text,
+	"model" text,
+	"year" integer,
+	"vin" text,
+	"institution" text,
+	"account_number_last4" text,
+	"statement_date" date,
+	"ownership_percentage" numeric(5, 2) DEFAULT '100',
+	"document_id" text,
+	"confidence" numeric(3, 2),
+	"field_sources" jsonb,
+	"review_status" text,
+	"determination_method" text,
+	"verified_by" text,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "background_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"job_type" text NOT NULL,
+	"case_id" text NOT NULL,
+	"subject_id" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"current_step" text,
+	"step_results" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"message" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"run_after" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_by" text,
+	"locked_at" timestamp with time zone,
+	"last_error" text,
+	"api_key_encrypted" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bank_transactions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"document_id" text,
+	"account_last4" text,
+	"posted_date" date NOT NULL,
+	"description" text NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"category" text NOT NULL,
+	"category_override" boolean DEFAULT false NOT NULL,
+	"recurring" boolean DEFAULT false NOT NULL,
+	"flag" text,
+	"field_sources" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bankruptcy_cases" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"user_id" text,
+	"client_name" text NOT NULL,
+	"client_email" text,
+	"client_phone" text,
+	"ssn_last4" text,
+	"address" text,
+	"city" text,
+	"state" text,
+	"zip" text,
+	"county" text,
+	"case_type" text NOT NULL,
+	"filing_type" text NOT NULL,
+	"household_size" integer,
+	"status" text DEFAULT 'intake' NOT NULL,
+	"pacer_case_number" text,
+	"court_district" text,
+	"filing_date" date,
+	"discharge_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "case_documents" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid()::text NOT NULL,
+	"case_id" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_type" text,
+	"file_size" integer,
+	"vault_file_id" text,
+	"document_type" text,
+	"validation_status" text DEFAULT 'pending',
+	"extracted_data" jsonb,
+	"ocr_text" text,
+	"ocr_completed" boolean DEFAULT false,
+	"classification" jsonb,
+	"review_status" text,
+	"verified_by" text,
+	"verified_at" timestamp,
+	"uploaded_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "case_insiders" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"name" text NOT NULL,
+	"relationship" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "codebtors" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"debt_id" text NOT NULL,
+	"name" text NOT NULL,
+	"address" text,
+	"relationship" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "debts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"creditor_name" text NOT NULL,
+	"creditor_address" text,
+	"account_number" text,
+	"account_last4" text,
+	"balance" numeric(10, 2) NOT NULL,
+	"monthly_payment" numeric(10, 2),
+	"interest_rate" numeric(5, 2),
+	"debt_type" text NOT NULL,
+	"secured" boolean DEFAULT false,
+	"priority" boolean DEFAULT false,
+	"collateral" text,
+	"collateral_value" numeric(10, 2),
+	"date_incurred" date,
+	"statement_date" date,
+	"document_id" text,
+	"confidence" numeric(3, 2),
+	"field_sources" jsonb,
+	"review_status" text,
+	"determination_method" text,
+	"verified_by" text,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "document_batch_pages" (
+	"id" text PRIMARY KEY NOT NULL,
+	"batch_id" text NOT NULL,
+	"source_id" text NOT NULL,
+	"page_number" integer NOT NULL,
+	"vault_file_id" text,
+	"ocr_text" text,
+	"classification" jsonb,
+	"document_id" text,
+	CONSTRAINT "document_batch_pages_source_id_page_number_key" UNIQUE("source_id","page_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "document_batch_sources" (
+	"id" text PRIMARY KEY NOT NULL,
+	"batch_id" text NOT NULL,
+	"source_index" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"content_type" text NOT NULL,
+	"vault_file_id" text NOT NULL,
+	"page_count" integer DEFAULT 1 NOT NULL,
+	CONSTRAINT "document_batch_sources_batch_id_source_index_key" UNIQUE("batch_id","source_index")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "document_batches" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"status" text DEFAULT 'processing' NOT NULL,
+	"source_count" integer DEFAULT 0 NOT NULL,
+	"document_count" integer DEFAULT 0 NOT NULL,
+	"skipped_files" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "executory_contracts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"counterparty_name" text NOT NULL,
+	"counterparty_address" text,
+	"contract_type" text NOT NULL,
+	"description" text NOT NULL,
+	"monthly_payment" numeric(10, 2),
+	"expiration_date" date,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "expenses" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"document_id" text,
+	"category" text NOT NULL,
+	"description" text,
+	"monthly_amount" numeric(10, 2) NOT NULL,
+	"is_irs_standard" boolean DEFAULT false,
+	"irs_standard_type" text,
+	"confidence" numeric(3, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "household_income_settings" (
+	"case_id" text PRIMARY KEY NOT NULL,
+	"spouse_household_contribution" numeric(10, 2),
+	"spouse_separate_household" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "income_records" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"document_id" text,
+	"income_month" text NOT NULL,
+	"employer" text,
+	"occupation" text,
+	"gross_amount" numeric(10, 2) NOT NULL,
+	"net_amount" numeric(10, 2),
+	"income_source" text DEFAULT 'employment' NOT NULL,
+	"description" text,
+	"confidence" numeric(3, 2),
+	"extracted_at" timestamp,
+	"field_sources" jsonb,
+	"review_status" text,
+	"determination_method" text,
+	"verified_by" text,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "means_test_results" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"current_monthly_income" numeric(10, 2) NOT NULL,
+	"annualized_income" numeric(10, 2) NOT NULL,
+	"state_median_income" numeric(10, 2) NOT NULL,
+	"below_median" boolean NOT NULL,
+	"disposable_income" numeric(10, 2),
+	"passed" boolean NOT NULL,
+	"eligible" boolean NOT NULL,
+	"explanation" text,
+	"standards_version" text NOT NULL,
+	"calculated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "means_test_results_case_id_key" UNIQUE("case_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reconciled_income_sources" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"employer_name" text NOT NULL,
+	"employer_ein" text,
+	"income_type" text NOT NULL,
+	"income_year" integer DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::integer NOT NULL,
+	"verified_annual_gross" numeric(12, 2) NOT NULL,
+	"verified_monthly_gross" numeric(12, 2) NOT NULL,
+	"verified_annual_net" numeric(12, 2),
+	"verified_monthly_net" numeric(12, 2),
+	"determination_method" text NOT NULL,
+	"evidence" jsonb,
+	"confidence" numeric(3, 2) NOT NULL,
+	"status" text NOT NULL,
+	"discrepancy" jsonb,
+	"review_status" text,
+	"verified_by" text,
+	"verified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reconciliation_policies" (
+	"version" integer PRIMARY KEY NOT NULL,
+	"settings" jsonb NOT NULL,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "reconciliation_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"trigger" text NOT NULL,
+	"policy_version" integer NOT NULL,
+	"policy" jsonb NOT NULL,
+	"inputs" jsonb NOT NULL,
+	"sources" jsonb NOT NULL,
+	"decisions" jsonb NOT NULL,
+	"current_monthly_income" numeric(12, 2) NOT NULL,
+	"diff" jsonb NOT NULL,
+	"previous_run_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "self_employment_entries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"business_name" text NOT NULL,
+	"entry_month" text NOT NULL,
+	"entry_type" text NOT NULL,
+	"category" text,
+	"amount" numeric(12, 2) NOT NULL,
+	"description" text,
+	"tax_form_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_answers" (
+	"case_id" text NOT NULL,
+	"section" text NOT NULL,
+	"answer" boolean NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sofa_answers_pkey" PRIMARY KEY("case_id","section")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_closed_accounts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"institution" text NOT NULL,
+	"account_last4" text,
+	"account_type" text NOT NULL,
+	"closed_date" date NOT NULL,
+	"last_balance" numeric(12, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_creditor_payments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"creditor_name" text NOT NULL,
+	"creditor_address" text,
+	"payment_dates" text NOT NULL,
+	"total_paid" numeric(12, 2) NOT NULL,
+	"amount_still_owed" numeric(12, 2),
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_gifts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"recipient_name" text NOT NULL,
+	"relationship" text,
+	"is_charity" boolean,
+	"description" text NOT NULL,
+	"gift_date" date NOT NULL,
+	"value" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_income_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"income_type" text NOT NULL,
+	"year" text NOT NULL,
+	"source" text NOT NULL,
+	"gross_amount" numeric(12, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_insider_payments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"insider_name" text NOT NULL,
+	"relationship" text NOT NULL,
+	"payment_dates" text NOT NULL,
+	"total_paid" numeric(12, 2) NOT NULL,
+	"amount_still_owed" numeric(12, 2),
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_lawsuits" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"case_title" text NOT NULL,
+	"case_number" text,
+	"nature_of_case" text NOT NULL,
+	"court" text NOT NULL,
+	"status" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_losses" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"description" text NOT NULL,
+	"loss_date" date NOT NULL,
+	"value" numeric(12, 2) NOT NULL,
+	"insurance_paid" numeric(12, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_prior_addresses" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"street" text NOT NULL,
+	"city" text NOT NULL,
+	"state" text NOT NULL,
+	"zip" text,
+	"from_date" date NOT NULL,
+	"to_date" date NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_repossessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"creditor_name" text NOT NULL,
+	"property" text NOT NULL,
+	"action" text NOT NULL,
+	"action_date" date NOT NULL,
+	"value" numeric(12, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_safe_deposit_boxes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"institution" text NOT NULL,
+	"institution_address" text,
+	"access_holders" text,
+	"contents" text NOT NULL,
+	"still_has" boolean,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sofa_transfers" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"transferee_name" text NOT NULL,
+	"relationship" text,
+	"description" text NOT NULL,
+	"transfer_date" date NOT NULL,
+	"payment_received" numeric(12, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "tax_forms" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"document_id" text,
+	"form_type" text NOT NULL,
+	"tax_year" integer NOT NULL,
+	"payer_name" text,
+	"figures" jsonb NOT NULL,
+	"confidence" numeric(3, 2),
+	"field_sources" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ALTER COLUMN "id" SET DEFAULT gen_random_uuid()::text;--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN IF NOT EXISTS "user_id" text;--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN IF NOT EXISTS "pacer_case_number" text;--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN IF NOT EXISTS "court_district" text;--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN IF NOT EXISTS "filing_date" date;--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN IF NOT EXISTS "discharge_date" date;--> statement-breakpoint
+ALTER TABLE "case_documents" ADD COLUMN IF NOT EXISTS "classification" jsonb;--> statement-breakpoint
+ALTER TABLE "case_documents" ADD COLUMN IF NOT EXISTS "review_status" text;--> statement-breakpoint
+ALTER TABLE "case_documents" ADD COLUMN IF NOT EXISTS "verified_by" text;--> statement-breakpoint
+ALTER TABLE "case_documents" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "document_id" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "income_month" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "occupation" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "gross_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "net_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "description" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "confidence" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "extracted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "field_sources" jsonb;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "review_status" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "determination_method" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "verified_by" text;--> statement-breakpoint
+ALTER TABLE "income_records" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "reconciled_income_sources" ADD COLUMN IF NOT EXISTS "income_year" integer DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::integer;--> statement-breakpoint
+ALTER TABLE "reconciled_income_sources" ADD COLUMN IF NOT EXISTS "review_status" text;--> statement-breakpoint
+ALTER TABLE "reconciled_income_sources" ADD COLUMN IF NOT EXISTS "verified_by" text;--> statement-breakpoint
+ALTER TABLE "reconciled_income_sources" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "account_last4" text;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "statement_date" date;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "document_id" text;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "confidence" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "field_sources" jsonb;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "review_status" text;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "determination_method" text;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "verified_by" text;--> statement-breakpoint
+ALTER TABLE "debts" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "institution" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "account_number_last4" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "statement_date" date;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "document_id" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "confidence" numeric(3, 2);--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "field_sources" jsonb;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "review_status" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "determination_method" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "verified_by" text;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN IF NOT EXISTS "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "document_id" text;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "confidence" numeric(3, 2);--> statement-breakpoint
+DO $$ BEGIN
+ IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'case_documents_case_id_fkey') THEN
+  ALTER TABLE "case_documents" ADD CONSTRAINT "case_documents_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "public"."bankruptcy_cases"("id") ON DELETE cascade ON UPDATE no action;
+ END IF;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'document_batch_pages_batch_id_fkey') THEN
+  ALTER TABLE "document_batch_pages" ADD CONSTRAINT "document_batch_pages_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "public"."document_batches"("id") ON DELETE cascade ON UPDATE no action;
+ END IF;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'document_batch_pages_source_id_fkey') THEN
+  ALTER TABLE "document_batch_pages" ADD CONSTRAINT "document_batch_pages_source_id_fkey" FOREIGN KEY ("source_id") REFERENCES "public"."document_batch_sources"("id") ON DELETE cascade ON UPDATE no action;
+ END IF;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'document_batch_sources_batch_id_fkey') THEN
+  ALTER TABLE "document_batch_sources" ADD CONSTRAINT "document_batch_sources_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "public"."document_batches"("id") ON DELETE cascade ON UPDATE no action;
+ END IF;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "asset_exemptions_case_id_idx" ON "asset_exemptions" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "assets_case_id_idx" ON "assets" USING btree ("case_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "background_jobs_active_idx" ON "background_jobs" USING btree ("job_type","subject_id") WHERE status IN ('queued', 'running');--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "background_jobs_ready_idx" ON "background_jobs" USING btree ("status","run_after");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bank_transactions_case_date_idx" ON "bank_transactions" USING btree ("case_id","posted_date");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bankruptcy_cases_status_idx" ON "bankruptcy_cases" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "case_documents_case_id_idx" ON "case_documents" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "case_documents_type_idx" ON "case_documents" USING btree ("document_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "case_insiders_case_id_idx" ON "case_insiders" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "codebtors_case_id_idx" ON "codebtors" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "codebtors_debt_id_idx" ON "codebtors" USING btree ("debt_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "debts_case_id_idx" ON "debts" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "debts_type_idx" ON "debts" USING btree ("debt_type");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "executory_contracts_case_id_idx" ON "executory_contracts" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "expenses_case_id_idx" ON "expenses" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "expenses_category_idx" ON "expenses" USING btree ("category");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "income_records_case_id_idx" ON "income_records" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "income_records_month_idx" ON "income_records" USING btree ("income_month");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciled_income_sources_case_id_idx" ON "reconciled_income_sources" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "reconciliation_runs_case_created_idx" ON "reconciliation_runs" USING btree ("case_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "self_employment_entries_case_month_idx" ON "self_employment_entries" USING btree ("case_id","entry_month");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_closed_accounts_case_id_idx" ON "sofa_closed_accounts" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_creditor_payments_case_id_idx" ON "sofa_creditor_payments" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_gifts_case_id_idx" ON "sofa_gifts" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_income_history_case_id_idx" ON "sofa_income_history" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_insider_payments_case_id_idx" ON "sofa_insider_payments" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_lawsuits_case_id_idx" ON "sofa_lawsuits" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_losses_case_id_idx" ON "sofa_losses" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_prior_addresses_case_id_idx" ON "sofa_prior_addresses" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_repossessions_case_id_idx" ON "sofa_repossessions" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_safe_deposit_boxes_case_id_idx" ON "sofa_safe_deposit_boxes" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sofa_transfers_case_id_idx" ON "sofa_transfers" USING btree ("case_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tax_forms_case_year_idx" ON "tax_forms" USING btree ("case_id","tax_year");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "petition_acknowledgments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"case_id" text NOT NULL,
+	"signer_name" text NOT NULL,
+	"summary" jsonb NOT NULL,
+	"summary_digest" text NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"acknowledged_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "petition_acknowledgments_case_acknowledged_idx" ON "petition_acknowledgments" USING btree ("case_id","acknowledged_at");
\ No newline at end of file
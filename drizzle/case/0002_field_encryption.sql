@@ -0,0 +1,9 @@
+CREATE TABLE "data_keys" (
+	"version" integer PRIMARY KEY NOT NULL,
+	"wrapped_key" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"retired_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN "ssn" text;--> statement-breakpoint
+ALTER TABLE "bankruptcy_cases" ADD COLUMN "date_of_birth" text;
\ No newline at end of file
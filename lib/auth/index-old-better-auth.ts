@@ -10,7 +10,7 @@
 import { betterAuth } from "better-auth";
 import { organization, twoFactor } from "better-auth/plugins";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
-import { db } from "../db";
+import { getDb } from "../db";
 import { ac, roles } from "./permissions";
 
 /**
@@ -58,7 +58,7 @@ export const auth = betterAuth({
    * Database Configuration
    * Connected to PostgreSQL via Drizzle ORM
    */
-  database: drizzleAdapter(db, {
+  database: drizzleAdapter(getDb(), {
     provider: "pg",
   }),
 
@@ -1,8 +1,9 @@
 /**
  * Auth Stub (Better Auth Removed)
  *
- * This app uses simple case.dev API key authentication stored in localStorage.
- * No Better Auth, no database, no sessions - just API keys!
+ * Sign-in uses server-side sessions (./session.ts), started with a case.dev
+ * API key or, for firm members, email and password (./organization.ts).
+ * This stub only keeps the Better Auth route at /api/auth importable.
  */
 
 // Export stub to prevent import errors
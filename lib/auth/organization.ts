@@ -0,0 +1,515 @@
+/**
+ * Firm Accounts
+ *
+ * Organizations (firms), their members and invitations, stored in the
+ * directory database. A firm runs on its owner's case.dev key and case
+ * database: the owner creates the firm from an API key session, and members
+ * who accept an invitation sign in with email and password and get a
+ * session over the same key and database.
+ */
+
+import crypto from 'crypto';
+import { and, eq, gt } from 'drizzle-orm';
+import { db, getDb } from '../db';
+import {
+  account,
+  caseDevCredentials,
+  invitation,
+  member,
+  organization,
+  user,
+  userDatabases,
+} from '../db/schema';
+import { ApiKeyEncryption } from '../case-dev/encryption';
+import { getApiKeyForUser } from '../case-dev/storage';
+import { hashPassword, verifyPassword, MIN_PASSWORD_LENGTH } from './password';
+import { isLegalRole } from './permissions';
+import type { LegalRole } from './roles';
+import type { SessionMember } from './session';
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CREDENTIAL_PROVIDER = 'credential';
+
+/**
+ * A request the directory refuses; status is the HTTP status routes return
+ */
+export class MembershipError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'MembershipError';
+  }
+}
+
+/** What a member's session runs on */
+export interface FirmAccess {
+  member: SessionMember;
+  apiKey: string;
+  database: { projectId: string; connectionString: string } | null;
+}
+
+export interface FirmMember {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: LegalRole;
+  caseId: string | null;
+  createdAt: Date;
+}
+
+export interface PendingInvitation {
+  id: string;
+  email: string;
+  role: LegalRole;
+  caseId: string | null;
+  expiresAt: Date;
+}
+
+export interface Firm {
+  id: string;
+  name: string;
+  members: FirmMember[];
+  invitations: PendingInvitation[];
+}
+
+const recordId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+function validateCredentials(email: string, password: string) {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new MembershipError('A valid email address is required');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new MembershipError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function toSessionMember(row: { userId: string; organizationId: string; role: string; caseId: string | null }): SessionMember {
+  if (!isLegalRole(row.role)) {
+    throw new MembershipError(`Unknown role: ${row.role}`, 500);
+  }
+  return { userId: row.userId, organizationId: row.organizationId, role: row.role, caseId: row.caseId };
+}
+
+async function assertEmailUnused(email: string) {
+  const [existing] = await getDb().select({ id: user.id }).from(user).where(eq(user.email, email)).limit(1);
+  if (existing) {
+    throw new MembershipError('An account with this email already exists', 409);
+  }
+}
+
+/**
+ * Whether a directory database is configured for firm accounts
+ */
+export function firmAccountsEnabled(): boolean {
+  return db !== null;
+}
+
+/**
+ * The firm membership an API key belongs to, found through the owner's
+ * stored credentials. Null without a directory database or a match.
+ */
+export async function findKeyMember(apiKey: string): Promise<SessionMember | null> {
+  if (!db) return null;
+
+  const candidates = await db
+    .select({
+      apiKeyEncrypted: caseDevCredentials.apiKeyEncrypted,
+      userId: member.userId,
+      organizationId: member.organizationId,
+      role: member.role,
+      caseId: member.caseId,
+    })
+    .from(caseDevCredentials)
+    .innerJoin(member, eq(member.userId, caseDevCredentials.userId))
+    .where(eq(caseDevCredentials.apiKeyLast4, ApiKeyEncryption.getLast4(apiKey)));
+
+  for (const candidate of candidates) {
+    const { encrypted, iv, tag } = ApiKeyEncryption.split(candidate.apiKeyEncrypted);
+    if (ApiKeyEncryption.decrypt(encrypted, iv, tag) === apiKey) {
+      return toSessionMember(candidate);
+    }
+  }
+  return null;
+}
+
+/** How actions by an API key session without a firm member are attributed */
+export const API_KEY_OWNER_LABEL = 'Firm owner (API key)';
+
+/**
+ * Who a session acts as, for attributing actions such as review decisions:
+ * the member's name and email, or a fixed label for API key and client
+ * portal sessions
+ */
+export async function describeSessionMember(sessionMember: SessionMember | null): Promise<string> {
+  if (!sessionMember) return API_KEY_OWNER_LABEL;
+  if (!sessionMember.userId) return 'Client (portal link)';
+
+  const [found] = await getDb()
+    .select({ name: user.name, email: user.email })
+    .from(user)
+    .where(eq(user.id, sessionMember.userId))
+    .limit(1);
+  return found ? `${found.name} (${found.email})` : sessionMember.userId;
+}
+
+/**
+ * Create a firm owned by the holder of an API key session, storing the
+ * sealed key and the session's case database for members to use
+ */
+export async function createFirm(input: {
+  firmName: string;
+  ownerName: string;
+  email: string;
+  password: string;
+  apiKey: string;
+  database: { projectId: string; connectionString: string };
+}): Promise<SessionMember> {
+  const firmName = input.firmName.trim();
+  const ownerName = input.ownerName.trim();
+  const email = normalizeEmail(input.email);
+
+  if (!firmName || !ownerName) {
+    throw new MembershipError('Firm name and your name are required');
+  }
+  validateCredentials(email, input.password);
+
+  if (await findKeyMember(input.apiKey)) {
+    throw new MembershipError('This case.dev key already belongs to a firm', 409);
+  }
+  await assertEmailUnused(email);
+
+  const passwordHash = await hashPassword(input.password);
+  const { encrypted, iv, tag } = ApiKeyEncryption.encrypt(input.apiKey);
+  const userId = recordId('user');
+  const organizationId = recordId('org');
+  const slug = `${firmName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-${Date.now().toString(36)}`;
+
+  await getDb().transaction(async tx => {
+    await tx.insert(user).values({ id: userId, name: ownerName, email });
+    await tx.insert(account).values({
+      id: recordId('account'),
+      accountId: userId,
+      providerId: CREDENTIAL_PROVIDER,
+      userId,
+      password: passwordHash,
+    });
+    await tx.insert(organization).values({ id: organizationId, name: firmName, slug });
+    await tx.insert(member).values({ id: recordId('member'), organizationId, userId, role: 'owner' });
+    await tx.insert(caseDevCredentials).values({
+      userId,
+      apiKeyEncrypted: ApiKeyEncryption.combine(encrypted, iv, tag),
+      apiKeyLast4: ApiKeyEncryption.getLast4(input.apiKey),
+      apiKeyPrefix: 'sk_case_',
+      verifiedAt: new Date(),
+    });
+    await tx.insert(userDatabases).values({
+      userId,
+      projectId: input.database.projectId,
+      projectName: firmName,
+      connectionString: input.database.connectionString,
+      status: 'active',
+    });
+  });
+
+  return { userId, organizationId, role: 'owner', caseId: null };
+}
+
+/**
+ * The owner's key and case database, which every member's session uses
+ */
+export async function loadFirmAccess(sessionMember: SessionMember): Promise<FirmAccess> {
+  const database = getDb();
+
+  const [owner] = await database
+    .select({ userId: member.userId })
+    .from(member)
+    .where(and(eq(member.organizationId, sessionMember.organizationId), eq(member.role, 'owner')))
+    .limit(1);
+  const apiKey = owner ? await getApiKeyForUser(owner.userId) : null;
+
+  if (!owner || !apiKey) {
+    throw new MembershipError("The firm's case.dev key is not set up; ask the firm owner to sign in", 409);
+  }
+
+  const [ownerDatabase] = await database
+    .select({ projectId: userDatabases.projectId, connectionString: userDatabases.connectionString })
+    .from(userDatabases)
+    .where(and(eq(userDatabases.userId, owner.userId), eq(userDatabases.status, 'active')))
+    .limit(1);
+
+  return { member: sessionMember, apiKey, database: ownerDatabase ?? null };
+}
+
+/**
+ * Check a member's email and password. Null when they don't match.
+ */
+export async function signInMember(emailInput: string, password: string): Promise<FirmAccess | null> {
+  const database = getDb();
+  const email = normalizeEmail(emailInput);
+
+  const [credential] = await database
+    .select({ userId: user.id, passwordHash: account.password })
+    .from(user)
+    .innerJoin(account, and(eq(account.userId, user.id), eq(account.providerId, CREDENTIAL_PROVIDER)))
+    .where(eq(user.email, email))
+    .limit(1);
+
+  if (!credential?.passwordHash || !(await verifyPassword(password, credential.passwordHash))) {
+    return null;
+  }
+
+  const [membership] = await database
+    .select({ userId: member.userId, organizationId: member.organizationId, role: member.role, caseId: member.caseId })
+    .from(member)
+    .where(eq(member.userId, credential.userId))
+    .limit(1);
+
+  if (!membership) {
+    throw new MembershipError('This account is no longer a member of a firm', 403);
+  }
+
+  return loadFirmAccess(toSessionMember(membership));
+}
+
+/**
+ * A firm with its members and pending invitations
+ */
+export async function getFirm(organizationId: string): Promise<Firm | null> {
+  const database = getDb();
+
+  const [firm] = await database
+    .select({ id: organization.id, name: organization.name })
+    .from(organization)
+    .where(eq(organization.id, organizationId))
+    .limit(1);
+  if (!firm) return null;
+
+  const members = await database
+    .select({
+      id: member.id,
+      userId: member.userId,
+      name: user.name,
+      email: user.email,
+      role: member.role,
+      caseId: member.caseId,
+      createdAt: member.createdAt,
+    })
+    .from(member)
+    .innerJoin(user, eq(user.id, member.userId))
+    .where(eq(member.organizationId, organizationId))
+    .orderBy(member.createdAt);
+
+  const invitations = await database
+    .select({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      caseId: invitation.caseId,
+      expiresAt: invitation.expiresAt,
+    })
+    .from(invitation)
+    .where(and(
+      eq(invitation.organizationId, organizationId),
+      eq(invitation.status, 'pending'),
+      gt(invitation.expiresAt, new Date())
+    ))
+    .orderBy(invitation.expiresAt);
+
+  return {
+    ...firm,
+    members: members.filter(m => isLegalRole(m.role)) as FirmMember[],
+    invitations: invitations.filter(i => isLegalRole(i.role)) as PendingInvitation[],
+  };
+}
+
+/**
+ * Invite someone to the firm. The invitation id is the secret in the
+ * invite link. Client invitations name the one case the client may see.
+ */
+export async function createInvitation(input: {
+  organizationId: string;
+  inviterId: string;
+  email: string;
+  role: string;
+  caseId?: string | null;
+}): Promise<PendingInvitation> {
+  const database = getDb();
+  const email = normalizeEmail(input.email);
+  const { role } = input;
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new MembershipError('A valid email address is required');
+  }
+  if (!isLegalRole(role) || role === 'owner') {
+    throw new MembershipError('Role must be partner, associate, paralegal, staff, or client');
+  }
+  const caseId = role === 'client' ? input.caseId || null : null;
+  if (role === 'client' && !caseId) {
+    throw new MembershipError('Client invitations must name the client\'s case');
+  }
+
+  const [existingMember] = await database
+    .select({ id: member.id })
+    .from(member)
+    .innerJoin(user, eq(user.id, member.userId))
+    .where(and(eq(member.organizationId, input.organizationId), eq(user.email, email)))
+    .limit(1);
+  if (existingMember) {
+    throw new MembershipError('This person is already a member of the firm', 409);
+  }
+
+  const id = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+  await database.transaction(async tx => {
+    // A new invitation replaces any still pending for the same email
+    await tx
+      .update(invitation)
+      .set({ status: 'canceled' })
+      .where(and(
+        eq(invitation.organizationId, input.organizationId),
+        eq(invitation.email, email),
+        eq(invitation.status, 'pending')
+      ));
+    await tx.insert(invitation).values({
+      id,
+      organizationId: input.organizationId,
+      email,
+      role,
+      caseId,
+      status: 'pending',
+      expiresAt,
+      inviterId: input.inviterId,
+    });
+  });
+
+  return { id, email, role, caseId, expiresAt };
+}
+
+export async function cancelInvitation(organizationId: string, invitationId: string): Promise<void> {
+  const canceled = await getDb()
+    .update(invitation)
+    .set({ status: 'canceled' })
+    .where(and(
+      eq(invitation.id, invitationId),
+      eq(invitation.organizationId, organizationId),
+      eq(invitation.status, 'pending')
+    ))
+    .returning({ id: invitation.id });
+
+  if (canceled.length === 0) {
+    throw new MembershipError('Invitation not found', 404);
+  }
+}
+
+/**
+ * A pending, unexpired invitation with its firm's name, for the accept page
+ */
+export async function getPendingInvitation(
+  invitationId: string
+): Promise<(PendingInvitation & { organizationName: string }) | null> {
+  const [row] = await getDb()
+    .select({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      caseId: invitation.caseId,
+      expiresAt: invitation.expiresAt,
+      organizationName: organization.name,
+    })
+    .from(invitation)
+    .innerJoin(organization, eq(organization.id, invitation.organizationId))
+    .where(and(
+      eq(invitation.id, invitationId),
+      eq(invitation.status, 'pending'),
+      gt(invitation.expiresAt, new Date())
+    ))
+    .limit(1);
+
+  if (!row || !isLegalRole(row.role)) return null;
+  return { ...row, role: row.role };
+}
+
+/**
+ * Accept an invitation: create the member's account and membership
+ */
+export async function acceptInvitation(
+  invitationId: string,
+  input: { name: string; password: string }
+): Promise<FirmAccess> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new MembershipError('Your name is required');
+  }
+
+  const [pending] = await getDb()
+    .select()
+    .from(invitation)
+    .where(and(
+      eq(invitation.id, invitationId),
+      eq(invitation.status, 'pending'),
+      gt(invitation.expiresAt, new Date())
+    ))
+    .limit(1);
+  if (!pending || !isLegalRole(pending.role)) {
+    throw new MembershipError('Invitation not found or expired', 404);
+  }
+
+  validateCredentials(pending.email, input.password);
+  await assertEmailUnused(pending.email);
+
+  const passwordHash = await hashPassword(input.password);
+  const userId = recordId('user');
+
+  await getDb().transaction(async tx => {
+    await tx.insert(user).values({ id: userId, name, email: pending.email });
+    await tx.insert(account).values({
+      id: recordId('account'),
+      accountId: userId,
+      providerId: CREDENTIAL_PROVIDER,
+      userId,
+      password: passwordHash,
+    });
+    await tx.insert(member).values({
+      id: recordId('member'),
+      organizationId: pending.organizationId,
+      userId,
+      role: pending.role!,
+      caseId: pending.caseId,
+    });
+    await tx.update(invitation).set({ status: 'accepted' }).where(eq(invitation.id, invitationId));
+  });
+
+  return loadFirmAccess({
+    userId,
+    organizationId: pending.organizationId,
+    role: pending.role,
+    caseId: pending.caseId,
+  });
+}
+
+/**
+ * Remove a member from the firm; returns their user id. The owner can't be removed.
+ */
+export async function removeMember(organizationId: string, memberId: string): Promise<string> {
+  const database = getDb();
+
+  const [target] = await database
+    .select({ userId: member.userId, role: member.role })
+    .from(member)
+    .where(and(eq(member.id, memberId), eq(member.organizationId, organizationId)))
+    .limit(1);
+
+  if (!target) {
+    throw new MembershipError('Member not found', 404);
+  }
+  if (target.role === 'owner') {
+    throw new MembershipError('The firm owner cannot be removed');
+  }
+
+  await database.delete(member).where(eq(member.id, memberId));
+  return target.userId;
+}
@@ -7,7 +7,8 @@
  * @see skills/auth/SKILL.md for detailed documentation
  */
 
-import { createAccessControl } from "better-auth/plugins/access";
+import { createAccessControl, type Role } from "better-auth/plugins/access";
+import type { LegalRole } from "./roles";
 
 /**
  * Permission statements define all possible actions on each resource.
@@ -31,6 +32,15 @@ const statement = {
 
   // Billing/financial (legal-specific)
   billing: ["read", "create", "approve"],
+
+  // Means test, plan, and other attorney work product (staff only)
+  analysis: ["read"],
+
+  // Debtor questionnaire: SOFA and household answers
+  questionnaire: ["update"],
+
+  // Debtor's acknowledgment of the petition before filing
+  petition: ["acknowledge"],
 } as const;
 
 export const ac = createAccessControl(statement);
@@ -46,6 +56,8 @@ export const owner = ac.newRole({
   matter: ["create", "read", "update", "delete", "assign"],
   document: ["create", "read", "update", "delete", "share"],
   billing: ["read", "create", "approve"],
+  analysis: ["read"],
+  questionnaire: ["update"],
 });
 
 /**
@@ -58,6 +70,8 @@ export const partner = ac.newRole({
   matter: ["create", "read", "update", "delete", "assign"],
   document: ["create", "read", "update", "delete", "share"],
   billing: ["read", "create", "approve"],
+  analysis: ["read"],
+  questionnaire: ["update"],
 });
 
 /**
@@ -69,6 +83,8 @@ export const associate = ac.newRole({
   matter: ["read", "update"], // Assigned matters only (enforced at query level)
   document: ["create", "read", "update", "delete"],
   billing: ["read"],
+  analysis: ["read"],
+  questionnaire: ["update"],
 });
 
 /**
@@ -80,6 +96,7 @@ export const paralegal = ac.newRole({
   matter: ["read"],
   document: ["create", "read", "update"],
   billing: ["read"],
+  analysis: ["read"],
 });
 
 /**
@@ -91,15 +108,19 @@ export const staff = ac.newRole({
   matter: ["read"],
   document: ["read"],
   billing: ["read", "create"],
+  analysis: ["read"],
 });
 
 /**
  * Client Role
- * External client with read-only access to their own matters
+ * The debtor: sees their own matter in the client portal, uploads
+ * documents, answers the questionnaire, and acknowledges the petition
  */
 export const client = ac.newRole({
   matter: ["read"], // Own matters only (enforced at query level)
-  document: ["read"], // Their documents only
+  document: ["create", "read"], // Their documents only
+  questionnaire: ["update"],
+  petition: ["acknowledge"],
 });
 
 /**
@@ -113,3 +134,29 @@ export const roles = {
   staff,
   client,
 };
+
+export type Resource = keyof typeof statement;
+
+/**
+ * Actions requested on one or more resources, e.g. { matter: ["delete"] }
+ */
+export type Permission = {
+  [R in Resource]?: Array<(typeof statement)[R][number]>;
+};
+
+/**
+ * Whether a role is granted every action in the permission.
+ * Unknown roles are granted nothing.
+ */
+export function hasPermission(role: LegalRole, permission: Permission): boolean {
+  const definition: Role | undefined = roles[role];
+  if (!definition) return false;
+  return definition.authorize(permission).success;
+}
+
+/**
+ * Whether a string read from the database is one of the roles above
+ */
+export function isLegalRole(role: unknown): role is LegalRole {
+  return typeof role === "string" && Object.hasOwn(roles, role);
+}
@@ -0,0 +1,114 @@
+/**
+ * Client Portal Links
+ *
+ * Staff send a debtor a magic link that signs them in to the client portal
+ * for their one case. The link works until it expires or staff issue a new
+ * one, so the debtor can come back to finish. Only a SHA-256 hash of the
+ * token is stored, in the directory's verification table, under an
+ * identifier naming the firm and case.
+ */
+
+import crypto from 'crypto';
+import { and, eq, gt, like } from 'drizzle-orm';
+import { getDb } from '../db';
+import { verification } from '../db/schema';
+import { loadFirmAccess, type FirmAccess } from './organization';
+
+export const PORTAL_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const IDENTIFIER_PREFIX = 'portal';
+
+export interface PortalLink {
+  createdAt: Date | null;
+  expiresAt: Date;
+}
+
+export function hashPortalToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function portalIdentifier(organizationId: string, caseId: string): string {
+  return `${IDENTIFIER_PREFIX}:${organizationId}:${caseId}`;
+}
+
+/**
+ * The firm and case a stored identifier names, or null for other
+ * verification rows
+ */
+export function parsePortalIdentifier(identifier: string): { organizationId: string; caseId: string } | null {
+  const [prefix, organizationId, caseId] = identifier.split(':');
+  if (prefix !== IDENTIFIER_PREFIX || !organizationId || !caseId) return null;
+  return { organizationId, caseId };
+}
+
+/**
+ * Issue a portal link token for a case, replacing any earlier link
+ */
+export async function createPortalLink(
+  organizationId: string,
+  caseId: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const identifier = portalIdentifier(organizationId, caseId);
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + PORTAL_LINK_TTL_MS);
+
+  await getDb().transaction(async tx => {
+    await tx.delete(verification).where(eq(verification.identifier, identifier));
+    await tx.insert(verification).values({
+      id: `verification_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      identifier,
+      value: hashPortalToken(token),
+      expiresAt,
+    });
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * The case's unexpired portal link, without its token
+ */
+export async function getPortalLink(organizationId: string, caseId: string): Promise<PortalLink | null> {
+  const [link] = await getDb()
+    .select({ createdAt: verification.createdAt, expiresAt: verification.expiresAt })
+    .from(verification)
+    .where(and(
+      eq(verification.identifier, portalIdentifier(organizationId, caseId)),
+      gt(verification.expiresAt, new Date())
+    ))
+    .limit(1);
+
+  return link ?? null;
+}
+
+export async function revokePortalLink(organizationId: string, caseId: string): Promise<void> {
+  await getDb()
+    .delete(verification)
+    .where(eq(verification.identifier, portalIdentifier(organizationId, caseId)));
+}
+
+/**
+ * Exchange a portal link token for a client session's access to the firm's
+ * key and database. Null when the link is unknown or expired.
+ */
+export async function redeemPortalLink(token: string): Promise<FirmAccess | null> {
+  const [link] = await getDb()
+    .select({ identifier: verification.identifier })
+    .from(verification)
+    .where(and(
+      eq(verification.value, hashPortalToken(token)),
+      like(verification.identifier, `${IDENTIFIER_PREFIX}:%`),
+      gt(verification.expiresAt, new Date())
+    ))
+    .limit(1);
+
+  const target = link ? parsePortalIdentifier(link.identifier) : null;
+  if (!target) return null;
+
+  return loadFirmAccess({
+    userId: null,
+    organizationId: target.organizationId,
+    role: 'client',
+    caseId: target.caseId,
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Route Session Helper
+ *
+ * Resolves the caller's session from the session cookie. Routes never take
+ * the API key or connection string from the request itself.
+ *
+ * Usage:
+ *   const session = requireSession(request);
+ *   if (session instanceof NextResponse) return session;
+ *   const sql = postgres(session.connectionString);
+ *
+ * Case routes check the caller's role as well:
+ *   const session = requireCaseAccess(request, id, { matter: ['update'] });
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, SESSION_COOKIE, type Session } from './session';
+import { hasPermission, type Permission } from './permissions';
+
+export type DatabaseSession = Session & { connectionString: string };
+
+/**
+ * The caller's session, or the response to return: 401 without a session,
+ * and 400 when the route needs a database and none has been provisioned
+ */
+export function requireSession(request: NextRequest): DatabaseSession | NextResponse;
+export function requireSession(request: NextRequest, options: { database: false }): Session | NextResponse;
+export function requireSession(
+  request: NextRequest,
+  options: { database?: boolean } = {}
+): Session | NextResponse {
+  const session = getSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  if (options.database !== false && !session.connectionString) {
+    return NextResponse.json(
+      { error: 'Database not initialized' },
+      { status: 400 }
+    );
+  }
+
+  return session;
+}
+
+/**
+ * requireSession, plus 403 when the caller's role lacks the permission
+ */
+export function requirePermission(request: NextRequest, permission: Permission): DatabaseSession | NextResponse;
+export function requirePermission(
+  request: NextRequest,
+  permission: Permission,
+  options: { database: false }
+): Session | NextResponse;
+export function requirePermission(
+  request: NextRequest,
+  permission: Permission,
+  options: { database?: boolean } = {}
+): Session | NextResponse {
+  const session = options.database === false
+    ? requireSession(request, { database: false })
+    : requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  if (!hasPermission(session.role, permission)) {
+    return NextResponse.json(
+      { error: 'Your role does not allow this' },
+      { status: 403 }
+    );
+  }
+
+  return session;
+}
+
+/**
+ * Whether a session may see a case. Clients see only their own matter.
+ */
+export function canAccessCase(session: Session, caseId: string): boolean {
+  return session.role !== 'client' || session.member?.caseId === caseId;
+}
+
+/**
+ * requirePermission for one case. Clients see only their own matter, and
+ * get 404 for any other so case ids are not revealed.
+ */
+export function requireCaseAccess(
+  request: NextRequest,
+  caseId: string,
+  permission: Permission
+): DatabaseSession | NextResponse {
+  const session = requirePermission(request, permission);
+  if (session instanceof NextResponse) return session;
+
+  if (!canAccessCase(session, caseId)) {
+    return NextResponse.json(
+      { error: 'Case not found' },
+      { status: 404 }
+    );
+  }
+
+  return session;
+}
@@ -0,0 +1,221 @@
+/**
+ * Server-Side Sessions
+ *
+ * Signing in with a case.dev API key starts a session. The browser holds
+ * only an opaque id in an httpOnly cookie; the API key and the provisioned
+ * database's connection string stay on the server, sealed with
+ * ApiKeyEncryption. Sessions are held in memory, so a server restart signs
+ * everyone out.
+ *
+ * A session belongs either to a firm member (signed in with email and
+ * password, using the firm's key and database), to a debtor who opened a
+ * client portal link, or to whoever holds the case.dev API key, who acts as
+ * the firm owner.
+ *
+ * Voice calls run through Vapi, which cannot carry the cookie to the
+ * webhook, so a call is started with a call token that resolves to the
+ * session's database instead.
+ */
+
+import crypto from 'crypto';
+import { ApiKeyEncryption } from '../case-dev/encryption';
+import { ensureCaseDatabase } from '../db/migrate';
+import type { LegalRole } from './roles';
+
+export const SESSION_COOKIE = 'bankruptcy_session';
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const CALL_TOKEN_TTL_MS = 2 * 60 * 60 * 1000;
+
+export interface SessionMember {
+  /** Null for a debtor signed in through a client portal link */
+  userId: string | null;
+  organizationId: string;
+  role: LegalRole;
+  /** The one matter a client member may see */
+  caseId: string | null;
+}
+
+export interface Session {
+  id: string;
+  apiKey: string;
+  /** Null until a database is provisioned for the session */
+  connectionString: string | null;
+  projectId: string | null;
+  /** Null for an API key session not linked to a firm account */
+  member: SessionMember | null;
+  /** The member's role; API key sessions act as owner */
+  role: LegalRole;
+  expiresAt: Date;
+}
+
+interface StoredSession {
+  apiKeySealed: string;
+  connectionStringSealed: string | null;
+  projectId: string | null;
+  member: SessionMember | null;
+  expiresAt: number;
+}
+
+const sessions = new Map<string, StoredSession>();
+const callTokens = new Map<string, { sessionId: string; expiresAt: number }>();
+
+function seal(value: string): string {
+  const { encrypted, iv, tag } = ApiKeyEncryption.encrypt(value);
+  return ApiKeyEncryption.combine(encrypted, iv, tag);
+}
+
+function unseal(sealed: string): string {
+  const { encrypted, iv, tag } = ApiKeyEncryption.split(sealed);
+  return ApiKeyEncryption.decrypt(encrypted, iv, tag);
+}
+
+function newToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function pruneExpired(now = Date.now()): void {
+  for (const [id, stored] of sessions) {
+    if (stored.expiresAt <= now) sessions.delete(id);
+  }
+  for (const [token, call] of callTokens) {
+    if (call.expiresAt <= now || !sessions.has(call.sessionId)) callTokens.delete(token);
+  }
+}
+
+/**
+ * Start a session for a verified API key. Throws when
+ * CASE_DEV_ENCRYPTION_KEY is not configured.
+ */
+export function createSession(apiKey: string, member: SessionMember | null = null): Session {
+  pruneExpired();
+
+  const id = newToken();
+  const stored: StoredSession = {
+    apiKeySealed: seal(apiKey),
+    connectionStringSealed: null,
+    projectId: null,
+    member,
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  sessions.set(id, stored);
+
+  return {
+    id,
+    apiKey,
+    connectionString: null,
+    projectId: null,
+    member,
+    role: member?.role ?? 'owner',
+    expiresAt: new Date(stored.expiresAt),
+  };
+}
+
+export function getSession(id: string | null | undefined): Session | null {
+  if (!id) return null;
+
+  const stored = sessions.get(id);
+  if (!stored) return null;
+  if (stored.expiresAt <= Date.now()) {
+    sessions.delete(id);
+    return null;
+  }
+
+  try {
+    return {
+      id,
+      apiKey: unseal(stored.apiKeySealed),
+      connectionString: stored.connectionStringSealed ? unseal(stored.connectionStringSealed) : null,
+      projectId: stored.projectId,
+      member: stored.member,
+      role: stored.member?.role ?? 'owner',
+      expiresAt: new Date(stored.expiresAt),
+    };
+  } catch (error) {
+    console.error('Could not unseal session:', error);
+    sessions.delete(id);
+    return null;
+  }
+}
+
+/**
+ * Record the database provisioned for a session, first bringing its case
+ * tables up to date so every kind of session gets a migrated database
+ */
+export async function attachDatabase(
+  id: string,
+  database: { projectId: string; connectionString: string }
+): Promise<void> {
+  if (!sessions.has(id)) throw new Error('Session not found');
+
+  await ensureCaseDatabase(database.connectionString);
+
+  const stored = sessions.get(id);
+  if (!stored) throw new Error('Session not found');
+
+  stored.projectId = database.projectId;
+  stored.connectionStringSealed = seal(database.connectionString);
+}
+
+/** Link a session to the firm account its user belongs to */
+export function attachMember(id: string, member: SessionMember): void {
+  const stored = sessions.get(id);
+  if (!stored) throw new Error('Session not found');
+
+  stored.member = member;
+}
+
+export function destroySession(id: string): void {
+  sessions.delete(id);
+  for (const [token, call] of callTokens) {
+    if (call.sessionId === id) callTokens.delete(token);
+  }
+}
+
+/** End every session a firm member holds, e.g. when they are removed */
+export function destroyMemberSessions(userId: string): void {
+  for (const [id, stored] of sessions) {
+    if (stored.member?.userId === userId) destroySession(id);
+  }
+}
+
+/** End the portal sessions opened for a case, e.g. when its link is revoked */
+export function destroyPortalSessions(caseId: string): void {
+  for (const [id, stored] of sessions) {
+    if (stored.member && stored.member.userId === null && stored.member.caseId === caseId) {
+      destroySession(id);
+    }
+  }
+}
+
+/** A token a voice call carries in place of the database connection string */
+export function issueCallToken(sessionId: string): string {
+  pruneExpired();
+
+  const token = newToken();
+  callTokens.set(token, { sessionId, expiresAt: Date.now() + CALL_TOKEN_TTL_MS });
+  return token;
+}
+
+/** The database connection string a call token stands for */
+export function resolveCallToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+
+  const call = callTokens.get(token);
+  if (!call || call.expiresAt <= Date.now()) {
+    callTokens.delete(token);
+    return null;
+  }
+  return getSession(call.sessionId)?.connectionString ?? null;
+}
+
+/** Cookie attributes for the session id */
+export function sessionCookieOptions(expiresAt: Date) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    expires: expiresAt,
+  };
+}
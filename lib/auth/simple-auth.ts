@@ -1,45 +1,93 @@
 /**
  * Simple Authentication using case.dev API Keys
- * No database needed - API key stored in browser localStorage
+ * The key lives in a server-side session behind an httpOnly cookie
+ * (see lib/auth/session.ts); the browser only sees session status.
  */
 
 'use client';
 
-const API_KEY_STORAGE_KEY = 'casedev_api_key';
+import type { LegalRole } from './roles';
+
+// Written by earlier versions of the app; cleared on sign-in and sign-out
+const LEGACY_STORAGE_KEYS = ['casedev_api_key', 'bankruptcy_db_project_id', 'bankruptcy_db_connection'];
+
+export interface SessionStatus {
+  authenticated: true;
+  apiKeyLast4: string;
+  database: { projectId: string } | null;
+  role: LegalRole;
+  /** Null when signed in with an API key not linked to a firm account */
+  member: { userId: string; organizationId: string; caseId: string | null } | null;
+  expiresAt: string;
+}
 
 export class SimpleAuth {
   /**
-   * Store API key in localStorage
+   * Current session, or null when not signed in
    */
-  static setApiKey(apiKey: string): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
-    }
+  static async getSession(): Promise<SessionStatus | null> {
+    const response = await fetch('/api/session');
+    if (!response.ok) return null;
+    return response.json();
   }
 
   /**
-   * Get API key from localStorage
+   * Sign in as a firm member with email and password; returns their role
    */
-  static getApiKey(): string | null {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem(API_KEY_STORAGE_KEY);
+  static async signIn(email: string, password: string): Promise<LegalRole> {
+    const response = await fetch('/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to sign in');
     }
-    return null;
+    this.clearLegacyStorage();
+    return data.role;
   }
 
   /**
-   * Remove API key (logout)
+   * Check if user is authenticated
    */
-  static removeApiKey(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(API_KEY_STORAGE_KEY);
-    }
+  static async isAuthenticated(): Promise<boolean> {
+    return (await this.getSession()) !== null;
   }
 
   /**
-   * Check if user is authenticated
+   * Token for a voice call's metadata, or null without a session database.
+   * The webhook resolves it server-side in place of a connection string.
+   */
+  static async getCallToken(): Promise<string | null> {
+    const response = await fetch('/api/vapi/call-token', { method: 'POST' });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.callToken;
+  }
+
+  /**
+   * Where a role lands after signing in: clients use the client portal
+   */
+  static homePath(role: LegalRole): string {
+    return role === 'client' ? '/portal' : '/cases';
+  }
+
+  /**
+   * End the session (logout)
    */
-  static isAuthenticated(): boolean {
-    return this.getApiKey() !== null;
+  static async logout(): Promise<void> {
+    await fetch('/api/session', { method: 'DELETE' });
+    this.clearLegacyStorage();
+  }
+
+  /**
+   * Remove credentials earlier versions kept in localStorage
+   */
+  static clearLegacyStorage(): void {
+    if (typeof window === 'undefined') return;
+    for (const key of LEGACY_STORAGE_KEYS) {
+      localStorage.removeItem(key);
+    }
   }
 }
@@ -0,0 +1,24 @@
+/**
+ * Petition Acknowledgment
+ *
+ * The debtor reviews a summary of their petition in the client portal and
+ * acknowledges it. Each acknowledgment stores a digest of the summary, so
+ * staff can see when the case has changed since the debtor signed off.
+ */
+
+export { buildPetitionSummary, digestPetitionSummary } from './summary';
+export type { PetitionSummaryInput } from './summary';
+
+export {
+  getLatestAcknowledgment,
+  loadAcknowledgmentStatus,
+  loadPetitionSummary,
+  recordAcknowledgment,
+} from './store';
+
+export type {
+  AcknowledgmentStatus,
+  PetitionAcknowledgment,
+  PetitionSummary,
+  SummaryLine,
+} from './types';
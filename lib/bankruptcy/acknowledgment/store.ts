@@ -0,0 +1,139 @@
+/**
+ * Petition Acknowledgment Storage
+ *
+ * Loads the current petition summary for a case and records the debtor's
+ * acknowledgments of it. Acknowledgments are kept, not replaced, so the
+ * firm has each one the debtor gave.
+ */
+
+import type postgres from 'postgres';
+import { loadSofaData } from '../sofa';
+import { buildPetitionSummary, digestPetitionSummary, type PetitionSummaryInput } from './summary';
+import type { AcknowledgmentStatus, PetitionAcknowledgment, PetitionSummary } from './types';
+
+/**
+ * The case's petition summary, or null when the case doesn't exist
+ */
+export async function loadPetitionSummary(sql: postgres.Sql, caseId: string): Promise<PetitionSummary | null> {
+  const [caseRow] = await sql`
+    SELECT client_name, address, city, state, zip, county, case_type, filing_type, household_size
+    FROM bankruptcy_cases
+    WHERE id = ${caseId}
+  `;
+  if (!caseRow) return null;
+
+  const income = await sql`
+    SELECT employer, income_source, gross_amount
+    FROM income_records
+    WHERE case_id = ${caseId} AND review_status IS DISTINCT FROM 'rejected'
+    ORDER BY income_month, id
+  `;
+  const expenses = await sql`
+    SELECT category, description, monthly_amount
+    FROM expenses
+    WHERE case_id = ${caseId}
+    ORDER BY category, id
+  `;
+  const assets = await sql`
+    SELECT asset_type, description, current_value
+    FROM assets
+    WHERE case_id = ${caseId}
+    ORDER BY asset_type, id
+  `;
+  const debts = await sql`
+    SELECT creditor_name, debt_type, balance
+    FROM debts
+    WHERE case_id = ${caseId}
+    ORDER BY creditor_name, id
+  `;
+  const sofa = await loadSofaData(sql, caseId);
+
+  return buildPetitionSummary({
+    caseRow: caseRow as unknown as PetitionSummaryInput['caseRow'],
+    income: income as unknown as PetitionSummaryInput['income'],
+    expenses: expenses as unknown as PetitionSummaryInput['expenses'],
+    assets: assets as unknown as PetitionSummaryInput['assets'],
+    debts: debts as unknown as PetitionSummaryInput['debts'],
+    sofaAnswers: sofa.answers,
+  });
+}
+
+function rowToAcknowledgment(row: Record<string, unknown>): PetitionAcknowledgment {
+  return {
+    id: String(row.id),
+    caseId: String(row.case_id),
+    signerName: String(row.signer_name),
+    summaryDigest: String(row.summary_digest),
+    ipAddress: (row.ip_address as string | null) ?? null,
+    userAgent: (row.user_agent as string | null) ?? null,
+    acknowledgedAt: new Date(row.acknowledged_at as string).toISOString(),
+  };
+}
+
+export async function getLatestAcknowledgment(
+  sql: postgres.Sql,
+  caseId: string
+): Promise<PetitionAcknowledgment | null> {
+  const [row] = await sql`
+    SELECT id, case_id, signer_name, summary_digest, ip_address, user_agent, acknowledged_at
+    FROM petition_acknowledgments
+    WHERE case_id = ${caseId}
+    ORDER BY acknowledged_at DESC
+    LIMIT 1
+  `;
+  return row ? rowToAcknowledgment(row) : null;
+}
+
+/**
+ * The current summary, its digest, and whether the latest acknowledgment
+ * still covers it. Null when the case doesn't exist.
+ */
+export async function loadAcknowledgmentStatus(
+  sql: postgres.Sql,
+  caseId: string
+): Promise<AcknowledgmentStatus | null> {
+  const summary = await loadPetitionSummary(sql, caseId);
+  if (!summary) return null;
+
+  const digest = digestPetitionSummary(summary);
+  const acknowledgment = await getLatestAcknowledgment(sql, caseId);
+
+  return {
+    summary,
+    digest,
+    acknowledgment,
+    current: acknowledgment?.summaryDigest === digest,
+  };
+}
+
+/**
+ * Record the debtor's acknowledgment of the summary they reviewed
+ */
+export async function recordAcknowledgment(
+  sql: postgres.Sql,
+  input: {
+    caseId: string;
+    signerName: string;
+    summary: PetitionSummary;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }
+): Promise<PetitionAcknowledgment> {
+  const id = `ack_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+  const [row] = await sql`
+    INSERT INTO petition_acknowledgments (
+      id, case_id, signer_name, summary, summary_digest, ip_address, user_agent
+    ) VALUES (
+      ${id},
+      ${input.caseId},
+      ${input.signerName},
+      ${sql.json(JSON.parse(JSON.stringify(input.summary)))},
+      ${digestPetitionSummary(input.summary)},
+      ${input.ipAddress},
+      ${input.userAgent}
+    )
+    RETURNING id, case_id, signer_name, summary_digest, ip_address, user_agent, acknowledged_at
+  `;
+  return rowToAcknowledgment(row);
+}
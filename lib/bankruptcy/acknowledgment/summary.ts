@@ -0,0 +1,107 @@
+/**
+ * Petition Summary
+ *
+ * Builds the summary a debtor reviews before acknowledging the petition,
+ * and the digest that pins an acknowledgment to what they saw.
+ */
+
+import crypto from 'crypto';
+import { SOFA_SECTIONS, type SofaSectionKey } from '../sofa';
+import type { PetitionSummary, SummaryLine } from './types';
+
+export interface PetitionSummaryInput {
+  caseRow: {
+    client_name: string;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zip: string | null;
+    county: string | null;
+    case_type: PetitionSummary['chapter'];
+    filing_type: PetitionSummary['filingType'];
+    household_size: number | null;
+  };
+  income: Array<{ employer: string | null; income_source: string; gross_amount: string | number }>;
+  expenses: Array<{ category: string; description: string | null; monthly_amount: string | number }>;
+  assets: Array<{ asset_type: string; description: string; current_value: string | number }>;
+  debts: Array<{ creditor_name: string; debt_type: string; balance: string | number }>;
+  sofaAnswers: Partial<Record<SofaSectionKey, boolean>>;
+}
+
+const humanize = (value: string) => value.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const total = (lines: SummaryLine[]) => round(lines.reduce((sum, line) => sum + line.amount, 0));
+
+function formatAddress(row: PetitionSummaryInput['caseRow']): string | null {
+  const cityLine = [row.city, [row.state, row.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  const parts = [row.address, cityLine].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Income grouped by employer, or by source when there is no employer
+ */
+function summarizeIncome(records: PetitionSummaryInput['income']): SummaryLine[] {
+  const bySource = new Map<string, SummaryLine>();
+  for (const record of records) {
+    const label = record.employer || humanize(record.income_source);
+    const line = bySource.get(label) ?? { label, detail: humanize(record.income_source), amount: 0 };
+    line.amount = round(line.amount + Number(record.gross_amount));
+    bySource.set(label, line);
+  }
+  return [...bySource.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function buildPetitionSummary(input: PetitionSummaryInput): PetitionSummary {
+  const { caseRow } = input;
+
+  const income = summarizeIncome(input.income);
+  const expenses = input.expenses.map(e => ({
+    label: humanize(e.category),
+    detail: e.description,
+    amount: Number(e.monthly_amount),
+  }));
+  const assets = input.assets.map(a => ({
+    label: a.description,
+    detail: humanize(a.asset_type),
+    amount: Number(a.current_value),
+  }));
+  const debts = input.debts.map(d => ({
+    label: d.creditor_name,
+    detail: humanize(d.debt_type),
+    amount: Number(d.balance),
+  }));
+
+  return {
+    debtor: {
+      name: caseRow.client_name,
+      address: formatAddress(caseRow),
+      county: caseRow.county,
+    },
+    chapter: caseRow.case_type,
+    filingType: caseRow.filing_type,
+    householdSize: caseRow.household_size,
+    income,
+    expenses,
+    assets,
+    debts,
+    totals: {
+      income: total(income),
+      expenses: total(expenses),
+      assets: total(assets),
+      debts: total(debts),
+    },
+    sofaYes: SOFA_SECTIONS.filter(s => input.sofaAnswers[s.key] === true).map(s => s.prompt),
+    sofaUnanswered: SOFA_SECTIONS.filter(s => input.sofaAnswers[s.key] === undefined).length,
+  };
+}
+
+/**
+ * SHA-256 of the summary. Any change to the facts it shows changes the
+ * digest, so an earlier acknowledgment no longer counts.
+ */
+export function digestPetitionSummary(summary: PetitionSummary): string {
+  return crypto.createHash('sha256').update(JSON.stringify(summary)).digest('hex');
+}
@@ -0,0 +1,61 @@
+/**
+ * Petition Acknowledgment Types
+ */
+
+export interface SummaryLine {
+  label: string;
+  detail: string | null;
+  amount: number;
+}
+
+/**
+ * What the debtor reviews before acknowledging the petition: the facts they
+ * gave and the schedules built from them, without the attorney's analysis
+ * (means test, plan, exemptions)
+ */
+export interface PetitionSummary {
+  debtor: {
+    name: string;
+    address: string | null;
+    county: string | null;
+  };
+  chapter: 'chapter7' | 'chapter13';
+  filingType: 'individual' | 'joint';
+  householdSize: number | null;
+  /** Gross income received in the records on file, by source */
+  income: SummaryLine[];
+  /** Monthly expenses by category */
+  expenses: SummaryLine[];
+  assets: SummaryLine[];
+  debts: SummaryLine[];
+  totals: {
+    income: number;
+    expenses: number;
+    assets: number;
+    debts: number;
+  };
+  /** SOFA questions answered "yes", by section title */
+  sofaYes: string[];
+  sofaUnanswered: number;
+}
+
+export interface PetitionAcknowledgment {
+  id: string;
+  caseId: string;
+  signerName: string;
+  summaryDigest: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  acknowledgedAt: string;
+}
+
+/**
+ * The latest acknowledgment and whether the case has changed since
+ */
+export interface AcknowledgmentStatus {
+  summary: PetitionSummary;
+  digest: string;
+  acknowledgment: PetitionAcknowledgment | null;
+  /** True when the latest acknowledgment covers the current summary */
+  current: boolean;
+}
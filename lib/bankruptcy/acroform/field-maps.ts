@@ -0,0 +1,288 @@
+/**
+ * Official Form Field Maps
+ *
+ * Declarative mappings from the form-mapper.ts structures to the AcroForm
+ * field names in the fillable PDFs published by the U.S. Courts. Field names
+ * follow each form's line numbering; when a template revision renames a
+ * field, the fill reports it in `missingFields` rather than failing. Use
+ * `listAcroFormFields` on the vendored template to check a map.
+ */
+
+import type {
+  AllFormsData,
+  Form101Data,
+  Form106DData,
+  Form106DecData,
+  Form106EFData,
+  Form106GData,
+  Form106HData,
+  Form106IData,
+  Form106JData,
+  Form106SumData,
+} from '../form-mapper';
+import type { AcroFormMap } from './types';
+
+const form101: AcroFormMap<Form101Data> = {
+  formId: 'form101',
+  template: 'b_101.pdf',
+  filename: 'Form_101_Voluntary_Petition.pdf',
+  fields: [
+    { field: 'Bankruptcy District Information', source: 'courtDistrict' },
+    { field: 'Debtor1.Name', source: 'debtorName' },
+    { field: 'Debtor2.Name', source: 'spouseName' },
+    { field: 'Debtor1.SSNum', source: d => d.ssn.replace(/\D/g, '').slice(-4) },
+    { field: 'Debtor1.Street', source: 'address.street' },
+    { field: 'Debtor1.City', source: 'address.city' },
+    { field: 'Debtor1.State', source: 'address.state' },
+    { field: 'Debtor1.ZIP Code', source: 'address.zip' },
+    { field: 'Debtor1.County', source: 'address.county' },
+    { field: 'Check Box1', source: 'chapter', when: '7' },
+    { field: 'Check Box2', source: 'chapter', when: '11' },
+    { field: 'Check Box3', source: 'chapter', when: '12' },
+    { field: 'Check Box4', source: 'chapter', when: '13' },
+    { field: 'Estimated Creditors', source: 'estimatedCreditors', format: 'radio' },
+    { field: 'Estimated Assets', source: 'estimatedAssets', format: 'radio' },
+    { field: 'Estimated Liabilities', source: 'estimatedLiabilities', format: 'radio' },
+  ],
+  tables: [
+    {
+      source: 'previousFilings',
+      capacity: 2,
+      title: 'Part 2, Line 9: Prior Bankruptcy Cases',
+      columns: [
+        { field: 'Prior District {n}', source: 'district', label: 'District' },
+        { field: 'Prior Date {n}', source: 'date', label: 'When', format: 'date' },
+        { field: 'Prior Case Number {n}', source: 'caseNumber', label: 'Case number' },
+      ],
+    },
+  ],
+};
+
+const form106Sum: AcroFormMap<Form106SumData> = {
+  formId: 'form106Sum',
+  template: 'b_106sum.pdf',
+  filename: 'Form_106Sum_Summary_Assets_Liabilities.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: '1a', source: 'assets.realProperty', format: 'currency' },
+    { field: '1b', source: 'assets.personalProperty', format: 'currency' },
+    { field: '1c', source: 'assets.total', format: 'currency' },
+    { field: '2', source: 'liabilities.securedClaims', format: 'currency' },
+    { field: '3a', source: 'liabilities.priorityClaims', format: 'currency' },
+    { field: '3b', source: 'liabilities.nonpriorityClaims', format: 'currency' },
+    { field: 'Total liabilities', source: 'liabilities.total', format: 'currency' },
+    { field: '4', source: 'monthlyIncome', format: 'currency' },
+    { field: '5', source: 'monthlyExpenses', format: 'currency' },
+    { field: 'consumer debts', source: 'primarilyConsumerDebts', format: 'checkbox' },
+    { field: '8', source: 'currentMonthlyIncome', format: 'currency' },
+    { field: '9a', source: 'certainClaims.domesticSupport', format: 'currency' },
+    { field: '9b', source: 'certainClaims.taxes', format: 'currency' },
+    { field: '9d', source: 'certainClaims.studentLoans', format: 'currency' },
+    { field: '9g', source: 'certainClaims.total', format: 'currency' },
+  ],
+};
+
+const form106I: AcroFormMap<Form106IData> = {
+  formId: 'form106I',
+  template: 'b_106i.pdf',
+  filename: 'Form_106I_Schedule_I_Income.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: 'Occupation', source: 'incomeSources.0.occupation' },
+    { field: 'Employers name', source: 'incomeSources.0.employer' },
+    { field: 'Employers address', source: 'incomeSources.0.address' },
+    { field: '2', source: 'incomeSources.0.monthlyGross', format: 'currency' },
+    { field: '5a', source: 'incomeSources.0.payrollDeductions.taxes', format: 'currency' },
+    { field: '5b', source: 'incomeSources.0.payrollDeductions.retirement', format: 'currency' },
+    { field: '5e', source: 'incomeSources.0.payrollDeductions.insurance', format: 'currency' },
+    { field: '5h', source: 'incomeSources.0.payrollDeductions.other', format: 'currency' },
+    { field: '7', source: 'incomeSources.0.monthlyNet', format: 'currency' },
+    { field: '8a', source: 'netBusinessIncome', format: 'currency' },
+    { field: '12', source: 'totalMonthlyIncome', format: 'currency' },
+  ],
+  tables: [
+    {
+      source: 'otherIncome',
+      capacity: 1,
+      title: 'Line 8h: Other Monthly Income',
+      columns: [
+        { field: '8h specify {n}', source: 'source', label: 'Source' },
+        { field: '8h {n}', source: 'amount', label: 'Monthly amount', format: 'currency' },
+      ],
+    },
+  ],
+};
+
+const form106J: AcroFormMap<Form106JData> = {
+  formId: 'form106J',
+  template: 'b_106j.pdf',
+  filename: 'Form_106J_Schedule_J_Expenses.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: '4', source: 'expenses.rent', format: 'currency' },
+    { field: '4b', source: 'expenses.propertyTaxes', format: 'currency' },
+    { field: '4c', source: 'expenses.homeOwnerInsurance', format: 'currency' },
+    { field: '6a', source: 'expenses.utilities', format: 'currency' },
+    { field: '6c', source: 'expenses.telecommunications', format: 'currency' },
+    { field: '7', source: 'expenses.food', format: 'currency' },
+    { field: '8', source: 'expenses.childcare', format: 'currency' },
+    { field: '9', source: 'expenses.clothing', format: 'currency' },
+    { field: '11', source: 'expenses.medical', format: 'currency' },
+    { field: '12', source: 'expenses.transportation', format: 'currency' },
+    { field: '13', source: 'expenses.entertainment', format: 'currency' },
+    { field: '15a', source: 'expenses.lifeInsurance', format: 'currency' },
+    { field: '15c', source: 'expenses.insurance', format: 'currency' },
+    { field: '16', source: 'expenses.taxes', format: 'currency' },
+    { field: '17a', source: 'expenses.debtPayments', format: 'currency' },
+    { field: '18', source: 'expenses.supportPayments', format: 'currency' },
+    { field: '21', source: d => d.expenses.other + d.expenses.education, format: 'currency' },
+    { field: '22c', source: 'totalExpenses', format: 'currency' },
+    { field: '23c', source: 'monthlyNetIncome', format: 'currency' },
+  ],
+};
+
+const form106D: AcroFormMap<Form106DData> = {
+  formId: 'form106D',
+  template: 'b_106d.pdf',
+  filename: 'Form_106D_Schedule_D_Secured.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: 'Total', source: 'totalSecuredClaims', format: 'currency' },
+  ],
+  tables: [
+    {
+      source: 'securedClaims',
+      capacity: 4,
+      title: 'Part 1: List All Secured Claims',
+      columns: [
+        { field: 'Creditors Name 2.{n}', source: 'creditorName', label: "Creditor's name" },
+        { field: 'Creditors Address 2.{n}', source: 'creditorAddress', label: 'Address' },
+        { field: 'Last 4 digits 2.{n}', source: 'accountNumber', label: 'Account number' },
+        { field: 'Describe the property 2.{n}', source: 'collateral', label: 'Collateral' },
+        { field: 'Amount of claim 2.{n}', source: 'amountOfClaim', label: 'Amount of claim', format: 'currency' },
+        { field: 'Value of collateral 2.{n}', source: 'collateralValue', label: 'Value of collateral', format: 'currency' },
+        { field: 'Unsecured portion 2.{n}', source: 'unsecuredPortion', label: 'Unsecured portion', format: 'currency' },
+      ],
+    },
+  ],
+};
+
+const form106EF: AcroFormMap<Form106EFData> = {
+  formId: 'form106EF',
+  template: 'b_106ef.pdf',
+  filename: 'Form_106EF_Schedule_EF_Unsecured.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: 'Priority total', source: 'totalPriorityClaims', format: 'currency' },
+    { field: 'Nonpriority total', source: 'totalNonPriorityClaims', format: 'currency' },
+  ],
+  tables: [
+    {
+      source: 'priorityClaims',
+      capacity: 3,
+      title: 'Part 1: Creditors With Priority Unsecured Claims',
+      columns: [
+        { field: 'Priority Creditors Name 2.{n}', source: 'creditorName', label: "Creditor's name" },
+        { field: 'Priority Creditors Address 2.{n}', source: 'creditorAddress', label: 'Address' },
+        { field: 'Priority Last 4 digits 2.{n}', source: 'accountNumber', label: 'Account number' },
+        { field: 'Priority Type 2.{n}', source: 'priorityType', label: 'Type of claim' },
+        { field: 'Priority Total claim 2.{n}', source: 'amountOfClaim', label: 'Total claim', format: 'currency' },
+      ],
+    },
+    {
+      source: 'nonPriorityClaims',
+      capacity: 4,
+      title: 'Part 2: Creditors With Nonpriority Unsecured Claims',
+      columns: [
+        { field: 'Nonpriority Creditors Name 4.{n}', source: 'creditorName', label: "Creditor's name" },
+        { field: 'Nonpriority Creditors Address 4.{n}', source: 'creditorAddress', label: 'Address' },
+        { field: 'Nonpriority Last 4 digits 4.{n}', source: 'accountNumber', label: 'Account number' },
+        { field: 'Nonpriority Type 4.{n}', source: 'claimType', label: 'Type of claim' },
+        { field: 'Nonpriority Total claim 4.{n}', source: 'amountOfClaim', label: 'Total claim', format: 'currency' },
+      ],
+    },
+  ],
+};
+
+const form106G: AcroFormMap<Form106GData> = {
+  formId: 'form106G',
+  template: 'b_106g.pdf',
+  filename: 'Form_106G_Schedule_G_Contracts_Leases.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: 'No contracts', source: d => d.contracts.length === 0, format: 'checkbox' },
+  ],
+  tables: [
+    {
+      source: 'contracts',
+      capacity: 5,
+      title: 'Line 2: Executory Contracts and Unexpired Leases',
+      columns: [
+        { field: 'Person or company 2.{n}', source: 'counterpartyName', label: 'Person or company' },
+        { field: 'Address 2.{n}', source: 'counterpartyAddress', label: 'Address' },
+        { field: 'State what the contract is for 2.{n}', source: 'description', label: 'What the contract or lease is for' },
+      ],
+    },
+  ],
+};
+
+const form106H: AcroFormMap<Form106HData> = {
+  formId: 'form106H',
+  template: 'b_106h.pdf',
+  filename: 'Form_106H_Schedule_H_Codebtors.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: 'No codebtors', source: d => d.codebtors.length === 0, format: 'checkbox' },
+    { field: 'Community property', source: 'livedInCommunityPropertyState', format: 'checkbox' },
+    { field: 'Community property states', source: d => d.communityPropertyStates.join(', ') },
+  ],
+  tables: [
+    {
+      source: 'codebtors',
+      capacity: 5,
+      title: 'Line 3: Codebtors',
+      columns: [
+        { field: 'Codebtor Name 3.{n}', source: 'name', label: 'Codebtor' },
+        { field: 'Codebtor Address 3.{n}', source: 'address', label: 'Address' },
+        { field: 'Creditor 3.{n}', source: 'creditorName', label: 'Creditor' },
+        { field: 'Schedule 3.{n}', source: 'schedule', label: 'Schedule' },
+      ],
+    },
+  ],
+};
+
+const form106Dec: AcroFormMap<Form106DecData> = {
+  formId: 'form106Dec',
+  template: 'b_106dec.pdf',
+  filename: 'Form_106Dec_Declaration_Schedules.pdf',
+  fields: [
+    { field: 'Debtor 1', source: 'debtorName' },
+    { field: 'Debtor 2', source: 'spouseName' },
+    { field: 'Case number', source: 'caseNumber' },
+    { field: 'No preparer', source: 'usedNonAttorneyPreparer', when: false },
+    { field: 'Yes preparer', source: 'usedNonAttorneyPreparer', when: true },
+  ],
+};
+
+/**
+ * Field maps keyed by the `AllFormsData` entry they fill. Forms without a
+ * map are drawn by the jsPDF generators.
+ */
+export const OFFICIAL_FORM_MAPS: { [K in keyof AllFormsData]?: AcroFormMap<AllFormsData[K]> } = {
+  form101,
+  form106I,
+  form106J,
+  form106D,
+  form106EF,
+  form106G,
+  form106H,
+  form106Sum,
+  form106Dec,
+};
@@ -0,0 +1,245 @@
+/**
+ * AcroForm Filling
+ *
+ * Fills an official fillable PDF from a field map, appends continuation
+ * pages for table rows that do not fit, and flattens the result.
+ */
+
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFFont,
+  PDFRadioGroup,
+  PDFTextField,
+  StandardFonts,
+  rgb,
+} from 'pdf-lib';
+import type { AcroFormMap, FieldFormat, FieldSource, FillResult, TableMapping } from './types';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 12;
+
+function getPath(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, data);
+}
+
+function resolveSource<T>(data: T, source: FieldSource<T>): unknown {
+  return typeof source === 'function' ? source(data) : getPath(data, source);
+}
+
+/**
+ * Format a value for a text field
+ */
+export function formatFieldValue(value: unknown, format: FieldFormat = 'text'): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (format) {
+    case 'currency': {
+      const amount = Number(value);
+      if (isNaN(amount)) return '';
+      return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    case 'date': {
+      const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})/);
+      return match ? `${match[2]}/${match[3]}/${match[1]}` : String(value);
+    }
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * List the AcroForm fields in a template, for building and checking field maps
+ */
+export async function listAcroFormFields(template: Uint8Array): Promise<Array<{ name: string; type: string }>> {
+  const pdf = await PDFDocument.load(template);
+  return pdf.getForm().getFields().map(f => ({ name: f.getName(), type: f.constructor.name }));
+}
+
+/**
+ * Every field name a map fills, with table rows expanded up to capacity
+ */
+export function listMappedFields(map: AcroFormMap<never>): string[] {
+  const names = map.fields.map(mapping => mapping.field);
+  for (const table of map.tables ?? []) {
+    for (let n = 1; n <= table.capacity; n++) {
+      names.push(...table.columns.map(column => column.field.replace('{n}', String(n))));
+    }
+  }
+  return names;
+}
+
+function wrapText(text: string, font: PDFFont, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, FONT_SIZE) > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Append continuation pages listing overflow rows as label/value blocks
+ */
+async function addContinuationPages(
+  pdf: PDFDocument,
+  formTitle: string,
+  sections: Array<{ title: string; rows: string[][]; labels: string[]; startIndex: number }>
+) {
+  const font = await pdf.embedFont(StandardFonts.TimesRoman);
+  const bold = await pdf.embedFont(StandardFonts.TimesRomanBold);
+  const maxWidth = PAGE_WIDTH - MARGIN * 2;
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      page.drawText(`${formTitle} (continued)`, { x: MARGIN, y, size: FONT_SIZE + 2, font: bold });
+      y -= LINE_HEIGHT * 2;
+    }
+  };
+
+  page.drawText(`${formTitle} - Continuation Page`, { x: MARGIN, y, size: FONT_SIZE + 3, font: bold });
+  y -= LINE_HEIGHT * 2;
+
+  for (const section of sections) {
+    ensureSpace(LINE_HEIGHT * 3);
+    page.drawText(section.title, { x: MARGIN, y, size: FONT_SIZE + 1, font: bold });
+    y -= LINE_HEIGHT * 1.5;
+
+    section.rows.forEach((row, index) => {
+      const lines = row.flatMap((value, col) =>
+        wrapText(`${section.labels[col]}: ${value || 'N/A'}`, font, maxWidth - 12)
+      );
+      ensureSpace(LINE_HEIGHT * (lines.length + 2));
+
+      page.drawText(`${section.startIndex + index + 1}.`, { x: MARGIN, y, size: FONT_SIZE, font: bold });
+      lines.forEach(line => {
+        page.drawText(line, { x: MARGIN + 12, y, size: FONT_SIZE, font, color: rgb(0, 0, 0) });
+        y -= LINE_HEIGHT;
+      });
+      y -= LINE_HEIGHT / 2;
+    });
+
+    y -= LINE_HEIGHT;
+  }
+}
+
+/**
+ * Fill an official fillable PDF from mapped form data
+ */
+export async function fillAcroForm<T>(
+  template: Uint8Array,
+  map: AcroFormMap<T>,
+  data: T,
+  { formTitle = map.formId, flatten = true }: { formTitle?: string; flatten?: boolean } = {}
+): Promise<FillResult> {
+  const pdf = await PDFDocument.load(template);
+  const form = pdf.getForm();
+  const missingFields: string[] = [];
+  const warnings: string[] = [];
+
+  const setField = (name: string, value: unknown, format: FieldFormat = 'text', when?: unknown, option?: string) => {
+    const field = form.getFieldMaybe(name);
+    if (!field) {
+      missingFields.push(name);
+      return;
+    }
+
+    if (field instanceof PDFCheckBox) {
+      const checked = when === undefined ? Boolean(value) : value === when;
+      if (checked) field.check();
+      else field.uncheck();
+    } else if (field instanceof PDFRadioGroup) {
+      if (when !== undefined && value !== when) return;
+      const selected = option ?? String(value ?? '');
+      if (!selected) return;
+      if (field.getOptions().includes(selected)) {
+        field.select(selected);
+      } else {
+        warnings.push(`Option "${selected}" not found for radio group ${name}`);
+      }
+    } else if (field instanceof PDFDropdown) {
+      const selected = formatFieldValue(value, format);
+      if (selected) field.select(selected);
+    } else if (field instanceof PDFTextField) {
+      let text = formatFieldValue(value, format);
+      const maxLength = field.getMaxLength();
+      if (maxLength !== undefined && text.length > maxLength) {
+        warnings.push(`Value for ${name} truncated to ${maxLength} characters`);
+        text = text.substring(0, maxLength);
+      }
+      field.setText(text);
+    } else {
+      warnings.push(`Field ${name} has an unsupported type`);
+    }
+  };
+
+  for (const mapping of map.fields) {
+    setField(mapping.field, resolveSource(data, mapping.source), mapping.format, mapping.when, mapping.option);
+  }
+
+  const overflow: Array<{ title: string; rows: string[][]; labels: string[]; startIndex: number }> = [];
+  let overflowRows = 0;
+
+  for (const table of map.tables ?? []) {
+    const rows = (resolveSource(data, table.source) as unknown[] | undefined) ?? [];
+
+    rows.slice(0, table.capacity).forEach((row, index) => {
+      for (const column of table.columns) {
+        setField(column.field.replace('{n}', String(index + 1)), getPath(row, column.source), column.format);
+      }
+    });
+
+    const extra = rows.slice(table.capacity);
+    if (extra.length > 0) {
+      overflowRows += extra.length;
+      overflow.push(tableOverflow(table, extra));
+    }
+  }
+
+  if (flatten) {
+    form.flatten();
+  }
+
+  if (overflow.length > 0) {
+    await addContinuationPages(pdf, formTitle, overflow);
+  }
+
+  return {
+    bytes: await pdf.save(),
+    missingFields,
+    overflowRows,
+    warnings,
+  };
+}
+
+function tableOverflow<T>(table: TableMapping<T>, rows: unknown[]) {
+  return {
+    title: table.title,
+    labels: table.columns.map(c => c.label),
+    rows: rows.map(row => table.columns.map(c => formatFieldValue(getPath(row, c.source), c.format))),
+    startIndex: table.capacity,
+  };
+}
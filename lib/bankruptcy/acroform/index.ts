@@ -0,0 +1,25 @@
+/**
+ * Official Fillable Forms
+ *
+ * Fills the official AcroForm PDFs from the form-mapper.ts structures.
+ */
+
+// Types
+export type {
+  AcroFormMap,
+  FieldFormat,
+  FieldMapping,
+  FieldSource,
+  FillResult,
+  TableColumn,
+  TableMapping,
+} from './types';
+
+// Filling
+export { fillAcroForm, formatFieldValue, listAcroFormFields, listMappedFields } from './fill';
+
+// Field maps
+export { OFFICIAL_FORM_MAPS } from './field-maps';
+
+// Generation
+export { OFFICIAL_FORMS_DIR, loadOfficialTemplate, generateOfficialForms } from './official';
@@ -0,0 +1,87 @@
+/**
+ * Official Form Generation
+ *
+ * Fills the vendored official PDFs where a template and field map exist and
+ * falls back to the jsPDF layouts for everything else.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { AllFormsData } from '../form-mapper';
+import { FORM_GENERATORS, type GeneratedForm } from '../pdf-generator';
+import { OFFICIAL_FORM_MAPS } from './field-maps';
+import { fillAcroForm } from './fill';
+import type { AcroFormMap } from './types';
+
+export const OFFICIAL_FORMS_DIR = path.join(process.cwd(), 'public', 'official-forms');
+
+/**
+ * Read a vendored template, or null when it has not been added
+ */
+export async function loadOfficialTemplate(filename: string, dir = OFFICIAL_FORMS_DIR): Promise<Uint8Array | null> {
+  try {
+    return new Uint8Array(await readFile(path.join(dir, filename)));
+  } catch {
+    return null;
+  }
+}
+
+/** Notes the mapper attached to the form data, such as Schedule C's exemption warnings */
+function formDataWarnings(data: AllFormsData[keyof AllFormsData]): string[] {
+  return 'warnings' in data ? data.warnings : [];
+}
+
+async function generateOfficialForm<K extends keyof AllFormsData>(
+  key: K,
+  formsData: AllFormsData,
+  dir: string
+): Promise<GeneratedForm> {
+  const data = formsData[key];
+  const map = OFFICIAL_FORM_MAPS[key] as AcroFormMap<AllFormsData[K]> | undefined;
+  const template = map ? await loadOfficialTemplate(map.template, dir) : null;
+
+  if (!map || !template) {
+    return { ...FORM_GENERATORS[key](data), source: 'generated' };
+  }
+
+  try {
+    const result = await fillAcroForm(template, map, data, { formTitle: data.formName });
+    const warnings = [...formDataWarnings(data), ...result.warnings];
+    if (result.missingFields.length > 0) {
+      warnings.push(`Template is missing ${result.missingFields.length} mapped field(s): ${result.missingFields.join(', ')}`);
+    }
+    if (result.overflowRows > 0) {
+      warnings.push(`${result.overflowRows} row(s) continued on attached pages`);
+    }
+
+    return {
+      formId: map.formId,
+      formName: data.formName,
+      filename: map.filename,
+      blob: new Blob([result.bytes as BlobPart], { type: 'application/pdf' }),
+      source: 'acroform',
+      warnings,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      ...FORM_GENERATORS[key](data),
+      source: 'generated',
+      warnings: [...formDataWarnings(data), `Could not fill official template ${map.template}: ${message}`],
+    };
+  }
+}
+
+/**
+ * Generate every form, preferring the official fillable PDFs
+ */
+export async function generateOfficialForms(
+  formsData: AllFormsData,
+  dir = OFFICIAL_FORMS_DIR
+): Promise<GeneratedForm[]> {
+  const forms: GeneratedForm[] = [];
+  for (const key of Object.keys(FORM_GENERATORS) as Array<keyof AllFormsData>) {
+    forms.push(await generateOfficialForm(key, formsData, dir));
+  }
+  return forms;
+}
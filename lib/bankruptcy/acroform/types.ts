@@ -0,0 +1,64 @@
+/**
+ * AcroForm Field Map Types
+ *
+ * A field map describes, declaratively, how a mapped form structure from
+ * form-mapper.ts lands on the fields of an official fillable PDF.
+ */
+
+export type FieldFormat = 'text' | 'currency' | 'date' | 'checkbox' | 'radio';
+
+/** Dot path into the mapped form data, or a function for derived values */
+export type FieldSource<T> = string | ((data: T) => unknown);
+
+export interface FieldMapping<T> {
+  /** AcroForm field name in the official PDF */
+  field: string;
+  source: FieldSource<T>;
+  format?: FieldFormat;
+  /**
+   * For checkboxes: check when the source equals this value (defaults to truthy).
+   * For radio groups: the option to select when the source equals this value.
+   */
+  when?: unknown;
+  /** Radio option name; defaults to String(source value) */
+  option?: string;
+}
+
+export interface TableColumn {
+  /** Field name template; `{n}` is replaced with the 1-based row number */
+  field: string;
+  /** Dot path into the row object */
+  source: string;
+  format?: FieldFormat;
+  /** Column heading on continuation pages */
+  label: string;
+}
+
+export interface TableMapping<T> {
+  /** Dot path to the array of rows in the mapped form data */
+  source: FieldSource<T>;
+  /** Rows that fit on the official form; the rest go to continuation pages */
+  capacity: number;
+  columns: TableColumn[];
+  /** Heading for the continuation page, e.g. "Part 1: Secured Claims" */
+  title: string;
+}
+
+export interface AcroFormMap<T> {
+  formId: string;
+  /** Filename under public/official-forms/ */
+  template: string;
+  /** Download filename for the filled form */
+  filename: string;
+  fields: FieldMapping<T>[];
+  tables?: TableMapping<T>[];
+}
+
+export interface FillResult {
+  bytes: Uint8Array;
+  /** Mapped field names not present in the template */
+  missingFields: string[];
+  /** Rows written to continuation pages */
+  overflowRows: number;
+  warnings: string[];
+}
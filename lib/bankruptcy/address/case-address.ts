@@ -0,0 +1,63 @@
+/**
+ * Case Address Fields
+ *
+ * Adapts the loose `address/city/state/zip/county` columns on
+ * bankruptcy_cases to the shared address model.
+ */
+
+import { normalizeCounty, normalizeState, normalizeStreetLine, normalizeZip } from './normalize';
+import type { AddressIssue } from './types';
+import { countiesMatch, lookupZip, validateAddress } from './zip-county';
+
+export interface CaseAddressFields {
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  county?: string | null;
+}
+
+/**
+ * Normalize whichever address fields are present, leaving absent fields
+ * absent so partial updates still COALESCE. A missing county is filled in
+ * from the ZIP, and a county matching the ZIP's takes the dataset spelling.
+ */
+export function normalizeCaseAddressFields<T extends CaseAddressFields>(fields: T): T {
+  const result = { ...fields };
+
+  if (result.address) result.address = normalizeStreetLine(result.address);
+  if (result.city) result.city = result.city.replace(/\s+/g, ' ').trim();
+  if (result.state) result.state = normalizeState(result.state) || result.state.trim();
+  if (result.zip) result.zip = normalizeZip(result.zip) || result.zip.trim();
+  if (result.county) result.county = normalizeCounty(result.county);
+
+  // Store the dataset's spelling, which matches the IRS housing tables
+  if (result.zip) {
+    const lookup = lookupZip(result.zip);
+    if (lookup && (!result.county || countiesMatch(result.county, lookup.county))) {
+      result.county = lookup.county;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Review flags for a case address, e.g. a county that does not match the
+ * ZIP. County drives the IRS housing and transportation allowances, so a
+ * mismatch changes the means test.
+ */
+export function getCaseAddressIssues(fields: CaseAddressFields): AddressIssue[] {
+  if (!fields.address && !fields.city && !fields.state && !fields.zip) return [];
+
+  return validateAddress(
+    {
+      street1: fields.address || '',
+      city: fields.city || '',
+      state: fields.state || '',
+      zip: fields.zip || '',
+      county: fields.county || undefined,
+    },
+    { requireCounty: true }
+  ).issues;
+}
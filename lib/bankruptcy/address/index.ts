@@ -0,0 +1,33 @@
+/**
+ * Addresses
+ *
+ * Shared address model, normalization, and ZIP-to-county validation.
+ * Client components should import from './normalize' to avoid bundling
+ * the ZIP dataset.
+ */
+
+// Types
+export type { Address, AddressField, AddressIssue, NormalizedAddress } from './types';
+
+// Normalization
+export {
+  STATE_ABBREVIATIONS,
+  US_STATES,
+  normalizeState,
+  normalizeZip,
+  normalizeStreetLine,
+  normalizeCounty,
+  countyKey,
+  normalizeAddress,
+  formatAddress,
+} from './normalize';
+
+// ZIP dataset
+export { lookupZip, countiesMatch, validateAddress, type ZipLookup } from './zip-county';
+
+// Case columns
+export {
+  normalizeCaseAddressFields,
+  getCaseAddressIssues,
+  type CaseAddressFields,
+} from './case-address';
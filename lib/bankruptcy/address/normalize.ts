@@ -0,0 +1,191 @@
+/**
+ * Address Normalization
+ *
+ * Offline USPS-style cleanup: street suffix, directional, and unit
+ * abbreviations (Publication 28), state code validation, and ZIP formatting.
+ * Has no data dependencies, so client components can import it directly.
+ */
+
+import type { Address, AddressIssue, NormalizedAddress } from './types';
+
+export const STATE_ABBREVIATIONS: Record<string, string> = {
+  ALABAMA: 'AL', ALASKA: 'AK', ARIZONA: 'AZ', ARKANSAS: 'AR', CALIFORNIA: 'CA',
+  COLORADO: 'CO', CONNECTICUT: 'CT', DELAWARE: 'DE', 'DISTRICT OF COLUMBIA': 'DC',
+  FLORIDA: 'FL', GEORGIA: 'GA', HAWAII: 'HI', IDAHO: 'ID', ILLINOIS: 'IL',
+  INDIANA: 'IN', IOWA: 'IA', KANSAS: 'KS', KENTUCKY: 'KY', LOUISIANA: 'LA',
+  MAINE: 'ME', MARYLAND: 'MD', MASSACHUSETTS: 'MA', MICHIGAN: 'MI', MINNESOTA: 'MN',
+  MISSISSIPPI: 'MS', MISSOURI: 'MO', MONTANA: 'MT', NEBRASKA: 'NE', NEVADA: 'NV',
+  'NEW HAMPSHIRE': 'NH', 'NEW JERSEY': 'NJ', 'NEW MEXICO': 'NM', 'NEW YORK': 'NY',
+  'NORTH CAROLINA': 'NC', 'NORTH DAKOTA': 'ND', OHIO: 'OH', OKLAHOMA: 'OK', OREGON: 'OR',
+  PENNSYLVANIA: 'PA', 'RHODE ISLAND': 'RI', 'SOUTH CAROLINA': 'SC', 'SOUTH DAKOTA': 'SD',
+  TENNESSEE: 'TN', TEXAS: 'TX', UTAH: 'UT', VERMONT: 'VT', VIRGINIA: 'VA',
+  WASHINGTON: 'WA', 'WEST VIRGINIA': 'WV', WISCONSIN: 'WI', WYOMING: 'WY',
+  'PUERTO RICO': 'PR', GUAM: 'GU', 'VIRGIN ISLANDS': 'VI',
+};
+
+/** Two-letter codes for the 50 states and DC, for state pickers */
+export const US_STATES = Object.values(STATE_ABBREVIATIONS)
+  .filter(code => !['PR', 'GU', 'VI'].includes(code))
+  .sort();
+
+const VALID_STATES = new Set(Object.values(STATE_ABBREVIATIONS));
+
+const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: 'Aly', AVENUE: 'Ave', AV: 'Ave', BOULEVARD: 'Blvd', CIRCLE: 'Cir',
+  COURT: 'Ct', COVE: 'Cv', CROSSING: 'Xing', DRIVE: 'Dr', EXPRESSWAY: 'Expy',
+  FREEWAY: 'Fwy', HIGHWAY: 'Hwy', LANE: 'Ln', LOOP: 'Loop', PARKWAY: 'Pkwy',
+  PLACE: 'Pl', PLAZA: 'Plz', POINT: 'Pt', ROAD: 'Rd', SQUARE: 'Sq',
+  STREET: 'St', STR: 'St', TERRACE: 'Ter', TRAIL: 'Trl', TURNPIKE: 'Tpke', WAY: 'Way',
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W',
+  NORTHEAST: 'NE', NORTHWEST: 'NW', SOUTHEAST: 'SE', SOUTHWEST: 'SW',
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  APARTMENT: 'Apt', APT: 'Apt', BUILDING: 'Bldg', FLOOR: 'Fl', SUITE: 'Ste',
+  STE: 'Ste', UNIT: 'Unit', ROOM: 'Rm', DEPARTMENT: 'Dept',
+};
+
+/**
+ * Normalize a state name or abbreviation to its two-letter code
+ */
+export function normalizeState(value: string | null | undefined): string | null {
+  const upper = (value || '').trim().replace(/\./g, '').toUpperCase();
+  if (!upper) return null;
+  if (VALID_STATES.has(upper)) return upper;
+  return STATE_ABBREVIATIONS[upper] || null;
+}
+
+/**
+ * Format a ZIP as 12345 or 12345-6789, or null if it is not a ZIP
+ */
+export function normalizeZip(value: string | null | undefined): string | null {
+  const digits = (value || '').replace(/[^\d]/g, '');
+  if (digits.length === 5) return digits;
+  if (digits.length === 9) return `${digits.substring(0, 5)}-${digits.substring(5)}`;
+  return null;
+}
+
+function collapse(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/[\s,;]+$/, '').trim();
+}
+
+/**
+ * Abbreviate street suffixes, directionals, and unit designators, and
+ * standardize PO boxes. Only the last suffix-like word is abbreviated so
+ * names such as "Park Avenue Court" keep their leading words.
+ */
+export function normalizeStreetLine(line: string): string {
+  const cleaned = collapse(line)
+    .replace(/^P\.?\s*O\.?\s*BOX\b/i, 'PO Box')
+    .replace(/^POST OFFICE BOX\b/i, 'PO Box')
+    .replace(/\.(?=\s|$)/g, '');
+
+  if (/^PO Box\b/.test(cleaned)) return cleaned;
+
+  const words = cleaned.split(' ');
+  let suffixIndex = -1;
+
+  words.forEach((word, i) => {
+    const upper = word.toUpperCase();
+    if (UNIT_DESIGNATORS[upper] && i > 0) {
+      words[i] = UNIT_DESIGNATORS[upper];
+    } else if (DIRECTIONALS[upper] && words.length > 3 && (i === 1 || i === words.length - 1)) {
+      words[i] = DIRECTIONALS[upper];
+    } else if (STREET_SUFFIXES[upper] && i > 1) {
+      suffixIndex = i;
+    }
+  });
+
+  if (suffixIndex >= 0) {
+    // Suffix-like words after a unit designator belong to the unit
+    const unitIndex = words.findIndex((w, i) => i > 0 && Object.values(UNIT_DESIGNATORS).includes(w));
+    if (unitIndex < 0 || suffixIndex < unitIndex) {
+      words[suffixIndex] = STREET_SUFFIXES[words[suffixIndex].toUpperCase()];
+    }
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Display form of a county name, without a trailing "County" or "Parish"
+ */
+export function normalizeCounty(value: string | null | undefined): string {
+  return collapse(value || '').replace(/\s+(county|parish)$/i, '');
+}
+
+/**
+ * Comparison key for county names across data sources ("St. Louis County",
+ * "Saint Louis", and "ST LOUIS" share a key; "St. Louis city", "City of
+ * St. Louis", and "St. Louis (city)" share another)
+ */
+export function countyKey(value: string): string {
+  let key = value
+    .toUpperCase()
+    .replace(/\bSAINTE?\b/g, 'ST')
+    .replace(/^CITY AND (COUNTY|BOROUGH) OF /, '')
+    .replace(/\bCITY OF (.+)$/, '$1 CITY')
+    .replace(/\((CITY)\)/g, '$1')
+    .replace(/[^A-Z0-9 ]/g, ' ');
+  key = key.replace(/\b(COUNTY|PARISH|BOROUGH|CENSUS AREA|MUNICIPALITY|CITY AND BOROUGH|PLANNING REGION)\b/g, ' ');
+  return key.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalize each field of an address and report structural problems
+ * (missing fields, unknown state, malformed ZIP). County checks against
+ * the ZIP need the bundled dataset; see `validateAddress`.
+ */
+export function normalizeAddress(input: Partial<Address>): NormalizedAddress {
+  const issues: AddressIssue[] = [];
+
+  const street1 = normalizeStreetLine(input.street1 || '');
+  const street2 = input.street2 ? normalizeStreetLine(input.street2) : undefined;
+  const city = collapse(input.city || '');
+  const state = normalizeState(input.state);
+  const zip = normalizeZip(input.zip);
+  const county = input.county ? normalizeCounty(input.county) : undefined;
+
+  if (!street1) issues.push({ field: 'street1', severity: 'error', message: 'Street address is required' });
+  if (!city) issues.push({ field: 'city', severity: 'error', message: 'City is required' });
+  if (!state) {
+    issues.push({
+      field: 'state',
+      severity: 'error',
+      message: input.state ? `"${input.state}" is not a valid state` : 'State is required',
+    });
+  }
+  if (!zip) {
+    issues.push({
+      field: 'zip',
+      severity: 'error',
+      message: input.zip ? `"${input.zip}" is not a valid ZIP code` : 'ZIP code is required',
+    });
+  }
+
+  return {
+    address: {
+      street1,
+      ...(street2 ? { street2 } : {}),
+      city,
+      state: state || (input.state || '').trim(),
+      zip: zip || (input.zip || '').trim(),
+      ...(county ? { county } : {}),
+    },
+    issues,
+  };
+}
+
+/**
+ * Single-line mailing form, e.g. "PO Box 30285, Salt Lake City, UT 84130"
+ */
+export function formatAddress(address: Address): string {
+  const street = [address.street1, address.street2].filter(Boolean).join(', ');
+  const lastLine = [address.city, [address.state, address.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [street, lastLine].filter(Boolean).join(', ');
+}
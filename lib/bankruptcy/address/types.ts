@@ -0,0 +1,30 @@
+/**
+ * Address Types
+ *
+ * Shared structured address used for debtors, creditors, and notice parties.
+ */
+
+export interface Address {
+  street1: string;
+  street2?: string;
+  city: string;
+  /** Two-letter USPS state code */
+  state: string;
+  /** 5-digit ZIP or ZIP+4 */
+  zip: string;
+  county?: string;
+}
+
+export type AddressField = keyof Address;
+
+export interface AddressIssue {
+  field: AddressField;
+  /** errors block filing; warnings need review */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface NormalizedAddress {
+  address: Address;
+  issues: AddressIssue[];
+}
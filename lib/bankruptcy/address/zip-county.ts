@@ -0,0 +1,112 @@
+/**
+ * ZIP to County Lookup
+ *
+ * Bundled ZIP-to-county dataset derived from GeoNames US postal codes
+ * (CC BY 4.0, https://www.geonames.org). Each ZIP carries its primary
+ * county; ZIPs that straddle county lines may legitimately differ, so
+ * mismatches are reported as warnings rather than errors.
+ *
+ * County names follow the IRS housing and utilities tables: no "County" or
+ * "Parish" suffix, independent cities as "Baltimore city", and Alaska
+ * boroughs and census areas in full. Connecticut uses its nine planning
+ * regions ("Capitol Planning Region"), the county equivalents since 2022,
+ * rather than the eight former counties. Only the 50 states and DC are
+ * included; the standards do not cover the territories.
+ *
+ * Format: STATE -> COUNTY -> space-separated ZIP codes
+ */
+
+import zipCounties from './zip-counties.json';
+import { countyKey, normalizeAddress, normalizeZip } from './normalize';
+import type { Address, NormalizedAddress } from './types';
+
+export interface ZipLookup {
+  zip: string;
+  state: string;
+  county: string;
+}
+
+let zipIndex: Map<string, { state: string; county: string }> | null = null;
+
+function getZipIndex() {
+  if (!zipIndex) {
+    zipIndex = new Map();
+    const data = zipCounties as Record<string, Record<string, string>>;
+    for (const [state, counties] of Object.entries(data)) {
+      for (const [county, zips] of Object.entries(counties)) {
+        for (const zip of zips.split(' ')) {
+          zipIndex.set(zip, { state, county });
+        }
+      }
+    }
+  }
+  return zipIndex;
+}
+
+/**
+ * Look up the state and primary county for a ZIP (ZIP+4 accepted)
+ */
+export function lookupZip(zip: string | null | undefined): ZipLookup | null {
+  const normalized = normalizeZip(zip);
+  if (!normalized) return null;
+
+  const zip5 = normalized.substring(0, 5);
+  const entry = getZipIndex().get(zip5);
+  return entry ? { zip: zip5, ...entry } : null;
+}
+
+/**
+ * Whether a county name refers to the same county as the dataset entry
+ */
+export function countiesMatch(a: string, b: string): boolean {
+  return countyKey(a) === countyKey(b);
+}
+
+/**
+ * County name as written in a sentence: "Travis County", "Caddo Parish",
+ * "Baltimore city"
+ */
+function describeCounty(county: string, state: string): string {
+  if (/ (city|City|Borough|Census Area|Municipality|Planning Region)$/.test(county)) return county;
+  return `${county} ${state === 'LA' ? 'Parish' : 'County'}`;
+}
+
+/**
+ * Normalize an address and check it against the ZIP dataset: fills in a
+ * missing county and flags a state or county that disagrees with the ZIP.
+ */
+export function validateAddress(
+  input: Partial<Address>,
+  { requireCounty = false }: { requireCounty?: boolean } = {}
+): NormalizedAddress {
+  const { address, issues } = normalizeAddress(input);
+  const lookup = issues.some(i => i.field === 'zip') ? null : lookupZip(address.zip);
+
+  if (lookup) {
+    if (issues.every(i => i.field !== 'state') && lookup.state !== address.state) {
+      issues.push({
+        field: 'state',
+        severity: 'warning',
+        message: `ZIP ${lookup.zip} is in ${lookup.state}, not ${address.state}`,
+      });
+    }
+
+    if (!address.county) {
+      address.county = lookup.county;
+    } else if (!countiesMatch(address.county, lookup.county)) {
+      issues.push({
+        field: 'county',
+        severity: 'warning',
+        message: `ZIP ${lookup.zip} is in ${describeCounty(lookup.county, lookup.state)}, not ${address.county}`,
+      });
+    }
+  } else if (address.zip && issues.every(i => i.field !== 'zip')) {
+    issues.push({ field: 'zip', severity: 'warning', message: `ZIP ${address.zip} was not found in the ZIP dataset` });
+  }
+
+  if (requireCounty && !address.county) {
+    issues.push({ field: 'county', severity: 'error', message: 'County is required' });
+  }
+
+  return { address, issues };
+}
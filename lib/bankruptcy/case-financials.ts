@@ -0,0 +1,280 @@
+/**
+ * Case Financial Helpers
+ *
+ * Shared calculations over raw case database rows, used by both the
+ * Chapter 7 means test and the Chapter 13 plan calculator.
+ */
+
+import type { MeansTestDeductions } from './chapter7';
+import { toEffectiveDate } from './standards';
+
+/**
+ * documented: at least one record is linked to a source document
+ * reported: income was entered without a document
+ * missing: no income records for the month
+ */
+export type LookbackMonthStatus = 'documented' | 'reported' | 'missing';
+
+export interface MonthlyIncomeSummary {
+  month: string;
+  totalGross: number; // Counted toward CMI
+  excludedSocialSecurity: number;
+  sources: { source: string; amount: number }[];
+  recordCount: number;
+  status: LookbackMonthStatus;
+}
+
+/**
+ * Married debtor filing alone (Form 122A-1 Line 1)
+ */
+export interface NonFilingSpouse {
+  // Monthly amount the spouse regularly pays toward household expenses
+  householdContribution?: number | null;
+  // Living apart: only the spouse's contributions count (Line 10)
+  separateHousehold?: boolean;
+}
+
+export interface CMIOptions {
+  // Defaults to today for cases not yet filed
+  filingDate?: Date | string | null;
+  jointFiling?: boolean;
+  nonFilingSpouse?: NonFilingSpouse | null;
+}
+
+export interface CMIDetails {
+  filingMonth: string;
+  lookbackStart: string;
+  lookbackEnd: string;
+  // The six look-back months in chronological order, including gaps
+  monthlyBreakdown: MonthlyIncomeSummary[];
+  sixMonthTotal: number;
+  currentMonthlyIncome: number; // CMI = 6-month total / 6 (Form 122A-1 Line 11)
+  excludedSocialSecurity: number; // 6-month total
+  spouseIncome: number; // Non-filing spouse's monthly average
+  maritalAdjustment: number; // Form 122A-2 Line 3
+  adjustedCurrentMonthlyIncome: number; // Form 122A-2 Line 4
+  monthsCovered: number;
+  gaps: string[];
+  isComplete: boolean;
+  // Records dated in the filing month or earlier than the look-back
+  recordsOutsideLookback: number;
+}
+
+export interface IncomeRecord {
+  income_month: string;
+  income_source: string;
+  gross_amount: number | string;
+  net_amount?: number | string | null;
+  document_id?: string | null;
+  description?: string | null;
+}
+
+export interface ExpenseRecord {
+  category: string;
+  monthly_amount: number | string;
+}
+
+export interface DebtRecord {
+  creditor_name: string;
+  debt_type: string;
+  balance: number | string;
+  secured: boolean;
+  priority: boolean;
+  monthly_payment: number | string | null;
+}
+
+/**
+ * Build Form B 122A-2 Lines 16-36 deductions from case expenses and debts
+ * Categories not listed here are already covered by the IRS standards
+ */
+export function buildMeansTestDeductions(
+  expenseRecords: ExpenseRecord[],
+  debtRecords: DebtRecord[]
+): MeansTestDeductions {
+  const sumCategory = (category: string) =>
+    expenseRecords
+      .filter(e => e.category === category)
+      .reduce((sum, e) => sum + (Number(e.monthly_amount) || 0), 0);
+
+  return {
+    taxes: sumCategory('taxes'),
+    involuntaryDeductions: sumCategory('payroll_deductions'),
+    lifeInsurance: sumCategory('life_insurance'),
+    courtOrderedPayments: sumCategory('court_ordered_payments'),
+    education: sumCategory('education'),
+    childcare: sumCategory('childcare'),
+    telecommunications: sumCategory('telecommunications'),
+    securedDebts: debtRecords
+      .filter(d => d.secured)
+      .map(d => ({
+        creditorName: d.creditor_name,
+        monthlyPayment: Number(d.monthly_payment) || 0,
+        collateralType:
+          d.debt_type === 'mortgage' ? 'residence' as const
+          : d.debt_type === 'auto_loan' ? 'vehicle' as const
+          : 'other' as const,
+      })),
+    priorityDebtTotal: debtRecords
+      .filter(d => d.priority && !d.secured)
+      .reduce((sum, d) => sum + (Number(d.balance) || 0), 0),
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The six full calendar months before the filing month (YYYY-MM, oldest first)
+ */
+export function getLookbackMonths(filingDate?: Date | string | null): string[] {
+  const [year, month] = toEffectiveDate(filingDate || new Date()).split('-').map(Number);
+  const months: string[] = [];
+  for (let offset = 6; offset >= 1; offset--) {
+    const index = year * 12 + (month - 1) - offset;
+    months.push(`${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`);
+  }
+  return months;
+}
+
+const SOCIAL_SECURITY_PATTERN = /\b(social security|SSA|SSDI|SSI)\b/i;
+
+/**
+ * Benefits received under the Social Security Act are excluded from CMI
+ * by § 101(10A)(B)
+ */
+export function isSocialSecurityIncome(record: Pick<IncomeRecord, 'income_source' | 'description'>): boolean {
+  return record.income_source === 'social_security' || SOCIAL_SECURITY_PATTERN.test(record.description ?? '');
+}
+
+/**
+ * Calculate Current Monthly Income (CMI) from income records
+ *
+ * Per 11 U.S.C. § 101(10A) and Form B 122A-1, CMI is the income from all
+ * sources received during the six full calendar months before the filing
+ * month, divided by 6. Records outside that window are ignored and months
+ * without records are reported as gaps.
+ *
+ * A non-filing spouse's income counts in full when the spouses share a
+ * household; the part not paid toward household expenses comes back out as
+ * the Form 122A-2 marital adjustment.
+ */
+export function calculateCMI(incomeRecords: IncomeRecord[], options: CMIOptions = {}): CMIDetails {
+  const lookbackMonths = getLookbackMonths(options.filingDate);
+  const monthlyTotals = new Map<string, MonthlyIncomeSummary>(
+    lookbackMonths.map(month => [month, {
+      month,
+      totalGross: 0,
+      excludedSocialSecurity: 0,
+      sources: [],
+      recordCount: 0,
+      status: 'missing',
+    }])
+  );
+
+  const countSpouse = options.jointFiling || !options.nonFilingSpouse?.separateHousehold;
+  let spouseTotal = 0;
+  let recordsOutsideLookback = 0;
+
+  for (const record of incomeRecords) {
+    const month = record.income_month?.substring(0, 7);
+    if (!month) continue;
+
+    const summary = monthlyTotals.get(month);
+    if (!summary) {
+      recordsOutsideLookback++;
+      continue;
+    }
+
+    const grossAmount = Number(record.gross_amount) || 0;
+    summary.recordCount++;
+    if (record.document_id) {
+      summary.status = 'documented';
+    } else if (summary.status === 'missing') {
+      summary.status = 'reported';
+    }
+
+    if (isSocialSecurityIncome(record)) {
+      summary.excludedSocialSecurity += grossAmount;
+      continue;
+    }
+
+    const source = record.income_source || 'employment';
+    if (source === 'spouse' && !options.jointFiling) {
+      spouseTotal += grossAmount;
+      if (!countSpouse) continue;
+    }
+
+    summary.totalGross += grossAmount;
+
+    // Track by source
+    const existingSource = summary.sources.find(s => s.source === source);
+    if (existingSource) {
+      existingSource.amount += grossAmount;
+    } else {
+      summary.sources.push({ source, amount: grossAmount });
+    }
+  }
+
+  const monthlyBreakdown = lookbackMonths.map(month => monthlyTotals.get(month)!);
+  const gaps = monthlyBreakdown.filter(m => m.status === 'missing').map(m => m.month);
+  const spouseIncome = roundCents(spouseTotal / 6);
+  const contribution = Math.max(Number(options.nonFilingSpouse?.householdContribution) || 0, 0);
+
+  // Spouses living apart: the spouse's regular contributions stand in for their income
+  const separateContribution = !countSpouse ? contribution : 0;
+  const sixMonthTotal = roundCents(
+    monthlyBreakdown.reduce((sum, m) => sum + m.totalGross, 0) + separateContribution * 6
+  );
+
+  // CMI is always divided by 6 per Form B 122A-2
+  const currentMonthlyIncome = roundCents(sixMonthTotal / 6);
+
+  // Only deducted when the contribution is known; otherwise all of the
+  // spouse's income is presumed to go to the household
+  const maritalAdjustment = countSpouse && !options.jointFiling && options.nonFilingSpouse?.householdContribution != null
+    ? roundCents(Math.max(spouseIncome - contribution, 0))
+    : 0;
+
+  return {
+    filingMonth: toEffectiveDate(options.filingDate || new Date()).substring(0, 7),
+    lookbackStart: lookbackMonths[0],
+    lookbackEnd: lookbackMonths[lookbackMonths.length - 1],
+    monthlyBreakdown,
+    sixMonthTotal,
+    currentMonthlyIncome,
+    excludedSocialSecurity: roundCents(monthlyBreakdown.reduce((sum, m) => sum + m.excludedSocialSecurity, 0)),
+    spouseIncome,
+    maritalAdjustment,
+    adjustedCurrentMonthlyIncome: roundCents(currentMonthlyIncome - maritalAdjustment),
+    monthsCovered: lookbackMonths.length - gaps.length,
+    gaps,
+    isComplete: gaps.length === 0,
+    recordsOutsideLookback,
+  };
+}
+
+/**
+ * Schedule I combined monthly income (Line 12): take-home pay from every
+ * source, including Social Security and a non-filing spouse, averaged over
+ * the look-back months that have income. Records without a net amount
+ * count at gross.
+ */
+export function calculateScheduleIMonthlyIncome(
+  incomeRecords: IncomeRecord[],
+  filingDate?: Date | string | null
+): number {
+  const lookbackMonths = new Set(getLookbackMonths(filingDate));
+  const monthsWithIncome = new Set<string>();
+  let total = 0;
+
+  for (const record of incomeRecords) {
+    const month = record.income_month?.substring(0, 7);
+    if (!month || !lookbackMonths.has(month)) continue;
+
+    monthsWithIncome.add(month);
+    total += Number(record.net_amount ?? record.gross_amount) || 0;
+  }
+
+  return monthsWithIncome.size > 0 ? roundCents(total / monthsWithIncome.size) : 0;
+}
@@ -0,0 +1,50 @@
+/**
+ * Chapter 13 Applicable Commitment Period
+ * Determines plan length per Form B 122C-1 and 11 U.S.C. § 1325(b)(4)
+ *
+ * Annualized CMI at or below the state median → 3-year (36-month) plan
+ * Annualized CMI above the state median → 5-year (60-month) plan
+ */
+
+import { getStateMedianIncome } from '../chapter7';
+import { getStandardsRelease } from '../standards/registry';
+import type { StandardsRelease } from '../standards/types';
+
+export type CommitmentPeriodMonths = 36 | 60;
+
+export interface CommitmentPeriodResult {
+  annualIncome: number;
+  medianIncome: number;
+  isAboveMedian: boolean;
+  commitmentPeriodMonths: CommitmentPeriodMonths;
+  reason: string;
+}
+
+/**
+ * Determine the applicable commitment period (Form 122C-1 Lines 16-21)
+ *
+ * @param state - Two-letter state code
+ * @param householdSize - Number of people in household
+ * @param currentMonthlyIncome - Current monthly income (CMI)
+ * @param standards - Standards release in effect on the filing date
+ */
+export function determineCommitmentPeriod(
+  state: string,
+  householdSize: number,
+  currentMonthlyIncome: number,
+  standards: StandardsRelease = getStandardsRelease()
+): CommitmentPeriodResult {
+  const annualIncome = currentMonthlyIncome * 12;
+  const medianIncome = getStateMedianIncome(state, householdSize, standards);
+  const isAboveMedian = annualIncome > medianIncome;
+
+  return {
+    annualIncome,
+    medianIncome,
+    isAboveMedian,
+    commitmentPeriodMonths: isAboveMedian ? 60 : 36,
+    reason: isAboveMedian
+      ? 'Income is above state median - applicable commitment period is 5 years'
+      : 'Income is at or below state median - applicable commitment period is 3 years',
+  };
+}
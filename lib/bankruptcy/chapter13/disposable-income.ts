@@ -0,0 +1,78 @@
+/**
+ * Chapter 13 Projected Disposable Income
+ * Calculates monthly disposable income per Form B 122C-2 and 11 U.S.C. § 1325(b)(2)
+ *
+ * Above-median debtors deduct IRS standard allowances and the Line 16-37
+ * deductions shared with Form 122A-2 from CMI. Below-median debtors
+ * subtract actual Schedule J expenses from Schedule I net income instead.
+ */
+
+import {
+  calculateForm122A2,
+  type MeansTestAllowances,
+  type MeansTestDeductions,
+  type Form122A2Breakdown,
+} from '../chapter7';
+import { getStandardsRelease } from '../standards/registry';
+import type { StandardsRelease } from '../standards/types';
+
+export interface ProjectedDisposableIncome {
+  method: 'form_122c2' | 'schedule_j';
+  currentMonthlyIncome: number;
+  // Income the deductions come out of: CMI, or Schedule I net income below median
+  monthlyIncome: number;
+  totalDeductions: number;
+  monthlyDisposableIncome: number;
+  // Line-by-line deductions (above-median debtors only)
+  breakdown?: Form122A2Breakdown;
+}
+
+/**
+ * Calculate projected disposable income for the plan
+ *
+ * @param currentMonthlyIncome - Current monthly income (CMI)
+ * @param householdSize - Number of people in household
+ * @param isAboveMedian - Result of the Form 122C-1 median comparison
+ * @param allowances - IRS standard allowances for the household
+ * @param scheduleIMonthlyIncome - Schedule I net monthly income (below-median debtors)
+ * @param actualMonthlyExpenses - Schedule J monthly expenses (below-median debtors)
+ * @param deductions - Actual Line 16-36 deductions (above-median debtors)
+ * @param standards - Standards release in effect on the filing date
+ */
+export function calculateProjectedDisposableIncome(
+  currentMonthlyIncome: number,
+  householdSize: number,
+  isAboveMedian: boolean,
+  allowances: MeansTestAllowances,
+  scheduleIMonthlyIncome: number,
+  actualMonthlyExpenses: number,
+  deductions: MeansTestDeductions = {},
+  standards: StandardsRelease = getStandardsRelease()
+): ProjectedDisposableIncome {
+  if (!isAboveMedian) {
+    const monthlyDisposableIncome = Math.round((scheduleIMonthlyIncome - actualMonthlyExpenses) * 100) / 100;
+    return {
+      method: 'schedule_j',
+      currentMonthlyIncome,
+      monthlyIncome: scheduleIMonthlyIncome,
+      totalDeductions: actualMonthlyExpenses,
+      monthlyDisposableIncome,
+    };
+  }
+
+  // Form 122C-2 Line 36 (administrative expense) depends on the plan payment
+  // itself, so trustee fees are handled by the plan schedule instead
+  const breakdown = calculateForm122A2(currentMonthlyIncome, householdSize, allowances, {
+    ...deductions,
+    projectedChapter13Payment: 0,
+  }, standards);
+
+  return {
+    method: 'form_122c2',
+    currentMonthlyIncome,
+    monthlyIncome: breakdown.currentMonthlyIncome,
+    totalDeductions: breakdown.totalDeductions,
+    monthlyDisposableIncome: breakdown.monthlyDisposableIncome,
+    breakdown,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Chapter 13 Bankruptcy Module
+ * Centralized exports for Chapter 13 plan calculations
+ */
+
+// Re-export commitment period (Form 122C-1)
+export {
+  determineCommitmentPeriod,
+  type CommitmentPeriodMonths,
+  type CommitmentPeriodResult,
+} from './commitment-period';
+
+// Re-export projected disposable income (Form 122C-2)
+export {
+  calculateProjectedDisposableIncome,
+  type ProjectedDisposableIncome,
+} from './disposable-income';
+
+// Re-export plan payment schedule
+export {
+  DEFAULT_TRUSTEE_FEE_RATE,
+  buildPlanSchedule,
+  type PlanClaim,
+  type PlanInput,
+  type PlanDistribution,
+  type Chapter13Plan,
+} from './plan';
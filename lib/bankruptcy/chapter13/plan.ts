@@ -0,0 +1,161 @@
+/**
+ * Chapter 13 Plan Payment Schedule
+ * Builds a draft plan that funds trustee fees, administrative claims,
+ * priority claims, and secured arrears before paying unsecured creditors
+ *
+ * Claims are paid pro rata across the commitment period; this is a
+ * drafting aid, not a substitute for the district's model plan.
+ */
+
+import type { CommitmentPeriodMonths } from './commitment-period';
+
+// Trustee percentage fees are capped at 10% of plan payments (28 U.S.C. § 586(e))
+export const DEFAULT_TRUSTEE_FEE_RATE = 0.10;
+
+export interface PlanClaim {
+  creditorName: string;
+  amount: number;
+  debtId?: string;
+}
+
+export interface PlanInput {
+  commitmentPeriodMonths: CommitmentPeriodMonths;
+  monthlyDisposableIncome: number;
+  priorityClaims: PlanClaim[];
+  securedArrears: PlanClaim[];
+  nonpriorityUnsecuredTotal: number;
+  attorneyFeesBalance?: number;
+  trusteeFeeRate?: number;
+}
+
+export interface PlanDistribution {
+  category: 'trustee_fee' | 'attorney_fee' | 'priority' | 'secured_arrears' | 'unsecured';
+  creditorName: string;
+  totalAmount: number;
+  monthlyAmount: number;
+}
+
+export interface Chapter13Plan {
+  commitmentPeriodMonths: CommitmentPeriodMonths;
+  monthlyPayment: number;
+  totalPlanPayments: number;
+  trusteeFeeRate: number;
+  trusteeFees: number;
+  attorneyFees: number;
+  priorityTotal: number;
+  securedArrearsTotal: number;
+  unsecuredPool: number;
+  nonpriorityUnsecuredTotal: number;
+  unsecuredDividendPercent: number;
+  // Payment needed to fund fees, priority claims, and arrears in full
+  minimumMonthlyPayment: number;
+  feasible: boolean;
+  distributions: PlanDistribution[];
+  warnings: string[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function sumClaims(claims: PlanClaim[]): number {
+  return claims.reduce((sum, c) => sum + Math.max(c.amount, 0), 0);
+}
+
+/**
+ * Build a draft Chapter 13 plan payment schedule
+ *
+ * The monthly payment is the projected disposable income, raised to the
+ * minimum needed to pay required claims in full and lowered to the amount
+ * that pays unsecured creditors 100%.
+ */
+export function buildPlanSchedule(input: PlanInput): Chapter13Plan {
+  const months = input.commitmentPeriodMonths;
+  const trusteeFeeRate = input.trusteeFeeRate ?? DEFAULT_TRUSTEE_FEE_RATE;
+  const attorneyFees = Math.max(input.attorneyFeesBalance ?? 0, 0);
+  const priorityTotal = sumClaims(input.priorityClaims);
+  const securedArrearsTotal = sumClaims(input.securedArrears);
+  const nonpriorityUnsecuredTotal = Math.max(input.nonpriorityUnsecuredTotal, 0);
+
+  // Trustee fees come off the top of every payment received
+  const requiredClaims = attorneyFees + priorityTotal + securedArrearsTotal;
+  const minimumMonthlyPayment = roundCents(requiredClaims / months / (1 - trusteeFeeRate));
+  const fullPaymentMonthly = roundCents(
+    (requiredClaims + nonpriorityUnsecuredTotal) / months / (1 - trusteeFeeRate)
+  );
+  const disposable = Math.max(input.monthlyDisposableIncome, 0);
+
+  const warnings: string[] = [];
+  const feasible = disposable >= minimumMonthlyPayment;
+  if (!feasible) {
+    warnings.push(
+      `Projected disposable income ($${disposable.toFixed(2)}/mo) is less than the $${minimumMonthlyPayment.toFixed(2)}/mo needed to pay priority claims and arrears in full`
+    );
+  }
+
+  const monthlyPayment = Math.min(Math.max(disposable, minimumMonthlyPayment), fullPaymentMonthly);
+  const totalPlanPayments = roundCents(monthlyPayment * months);
+  const trusteeFees = roundCents(totalPlanPayments * trusteeFeeRate);
+  const unsecuredPool = roundCents(
+    Math.min(
+      Math.max(totalPlanPayments - trusteeFees - requiredClaims, 0),
+      nonpriorityUnsecuredTotal
+    )
+  );
+  const unsecuredDividendPercent = nonpriorityUnsecuredTotal > 0
+    ? Math.round((unsecuredPool / nonpriorityUnsecuredTotal) * 10000) / 100
+    : 100;
+
+  const distribution = (
+    category: PlanDistribution['category'],
+    creditorName: string,
+    totalAmount: number
+  ): PlanDistribution => ({
+    category,
+    creditorName,
+    totalAmount: roundCents(totalAmount),
+    monthlyAmount: roundCents(totalAmount / months),
+  });
+
+  const distributions: PlanDistribution[] = [
+    distribution('trustee_fee', 'Chapter 13 Trustee', trusteeFees),
+  ];
+  if (attorneyFees > 0) {
+    distributions.push(distribution('attorney_fee', 'Debtor\'s Attorney', attorneyFees));
+  }
+  for (const claim of input.priorityClaims) {
+    if (claim.amount > 0) {
+      distributions.push(distribution('priority', claim.creditorName, claim.amount));
+    }
+  }
+  for (const claim of input.securedArrears) {
+    if (claim.amount > 0) {
+      distributions.push(distribution('secured_arrears', claim.creditorName, claim.amount));
+    }
+  }
+  if (nonpriorityUnsecuredTotal > 0) {
+    distributions.push(distribution('unsecured', 'General Unsecured Creditors (pro rata)', unsecuredPool));
+  }
+
+  if (nonpriorityUnsecuredTotal > 0 && unsecuredPool === 0) {
+    warnings.push('Plan pays nothing to general unsecured creditors');
+  }
+
+  return {
+    commitmentPeriodMonths: months,
+    monthlyPayment: roundCents(monthlyPayment),
+    totalPlanPayments,
+    trusteeFeeRate,
+    trusteeFees,
+    attorneyFees: roundCents(attorneyFees),
+    priorityTotal: roundCents(priorityTotal),
+    securedArrearsTotal: roundCents(securedArrearsTotal),
+    unsecuredPool,
+    nonpriorityUnsecuredTotal: roundCents(nonpriorityUnsecuredTotal),
+    unsecuredDividendPercent,
+    minimumMonthlyPayment,
+    feasible,
+    distributions,
+    warnings,
+  };
+}
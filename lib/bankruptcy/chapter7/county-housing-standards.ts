@@ -14,6 +14,8 @@
  * on housing and utilities, whichever is less.
  */
 
+import { countyKey } from '../address/normalize';
+
 export const COUNTY_HOUSING_STANDARDS: Record<string, Record<string, number[]>> = {
   // California
   CA: {
@@ -479,12 +481,14 @@ export const COUNTY_HOUSING_STANDARDS: Record<string, Record<string, number[]>>
  * @param state - Two-letter state code (e.g., "CA", "TX")
  * @param county - County name (case-insensitive)
  * @param householdSize - Number of people in household (1-5+)
+ * @param standards - Housing table to use (defaults to the bundled figures)
  * @returns Monthly housing allowance amount
  */
 export function getCountyHousingStandard(
   state: string,
   county: string | null | undefined,
-  householdSize: number
+  householdSize: number,
+  standards: Record<string, Record<string, number[]>> = COUNTY_HOUSING_STANDARDS
 ): number {
   const normalizedState = state.toUpperCase();
   const normalizedCounty = county?.toUpperCase().replace(' COUNTY', '').trim();
@@ -493,9 +497,12 @@ export function getCountyHousingStandard(
   const sizeIndex = Math.min(Math.max(householdSize, 1), 5) - 1;
 
   // Try to get county-specific data
-  const stateData = COUNTY_HOUSING_STANDARDS[normalizedState];
+  const stateData = standards[normalizedState];
   if (stateData && normalizedCounty) {
-    const countyData = stateData[normalizedCounty];
+    // Fall back to a spelling-insensitive match ("Saint Louis City", "City of St. Louis")
+    const countyData =
+      stateData[normalizedCounty] ??
+      Object.entries(stateData).find(([name]) => countyKey(name) === countyKey(normalizedCounty))?.[1];
     if (countyData) {
       return countyData[sizeIndex];
     }
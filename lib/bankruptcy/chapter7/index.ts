@@ -7,6 +7,8 @@
 export {
   calculateMeansTest,
   calculateIRSAllowances,
+  calculateForm122A2,
+  getAdditionalFoodClothingLimit,
   getNationalStandardTotal,
   getHousingStandard,
   getTransportationStandard,
@@ -14,9 +16,14 @@ export {
   getHealthCareStandard,
   type MeansTestResult,
   type MeansTestAllowances,
+  type MeansTestDeductions,
+  type SecuredDebtPayment,
+  type Form122A2Breakdown,
+  type Form122A2LineItem,
 } from './means-test';
 
-// Re-export standards (useful for reference)
+// Re-export the bundled standards snapshot (date-effective releases live in
+// lib/bankruptcy/standards)
 export {
   NATIONAL_STANDARDS,
   HEALTH_CARE_STANDARDS,
@@ -45,5 +52,7 @@ export {
   getOwnershipCosts,
   isInMetroArea,
   getMetroAreaForCounty,
+  type MetroArea,
   type TransportationAllowance,
+  type TransportationRates,
 } from './transportation-standards';
@@ -6,19 +6,15 @@
  * Uses IRS Local Standards for:
  * - County-level housing allowances
  * - Regional/metro area transportation operating costs
+ *
+ * Figures come from the standards release in effect on the filing date
+ * (see lib/bankruptcy/standards); helpers default to today's release.
  */
 
-import {
-  NATIONAL_STANDARDS,
-  HEALTH_CARE_STANDARDS,
-  STATE_MEDIAN_INCOME,
-  // CHAPTER_7_LIMITS - Used for Part 2 (Form 122A-2) when implemented
-} from './standards';
+import { getStandardsRelease } from '../standards/registry';
+import type { StandardsRelease } from '../standards/types';
 
-import {
-  getCountyHousingStandard,
-  hasCountyData,
-} from './county-housing-standards';
+import { getCountyHousingStandard } from './county-housing-standards';
 
 import {
   calculateTransportationAllowance,
@@ -26,14 +22,18 @@ import {
 } from './transportation-standards';
 
 // Helper functions
-export function getNationalStandardTotal(householdSize: number): number {
+export function getNationalStandardTotal(
+  householdSize: number,
+  standards: StandardsRelease = getStandardsRelease()
+): number {
+  const { nationalStandards } = standards;
   if (householdSize <= 0) return 0;
   if (householdSize <= 4) {
-    return NATIONAL_STANDARDS[householdSize as 1 | 2 | 3 | 4].total;
+    return nationalStandards[householdSize as 1 | 2 | 3 | 4].total;
   }
   // For households > 4, add per-person amount
-  const baseFour = NATIONAL_STANDARDS[4].total;
-  const additional = (householdSize - 4) * NATIONAL_STANDARDS.additionalPerson.total;
+  const baseFour = nationalStandards[4].total;
+  const additional = (householdSize - 4) * nationalStandards.additionalPerson.total;
   return baseFour + additional;
 }
 
@@ -46,15 +46,17 @@ export function getNationalStandardTotal(householdSize: number): number {
  * @param state - Two-letter state code
  * @param householdSize - Number of people in household
  * @param county - County name (optional, but recommended for accuracy)
+ * @param standards - Standards release (defaults to today's)
  * @returns Monthly housing allowance
  */
 export function getHousingStandard(
   state: string,
   householdSize: number,
-  county?: string | null
+  county?: string | null,
+  standards: StandardsRelease = getStandardsRelease()
 ): number {
   // Use county-level data if available (IRS Local Standards)
-  return getCountyHousingStandard(state, county, householdSize);
+  return getCountyHousingStandard(state, county, householdSize, standards.housing);
 }
 
 /**
@@ -69,19 +71,22 @@ export function getHousingStandard(
  * @param county - County name (for metro area operating costs)
  * @param vehicleCount - Number of vehicles (0, 1, or 2)
  * @param usesPublicTransportation - Whether debtor uses public transit (if no vehicle)
+ * @param standards - Standards release (defaults to today's)
  * @returns Transportation allowance breakdown
  */
 export function getTransportationStandard(
   state: string,
   county: string | null | undefined,
   vehicleCount: number = 1,
-  usesPublicTransportation: boolean = false
+  usesPublicTransportation: boolean = false,
+  standards: StandardsRelease = getStandardsRelease()
 ): TransportationAllowance {
   return calculateTransportationAllowance(
     state,
     county,
     vehicleCount,
-    usesPublicTransportation
+    usesPublicTransportation,
+    standards.transportation
   );
 }
 
@@ -104,8 +109,12 @@ export function getTransportationStandardLegacy(
   return result.total;
 }
 
-export function getStateMedianIncome(state: string, householdSize: number): number {
-  const stateMedian = STATE_MEDIAN_INCOME[state.toUpperCase()];
+export function getStateMedianIncome(
+  state: string,
+  householdSize: number,
+  standards: StandardsRelease = getStandardsRelease()
+): number {
+  const stateMedian = standards.medianIncome[state.toUpperCase()];
   if (!stateMedian) {
     // Default to national average
     return 60000 + (householdSize - 1) * 15000;
@@ -121,18 +130,23 @@ export function getStateMedianIncome(state: string, householdSize: number): numb
   return baseFour + (householdSize - 4) * additionalPerPerson;
 }
 
-export function getHealthCareStandard(age: number, householdSize: number): number {
+export function getHealthCareStandard(
+  age: number,
+  householdSize: number,
+  standards: StandardsRelease = getStandardsRelease()
+): number {
+  const { healthCare } = standards;
   // Simplified: assume one person over 65 for every 2 people in household of 4+
   const over65Count = Math.floor(householdSize / 4);
   const under65Count = householdSize - over65Count;
 
   if (age >= 65) {
-    return HEALTH_CARE_STANDARDS.age65OrOlder * householdSize;
+    return healthCare.age65OrOlder * householdSize;
   }
 
   return (
-    HEALTH_CARE_STANDARDS.under65 * under65Count +
-    HEALTH_CARE_STANDARDS.age65OrOlder * over65Count
+    healthCare.under65 * under65Count +
+    healthCare.age65OrOlder * over65Count
   );
 }
 
@@ -158,6 +172,8 @@ export interface MeansTestAllowances {
   usingCountyData?: boolean;
   usingMetroData?: boolean;
   county?: string;
+  // Standards release the allowances were drawn from
+  standardsVersion: string;
 }
 
 /**
@@ -175,6 +191,7 @@ export interface MeansTestAllowances {
  * @param hasVehicle - Whether debtor owns/leases a vehicle
  * @param vehicleCount - Number of vehicles (max 2 for allowance)
  * @param primaryAge - Age of primary debtor (affects health care allowance)
+ * @param standards - Standards release in effect on the filing date
  */
 export function calculateIRSAllowances(
   state: string,
@@ -182,10 +199,11 @@ export function calculateIRSAllowances(
   county?: string | null,
   hasVehicle: boolean = true,
   vehicleCount: number = 1,
-  primaryAge: number = 40
+  primaryAge: number = 40,
+  standards: StandardsRelease = getStandardsRelease()
 ): MeansTestAllowances {
-  const nationalStandards = getNationalStandardTotal(householdSize);
-  const housingUtilities = getHousingStandard(state, householdSize, county);
+  const nationalStandards = getNationalStandardTotal(householdSize, standards);
+  const housingUtilities = getHousingStandard(state, householdSize, county, standards);
 
   // Calculate transportation using regional standards per Form B 122A-2
   // Lines 10-12: Ownership (National) + Operating (Local/Regional) or Public Transit
@@ -193,10 +211,11 @@ export function calculateIRSAllowances(
     state,
     county,
     hasVehicle ? vehicleCount : 0,
-    !hasVehicle  // Uses public transportation if no vehicle
+    !hasVehicle,  // Uses public transportation if no vehicle
+    standards
   );
 
-  const healthCare = getHealthCareStandard(primaryAge, householdSize);
+  const healthCare = getHealthCareStandard(primaryAge, householdSize, standards);
 
   return {
     nationalStandards,
@@ -211,9 +230,248 @@ export function calculateIRSAllowances(
     },
     healthCare,
     total: nationalStandards + housingUtilities + transportationResult.total + healthCare,
-    usingCountyData: hasCountyData(state) && !!county,
+    usingCountyData: state.toUpperCase() in standards.housing && !!county,
     usingMetroData: !!transportationResult.metroArea,
     county: county || undefined,
+    standardsVersion: standards.version,
+  };
+}
+
+/**
+ * Secured debt entry for Form B 122A-2 Lines 33-34
+ */
+export interface SecuredDebtPayment {
+  creditorName?: string;
+  monthlyPayment: number;
+  // Payments remaining after filing (capped at 60); defaults to 60
+  monthsRemaining?: number;
+  // Arrearage needed to keep the collateral (Line 34)
+  cureAmount?: number;
+  // Residence and vehicle payments offset the Line 9 and Line 13 allowances
+  collateralType?: 'residence' | 'vehicle' | 'other';
+}
+
+/**
+ * Actual monthly deductions claimed on Form B 122A-2 (Lines 16-36)
+ * All amounts are monthly unless noted otherwise
+ */
+export interface MeansTestDeductions {
+  // Line 3: Non-filing spouse's income not paid toward household expenses
+  maritalAdjustment?: number;
+
+  // Lines 16-23: Other necessary expenses
+  taxes?: number;                    // Line 16: Income, Social Security, and Medicare taxes
+  involuntaryDeductions?: number;    // Line 17: Mandatory retirement, union dues, uniforms
+  lifeInsurance?: number;            // Line 18: Term life insurance premiums
+  courtOrderedPayments?: number;     // Line 19: Support or alimony ordered by a court
+  education?: number;                // Line 20: Required for employment or disabled child
+  childcare?: number;                // Line 21: Childcare (not education)
+  additionalHealthCare?: number;     // Line 22: Health care above the Line 7 standard
+  telecommunications?: number;       // Line 23: Optional telephones and services
+
+  // Lines 25-31: Additional expense deductions
+  healthInsurance?: number;          // Line 25: Health/disability insurance and HSA
+  familyCare?: number;               // Line 26: Care of elderly, chronically ill, or disabled family
+  familyViolenceProtection?: number; // Line 27: Family Violence Prevention and Services Act costs
+  additionalHomeEnergy?: number;     // Line 28: Home energy above the Local Standard
+  dependentChildEducation?: number;  // Line 29: Education for dependent children under 18
+  additionalFoodClothing?: number;   // Line 30: Capped at 5% of food and clothing standards
+  charitableContributions?: number;  // Line 31: Continuing charitable contributions
+
+  // Lines 33-36: Deductions for debt payment
+  securedDebts?: SecuredDebtPayment[];  // Lines 33-34
+  priorityDebtTotal?: number;           // Line 35: Total priority claims (divided by 60)
+  projectedChapter13Payment?: number;   // Line 36: Projected monthly Chapter 13 plan payment
+  chapter13AdminMultiplier?: number;    // Line 36: District multiplier (e.g., 0.1 for 10%)
+}
+
+export interface Form122A2LineItem {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+/**
+ * Line-by-line Form B 122A-2 calculation for above-median debtors
+ */
+export interface Form122A2Breakdown {
+  lines: Form122A2LineItem[];
+  irsStandardDeductions: number;      // Line 24
+  additionalExpenseDeductions: number; // Line 32
+  debtPaymentDeductions: number;      // Line 37
+  totalDeductions: number;            // Line 38
+  currentMonthlyIncome: number;       // Line 39a
+  monthlyDisposableIncome: number;    // Line 39c
+  sixtyMonthDisposable: number;       // Line 39d
+  // Lines 41a-41b: Only reached when Line 39d falls between the thresholds
+  nonpriorityUnsecuredDebt?: number;
+  unsecuredDebtThreshold?: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Line 30 limit: 5% of the National Standards food and clothing allowance
+ */
+export function getAdditionalFoodClothingLimit(
+  householdSize: number,
+  standards: StandardsRelease = getStandardsRelease()
+): number {
+  const { nationalStandards } = standards;
+  if (householdSize <= 0) return 0;
+  const size = Math.min(householdSize, 4) as 1 | 2 | 3 | 4;
+  const base = nationalStandards[size].food + nationalStandards[size].apparel;
+  const extraPeople = Math.max(0, householdSize - 4);
+  const additional = extraPeople * (
+    nationalStandards.additionalPerson.food + nationalStandards.additionalPerson.apparel
+  );
+  return roundCents((base + additional) * 0.05);
+}
+
+/**
+ * Average monthly payment on a secured debt per Line 33:
+ * total contractually due in the 60 months after filing, divided by 60
+ */
+function averageSecuredPayment(debt: SecuredDebtPayment): number {
+  const months = Math.min(Math.max(debt.monthsRemaining ?? 60, 0), 60);
+  return (debt.monthlyPayment * months) / 60;
+}
+
+/**
+ * Calculate Form B 122A-2 deductions and disposable income (Lines 6-39)
+ *
+ * Housing is tracked as a single Local Standard amount, so the Line 9
+ * mortgage offset is applied to the combined housing and utilities figure.
+ */
+export function calculateForm122A2(
+  currentMonthlyIncome: number,
+  householdSize: number,
+  allowances: MeansTestAllowances,
+  deductions: MeansTestDeductions = {},
+  standards: StandardsRelease = getStandardsRelease()
+): Form122A2Breakdown {
+  const lines: Form122A2LineItem[] = [];
+  const addLine = (line: string, description: string, amount: number) => {
+    const rounded = roundCents(Math.max(amount, 0));
+    lines.push({ line, description, amount: rounded });
+    return rounded;
+  };
+
+  // Lines 1-4: Current monthly income less the marital adjustment
+  addLine('1', 'Current monthly income (Form 122A-1 Line 11)', currentMonthlyIncome);
+  const maritalAdjustment = addLine(
+    '3',
+    'Marital adjustment',
+    Math.min(deductions.maritalAdjustment ?? 0, currentMonthlyIncome)
+  );
+  const adjustedIncome = addLine('4', 'Adjusted current monthly income', currentMonthlyIncome - maritalAdjustment);
+
+  const securedDebts = deductions.securedDebts ?? [];
+  const residencePayments = securedDebts
+    .filter(d => d.collateralType === 'residence')
+    .reduce((sum, d) => sum + averageSecuredPayment(d), 0);
+  const vehiclePayments = securedDebts
+    .filter(d => d.collateralType === 'vehicle')
+    .reduce((sum, d) => sum + averageSecuredPayment(d), 0);
+
+  // Lines 6-15: IRS National and Local Standards
+  const { transportationBreakdown } = allowances;
+  const standardsLines = [
+    addLine('6', 'Food, clothing, and other items (National Standards)', allowances.nationalStandards),
+    addLine('7', 'Out-of-pocket health care', allowances.healthCare),
+    addLine('8-9', 'Housing and utilities, less home mortgage payments', allowances.housingUtilities - residencePayments),
+    addLine('12', 'Vehicle operation expense', transportationBreakdown.operating),
+    addLine('13', 'Vehicle ownership expense, less loan or lease payments', transportationBreakdown.ownership - vehiclePayments),
+    addLine('14', 'Public transportation expense', transportationBreakdown.publicTransit),
+  ];
+
+  // Lines 16-23: Other necessary expenses
+  const otherNecessaryLines = [
+    addLine('16', 'Taxes', deductions.taxes ?? 0),
+    addLine('17', 'Involuntary deductions', deductions.involuntaryDeductions ?? 0),
+    addLine('18', 'Life insurance', deductions.lifeInsurance ?? 0),
+    addLine('19', 'Court-ordered payments', deductions.courtOrderedPayments ?? 0),
+    addLine('20', 'Education required for employment or a disabled child', deductions.education ?? 0),
+    addLine('21', 'Childcare', deductions.childcare ?? 0),
+    addLine('22', 'Additional health care expenses', deductions.additionalHealthCare ?? 0),
+    addLine('23', 'Optional telephones and telephone services', deductions.telecommunications ?? 0),
+  ];
+  const irsStandardDeductions = addLine(
+    '24',
+    'Total deductions allowed under IRS expense allowances',
+    [...standardsLines, ...otherNecessaryLines].reduce((sum, amount) => sum + amount, 0)
+  );
+
+  // Lines 25-31: Additional expense deductions
+  const additionalLines = [
+    addLine('25', 'Health insurance, disability insurance, and health savings account', deductions.healthInsurance ?? 0),
+    addLine('26', 'Care of elderly, chronically ill, or disabled family members', deductions.familyCare ?? 0),
+    addLine('27', 'Protection against family violence', deductions.familyViolenceProtection ?? 0),
+    addLine('28', 'Additional home energy costs', deductions.additionalHomeEnergy ?? 0),
+    addLine('29', 'Education expenses for dependent children under 18', deductions.dependentChildEducation ?? 0),
+    addLine(
+      '30',
+      'Additional food and clothing expense',
+      Math.min(deductions.additionalFoodClothing ?? 0, getAdditionalFoodClothingLimit(householdSize, standards))
+    ),
+    addLine('31', 'Continuing charitable contributions', deductions.charitableContributions ?? 0),
+  ];
+  const additionalExpenseDeductions = addLine(
+    '32',
+    'Total additional expense deductions',
+    additionalLines.reduce((sum, amount) => sum + amount, 0)
+  );
+
+  // Lines 33-36: Deductions for debt payment (averaged over 60 months)
+  const debtLines = [
+    addLine(
+      '33',
+      'Average monthly payments on secured debts',
+      securedDebts.reduce((sum, d) => sum + averageSecuredPayment(d), 0)
+    ),
+    addLine(
+      '34',
+      'Cure amounts for property needed for support',
+      securedDebts.reduce((sum, d) => sum + (d.cureAmount ?? 0), 0) / 60
+    ),
+    addLine('35', 'Payments on priority claims', (deductions.priorityDebtTotal ?? 0) / 60),
+    addLine(
+      '36',
+      'Projected Chapter 13 administrative expenses',
+      (deductions.projectedChapter13Payment ?? 0) * (deductions.chapter13AdminMultiplier ?? 0)
+    ),
+  ];
+  const debtPaymentDeductions = addLine(
+    '37',
+    'Total deductions for debt payment',
+    debtLines.reduce((sum, amount) => sum + amount, 0)
+  );
+
+  const totalDeductions = addLine(
+    '38',
+    'Total of all deductions allowed',
+    irsStandardDeductions + additionalExpenseDeductions + debtPaymentDeductions
+  );
+
+  // Lines 39a-39d: Disposable income (may be negative)
+  const monthlyDisposableIncome = roundCents(adjustedIncome - totalDeductions);
+  const sixtyMonthDisposable = roundCents(monthlyDisposableIncome * 60);
+  lines.push({ line: '39a', description: 'Current monthly income', amount: adjustedIncome });
+  lines.push({ line: '39b', description: 'Total deductions', amount: totalDeductions });
+  lines.push({ line: '39c', description: 'Monthly disposable income', amount: monthlyDisposableIncome });
+  lines.push({ line: '39d', description: 'Disposable income over 60 months', amount: sixtyMonthDisposable });
+
+  return {
+    lines,
+    irsStandardDeductions,
+    additionalExpenseDeductions,
+    debtPaymentDeductions,
+    totalDeductions,
+    currentMonthlyIncome: adjustedIncome,
+    monthlyDisposableIncome,
+    sixtyMonthDisposable,
   };
 }
 
@@ -226,10 +484,13 @@ export interface MeansTestResult {
   monthlyDisposableIncome?: number;
   sixtyMonthDisposable?: number;
   presumptionOfAbuse: boolean;
-  presumptionTestPending?: boolean; // True if Part 2 calculation is under development
   reason: string;
   // Additional data for form completion
   allowances?: MeansTestAllowances;
+  // Form 122A-2 line-by-line calculation (above-median debtors only)
+  breakdown?: Form122A2Breakdown;
+  // Standards release used, e.g. "2025-11-01"
+  standardsVersion: string;
 }
 
 /**
@@ -240,10 +501,14 @@ export interface MeansTestResult {
  * Part 1: Compare current monthly income × 12 to state median
  *         If below median → automatic qualification for Chapter 7
  *
- * Part 2: If above median, calculate disposable income
- *         Presumption of abuse arises if:
- *         - Monthly disposable income ≥ $239.58 (i.e., $14,375 over 60 months), OR
- *         - Can repay 25% of unsecured debt over 60 months
+ * Part 2: If above median, calculate disposable income (Form 122A-2)
+ *         Presumption of abuse arises if 60-month disposable income:
+ *         - Exceeds chapter7Limits.upperThreshold60, OR
+ *         - Is at least chapter7Limits.lowerThreshold60 and at least
+ *           25% of nonpriority unsecured debt
+ *
+ * Median income, IRS standards, and thresholds come from the release in
+ * effect on the filing date, or today's release when there is none.
  *
  * @param state - Two-letter state code
  * @param householdSize - Number of people in household
@@ -254,6 +519,8 @@ export interface MeansTestResult {
  * @param hasVehicle - Whether debtor owns/leases a vehicle
  * @param vehicleCount - Number of vehicles
  * @param primaryAge - Age of primary debtor
+ * @param deductions - Actual deductions claimed on Lines 16-36
+ * @param filingDate - Petition date used to select the standards release
  */
 export function calculateMeansTest(
   state: string,
@@ -264,10 +531,14 @@ export function calculateMeansTest(
   county?: string | null,
   hasVehicle: boolean = true,
   vehicleCount: number = 1,
-  primaryAge: number = 40
+  primaryAge: number = 40,
+  deductions: MeansTestDeductions = {},
+  filingDate?: Date | string | null
 ): MeansTestResult {
+  const standards = getStandardsRelease(filingDate);
+  const limits = standards.chapter7Limits;
   const annualIncome = monthlyGrossIncome * 12;
-  const medianIncome = getStateMedianIncome(state, householdSize);
+  const medianIncome = getStateMedianIncome(state, householdSize, standards);
   const isAboveMedian = annualIncome > medianIncome;
 
   // Calculate IRS allowances (needed for both paths for reporting)
@@ -277,7 +548,8 @@ export function calculateMeansTest(
     county,
     hasVehicle,
     vehicleCount,
-    primaryAge
+    primaryAge,
+    standards
   );
 
   // If below median, automatically passes (Part 1 - Form 122A-1)
@@ -290,31 +562,60 @@ export function calculateMeansTest(
       medianIncome,
       isAboveMedian: false,
       presumptionOfAbuse: false,
-      presumptionTestPending: false,
       reason: 'Income is below state median - qualifies for Chapter 7 (Form 122A-2 not required)',
       allowances: irsAllowances,
+      standardsVersion: standards.version,
     };
   }
 
   // Above median - Form 122A-2 (Presumption of Abuse Test) is required
-  // This calculates disposable income using:
-  // - IRS National Standards (Lines 6-7)
-  // - IRS Local Standards (Lines 8-15)
-  // - Other deductions (Lines 16-23)
-  // - Additional expense claims (Lines 25-31)
-  // - Secured debt payments (Lines 33-37)
-  //
-  // DEVELOPMENT STATUS: Full Form 122A-2 calculation with all deduction
-  // categories (Lines 16-37) is still under development.
+  const breakdown = calculateForm122A2(
+    monthlyGrossIncome,
+    householdSize,
+    irsAllowances,
+    deductions,
+    standards
+  );
+  const { monthlyDisposableIncome, sixtyMonthDisposable } = breakdown;
+  const formatted = `$${sixtyMonthDisposable.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  let presumptionOfAbuse: boolean;
+  let reason: string;
+
+  // Line 40: Compare 60-month disposable income to the statutory thresholds
+  if (sixtyMonthDisposable < limits.lowerThreshold60) {
+    presumptionOfAbuse = false;
+    reason = `No presumption of abuse - 60-month disposable income (${formatted}) is below $${limits.lowerThreshold60.toLocaleString()}`;
+  } else if (sixtyMonthDisposable > limits.upperThreshold60) {
+    presumptionOfAbuse = true;
+    reason = `Presumption of abuse - 60-month disposable income (${formatted}) exceeds $${limits.upperThreshold60.toLocaleString()}; consider Chapter 13`;
+  } else {
+    // Lines 41-42: Compare to 25% of nonpriority unsecured debt
+    const unsecuredDebtThreshold = roundCents(totalUnsecuredDebt * 0.25);
+    breakdown.nonpriorityUnsecuredDebt = roundCents(totalUnsecuredDebt);
+    breakdown.unsecuredDebtThreshold = unsecuredDebtThreshold;
+    breakdown.lines.push(
+      { line: '41a', description: 'Total nonpriority unsecured debt', amount: breakdown.nonpriorityUnsecuredDebt },
+      { line: '41b', description: '25% of nonpriority unsecured debt', amount: unsecuredDebtThreshold }
+    );
+
+    presumptionOfAbuse = sixtyMonthDisposable >= unsecuredDebtThreshold;
+    reason = presumptionOfAbuse
+      ? `Presumption of abuse - 60-month disposable income (${formatted}) can repay at least 25% of nonpriority unsecured debt; consider Chapter 13`
+      : `No presumption of abuse - 60-month disposable income (${formatted}) is less than 25% of nonpriority unsecured debt`;
+  }
 
   return {
-    passes: false, // Cannot determine without full Part 2 calculation
+    passes: !presumptionOfAbuse,
     annualIncome,
     medianIncome,
     isAboveMedian: true,
-    presumptionOfAbuse: false, // Unknown - needs full calculation
-    presumptionTestPending: true, // Indicates Part 2 is under development
-    reason: 'Presumption of Abuse Test still under development - income is above state median, full Form 122A-2 calculation required',
+    monthlyDisposableIncome,
+    sixtyMonthDisposable,
+    presumptionOfAbuse,
+    reason,
     allowances: irsAllowances,
+    breakdown,
+    standardsVersion: standards.version,
   };
 }
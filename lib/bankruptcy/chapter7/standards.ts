@@ -1,7 +1,9 @@
 /**
  * IRS Collection Financial Standards for Chapter 7 Bankruptcy Means Test
  * These standards are used to determine allowable expenses in Chapter 7 bankruptcy
- * Data is based on 2024 IRS standards (update annually)
+ *
+ * This is the bundled snapshot. Later releases are imported from
+ * data/standards and selected by filing date; see lib/bankruptcy/standards.
  */
 
 // National Standards - same for all states
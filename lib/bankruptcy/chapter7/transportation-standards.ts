@@ -54,7 +54,7 @@ export type Region = keyof typeof REGIONAL_BASELINE;
 // METRO AREA OPERATING COSTS
 // ============================================================================
 
-interface MetroArea {
+export interface MetroArea {
   name: string;
   oneCar: number;
   twoCars: number;
@@ -214,6 +214,12 @@ export const COUNTY_TO_METRO: Record<string, Record<string, string>> = {
     FREDERICKSBURG: 'WASHINGTON_DC',
     MANASSAS: 'WASHINGTON_DC',
     'MANASSAS PARK': 'WASHINGTON_DC',
+    'ALEXANDRIA CITY': 'WASHINGTON_DC',
+    'FAIRFAX CITY': 'WASHINGTON_DC',
+    'FALLS CHURCH CITY': 'WASHINGTON_DC',
+    'FREDERICKSBURG CITY': 'WASHINGTON_DC',
+    'MANASSAS CITY': 'WASHINGTON_DC',
+    'MANASSAS PARK CITY': 'WASHINGTON_DC',
   },
 
   // West Virginia - Washington DC Metro
@@ -389,7 +395,9 @@ export const COUNTY_TO_METRO: Record<string, Record<string, string>> = {
   // Alaska - Anchorage Metro
   AK: {
     ANCHORAGE: 'ANCHORAGE',
+    'ANCHORAGE MUNICIPALITY': 'ANCHORAGE',
     'MATANUSKA-SUSITNA': 'ANCHORAGE',
+    'MATANUSKA-SUSITNA BOROUGH': 'ANCHORAGE',
   },
 
   // Colorado - Denver Metro
@@ -474,6 +482,24 @@ export const STATE_TO_REGION: Record<string, Region> = {
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Dollar figures that change with each IRS release; county-to-metro
+ * geography stays fixed
+ */
+export interface TransportationRates {
+  ownership: { oneVehicle: number; twoVehicles: number };
+  publicTransportation: number;
+  regionalBaseline: Record<Region, { oneCar: number; twoCars: number }>;
+  metroAreas: Record<string, MetroArea>;
+}
+
+const BUNDLED_RATES: TransportationRates = {
+  ownership: VEHICLE_OWNERSHIP,
+  publicTransportation: PUBLIC_TRANSPORTATION,
+  regionalBaseline: REGIONAL_BASELINE,
+  metroAreas: METRO_AREAS,
+};
+
 export interface TransportationAllowance {
   ownership: number;
   operating: number;
@@ -491,12 +517,14 @@ export interface TransportationAllowance {
  * @param state - Two-letter state code
  * @param county - County name (for metro area lookup)
  * @param vehicleCount - Number of vehicles (1 or 2)
+ * @param rates - Release figures (defaults to the bundled figures)
  * @returns Operating cost allowance
  */
 export function getOperatingCosts(
   state: string,
   county: string | null | undefined,
-  vehicleCount: number
+  vehicleCount: number,
+  rates: TransportationRates = BUNDLED_RATES
 ): { cost: number; metroArea?: string; region: Region; usingMetroData: boolean } {
   const normalizedState = state.toUpperCase();
   const normalizedCounty = county?.toUpperCase().replace(' COUNTY', '').trim();
@@ -510,8 +538,8 @@ export function getOperatingCosts(
     const stateCounties = COUNTY_TO_METRO[normalizedState];
     if (stateCounties) {
       const metroKey = stateCounties[normalizedCounty];
-      if (metroKey && METRO_AREAS[metroKey]) {
-        const metro = METRO_AREAS[metroKey];
+      if (metroKey && rates.metroAreas[metroKey]) {
+        const metro = rates.metroAreas[metroKey];
         return {
           cost: vehicles === 2 ? metro.twoCars : (vehicles === 1 ? metro.oneCar : 0),
           metroArea: metro.name,
@@ -523,7 +551,7 @@ export function getOperatingCosts(
   }
 
   // Fall back to regional baseline
-  const baseline = REGIONAL_BASELINE[region];
+  const baseline = rates.regionalBaseline[region];
   return {
     cost: vehicles === 2 ? baseline.twoCars : (vehicles === 1 ? baseline.oneCar : 0),
     region,
@@ -535,12 +563,13 @@ export function getOperatingCosts(
  * Get ownership costs (national standard)
  *
  * @param vehicleCount - Number of vehicles (0, 1, or 2)
+ * @param rates - Release figures (defaults to the bundled figures)
  * @returns Ownership cost allowance
  */
-export function getOwnershipCosts(vehicleCount: number): number {
+export function getOwnershipCosts(vehicleCount: number, rates: TransportationRates = BUNDLED_RATES): number {
   const vehicles = Math.min(Math.max(vehicleCount, 0), 2);
   if (vehicles === 0) return 0;
-  return vehicles === 1 ? VEHICLE_OWNERSHIP.oneVehicle : VEHICLE_OWNERSHIP.twoVehicles;
+  return vehicles === 1 ? rates.ownership.oneVehicle : rates.ownership.twoVehicles;
 }
 
 /**
@@ -550,13 +579,15 @@ export function getOwnershipCosts(vehicleCount: number): number {
  * @param county - County name (for regional operating costs)
  * @param vehicleCount - Number of vehicles owned/leased
  * @param usesPublicTransit - Whether debtor uses public transportation (only if no vehicle)
+ * @param rates - Release figures (defaults to the bundled figures)
  * @returns Complete transportation allowance breakdown
  */
 export function calculateTransportationAllowance(
   state: string,
   county: string | null | undefined,
   vehicleCount: number,
-  usesPublicTransit: boolean = false
+  usesPublicTransit: boolean = false,
+  rates: TransportationRates = BUNDLED_RATES
 ): TransportationAllowance {
   const vehicles = Math.min(Math.max(vehicleCount, 0), 2);
   const region = STATE_TO_REGION[state.toUpperCase()] || 'South';
@@ -566,8 +597,8 @@ export function calculateTransportationAllowance(
     return {
       ownership: 0,
       operating: 0,
-      publicTransit: PUBLIC_TRANSPORTATION,
-      total: PUBLIC_TRANSPORTATION,
+      publicTransit: rates.publicTransportation,
+      total: rates.publicTransportation,
       region,
       usingMetroData: false,
     };
@@ -586,8 +617,8 @@ export function calculateTransportationAllowance(
   }
 
   // Has vehicle(s) - calculate ownership + operating
-  const ownership = getOwnershipCosts(vehicles);
-  const operatingResult = getOperatingCosts(state, county, vehicles);
+  const ownership = getOwnershipCosts(vehicles, rates);
+  const operatingResult = getOperatingCosts(state, county, vehicles, rates);
 
   return {
     ownership,
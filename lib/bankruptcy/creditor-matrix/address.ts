@@ -0,0 +1,81 @@
+/**
+ * Mailing Address Parsing
+ *
+ * Turns the free-text creditor addresses entered on debts into structured
+ * street lines plus city, state, and ZIP.
+ */
+
+import { normalizeState, normalizeStreetLine } from '../address/normalize';
+
+export interface MailingAddress {
+  /** Street, suite, and PO box lines, in mailing order */
+  lines: string[];
+  city: string;
+  state: string;
+  zip: string;
+}
+
+export interface ParsedAddress {
+  address: MailingAddress | null;
+  issues: string[];
+}
+
+const TRAILING_ZIP = /[\s,]*(\d{5})(?:-?(\d{4}))?$/;
+
+/**
+ * Parse a free-text mailing address. Lines may be separated by newlines or
+ * commas, with the city, state, and ZIP last.
+ */
+export function parseMailingAddress(text: string | null | undefined): ParsedAddress {
+  const raw = (text || '').trim();
+  if (!raw) {
+    return { address: null, issues: ['No mailing address'] };
+  }
+
+  const joined = raw.split(/\r?\n|,/).map(normalizeStreetLine).filter(Boolean).join(', ');
+
+  const zipMatch = joined.match(TRAILING_ZIP);
+  if (!zipMatch) {
+    return { address: null, issues: ['Missing ZIP code'] };
+  }
+  const zip = zipMatch[2] ? `${zipMatch[1]}-${zipMatch[2]}` : zipMatch[1];
+
+  // Take the longest run of trailing words (up to three) that names a state
+  const words = joined.substring(0, zipMatch.index).replace(/,/g, ' , ').split(/\s+/).filter(Boolean);
+  let state: string | null = null;
+  let stateWords = 0;
+  for (let take = Math.min(3, words.length); take >= 1 && !state; take--) {
+    const tail = words.slice(words.length - take);
+    if (tail.includes(',')) continue;
+    state = normalizeState(tail.join(' '));
+    if (state) stateWords = take;
+  }
+
+  if (!state) {
+    return { address: null, issues: ['Missing or unrecognized state'] };
+  }
+
+  const segments = words
+    .slice(0, words.length - stateWords)
+    .join(' ')
+    .split(',')
+    .map(normalizeStreetLine)
+    .filter(Boolean);
+  const city = segments.pop() || '';
+
+  const issues: string[] = [];
+  if (!city) issues.push('Missing city');
+  if (segments.length === 0) issues.push('Could not separate the street address from the city');
+
+  return {
+    address: { lines: segments, city, state, zip },
+    issues,
+  };
+}
+
+/**
+ * Format the city/state/ZIP line
+ */
+export function formatLastLine(address: MailingAddress): string {
+  return `${address.city} ${address.state} ${address.zip}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Creditor Matrix
+ *
+ * Exports address parsing, notice parties, and matrix formatting.
+ */
+
+// Addresses
+export {
+  parseMailingAddress,
+  formatLastLine,
+  type MailingAddress,
+  type ParsedAddress,
+} from './address';
+
+// Notice parties
+export {
+  getNoticeParties,
+  IRS_NOTICE_PARTY,
+  STATE_TAX_AUTHORITIES,
+  CHILD_SUPPORT_AGENCIES,
+  type NoticeParty,
+} from './notice-parties';
+
+// Matrix
+export {
+  buildCreditorMatrix,
+  formatMatrixEntry,
+  formatCreditorMatrixText,
+  MATRIX_LINE_WIDTH,
+  MATRIX_MAX_LINES,
+  type CreditorMatrix,
+  type MatrixDebt,
+  type MatrixEntry,
+} from './matrix';
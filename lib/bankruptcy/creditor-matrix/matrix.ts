@@ -0,0 +1,175 @@
+/**
+ * Creditor Matrix
+ *
+ * Builds the deduplicated mailing list filed with the petition and formats
+ * it in the fixed-width text layout accepted by CM/ECF creditor upload:
+ * at most 40 characters per line, at most 5 lines per entry, and a blank
+ * line between entries.
+ */
+
+import { formatLastLine, parseMailingAddress, type MailingAddress } from './address';
+import { getNoticeParties } from './notice-parties';
+
+export const MATRIX_LINE_WIDTH = 40;
+export const MATRIX_MAX_LINES = 5;
+
+export interface MatrixDebt {
+  id: string;
+  creditorName: string;
+  creditorAddress: string | null;
+  debtType: string;
+}
+
+export interface MatrixEntry {
+  name: string;
+  address: MailingAddress | null;
+  /** Debts listing this creditor; empty for notice parties */
+  debtIds: string[];
+  kind: 'creditor' | 'notice';
+  issues: string[];
+}
+
+export interface CreditorMatrix {
+  entries: MatrixEntry[];
+  warnings: string[];
+}
+
+function nameKey(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\b(THE|INC|LLC|CORP|CORPORATION|CO|NA|N A)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function addressKey(address: MailingAddress | null): string {
+  if (!address) return '';
+  return `${address.lines.join(' ').toUpperCase().replace(/[^A-Z0-9]/g, '')}|${address.zip.substring(0, 5)}`;
+}
+
+/**
+ * Build the creditor matrix for a case. Debts naming the same creditor at
+ * the same address collapse into one entry; an entry without a usable
+ * address merges into a same-named entry that has one.
+ */
+export function buildCreditorMatrix(debts: MatrixDebt[], state: string | null): CreditorMatrix {
+  const entries: MatrixEntry[] = [];
+  const byKey = new Map<string, MatrixEntry>();
+
+  for (const debt of debts) {
+    const name = debt.creditorName.replace(/\s+/g, ' ').trim();
+    if (!name) continue;
+
+    const parsed = parseMailingAddress(debt.creditorAddress);
+    const key = `${nameKey(name)}#${addressKey(parsed.address)}`;
+    const existing = byKey.get(key);
+
+    if (existing) {
+      existing.debtIds.push(debt.id);
+      continue;
+    }
+
+    const entry: MatrixEntry = {
+      name,
+      address: parsed.address,
+      debtIds: [debt.id],
+      kind: 'creditor',
+      issues: parsed.issues,
+    };
+    byKey.set(key, entry);
+    entries.push(entry);
+  }
+
+  // Fold address-less entries into a same-named entry with an address
+  const merged = entries.filter(entry => {
+    if (entry.address) return true;
+    const match = entries.find(other => other.address && nameKey(other.name) === nameKey(entry.name));
+    if (!match) return true;
+    match.debtIds.push(...entry.debtIds);
+    return false;
+  });
+
+  const notices = getNoticeParties(debts.map(d => d.debtType), state);
+  for (const party of notices.parties) {
+    const key = `${nameKey(party.name)}#${addressKey(party.address)}`;
+    if (byKey.has(key)) continue;
+    merged.push({ name: party.name, address: party.address, debtIds: [], kind: 'notice', issues: [] });
+  }
+
+  merged.sort((a, b) => a.name.localeCompare(b.name));
+
+  const warnings = [...notices.warnings];
+  for (const entry of merged) {
+    if (!entry.address) {
+      warnings.push(`${entry.name}: ${entry.issues.join('; ')} - omitted from the matrix`);
+    } else if (entry.issues.length > 0) {
+      warnings.push(`${entry.name}: ${entry.issues.join('; ')}`);
+    }
+  }
+
+  return { entries: merged, warnings };
+}
+
+function wrapLine(text: string, width = MATRIX_LINE_WIDTH): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    // Hard-break words longer than a full line
+    let rest = word;
+    while (rest.length > width) {
+      lines.push(rest.substring(0, width));
+      rest = rest.substring(width);
+    }
+    current = rest;
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Lines for a single matrix entry, or null when it cannot be mailed
+ */
+export function formatMatrixEntry(entry: MatrixEntry): { lines: string[]; truncated: boolean } | null {
+  if (!entry.address) return null;
+
+  const lastLine = wrapLine(formatLastLine(entry.address));
+  const body = [entry.name, ...entry.address.lines].flatMap(line => wrapLine(line));
+  const room = MATRIX_MAX_LINES - lastLine.length;
+
+  return {
+    lines: [...body.slice(0, room), ...lastLine],
+    truncated: body.length > room,
+  };
+}
+
+/**
+ * Fixed-width text for upload to the court
+ */
+export function formatCreditorMatrixText(matrix: CreditorMatrix): { text: string; warnings: string[] } {
+  const blocks: string[] = [];
+  const warnings: string[] = [];
+
+  for (const entry of matrix.entries) {
+    const formatted = formatMatrixEntry(entry);
+    if (!formatted) continue;
+    if (formatted.truncated) {
+      warnings.push(`${entry.name}: address exceeds ${MATRIX_MAX_LINES} lines and was shortened`);
+    }
+    blocks.push(formatted.lines.join('\r\n'));
+  }
+
+  return {
+    text: blocks.length > 0 ? `${blocks.join('\r\n\r\n')}\r\n` : '',
+    warnings,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Standard Notice Parties
+ *
+ * Governmental units that must receive notice when a case lists tax or
+ * domestic support debts. Addresses follow the bankruptcy notice addresses
+ * these agencies publish; districts keep their own register of governmental
+ * units, which takes precedence where it differs.
+ */
+
+import type { MailingAddress } from './address';
+
+export interface NoticeParty {
+  name: string;
+  address: MailingAddress;
+}
+
+export const IRS_NOTICE_PARTY: NoticeParty = {
+  name: 'Internal Revenue Service',
+  address: {
+    lines: ['Centralized Insolvency Operation', 'PO Box 7346'],
+    city: 'Philadelphia',
+    state: 'PA',
+    zip: '19101-7346',
+  },
+};
+
+export const STATE_TAX_AUTHORITIES: Record<string, NoticeParty> = {
+  CA: {
+    name: 'Franchise Tax Board',
+    address: { lines: ['Bankruptcy Section MS A340', 'PO Box 2952'], city: 'Sacramento', state: 'CA', zip: '95812-2952' },
+  },
+  FL: {
+    name: 'Florida Department of Revenue',
+    address: { lines: ['Bankruptcy Unit', 'PO Box 6668'], city: 'Tallahassee', state: 'FL', zip: '32314-6668' },
+  },
+  IL: {
+    name: 'Illinois Department of Revenue',
+    address: { lines: ['Bankruptcy Unit', 'PO Box 19035'], city: 'Springfield', state: 'IL', zip: '62794-9035' },
+  },
+  NY: {
+    name: 'NYS Department of Taxation and Finance',
+    address: { lines: ['Bankruptcy Section', 'PO Box 5300'], city: 'Albany', state: 'NY', zip: '12205-0300' },
+  },
+  TX: {
+    name: 'Texas Comptroller of Public Accounts',
+    address: { lines: ['Revenue Accounting Div Bankruptcy', 'PO Box 13528'], city: 'Austin', state: 'TX', zip: '78711-3528' },
+  },
+};
+
+export const CHILD_SUPPORT_AGENCIES: Record<string, NoticeParty> = {
+  CA: {
+    name: 'Dept of Child Support Services',
+    address: { lines: ['PO Box 419064'], city: 'Rancho Cordova', state: 'CA', zip: '95741-9064' },
+  },
+  TX: {
+    name: 'Office of the Attorney General',
+    address: { lines: ['Child Support Division', 'PO Box 12017'], city: 'Austin', state: 'TX', zip: '78711-2017' },
+  },
+};
+
+/**
+ * Notice parties required by the debt types in a case
+ */
+export function getNoticeParties(
+  debtTypes: string[],
+  state: string | null
+): { parties: NoticeParty[]; warnings: string[] } {
+  const parties: NoticeParty[] = [];
+  const warnings: string[] = [];
+  const stateCode = state?.toUpperCase() || null;
+
+  if (debtTypes.includes('tax')) {
+    parties.push(IRS_NOTICE_PARTY);
+    const authority = stateCode ? STATE_TAX_AUTHORITIES[stateCode] : undefined;
+    if (authority) {
+      parties.push(authority);
+    } else {
+      warnings.push(
+        `No state taxing authority address on file for ${stateCode || 'the case state'}; add it from the district's register of governmental units`
+      );
+    }
+  }
+
+  if (debtTypes.includes('child_support')) {
+    const agency = stateCode ? CHILD_SUPPORT_AGENCIES[stateCode] : undefined;
+    if (agency) {
+      parties.push(agency);
+    } else {
+      warnings.push(
+        `No child support agency address on file for ${stateCode || 'the case state'}; add the state child support enforcement agency manually`
+      );
+    }
+  }
+
+  return { parties, warnings };
+}
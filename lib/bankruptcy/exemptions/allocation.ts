@@ -0,0 +1,226 @@
+/**
+ * Exemption Allocation
+ *
+ * Applies an exemption scheme to asset equity. Category-specific rules are
+ * applied first, then general personal property, then the wildcard, so the
+ * flexible exemptions cover whatever the specific ones leave exposed.
+ */
+
+import type {
+  AssetExemptionAllocation,
+  ExemptibleAsset,
+  ExemptionAnalysis,
+  ExemptionCategory,
+  ExemptionRule,
+  ExemptionScheme,
+} from './types';
+
+export interface AllocationOptions {
+  /** Spouses filing jointly (doubles amounts where the scheme allows) */
+  jointFiling?: boolean;
+  /** Household of more than one person (family amounts) */
+  family?: boolean;
+}
+
+// Asset types each specific category can protect
+const CATEGORY_ASSET_TYPES: Partial<Record<ExemptionCategory, string[]>> = {
+  homestead: ['real_estate'],
+  motor_vehicle: ['vehicle'],
+  household_goods: ['household_goods'],
+  jewelry: ['jewelry'],
+  tools_of_trade: ['business'],
+  retirement: ['retirement'],
+  personal_property: ['vehicle', 'bank_account', 'household_goods', 'jewelry', 'collectibles', 'tax_refund', 'business', 'other'],
+};
+
+const ALLOCATION_ORDER: ExemptionCategory[] = [
+  'homestead',
+  'motor_vehicle',
+  'household_goods',
+  'jewelry',
+  'tools_of_trade',
+  'retirement',
+  'personal_property',
+  'wildcard',
+];
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Debtor's equity: ownership share of value, less liens
+ */
+export function calculateAssetEquity(asset: ExemptibleAsset): number {
+  const share = (asset.ownershipPercentage ?? 100) / 100;
+  return roundCents(Math.max(asset.currentValue * share - (asset.liens ?? 0), 0));
+}
+
+/**
+ * Estimate liens on each asset from secured debts
+ *
+ * Debts whose collateral text names the asset are matched first; remaining
+ * mortgages attach to real estate and auto loans to vehicles.
+ */
+export function estimateAssetLiens(
+  assets: Array<{ id: string; assetType: string; description: string }>,
+  debts: Array<{ secured: boolean; debtType: string; balance: number; collateral: string | null }>
+): Record<string, number> {
+  const liens: Record<string, number> = {};
+  const unmatched: typeof debts = [];
+
+  for (const debt of debts.filter(d => d.secured)) {
+    const collateral = debt.collateral?.toLowerCase().trim();
+    const match = collateral
+      ? assets.find(a => {
+          const description = a.description.toLowerCase();
+          return description && (description.includes(collateral) || collateral.includes(description));
+        })
+      : undefined;
+
+    if (match) {
+      liens[match.id] = (liens[match.id] || 0) + Number(debt.balance);
+    } else {
+      unmatched.push(debt);
+    }
+  }
+
+  for (const debt of unmatched) {
+    const assetType = debt.debtType === 'mortgage' ? 'real_estate'
+      : debt.debtType === 'auto_loan' ? 'vehicle'
+      : null;
+    const match = assetType ? assets.find(a => a.assetType === assetType) : undefined;
+    if (match) {
+      liens[match.id] = (liens[match.id] || 0) + Number(debt.balance);
+    }
+  }
+
+  return liens;
+}
+
+/**
+ * Allocate a scheme's exemptions across assets
+ */
+export function allocateExemptions(
+  assets: ExemptibleAsset[],
+  scheme: ExemptionScheme,
+  options: AllocationOptions = {}
+): ExemptionAnalysis {
+  const multiplier = options.jointFiling && scheme.doublesForJointFiling ? 2 : 1;
+
+  const allocations: AssetExemptionAllocation[] = assets.map(asset => {
+    const equity = calculateAssetEquity(asset);
+    return {
+      assetId: asset.id,
+      description: asset.description,
+      assetType: asset.assetType,
+      currentValue: roundCents(asset.currentValue),
+      liens: roundCents(asset.liens ?? 0),
+      equity,
+      claims: [],
+      totalExempt: 0,
+      nonExemptEquity: equity,
+    };
+  });
+
+  const aggregateRemaining: Record<string, number> = {};
+  for (const [group, limits] of Object.entries(scheme.aggregateLimits ?? {})) {
+    aggregateRemaining[group] = (options.family ? limits.family : limits.single) * multiplier;
+  }
+
+  const claim = (allocation: AssetExemptionAllocation, rule: ExemptionRule, amount: number) => {
+    const rounded = roundCents(amount);
+    if (rounded <= 0) return;
+    allocation.claims.push({
+      assetId: allocation.assetId,
+      schemeId: scheme.id,
+      ruleId: rule.id,
+      category: rule.category,
+      statute: rule.statute,
+      amount: rounded,
+    });
+    allocation.totalExempt = roundCents(allocation.totalExempt + rounded);
+    allocation.nonExemptEquity = roundCents(allocation.nonExemptEquity - rounded);
+    if (rule.aggregateGroup) {
+      aggregateRemaining[rule.aggregateGroup] -= rounded;
+    }
+  };
+
+  let homesteadUsed = 0;
+  let homesteadLimit = 0;
+  const rules = [...scheme.rules].sort(
+    (a, b) => ALLOCATION_ORDER.indexOf(a.category) - ALLOCATION_ORDER.indexOf(b.category)
+  );
+
+  for (const rule of rules) {
+    const baseAmount = options.family && rule.familyAmount !== undefined ? rule.familyAmount : rule.amount;
+    let remaining = baseAmount === null ? Infinity : baseAmount * multiplier;
+
+    if (rule.category === 'wildcard') {
+      if (rule.requiresNoHomestead && homesteadUsed > 0) continue;
+      if (rule.unusedHomesteadRollover) {
+        remaining += Math.min(Math.max(homesteadLimit - homesteadUsed, 0), rule.unusedHomesteadRollover * multiplier);
+      }
+    }
+
+    const eligibleTypes = CATEGORY_ASSET_TYPES[rule.category];
+    let candidates = allocations
+      .filter(a => a.nonExemptEquity > 0)
+      .filter(a => !eligibleTypes || eligibleTypes.includes(a.assetType));
+
+    if (rule.category === 'wildcard' || rule.category === 'personal_property') {
+      // Flexible exemptions protect the smallest exposures first so more items are fully exempt
+      candidates = candidates.sort((a, b) => a.nonExemptEquity - b.nonExemptEquity);
+    } else {
+      candidates = candidates.sort((a, b) => b.nonExemptEquity - a.nonExemptEquity);
+    }
+
+    if (rule.maxItems) {
+      // Joint debtors share one residence but may each claim other single items
+      const itemMultiplier = rule.category === 'homestead' ? 1 : multiplier;
+      candidates = candidates.slice(0, rule.maxItems * itemMultiplier);
+    }
+
+    for (const allocation of candidates) {
+      const groupRemaining = rule.aggregateGroup ? aggregateRemaining[rule.aggregateGroup] ?? Infinity : Infinity;
+      const amount = Math.min(
+        allocation.nonExemptEquity,
+        remaining,
+        groupRemaining,
+        rule.perItemLimit ?? Infinity
+      );
+      if (amount <= 0) continue;
+      claim(allocation, rule, amount);
+      remaining -= amount;
+      if (rule.category === 'homestead') homesteadUsed += amount;
+    }
+
+    if (rule.category === 'homestead' && baseAmount !== null) {
+      homesteadLimit = baseAmount * multiplier;
+    }
+  }
+
+  const totalEquity = roundCents(allocations.reduce((sum, a) => sum + a.equity, 0));
+  const totalExempt = roundCents(allocations.reduce((sum, a) => sum + a.totalExempt, 0));
+
+  return {
+    scheme,
+    allocations,
+    totalEquity,
+    totalExempt,
+    totalNonExempt: roundCents(totalEquity - totalExempt),
+  };
+}
+
+/**
+ * Run every available scheme and return the analyses, best first
+ */
+export function compareExemptionSchemes(
+  assets: ExemptibleAsset[],
+  schemes: ExemptionScheme[],
+  options: AllocationOptions = {}
+): ExemptionAnalysis[] {
+  return schemes
+    .map(scheme => allocateExemptions(assets, scheme, options))
+    .sort((a, b) => b.totalExempt - a.totalExempt);
+}
@@ -0,0 +1,108 @@
+/**
+ * Case Exemption Analysis
+ *
+ * Combines the domicile rule, available schemes, and allocation into a
+ * single result for a case. Used by the exemptions API and Schedule C.
+ */
+
+import { compareExemptionSchemes, estimateAssetLiens } from './allocation';
+import { determineExemptionDomicile, getAvailableExemptionSchemes } from './domicile';
+import type {
+  DomicileDetermination,
+  DomicilePeriod,
+  ExemptionAnalysis,
+  ExemptionScheduleStatus,
+} from './types';
+
+export interface CaseExemptionInput {
+  assets: Array<{
+    id: string;
+    assetType: string;
+    description: string;
+    currentValue: number;
+    ownershipPercentage?: number | null;
+  }>;
+  debts: Array<{
+    secured: boolean;
+    debtType: string;
+    balance: number;
+    collateral: string | null;
+  }>;
+  currentState: string | null;
+  /** Prior residences; the current state is assumed for any uncovered recent period */
+  residenceHistory?: DomicilePeriod[];
+  filingDate?: string | null;
+  jointFiling?: boolean;
+  householdSize?: number | null;
+}
+
+export interface CaseExemptionResult {
+  domicile: DomicileDetermination;
+  scheduleStatus: ExemptionScheduleStatus;
+  /** Analyses for every available scheme, most protective first */
+  analyses: ExemptionAnalysis[];
+  /** Null when the domicile state's schedule is not supported */
+  recommended: ExemptionAnalysis | null;
+  warnings: string[];
+}
+
+/**
+ * Build the residence timeline: prior addresses plus the current state
+ * from the end of the last prior address (or indefinitely) to filing
+ */
+function buildResidenceTimeline(
+  currentState: string | null,
+  history: DomicilePeriod[]
+): DomicilePeriod[] {
+  if (!currentState) return history;
+
+  const lastPriorEnd = history
+    .map(p => p.toDate)
+    .filter((d): d is string => !!d)
+    .sort()
+    .pop();
+
+  return [
+    ...history,
+    { state: currentState, fromDate: lastPriorEnd || '1900-01-01', toDate: null },
+  ];
+}
+
+export function analyzeCaseExemptions(input: CaseExemptionInput): CaseExemptionResult {
+  const history = input.residenceHistory ?? [];
+  const filingDate = input.filingDate ? new Date(input.filingDate) : new Date();
+  const domicile = determineExemptionDomicile(
+    buildResidenceTimeline(input.currentState, history),
+    filingDate
+  );
+  const { status, schemes, warnings } = getAvailableExemptionSchemes(domicile, input.currentState);
+
+  if (history.length === 0 && input.currentState) {
+    warnings.push(`No prior addresses recorded; assuming ${input.currentState} residence for the full look-back period`);
+  }
+
+  const liens = estimateAssetLiens(input.assets, input.debts);
+  const analyses = compareExemptionSchemes(
+    input.assets.map(a => ({
+      id: a.id,
+      assetType: a.assetType,
+      description: a.description,
+      currentValue: Number(a.currentValue) || 0,
+      ownershipPercentage: a.ownershipPercentage ?? 100,
+      liens: liens[a.id] || 0,
+    })),
+    schemes,
+    {
+      jointFiling: input.jointFiling,
+      family: (input.householdSize ?? 1) > 1,
+    }
+  );
+
+  return {
+    domicile,
+    scheduleStatus: status,
+    analyses,
+    recommended: analyses[0] ?? null,
+    warnings,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Exemption Domicile Rule
+ *
+ * Per 11 U.S.C. § 522(b)(3)(A), state exemptions come from the state where
+ * the debtor was domiciled for the 730 days before filing. If the debtor
+ * did not live in one state for that whole period, the state where the
+ * debtor lived for the longest portion of the 180 days before the 730-day
+ * period controls. If no state's exemptions are available, the debtor may
+ * use the federal exemptions. A domicile state without a schedule comes
+ * back as not_supported with no schemes, so nothing is allocated until the
+ * claims are prepared manually.
+ */
+
+import { FEDERAL_EXEMPTIONS, getStateExemptionSchedule } from './schedules';
+import type { AvailableExemptionSchemes, DomicileDetermination, DomicilePeriod } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: string | Date): number {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return Math.floor(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / DAY_MS);
+}
+
+/**
+ * Days each state covers within [windowStart, windowEnd)
+ */
+function daysByState(
+  periods: DomicilePeriod[],
+  windowStart: number,
+  windowEnd: number,
+  filingDay: number
+): Map<string, number> {
+  const covered = new Map<string, Set<number>>();
+
+  for (const period of periods) {
+    const start = Math.max(toDay(period.fromDate), windowStart);
+    const end = Math.min(period.toDate ? toDay(period.toDate) + 1 : filingDay, windowEnd);
+    const state = period.state.toUpperCase();
+    if (!covered.has(state)) covered.set(state, new Set());
+    const days = covered.get(state)!;
+    for (let day = start; day < end; day++) {
+      days.add(day);
+    }
+  }
+
+  return new Map(Array.from(covered.entries()).map(([state, days]) => [state, days.size]));
+}
+
+/**
+ * Determine which state's exemption law applies
+ *
+ * @param periods - Residence history, including the current residence
+ * @param filingDate - Petition date (defaults to today)
+ */
+export function determineExemptionDomicile(
+  periods: DomicilePeriod[],
+  filingDate: string | Date = new Date()
+): DomicileDetermination {
+  const filingDay = toDay(filingDate);
+  const window730Start = filingDay - 730;
+  const window180Start = window730Start - 180;
+
+  const last730 = daysByState(periods, window730Start, filingDay, filingDay);
+  for (const [state, days] of last730) {
+    if (days >= 730) {
+      return {
+        state,
+        rule: '730_day',
+        explanation: `Domiciled in ${state} for the 730 days before filing`,
+        incompleteHistory: false,
+      };
+    }
+  }
+
+  const totalCovered = Array.from(last730.values()).reduce((sum, days) => sum + days, 0);
+  const prior180 = daysByState(periods, window180Start, window730Start, filingDay);
+  const priorCovered = Array.from(prior180.values()).reduce((sum, days) => sum + days, 0);
+  const incompleteHistory = totalCovered < 730 || priorCovered < 180;
+
+  const longest = Array.from(prior180.entries()).sort((a, b) => b[1] - a[1])[0];
+  if (longest && longest[1] > 0) {
+    return {
+      state: longest[0],
+      rule: '180_day_prior',
+      explanation: `Moved within 730 days of filing; ${longest[0]} was the domicile for the longest part of the preceding 180 days`,
+      incompleteHistory,
+    };
+  }
+
+  return {
+    state: null,
+    rule: 'federal_fallback',
+    explanation: 'Residence history does not establish a domicile state; federal exemptions are available',
+    incompleteHistory,
+  };
+}
+
+/**
+ * Get the exemption schemes a debtor may choose from
+ *
+ * @param domicile - Result of determineExemptionDomicile
+ * @param currentState - State of the current residence
+ */
+export function getAvailableExemptionSchemes(
+  domicile: DomicileDetermination,
+  currentState?: string | null
+): AvailableExemptionSchemes {
+  const warnings: string[] = [];
+
+  if (domicile.incompleteHistory) {
+    warnings.push('Residence history does not cover the full 910-day look-back; confirm prior addresses');
+  }
+
+  if (!domicile.state) {
+    return { status: 'supported', schemes: [FEDERAL_EXEMPTIONS], warnings };
+  }
+
+  // Federal amounts are not a safe stand-in: the state may have opted out
+  const schedule = getStateExemptionSchedule(domicile.state);
+  if (!schedule) {
+    warnings.push(`${domicile.state} exemption schedule is not yet supported; prepare Schedule C manually`);
+    return { status: 'not_supported', schemes: [], warnings };
+  }
+
+  if (currentState && currentState.toUpperCase() !== domicile.state) {
+    warnings.push(
+      `Exemptions are governed by ${domicile.state} law; if ${domicile.state} limits its exemptions to residents, federal exemptions are available under § 522(b)(3)`
+    );
+  }
+
+  return {
+    status: 'supported',
+    schemes: schedule.allowsFederalElection
+      ? [...schedule.schemes, FEDERAL_EXEMPTIONS]
+      : schedule.schemes,
+    warnings,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Exemption Engine
+ *
+ * Exports exemption schedules, the domicile rule, and asset allocation.
+ */
+
+// Types
+export * from './types';
+
+// Schedules
+export {
+  HOMESTEAD_ACQUISITION_CAP,
+  FEDERAL_EXEMPTIONS,
+  STATE_EXEMPTION_SCHEDULES,
+  getStateExemptionSchedule,
+  getExemptionScheme,
+} from './schedules';
+
+// Domicile
+export {
+  determineExemptionDomicile,
+  getAvailableExemptionSchemes,
+} from './domicile';
+
+// Allocation
+export {
+  allocateExemptions,
+  compareExemptionSchemes,
+  calculateAssetEquity,
+  estimateAssetLiens,
+  type AllocationOptions,
+} from './allocation';
+
+// Case analysis
+export {
+  analyzeCaseExemptions,
+  type CaseExemptionInput,
+  type CaseExemptionResult,
+} from './analysis';
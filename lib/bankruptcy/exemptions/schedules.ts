@@ -0,0 +1,433 @@
+/**
+ * Exemption Schedules
+ *
+ * Federal amounts are the 11 U.S.C. § 522(d) figures adjusted under § 104,
+ * effective April 1, 2025. State schedules cover the categories the
+ * allocator understands (homestead, motor vehicle, wildcard, tools of
+ * trade, retirement, and general personal property). Where an amount
+ * depends on the county, the lowest figure is used and the rule says so.
+ *
+ * Coverage:
+ * - Federal (§ 522(d)), for debtors whose state allows the election or
+ *   who have no domicile state under § 522(b)(3)
+ * - California (§ 704 and § 703.140(b) systems)
+ * - Florida
+ * - New York (with the federal election)
+ * - Texas (with the federal election)
+ *
+ * Every other state, including opt-out states such as Ohio, Georgia, and
+ * Illinois, is not yet supported: the analysis reports not_supported, the
+ * Schedule C draft says so, and claims cannot be saved until they are
+ * prepared manually.
+ */
+
+import type { ExemptionScheme, StateExemptionSchedule } from './types';
+
+// § 522(p) cap on homestead equity acquired within 1,215 days of filing (Schedule C, Part 1, line 3)
+export const HOMESTEAD_ACQUISITION_CAP = 214000;
+
+export const FEDERAL_EXEMPTIONS: ExemptionScheme = {
+  id: 'federal',
+  name: 'Federal Exemptions',
+  jurisdiction: 'federal',
+  citation: '11 U.S.C. § 522(b)(2)',
+  effectiveDate: '2025-04-01',
+  doublesForJointFiling: true,
+  rules: [
+    {
+      id: 'federal_homestead',
+      category: 'homestead',
+      statute: '11 U.S.C. § 522(d)(1)',
+      description: 'Residence',
+      amount: 31575,
+      maxItems: 1,
+    },
+    {
+      id: 'federal_motor_vehicle',
+      category: 'motor_vehicle',
+      statute: '11 U.S.C. § 522(d)(2)',
+      description: 'One motor vehicle',
+      amount: 5025,
+      maxItems: 1,
+    },
+    {
+      id: 'federal_household_goods',
+      category: 'household_goods',
+      statute: '11 U.S.C. § 522(d)(3)',
+      description: 'Household goods and furnishings',
+      amount: 16850,
+      perItemLimit: 800,
+    },
+    {
+      id: 'federal_jewelry',
+      category: 'jewelry',
+      statute: '11 U.S.C. § 522(d)(4)',
+      description: 'Jewelry',
+      amount: 2125,
+    },
+    {
+      id: 'federal_tools_of_trade',
+      category: 'tools_of_trade',
+      statute: '11 U.S.C. § 522(d)(6)',
+      description: 'Implements, professional books, or tools of the trade',
+      amount: 3175,
+    },
+    {
+      id: 'federal_retirement',
+      category: 'retirement',
+      statute: '11 U.S.C. § 522(d)(12)',
+      description: 'Tax-exempt retirement funds (IRAs subject to the § 522(n) cap)',
+      amount: null,
+    },
+    {
+      id: 'federal_wildcard',
+      category: 'wildcard',
+      statute: '11 U.S.C. § 522(d)(5)',
+      description: 'Any property, plus unused residence exemption',
+      amount: 1675,
+      unusedHomesteadRollover: 15800,
+    },
+  ],
+};
+
+const TEXAS_EXEMPTIONS: ExemptionScheme = {
+  id: 'TX',
+  name: 'Texas Exemptions',
+  jurisdiction: 'state',
+  citation: 'Tex. Prop. Code §§ 41.001, 42.001',
+  effectiveDate: '2025-04-01',
+  doublesForJointFiling: false,
+  aggregateLimits: {
+    personal_property: { single: 50000, family: 100000 },
+  },
+  rules: [
+    {
+      id: 'tx_homestead',
+      category: 'homestead',
+      statute: 'Tex. Prop. Code § 41.001',
+      description: 'Homestead (acreage limits apply)',
+      amount: null,
+      maxItems: 1,
+    },
+    {
+      id: 'tx_motor_vehicle',
+      category: 'motor_vehicle',
+      statute: 'Tex. Prop. Code § 42.002(a)(9)',
+      description: 'One vehicle per licensed household member',
+      amount: null,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'tx_household_goods',
+      category: 'household_goods',
+      statute: 'Tex. Prop. Code § 42.002(a)(1)',
+      description: 'Home furnishings',
+      amount: null,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'tx_jewelry',
+      category: 'jewelry',
+      statute: 'Tex. Prop. Code § 42.002(a)(6)',
+      description: 'Jewelry (limited to 25% of the aggregate)',
+      amount: 12500,
+      familyAmount: 25000,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'tx_tools_of_trade',
+      category: 'tools_of_trade',
+      statute: 'Tex. Prop. Code § 42.002(a)(4)',
+      description: 'Tools, equipment, and books used in a trade or profession',
+      amount: null,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'tx_retirement',
+      category: 'retirement',
+      statute: 'Tex. Prop. Code § 42.0021',
+      description: 'Qualified retirement plans and IRAs',
+      amount: null,
+    },
+  ],
+};
+
+const FLORIDA_EXEMPTIONS: ExemptionScheme = {
+  id: 'FL',
+  name: 'Florida Exemptions',
+  jurisdiction: 'state',
+  citation: 'Fla. Const. art. X, § 4; Fla. Stat. ch. 222',
+  effectiveDate: '2024-07-01',
+  doublesForJointFiling: true,
+  rules: [
+    {
+      id: 'fl_homestead',
+      category: 'homestead',
+      statute: 'Fla. Const. art. X, § 4(a)(1)',
+      description: 'Homestead (acreage limits apply)',
+      amount: null,
+      maxItems: 1,
+    },
+    {
+      id: 'fl_motor_vehicle',
+      category: 'motor_vehicle',
+      statute: 'Fla. Stat. § 222.25(1)',
+      description: 'Motor vehicle',
+      amount: 5000,
+      maxItems: 1,
+    },
+    {
+      id: 'fl_retirement',
+      category: 'retirement',
+      statute: 'Fla. Stat. § 222.21',
+      description: 'Qualified retirement plans and IRAs',
+      amount: null,
+    },
+    {
+      id: 'fl_personal_property',
+      category: 'personal_property',
+      statute: 'Fla. Const. art. X, § 4(a)(2)',
+      description: 'Personal property',
+      amount: 1000,
+    },
+    {
+      id: 'fl_wildcard',
+      category: 'wildcard',
+      statute: 'Fla. Stat. § 222.25(4)',
+      description: 'Personal property if no homestead exemption is claimed',
+      amount: 4000,
+      requiresNoHomestead: true,
+    },
+  ],
+};
+
+// California system 1: homestead and the other Chapter 4 exemptions
+const CALIFORNIA_704_EXEMPTIONS: ExemptionScheme = {
+  id: 'CA_704',
+  name: 'California Exemptions (§ 704)',
+  jurisdiction: 'state',
+  citation: 'Cal. Civ. Proc. Code §§ 704.010-704.995',
+  effectiveDate: '2025-04-01',
+  doublesForJointFiling: false,
+  rules: [
+    {
+      id: 'ca704_homestead',
+      category: 'homestead',
+      statute: 'Cal. Civ. Proc. Code § 704.730',
+      description: 'Homestead (floor shown; the county median sale price may allow more, up to the cap)',
+      amount: 361522,
+      maxItems: 1,
+    },
+    {
+      id: 'ca704_motor_vehicle',
+      category: 'motor_vehicle',
+      statute: 'Cal. Civ. Proc. Code § 704.010',
+      description: 'Motor vehicles',
+      amount: 8625,
+    },
+    {
+      id: 'ca704_household_goods',
+      category: 'household_goods',
+      statute: 'Cal. Civ. Proc. Code § 704.020',
+      description: 'Ordinary and necessary household furnishings, appliances, and wearing apparel',
+      amount: null,
+    },
+    {
+      id: 'ca704_jewelry',
+      category: 'jewelry',
+      statute: 'Cal. Civ. Proc. Code § 704.040',
+      description: 'Jewelry, heirlooms, and works of art',
+      amount: 10950,
+    },
+    {
+      id: 'ca704_tools_of_trade',
+      category: 'tools_of_trade',
+      statute: 'Cal. Civ. Proc. Code § 704.060',
+      description: 'Tools, equipment, and books used in a trade or profession',
+      amount: 10950,
+      familyAmount: 21900,
+    },
+    {
+      id: 'ca704_retirement',
+      category: 'retirement',
+      statute: 'Cal. Civ. Proc. Code § 704.115',
+      description: 'Private retirement plans and IRAs (IRAs to the extent necessary for support)',
+      amount: null,
+    },
+  ],
+};
+
+// California system 2: the § 522(d)-style list, with unused (b)(1) added to the wildcard
+const CALIFORNIA_703_EXEMPTIONS: ExemptionScheme = {
+  id: 'CA_703',
+  name: 'California Exemptions (§ 703.140(b))',
+  jurisdiction: 'state',
+  citation: 'Cal. Civ. Proc. Code § 703.140(b)',
+  effectiveDate: '2025-04-01',
+  doublesForJointFiling: false,
+  rules: [
+    {
+      id: 'ca703_homestead',
+      category: 'homestead',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(1)',
+      description: 'Residence',
+      amount: 36625,
+      maxItems: 1,
+    },
+    {
+      id: 'ca703_motor_vehicle',
+      category: 'motor_vehicle',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(2)',
+      description: 'One motor vehicle',
+      amount: 7325,
+      maxItems: 1,
+    },
+    {
+      id: 'ca703_household_goods',
+      category: 'household_goods',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(3)',
+      description: 'Household goods and furnishings',
+      amount: null,
+      perItemLimit: 925,
+    },
+    {
+      id: 'ca703_jewelry',
+      category: 'jewelry',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(4)',
+      description: 'Jewelry',
+      amount: 2150,
+    },
+    {
+      id: 'ca703_tools_of_trade',
+      category: 'tools_of_trade',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(6)',
+      description: 'Implements, professional books, or tools of the trade',
+      amount: 10950,
+    },
+    {
+      id: 'ca703_retirement',
+      category: 'retirement',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(10)(E)',
+      description: 'Retirement plans and IRAs to the extent necessary for support',
+      amount: null,
+    },
+    {
+      id: 'ca703_wildcard',
+      category: 'wildcard',
+      statute: 'Cal. Civ. Proc. Code § 703.140(b)(5)',
+      description: 'Any property, plus unused residence exemption',
+      amount: 1950,
+      unusedHomesteadRollover: 36625,
+    },
+  ],
+};
+
+const NEW_YORK_EXEMPTIONS: ExemptionScheme = {
+  id: 'NY',
+  name: 'New York Exemptions',
+  jurisdiction: 'state',
+  citation: 'N.Y. C.P.L.R. §§ 5205-5206; N.Y. Debt. & Cred. Law §§ 282-283',
+  effectiveDate: '2024-04-01',
+  doublesForJointFiling: true,
+  aggregateLimits: {
+    personal_property: { single: 13150, family: 13150 },
+  },
+  rules: [
+    {
+      id: 'ny_homestead',
+      category: 'homestead',
+      statute: 'N.Y. C.P.L.R. § 5206(a)',
+      description:
+        'Homestead (lowest county tier shown; more in New York City, Long Island, and the Hudson Valley counties)',
+      amount: 98525,
+      maxItems: 1,
+    },
+    {
+      id: 'ny_motor_vehicle',
+      category: 'motor_vehicle',
+      statute: 'N.Y. Debt. & Cred. Law § 282(1)',
+      description: 'One motor vehicle',
+      amount: 5300,
+      maxItems: 1,
+    },
+    {
+      id: 'ny_household_goods',
+      category: 'household_goods',
+      statute: 'N.Y. C.P.L.R. § 5205(a)(5)',
+      description: 'Household furniture, appliances, and wearing apparel',
+      amount: null,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'ny_jewelry',
+      category: 'jewelry',
+      statute: 'N.Y. C.P.L.R. § 5205(a)(6)',
+      description: 'Wedding ring, plus a watch, jewelry, and art',
+      amount: 1325,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'ny_tools_of_trade',
+      category: 'tools_of_trade',
+      statute: 'N.Y. C.P.L.R. § 5205(a)(7)',
+      description: 'Tools, equipment, and books used in a trade or profession',
+      amount: 3950,
+      aggregateGroup: 'personal_property',
+    },
+    {
+      id: 'ny_retirement',
+      category: 'retirement',
+      statute: 'N.Y. C.P.L.R. § 5205(c)',
+      description: 'Qualified retirement plans and IRAs',
+      amount: null,
+    },
+    {
+      id: 'ny_wildcard',
+      category: 'wildcard',
+      statute: 'N.Y. Debt. & Cred. Law § 283(2)',
+      description: 'Cash and other property if no homestead exemption is claimed',
+      amount: 6600,
+      requiresNoHomestead: true,
+    },
+  ],
+};
+
+export const STATE_EXEMPTION_SCHEDULES: Record<string, StateExemptionSchedule> = {
+  CA: {
+    state: 'CA',
+    allowsFederalElection: false,
+    schemes: [CALIFORNIA_704_EXEMPTIONS, CALIFORNIA_703_EXEMPTIONS],
+  },
+  NY: {
+    state: 'NY',
+    allowsFederalElection: true,
+    schemes: [NEW_YORK_EXEMPTIONS],
+  },
+  TX: {
+    state: 'TX',
+    allowsFederalElection: true,
+    schemes: [TEXAS_EXEMPTIONS],
+  },
+  FL: {
+    state: 'FL',
+    allowsFederalElection: false,
+    schemes: [FLORIDA_EXEMPTIONS],
+  },
+};
+
+/**
+ * Get the exemption schedule for a state, if one is available
+ */
+export function getStateExemptionSchedule(state: string): StateExemptionSchedule | null {
+  return STATE_EXEMPTION_SCHEDULES[state.toUpperCase()] || null;
+}
+
+/**
+ * Find a scheme by id ('federal', 'TX', 'CA_703')
+ */
+export function getExemptionScheme(id: string): ExemptionScheme | null {
+  if (id === FEDERAL_EXEMPTIONS.id) return FEDERAL_EXEMPTIONS;
+  return Object.values(STATE_EXEMPTION_SCHEDULES)
+    .flatMap(schedule => schedule.schemes)
+    .find(scheme => scheme.id === id) || null;
+}
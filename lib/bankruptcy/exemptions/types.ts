@@ -0,0 +1,147 @@
+/**
+ * Exemption Engine Types
+ *
+ * Exemption schemes are data: each scheme is a list of rules keyed by
+ * category, and the allocator applies them to asset equity. Federal
+ * §522(d) and state schedules share the same shape.
+ */
+
+export type ExemptionCategory =
+  | 'homestead'
+  | 'motor_vehicle'
+  | 'household_goods'
+  | 'jewelry'
+  | 'tools_of_trade'
+  | 'retirement'
+  | 'personal_property'
+  | 'wildcard';
+
+export interface ExemptionRule {
+  id: string;
+  category: ExemptionCategory;
+  statute: string;
+  description: string;
+
+  /** Maximum amount for this rule; null means unlimited (subject to statutory conditions) */
+  amount: number | null;
+
+  /** Family amount where the statute distinguishes single debtors from families */
+  familyAmount?: number | null;
+
+  /** Per-item cap (e.g., §522(d)(3) household goods) */
+  perItemLimit?: number;
+
+  /** Number of items the rule may cover per debtor (e.g., one residence) */
+  maxItems?: number;
+
+  /** Rules sharing an aggregate group draw from one combined limit */
+  aggregateGroup?: string;
+
+  /**
+   * Wildcard only: maximum unused homestead amount that may be added
+   * (e.g., §522(d)(5) allows up to a fixed amount of unused (d)(1))
+   */
+  unusedHomesteadRollover?: number;
+
+  /** Wildcard only: not available when any homestead exemption is claimed */
+  requiresNoHomestead?: boolean;
+}
+
+export interface ExemptionScheme {
+  /** 'federal', or the state code with a suffix when a state has several systems ('CA_703') */
+  id: string;
+  name: string;
+  jurisdiction: 'federal' | 'state';
+  citation: string;
+  effectiveDate: string;
+
+  /** Amounts double when spouses file jointly (§522(m)) */
+  doublesForJointFiling: boolean;
+
+  /** Aggregate caps for rules sharing an aggregateGroup, single and family */
+  aggregateLimits?: Record<string, { single: number; family: number }>;
+
+  rules: ExemptionRule[];
+}
+
+export interface StateExemptionSchedule {
+  state: string;
+  /** False when the state has opted out of the federal §522(d) exemptions */
+  allowsFederalElection: boolean;
+  /** Some states (e.g., California) offer more than one state system */
+  schemes: ExemptionScheme[];
+}
+
+/**
+ * An asset prepared for exemption allocation
+ */
+export interface ExemptibleAsset {
+  id: string;
+  assetType: string;
+  description: string;
+  currentValue: number;
+  ownershipPercentage?: number;
+  /** Total liens against the asset */
+  liens?: number;
+}
+
+export interface ExemptionClaim {
+  assetId: string;
+  schemeId: string;
+  ruleId: string;
+  category: ExemptionCategory;
+  statute: string;
+  amount: number;
+}
+
+export interface AssetExemptionAllocation {
+  assetId: string;
+  description: string;
+  assetType: string;
+  currentValue: number;
+  liens: number;
+  equity: number;
+  claims: ExemptionClaim[];
+  totalExempt: number;
+  nonExemptEquity: number;
+}
+
+export interface ExemptionAnalysis {
+  scheme: ExemptionScheme;
+  allocations: AssetExemptionAllocation[];
+  totalEquity: number;
+  totalExempt: number;
+  totalNonExempt: number;
+}
+
+/**
+ * A period of residence used for the §522(b)(3)(A) domicile test
+ */
+export interface DomicilePeriod {
+  state: string;
+  fromDate: string;
+  /** Null or undefined for the current residence */
+  toDate?: string | null;
+}
+
+export interface DomicileDetermination {
+  /** State whose exemption law applies */
+  state: string | null;
+  rule: '730_day' | '180_day_prior' | 'federal_fallback';
+  explanation: string;
+  /** True when the residence history does not cover the look-back period */
+  incompleteHistory: boolean;
+}
+
+/**
+ * supported: the domicile state (or the federal fallback) has a schedule
+ * not_supported: no schedule exists for the domicile state yet, so nothing
+ * is allocated and Schedule C must be prepared by hand
+ */
+export type ExemptionScheduleStatus = 'supported' | 'not_supported';
+
+export interface AvailableExemptionSchemes {
+  status: ExemptionScheduleStatus;
+  schemes: ExemptionScheme[];
+  warnings: string[];
+}
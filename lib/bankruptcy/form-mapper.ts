@@ -3,6 +3,14 @@
  * Maps case data to official bankruptcy form field structures
  */
 
+import {
+  analyzeCaseExemptions,
+  getExemptionScheme,
+  HOMESTEAD_ACQUISITION_CAP,
+  type ExemptionScheduleStatus,
+} from './exemptions';
+import { SOFA_SECTIONS, type SofaData, type SofaField } from './sofa';
+
 // Case data types
 interface CaseData {
   id: string;
@@ -14,6 +22,7 @@ interface CaseData {
   state: string | null;
   householdSize: number | null;
   filingDate: string | null;
+  filingType?: string | null;
 }
 
 interface DebtorInfo {
@@ -56,6 +65,14 @@ interface IncomeRecord {
   ytdGross: number | null;
 }
 
+// One business from the self-employment ledger, averaged over the look-back
+interface BusinessIncomeRecord {
+  businessName: string;
+  monthlyGrossReceipts: number;
+  monthlyExpenses: number;
+  monthlyNetIncome: number;
+}
+
 interface ExpenseRecord {
   id: string;
   category: string;
@@ -102,14 +119,48 @@ interface MeansTestResult {
   presumptionOfAbuse: boolean;
 }
 
+interface ContractRecord {
+  id: string;
+  counterpartyName: string;
+  counterpartyAddress: string | null;
+  contractType: string;
+  description: string;
+  monthlyPayment: number | null;
+  expirationDate: string | null;
+}
+
+interface CodebtorRecord {
+  id: string;
+  debtId: string;
+  name: string;
+  address: string | null;
+  relationship: string | null;
+}
+
+interface ExemptionClaimRecord {
+  assetId: string;
+  schemeId: string;
+  ruleId: string;
+  category: string;
+  statute: string;
+  amount: number;
+}
+
 export interface FormData {
   caseData: CaseData;
   debtorInfo?: DebtorInfo;
   income: IncomeRecord[];
+  // Self-employment ledger; replaces business rows in income when present
+  selfEmployment?: BusinessIncomeRecord[];
   expenses: ExpenseRecord[];
   assets: AssetRecord[];
   debts: DebtRecord[];
   meansTest?: MeansTestResult;
+  // Saved Schedule C claims; when absent the recommended allocation is used
+  exemptionClaims?: ExemptionClaimRecord[];
+  sofa?: SofaData;
+  contracts?: ContractRecord[];
+  codebtors?: CodebtorRecord[];
 }
 
 // Helper function to calculate monthly income
@@ -228,6 +279,14 @@ export interface Form106IData {
     };
     monthlyNet: number;
   }>;
+  // Line 8a: net income from operating a business, with the attached statement
+  netBusinessIncome: number;
+  businessStatements: Array<{
+    businessName: string;
+    grossReceipts: number;
+    expenses: number;
+    netIncome: number;
+  }>;
   otherIncome: Array<{
     source: string;
     amount: number;
@@ -240,7 +299,12 @@ export interface Form106IData {
 }
 
 export function mapToForm106I(data: FormData): Form106IData {
-  const incomeSources = data.income
+  const businesses = data.selfEmployment || [];
+  const isLedgerIncome = (i: IncomeRecord) =>
+    businesses.length > 0 && (i.incomeSource === 'business' || i.incomeSource === 'self_employment');
+  const income = data.income.filter(i => !isLedgerIncome(i));
+
+  const incomeSources = income
     .filter(i => i.incomeSource === 'employment' || i.incomeSource === 'business')
     .map(i => ({
       employer: i.employer || 'Unknown Employer',
@@ -258,22 +322,32 @@ export function mapToForm106I(data: FormData): Form106IData {
       monthlyNet: calculateMonthlyAmount(i.netPay, i.payPeriod),
     }));
 
-  const otherIncome = data.income
+  const businessStatements = businesses.map(b => ({
+    businessName: b.businessName,
+    grossReceipts: b.monthlyGrossReceipts,
+    expenses: b.monthlyExpenses,
+    netIncome: b.monthlyNetIncome,
+  }));
+  const netBusinessIncome = businessStatements.reduce((sum, b) => sum + b.netIncome, 0);
+
+  const otherIncome = income
     .filter(i => i.incomeSource !== 'employment' && i.incomeSource !== 'business')
     .map(i => ({
       source: i.incomeSource || 'Other',
       amount: calculateMonthlyAmount(i.grossPay, i.payPeriod),
     }));
 
-  const totalMonthlyIncome = data.income.reduce(
+  const totalMonthlyIncome = income.reduce(
     (sum, i) => sum + calculateMonthlyAmount(i.netPay || i.grossPay, i.payPeriod), 0
-  );
+  ) + netBusinessIncome;
 
   return {
     formName: 'Form 106I - Schedule I: Your Income',
     debtorName: data.caseData.clientName,
     caseNumber: data.caseData.caseNumber || '',
     incomeSources,
+    netBusinessIncome,
+    businessStatements,
     otherIncome,
     totalMonthlyIncome,
   };
@@ -289,6 +363,7 @@ export interface Form106JData {
     homeOwnerInsurance: number;
     propertyTaxes: number;
     utilities: number;
+    telecommunications: number;
     food: number;
     clothing: number;
     transportation: number;
@@ -298,6 +373,8 @@ export interface Form106JData {
     entertainment: number;
     taxes: number;
     insurance: number;
+    lifeInsurance: number;
+    supportPayments: number;
     debtPayments: number;
     other: number;
   };
@@ -308,7 +385,8 @@ export interface Form106JData {
 export function mapToForm106J(data: FormData): Form106JData {
   const expensesByCategory: Record<string, number> = {};
 
-  data.expenses.forEach(e => {
+  // Payroll deductions come out of net pay on Schedule I, not Schedule J
+  data.expenses.filter(e => e.category !== 'payroll_deductions').forEach(e => {
     expensesByCategory[e.category] = (expensesByCategory[e.category] || 0) + Number(e.monthlyAmount);
   });
 
@@ -317,6 +395,7 @@ export function mapToForm106J(data: FormData): Form106JData {
     homeOwnerInsurance: 0,
     propertyTaxes: 0,
     utilities: expensesByCategory['utilities'] || 0,
+    telecommunications: expensesByCategory['telecommunications'] || 0,
     food: expensesByCategory['food'] || 0,
     clothing: expensesByCategory['clothing'] || 0,
     transportation: expensesByCategory['transportation'] || 0,
@@ -326,6 +405,8 @@ export function mapToForm106J(data: FormData): Form106JData {
     entertainment: expensesByCategory['entertainment'] || 0,
     taxes: expensesByCategory['taxes'] || 0,
     insurance: expensesByCategory['insurance'] || 0,
+    lifeInsurance: expensesByCategory['life_insurance'] || 0,
+    supportPayments: expensesByCategory['court_ordered_payments'] || 0,
     debtPayments: expensesByCategory['debt_payments'] || 0,
     other: expensesByCategory['other'] || 0,
   };
@@ -457,6 +538,97 @@ export function mapToForm106AB(data: FormData): Form106ABData {
   };
 }
 
+// Form 106C: Schedule C - The Property You Claim as Exempt
+export interface Form106CData {
+  formName: string;
+  debtorName: string;
+  caseNumber: string;
+  exemptionSystem: 'state' | 'federal';
+  exemptionSystemCitation: string;
+  schemeName: string;
+  domicileState: string | null;
+  scheduleStatus: ExemptionScheduleStatus;
+  claims: Array<{
+    propertyDescription: string;
+    scheduleABLine: string;
+    currentValue: number;
+    exemptionAmount: number;
+    statute: string;
+  }>;
+  claimsHomesteadOverCap: boolean;
+  totalExempt: number;
+  warnings: string[];
+}
+
+// Schedule A/B line where each asset type is listed
+const SCHEDULE_AB_LINES: Record<string, string> = {
+  real_estate: '1',
+  vehicle: '3',
+  household_goods: '6',
+  collectibles: '8',
+  jewelry: '12',
+  bank_account: '17',
+  retirement: '21',
+  tax_refund: '28',
+  business: '40',
+  other: '53',
+};
+
+export function mapToForm106C(data: FormData): Form106CData {
+  const analysis = analyzeCaseExemptions({
+    assets: data.assets,
+    debts: data.debts,
+    currentState: data.caseData.state,
+    residenceHistory: (data.debtorInfo?.previousAddresses || []).map(a => ({
+      state: a.state,
+      fromDate: a.fromDate,
+      toDate: a.toDate,
+    })),
+    filingDate: data.caseData.filingDate,
+    jointFiling: data.caseData.filingType === 'joint',
+    householdSize: data.caseData.householdSize,
+  });
+
+  // Prefer saved claims; otherwise use the most protective available scheme
+  const savedClaims = data.exemptionClaims || [];
+  const claimRecords = savedClaims.length > 0
+    ? savedClaims
+    : analysis.recommended?.allocations.flatMap(a => a.claims) ?? [];
+  const schemeId = claimRecords[0]?.schemeId || analysis.recommended?.scheme.id;
+  // No scheme when the domicile state's schedule is not supported
+  const scheme = (schemeId && getExemptionScheme(schemeId)) || analysis.recommended?.scheme || null;
+  const jurisdiction = scheme?.jurisdiction ?? 'state';
+
+  const claims = claimRecords.flatMap(c => {
+    const asset = data.assets.find(a => a.id === c.assetId);
+    if (!asset) return [];
+    return [{
+      propertyDescription: asset.description,
+      scheduleABLine: SCHEDULE_AB_LINES[asset.assetType] || SCHEDULE_AB_LINES.other,
+      currentValue: Number(asset.currentValue),
+      exemptionAmount: Number(c.amount),
+      statute: c.statute,
+    }];
+  });
+
+  return {
+    formName: 'Form 106C - Schedule C: The Property You Claim as Exempt',
+    debtorName: data.caseData.clientName,
+    caseNumber: data.caseData.caseNumber || '',
+    exemptionSystem: jurisdiction,
+    exemptionSystemCitation: jurisdiction === 'federal' ? '11 U.S.C. § 522(b)(2)' : '11 U.S.C. § 522(b)(3)',
+    schemeName: scheme?.name ?? `${analysis.domicile.state} exemptions (claimed manually)`,
+    domicileState: analysis.domicile.state,
+    scheduleStatus: analysis.scheduleStatus,
+    claims,
+    claimsHomesteadOverCap: claimRecords.some(
+      c => c.category === 'homestead' && Number(c.amount) > HOMESTEAD_ACQUISITION_CAP
+    ),
+    totalExempt: claims.reduce((sum, c) => sum + c.exemptionAmount, 0),
+    warnings: analysis.warnings,
+  };
+}
+
 // Form 106D: Schedule D - Secured Claims
 export interface Form106DData {
   formName: string;
@@ -624,14 +796,278 @@ export function mapToForm122A(data: FormData): Form122AData {
   };
 }
 
+// Form 106G: Schedule G - Executory Contracts and Unexpired Leases
+export interface Form106GData {
+  formName: string;
+  debtorName: string;
+  caseNumber: string;
+  contracts: Array<{
+    counterpartyName: string;
+    counterpartyAddress: string;
+    contractType: string;
+    description: string;
+    monthlyPayment: number;
+    expirationDate: string;
+  }>;
+}
+
+const CONTRACT_TYPE_LABELS: Record<string, string> = {
+  residential_lease: 'Residential lease',
+  vehicle_lease: 'Vehicle lease',
+  equipment_lease: 'Equipment lease',
+  service_contract: 'Service contract',
+  other: 'Other contract',
+};
+
+export function mapToForm106G(data: FormData): Form106GData {
+  return {
+    formName: 'Form 106G - Schedule G: Executory Contracts and Unexpired Leases',
+    debtorName: data.caseData.clientName,
+    caseNumber: data.caseData.caseNumber || '',
+    contracts: (data.contracts || []).map(c => ({
+      counterpartyName: c.counterpartyName,
+      counterpartyAddress: c.counterpartyAddress || '',
+      contractType: CONTRACT_TYPE_LABELS[c.contractType] || CONTRACT_TYPE_LABELS.other,
+      description: c.description,
+      monthlyPayment: Number(c.monthlyPayment) || 0,
+      expirationDate: c.expirationDate || '',
+    })),
+  };
+}
+
+// Form 106H: Schedule H - Your Codebtors
+export interface Form106HData {
+  formName: string;
+  debtorName: string;
+  caseNumber: string;
+  livedInCommunityPropertyState: boolean;
+  communityPropertyStates: string[];
+  codebtors: Array<{
+    name: string;
+    address: string;
+    relationship: string;
+    creditorName: string;
+    schedule: 'D' | 'E/F';
+  }>;
+}
+
+// Community property states and territories (Schedule H, line 2)
+const COMMUNITY_PROPERTY_STATES = ['AZ', 'CA', 'ID', 'LA', 'NV', 'NM', 'PR', 'TX', 'WA', 'WI'];
+
+export function mapToForm106H(data: FormData): Form106HData {
+  const statesLived = new Set(
+    [data.caseData.state, ...(data.debtorInfo?.previousAddresses || []).map(a => a.state)]
+      .filter((s): s is string => !!s)
+      .map(s => s.toUpperCase())
+  );
+  const communityPropertyStates = COMMUNITY_PROPERTY_STATES.filter(s => statesLived.has(s));
+
+  const codebtors = (data.codebtors || []).flatMap(c => {
+    const debt = data.debts.find(d => d.id === c.debtId);
+    if (!debt) return [];
+    return [{
+      name: c.name,
+      address: c.address || '',
+      relationship: c.relationship || '',
+      creditorName: debt.creditorName,
+      schedule: debt.secured ? 'D' as const : 'E/F' as const,
+    }];
+  });
+
+  return {
+    formName: 'Form 106H - Schedule H: Your Codebtors',
+    debtorName: data.caseData.clientName,
+    caseNumber: data.caseData.caseNumber || '',
+    livedInCommunityPropertyState: communityPropertyStates.length > 0,
+    communityPropertyStates,
+    codebtors,
+  };
+}
+
+// Form 106Sum: Summary of Your Assets and Liabilities and Certain Statistical Information
+export interface Form106SumData {
+  formName: string;
+  debtorName: string;
+  caseNumber: string;
+  assets: {
+    realProperty: number;
+    personalProperty: number;
+    total: number;
+  };
+  liabilities: {
+    securedClaims: number;
+    priorityClaims: number;
+    nonpriorityClaims: number;
+    total: number;
+  };
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  primarilyConsumerDebts: boolean;
+  currentMonthlyIncome: number;
+  certainClaims: {
+    domesticSupport: number;
+    taxes: number;
+    studentLoans: number;
+    total: number;
+  };
+}
+
+export function mapToForm106Sum(data: FormData): Form106SumData {
+  const scheduleAB = mapToForm106AB(data);
+  const scheduleD = mapToForm106D(data);
+  const scheduleEF = mapToForm106EF(data);
+  const scheduleI = mapToForm106I(data);
+  const scheduleJ = mapToForm106J(data);
+  const meansTest = mapToForm122A(data);
+
+  const unsecuredTotal = (debtType: string) => data.debts
+    .filter(d => !d.secured && d.debtType === debtType)
+    .reduce((sum, d) => sum + Number(d.balance), 0);
+
+  // Taxes are not consumer debts; everything else in the tool is personal debt
+  const totalDebt = data.debts.reduce((sum, d) => sum + Number(d.balance), 0);
+  const consumerDebt = data.debts
+    .filter(d => d.debtType !== 'tax')
+    .reduce((sum, d) => sum + Number(d.balance), 0);
+
+  const domesticSupport = unsecuredTotal('child_support');
+  const taxes = unsecuredTotal('tax');
+  const studentLoans = unsecuredTotal('student_loan');
+
+  return {
+    formName: 'Form 106Sum - Summary of Your Assets and Liabilities and Certain Statistical Information',
+    debtorName: data.caseData.clientName,
+    caseNumber: data.caseData.caseNumber || '',
+    assets: {
+      realProperty: scheduleAB.totalRealProperty,
+      personalProperty: scheduleAB.totalPersonalProperty,
+      total: scheduleAB.totalAssets,
+    },
+    liabilities: {
+      securedClaims: scheduleD.totalSecuredClaims,
+      priorityClaims: scheduleEF.totalPriorityClaims,
+      nonpriorityClaims: scheduleEF.totalNonPriorityClaims,
+      total: scheduleD.totalSecuredClaims + scheduleEF.totalPriorityClaims + scheduleEF.totalNonPriorityClaims,
+    },
+    monthlyIncome: scheduleI.totalMonthlyIncome,
+    monthlyExpenses: scheduleJ.totalExpenses,
+    primarilyConsumerDebts: totalDebt === 0 || consumerDebt > totalDebt / 2,
+    currentMonthlyIncome: meansTest.averageMonthlyIncome,
+    certainClaims: {
+      domesticSupport,
+      taxes,
+      studentLoans,
+      total: domesticSupport + taxes + studentLoans,
+    },
+  };
+}
+
+// Form 106Dec: Declaration About an Individual Debtor's Schedules
+export interface Form106DecData {
+  formName: string;
+  debtorName: string;
+  spouseName?: string;
+  caseNumber: string;
+  usedNonAttorneyPreparer: boolean;
+  schedules: string[];
+}
+
+export function mapToForm106Dec(data: FormData): Form106DecData {
+  return {
+    formName: "Form 106Dec - Declaration About an Individual Debtor's Schedules",
+    debtorName: data.caseData.clientName,
+    spouseName: data.debtorInfo?.spouseName,
+    caseNumber: data.caseData.caseNumber || '',
+    usedNonAttorneyPreparer: false,
+    schedules: [
+      'Schedule A/B: Property',
+      'Schedule C: The Property You Claim as Exempt',
+      'Schedule D: Creditors Who Have Claims Secured by Property',
+      'Schedule E/F: Creditors Who Have Unsecured Claims',
+      'Schedule G: Executory Contracts and Unexpired Leases',
+      'Schedule H: Your Codebtors',
+      'Schedule I: Your Income',
+      'Schedule J: Your Expenses',
+    ],
+  };
+}
+
+// Form 107: Statement of Financial Affairs
+export interface Form107Data {
+  formName: string;
+  debtorName: string;
+  caseNumber: string;
+  questions: Array<{
+    part: number;
+    partTitle: string;
+    questions: string;
+    prompt: string;
+    answer: 'yes' | 'no' | 'unanswered';
+    columns: string[];
+    rows: string[][];
+  }>;
+  unansweredCount: number;
+}
+
+function formatSofaValue(field: SofaField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  switch (field.type) {
+    case 'money':
+      return `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'select':
+      return field.options?.find(o => o.value === value)?.label || String(value);
+    default:
+      return String(value);
+  }
+}
+
+export function mapToForm107(data: FormData): Form107Data {
+  const questions = SOFA_SECTIONS.map(section => {
+    // Prior addresses come from the debtor profile when it has them
+    const entries: Record<string, unknown>[] =
+      section.key === 'prior_addresses' && data.debtorInfo?.previousAddresses?.length
+        ? data.debtorInfo.previousAddresses
+        : data.sofa?.entries[section.key] || [];
+    const answered = data.sofa?.answers[section.key];
+
+    return {
+      part: section.part,
+      partTitle: section.partTitle,
+      questions: section.questions,
+      prompt: section.prompt,
+      answer: entries.length > 0 || answered === true
+        ? 'yes' as const
+        : answered === false ? 'no' as const : 'unanswered' as const,
+      columns: section.fields.map(f => f.label),
+      rows: entries.map(entry => section.fields.map(f => formatSofaValue(f, entry[f.name]))),
+    };
+  });
+
+  return {
+    formName: 'Form 107 - Statement of Financial Affairs for Individuals Filing for Bankruptcy',
+    debtorName: data.caseData.clientName,
+    caseNumber: data.caseData.caseNumber || '',
+    questions,
+    unansweredCount: questions.filter(q => q.answer === 'unanswered').length,
+  };
+}
+
 // Map all forms at once
 export interface AllFormsData {
   form101: Form101Data;
   form106I: Form106IData;
   form106J: Form106JData;
   form106AB: Form106ABData;
+  form106C: Form106CData;
   form106D: Form106DData;
   form106EF: Form106EFData;
+  form106G: Form106GData;
+  form106H: Form106HData;
+  form106Sum: Form106SumData;
+  form106Dec: Form106DecData;
+  form107: Form107Data;
   form122A: Form122AData;
 }
 
@@ -641,8 +1077,14 @@ export function mapAllForms(data: FormData): AllFormsData {
     form106I: mapToForm106I(data),
     form106J: mapToForm106J(data),
     form106AB: mapToForm106AB(data),
+    form106C: mapToForm106C(data),
     form106D: mapToForm106D(data),
     form106EF: mapToForm106EF(data),
+    form106G: mapToForm106G(data),
+    form106H: mapToForm106H(data),
+    form106Sum: mapToForm106Sum(data),
+    form106Dec: mapToForm106Dec(data),
+    form107: mapToForm107(data),
     form122A: mapToForm122A(data),
   };
 }
@@ -0,0 +1,473 @@
+/**
+ * Case Income Reconciliation
+ *
+ * Gathers income evidence for a case (monthly income records, template
+ * parsing of known pay stub and 1099 layouts, and an LLM pass over the
+ * remaining income documents), reconciles it, and replaces the case's
+ * reconciled income sources. Used by the reconcile API and the document
+ * processing job.
+ */
+
+import type postgres from 'postgres';
+import type { CaseDevClient } from '../../case-dev/client';
+import { loadFieldCipher } from '../../db/field-encryption';
+import { redactSensitive } from '../../utils/redact';
+import {
+  matchTemplate,
+  payFrequencyOf,
+  TEMPLATE_CONFIDENCE,
+  type Form1099Type,
+  type TemplateMatch,
+} from '../../extraction/templates';
+import { createNormalizedIncome } from './normalization';
+import { loadReconciliationPolicy } from './policy';
+import { reconcileIncome, reconciledSourceKey } from './reconciliation';
+import { saveReconciliationRun, type ReconciliationRunDiff, type ReconciliationRunTrigger } from './runs';
+import type { CaseIncomeSummary, NormalizedIncome, RawIncomeExtraction, ReconciledIncomeSource } from './types';
+
+// Document types that contain income information
+export const INCOME_DOCUMENT_TYPES = ['paystub', 'w2', 'tax_return', 'bank_statement', '1099'];
+
+export interface CaseReconciliationResult {
+  summary: CaseIncomeSummary;
+  documentsProcessed: number;
+  existingRecordsIncluded: number;
+  totalExtractionsFound: number;
+  reconciledSourcesCreated: number;
+  /** The recorded run, or null when there was nothing to reconcile */
+  runId: string | null;
+  runDiff: ReconciliationRunDiff | null;
+}
+
+// Map pay frequency strings to standard format
+function mapFrequency(freq: string): RawIncomeExtraction['frequency'] {
+  const map: Record<string, RawIncomeExtraction['frequency']> = {
+    'weekly': 'weekly',
+    'bi-weekly': 'biweekly',
+    'biweekly': 'biweekly',
+    'semi-monthly': 'semi_monthly',
+    'semi_monthly': 'semi_monthly',
+    'monthly': 'monthly',
+    'annual': 'annual',
+    'yearly': 'annual',
+    'one-time': 'one_time',
+    'one_time': 'one_time',
+  };
+  return map[freq?.toLowerCase()] || 'monthly';
+}
+
+// Map document type strings to standard format
+function mapDocumentType(docType: string): RawIncomeExtraction['documentType'] {
+  const map: Record<string, RawIncomeExtraction['documentType']> = {
+    'paystub': 'paystub',
+    'pay_stub': 'paystub',
+    'pay-stub': 'paystub',
+    'w2': 'w2',
+    'w-2': 'w2',
+    'tax_return': 'tax_return',
+    'tax-return': 'tax_return',
+    '1040': 'tax_return',
+    'bank_statement': 'bank_statement',
+    'bank-statement': 'bank_statement',
+    '1099': '1099',
+    '1099-misc': '1099',
+    '1099-nec': '1099',
+  };
+  return map[docType?.toLowerCase()] || 'paystub';
+}
+
+async function loadIncomeRecordExtractions(
+  sql: postgres.Sql,
+  caseId: string
+): Promise<RawIncomeExtraction[]> {
+  const [table] = await sql`SELECT to_regclass('income_records') AS name`;
+  if (!table?.name) return [];
+
+  const [taxForms] = await sql`SELECT to_regclass('tax_forms') AS name`;
+  const records = await sql`
+    SELECT
+      id,
+      employer,
+      income_month as "incomeMonth",
+      gross_amount as "grossAmount",
+      income_source as "incomeSource"
+    FROM income_records
+    WHERE case_id = ${caseId}
+    ${taxForms?.name
+      // Read from the forms themselves; a 1040 is checked against the sources instead
+      ? sql`AND NOT EXISTS (SELECT 1 FROM tax_forms WHERE tax_forms.document_id = income_records.document_id)`
+      : sql``}
+  `;
+
+  // Income records are already monthly gross totals
+  return records.map(record => {
+    const monthEnd = record.incomeMonth
+      ? new Date(Date.UTC(Number(record.incomeMonth.slice(0, 4)), Number(record.incomeMonth.slice(5, 7)), 0))
+          .toISOString()
+          .split('T')[0]
+      : null;
+
+    return {
+      id: `existing_${record.id}`,
+      documentId: record.id,
+      documentType: mapDocumentType(record.incomeSource || 'paystub'),
+      documentDate: monthEnd || new Date().toISOString().split('T')[0],
+      rawAmount: parseFloat(record.grossAmount) || 0,
+      frequency: 'monthly',
+      amountType: 'gross',
+      payerName: record.employer || 'Unknown Employer',
+      payerEIN: null,
+      periodStart: record.incomeMonth ? `${record.incomeMonth}-01` : null,
+      periodEnd: monthEnd,
+      ytdGross: null,
+      ytdNet: null,
+      ytdFederalWithheld: null,
+      extractionConfidence: 0.8,
+    };
+  });
+}
+
+const FORM_1099_INCOME_TYPES: Record<Form1099Type, ReconciledIncomeSource['incomeType']> = {
+  '1099-NEC': 'self_employment',
+  '1099-MISC': 'other',
+  '1099-INT': 'other',
+  '1099-DIV': 'other',
+  '1099-R': 'pension',
+  'SSA-1099': 'social_security',
+};
+
+function form1099Income(template: TemplateMatch, doc: { id: string }, nextId: () => number): RawIncomeExtraction[] {
+  if (template.result.kind !== '1099') return [];
+
+  const form = template.result;
+  const year = form.taxYear.value;
+  return [{
+    id: `doc_${doc.id}_${nextId()}`,
+    documentId: doc.id,
+    documentType: '1099',
+    documentDate: `${year}-12-31`,
+    rawAmount: form.amount.value,
+    frequency: 'annual',
+    amountType: 'gross',
+    payerName: form.payer?.value || 'Unknown Payer',
+    payerEIN: null,
+    periodStart: `${year}-01-01`,
+    periodEnd: `${year}-12-31`,
+    taxYear: year,
+    ytdGross: null,
+    ytdNet: null,
+    ytdFederalWithheld: form.federalWithheld?.value ?? null,
+    incomeType: form.formType === '1099-MISC' && form.box === '1' ? 'rental' : FORM_1099_INCOME_TYPES[form.formType],
+    extractionConfidence: TEMPLATE_CONFIDENCE,
+  }];
+}
+
+/**
+ * Read a pay stub or 1099 in a known layout without the LLM. A recognised
+ * 1040 adds nothing: it has no employer names, so it is checked against
+ * the reconciled sources instead (see crossCheckTaxReturns). Returns null
+ * when no template applies or a pay stub's frequency cannot be told from
+ * its period.
+ */
+function templateDocumentIncomes(
+  doc: { id: string; documentType: string; ocrText: string },
+  nextId: () => number
+): RawIncomeExtraction[] | null {
+  const template = matchTemplate(doc.ocrText, doc.documentType);
+  if (template?.result.kind === 'tax_return') return [];
+  if (template?.result.kind === '1099') return form1099Income(template, doc, nextId);
+  if (template?.result.kind !== 'paystub') return null;
+
+  const stub = template.result;
+  const frequency = payFrequencyOf(stub);
+  if (!frequency) return null;
+
+  return [{
+    id: `doc_${doc.id}_${nextId()}`,
+    documentId: doc.id,
+    documentType: 'paystub',
+    documentDate: stub.periodEnd?.value ?? stub.payDate.value,
+    rawAmount: stub.grossPay.value,
+    frequency,
+    amountType: 'gross',
+    payerName: stub.employer?.value || 'Unknown Employer',
+    payerEIN: null,
+    periodStart: stub.periodStart?.value ?? null,
+    periodEnd: stub.periodEnd?.value ?? null,
+    ytdGross: stub.ytdGross?.value ?? null,
+    ytdNet: stub.ytdNet?.value ?? null,
+    ytdFederalWithheld: stub.ytdFederalWithheld?.value ?? null,
+    extractionConfidence: TEMPLATE_CONFIDENCE,
+  }];
+}
+
+async function extractDocumentIncomes(
+  client: CaseDevClient,
+  doc: { id: string; documentType: string; ocrText: string },
+  nextId: () => number
+): Promise<RawIncomeExtraction[]> {
+  const docType = mapDocumentType(doc.documentType);
+
+  const response = await client.llmComplete({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: buildExtractionPrompt(docType),
+      },
+      {
+        role: 'user',
+        content: `Extract income from this ${docType} document:\n\n${redactSensitive(doc.ocrText.substring(0, 4000))}`,
+      },
+    ],
+    temperature: 0.1,
+  });
+
+  const content = response.choices[0].message.content;
+  // Parse JSON from response - extract JSON object if wrapped in markdown
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.warn(`No JSON found in extraction response for document ${doc.id}`);
+    return [];
+  }
+  const extracted = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(extracted.incomes)) return [];
+
+  return extracted.incomes.map((income: Record<string, string | number | null>) => ({
+    id: `doc_${doc.id}_${nextId()}`,
+    documentId: doc.id,
+    documentType: docType,
+    documentDate: (income.periodEnd as string) || new Date().toISOString().split('T')[0],
+    rawAmount: parseFloat(String(income.rawAmount)) || 0,
+    frequency: mapFrequency((income.payFrequency as string) || 'monthly'),
+    amountType: income.amountType === 'net' ? 'net' : 'gross',
+    payerName: (income.employerName as string) || 'Unknown Employer',
+    payerEIN: (income.employerEIN as string) || null,
+    periodStart: (income.periodStart as string) || null,
+    periodEnd: (income.periodEnd as string) || null,
+    ytdGross: income.ytdGross ? parseFloat(String(income.ytdGross)) : null,
+    ytdNet: income.ytdNet ? parseFloat(String(income.ytdNet)) : null,
+    ytdFederalWithheld: income.ytdFederalWithheld ? parseFloat(String(income.ytdFederalWithheld)) : null,
+    hoursWorked: income.hoursWorked ? parseFloat(String(income.hoursWorked)) : null,
+    hourlyRate: income.hourlyRate ? parseFloat(String(income.hourlyRate)) : null,
+    extractionConfidence: Number(income.confidence) || 0.7,
+  }));
+}
+
+/**
+ * Re-reconcile a case's income under the firm's policy, record the run,
+ * and replace the case's saved reconciled sources. Without a client only
+ * existing income records and template-parsed pay stubs are used.
+ */
+export async function reconcileCaseIncome(
+  sql: postgres.Sql,
+  caseId: string,
+  client: CaseDevClient | null,
+  trigger: ReconciliationRunTrigger = 'api'
+): Promise<CaseReconciliationResult> {
+  // Fetch income documents with OCR text; its length is checked once decrypted
+  const documents = await sql`
+    SELECT
+      id,
+      document_type as "documentType",
+      ocr_text as "ocrText"
+    FROM case_documents
+    WHERE case_id = ${caseId}
+      AND document_type = ANY(${INCOME_DOCUMENT_TYPES})
+      AND ocr_completed = true
+      AND ocr_text IS NOT NULL
+  `;
+  const cipher = await loadFieldCipher(sql);
+
+  const existingExtractions = await loadIncomeRecordExtractions(sql, caseId);
+  const rawExtractions: RawIncomeExtraction[] = [...existingExtractions];
+
+  let extractionId = 0;
+  const nextId = () => ++extractionId;
+
+  for (const doc of documents) {
+    const ocrText = cipher.decrypt(doc.ocrText as string);
+    if (ocrText.length <= 50) continue;
+
+    const document = { id: doc.id, documentType: doc.documentType, ocrText };
+    const fromTemplate = templateDocumentIncomes(document, nextId);
+    if (fromTemplate) {
+      rawExtractions.push(...fromTemplate);
+      continue;
+    }
+    if (!client) continue;
+
+    try {
+      rawExtractions.push(...(await extractDocumentIncomes(client, document, nextId)));
+    } catch (extractionError) {
+      console.error(`Error extracting income from document ${doc.id}:`, extractionError);
+      // Continue with other documents
+    }
+  }
+
+  // Normalize all extractions
+  const normalizedIncomes: NormalizedIncome[] = rawExtractions.map((extraction, idx) =>
+    createNormalizedIncome(extraction, `norm_${idx}`)
+  );
+
+  const policy = await loadReconciliationPolicy(sql);
+  const output = reconcileIncome({ caseId, normalizedIncomes, policy });
+  const { sources, summary } = output;
+
+  const result: CaseReconciliationResult = {
+    summary,
+    documentsProcessed: documents.length,
+    existingRecordsIncluded: existingExtractions.length,
+    totalExtractionsFound: rawExtractions.length,
+    reconciledSourcesCreated: sources.length,
+    runId: null,
+    runDiff: null,
+  };
+
+  // Nothing to reconcile; keep whatever was saved before
+  if (rawExtractions.length === 0) return result;
+
+  const run = await saveReconciliationRun(sql, caseId, { trigger, policy, inputs: rawExtractions, output });
+  result.runId = run.id;
+  result.runDiff = run.diff;
+
+  // Sources a reviewer accepted, corrected, or rejected are kept as they are
+  const reviewed = await sql`
+    SELECT employer_name as "employerName", income_type as "incomeType", income_year as "incomeYear"
+    FROM reconciled_income_sources
+    WHERE case_id = ${caseId} AND determination_method = 'manual_override'
+  `;
+  const reviewedKeys = new Set(
+    reviewed.map(row =>
+      reconciledSourceKey({ employerName: String(row.employerName), incomeType: String(row.incomeType), incomeYear: Number(row.incomeYear) })
+    )
+  );
+
+  // Clear the remaining reconciled sources for this case
+  await sql`
+    DELETE FROM reconciled_income_sources
+    WHERE case_id = ${caseId} AND determination_method <> 'manual_override'
+  `;
+
+  // Save reconciled sources
+  for (const source of sources) {
+    if (reviewedKeys.has(reconciledSourceKey(source))) continue;
+
+    await sql`
+      INSERT INTO reconciled_income_sources (
+        id, case_id, employer_name, employer_ein, income_type, income_year,
+        verified_annual_gross, verified_monthly_gross,
+        verified_annual_net, verified_monthly_net,
+        determination_method, evidence, confidence, status, discrepancy,
+        created_at, updated_at
+      ) VALUES (
+        ${source.id},
+        ${caseId},
+        ${source.employerName},
+        ${source.employerEIN || null},
+        ${source.incomeType},
+        ${source.incomeYear},
+        ${source.verifiedAnnualGross},
+        ${source.verifiedMonthlyGross},
+        ${source.verifiedAnnualNet || null},
+        ${source.verifiedMonthlyNet || null},
+        ${source.determinationMethod},
+        ${JSON.stringify(source.evidence)},
+        ${source.confidence},
+        ${source.status},
+        ${source.discrepancy ? JSON.stringify(source.discrepancy) : null},
+        NOW(),
+        NOW()
+      )
+    `;
+  }
+
+  return result;
+}
+
+/**
+ * Build extraction prompt based on document type
+ */
+function buildExtractionPrompt(documentType: RawIncomeExtraction['documentType']): string {
+  const baseStructure = `{
+  "incomes": [
+    {
+      "employerName": "<string>",
+      "employerEIN": "<string XX-XXXXXXX format or null>",
+      "rawAmount": <number - exact amount on document>,
+      "payFrequency": "weekly" | "bi-weekly" | "semi-monthly" | "monthly" | "annual",
+      "amountType": "gross" | "net",
+      "periodStart": "<YYYY-MM-DD or null>",
+      "periodEnd": "<YYYY-MM-DD or null>",
+      "ytdGross": <number or null>,
+      "ytdNet": <number or null>,
+      "ytdFederalWithheld": <number or null>,
+      "hoursWorked": <number or null>,
+      "hourlyRate": <number or null>,
+      "confidence": <0-1 score>
+    }
+  ]
+}`;
+
+  switch (documentType) {
+    case 'paystub':
+      return `Extract income from this pay stub for bankruptcy reconciliation.
+Return JSON: ${baseStructure}
+
+Rules:
+- rawAmount: GROSS pay for this period (before deductions)
+- amountType: "gross"
+- Extract YTD figures if shown
+- Determine payFrequency from pay period dates
+- Extract employer EIN if visible`;
+
+    case 'w2':
+      return `Extract income from this W-2 for bankruptcy reconciliation.
+Return JSON: ${baseStructure}
+
+Rules:
+- rawAmount: Box 1 wages (annual total)
+- payFrequency: "annual"
+- ytdGross = rawAmount
+- ytdFederalWithheld: Box 2
+- periodStart: Tax year Jan 1
+- periodEnd: Tax year Dec 31
+- employerEIN: Box b`;
+
+    case 'bank_statement':
+      return `Extract PAYROLL deposits from this bank statement for bankruptcy reconciliation.
+Return JSON: ${baseStructure}
+
+Rules:
+- Look for recurring deposits marked as payroll/direct deposit
+- rawAmount: deposit amount (this is NET after deductions)
+- amountType: "net"
+- employerName: Extract from deposit description
+- periodStart/periodEnd: Statement period
+- Determine payFrequency from deposit pattern`;
+
+    case 'tax_return':
+      return `Extract income from this tax return for bankruptcy reconciliation.
+Return JSON: ${baseStructure}
+
+Rules:
+- rawAmount: Wages from Line 1 (annual)
+- payFrequency: "annual"
+- periodStart/periodEnd: Tax year
+- Create separate entries for each W-2/employer if shown`;
+
+    case '1099':
+      return `Extract income from this 1099 for bankruptcy reconciliation.
+Return JSON: ${baseStructure}
+
+Rules:
+- rawAmount: Total compensation shown
+- payFrequency: "annual"
+- amountType: "gross"
+- employerEIN: Payer's TIN`;
+
+    default:
+      return `Extract income from this document for bankruptcy reconciliation.
+Return JSON: ${baseStructure}`;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Household Income Settings
+ *
+ * Per-case facts about a non-filing spouse that feed the CMI calculation.
+ */
+
+import type postgres from 'postgres';
+import type { NonFilingSpouse } from '../case-financials';
+
+export async function loadNonFilingSpouse(
+  sql: postgres.Sql,
+  caseId: string
+): Promise<NonFilingSpouse | null> {
+  const rows = await sql`
+    SELECT spouse_household_contribution, spouse_separate_household
+    FROM household_income_settings
+    WHERE case_id = ${caseId}
+  `;
+  if (rows.length === 0) return null;
+
+  const contribution = rows[0].spouse_household_contribution;
+  return {
+    householdContribution: contribution === null ? null : Number(contribution),
+    separateHousehold: Boolean(rows[0].spouse_separate_household),
+  };
+}
+
+export async function saveNonFilingSpouse(
+  sql: postgres.Sql,
+  caseId: string,
+  settings: NonFilingSpouse
+): Promise<void> {
+  const contribution = settings.householdContribution ?? null;
+  await sql`
+    INSERT INTO household_income_settings (
+      case_id, spouse_household_contribution, spouse_separate_household
+    ) VALUES (
+      ${caseId},
+      ${contribution},
+      ${settings.separateHousehold ?? false}
+    )
+    ON CONFLICT (case_id) DO UPDATE SET
+      spouse_household_contribution = EXCLUDED.spouse_household_contribution,
+      spouse_separate_household = EXCLUDED.spouse_separate_household,
+      updated_at = NOW()
+  `;
+}
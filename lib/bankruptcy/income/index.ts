@@ -29,6 +29,52 @@ export {
 // Reconciliation
 export {
   reconcileIncome,
+  reconciledSourceKey,
+  latestSourcePerEmployer,
   type ReconciliationInput,
   type ReconciliationOutput,
 } from './reconciliation';
+
+// Reconciliation policy
+export {
+  DEFAULT_RECONCILIATION_POLICY,
+  parsePolicySettings,
+  policyChanges,
+  loadReconciliationPolicy,
+  loadReconciliationPolicyVersion,
+  saveReconciliationPolicy,
+  type ReconciliationPolicy,
+  type ReconciliationPolicySettings,
+} from './policy';
+
+// Reconciliation runs
+export {
+  snapshotOf,
+  diffRunSnapshots,
+  replayReconciliation,
+  explainCmiChange,
+  listReconciliationRuns,
+  loadReconciliationRun,
+  loadLatestReconciliationRun,
+  saveReconciliationRun,
+  type CmiChangeExplanation,
+  type CmiContributionChange,
+  type ReconciliationRun,
+  type ReconciliationRunDiff,
+  type ReconciliationRunTrigger,
+  type RunSnapshot,
+  type RunSource,
+  type RunSourceChange,
+} from './runs';
+
+// Non-filing spouse settings
+export {
+  loadNonFilingSpouse,
+  saveNonFilingSpouse,
+} from './household';
+
+// Case-level reconciliation
+export {
+  reconcileCaseIncome,
+  type CaseReconciliationResult,
+} from './case-reconciliation';
@@ -0,0 +1,139 @@
+/**
+ * Reconciliation Policy
+ *
+ * The firm's tolerances for income reconciliation: the confidence a single
+ * document needs to stand on its own, how far documents may disagree, and
+ * how much agreement or disagreement moves the confidence score. Each save
+ * is a new version so that past reconciliation runs can be replayed under
+ * the policy they used.
+ */
+
+import type postgres from 'postgres';
+
+export interface ReconciliationPolicy {
+  /** 0 for the built-in default */
+  version: number;
+  /** A single document below this confidence needs review */
+  minConfidence: number;
+  /** Documents within this relative variance corroborate each other */
+  varianceThreshold: number;
+  /** Variance above this is a conflict rather than something to review */
+  highVarianceThreshold: number;
+  /** Confidence multiplier when documents corroborate each other */
+  corroborationBoost: number;
+  /** Confidence multiplier when bank deposits match pay stub net pay */
+  netCorroborationBoost: number;
+  /** Confidence multiplier for a single document annualized from part of a year */
+  partialYearFactor: number;
+  /** Confidence multiplier when periodic documents vary moderately */
+  moderateVarianceFactor: number;
+  /** Confidence multiplier when periodic documents conflict */
+  conflictFactor: number;
+  /** Confidence multiplier when an annual document conflicts with pay stubs */
+  annualConflictFactor: number;
+}
+
+export type ReconciliationPolicySettings = Omit<ReconciliationPolicy, 'version'>;
+
+export const DEFAULT_RECONCILIATION_POLICY: ReconciliationPolicy = {
+  version: 0,
+  minConfidence: 0.7,
+  varianceThreshold: 0.10,
+  highVarianceThreshold: 0.20,
+  corroborationBoost: 1.15,
+  netCorroborationBoost: 1.1,
+  partialYearFactor: 0.85,
+  moderateVarianceFactor: 0.85,
+  conflictFactor: 0.6,
+  annualConflictFactor: 0.7,
+};
+
+const POLICY_FIELDS = Object.keys(DEFAULT_RECONCILIATION_POLICY)
+  .filter(field => field !== 'version') as Array<keyof ReconciliationPolicySettings>;
+
+// Thresholds are fractions; the multipliers may raise confidence up to 2x
+const FRACTION_FIELDS: Array<keyof ReconciliationPolicySettings> = [
+  'minConfidence',
+  'varianceThreshold',
+  'highVarianceThreshold',
+];
+
+/**
+ * Check policy settings from a request, filling anything left out from
+ * `base`. Returns an error message when a value is out of range.
+ */
+export function parsePolicySettings(
+  input: Record<string, unknown>,
+  base: ReconciliationPolicySettings = DEFAULT_RECONCILIATION_POLICY
+): { settings: ReconciliationPolicySettings } | { error: string } {
+  const settings = Object.fromEntries(
+    POLICY_FIELDS.map(field => [field, base[field]])
+  ) as ReconciliationPolicySettings;
+
+  for (const field of POLICY_FIELDS) {
+    if (input[field] === undefined) continue;
+
+    const value = Number(input[field]);
+    const max = FRACTION_FIELDS.includes(field) ? 1 : 2;
+    if (isNaN(value) || value < 0 || value > max) {
+      return { error: `${field} must be a number between 0 and ${max}` };
+    }
+    settings[field] = value;
+  }
+
+  if (settings.highVarianceThreshold < settings.varianceThreshold) {
+    return { error: 'highVarianceThreshold must not be below varianceThreshold' };
+  }
+  return { settings };
+}
+
+/** Fields whose values differ between two policies */
+export function policyChanges(
+  from: ReconciliationPolicy,
+  to: ReconciliationPolicy
+): Array<{ field: keyof ReconciliationPolicySettings; from: number; to: number }> {
+  return POLICY_FIELDS
+    .filter(field => from[field] !== to[field])
+    .map(field => ({ field, from: from[field], to: to[field] }));
+}
+
+function toPolicy(row: { version: number; settings: Partial<ReconciliationPolicySettings> }): ReconciliationPolicy {
+  // Settings added after a version was saved take their defaults
+  return { ...DEFAULT_RECONCILIATION_POLICY, ...row.settings, version: Number(row.version) };
+}
+
+/** The firm's current policy, or the default when none has been saved */
+export async function loadReconciliationPolicy(sql: postgres.Sql): Promise<ReconciliationPolicy> {
+  const [row] = await sql`
+    SELECT version, settings FROM reconciliation_policies ORDER BY version DESC LIMIT 1
+  `;
+  return row ? toPolicy({ version: row.version, settings: row.settings }) : DEFAULT_RECONCILIATION_POLICY;
+}
+
+export async function loadReconciliationPolicyVersion(
+  sql: postgres.Sql,
+  version: number
+): Promise<ReconciliationPolicy | null> {
+  if (version === 0) return DEFAULT_RECONCILIATION_POLICY;
+
+  const [row] = await sql`
+    SELECT version, settings FROM reconciliation_policies WHERE version = ${version}
+  `;
+  return row ? toPolicy({ version: row.version, settings: row.settings }) : null;
+}
+
+/** Save new settings as the next policy version */
+export async function saveReconciliationPolicy(
+  sql: postgres.Sql,
+  settings: ReconciliationPolicySettings,
+  updatedBy: string | null
+): Promise<ReconciliationPolicy> {
+  const [latest] = await sql`SELECT COALESCE(MAX(version), 0) AS version FROM reconciliation_policies`;
+  const version = Number(latest.version) + 1;
+
+  await sql`
+    INSERT INTO reconciliation_policies (version, settings, updated_by, created_at)
+    VALUES (${version}, ${JSON.stringify(settings)}, ${updatedBy}, NOW())
+  `;
+  return { ...settings, version };
+}
@@ -17,18 +17,15 @@ import type {
   ReconciledIncomeSource,
   CaseIncomeSummary,
   IncomeEvidence,
+  ReconciliationDecision,
+  ReconciliationRule,
 } from './types';
 import {
   groupByEmployerAndYear,
   getBestEmployerName,
   getEmployerEIN,
 } from './employer-matching';
-
-/**
- * Variance thresholds for reconciliation
- */
-const VARIANCE_THRESHOLD = 0.10;        // 10% - sources match closely
-const HIGH_VARIANCE_THRESHOLD = 0.20;   // 20% - triggers conflict status
+import { DEFAULT_RECONCILIATION_POLICY, type ReconciliationPolicy } from './policy';
 
 /**
  * Source priority for determining the "best" source when there's conflict.
@@ -135,6 +132,56 @@ function generateResolutionSuggestion(
   return 'Review documents to confirm amounts. Minor variance may be due to rounding or timing differences.';
 }
 
+/**
+ * Key identifying a reconciled source across runs
+ */
+export function reconciledSourceKey(source: { employerName: string; incomeType: string; incomeYear: number }): string {
+  return `${source.employerName.trim().toLowerCase()}|${source.incomeType}|${source.incomeYear}`;
+}
+
+function formatPercent(fraction: number): string {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
+
+/**
+ * Explain a decision in terms of the policy thresholds it was measured against
+ */
+function describeDecision(
+  rule: ReconciliationRule,
+  variance: number | null,
+  policy: ReconciliationPolicy,
+  annualType: string | null
+): string {
+  const varianceText = variance === null ? '' : ` (${formatPercent(variance)})`;
+  const within = `within the ${formatPercent(policy.varianceThreshold)} tolerance`;
+  const between = `between the ${formatPercent(policy.varianceThreshold)} and ${formatPercent(policy.highVarianceThreshold)} thresholds`;
+  const over = `over the ${formatPercent(policy.highVarianceThreshold)} conflict threshold`;
+  const cutoff = `the ${policy.minConfidence} confidence cutoff`;
+
+  switch (rule) {
+    case 'annual_corroborated':
+      return `${annualType} used; annualized periodic documents are ${within}${varianceText}`;
+    case 'annual_review':
+      return `${annualType} used; annualized periodic documents differ ${between}${varianceText}`;
+    case 'annual_conflict':
+      return `${annualType} used; annualized periodic documents differ ${over}${varianceText}`;
+    case 'annual_only':
+      return `${annualType} used as the only document, checked against ${cutoff}`;
+    case 'single_document':
+      return `Only one document, checked against ${cutoff}`;
+    case 'periodic_match':
+      return `Average of documents ${within}${varianceText}`;
+    case 'periodic_review':
+      return `Highest-priority document used; documents differ ${between}${varianceText}`;
+    case 'periodic_conflict':
+      return `Highest-priority document used; documents differ ${over}${varianceText}`;
+    case 'net_corroborated':
+      return `Pay stub gross used; bank deposits match its net pay ${within}${varianceText}`;
+    case 'no_documents':
+      return 'No documents to reconcile';
+  }
+}
+
 /**
  * Reconcile a group of income records from the same employer AND year
  *
@@ -147,8 +194,9 @@ function generateResolutionSuggestion(
 function reconcileEmployerYearGroup(
   caseId: string,
   group: NormalizedIncome[],
-  incomeYear: number
-): ReconciledIncomeSource {
+  incomeYear: number,
+  policy: ReconciliationPolicy
+): { source: ReconciledIncomeSource; decision: ReconciliationDecision } {
   // Separate annual documents from periodic documents
   const annualDocs = group.filter(g => g.isAnnualDocument);
   const periodicDocs = group.filter(g => !g.isAnnualDocument);
@@ -164,7 +212,10 @@ function reconcileEmployerYearGroup(
   let verifiedAnnualNet: number | null = null;
   let determinationMethod: ReconciledIncomeSource['determinationMethod'];
   let confidence: number;
-  let notes: string[] = [];
+  let rule: ReconciliationRule;
+  let variance: number | null = null;
+  let basis: NormalizedIncome[];
+  const notes: string[] = [];
 
   // CASE 1: We have an annual document (W-2, tax return, 1099)
   if (annualDocs.length > 0) {
@@ -173,6 +224,7 @@ function reconcileEmployerYearGroup(
     verifiedAnnualGross = annualDoc.annualizedGross;
     verifiedAnnualNet = annualDoc.annualizedNet ?? null;
     confidence = annualDoc.confidence;
+    basis = [annualDoc];
 
     if (periodicDocs.length > 0) {
       // Compare annualized periodic docs against the annual doc
@@ -182,35 +234,40 @@ function reconcileEmployerYearGroup(
         : 0;
 
       if (periodicMean > 0) {
-        const variance = Math.abs(verifiedAnnualGross - periodicMean) / Math.max(verifiedAnnualGross, periodicMean);
+        variance = Math.abs(verifiedAnnualGross - periodicMean) / Math.max(verifiedAnnualGross, periodicMean);
 
-        if (variance <= VARIANCE_THRESHOLD) {
+        if (variance <= policy.varianceThreshold) {
           // Pay stubs corroborate W-2 - high confidence!
           status = 'verified';
           determinationMethod = 'multi_source_match';
-          confidence = Math.min(1.0, confidence * 1.15);
+          rule = 'annual_corroborated';
+          confidence = Math.min(1.0, confidence * policy.corroborationBoost);
           notes.push(`${annualDoc.documentType.toUpperCase()} corroborated by ${periodicDocs.length} periodic document(s)`);
-        } else if (variance <= HIGH_VARIANCE_THRESHOLD) {
+        } else if (variance <= policy.highVarianceThreshold) {
           // Moderate variance - W-2 is still authoritative but flag for review
           status = 'needs_review';
           determinationMethod = 'multi_source_averaged';
+          rule = 'annual_review';
           notes.push(`${annualDoc.documentType.toUpperCase()} differs from annualized pay stubs by ${(variance * 100).toFixed(1)}%`);
         } else {
           // Large variance - flag as conflict
           status = 'conflict';
           determinationMethod = 'multi_source_averaged';
-          confidence *= 0.7;
+          rule = 'annual_conflict';
+          confidence *= policy.annualConflictFactor;
           notes.push(`Large variance (${(variance * 100).toFixed(1)}%) between ${annualDoc.documentType.toUpperCase()} and pay stubs`);
         }
       } else {
         // No valid periodic amounts to compare
-        status = annualDoc.confidence >= 0.7 ? 'verified' : 'needs_review';
+        status = annualDoc.confidence >= policy.minConfidence ? 'verified' : 'needs_review';
         determinationMethod = 'single_source';
+        rule = 'annual_only';
       }
     } else {
       // Only annual document(s), no periodic docs to corroborate
-      status = annualDoc.confidence >= 0.7 ? 'verified' : 'needs_review';
+      status = annualDoc.confidence >= policy.minConfidence ? 'verified' : 'needs_review';
       determinationMethod = 'single_source';
+      rule = 'annual_only';
       notes.push(`Based on ${annualDoc.documentType.toUpperCase()} only`);
     }
   }
@@ -231,31 +288,39 @@ function reconcileEmployerYearGroup(
       // Single source
       verifiedAnnualGross = periodicDocs[0].annualizedGross || 0;
       verifiedAnnualNet = periodicDocs[0].annualizedNet ?? null;
-      status = periodicDocs[0].confidence >= 0.7 ? 'verified' : 'needs_review';
+      status = periodicDocs[0].confidence >= policy.minConfidence ? 'verified' : 'needs_review';
       determinationMethod = 'single_source';
+      rule = 'single_document';
+      basis = periodicDocs;
       confidence = periodicDocs[0].confidence;
       if (!hasFullYearCoverage) {
         notes.push('Annualized from partial year data');
-        confidence *= 0.85;
+        confidence *= policy.partialYearFactor;
       }
-    } else if (grossStats.maxVariance <= VARIANCE_THRESHOLD) {
+    } else if (grossStats.maxVariance <= policy.varianceThreshold) {
       // Multiple sources match closely
       verifiedAnnualGross = grossStats.mean;
       verifiedAnnualNet = netStats.mean || null;
       status = 'verified';
       determinationMethod = 'multi_source_match';
-      confidence = Math.min(1.0, Math.max(...periodicDocs.map(g => g.confidence)) * 1.15);
+      rule = 'periodic_match';
+      variance = grossStats.maxVariance;
+      basis = periodicDocs;
+      confidence = Math.min(1.0, Math.max(...periodicDocs.map(g => g.confidence)) * policy.corroborationBoost);
       if (!hasFullYearCoverage) {
         notes.push('Annualized from partial year data');
       }
-    } else if (grossStats.maxVariance <= HIGH_VARIANCE_THRESHOLD) {
+    } else if (grossStats.maxVariance <= policy.highVarianceThreshold) {
       // Moderate variance - use highest priority source
       const primarySource = sorted.find(s => !s.isAnnualDocument) || sorted[0];
       verifiedAnnualGross = primarySource.annualizedGross;
       verifiedAnnualNet = primarySource.annualizedNet ?? null;
       status = 'needs_review';
       determinationMethod = 'multi_source_averaged';
-      confidence = primarySource.confidence * 0.85;
+      rule = 'periodic_review';
+      variance = grossStats.maxVariance;
+      basis = [primarySource];
+      confidence = primarySource.confidence * policy.moderateVarianceFactor;
     } else {
       // High variance - conflict
       const primarySource = sorted.find(s => !s.isAnnualDocument) || sorted[0];
@@ -263,7 +328,10 @@ function reconcileEmployerYearGroup(
       verifiedAnnualNet = primarySource.annualizedNet ?? null;
       status = 'conflict';
       determinationMethod = 'multi_source_averaged';
-      confidence = primarySource.confidence * 0.6;
+      rule = 'periodic_conflict';
+      variance = grossStats.maxVariance;
+      basis = [primarySource];
+      confidence = primarySource.confidence * policy.conflictFactor;
     }
 
     // Special case: Check if pay stub gross/bank statement net align
@@ -275,10 +343,13 @@ function reconcileEmployerYearGroup(
         const netVariance = Math.abs(paystubSource.annualizedNet - bankSource.annualizedNet) /
           Math.max(paystubSource.annualizedNet, bankSource.annualizedNet);
 
-        if (netVariance < VARIANCE_THRESHOLD) {
+        if (netVariance < policy.varianceThreshold) {
           // Net amounts align! This corroborates the pay stub gross
           status = 'verified';
-          confidence = Math.min(1.0, paystubSource.confidence * 1.1);
+          rule = 'net_corroborated';
+          variance = netVariance;
+          basis = [paystubSource, bankSource];
+          confidence = Math.min(1.0, paystubSource.confidence * policy.netCorroborationBoost);
           verifiedAnnualGross = paystubSource.annualizedGross;
           verifiedAnnualNet = paystubSource.annualizedNet;
           notes.push('Pay stub gross corroborated by bank statement net deposits');
@@ -291,6 +362,8 @@ function reconcileEmployerYearGroup(
     verifiedAnnualNet = null;
     status = 'needs_review';
     determinationMethod = 'single_source';
+    rule = 'no_documents';
+    basis = [];
     confidence = 0;
   }
 
@@ -330,11 +403,13 @@ function reconcileEmployerYearGroup(
   // Determine income type
   let incomeType: ReconciledIncomeSource['incomeType'] = 'employment';
   const firstSource = sorted[0];
-  if (firstSource.rawExtraction.documentType === '1099') {
+  if (firstSource.rawExtraction.incomeType) {
+    incomeType = firstSource.rawExtraction.incomeType;
+  } else if (firstSource.rawExtraction.documentType === '1099') {
     incomeType = 'self_employment';
   }
 
-  return {
+  const source: ReconciledIncomeSource = {
     id: generateId(),
     caseId,
     employerName,
@@ -353,20 +428,35 @@ function reconcileEmployerYearGroup(
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
+
+  const annualType = annualDocs.length > 0 ? annualDocs[0].documentType.toUpperCase() : null;
+  return {
+    source,
+    decision: {
+      sourceKey: reconciledSourceKey(source),
+      employerName,
+      incomeType,
+      incomeYear,
+      rule,
+      variance,
+      basisDocumentIds: basis.map(b => b.documentId),
+      documentIds: group.map(g => g.documentId),
+      verifiedAnnualGross,
+      status,
+      confidence: source.confidence,
+      reason: describeDecision(rule, variance, policy, annualType),
+    },
+  };
 }
 
 /**
- * Calculate summary totals from reconciled sources
- *
- * For the means test, we use the most recent year's income for each employer.
- * If the same employer has income for multiple years, only the most recent counts.
+ * The most recent year's source for each employer, which the summary
+ * totals count
  */
-function calculateSummary(
-  caseId: string,
-  sources: ReconciledIncomeSource[]
-): CaseIncomeSummary {
-  // Group sources by employer to get only the most recent year per employer
-  const employerLatest = new Map<string, ReconciledIncomeSource>();
+export function latestSourcePerEmployer<T extends Pick<ReconciledIncomeSource, 'employerName' | 'employerEIN' | 'incomeYear'>>(
+  sources: T[]
+): T[] {
+  const employerLatest = new Map<string, T>();
 
   for (const source of sources) {
     const key = source.employerEIN || source.employerName.toLowerCase();
@@ -376,9 +466,21 @@ function calculateSummary(
       employerLatest.set(key, source);
     }
   }
+  return Array.from(employerLatest.values());
+}
 
+/**
+ * Calculate summary totals from reconciled sources
+ *
+ * For the means test, we use the most recent year's income for each employer.
+ * If the same employer has income for multiple years, only the most recent counts.
+ */
+function calculateSummary(
+  caseId: string,
+  sources: ReconciledIncomeSource[]
+): CaseIncomeSummary {
   // Calculate totals using only the most recent year per employer
-  const latestSources = Array.from(employerLatest.values());
+  const latestSources = latestSourcePerEmployer(sources);
   const totalAnnualGross = latestSources.reduce((sum, s) => sum + s.verifiedAnnualGross, 0);
   const totalMonthlyGross = totalAnnualGross / 12;
 
@@ -409,18 +511,23 @@ function calculateSummary(
 export interface ReconciliationInput {
   caseId: string;
   normalizedIncomes: NormalizedIncome[];
+  /** Defaults to DEFAULT_RECONCILIATION_POLICY */
+  policy?: ReconciliationPolicy;
 }
 
 export interface ReconciliationOutput {
   sources: ReconciledIncomeSource[];
   summary: CaseIncomeSummary;
+  /** Why each source has its figure, in the same order as sources */
+  decisions: ReconciliationDecision[];
 }
 
 export function reconcileIncome(input: ReconciliationInput): ReconciliationOutput {
-  const { caseId, normalizedIncomes } = input;
+  const { caseId, normalizedIncomes, policy = DEFAULT_RECONCILIATION_POLICY } = input;
 
   if (normalizedIncomes.length === 0) {
     return {
+      decisions: [],
       sources: [],
       summary: {
         caseId,
@@ -440,27 +547,27 @@ export function reconcileIncome(input: ReconciliationInput): ReconciliationOutpu
   const employerYearGroups = groupByEmployerAndYear(normalizedIncomes);
 
   // Reconcile each employer-year group
-  const sources: ReconciledIncomeSource[] = [];
+  const reconciled: Array<{ source: ReconciledIncomeSource; decision: ReconciliationDecision }> = [];
 
   for (const [employerKey, yearMap] of employerYearGroups) {
     for (const [year, group] of yearMap) {
-      const reconciled = reconcileEmployerYearGroup(caseId, group, year);
-      sources.push(reconciled);
+      reconciled.push(reconcileEmployerYearGroup(caseId, group, year, policy));
     }
   }
 
   // Sort by year (most recent first), then by employer
-  sources.sort((a, b) => {
+  reconciled.sort(({ source: a }, { source: b }) => {
     if (a.incomeYear !== b.incomeYear) {
       return b.incomeYear - a.incomeYear; // Most recent first
     }
     return a.employerName.localeCompare(b.employerName);
   });
+  const sources = reconciled.map(r => r.source);
 
   // Calculate totals (using the most recent year for each employer for current income)
   const summary = calculateSummary(caseId, sources);
 
-  return { sources, summary };
+  return { sources, summary, decisions: reconciled.map(r => r.decision) };
 }
 
 /**
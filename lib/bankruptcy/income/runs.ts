@@ -0,0 +1,333 @@
+/**
+ * Reconciliation Runs
+ *
+ * Every reconciliation of a case is recorded with the extractions it read,
+ * the policy version it ran under, the decision behind each source, and
+ * what changed since the previous run. A recorded run can be replayed,
+ * under its own policy or another version, and the change in current
+ * monthly income between two runs explained source by source.
+ *
+ * Runs record what the engine produced. Reviewer overrides are kept on the
+ * reconciled sources themselves and are not part of a run.
+ */
+
+import type postgres from 'postgres';
+import { createNormalizedIncome } from './normalization';
+import { latestSourcePerEmployer, reconcileIncome, reconciledSourceKey, type ReconciliationOutput } from './reconciliation';
+import { policyChanges, type ReconciliationPolicy } from './policy';
+import type { RawIncomeExtraction, ReconciledIncomeSource, ReconciliationDecision } from './types';
+
+export type ReconciliationRunTrigger = 'api' | 'document_processing';
+
+/** A reconciled source as a run records it */
+export type RunSource = Pick<
+  ReconciledIncomeSource,
+  'employerName' | 'employerEIN' | 'incomeType' | 'incomeYear' | 'verifiedAnnualGross' | 'verifiedMonthlyGross' | 'status' | 'confidence'
+> & { sourceKey: string };
+
+/** The figures of a run or a replay, as compared between runs */
+export interface RunSnapshot {
+  sources: RunSource[];
+  decisions: ReconciliationDecision[];
+  currentMonthlyIncome: number;
+}
+
+export interface RunSourceChange {
+  sourceKey: string;
+  employerName: string;
+  incomeYear: number;
+  change: 'added' | 'removed' | 'changed';
+  before: { verifiedAnnualGross: number; status: ReconciledIncomeSource['status']; reason: string | null } | null;
+  after: { verifiedAnnualGross: number; status: ReconciledIncomeSource['status']; reason: string | null } | null;
+}
+
+export interface ReconciliationRunDiff {
+  previousRunId: string | null;
+  cmiBefore: number | null;
+  cmiAfter: number;
+  sources: RunSourceChange[];
+}
+
+export interface ReconciliationRun extends RunSnapshot {
+  id: string;
+  caseId: string;
+  trigger: ReconciliationRunTrigger;
+  policy: ReconciliationPolicy;
+  inputs: RawIncomeExtraction[];
+  diff: ReconciliationRunDiff;
+  createdAt: string;
+}
+
+export interface CmiContributionChange {
+  employerName: string;
+  /** Monthly gross counted before and after */
+  before: number;
+  after: number;
+  change: number;
+  reason: string;
+}
+
+/** Why current monthly income differs between two runs */
+export interface CmiChangeExplanation {
+  cmiBefore: number;
+  cmiAfter: number;
+  change: number;
+  policyChanges: ReturnType<typeof policyChanges>;
+  documentsAdded: string[];
+  documentsRemoved: string[];
+  contributions: CmiContributionChange[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function snapshotOf(output: ReconciliationOutput): RunSnapshot {
+  return {
+    sources: output.sources.map(source => ({
+      sourceKey: reconciledSourceKey(source),
+      employerName: source.employerName,
+      employerEIN: source.employerEIN ?? null,
+      incomeType: source.incomeType,
+      incomeYear: source.incomeYear,
+      verifiedAnnualGross: roundCents(source.verifiedAnnualGross),
+      verifiedMonthlyGross: roundCents(source.verifiedMonthlyGross),
+      status: source.status,
+      confidence: source.confidence,
+    })),
+    decisions: output.decisions,
+    currentMonthlyIncome: roundCents(output.summary.currentMonthlyIncome),
+  };
+}
+
+/**
+ * Sources added, removed, or given a different figure or status between
+ * two runs
+ */
+export function diffRunSnapshots(
+  previous: (RunSnapshot & { id?: string }) | null,
+  next: RunSnapshot
+): ReconciliationRunDiff {
+  const reasonOf = (snapshot: RunSnapshot, key: string) =>
+    snapshot.decisions.find(decision => decision.sourceKey === key)?.reason ?? null;
+  const stateOf = (snapshot: RunSnapshot, source: RunSource) => ({
+    verifiedAnnualGross: source.verifiedAnnualGross,
+    status: source.status,
+    reason: reasonOf(snapshot, source.sourceKey),
+  });
+
+  const before = new Map((previous?.sources ?? []).map(source => [source.sourceKey, source]));
+  const after = new Map(next.sources.map(source => [source.sourceKey, source]));
+  const changes: RunSourceChange[] = [];
+
+  for (const [key, source] of after) {
+    const old = before.get(key);
+    if (!old) {
+      changes.push({
+        sourceKey: key,
+        employerName: source.employerName,
+        incomeYear: source.incomeYear,
+        change: 'added',
+        before: null,
+        after: stateOf(next, source),
+      });
+    } else if (old.verifiedAnnualGross !== source.verifiedAnnualGross || old.status !== source.status) {
+      changes.push({
+        sourceKey: key,
+        employerName: source.employerName,
+        incomeYear: source.incomeYear,
+        change: 'changed',
+        before: stateOf(previous!, old),
+        after: stateOf(next, source),
+      });
+    }
+  }
+  for (const [key, old] of before) {
+    if (after.has(key)) continue;
+    changes.push({
+      sourceKey: key,
+      employerName: old.employerName,
+      incomeYear: old.incomeYear,
+      change: 'removed',
+      before: stateOf(previous!, old),
+      after: null,
+    });
+  }
+
+  return {
+    previousRunId: previous?.id ?? null,
+    cmiBefore: previous ? previous.currentMonthlyIncome : null,
+    cmiAfter: next.currentMonthlyIncome,
+    sources: changes,
+  };
+}
+
+/** Reconcile a run's recorded extractions again under the given policy */
+export function replayReconciliation(
+  run: Pick<ReconciliationRun, 'caseId' | 'inputs'>,
+  policy: ReconciliationPolicy
+): ReconciliationOutput {
+  const normalizedIncomes = run.inputs.map((extraction, idx) => createNormalizedIncome(extraction, `norm_${idx}`));
+  return reconcileIncome({ caseId: run.caseId, normalizedIncomes, policy });
+}
+
+/**
+ * Attribute the change in current monthly income between two runs to the
+ * employers whose counted figure moved, with the decision behind each
+ */
+export function explainCmiChange(
+  from: RunSnapshot & { policy: ReconciliationPolicy; inputs: RawIncomeExtraction[] },
+  to: RunSnapshot & { policy: ReconciliationPolicy; inputs: RawIncomeExtraction[] }
+): CmiChangeExplanation {
+  const employerKey = (source: RunSource) => source.employerEIN || source.employerName.toLowerCase();
+  const counted = (snapshot: RunSnapshot) =>
+    new Map(latestSourcePerEmployer(snapshot.sources).map(source => [employerKey(source), source]));
+  const before = counted(from);
+  const after = counted(to);
+
+  const contributions: CmiContributionChange[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const old = before.get(key);
+    const current = after.get(key);
+    const change = roundCents((current?.verifiedMonthlyGross ?? 0) - (old?.verifiedMonthlyGross ?? 0));
+    if (change === 0) continue;
+
+    const decision = current && to.decisions.find(d => d.sourceKey === current.sourceKey);
+    let reason: string;
+    if (!current) {
+      reason = 'No longer found in the documents reconciled';
+    } else if (!old) {
+      reason = `Newly reconciled: ${decision?.reason ?? current.status}`;
+    } else if (old.incomeYear !== current.incomeYear) {
+      reason = `Now counted from ${current.incomeYear} instead of ${old.incomeYear}: ${decision?.reason ?? current.status}`;
+    } else {
+      reason = `${formatMoney(old.verifiedAnnualGross)} to ${formatMoney(current.verifiedAnnualGross)} a year: ${decision?.reason ?? current.status}`;
+    }
+
+    contributions.push({
+      employerName: (current ?? old)!.employerName,
+      before: old?.verifiedMonthlyGross ?? 0,
+      after: current?.verifiedMonthlyGross ?? 0,
+      change,
+      reason,
+    });
+  }
+
+  const documentIds = (inputs: RawIncomeExtraction[]) => new Set(inputs.map(input => input.documentId));
+  const fromDocuments = documentIds(from.inputs);
+  const toDocuments = documentIds(to.inputs);
+
+  return {
+    cmiBefore: from.currentMonthlyIncome,
+    cmiAfter: to.currentMonthlyIncome,
+    change: roundCents(to.currentMonthlyIncome - from.currentMonthlyIncome),
+    policyChanges: policyChanges(from.policy, to.policy),
+    documentsAdded: [...toDocuments].filter(id => !fromDocuments.has(id)),
+    documentsRemoved: [...fromDocuments].filter(id => !toDocuments.has(id)),
+    contributions: contributions.sort((a, b) => Math.abs(b.change) - Math.abs(a.change)),
+  };
+}
+
+function toRun(row: Record<string, unknown>): ReconciliationRun {
+  return {
+    id: String(row.id),
+    caseId: String(row.case_id),
+    trigger: row.trigger as ReconciliationRunTrigger,
+    policy: row.policy as ReconciliationPolicy,
+    inputs: row.inputs as RawIncomeExtraction[],
+    sources: row.sources as RunSource[],
+    decisions: row.decisions as ReconciliationDecision[],
+    currentMonthlyIncome: Number(row.current_monthly_income),
+    diff: row.diff as ReconciliationRunDiff,
+    createdAt: new Date(row.created_at as string).toISOString(),
+  };
+}
+
+export async function loadReconciliationRun(
+  sql: postgres.Sql,
+  caseId: string,
+  runId: string
+): Promise<ReconciliationRun | null> {
+  const [row] = await sql`
+    SELECT * FROM reconciliation_runs WHERE id = ${runId} AND case_id = ${caseId}
+  `;
+  return row ? toRun(row) : null;
+}
+
+export async function loadLatestReconciliationRun(sql: postgres.Sql, caseId: string): Promise<ReconciliationRun | null> {
+  const [row] = await sql`
+    SELECT * FROM reconciliation_runs WHERE case_id = ${caseId} ORDER BY created_at DESC LIMIT 1
+  `;
+  return row ? toRun(row) : null;
+}
+
+/** A case's runs, newest first, without their recorded inputs */
+export async function listReconciliationRuns(sql: postgres.Sql, caseId: string) {
+  const rows = await sql`
+    SELECT id, trigger, policy_version, current_monthly_income, diff, created_at
+    FROM reconciliation_runs
+    WHERE case_id = ${caseId}
+    ORDER BY created_at DESC
+  `;
+  return rows.map(row => ({
+    id: row.id as string,
+    trigger: row.trigger as ReconciliationRunTrigger,
+    policyVersion: Number(row.policy_version),
+    currentMonthlyIncome: Number(row.current_monthly_income),
+    diff: row.diff as ReconciliationRunDiff,
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+/** Record a run with its changes since the case's previous run */
+export async function saveReconciliationRun(
+  sql: postgres.Sql,
+  caseId: string,
+  run: {
+    trigger: ReconciliationRunTrigger;
+    policy: ReconciliationPolicy;
+    inputs: RawIncomeExtraction[];
+    output: ReconciliationOutput;
+  }
+): Promise<ReconciliationRun> {
+  const previous = await loadLatestReconciliationRun(sql, caseId);
+  const snapshot = snapshotOf(run.output);
+  const diff = diffRunSnapshots(previous, snapshot);
+  const id = `recrun_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+  const [row] = await sql`
+    INSERT INTO reconciliation_runs (
+      id, case_id, trigger, policy_version, policy, inputs, sources, decisions,
+      current_monthly_income, diff, previous_run_id, created_at
+    ) VALUES (
+      ${id},
+      ${caseId},
+      ${run.trigger},
+      ${run.policy.version},
+      ${JSON.stringify(run.policy)},
+      ${JSON.stringify(run.inputs)},
+      ${JSON.stringify(snapshot.sources)},
+      ${JSON.stringify(snapshot.decisions)},
+      ${snapshot.currentMonthlyIncome},
+      ${JSON.stringify(diff)},
+      ${previous?.id ?? null},
+      NOW()
+    )
+    RETURNING created_at
+  `;
+
+  return {
+    ...snapshot,
+    id,
+    caseId,
+    trigger: run.trigger,
+    policy: run.policy,
+    inputs: run.inputs,
+    diff,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
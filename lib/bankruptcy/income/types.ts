@@ -53,6 +53,9 @@ export interface RawIncomeExtraction {
   hoursWorked?: number | null;
   hourlyRate?: number | null;
 
+  /** Kind of income when the document says (e.g. a 1099-R is a pension) */
+  incomeType?: ReconciledIncomeSource['incomeType'] | null;
+
   /** Extraction confidence from LLM (0-1) */
   extractionConfidence: number;
 
@@ -167,6 +170,41 @@ export interface ReconciledIncomeSource {
   verifiedBy?: string | null;
 }
 
+export type ReconciliationRule =
+  | 'annual_corroborated'
+  | 'annual_review'
+  | 'annual_conflict'
+  | 'annual_only'
+  | 'single_document'
+  | 'periodic_match'
+  | 'periodic_review'
+  | 'periodic_conflict'
+  | 'net_corroborated'
+  | 'no_documents';
+
+/**
+ * Why a reconciled source has the figure and status it has, under the
+ * policy in effect for the run.
+ */
+export interface ReconciliationDecision {
+  /** Employer, income type, and year; stable across runs */
+  sourceKey: string;
+  employerName: string;
+  incomeType: ReconciledIncomeSource['incomeType'];
+  incomeYear: number;
+  rule: ReconciliationRule;
+  /** Variance compared against the policy thresholds, when documents were compared */
+  variance: number | null;
+  /** Documents the figure was taken from */
+  basisDocumentIds: string[];
+  /** All documents considered */
+  documentIds: string[];
+  verifiedAnnualGross: number;
+  status: ReconciledIncomeSource['status'];
+  confidence: number;
+  reason: string;
+}
+
 /**
  * Aggregate income for a case, used in means test.
  */
@@ -9,17 +9,28 @@ import {
   Form106IData,
   Form106JData,
   Form106ABData,
+  Form106CData,
   Form106DData,
   Form106EFData,
+  Form106GData,
+  Form106HData,
+  Form106SumData,
+  Form106DecData,
+  Form107Data,
   Form122AData,
   AllFormsData,
 } from './form-mapper';
+import { HOMESTEAD_ACQUISITION_CAP } from './exemptions';
+import { formatMatrixEntry, type CreditorMatrix } from './creditor-matrix';
 
 export interface GeneratedForm {
   formId: string;
   formName: string;
   filename: string;
   blob: Blob;
+  /** 'acroform' when filled from an official template, 'generated' when drawn with jsPDF */
+  source?: 'acroform' | 'generated';
+  warnings?: string[];
 }
 
 // PDF styling constants
@@ -237,6 +248,25 @@ export function generateForm106I(data: Form106IData): GeneratedForm {
     y += 20;
   }
 
+  // Business Income (Line 8a statement)
+  if (data.businessStatements.length > 0) {
+    ({ y, pageNum } = checkNewPage(doc, y, 'Form 106I'));
+    y = addSectionTitle(doc, 'Line 8a: Net Income from Operating a Business', y + 20);
+
+    const colWidths = [168, 100, 100, 100];
+    y = addTableRow(doc, ['Business', 'Gross Receipts', 'Expenses', 'Net Income'], colWidths, y, true);
+
+    data.businessStatements.forEach(business => {
+      ({ y, pageNum } = checkNewPage(doc, y, 'Form 106I'));
+      y = addTableRow(doc, [
+        business.businessName,
+        formatCurrency(business.grossReceipts),
+        formatCurrency(business.expenses),
+        formatCurrency(business.netIncome),
+      ], colWidths, y);
+    });
+  }
+
   // Other Income
   ({ y, pageNum } = checkNewPage(doc, y, 'Form 106I'));
   y = addSectionTitle(doc, 'Part 2: Other Income', y + 20);
@@ -298,6 +328,7 @@ export function generateForm106J(data: Form106JData): GeneratedForm {
   const expenseItems = [
     { label: 'Rent or Mortgage', value: data.expenses.rent },
     { label: 'Utilities (Electric, Gas, Water, etc.)', value: data.expenses.utilities },
+    { label: 'Telephone, Cell Phone, and Internet', value: data.expenses.telecommunications },
     { label: 'Food', value: data.expenses.food },
     { label: 'Clothing', value: data.expenses.clothing },
     { label: 'Transportation', value: data.expenses.transportation },
@@ -307,6 +338,8 @@ export function generateForm106J(data: Form106JData): GeneratedForm {
     { label: 'Entertainment', value: data.expenses.entertainment },
     { label: 'Taxes (Not deducted from paycheck)', value: data.expenses.taxes },
     { label: 'Insurance', value: data.expenses.insurance },
+    { label: 'Life Insurance', value: data.expenses.lifeInsurance },
+    { label: 'Alimony and Support Payments', value: data.expenses.supportPayments },
     { label: 'Installment Payments', value: data.expenses.debtPayments },
     { label: 'Other Expenses', value: data.expenses.other },
   ];
@@ -443,6 +476,99 @@ export function generateForm106AB(data: Form106ABData): GeneratedForm {
   };
 }
 
+// Generate Form 106C - Exempt Property
+export function generateForm106C(data: Form106CData): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  let y = MARGINS.top;
+  let pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text('Schedule C: The Property You Claim as Exempt', PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, 'Form 106C', pageNum);
+
+  // Case Info
+  y = addField(doc, 'Debtor Name:', data.debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', data.caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 24;
+
+  // Part 1: Exemption system
+  y = addSectionTitle(doc, 'Part 1: Identify the Property You Claim as Exempt', y + 10);
+
+  doc.setFontSize(FONT_SIZE.normal);
+  doc.text(
+    data.exemptionSystem === 'federal'
+      ? `[X] You are claiming federal exemptions. ${data.exemptionSystemCitation}`
+      : `[X] You are claiming state and federal nonbankruptcy exemptions. ${data.exemptionSystemCitation}`,
+    MARGINS.left,
+    y
+  );
+  y += 16;
+  doc.text(`Exemption law applied: ${data.schemeName}`, MARGINS.left, y);
+  y += 24;
+
+  if (data.claims.length > 0) {
+    const colWidths = [160, 40, 84, 84, 100];
+    y = addTableRow(doc, ['Property', 'A/B Line', 'Value', 'Exemption', 'Law'], colWidths, y, true);
+
+    data.claims.forEach(claim => {
+      ({ y, pageNum } = checkNewPage(doc, y, 'Form 106C'));
+      y = addTableRow(doc, [
+        claim.propertyDescription,
+        claim.scheduleABLine,
+        formatCurrency(claim.currentValue),
+        formatCurrency(claim.exemptionAmount),
+        claim.statute,
+      ], colWidths, y);
+    });
+  } else if (data.scheduleStatus === 'not_supported') {
+    doc.text(
+      `The ${data.domicileState} exemption schedule is not yet supported; list the claimed property manually.`,
+      MARGINS.left,
+      y
+    );
+    y += 20;
+  } else {
+    doc.text('No property claimed as exempt.', MARGINS.left, y);
+    y += 20;
+  }
+
+  // Homestead question (Part 1, line 3)
+  ({ y, pageNum } = checkNewPage(doc, y, 'Form 106C'));
+  y += 20;
+  doc.setFontSize(FONT_SIZE.normal);
+  doc.text(
+    `Are you claiming a homestead exemption of more than ${formatCurrency(HOMESTEAD_ACQUISITION_CAP)}? ${data.claimsHomesteadOverCap ? 'Yes' : 'No'}`,
+    MARGINS.left,
+    y
+  );
+
+  // Total
+  y += 30;
+  doc.line(MARGINS.left, y, PAGE_WIDTH - MARGINS.right, y);
+  y += 20;
+
+  doc.setFont('times', 'bold');
+  doc.setFontSize(FONT_SIZE.subtitle);
+  doc.text(`Total Claimed as Exempt: ${formatCurrency(data.totalExempt)}`, MARGINS.left, y);
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'form106C',
+    formName: data.formName,
+    filename: 'Form_106C_Schedule_C_Exemptions.pdf',
+    blob,
+    warnings: data.warnings,
+  };
+}
+
 // Generate Form 106D - Secured Claims
 export function generateForm106D(data: Form106DData): GeneratedForm {
   const doc = new jsPDF({
@@ -590,6 +716,384 @@ export function generateForm106EF(data: Form106EFData): GeneratedForm {
   };
 }
 
+// Generate Form 106G - Executory Contracts and Unexpired Leases
+export function generateForm106G(data: Form106GData): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  let y = MARGINS.top;
+  let pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text('Schedule G: Executory Contracts and Unexpired Leases', PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, 'Form 106G', pageNum);
+
+  // Case Info
+  y = addField(doc, 'Debtor Name:', data.debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', data.caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 24;
+
+  // Line 1
+  doc.setFontSize(FONT_SIZE.normal);
+  doc.text('1. Do you have any executory contracts or unexpired leases?', MARGINS.left, y);
+  y += 14;
+  doc.setFont('times', 'bold');
+  doc.text(data.contracts.length > 0 ? '[X] Yes' : '[X] No', MARGINS.left + 10, y);
+  doc.setFont('times', 'normal');
+  y += 24;
+
+  if (data.contracts.length > 0) {
+    // Line 2
+    y = addSectionTitle(doc, '2. Person or Company With Whom You Have the Contract or Lease', y);
+
+    const colWidths = [130, 150, 80, 108];
+    y = addTableRow(doc, ['Counterparty', 'What the Contract Is For', 'Type', 'Payment / Expires'], colWidths, y, true);
+
+    data.contracts.forEach(contract => {
+      ({ y, pageNum } = checkNewPage(doc, y, 'Form 106G'));
+      y = addTableRow(doc, [
+        contract.counterpartyName,
+        contract.description,
+        contract.contractType,
+        `${contract.monthlyPayment > 0 ? `${formatCurrency(contract.monthlyPayment)}/mo` : ''}${contract.expirationDate ? ` ${contract.expirationDate}` : ''}`.trim(),
+      ], colWidths, y);
+      if (contract.counterpartyAddress) {
+        doc.setFontSize(FONT_SIZE.small);
+        doc.text(contract.counterpartyAddress.substring(0, 90), MARGINS.left + 2, y - 4);
+        y += 10;
+      }
+    });
+  }
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'form106G',
+    formName: data.formName,
+    filename: 'Form_106G_Schedule_G_Contracts_Leases.pdf',
+    blob,
+  };
+}
+
+// Generate Form 106H - Codebtors
+export function generateForm106H(data: Form106HData): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  let y = MARGINS.top;
+  let pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text('Schedule H: Your Codebtors', PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, 'Form 106H', pageNum);
+
+  // Case Info
+  y = addField(doc, 'Debtor Name:', data.debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', data.caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 24;
+
+  doc.setFontSize(FONT_SIZE.normal);
+  doc.text('1. Do you have any codebtors?', MARGINS.left, y);
+  y += 14;
+  doc.setFont('times', 'bold');
+  doc.text(data.codebtors.length > 0 ? '[X] Yes' : '[X] No', MARGINS.left + 10, y);
+  doc.setFont('times', 'normal');
+  y += 20;
+
+  doc.text(
+    '2. Within the last 8 years, have you lived in a community property state or territory?',
+    MARGINS.left,
+    y
+  );
+  y += 14;
+  doc.setFont('times', 'bold');
+  doc.text(
+    data.livedInCommunityPropertyState
+      ? `[X] Yes (${data.communityPropertyStates.join(', ')})`
+      : '[X] No',
+    MARGINS.left + 10,
+    y
+  );
+  doc.setFont('times', 'normal');
+  y += 24;
+
+  if (data.codebtors.length > 0) {
+    y = addSectionTitle(doc, '3. People or Entities Who May Be Liable With You', y);
+
+    const colWidths = [130, 150, 130, 58];
+    y = addTableRow(doc, ['Codebtor', 'Address', 'Creditor', 'Schedule'], colWidths, y, true);
+
+    data.codebtors.forEach(codebtor => {
+      ({ y, pageNum } = checkNewPage(doc, y, 'Form 106H'));
+      y = addTableRow(doc, [
+        codebtor.relationship ? `${codebtor.name} (${codebtor.relationship})` : codebtor.name,
+        codebtor.address,
+        codebtor.creditorName,
+        codebtor.schedule,
+      ], colWidths, y);
+    });
+  }
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'form106H',
+    formName: data.formName,
+    filename: 'Form_106H_Schedule_H_Codebtors.pdf',
+    blob,
+  };
+}
+
+// Generate Form 106Sum - Summary of Assets and Liabilities
+export function generateForm106Sum(data: Form106SumData): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  let y = MARGINS.top;
+  const pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text('Summary of Your Assets and Liabilities', PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 16;
+  doc.setFontSize(FONT_SIZE.subtitle);
+  doc.text('and Certain Statistical Information', PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, 'Form 106Sum', pageNum);
+
+  // Case Info
+  y = addField(doc, 'Debtor Name:', data.debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', data.caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 14;
+
+  const colWidths = [368, 100];
+  const row = (label: string, amount: number) => {
+    y = addTableRow(doc, [label, formatCurrency(amount)], colWidths, y);
+  };
+
+  // Part 1: Assets
+  y = addSectionTitle(doc, 'Part 1: Summarize Your Assets', y + 10);
+  row('1a. Real property (Schedule A/B, line 55)', data.assets.realProperty);
+  row('1b. Personal property (Schedule A/B, line 62)', data.assets.personalProperty);
+  row('1c. Total of all property on Schedule A/B', data.assets.total);
+
+  // Part 2: Liabilities
+  y = addSectionTitle(doc, 'Part 2: Summarize Your Liabilities', y + 10);
+  row('2. Claims secured by property (Schedule D)', data.liabilities.securedClaims);
+  row('3a. Priority unsecured claims (Schedule E/F, line 6e)', data.liabilities.priorityClaims);
+  row('3b. Nonpriority unsecured claims (Schedule E/F, line 6j)', data.liabilities.nonpriorityClaims);
+  row('Your total liabilities', data.liabilities.total);
+
+  // Part 3: Income and expenses
+  y = addSectionTitle(doc, 'Part 3: Summarize Your Income and Expenses', y + 10);
+  row('4. Combined monthly income (Schedule I, line 12)', data.monthlyIncome);
+  row('5. Monthly expenses (Schedule J, line 22c)', data.monthlyExpenses);
+
+  // Part 4: Statistical information
+  y = addSectionTitle(doc, 'Part 4: Answer These Questions for Administrative and Statistical Records', y + 10);
+  doc.setFontSize(FONT_SIZE.normal);
+  doc.text('6. Are you filing for bankruptcy under Chapter 7, 11, or 13? Yes', MARGINS.left, y);
+  y += 14;
+  doc.text(
+    `7. Do you have primarily consumer debts? ${data.primarilyConsumerDebts ? 'Yes' : 'No'}`,
+    MARGINS.left,
+    y
+  );
+  y += 20;
+
+  if (data.primarilyConsumerDebts) {
+    row('8. Current monthly income (Form 122A-1, line 11)', data.currentMonthlyIncome);
+    y += 6;
+    doc.setFontSize(FONT_SIZE.normal);
+    doc.text('9. Certain categories of claims from Schedule E/F:', MARGINS.left, y);
+    y += 16;
+    row('9a. Domestic support obligations', data.certainClaims.domesticSupport);
+    row('9b. Taxes and certain other debts owed to the government', data.certainClaims.taxes);
+    row('9d. Student loans', data.certainClaims.studentLoans);
+    row('9g. Total', data.certainClaims.total);
+  }
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'form106Sum',
+    formName: data.formName,
+    filename: 'Form_106Sum_Summary_Assets_Liabilities.pdf',
+    blob,
+  };
+}
+
+// Generate Form 106Dec - Declaration About Schedules
+export function generateForm106Dec(data: Form106DecData): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  let y = MARGINS.top;
+  const pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text("Declaration About an Individual Debtor's Schedules", PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, 'Form 106Dec', pageNum);
+
+  // Case Info
+  y = addField(doc, 'Debtor Name:', data.debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', data.caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 24;
+
+  doc.setFontSize(FONT_SIZE.normal);
+  doc.text(
+    'Did you pay or agree to pay someone who is NOT an attorney to help you fill out bankruptcy forms?',
+    MARGINS.left,
+    y
+  );
+  y += 14;
+  doc.setFont('times', 'bold');
+  doc.text(data.usedNonAttorneyPreparer ? '[X] Yes' : '[X] No', MARGINS.left + 10, y);
+  doc.setFont('times', 'normal');
+  y += 28;
+
+  const declaration: string[] = doc.splitTextToSize(
+    'Under penalty of perjury, I declare that I have read the summary and schedules filed with this declaration and that they are true and correct.',
+    CONTENT_WIDTH
+  );
+  declaration.forEach(line => {
+    doc.text(line, MARGINS.left, y);
+    y += 14;
+  });
+  y += 10;
+
+  doc.setFontSize(FONT_SIZE.small);
+  doc.text('Schedules covered by this declaration:', MARGINS.left, y);
+  y += 14;
+  data.schedules.forEach(schedule => {
+    doc.text(`- ${schedule}`, MARGINS.left + 10, y);
+    y += 12;
+  });
+
+  // Signature lines
+  y += 40;
+  doc.line(MARGINS.left, y, MARGINS.left + 200, y);
+  doc.line(MARGINS.left + 260, y, MARGINS.left + 360, y);
+  y += 12;
+  doc.text(`Signature of Debtor 1 (${data.debtorName})`, MARGINS.left, y);
+  doc.text('Date', MARGINS.left + 260, y);
+
+  if (data.spouseName) {
+    y += 40;
+    doc.line(MARGINS.left, y, MARGINS.left + 200, y);
+    doc.line(MARGINS.left + 260, y, MARGINS.left + 360, y);
+    y += 12;
+    doc.text(`Signature of Debtor 2 (${data.spouseName})`, MARGINS.left, y);
+    doc.text('Date', MARGINS.left + 260, y);
+  }
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'form106Dec',
+    formName: data.formName,
+    filename: 'Form_106Dec_Declaration_Schedules.pdf',
+    blob,
+  };
+}
+
+// Generate Form 107 - Statement of Financial Affairs
+export function generateForm107(data: Form107Data): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  let y = MARGINS.top;
+  let pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text('Statement of Financial Affairs for Individuals', PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, 'Form 107', pageNum);
+
+  // Case Info
+  y = addField(doc, 'Debtor Name:', data.debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', data.caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 14;
+
+  let currentPart = 0;
+  data.questions.forEach(question => {
+    ({ y, pageNum } = checkNewPage(doc, y, 'Form 107'));
+
+    if (question.part !== currentPart) {
+      currentPart = question.part;
+      y = addSectionTitle(doc, `Part ${question.part}: ${question.partTitle}`, y + 10);
+    }
+
+    // Question text, wrapped to the content width
+    doc.setFontSize(FONT_SIZE.normal);
+    const lines: string[] = doc.splitTextToSize(`${question.questions}. ${question.prompt}`, CONTENT_WIDTH);
+    lines.forEach(line => {
+      doc.text(line, MARGINS.left, y);
+      y += 12;
+    });
+
+    doc.setFont('times', 'bold');
+    doc.text(
+      question.answer === 'yes' ? '[X] Yes' : question.answer === 'no' ? '[X] No' : '[ ] No  [ ] Yes  (not answered)',
+      MARGINS.left + 10,
+      y + 2
+    );
+    doc.setFont('times', 'normal');
+    y += 18;
+
+    if (question.rows.length > 0) {
+      const colWidth = CONTENT_WIDTH / question.columns.length;
+      const colWidths = question.columns.map(() => colWidth);
+      y = addTableRow(doc, question.columns, colWidths, y, true);
+
+      question.rows.forEach(row => {
+        ({ y, pageNum } = checkNewPage(doc, y, 'Form 107'));
+        y = addTableRow(doc, row, colWidths, y);
+      });
+      y += 6;
+    }
+  });
+
+  if (data.unansweredCount > 0) {
+    ({ y, pageNum } = checkNewPage(doc, y, 'Form 107'));
+    y += 10;
+    doc.setFontSize(FONT_SIZE.normal);
+    doc.setFont('times', 'bold');
+    doc.text(`${data.unansweredCount} question(s) have not been answered.`, MARGINS.left, y);
+  }
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'form107',
+    formName: data.formName,
+    filename: 'Form_107_Statement_of_Financial_Affairs.pdf',
+    blob,
+  };
+}
+
 // Generate Form 122A - Means Test
 export function generateForm122A(data: Form122AData): GeneratedForm {
   const doc = new jsPDF({
@@ -676,15 +1180,131 @@ export function generateForm122A(data: Form122AData): GeneratedForm {
   };
 }
 
+// Generate the creditor matrix with its verification statement
+export function generateCreditorMatrixVerification(
+  matrix: CreditorMatrix,
+  debtorName: string,
+  caseNumber: string,
+  spouseName?: string
+): GeneratedForm {
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+  });
+
+  const formName = 'Verification of Creditor Matrix';
+  let y = MARGINS.top;
+  let pageNum = 1;
+
+  // Header
+  doc.setFontSize(FONT_SIZE.title);
+  doc.setFont('times', 'bold');
+  doc.text(formName, PAGE_WIDTH / 2, y, { align: 'center' });
+  y += 30;
+
+  addHeader(doc, formName, pageNum);
+
+  y = addField(doc, 'Debtor Name:', debtorName, MARGINS.left, y, 200);
+  y = addField(doc, 'Case Number:', caseNumber || 'Pending', MARGINS.left + 250, y - 24, 150);
+  y += 16;
+
+  doc.setFontSize(FONT_SIZE.normal);
+  const statement: string[] = doc.splitTextToSize(
+    `The above-named debtor${spouseName ? 's' : ''} hereby verif${spouseName ? 'y' : 'ies'} that the attached list of creditors is true and correct to the best of ${spouseName ? 'their' : 'the debtor\'s'} knowledge.`,
+    CONTENT_WIDTH
+  );
+  statement.forEach(line => {
+    doc.text(line, MARGINS.left, y);
+    y += 14;
+  });
+
+  // Signature lines
+  const signers = spouseName ? [debtorName, spouseName] : [debtorName];
+  signers.forEach((name, i) => {
+    y += 36;
+    doc.line(MARGINS.left, y, MARGINS.left + 200, y);
+    doc.line(MARGINS.left + 260, y, MARGINS.left + 360, y);
+    y += 12;
+    doc.setFontSize(FONT_SIZE.small);
+    doc.text(`Signature of Debtor ${i + 1} (${name})`, MARGINS.left, y);
+    doc.text('Date', MARGINS.left + 260, y);
+  });
+
+  // Matrix listing, two columns of fixed-width entries
+  doc.addPage();
+  pageNum += 1;
+  addHeader(doc, formName, pageNum);
+  y = addSectionTitle(doc, 'Creditor Matrix', MARGINS.top);
+
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(FONT_SIZE.small);
+  const columnX = [MARGINS.left, MARGINS.left + CONTENT_WIDTH / 2];
+  let column = 0;
+  let rowTop = y;
+  let rowHeight = 0;
+
+  for (const entry of matrix.entries) {
+    const formatted = formatMatrixEntry(entry);
+    if (!formatted) continue;
+
+    const height = formatted.lines.length * 10 + 12;
+    if (column === 0 && rowTop + height > PAGE_HEIGHT - MARGINS.bottom) {
+      doc.addPage();
+      pageNum += 1;
+      addHeader(doc, formName, pageNum);
+      doc.setFont('courier', 'normal');
+      doc.setFontSize(FONT_SIZE.small);
+      rowTop = MARGINS.top;
+    }
+
+    formatted.lines.forEach((line, i) => {
+      doc.text(line, columnX[column], rowTop + i * 10);
+    });
+    rowHeight = Math.max(rowHeight, height);
+
+    if (column === 1) {
+      rowTop += rowHeight;
+      rowHeight = 0;
+    }
+    column = column === 0 ? 1 : 0;
+  }
+
+  doc.setFont('times', 'normal');
+
+  const blob = doc.output('blob');
+  return {
+    formId: 'creditorMatrix',
+    formName,
+    filename: 'Creditor_Matrix_Verification.pdf',
+    blob,
+    source: 'generated',
+  };
+}
+
+// Generators keyed by form, in filing order
+export const FORM_GENERATORS: { [K in keyof AllFormsData]: (data: AllFormsData[K]) => GeneratedForm } = {
+  form101: generateForm101,
+  form106I: generateForm106I,
+  form106J: generateForm106J,
+  form106AB: generateForm106AB,
+  form106C: generateForm106C,
+  form106D: generateForm106D,
+  form106EF: generateForm106EF,
+  form106G: generateForm106G,
+  form106H: generateForm106H,
+  form106Sum: generateForm106Sum,
+  form106Dec: generateForm106Dec,
+  form107: generateForm107,
+  form122A: generateForm122A,
+};
+
 // Generate all forms
 export function generateAllForms(formsData: AllFormsData): GeneratedForm[] {
-  return [
-    generateForm101(formsData.form101),
-    generateForm106I(formsData.form106I),
-    generateForm106J(formsData.form106J),
-    generateForm106AB(formsData.form106AB),
-    generateForm106D(formsData.form106D),
-    generateForm106EF(formsData.form106EF),
-    generateForm122A(formsData.form122A),
-  ];
+  return (Object.keys(FORM_GENERATORS) as Array<keyof AllFormsData>).map(key =>
+    generateFormFor(key, formsData)
+  );
+}
+
+function generateFormFor<K extends keyof AllFormsData>(key: K, formsData: AllFormsData): GeneratedForm {
+  return { ...FORM_GENERATORS[key](formsData[key]), source: 'generated' };
 }
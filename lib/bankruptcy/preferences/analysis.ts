@@ -0,0 +1,325 @@
+/**
+ * Preference and Insider Payment Analysis
+ *
+ * Matches statement payments to the case's creditors and insiders and
+ * measures them against the Form 107 look-back periods: $600 or more to
+ * one creditor in the 90 days before filing (question 6), any payment to
+ * or for the benefit of an insider in the year before filing (questions
+ * 7-8), and single transfers at or above the § 547(c)(9) amount.
+ */
+
+import { parseStatementTransactions } from '../../transactions/parse';
+import type {
+  CardStatement,
+  CreditorPaymentFinding,
+  Insider,
+  InsiderPaymentFinding,
+  LookbackWindow,
+  PaymentEvidence,
+  PreferenceDebt,
+  PreferenceInput,
+  PreferenceReport,
+  PreferenceRisk,
+  PreferenceSofaSuggestions,
+} from './types';
+
+export const PREFERENCE_LOOKBACK_DAYS = 90;
+export const INSIDER_LOOKBACK_DAYS = 365;
+
+// Form 107 question 6 for debtors with primarily consumer debts
+export const CREDITOR_PAYMENT_THRESHOLD = 600;
+
+// § 547(c)(9), adjusted every three years under § 104
+export const PREFERENCE_THRESHOLDS: Array<{ effectiveFrom: string; amount: number }> = [
+  { effectiveFrom: '2019-04-01', amount: 6825 },
+  { effectiveFrom: '2022-04-01', amount: 7575 },
+  { effectiveFrom: '2025-04-01', amount: 8575 },
+];
+
+// Card payments matched to a bank debit this many days apart are the same payment
+const DUPLICATE_PAYMENT_DAYS = 5;
+
+// Statements ending this long before filing leave the latest payments unchecked
+const STALE_STATEMENT_DAYS = 30;
+
+// Relationships that make a codebtor an insider under § 101(31)
+const INSIDER_RELATIONSHIPS = /spouse|husband|wife|parent|mother|father|mom|dad|child|son|daughter|sibling|brother|sister|grand|aunt|uncle|niece|nephew|cousin|in-law|step|relative|partner|officer|director/i;
+
+// Words in creditor names that statement descriptions leave out
+const CREDITOR_NOISE = new Set([
+  'THE', 'OF', 'AND', 'BANK', 'NA', 'USA', 'FSB', 'INC', 'LLC', 'LTD', 'LP', 'CORP', 'CORPORATION', 'CO', 'COMPANY',
+  'FINANCIAL', 'SERVICES', 'SERVICING', 'CARD', 'CARDS', 'CREDIT',
+]);
+
+const CARD_PAYMENT = /\b(payment|pymt|pmt)\b/i;
+const CARD_CHARGE = /\b(fee|interest|charge)\b/i;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+}
+
+function words(text: string): string[] {
+  return text.toUpperCase().replace(/[^A-Z0-9&]+/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+export function lookbackWindow(filingDate: string, days: number): LookbackWindow {
+  return { from: addDays(filingDate, -days), to: filingDate };
+}
+
+const inWindow = (payment: PaymentEvidence, window: LookbackWindow) =>
+  payment.postedDate >= window.from && payment.postedDate < window.to;
+
+/**
+ * § 547(c)(9) amount in effect on a filing date
+ */
+export function preferenceThreshold(filingDate: string): number {
+  const current = PREFERENCE_THRESHOLDS.filter(entry => entry.effectiveFrom <= filingDate).pop();
+  return (current ?? PREFERENCE_THRESHOLDS[0]).amount;
+}
+
+export function isInsiderRelationship(relationship: string | null | undefined): boolean {
+  return !!relationship && INSIDER_RELATIONSHIPS.test(relationship);
+}
+
+/**
+ * Whether a statement description names the creditor. The first two
+ * distinctive words of the name (or of either side of "Synchrony/Amazon")
+ * must appear, or the account's last four digits.
+ */
+export function creditorMatches(description: string, debt: Pick<PreferenceDebt, 'creditorName' | 'accountLast4'>): boolean {
+  const described = new Set(words(description));
+  if (debt.accountLast4 && described.has(debt.accountLast4)) return true;
+
+  return debt.creditorName.split('/').some(name => {
+    const required = words(name).filter(word => word.length > 1 && !CREDITOR_NOISE.has(word)).slice(0, 2);
+    return required.length > 0 && required.every(word => described.has(word));
+  });
+}
+
+/**
+ * Whether a statement description names the insider, by first and last name
+ */
+export function insiderMatches(description: string, insider: Pick<Insider, 'name'>): boolean {
+  const described = new Set(words(description));
+  const name = words(insider.name).filter(word => word.length > 1);
+  const required = name.length > 1 ? [name[0], name[name.length - 1]] : name;
+  return required.length > 0 && required.every(word => described.has(word));
+}
+
+/**
+ * Payments printed on a card statement, attributed to the card's issuer:
+ * the debt extracted from the statement, or one named in its heading
+ */
+export function cardStatementPayments(
+  statement: CardStatement,
+  debts: PreferenceDebt[]
+): { debt: PreferenceDebt; payments: PaymentEvidence[]; dates: string[] } | null {
+  const heading = statement.text.split('\n').slice(0, 15).join(' ');
+  const debt = debts.find(d => d.documentId === statement.documentId)
+    ?? debts.find(d => creditorMatches(heading, { creditorName: d.creditorName, accountLast4: null }));
+  if (!debt) return null;
+
+  const lines = parseStatementTransactions(statement.text);
+  const payments = lines
+    .filter(line => CARD_PAYMENT.test(line.description) && !CARD_CHARGE.test(line.description))
+    .map((line, index) => ({
+      id: `${statement.documentId}:${index}`,
+      source: 'card_statement' as const,
+      documentId: statement.documentId,
+      accountLast4: debt.accountLast4,
+      postedDate: line.postedDate,
+      description: line.description,
+      amount: Math.abs(line.amount),
+    }));
+
+  return { debt, payments, dates: lines.map(line => line.postedDate) };
+}
+
+function total(payments: PaymentEvidence[]): number {
+  return roundCents(payments.reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+const byDate = (a: PaymentEvidence, b: PaymentEvidence) => a.postedDate.localeCompare(b.postedDate);
+
+export function analyzePreferences(input: PreferenceInput): PreferenceReport {
+  const { filingDate, debts, insiders } = input;
+  const preferenceWindow = lookbackWindow(filingDate, PREFERENCE_LOOKBACK_DAYS);
+  const insiderWindow = lookbackWindow(filingDate, INSIDER_LOOKBACK_DAYS);
+  const transferThreshold = preferenceThreshold(filingDate);
+  const gaps: string[] = [];
+
+  // Attribute each bank debit to an insider first, then to a listed creditor
+  const paidInsider = new Map<string, PaymentEvidence[]>();
+  const paidDebt = new Map<string, PaymentEvidence[]>();
+  const attribute = (map: Map<string, PaymentEvidence[]>, key: string, payment: PaymentEvidence) =>
+    map.set(key, [...(map.get(key) ?? []), payment]);
+
+  for (const payment of input.bankPayments) {
+    const insider = insiders.find(candidate => insiderMatches(payment.description, candidate));
+    if (insider) {
+      attribute(paidInsider, insider.id, payment);
+      continue;
+    }
+    const debt = debts.find(candidate => creditorMatches(payment.description, candidate));
+    if (debt) attribute(paidDebt, debt.id, payment);
+  }
+
+  const dates = [input.bankCoverage?.from, input.bankCoverage?.to].filter((date): date is string => !!date);
+  const cardPayments: PaymentEvidence[] = [];
+
+  for (const statement of input.cardStatements) {
+    const read = cardStatementPayments(statement, debts);
+    if (!read) {
+      gaps.push(`Card statement ${statement.documentId} does not match a listed debt; its payments are not checked`);
+      continue;
+    }
+
+    dates.push(...read.dates);
+    const fromBank = paidDebt.get(read.debt.id) ?? [];
+    for (const payment of read.payments) {
+      const duplicate = fromBank.some(
+        bankPayment => bankPayment.amount === payment.amount
+          && daysBetween(bankPayment.postedDate, payment.postedDate) <= DUPLICATE_PAYMENT_DAYS
+      );
+      if (duplicate) continue;
+      attribute(paidDebt, read.debt.id, payment);
+      cardPayments.push(payment);
+    }
+  }
+
+  const creditorPayments: CreditorPaymentFinding[] = debts.flatMap(debt => {
+    const payments = (paidDebt.get(debt.id) ?? []).filter(payment => inWindow(payment, preferenceWindow)).sort(byDate);
+    const paid = total(payments);
+    if (paid < CREDITOR_PAYMENT_THRESHOLD) return [];
+    return [{
+      debtId: debt.id,
+      creditorName: debt.creditorName,
+      creditorAddress: debt.creditorAddress,
+      debtType: debt.debtType,
+      amountStillOwed: debt.balance,
+      total: paid,
+      payments,
+    }];
+  });
+
+  const insiderPayments: InsiderPaymentFinding[] = insiders.flatMap(insider => {
+    const findings: InsiderPaymentFinding[] = [];
+
+    const paid = (paidInsider.get(insider.id) ?? []).filter(payment => inWindow(payment, insiderWindow)).sort(byDate);
+    if (paid.length > 0) {
+      findings.push({
+        insiderId: insider.id,
+        insiderName: insider.name,
+        relationship: insider.relationship,
+        basis: 'paid_insider',
+        debtId: null,
+        creditorName: null,
+        amountStillOwed: null,
+        total: total(paid),
+        payments: paid,
+      });
+    }
+
+    const debt = insider.debtId ? debts.find(candidate => candidate.id === insider.debtId) : undefined;
+    const benefited = debt
+      ? (paidDebt.get(debt.id) ?? []).filter(payment => inWindow(payment, insiderWindow)).sort(byDate)
+      : [];
+    if (debt && benefited.length > 0) {
+      findings.push({
+        insiderId: insider.id,
+        insiderName: insider.name,
+        relationship: insider.relationship,
+        basis: 'benefited_insider',
+        debtId: debt.id,
+        creditorName: debt.creditorName,
+        amountStillOwed: debt.balance,
+        total: total(benefited),
+        payments: benefited,
+      });
+    }
+
+    return findings;
+  });
+
+  const largeTransfers = [...input.bankPayments, ...cardPayments]
+    .filter(payment => inWindow(payment, preferenceWindow) && payment.amount >= transferThreshold)
+    .sort(byDate);
+
+  dates.sort();
+  const coverage = dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+
+  if (!coverage) {
+    gaps.unshift('No bank or card statements on file; payments before filing cannot be checked');
+  } else {
+    if (coverage.from > preferenceWindow.from) {
+      gaps.unshift(`Statements on file start ${coverage.from}; the 90-day look-back begins ${preferenceWindow.from}`);
+    } else if (coverage.from > insiderWindow.from && insiders.length > 0) {
+      gaps.unshift(`Statements on file start ${coverage.from}; the 1-year insider look-back begins ${insiderWindow.from}`);
+    }
+    if (coverage.to < addDays(filingDate, -STALE_STATEMENT_DAYS)) {
+      gaps.push(`Statements on file end ${coverage.to}; later payments before ${filingDate} are not checked`);
+    }
+  }
+
+  let risk: PreferenceRisk = 'none';
+  if (creditorPayments.length > 0 || insiderPayments.length > 0) risk = 'review';
+  if (largeTransfers.length > 0 || insiderPayments.some(finding => finding.basis === 'paid_insider')) risk = 'high';
+
+  return {
+    filingDate,
+    filingDateEstimated: input.filingDateEstimated,
+    preferenceWindow,
+    insiderWindow,
+    creditorThreshold: CREDITOR_PAYMENT_THRESHOLD,
+    transferThreshold,
+    coverage,
+    creditorPayments,
+    insiderPayments,
+    largeTransfers,
+    risk,
+    gaps,
+  };
+}
+
+const PAYMENT_REASONS: Record<string, string> = {
+  mortgage: 'mortgage',
+  auto_loan: 'car',
+  credit_card: 'credit_card',
+  personal_loan: 'loan_repayment',
+  student_loan: 'loan_repayment',
+};
+
+const paymentDates = (payments: PaymentEvidence[]) => [...new Set(payments.map(payment => payment.postedDate))].join(', ');
+
+/**
+ * SOFA entries for questions 6-8 from a report's findings
+ */
+export function preferenceSofaSuggestions(report: PreferenceReport): PreferenceSofaSuggestions {
+  return {
+    creditor_payments: report.creditorPayments.map(finding => ({
+      creditorName: finding.creditorName,
+      creditorAddress: finding.creditorAddress,
+      paymentDates: paymentDates(finding.payments),
+      totalPaid: finding.total,
+      amountStillOwed: finding.amountStillOwed,
+      reason: PAYMENT_REASONS[finding.debtType] ?? 'other',
+    })),
+    insider_payments: report.insiderPayments.map(finding => ({
+      insiderName: finding.insiderName,
+      relationship: finding.relationship,
+      paymentDates: paymentDates(finding.payments),
+      totalPaid: finding.total,
+      amountStillOwed: finding.amountStillOwed,
+      reason: finding.basis === 'benefited_insider'
+        ? `Payment to ${finding.creditorName} on a debt ${finding.insiderName} is also liable for`
+        : null,
+    })),
+  };
+}
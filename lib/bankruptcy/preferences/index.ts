@@ -0,0 +1,41 @@
+/**
+ * Preference and Insider Payments
+ *
+ * Look-back analysis of statement payments for Form 107 questions 6-8
+ * and transfers a trustee could recover under § 547.
+ */
+
+// Analysis
+export {
+  CREDITOR_PAYMENT_THRESHOLD,
+  INSIDER_LOOKBACK_DAYS,
+  PREFERENCE_LOOKBACK_DAYS,
+  PREFERENCE_THRESHOLDS,
+  analyzePreferences,
+  cardStatementPayments,
+  creditorMatches,
+  insiderMatches,
+  isInsiderRelationship,
+  lookbackWindow,
+  preferenceSofaSuggestions,
+  preferenceThreshold,
+} from './analysis';
+
+// Loading
+export { loadInsiders, loadPreferenceInput } from './store';
+
+export type {
+  CardStatement,
+  CreditorPaymentFinding,
+  Insider,
+  InsiderPaymentFinding,
+  LookbackWindow,
+  PaymentEvidence,
+  PaymentSource,
+  PreferenceDebt,
+  PreferenceInput,
+  PreferenceReport,
+  PreferenceRisk,
+  PreferenceSofaSuggestions,
+  SofaSuggestion,
+} from './types';
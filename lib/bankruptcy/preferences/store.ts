@@ -0,0 +1,161 @@
+/**
+ * Preference Analysis Loading
+ *
+ * Gathers what the analyzer needs for a case: its filing date, debts,
+ * insiders, the bank statement ledger, and the OCR text of card
+ * statements and of bank statements the ledger does not yet cover.
+ */
+
+import type postgres from 'postgres';
+import { loadFieldCipher } from '../../db/field-encryption';
+import { parseStatementTransactions } from '../../transactions/parse';
+import { loadCaseTransactions } from '../../transactions/store';
+import { isInsiderRelationship } from './analysis';
+import type { CardStatement, Insider, PaymentEvidence, PreferenceDebt, PreferenceInput } from './types';
+
+async function tableExists(sql: postgres.Sql, name: string): Promise<boolean> {
+  const [table] = await sql`SELECT to_regclass(${name}) AS name`;
+  return !!table?.name;
+}
+
+async function loadDebts(sql: postgres.Sql, caseId: string): Promise<PreferenceDebt[]> {
+  if (!(await tableExists(sql, 'debts'))) return [];
+
+  const rows = await sql`
+    SELECT id, document_id, creditor_name, creditor_address, account_last4, balance, debt_type
+    FROM debts
+    WHERE case_id = ${caseId}
+    ORDER BY balance DESC
+  `;
+  return rows.map(row => ({
+    id: row.id,
+    documentId: row.document_id,
+    creditorName: row.creditor_name,
+    creditorAddress: row.creditor_address,
+    accountLast4: row.account_last4,
+    balance: Number(row.balance),
+    debtType: row.debt_type,
+  }));
+}
+
+/**
+ * The case's insider list plus codebtors whose relationship makes them
+ * insiders
+ */
+export async function loadInsiders(sql: postgres.Sql, caseId: string): Promise<Insider[]> {
+  const insiders: Insider[] = [];
+
+  if (await tableExists(sql, 'case_insiders')) {
+    const rows = await sql`
+      SELECT id, name, relationship FROM case_insiders
+      WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+    insiders.push(...rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      relationship: row.relationship,
+      source: 'insider_list' as const,
+      debtId: null,
+    })));
+  }
+
+  if (await tableExists(sql, 'codebtors')) {
+    const rows = await sql`
+      SELECT id, debt_id, name, relationship FROM codebtors
+      WHERE case_id = ${caseId}
+      ORDER BY created_at
+    `;
+    insiders.push(...rows
+      .filter(row => isInsiderRelationship(row.relationship))
+      .map(row => ({
+        id: row.id,
+        name: row.name,
+        relationship: row.relationship,
+        source: 'codebtor' as const,
+        debtId: row.debt_id,
+      })));
+  }
+
+  return insiders;
+}
+
+/**
+ * Everything the analyzer reads for a case, or null when the case does
+ * not exist
+ */
+export async function loadPreferenceInput(
+  sql: postgres.Sql,
+  caseId: string,
+  today: Date = new Date()
+): Promise<PreferenceInput | null> {
+  const [caseRow] = await sql`
+    SELECT to_char(filing_date, 'YYYY-MM-DD') as "filingDate"
+    FROM bankruptcy_cases
+    WHERE id = ${caseId}
+  `;
+  if (!caseRow) return null;
+
+  const ledger = await loadCaseTransactions(sql, caseId);
+  const ledgerDocuments = new Set(ledger.map(transaction => transaction.documentId));
+  const bankPayments: PaymentEvidence[] = ledger
+    .filter(transaction => transaction.amount < 0)
+    .map(transaction => ({
+      id: transaction.id,
+      source: 'bank_statement',
+      documentId: transaction.documentId,
+      accountLast4: transaction.accountLast4,
+      postedDate: transaction.postedDate,
+      description: transaction.description,
+      amount: -transaction.amount,
+    }));
+  const dates = ledger.map(transaction => transaction.postedDate);
+
+  const documents = (await tableExists(sql, 'case_documents'))
+    ? await sql`
+        SELECT id, document_type, ocr_text
+        FROM case_documents
+        WHERE case_id = ${caseId}
+          AND document_type IN ('bank_statement', 'credit_card')
+          AND ocr_text IS NOT NULL
+        ORDER BY uploaded_at
+      `
+    : [];
+
+  const cipher = await loadFieldCipher(sql);
+  const cardStatements: CardStatement[] = [];
+  for (const doc of documents) {
+    const text = cipher.decrypt(doc.ocr_text as string);
+    if (doc.document_type === 'credit_card') {
+      cardStatements.push({ documentId: doc.id, text });
+      continue;
+    }
+    // Statements extracted before the ledger existed are read from their text
+    if (ledgerDocuments.has(doc.id)) continue;
+    parseStatementTransactions(text).forEach((line, index) => {
+      dates.push(line.postedDate);
+      if (line.amount >= 0) return;
+      bankPayments.push({
+        id: `${doc.id}:${index}`,
+        source: 'bank_statement',
+        documentId: doc.id,
+        accountLast4: null,
+        postedDate: line.postedDate,
+        description: line.description,
+        amount: -line.amount,
+      });
+    });
+  }
+
+  dates.sort();
+
+  return {
+    filingDate: caseRow.filingDate ?? today.toISOString().slice(0, 10),
+    filingDateEstimated: !caseRow.filingDate,
+    debts: await loadDebts(sql, caseId),
+    insiders: await loadInsiders(sql, caseId),
+    bankPayments,
+    bankCoverage: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+    cardStatements,
+  };
+}
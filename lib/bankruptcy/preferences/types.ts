@@ -0,0 +1,120 @@
+/**
+ * Preference and Insider Payment Types
+ */
+
+export type PaymentSource = 'bank_statement' | 'card_statement';
+
+/** A statement line that moved money to someone before filing */
+export interface PaymentEvidence {
+  /** Ledger row id, or documentId:line for payments read from card statements */
+  id: string;
+  source: PaymentSource;
+  documentId: string | null;
+  accountLast4: string | null;
+  postedDate: string; // YYYY-MM-DD
+  description: string;
+  /** Amount paid, always positive */
+  amount: number;
+}
+
+export interface PreferenceDebt {
+  id: string;
+  documentId: string | null;
+  creditorName: string;
+  creditorAddress: string | null;
+  accountLast4: string | null;
+  balance: number;
+  debtType: string;
+}
+
+export interface Insider {
+  /** case_insiders row id, or codebtor id for codebtors treated as insiders */
+  id: string;
+  name: string;
+  relationship: string;
+  source: 'insider_list' | 'codebtor';
+  /** Debt the insider is also liable for (codebtors only) */
+  debtId: string | null;
+}
+
+/** A card statement whose payments go to the card issuer */
+export interface CardStatement {
+  documentId: string;
+  text: string;
+}
+
+export interface PreferenceInput {
+  /** Petition date, or today while the case is unfiled (YYYY-MM-DD) */
+  filingDate: string;
+  filingDateEstimated: boolean;
+  debts: PreferenceDebt[];
+  insiders: Insider[];
+  /** Debits from the bank statement ledger */
+  bankPayments: PaymentEvidence[];
+  /** First and last dates in the bank statement ledger */
+  bankCoverage: { from: string; to: string } | null;
+  cardStatements: CardStatement[];
+}
+
+export interface LookbackWindow {
+  from: string; // first day inside the window
+  to: string; // filing date, exclusive
+}
+
+/** Form 107 question 6: a creditor paid $600 or more in the 90 days */
+export interface CreditorPaymentFinding {
+  debtId: string;
+  creditorName: string;
+  creditorAddress: string | null;
+  debtType: string;
+  amountStillOwed: number;
+  total: number;
+  payments: PaymentEvidence[];
+}
+
+/**
+ * Form 107 questions 7-8: payments to an insider, or on a debt an
+ * insider is also liable for, in the year before filing
+ */
+export interface InsiderPaymentFinding {
+  insiderId: string;
+  insiderName: string;
+  relationship: string;
+  basis: 'paid_insider' | 'benefited_insider';
+  /** Creditor paid when the payment benefited the insider */
+  debtId: string | null;
+  creditorName: string | null;
+  amountStillOwed: number | null;
+  total: number;
+  payments: PaymentEvidence[];
+}
+
+export type PreferenceRisk = 'none' | 'review' | 'high';
+
+export interface PreferenceReport {
+  filingDate: string;
+  /** No petition date on the case yet, so the look-back ends today */
+  filingDateEstimated: boolean;
+  preferenceWindow: LookbackWindow;
+  insiderWindow: LookbackWindow;
+  creditorThreshold: number;
+  /** § 547(c)(9) amount in effect on the filing date */
+  transferThreshold: number;
+  /** First and last statement dates on file */
+  coverage: { from: string; to: string } | null;
+  creditorPayments: CreditorPaymentFinding[];
+  insiderPayments: InsiderPaymentFinding[];
+  /** Single payments in the 90 days at or above the § 547(c)(9) amount */
+  largeTransfers: PaymentEvidence[];
+  risk: PreferenceRisk;
+  /** Look-back periods the statements on file do not cover */
+  gaps: string[];
+}
+
+/** Prefilled SOFA entries, keyed by field name as the SOFA API expects */
+export type SofaSuggestion = Record<string, string | number | null>;
+
+export interface PreferenceSofaSuggestions {
+  creditor_payments: SofaSuggestion[];
+  insider_payments: SofaSuggestion[];
+}
@@ -0,0 +1,184 @@
+/**
+ * Self-Employment Analysis
+ *
+ * Nets each business's monthly gross receipts against its ordinary and
+ * necessary business expenses. The six-month figures feed Form 122A-1
+ * Line 5 through the CMI calculation and the Schedule I Line 8a statement.
+ */
+
+import { getLookbackMonths, type IncomeRecord } from '../case-financials';
+import type { CaseTaxForm } from '../tax-forms';
+import type {
+  BusinessMonth,
+  BusinessSummary,
+  NewSelfEmploymentEntry,
+  ScheduleCImport,
+  SelfEmploymentEntry,
+  SelfEmploymentReport,
+} from './types';
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * A business's ledger month. Entries made for the month replace figures
+ * spread from a Schedule C import.
+ */
+function summarizeMonth(month: string, entries: SelfEmploymentEntry[]): BusinessMonth {
+  const entered = entries.filter(entry => !entry.taxFormId);
+  const used = entered.length > 0 ? entered : entries;
+  const expensesByCategory: BusinessMonth['expensesByCategory'] = {};
+  let grossReceipts = 0;
+  let expenses = 0;
+
+  for (const entry of used) {
+    if (entry.entryType === 'receipts') {
+      grossReceipts += entry.amount;
+      continue;
+    }
+    const category = entry.category ?? 'other';
+    expensesByCategory[category] = roundCents((expensesByCategory[category] ?? 0) + entry.amount);
+    expenses += entry.amount;
+  }
+
+  return {
+    month,
+    grossReceipts: roundCents(grossReceipts),
+    expenses: roundCents(expenses),
+    expensesByCategory,
+    netIncome: roundCents(grossReceipts - expenses),
+    fromScheduleC: entered.length === 0,
+  };
+}
+
+/**
+ * Each business's receipts and expenses over the six months before filing.
+ * Form 122A-1 Line 5 averages the net over six months and does not let a
+ * business go below zero.
+ */
+export function analyzeSelfEmployment(
+  entries: SelfEmploymentEntry[],
+  filingDate: string | null = null
+): SelfEmploymentReport {
+  const lookbackMonths = getLookbackMonths(filingDate);
+  const businessNames = [...new Set(entries.map(entry => entry.businessName))].sort();
+
+  const businesses: BusinessSummary[] = businessNames.flatMap(businessName => {
+    const months = lookbackMonths
+      .map(month => entries.filter(entry => entry.businessName === businessName && entry.entryMonth === month))
+      .filter(monthEntries => monthEntries.length > 0)
+      .map(monthEntries => summarizeMonth(monthEntries[0].entryMonth, monthEntries));
+    if (months.length === 0) return [];
+
+    const sixMonthReceipts = roundCents(months.reduce((sum, m) => sum + m.grossReceipts, 0));
+    const sixMonthExpenses = roundCents(months.reduce((sum, m) => sum + m.expenses, 0));
+
+    return [{
+      businessName,
+      months,
+      sixMonthReceipts,
+      sixMonthExpenses,
+      monthlyGrossReceipts: roundCents(sixMonthReceipts / 6),
+      monthlyExpenses: roundCents(sixMonthExpenses / 6),
+      monthlyNetIncome: roundCents(Math.max(sixMonthReceipts - sixMonthExpenses, 0) / 6),
+    }];
+  });
+
+  return {
+    filingDate,
+    lookbackMonths,
+    businesses,
+    monthlyNetIncome: roundCents(businesses.reduce((sum, b) => sum + b.monthlyNetIncome, 0)),
+    gaps: businesses.length === 0
+      ? []
+      : lookbackMonths.filter(month => !businesses.some(b => b.months.some(m => m.month === month && m.grossReceipts > 0))),
+  };
+}
+
+/**
+ * Net business income as CMI income records, one per business and month.
+ * A business that lost money over the look-back counts as zero.
+ */
+export function selfEmploymentIncomeRecords(report: SelfEmploymentReport): IncomeRecord[] {
+  return report.businesses.flatMap(business =>
+    business.months.map(month => ({
+      income_month: month.month,
+      income_source: 'self_employment',
+      gross_amount: business.monthlyNetIncome > 0 ? month.netIncome : 0,
+      document_id: null,
+      description: `${business.businessName} net business income`,
+    }))
+  );
+}
+
+/**
+ * Income records with the ledger's net figures in place of gross
+ * self-employment records for the months the ledger covers
+ */
+export function withSelfEmploymentIncome(records: IncomeRecord[], report: SelfEmploymentReport): IncomeRecord[] {
+  const ledgerMonths = new Set(report.businesses.flatMap(b => b.months.map(m => m.month)));
+  if (ledgerMonths.size === 0) return records;
+
+  return [
+    ...records.filter(record =>
+      record.income_source !== 'self_employment' || !ledgerMonths.has(record.income_month.substring(0, 7))
+    ),
+    ...selfEmploymentIncomeRecords(report),
+  ];
+}
+
+/** Saved returns with Schedule C receipts and expenses, newest first */
+export function scheduleCImports(forms: CaseTaxForm[]): ScheduleCImport[] {
+  return forms.flatMap(form => {
+    if (form.formType !== '1040' || form.businessReceipts == null) return [];
+
+    return [{
+      taxFormId: form.id,
+      taxYear: form.taxYear,
+      grossReceipts: form.businessReceipts,
+      expenses: form.businessExpenses ?? 0,
+      netProfit: form.businessIncome,
+    }];
+  }).sort((a, b) => b.taxYear - a.taxYear);
+}
+
+/** An annual amount split into twelve months, with the rounding in December */
+function monthlyShares(annual: number): number[] {
+  const share = Math.floor((annual / 12) * 100) / 100;
+  return Array.from({ length: 12 }, (_, index) => (index === 11 ? roundCents(annual - share * 11) : share));
+}
+
+/**
+ * Ledger entries spreading a Schedule C's receipts and total expenses
+ * evenly over the months of its tax year
+ */
+export function scheduleCEntries(schedule: ScheduleCImport, businessName: string): NewSelfEmploymentEntry[] {
+  const receipts = monthlyShares(schedule.grossReceipts);
+  const expenses = monthlyShares(schedule.expenses);
+
+  return receipts.flatMap((amount, index) => {
+    const entryMonth = `${schedule.taxYear}-${String(index + 1).padStart(2, '0')}`;
+    const entries: NewSelfEmploymentEntry[] = [{
+      businessName,
+      entryMonth,
+      entryType: 'receipts',
+      category: null,
+      amount,
+      description: `${schedule.taxYear} Schedule C gross receipts, monthly share`,
+      taxFormId: schedule.taxFormId,
+    }];
+    if (expenses[index] > 0) {
+      entries.push({
+        businessName,
+        entryMonth,
+        entryType: 'expense',
+        category: 'other',
+        amount: expenses[index],
+        description: `${schedule.taxYear} Schedule C total expenses, monthly share`,
+        taxFormId: schedule.taxFormId,
+      });
+    }
+    return entries;
+  });
+}
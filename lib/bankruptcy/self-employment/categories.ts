@@ -0,0 +1,23 @@
+/**
+ * Schedule C Part II expense categories, kept apart from the analysis so
+ * the entry forms can import them
+ */
+
+import type { BusinessExpenseCategory } from './types';
+
+export const BUSINESS_EXPENSE_CATEGORIES: Record<BusinessExpenseCategory, string> = {
+  advertising: 'Advertising',
+  vehicle: 'Car and truck expenses',
+  contract_labor: 'Contract labor',
+  insurance: 'Insurance',
+  professional_fees: 'Legal and professional services',
+  office: 'Office expense',
+  rent: 'Rent or lease',
+  repairs: 'Repairs and maintenance',
+  supplies: 'Supplies',
+  taxes_licenses: 'Taxes and licenses',
+  travel_meals: 'Travel and meals',
+  utilities: 'Utilities',
+  wages: 'Wages paid to employees',
+  other: 'Other expenses',
+};
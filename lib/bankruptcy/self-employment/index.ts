@@ -0,0 +1,36 @@
+/**
+ * Self-Employment Income
+ *
+ * A per-case sub-ledger of gross receipts and ordinary business expenses,
+ * netted for the CMI calculation (Form 122A-1 Line 5) and Schedule I
+ * Line 8a, with Schedule C import from saved tax returns.
+ */
+
+// Analysis
+export { BUSINESS_EXPENSE_CATEGORIES } from './categories';
+export {
+  analyzeSelfEmployment,
+  scheduleCEntries,
+  scheduleCImports,
+  selfEmploymentIncomeRecords,
+  withSelfEmploymentIncome,
+} from './analysis';
+
+// Storage
+export {
+  importScheduleC,
+  loadSelfEmploymentEntries,
+  loadSelfEmploymentReport,
+  saveSelfEmploymentMonth,
+} from './store';
+
+export type {
+  BusinessExpenseCategory,
+  BusinessMonth,
+  BusinessSummary,
+  NewSelfEmploymentEntry,
+  ScheduleCImport,
+  SelfEmploymentEntry,
+  SelfEmploymentEntryType,
+  SelfEmploymentReport,
+} from './types';
@@ -0,0 +1,105 @@
+/**
+ * Self-Employment Storage
+ *
+ * The per-case sub-ledger of monthly gross receipts and business expenses,
+ * and the import of Schedule C figures from saved tax returns.
+ */
+
+import type postgres from 'postgres';
+import { loadTaxForms } from '../tax-forms';
+import { analyzeSelfEmployment, scheduleCEntries, scheduleCImports } from './analysis';
+import type { NewSelfEmploymentEntry, SelfEmploymentEntry, SelfEmploymentReport } from './types';
+
+export async function loadSelfEmploymentEntries(sql: postgres.Sql, caseId: string): Promise<SelfEmploymentEntry[]> {
+  const [table] = await sql`SELECT to_regclass('self_employment_entries') AS name`;
+  if (!table?.name) return [];
+
+  const rows = await sql`
+    SELECT id, business_name, entry_month, entry_type, category, amount, description, tax_form_id
+    FROM self_employment_entries
+    WHERE case_id = ${caseId}
+    ORDER BY entry_month, business_name, created_at
+  `;
+  return rows.map(row => ({
+    id: row.id,
+    businessName: row.business_name,
+    entryMonth: row.entry_month,
+    entryType: row.entry_type,
+    category: row.category,
+    amount: Number(row.amount),
+    description: row.description,
+    taxFormId: row.tax_form_id,
+  }));
+}
+
+async function insertEntries(sql: postgres.Sql, caseId: string, entries: NewSelfEmploymentEntry[]): Promise<void> {
+  for (const entry of entries) {
+    const id = `se_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    await sql`
+      INSERT INTO self_employment_entries (
+        id, case_id, business_name, entry_month, entry_type,
+        category, amount, description, tax_form_id, created_at
+      ) VALUES (
+        ${id},
+        ${caseId},
+        ${entry.businessName},
+        ${entry.entryMonth},
+        ${entry.entryType},
+        ${entry.category},
+        ${entry.amount},
+        ${entry.description},
+        ${entry.taxFormId},
+        NOW()
+      )
+    `;
+  }
+}
+
+/**
+ * Save a business's receipts and expenses for one month, replacing what
+ * was entered for that month before. Imported Schedule C shares are kept
+ * but no longer counted once the month has its own entries.
+ */
+export async function saveSelfEmploymentMonth(
+  sql: postgres.Sql,
+  caseId: string,
+  businessName: string,
+  entryMonth: string,
+  entries: NewSelfEmploymentEntry[]
+): Promise<void> {
+  await sql`
+    DELETE FROM self_employment_entries
+    WHERE case_id = ${caseId}
+      AND business_name = ${businessName}
+      AND entry_month = ${entryMonth}
+      AND tax_form_id IS NULL
+  `;
+  await insertEntries(sql, caseId, entries);
+}
+
+/**
+ * Spread a saved return's Schedule C over its tax year, replacing an
+ * earlier import of the same return. Returns false when the return has
+ * no Schedule C figures.
+ */
+export async function importScheduleC(
+  sql: postgres.Sql,
+  caseId: string,
+  taxFormId: string,
+  businessName: string
+): Promise<boolean> {
+  const schedule = scheduleCImports(await loadTaxForms(sql, caseId)).find(s => s.taxFormId === taxFormId);
+  if (!schedule) return false;
+
+  await sql`DELETE FROM self_employment_entries WHERE case_id = ${caseId} AND tax_form_id = ${taxFormId}`;
+  await insertEntries(sql, caseId, scheduleCEntries(schedule, businessName));
+  return true;
+}
+
+export async function loadSelfEmploymentReport(
+  sql: postgres.Sql,
+  caseId: string,
+  filingDate: string | null
+): Promise<SelfEmploymentReport> {
+  return analyzeSelfEmployment(await loadSelfEmploymentEntries(sql, caseId), filingDate);
+}
@@ -0,0 +1,85 @@
+/**
+ * Self-Employment Types
+ */
+
+/** Ordinary and necessary business expenses, grouped as on Schedule C Part II */
+export type BusinessExpenseCategory =
+  | 'advertising'
+  | 'vehicle'
+  | 'contract_labor'
+  | 'insurance'
+  | 'professional_fees'
+  | 'office'
+  | 'rent'
+  | 'repairs'
+  | 'supplies'
+  | 'taxes_licenses'
+  | 'travel_meals'
+  | 'utilities'
+  | 'wages'
+  | 'other';
+
+export type SelfEmploymentEntryType = 'receipts' | 'expense';
+
+/** One line of a case's self-employment sub-ledger */
+export interface SelfEmploymentEntry {
+  id: string;
+  businessName: string;
+  /** YYYY-MM */
+  entryMonth: string;
+  entryType: SelfEmploymentEntryType;
+  /** Expense category; null for receipts */
+  category: BusinessExpenseCategory | null;
+  amount: number;
+  description: string | null;
+  /** The tax return the entry was imported from */
+  taxFormId: string | null;
+}
+
+export type NewSelfEmploymentEntry = Omit<SelfEmploymentEntry, 'id'>;
+
+export interface BusinessMonth {
+  month: string;
+  grossReceipts: number;
+  expenses: number;
+  expensesByCategory: Partial<Record<BusinessExpenseCategory, number>>;
+  /** Gross receipts less expenses; negative for a loss */
+  netIncome: number;
+  /** Imported from a Schedule C rather than entered for the month */
+  fromScheduleC: boolean;
+}
+
+/**
+ * One business over the CMI look-back, as reported on Form 122A-1 Line 5
+ * and in the Schedule I Line 8a statement
+ */
+export interface BusinessSummary {
+  businessName: string;
+  /** Look-back months with ledger entries, oldest first */
+  months: BusinessMonth[];
+  sixMonthReceipts: number;
+  sixMonthExpenses: number;
+  /** Six-month net divided by 6; never below zero */
+  monthlyGrossReceipts: number;
+  monthlyExpenses: number;
+  monthlyNetIncome: number;
+}
+
+export interface SelfEmploymentReport {
+  filingDate: string | null;
+  lookbackMonths: string[];
+  businesses: BusinessSummary[];
+  /** Total of the businesses' monthly net income */
+  monthlyNetIncome: number;
+  /** Look-back months without any receipts entered */
+  gaps: string[];
+}
+
+/** A return whose Schedule C figures can be imported into the ledger */
+export interface ScheduleCImport {
+  taxFormId: string;
+  taxYear: number;
+  grossReceipts: number;
+  expenses: number;
+  netProfit: number | null;
+}
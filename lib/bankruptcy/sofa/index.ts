@@ -0,0 +1,26 @@
+/**
+ * Statement of Financial Affairs (Form 107)
+ *
+ * Exports the section registry and persistence helpers.
+ */
+
+// Sections
+export {
+  SOFA_SECTIONS,
+  getSofaSection,
+  normalizeSofaEntry,
+  type SofaField,
+  type SofaFieldType,
+  type SofaSection,
+  type SofaSectionKey,
+} from './sections';
+
+// Persistence
+export {
+  loadSofaData,
+  loadSofaSectionEntries,
+  rowToSofaEntry,
+  getPreviousAddresses,
+  type SofaData,
+  type SofaEntry,
+} from './store';
@@ -0,0 +1,352 @@
+/**
+ * Statement of Financial Affairs (Official Form 107) Sections
+ *
+ * Each section backs one or more Form 107 questions with its own table.
+ * The registry drives the API routes, the questionnaire page, and the
+ * form mapper so the three stay in sync.
+ */
+
+export type SofaFieldType = 'text' | 'date' | 'money' | 'boolean' | 'select';
+
+export interface SofaField {
+  /** camelCase key used by the API and UI */
+  name: string;
+  /** snake_case column in the section table */
+  column: string;
+  label: string;
+  type: SofaFieldType;
+  required?: boolean;
+  options?: Array<{ value: string; label: string }>;
+}
+
+export type SofaSectionKey =
+  | 'prior_addresses'
+  | 'income_history'
+  | 'creditor_payments'
+  | 'insider_payments'
+  | 'lawsuits'
+  | 'repossessions'
+  | 'gifts'
+  | 'losses'
+  | 'transfers'
+  | 'closed_accounts'
+  | 'safe_deposit_boxes';
+
+export interface SofaSection {
+  key: SofaSectionKey;
+  table: string;
+  part: number;
+  partTitle: string;
+  /** Form 107 question numbers covered by the section */
+  questions: string;
+  /** Yes/no interview question */
+  prompt: string;
+  /** Look-back period shown to the debtor */
+  lookback: string;
+  fields: SofaField[];
+}
+
+export const SOFA_SECTIONS: SofaSection[] = [
+  {
+    key: 'prior_addresses',
+    table: 'sofa_prior_addresses',
+    part: 1,
+    partTitle: 'Give Details About Your Marital Status and Where You Lived Before',
+    questions: '2',
+    prompt: 'During the last 3 years, have you lived anywhere other than where you live now?',
+    lookback: '3 years',
+    fields: [
+      { name: 'street', column: 'street', label: 'Street', type: 'text', required: true },
+      { name: 'city', column: 'city', label: 'City', type: 'text', required: true },
+      { name: 'state', column: 'state', label: 'State', type: 'text', required: true },
+      { name: 'zip', column: 'zip', label: 'ZIP', type: 'text' },
+      { name: 'fromDate', column: 'from_date', label: 'Lived There From', type: 'date', required: true },
+      { name: 'toDate', column: 'to_date', label: 'Lived There To', type: 'date', required: true },
+    ],
+  },
+  {
+    key: 'income_history',
+    table: 'sofa_income_history',
+    part: 2,
+    partTitle: 'Explain the Sources of Your Income',
+    questions: '4-5',
+    prompt: 'Did you have any income from employment, operating a business, or other sources during this year or the two previous calendar years?',
+    lookback: 'This year and the 2 previous calendar years',
+    fields: [
+      {
+        name: 'incomeType',
+        column: 'income_type',
+        label: 'Type',
+        type: 'select',
+        required: true,
+        options: [
+          { value: 'employment', label: 'Wages, commissions, bonuses, tips' },
+          { value: 'business', label: 'Operating a business' },
+          { value: 'other', label: 'Other income' },
+        ],
+      },
+      { name: 'year', column: 'year', label: 'Year', type: 'text', required: true },
+      { name: 'source', column: 'source', label: 'Source', type: 'text', required: true },
+      { name: 'grossAmount', column: 'gross_amount', label: 'Gross Income', type: 'money', required: true },
+    ],
+  },
+  {
+    key: 'creditor_payments',
+    table: 'sofa_creditor_payments',
+    part: 3,
+    partTitle: 'List Certain Payments You Made Before You Filed for Bankruptcy',
+    questions: '6',
+    prompt: 'Within 90 days before filing, did you pay any creditor a total of $600 or more?',
+    lookback: '90 days',
+    fields: [
+      { name: 'creditorName', column: 'creditor_name', label: 'Creditor', type: 'text', required: true },
+      { name: 'creditorAddress', column: 'creditor_address', label: 'Creditor Address', type: 'text' },
+      { name: 'paymentDates', column: 'payment_dates', label: 'Dates of Payment', type: 'text', required: true },
+      { name: 'totalPaid', column: 'total_paid', label: 'Total Amount Paid', type: 'money', required: true },
+      { name: 'amountStillOwed', column: 'amount_still_owed', label: 'Amount Still Owed', type: 'money' },
+      {
+        name: 'reason',
+        column: 'reason',
+        label: 'Reason for Payment',
+        type: 'select',
+        options: [
+          { value: 'mortgage', label: 'Mortgage' },
+          { value: 'car', label: 'Car' },
+          { value: 'credit_card', label: 'Credit card' },
+          { value: 'loan_repayment', label: 'Loan repayment' },
+          { value: 'suppliers_vendors', label: 'Suppliers or vendors' },
+          { value: 'other', label: 'Other' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'insider_payments',
+    table: 'sofa_insider_payments',
+    part: 3,
+    partTitle: 'List Certain Payments You Made Before You Filed for Bankruptcy',
+    questions: '7-8',
+    prompt: 'Within 1 year before filing, did you make a payment on a debt you owed anyone who was an insider, or on a debt that benefited an insider?',
+    lookback: '1 year',
+    fields: [
+      { name: 'insiderName', column: 'insider_name', label: 'Insider', type: 'text', required: true },
+      { name: 'relationship', column: 'relationship', label: 'Relationship', type: 'text', required: true },
+      { name: 'paymentDates', column: 'payment_dates', label: 'Dates of Payment', type: 'text', required: true },
+      { name: 'totalPaid', column: 'total_paid', label: 'Total Amount Paid', type: 'money', required: true },
+      { name: 'amountStillOwed', column: 'amount_still_owed', label: 'Amount Still Owed', type: 'money' },
+      { name: 'reason', column: 'reason', label: 'Reason for Payment', type: 'text' },
+    ],
+  },
+  {
+    key: 'lawsuits',
+    table: 'sofa_lawsuits',
+    part: 4,
+    partTitle: 'Identify Legal Actions, Repossessions, and Foreclosures',
+    questions: '9',
+    prompt: 'Within 1 year before filing, were you a party in any lawsuit, court action, or administrative proceeding?',
+    lookback: '1 year',
+    fields: [
+      { name: 'caseTitle', column: 'case_title', label: 'Case Title', type: 'text', required: true },
+      { name: 'caseNumber', column: 'case_number', label: 'Case Number', type: 'text' },
+      { name: 'natureOfCase', column: 'nature_of_case', label: 'Nature of the Case', type: 'text', required: true },
+      { name: 'court', column: 'court', label: 'Court or Agency', type: 'text', required: true },
+      {
+        name: 'status',
+        column: 'status',
+        label: 'Status',
+        type: 'select',
+        required: true,
+        options: [
+          { value: 'pending', label: 'Pending' },
+          { value: 'on_appeal', label: 'On appeal' },
+          { value: 'concluded', label: 'Concluded' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'repossessions',
+    table: 'sofa_repossessions',
+    part: 4,
+    partTitle: 'Identify Legal Actions, Repossessions, and Foreclosures',
+    questions: '10',
+    prompt: 'Within 1 year before filing, was any of your property repossessed, foreclosed, garnished, attached, seized, or levied?',
+    lookback: '1 year',
+    fields: [
+      { name: 'creditorName', column: 'creditor_name', label: 'Creditor', type: 'text', required: true },
+      { name: 'property', column: 'property', label: 'Property', type: 'text', required: true },
+      {
+        name: 'action',
+        column: 'action',
+        label: 'What Happened',
+        type: 'select',
+        required: true,
+        options: [
+          { value: 'repossessed', label: 'Repossessed' },
+          { value: 'foreclosed', label: 'Foreclosed' },
+          { value: 'garnished', label: 'Garnished' },
+          { value: 'attached_seized_levied', label: 'Attached, seized, or levied' },
+        ],
+      },
+      { name: 'actionDate', column: 'action_date', label: 'Date', type: 'date', required: true },
+      { name: 'value', column: 'value', label: 'Value of Property', type: 'money' },
+    ],
+  },
+  {
+    key: 'gifts',
+    table: 'sofa_gifts',
+    part: 5,
+    partTitle: 'List Certain Gifts and Contributions',
+    questions: '13-14',
+    prompt: 'Within 2 years before filing, did you give any gifts with a total value of more than $600 per person, or charitable contributions of more than $600?',
+    lookback: '2 years',
+    fields: [
+      { name: 'recipientName', column: 'recipient_name', label: 'Recipient', type: 'text', required: true },
+      { name: 'relationship', column: 'relationship', label: 'Relationship', type: 'text' },
+      { name: 'isCharity', column: 'is_charity', label: 'Charitable Contribution', type: 'boolean' },
+      { name: 'description', column: 'description', label: 'Gift Description', type: 'text', required: true },
+      { name: 'giftDate', column: 'gift_date', label: 'Date Given', type: 'date', required: true },
+      { name: 'value', column: 'value', label: 'Value', type: 'money', required: true },
+    ],
+  },
+  {
+    key: 'losses',
+    table: 'sofa_losses',
+    part: 6,
+    partTitle: 'List Certain Losses',
+    questions: '15',
+    prompt: 'Within 1 year before filing or since you filed, did you lose anything because of theft, fire, other disaster, or gambling?',
+    lookback: '1 year',
+    fields: [
+      { name: 'description', column: 'description', label: 'Property Lost and How', type: 'text', required: true },
+      { name: 'lossDate', column: 'loss_date', label: 'Date of Loss', type: 'date', required: true },
+      { name: 'value', column: 'value', label: 'Value of Property Lost', type: 'money', required: true },
+      { name: 'insurancePaid', column: 'insurance_paid', label: 'Insurance Paid', type: 'money' },
+    ],
+  },
+  {
+    key: 'transfers',
+    table: 'sofa_transfers',
+    part: 7,
+    partTitle: 'List Certain Payments or Transfers',
+    questions: '18',
+    prompt: 'Within 2 years before filing, did you sell, trade, or otherwise transfer any property to anyone, other than property transferred in the ordinary course of your business or financial affairs?',
+    lookback: '2 years',
+    fields: [
+      { name: 'transfereeName', column: 'transferee_name', label: 'Person Who Received Transfer', type: 'text', required: true },
+      { name: 'relationship', column: 'relationship', label: 'Relationship', type: 'text' },
+      { name: 'description', column: 'description', label: 'Property Transferred', type: 'text', required: true },
+      { name: 'transferDate', column: 'transfer_date', label: 'Date Transferred', type: 'date', required: true },
+      { name: 'paymentReceived', column: 'payment_received', label: 'Payments Received or Debts Paid', type: 'money' },
+    ],
+  },
+  {
+    key: 'closed_accounts',
+    table: 'sofa_closed_accounts',
+    part: 8,
+    partTitle: 'List Certain Financial Accounts, Instruments, Safe Deposit Boxes, and Storage Units',
+    questions: '20',
+    prompt: 'Within 1 year before filing, were any financial accounts or instruments held in your name, or for your benefit, closed, sold, moved, or transferred?',
+    lookback: '1 year',
+    fields: [
+      { name: 'institution', column: 'institution', label: 'Financial Institution', type: 'text', required: true },
+      { name: 'accountLast4', column: 'account_last4', label: 'Last 4 Digits', type: 'text' },
+      {
+        name: 'accountType',
+        column: 'account_type',
+        label: 'Type of Account',
+        type: 'select',
+        required: true,
+        options: [
+          { value: 'checking', label: 'Checking' },
+          { value: 'savings', label: 'Savings' },
+          { value: 'money_market', label: 'Money market' },
+          { value: 'brokerage', label: 'Brokerage' },
+          { value: 'other', label: 'Other' },
+        ],
+      },
+      { name: 'closedDate', column: 'closed_date', label: 'Date Closed or Transferred', type: 'date', required: true },
+      { name: 'lastBalance', column: 'last_balance', label: 'Last Balance', type: 'money' },
+    ],
+  },
+  {
+    key: 'safe_deposit_boxes',
+    table: 'sofa_safe_deposit_boxes',
+    part: 8,
+    partTitle: 'List Certain Financial Accounts, Instruments, Safe Deposit Boxes, and Storage Units',
+    questions: '21',
+    prompt: 'Do you now have, or did you have within 1 year before filing, any safe deposit box or other depository for securities, cash, or other valuables?',
+    lookback: '1 year',
+    fields: [
+      { name: 'institution', column: 'institution', label: 'Financial Institution', type: 'text', required: true },
+      { name: 'institutionAddress', column: 'institution_address', label: 'Address', type: 'text' },
+      { name: 'accessHolders', column: 'access_holders', label: 'Who Else Had Access', type: 'text' },
+      { name: 'contents', column: 'contents', label: 'Contents', type: 'text', required: true },
+      { name: 'stillHas', column: 'still_has', label: 'Do You Still Have It?', type: 'boolean' },
+    ],
+  },
+];
+
+export function getSofaSection(key: string): SofaSection | undefined {
+  return SOFA_SECTIONS.find(s => s.key === key);
+}
+
+/**
+ * Validate and coerce a request body into column values for a section
+ */
+export function normalizeSofaEntry(
+  section: SofaSection,
+  body: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {}
+): { values: Record<string, string | number | boolean | null>; errors: string[] } {
+  const values: Record<string, string | number | boolean | null> = {};
+  const errors: string[] = [];
+
+  for (const field of section.fields) {
+    const raw = body[field.name];
+    const isEmpty = raw === undefined || raw === null || raw === '';
+
+    if (isEmpty) {
+      // Partial updates leave omitted fields untouched
+      if (partial && raw === undefined) continue;
+      if (field.required) errors.push(`${field.label} is required`);
+      values[field.column] = field.type === 'boolean' ? false : null;
+      continue;
+    }
+
+    switch (field.type) {
+      case 'money': {
+        const amount = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(/[$,]/g, ''));
+        if (isNaN(amount)) {
+          errors.push(`${field.label} must be a number`);
+        } else {
+          values[field.column] = amount;
+        }
+        break;
+      }
+      case 'boolean':
+        values[field.column] = raw === true || raw === 'true' || raw === 'yes';
+        break;
+      case 'date': {
+        const date = String(raw);
+        if (!/^\d{4}-\d{2}-\d{2}/.test(date) || isNaN(new Date(date).getTime())) {
+          errors.push(`${field.label} must be a date (YYYY-MM-DD)`);
+        } else {
+          values[field.column] = date.substring(0, 10);
+        }
+        break;
+      }
+      case 'select':
+        if (field.options && !field.options.some(o => o.value === raw)) {
+          errors.push(`${field.label} must be one of: ${field.options.map(o => o.value).join(', ')}`);
+        } else {
+          values[field.column] = String(raw);
+        }
+        break;
+      default:
+        values[field.column] = String(raw).trim();
+    }
+  }
+
+  return { values, errors };
+}
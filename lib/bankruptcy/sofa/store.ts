@@ -0,0 +1,99 @@
+/**
+ * SOFA Persistence
+ *
+ * Loading for the Statement of Financial Affairs sections.
+ */
+
+import type postgres from 'postgres';
+import { SOFA_SECTIONS, type SofaSection, type SofaSectionKey } from './sections';
+
+export type SofaEntry = { id: string; createdAt?: string } & Record<string, string | number | boolean | null | undefined>;
+
+export interface SofaData {
+  /** Yes/no answers per section; absent means not yet answered */
+  answers: Partial<Record<SofaSectionKey, boolean>>;
+  entries: Record<SofaSectionKey, SofaEntry[]>;
+}
+
+function toDateString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().substring(0, 10);
+  return String(value).substring(0, 10);
+}
+
+/**
+ * Convert a database row into the camelCase entry shape
+ */
+export function rowToSofaEntry(section: SofaSection, row: Record<string, unknown>): SofaEntry {
+  const entry: SofaEntry = {
+    id: String(row.id),
+    createdAt: row.created_at ? String(row.created_at) : undefined,
+  };
+
+  for (const field of section.fields) {
+    const value = row[field.column];
+    switch (field.type) {
+      case 'money':
+        entry[field.name] = value === null || value === undefined ? null : Number(value);
+        break;
+      case 'date':
+        entry[field.name] = toDateString(value);
+        break;
+      case 'boolean':
+        entry[field.name] = Boolean(value);
+        break;
+      default:
+        entry[field.name] = value === null || value === undefined ? null : String(value);
+    }
+  }
+
+  return entry;
+}
+
+export async function loadSofaSectionEntries(
+  sql: postgres.Sql,
+  caseId: string,
+  section: SofaSection
+): Promise<SofaEntry[]> {
+  const rows = await sql`
+    SELECT * FROM ${sql(section.table)}
+    WHERE case_id = ${caseId}
+    ORDER BY created_at
+  `;
+  return rows.map(row => rowToSofaEntry(section, row));
+}
+
+/**
+ * Load every SOFA section for a case (tables must already exist)
+ */
+export async function loadSofaData(sql: postgres.Sql, caseId: string): Promise<SofaData> {
+  const answerRows = await sql`
+    SELECT section, answer FROM sofa_answers WHERE case_id = ${caseId}
+  `;
+
+  const answers: SofaData['answers'] = {};
+  for (const row of answerRows) {
+    answers[row.section as SofaSectionKey] = row.answer;
+  }
+
+  const entries = {} as SofaData['entries'];
+  for (const section of SOFA_SECTIONS) {
+    entries[section.key] = await loadSofaSectionEntries(sql, caseId, section);
+  }
+
+  return { answers, entries };
+}
+
+/**
+ * Prior addresses in the `DebtorInfo.previousAddresses` shape
+ */
+export function getPreviousAddresses(sofa: SofaData) {
+  return sofa.entries.prior_addresses.map(a => ({
+    street: String(a.street ?? ''),
+    city: String(a.city ?? ''),
+    state: String(a.state ?? ''),
+    zip: String(a.zip ?? ''),
+    fromDate: String(a.fromDate ?? ''),
+    toDate: String(a.toDate ?? ''),
+  }));
+}
@@ -0,0 +1,46 @@
+/**
+ * Means Test Standards
+ *
+ * Date-effective IRS standards, median income tables, and § 707(b)
+ * thresholds, plus the importer for newly published releases.
+ */
+
+// Types
+export type {
+  Chapter7Limits,
+  HealthCareTable,
+  HousingTable,
+  MedianIncomeTable,
+  NationalStandardsRow,
+  NationalStandardsTable,
+  StandardsRelease,
+  StandardsReleaseInput,
+  StandardsTables,
+  TransportationTable,
+  TransportationUpdate,
+} from './types';
+
+// Registry
+export {
+  BUNDLED_RELEASE,
+  getStandardsRelease,
+  listStandardsReleases,
+  registerStandardsRelease,
+  resetStandardsReleases,
+  toEffectiveDate,
+} from './registry';
+
+// Loader
+export {
+  STANDARDS_DIR,
+  ensureStandardsLoaded,
+  loadStandardsDirectory,
+  readStandardsDirectory,
+  parseStandardsFile,
+  parseMedianIncomeTable,
+  parseNationalStandardsTable,
+  parseHealthCareTable,
+  parseHousingTable,
+  parseTransportationTable,
+  type StandardsImport,
+} from './loader';
@@ -0,0 +1,611 @@
+/**
+ * Means Test Standards Loader
+ *
+ * Imports releases from the CSV/XLSX files the U.S. Trustee Program
+ * publishes. Legacy binary .xls workbooks must be re-saved as XLSX or CSV.
+ * Each release is a directory under STANDARDS_DIR named for its effective
+ * date (2026-04-01 or 20260401) holding any of the tables below; the file
+ * name picks the parser:
+ *
+ * - median*        State median family income by household size
+ * - national*      National Standards (food, clothing, and other items)
+ * - health*        Out-of-pocket health care
+ * - housing*       Housing and utilities by county (one file per state is fine)
+ * - transport*     Vehicle ownership, operating costs, and public transportation
+ * - release.json   Optional { version, chapter7Limits }
+ */
+
+import ExcelJS from 'exceljs';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { normalizeCounty, normalizeState } from '../address/normalize';
+import { REGIONAL_BASELINE, type Region } from '../chapter7/transportation-standards';
+import { BUNDLED_RELEASE, registerStandardsRelease, resetStandardsReleases, toEffectiveDate } from './registry';
+import type {
+  HealthCareTable,
+  HousingTable,
+  MedianIncomeTable,
+  NationalStandardsRow,
+  NationalStandardsTable,
+  StandardsReleaseInput,
+  TransportationUpdate,
+} from './types';
+
+export const STANDARDS_DIR = path.join(process.cwd(), 'data', 'standards');
+
+const TABLE_EXTENSIONS = new Set(['.csv', '.xlsx']);
+
+type Cell = string | number | boolean | null | undefined;
+type Row = Cell[];
+
+export interface StandardsImport {
+  releases: StandardsReleaseInput[];
+  warnings: string[];
+}
+
+interface ParsedTable<T> {
+  table: T | null;
+  warnings: string[];
+}
+
+// ============================================================================
+// CELL HELPERS
+// ============================================================================
+
+function cellText(cell: Cell): string {
+  return String(cell ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function parseAmount(cell: Cell): number | null {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  const text = cellText(cell).replace(/[$,\s]/g, '');
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : null;
+}
+
+function firstAmount(row: Row, from = 0): number | null {
+  for (let i = from; i < row.length; i++) {
+    const amount = parseAmount(row[i]);
+    if (amount !== null) return amount;
+  }
+  return null;
+}
+
+function rowLabel(row: Row): string {
+  return cellText(row.find(cell => cellText(cell) && parseAmount(cell) === null));
+}
+
+const SIZE_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+/**
+ * Household size named by a column header ("2 People", "Family of 3",
+ * "Four Persons", "5 or more"), or "additional" for the per-person column
+ */
+function headerSize(header: string): number | 'additional' | null {
+  const text = header.toLowerCase();
+  if (/additional|more than (four|4)|in excess|each person over/.test(text)) return 'additional';
+  const digit = text.match(/\b([1-5])\b/);
+  if (digit) return Number(digit[1]);
+  const word = text.match(/\b(one|two|three|four|five)\b/);
+  return word ? SIZE_WORDS[word[1]] : null;
+}
+
+function sizeColumns(row: Row): Map<number | 'additional', number[]> {
+  const columns = new Map<number | 'additional', number[]>();
+  row.forEach((cell, i) => {
+    const size = headerSize(cellText(cell));
+    if (size !== null) columns.set(size, [...(columns.get(size) ?? []), i]);
+  });
+  return columns;
+}
+
+/**
+ * Split CSV text into rows of cells: quoted fields may hold commas, doubled
+ * quotes, and line breaks
+ */
+function readCsv(bytes: Uint8Array): Row[] {
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+  const rows: Row[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+
+  return rows;
+}
+
+function sheetCell(value: ExcelJS.CellValue): Cell {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (value === null || typeof value !== 'object') return value;
+  if ('result' in value) return sheetCell(value.result as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map(run => run.text).join('');
+  if ('text' in value) return String(value.text);
+  return null;
+}
+
+/**
+ * Every worksheet of an XLSX workbook, one after another. Merged cells
+ * repeat the merged value in each column they cover.
+ */
+async function readWorkbook(bytes: Uint8Array): Promise<Row[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(Buffer.from(bytes) as unknown as ExcelJS.Buffer);
+
+  const rows: Row[] = [];
+  for (const sheet of workbook.worksheets) {
+    for (let r = 1; r <= sheet.rowCount; r++) {
+      const row = sheet.getRow(r);
+      const cells: Row = [];
+      for (let c = 1; c <= row.cellCount; c++) cells.push(sheetCell(row.getCell(c).value));
+      rows.push(cells);
+    }
+  }
+  return rows;
+}
+
+// ============================================================================
+// TABLE PARSERS
+// ============================================================================
+
+/**
+ * Median family income: State | 1 Earner | 2 People | 3 People | 4 People,
+ * with the per-person amount in a column or the "Add $X for each individual
+ * in excess of 4" footnote
+ */
+export function parseMedianIncomeTable(rows: Row[]): ParsedTable<MedianIncomeTable> {
+  const warnings: string[] = [];
+  const headerIndex = rows.findIndex(row =>
+    row.some(cell => /state/i.test(cellText(cell))) && sizeColumns(row).size >= 4
+  );
+  if (headerIndex < 0) {
+    return { table: null, warnings: ['Median income table has no State / household size header row'] };
+  }
+
+  const header = rows[headerIndex];
+  const stateCol = header.findIndex(cell => /state/i.test(cellText(cell)));
+  const columns = sizeColumns(header);
+  const footnote = rows
+    .map(row => row.map(cellText).join(' '))
+    .join(' ')
+    .match(/add\s*\$\s*([\d,]+)\s*for each (individual|person)/i);
+  const footnoteAmount = footnote ? Number(footnote[1].replace(/,/g, '')) : null;
+
+  const table: MedianIncomeTable = {};
+  for (const row of rows.slice(headerIndex + 1)) {
+    const name = cellText(row[stateCol]);
+    const amounts = [1, 2, 3, 4].map(size => parseAmount(row[columns.get(size)?.[0] ?? -1]));
+    if (!name || amounts.some(a => a === null)) continue;
+
+    const state = normalizeState(name.replace(/\*+$/, ''));
+    if (!state) {
+      warnings.push(`Median income: skipped "${name}"`);
+      continue;
+    }
+
+    const additional = columns.has('additional')
+      ? parseAmount(row[columns.get('additional')![0]])
+      : footnoteAmount;
+    if (additional === null) {
+      return { table: null, warnings: ['Median income table has no amount for each person over 4'] };
+    }
+    table[state] = [...(amounts as number[]), additional];
+  }
+
+  if (Object.keys(table).length === 0) {
+    return { table: null, warnings: [...warnings, 'Median income table has no state rows'] };
+  }
+  return { table, warnings };
+}
+
+const NATIONAL_ROWS: [keyof NationalStandardsRow, RegExp][] = [
+  ['food', /food/i],
+  ['housekeeping', /housekeeping/i],
+  ['apparel', /apparel|clothing/i],
+  ['personalCare', /personal care/i],
+  ['miscellaneous', /misc/i],
+  ['total', /total/i],
+];
+
+/**
+ * National Standards: Expense | One Person | ... | Four Persons, with the
+ * additional-person amounts either in a column or in a second table
+ */
+export function parseNationalStandardsTable(rows: Row[]): ParsedTable<NationalStandardsTable> {
+  const values: Partial<Record<number | 'additional', Partial<NationalStandardsRow>>> = {};
+  let columns: Map<number | 'additional', number[]> | null = null;
+  let additionalSection = false;
+
+  for (const row of rows) {
+    const headers = sizeColumns(row);
+    const label = rowLabel(row);
+    if (headers.size >= 4) {
+      columns = headers;
+      additionalSection = false;
+      continue;
+    }
+    if (firstAmount(row) === null && headerSize(label) === 'additional') {
+      additionalSection = true;
+      continue;
+    }
+
+    const field = NATIONAL_ROWS.find(([, pattern]) => pattern.test(label))?.[0];
+    if (!field) continue;
+
+    if (additionalSection) {
+      const amount = firstAmount(row);
+      if (amount !== null) values.additional = { ...values.additional, [field]: amount };
+      continue;
+    }
+    if (!columns) continue;
+    for (const [size, indexes] of columns) {
+      const amount = parseAmount(row[indexes[0]]);
+      if (amount !== null) values[size] = { ...values[size], [field]: amount };
+    }
+  }
+
+  const complete = (row: Partial<NationalStandardsRow> | undefined): NationalStandardsRow | null => {
+    if (!row) return null;
+    const parts = [row.food, row.housekeeping, row.apparel, row.personalCare, row.miscellaneous];
+    if (parts.some(p => p === undefined)) return null;
+    return {
+      ...(row as NationalStandardsRow),
+      total: row.total ?? (parts as number[]).reduce((sum, p) => sum + p, 0),
+    };
+  };
+
+  const sizes = [1, 2, 3, 4].map(size => complete(values[size]));
+  const additionalPerson = complete(values.additional);
+  if (sizes.some(s => s === null) || !additionalPerson) {
+    return { table: null, warnings: ['National Standards table is missing a household size or expense row'] };
+  }
+
+  const [one, two, three, four] = sizes as NationalStandardsRow[];
+  return { table: { 1: one, 2: two, 3: three, 4: four, additionalPerson }, warnings: [] };
+}
+
+/**
+ * Out-of-pocket health care: either "Under 65 | 65 and Older" columns over a
+ * row of amounts, or one row per age group
+ */
+export function parseHealthCareTable(rows: Row[]): ParsedTable<HealthCareTable> {
+  const isUnder = (text: string) => /under\s*(age\s*)?65|less than 65/i.test(text);
+  const isOver = (text: string) => /65\s*(years)?\s*(of age)?\s*(and|or)\s*older|over\s*65/i.test(text);
+
+  let under65: number | null = null;
+  let age65OrOlder: number | null = null;
+
+  const headerIndex = rows.findIndex(row =>
+    row.some(cell => isUnder(cellText(cell))) && row.some(cell => isOver(cellText(cell)))
+  );
+  if (headerIndex >= 0) {
+    const header = rows[headerIndex];
+    const underCol = header.findIndex(cell => isUnder(cellText(cell)));
+    const overCol = header.findIndex(cell => isOver(cellText(cell)));
+    const dataRow = rows.slice(headerIndex + 1).find(row => parseAmount(row[underCol]) !== null);
+    if (dataRow) {
+      under65 = parseAmount(dataRow[underCol]);
+      age65OrOlder = parseAmount(dataRow[overCol]);
+    }
+  } else {
+    for (const row of rows) {
+      const label = rowLabel(row);
+      if (isUnder(label)) under65 = firstAmount(row);
+      else if (isOver(label)) age65OrOlder = firstAmount(row);
+    }
+  }
+
+  if (under65 === null || age65OrOlder === null) {
+    return { table: null, warnings: ['Health care table needs amounts for under 65 and 65 and older'] };
+  }
+  return { table: { under65, age65OrOlder }, warnings: [] };
+}
+
+/**
+ * Housing and utilities by county. Sizes may be split into non-mortgage and
+ * mortgage/rent columns, which are summed. Files without a State column take
+ * the state from the file name (housing_AL.xlsx, housing-texas.csv).
+ */
+export function parseHousingTable(rows: Row[], fileState?: string | null): ParsedTable<HousingTable> {
+  const warnings: string[] = [];
+  const headerIndex = rows.findIndex(row => row.some(cell => /^county/i.test(cellText(cell))));
+  if (headerIndex < 0) {
+    return { table: null, warnings: ['Housing table has no County header row'] };
+  }
+
+  // Merged "Family of N" headers leave blanks over their sub-columns, so
+  // carry each size right and append the sub-header row when there is one
+  const header = rows[headerIndex];
+  const subHeader = rows[headerIndex + 1] ?? [];
+  const hasSubHeader = subHeader.some(cell => cellText(cell)) && firstAmount(subHeader) === null;
+  const labels: string[] = [];
+  let carried = '';
+  for (let i = 0; i < Math.max(header.length, subHeader.length); i++) {
+    const text = cellText(header[i]);
+    if (text) carried = headerSize(text) !== null ? text : '';
+    labels.push(`${text || carried} ${hasSubHeader ? cellText(subHeader[i]) : ''}`.trim());
+  }
+
+  const stateCol = labels.findIndex(label => /^state/i.test(label));
+  const countyCol = labels.findIndex(label => /^county/i.test(label));
+  const columns = new Map<number, { parts: number[]; total?: number }>();
+  labels.forEach((label, i) => {
+    const size = headerSize(label);
+    if (typeof size !== 'number') return;
+    const entry = columns.get(size) ?? { parts: [] };
+    if (/total/i.test(label)) entry.total = i;
+    else entry.parts.push(i);
+    columns.set(size, entry);
+  });
+  if ([1, 2, 3, 4, 5].some(size => !columns.has(size))) {
+    return { table: null, warnings: ['Housing table needs columns for households of 1 through 5'] };
+  }
+  if (stateCol < 0 && !fileState) {
+    return { table: null, warnings: ['Housing table has no State column and the file name names no state'] };
+  }
+
+  const table: HousingTable = {};
+  for (const row of rows.slice(headerIndex + (hasSubHeader ? 2 : 1))) {
+    const county = normalizeCounty(cellText(row[countyCol])).toUpperCase();
+    if (!county) continue;
+
+    const state = stateCol >= 0 ? normalizeState(cellText(row[stateCol])) : fileState;
+    if (!state) {
+      warnings.push(`Housing: skipped ${county} with unknown state "${cellText(row[stateCol])}"`);
+      continue;
+    }
+
+    const amounts = [1, 2, 3, 4, 5].map(size => {
+      const { parts, total } = columns.get(size)!;
+      if (total !== undefined) return parseAmount(row[total]);
+      const values = parts.map(i => parseAmount(row[i]));
+      return values.some(v => v === null) ? null : (values as number[]).reduce((sum, v) => sum + v, 0);
+    });
+    if (amounts.some(a => a === null)) continue;
+
+    table[state] = { ...table[state], [county]: amounts as number[] };
+  }
+
+  if (Object.keys(table).length === 0) {
+    return { table: null, warnings: [...warnings, 'Housing table has no county rows'] };
+  }
+  return { table, warnings };
+}
+
+function matchKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Transportation: rows labelled with a region, metro area, "Ownership", or
+ * "Public Transportation" under One Car / Two Cars columns. Metro areas are
+ * matched by name to the areas counties already map to.
+ */
+export function parseTransportationTable(
+  rows: Row[],
+  metroAreas = BUNDLED_RELEASE.transportation.metroAreas
+): ParsedTable<TransportationUpdate> {
+  const warnings: string[] = [];
+  const update: TransportationUpdate = {};
+  const regions = Object.keys(REGIONAL_BASELINE) as Region[];
+  let oneCol = -1;
+  let twoCol = -1;
+
+  for (const row of rows) {
+    const texts = row.map(cellText);
+    const one = texts.findIndex(text => /^(one|1) (car|vehicle)/i.test(text));
+    const two = texts.findIndex(text => /^(two|2) (cars|vehicles)/i.test(text));
+    if (one >= 0 && two >= 0) {
+      oneCol = one;
+      twoCol = two;
+    }
+
+    const label = rowLabel(row);
+    if (!label) continue;
+
+    if (/public transportation/i.test(label)) {
+      const amount = firstAmount(row);
+      if (amount !== null) update.publicTransportation = amount;
+      continue;
+    }
+
+    if (oneCol < 0) continue;
+    const oneCar = parseAmount(row[oneCol]);
+    const twoCars = parseAmount(row[twoCol]);
+    if (oneCar === null || twoCars === null) continue;
+
+    // Ownership costs are a single national row
+    if (/ownership|national/i.test(label)) {
+      update.ownership = { oneVehicle: oneCar, twoVehicles: twoCars };
+      continue;
+    }
+
+    const region = regions.find(r => matchKey(r) === matchKey(label));
+    if (region) {
+      update.regionalBaseline = { ...update.regionalBaseline, [region]: { oneCar, twoCars } };
+      continue;
+    }
+
+    const metro = Object.entries(metroAreas).find(([, area]) => {
+      const name = matchKey(area.name);
+      const key = matchKey(label);
+      return key.startsWith(name) || name.startsWith(key);
+    });
+    if (metro) {
+      const [key, area] = metro;
+      update.metroAreas = { ...update.metroAreas, [key]: { ...area, oneCar, twoCars } };
+    } else {
+      warnings.push(`Transportation: no counties map to metro area "${label}"`);
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { table: null, warnings: ['Transportation table has no recognizable rows'] };
+  }
+  return { table: update, warnings };
+}
+
+// ============================================================================
+// DIRECTORY IMPORT
+// ============================================================================
+
+function stateFromFilename(filename: string): string | null {
+  const tokens = path.parse(filename).name.split(/[^a-zA-Z]+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    // Try two-word names first ("new_york")
+    const state = normalizeState(tokens.slice(i, i + 2).join(' ')) ?? normalizeState(tokens[i]);
+    if (state) return state;
+  }
+  return null;
+}
+
+/**
+ * Parse one published file into the release it belongs to
+ */
+export async function parseStandardsFile(
+  filename: string,
+  bytes: Uint8Array,
+  release: StandardsReleaseInput
+): Promise<string[]> {
+  const name = filename.toLowerCase();
+  const rows = path.extname(name) === '.xlsx' ? await readWorkbook(bytes) : readCsv(bytes);
+  const note = (warnings: string[]) => warnings.map(w => `${filename}: ${w}`);
+
+  if (name.includes('median')) {
+    const { table, warnings } = parseMedianIncomeTable(rows);
+    if (table) release.medianIncome = { ...release.medianIncome, ...table };
+    return note(warnings);
+  }
+  if (name.includes('national')) {
+    const { table, warnings } = parseNationalStandardsTable(rows);
+    if (table) release.nationalStandards = table;
+    return note(warnings);
+  }
+  if (name.includes('health') || name.includes('pocket')) {
+    const { table, warnings } = parseHealthCareTable(rows);
+    if (table) release.healthCare = table;
+    return note(warnings);
+  }
+  if (name.includes('housing') || name.includes('utilities')) {
+    const { table, warnings } = parseHousingTable(rows, stateFromFilename(filename));
+    if (table) {
+      release.housing = { ...release.housing };
+      for (const [state, counties] of Object.entries(table)) {
+        release.housing[state] = { ...release.housing[state], ...counties };
+      }
+    }
+    return note(warnings);
+  }
+  if (name.includes('transport') || name.includes('operating') || name.includes('ownership')) {
+    const { table, warnings } = parseTransportationTable(rows);
+    if (table) {
+      const current = release.transportation ?? {};
+      release.transportation = {
+        ...current,
+        ...table,
+        regionalBaseline: { ...current.regionalBaseline, ...table.regionalBaseline },
+        metroAreas: { ...current.metroAreas, ...table.metroAreas },
+      };
+    }
+    return note(warnings);
+  }
+  return [`${filename}: not a recognized standards table`];
+}
+
+/**
+ * Read every release directory without registering anything
+ */
+export async function readStandardsDirectory(dir = STANDARDS_DIR): Promise<StandardsImport> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => null);
+  if (!entries) return { releases: [], warnings: [] };
+
+  const releases: StandardsReleaseInput[] = [];
+  const warnings: string[] = [];
+
+  for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!/^\d{4}-?\d{2}-?\d{2}$/.test(entry.name)) {
+      warnings.push(`${entry.name}: release directories must be named for their effective date`);
+      continue;
+    }
+
+    const releaseDir = path.join(dir, entry.name);
+    const release: StandardsReleaseInput = { effectiveFrom: toEffectiveDate(entry.name), sources: [] };
+    const files = (await readdir(releaseDir)).sort();
+
+    for (const file of files) {
+      const filePath = path.join(releaseDir, file);
+      try {
+        if (file === 'release.json') {
+          const meta = JSON.parse(await readFile(filePath, 'utf8'));
+          if (meta.version) release.version = String(meta.version);
+          if (meta.chapter7Limits) release.chapter7Limits = meta.chapter7Limits;
+          continue;
+        }
+        const extension = path.extname(file).toLowerCase();
+        if (extension === '.xls') {
+          warnings.push(`${entry.name}/${file}: legacy .xls workbooks are not read; save it as XLSX or CSV`);
+          continue;
+        }
+        if (!TABLE_EXTENSIONS.has(extension)) continue;
+
+        const fileWarnings = await parseStandardsFile(file, new Uint8Array(await readFile(filePath)), release);
+        warnings.push(...fileWarnings.map(w => `${entry.name}/${w}`));
+        release.sources!.push(`${entry.name}/${file}`);
+      } catch (error) {
+        warnings.push(`${entry.name}/${file}: ${error instanceof Error ? error.message : 'could not be read'}`);
+      }
+    }
+
+    releases.push(release);
+  }
+
+  return { releases, warnings };
+}
+
+let loading: Promise<StandardsImport> | null = null;
+
+/**
+ * Re-scan the standards directory, replacing previously imported releases
+ */
+export function loadStandardsDirectory(dir = STANDARDS_DIR): Promise<StandardsImport> {
+  loading = readStandardsDirectory(dir).then(result => {
+    resetStandardsReleases();
+    result.releases.forEach(registerStandardsRelease);
+    if (result.warnings.length > 0) {
+      console.warn('Means test standards import:', result.warnings);
+    }
+    return result;
+  });
+  return loading;
+}
+
+/**
+ * Import the standards directory once per process
+ */
+export function ensureStandardsLoaded(): Promise<StandardsImport> {
+  return loading ?? loadStandardsDirectory();
+}
@@ -0,0 +1,148 @@
+/**
+ * Means Test Standards Registry
+ *
+ * Holds every known release keyed by effective date and selects the one in
+ * effect on a filing date. The bundled snapshot is always registered;
+ * releases imported from the standards directory are layered on top of it.
+ */
+
+import { NATIONAL_STANDARDS, HEALTH_CARE_STANDARDS, STATE_MEDIAN_INCOME, CHAPTER_7_LIMITS } from '../chapter7/standards';
+import { COUNTY_HOUSING_STANDARDS } from '../chapter7/county-housing-standards';
+import {
+  VEHICLE_OWNERSHIP,
+  PUBLIC_TRANSPORTATION,
+  REGIONAL_BASELINE,
+  METRO_AREAS,
+} from '../chapter7/transportation-standards';
+import type { StandardsRelease, StandardsReleaseInput } from './types';
+
+/**
+ * Figures compiled into the app (median income effective November 1, 2025)
+ */
+export const BUNDLED_RELEASE: StandardsRelease = {
+  version: '2025-11-01',
+  effectiveFrom: '2025-11-01',
+  sources: ['bundled'],
+  nationalStandards: NATIONAL_STANDARDS,
+  healthCare: HEALTH_CARE_STANDARDS,
+  housing: COUNTY_HOUSING_STANDARDS,
+  transportation: {
+    ownership: { ...VEHICLE_OWNERSHIP },
+    publicTransportation: PUBLIC_TRANSPORTATION,
+    regionalBaseline: REGIONAL_BASELINE,
+    metroAreas: METRO_AREAS,
+  },
+  medianIncome: STATE_MEDIAN_INCOME,
+  chapter7Limits: CHAPTER_7_LIMITS,
+};
+
+let imported: StandardsReleaseInput[] = [];
+let resolved: StandardsRelease[] | null = null;
+
+/**
+ * Normalize a Date or date string to YYYY-MM-DD
+ */
+export function toEffectiveDate(date: Date | string): string {
+  if (typeof date === 'string') {
+    const compact = date.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+    date = new Date(date);
+  }
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Invalid standards effective date');
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Merge a release's tables over the one before it. Housing and median income
+ * merge by state so a release may cover only the states it revises.
+ */
+function applyRelease(base: StandardsRelease, input: StandardsReleaseInput): StandardsRelease {
+  const effectiveFrom = toEffectiveDate(input.effectiveFrom);
+  const { transportation } = input;
+
+  return {
+    ...base,
+    version: input.version || effectiveFrom,
+    effectiveFrom,
+    effectiveTo: undefined,
+    sources: input.sources ?? [],
+    nationalStandards: input.nationalStandards ?? base.nationalStandards,
+    healthCare: input.healthCare ?? base.healthCare,
+    housing: { ...base.housing, ...input.housing },
+    transportation: {
+      ownership: transportation?.ownership ?? base.transportation.ownership,
+      publicTransportation: transportation?.publicTransportation ?? base.transportation.publicTransportation,
+      regionalBaseline: { ...base.transportation.regionalBaseline, ...transportation?.regionalBaseline },
+      metroAreas: { ...base.transportation.metroAreas, ...transportation?.metroAreas },
+    },
+    medianIncome: { ...base.medianIncome, ...input.medianIncome },
+    chapter7Limits: input.chapter7Limits ?? base.chapter7Limits,
+  };
+}
+
+function resolveReleases(): StandardsRelease[] {
+  if (resolved) return resolved;
+
+  const inputs = [...imported].sort((a, b) =>
+    toEffectiveDate(a.effectiveFrom).localeCompare(toEffectiveDate(b.effectiveFrom))
+  );
+
+  const releases: StandardsRelease[] = [BUNDLED_RELEASE];
+  for (const input of inputs) {
+    const effectiveFrom = toEffectiveDate(input.effectiveFrom);
+    // Layer onto whichever release was in effect the day before
+    const base = [...releases].reverse().find(r => r.effectiveFrom <= effectiveFrom) ?? releases[0];
+    const release = applyRelease(base, input);
+    const existing = releases.findIndex(r => r.effectiveFrom === effectiveFrom);
+    if (existing >= 0) {
+      releases[existing] = release;
+    } else {
+      releases.push(release);
+      releases.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    }
+  }
+
+  resolved = releases.map((release, i) => ({
+    ...release,
+    effectiveTo: releases[i + 1]?.effectiveFrom,
+  }));
+  return resolved;
+}
+
+/**
+ * Add a release. A release with the same effective date as an existing one
+ * replaces it.
+ */
+export function registerStandardsRelease(input: StandardsReleaseInput): void {
+  const effectiveFrom = toEffectiveDate(input.effectiveFrom);
+  imported = imported.filter(r => toEffectiveDate(r.effectiveFrom) !== effectiveFrom);
+  imported.push(input);
+  resolved = null;
+}
+
+/**
+ * Drop imported releases, leaving only the bundled snapshot
+ */
+export function resetStandardsReleases(): void {
+  imported = [];
+  resolved = null;
+}
+
+export function listStandardsReleases(): StandardsRelease[] {
+  return resolveReleases();
+}
+
+/**
+ * Release in effect on a filing date (defaults to today). Dates before the
+ * earliest release use the earliest one.
+ */
+export function getStandardsRelease(date?: Date | string | null): StandardsRelease {
+  const releases = resolveReleases();
+  const target = toEffectiveDate(date || new Date());
+  for (let i = releases.length - 1; i >= 0; i--) {
+    if (releases[i].effectiveFrom <= target) return releases[i];
+  }
+  return releases[0];
+}
@@ -0,0 +1,101 @@
+/**
+ * Means Test Standards Types
+ *
+ * A release is the set of IRS standards, median income figures, and
+ * § 707(b) thresholds the U.S. Trustee Program publishes for cases filed on
+ * or after its effective date.
+ */
+
+import type { MetroArea, TransportationRates } from '../chapter7/transportation-standards';
+
+export interface NationalStandardsRow {
+  food: number;
+  housekeeping: number;
+  apparel: number;
+  personalCare: number;
+  miscellaneous: number;
+  total: number;
+}
+
+/**
+ * National Standards by household size, plus the amount for each person over 4
+ */
+export interface NationalStandardsTable {
+  1: NationalStandardsRow;
+  2: NationalStandardsRow;
+  3: NationalStandardsRow;
+  4: NationalStandardsRow;
+  additionalPerson: NationalStandardsRow;
+}
+
+export interface HealthCareTable {
+  under65: number;
+  age65OrOlder: number;
+}
+
+/**
+ * STATE -> COUNTY (uppercase, no "County") -> [1-person ... 5+-person]
+ */
+export type HousingTable = Record<string, Record<string, number[]>>;
+
+// Metro areas are keyed like METRO_AREAS; counties map to them via COUNTY_TO_METRO
+export type TransportationTable = TransportationRates;
+
+/**
+ * STATE -> [1-person, 2-person, 3-person, 4-person, additional per person]
+ */
+export type MedianIncomeTable = Record<string, number[]>;
+
+export interface Chapter7Limits {
+  lowerThreshold60: number;
+  upperThreshold60: number;
+  lowerThresholdMonthly: number;
+  upperThresholdMonthly: number;
+  nextAdjustmentDate: string;
+}
+
+export interface StandardsTables {
+  nationalStandards: NationalStandardsTable;
+  healthCare: HealthCareTable;
+  housing: HousingTable;
+  transportation: TransportationTable;
+  medianIncome: MedianIncomeTable;
+  chapter7Limits: Chapter7Limits;
+}
+
+export interface StandardsRelease extends StandardsTables {
+  // Recorded on each means test result, e.g. "2025-11-01"
+  version: string;
+  // First filing date the release applies to (YYYY-MM-DD)
+  effectiveFrom: string;
+  // Day the next release takes effect, exclusive; absent for the latest
+  effectiveTo?: string;
+  // Where each table came from (file names or "bundled")
+  sources: string[];
+}
+
+export interface TransportationUpdate {
+  ownership?: TransportationTable['ownership'];
+  publicTransportation?: number;
+  regionalBaseline?: Partial<TransportationTable['regionalBaseline']>;
+  metroAreas?: Record<string, MetroArea>;
+}
+
+/**
+ * A published update. Tables it omits carry over from the release before it,
+ * since the median income and IRS tables are revised on different schedules.
+ */
+export interface StandardsReleaseInput {
+  version?: string;
+  effectiveFrom: string;
+  sources?: string[];
+  nationalStandards?: NationalStandardsTable;
+  healthCare?: HealthCareTable;
+  // Merged by state
+  housing?: HousingTable;
+  // Merged by figure, region, and metro area
+  transportation?: TransportationUpdate;
+  // Merged by state
+  medianIncome?: MedianIncomeTable;
+  chapter7Limits?: Chapter7Limits;
+}
@@ -0,0 +1,255 @@
+/**
+ * Tax Form Analysis
+ *
+ * Turns saved 1040s and 1099s into income records, an expected refund
+ * asset, and the prior-year income history for Form 107 questions 4-5,
+ * and checks each return's wages and business income against the
+ * employers and payers income reconciliation found for the same year.
+ */
+
+import type {
+  Extracted1099,
+  ExtractedAsset,
+  ExtractedMonthlyIncome,
+  ExtractedTaxForm,
+  ExtractedTaxReturn,
+} from '../../extraction/financial-extractor';
+import type { FieldSources } from '../../extraction/provenance';
+import type { SofaSuggestion } from '../preferences';
+import type {
+  CaseTaxForm,
+  IncomeHistoryInput,
+  IncomeHistoryReport,
+  ReconciledYearSource,
+  TaxReturnCheck,
+} from './types';
+
+// Form 107 question 4 covers the two calendar years before the filing year
+export const INCOME_HISTORY_YEARS = 2;
+
+// Return and reconciled totals this close are the same income
+export const TAX_RETURN_TOLERANCE = 0.05;
+
+const FORM_1099_INCOME: Record<Extracted1099['formType'], ExtractedMonthlyIncome['incomeSource']> = {
+  '1099-NEC': 'self_employment',
+  '1099-MISC': 'other',
+  '1099-INT': 'interest',
+  '1099-DIV': 'interest',
+  '1099-R': 'pension',
+  'SSA-1099': 'government',
+};
+
+const FORM_1099_LABELS: Record<Extracted1099['formType'], string> = {
+  '1099-NEC': 'Nonemployee compensation',
+  '1099-MISC': 'Miscellaneous income',
+  '1099-INT': 'Interest',
+  '1099-DIV': 'Dividends',
+  '1099-R': 'Retirement distributions',
+  'SSA-1099': 'Social Security benefits',
+};
+
+const RETURN_LINES: Array<{
+  field: 'wages' | 'businessIncome' | 'rentalIncome';
+  incomeSource: ExtractedMonthlyIncome['incomeSource'];
+  label: string;
+}> = [
+  { field: 'wages', incomeSource: 'employment', label: 'wages' },
+  { field: 'businessIncome', incomeSource: 'self_employment', label: 'Schedule C net profit' },
+  { field: 'rentalIncome', incomeSource: 'rental', label: 'Schedule E rental income' },
+];
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function pickSources(sources: FieldSources, fields: Record<string, string>): FieldSources {
+  return Object.fromEntries(
+    Object.entries(fields).flatMap(([field, from]) => (sources[from] ? [[field, sources[from]]] : []))
+  );
+}
+
+/** Rents reported in box 1 of a 1099-MISC */
+function isRentalMisc(form: Extracted1099): boolean {
+  return form.formType === '1099-MISC' && form.box === '1';
+}
+
+/**
+ * Annual income records for a tax form, dated to December of the tax year
+ * like the other annual documents
+ */
+export function taxFormIncomes(form: ExtractedTaxForm): ExtractedMonthlyIncome[] {
+  const incomeMonth = `${form.taxYear}-12`;
+
+  if (form.formType === '1040') {
+    return RETURN_LINES.flatMap(({ field, incomeSource, label }) => {
+      const amount = form[field];
+      if (!amount || amount <= 0) return [];
+
+      return [{
+        incomeMonth,
+        grossAmount: amount,
+        netAmount: null,
+        employer: null,
+        incomeSource,
+        description: `${form.taxYear} Form 1040 ${label}`,
+        confidence: form.confidence,
+        fieldSources: pickSources(form.fieldSources, { grossAmount: field, incomeMonth: 'taxYear' }),
+      }];
+    });
+  }
+
+  return [{
+    incomeMonth,
+    grossAmount: form.amount,
+    netAmount: null,
+    employer: form.payerName,
+    incomeSource: isRentalMisc(form) ? 'rental' : FORM_1099_INCOME[form.formType],
+    description: `${form.taxYear} ${form.formType} ${FORM_1099_LABELS[form.formType].toLowerCase()}${form.payerName ? ` from ${form.payerName}` : ''}`,
+    confidence: form.confidence,
+    fieldSources: pickSources(form.fieldSources, { grossAmount: 'amount', employer: 'payerName', incomeMonth: 'taxYear' }),
+  }];
+}
+
+/**
+ * The refund on the most recent year's return, which is still owed to the
+ * debtor at filing and belongs to the estate. Older refunds have been paid.
+ */
+export function taxRefundAsset(form: ExtractedTaxForm, today: Date = new Date()): ExtractedAsset | null {
+  if (form.formType !== '1040' || !form.refund || form.refund <= 0) return null;
+  if (form.taxYear < today.getFullYear() - 1) return null;
+
+  return {
+    assetType: 'tax_refund',
+    description: `${form.taxYear} federal income tax refund`,
+    estimatedValue: form.refund,
+    ownershipPercentage: 100,
+    isExempt: null,
+    encumbrances: 0,
+    accountLast4: null,
+    institutionName: 'Internal Revenue Service',
+    statementDate: null,
+    source: form.source,
+    confidence: form.confidence,
+    fieldSources: pickSources(form.fieldSources, { estimatedValue: 'refund' }),
+  };
+}
+
+function compareLine(
+  taxYear: number,
+  line: TaxReturnCheck['line'],
+  reported: number,
+  sources: ReconciledYearSource[]
+): TaxReturnCheck | null {
+  const documented = Math.round(sources.reduce((sum, source) => sum + source.verifiedAnnualGross, 0) * 100) / 100;
+  const employers = sources.map(source => source.employerName);
+  const label = line === 'wages' ? 'wages' : 'business income';
+  const check = { taxYear, line, reported, documented, employers };
+
+  if (reported <= 0 && employers.length === 0) return null;
+  if (employers.length === 0) {
+    return {
+      ...check,
+      status: 'unsupported',
+      message: `The ${taxYear} return reports ${formatMoney(reported)} in ${label} but no ${line === 'wages' ? 'W-2s or pay stubs' : '1099s'} for ${taxYear} are on file`,
+    };
+  }
+  if (reported <= 0) {
+    return {
+      ...check,
+      status: 'unreported',
+      message: `${employers.join(', ')} paid ${formatMoney(documented)} in ${taxYear}, but the return reports no ${label}`,
+    };
+  }
+  // Schedule C is net of expenses, so it only needs to be reported
+  if (line === 'business_income') {
+    return { ...check, status: 'matches', message: `The ${taxYear} return reports business income from ${employers.join(', ')}` };
+  }
+  if (Math.abs(reported - documented) <= reported * TAX_RETURN_TOLERANCE) {
+    return { ...check, status: 'matches', message: `The ${taxYear} return's wages match ${employers.join(', ')}` };
+  }
+  return {
+    ...check,
+    status: 'differs',
+    message: `The ${taxYear} return reports ${formatMoney(reported)} in wages; ${employers.join(', ')} account for ${formatMoney(documented)}`,
+  };
+}
+
+/**
+ * Each return's wages and Schedule C income against the reconciled
+ * sources of the same year
+ */
+export function crossCheckTaxReturns(forms: ExtractedTaxForm[], sources: ReconciledYearSource[]): TaxReturnCheck[] {
+  const returns = forms.filter((form): form is ExtractedTaxReturn => form.formType === '1040');
+
+  return returns.flatMap(form => {
+    const ofYear = (type: ReconciledYearSource['incomeType']) =>
+      sources.filter(source => source.incomeYear === form.taxYear && source.incomeType === type);
+
+    return [
+      compareLine(form.taxYear, 'wages', form.wages ?? 0, ofYear('employment')),
+      compareLine(form.taxYear, 'business_income', form.businessIncome ?? 0, ofYear('self_employment')),
+    ].filter((check): check is TaxReturnCheck => check !== null);
+  });
+}
+
+export function analyzeIncomeHistory(input: IncomeHistoryInput): IncomeHistoryReport {
+  const filingYear = Number(input.filingDate.slice(0, 4));
+  const years = Array.from({ length: INCOME_HISTORY_YEARS }, (_, index) => filingYear - INCOME_HISTORY_YEARS + index);
+  const forms = input.forms.filter(form => years.includes(form.taxYear));
+
+  return {
+    filingDate: input.filingDate,
+    filingDateEstimated: input.filingDateEstimated,
+    years,
+    forms,
+    checks: crossCheckTaxReturns(forms, input.sources),
+    gaps: years
+      .filter(year => !forms.some(form => form.formType === '1040' && form.taxYear === year))
+      .map(year => `No ${year} tax return on file`),
+  };
+}
+
+function suggestion(incomeType: string, year: number, source: string, grossAmount: number): SofaSuggestion {
+  return { incomeType, year: String(year), source, grossAmount };
+}
+
+/**
+ * Form 107 question 4-5 entries for each year: the return's wages,
+ * business and rental income, and 1099 income the return does not already
+ * cover
+ */
+export function incomeHistorySuggestions(report: IncomeHistoryReport): SofaSuggestion[] {
+  return report.years.flatMap(year => {
+    const forms = report.forms.filter(form => form.taxYear === year);
+    const taxReturn = forms.find((form): form is CaseTaxForm & ExtractedTaxReturn => form.formType === '1040');
+    const suggestions: SofaSuggestion[] = [];
+
+    if (taxReturn) {
+      if (taxReturn.wages && taxReturn.wages > 0) {
+        suggestions.push(suggestion('employment', year, 'Wages, salaries, and tips (Form 1040)', taxReturn.wages));
+      }
+      if (taxReturn.businessIncome && taxReturn.businessIncome > 0) {
+        suggestions.push(suggestion('business', year, 'Business income (Schedule C)', taxReturn.businessIncome));
+      }
+      if (taxReturn.rentalIncome && taxReturn.rentalIncome > 0) {
+        suggestions.push(suggestion('other', year, 'Rental income (Schedule E)', taxReturn.rentalIncome));
+      }
+    }
+
+    for (const form of forms) {
+      if (form.formType === '1040') continue;
+      if (form.formType === '1099-NEC' && taxReturn?.businessIncome != null) continue;
+      if (isRentalMisc(form) && taxReturn?.rentalIncome != null) continue;
+
+      const label = FORM_1099_LABELS[form.formType];
+      suggestions.push(suggestion(
+        form.formType === '1099-NEC' ? 'business' : 'other',
+        year,
+        form.payerName ? `${label} from ${form.payerName} (${form.formType})` : `${label} (${form.formType})`,
+        form.amount
+      ));
+    }
+
+    return suggestions;
+  });
+}
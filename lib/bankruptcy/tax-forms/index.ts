@@ -0,0 +1,30 @@
+/**
+ * Tax Returns and 1099s
+ *
+ * Structured 1040 and 1099 figures for prior-year income: income records,
+ * expected refunds, the Form 107 income history, and a check of each
+ * return against the reconciled employers.
+ */
+
+// Analysis
+export {
+  INCOME_HISTORY_YEARS,
+  TAX_RETURN_TOLERANCE,
+  analyzeIncomeHistory,
+  crossCheckTaxReturns,
+  incomeHistorySuggestions,
+  taxFormIncomes,
+  taxRefundAsset,
+} from './analysis';
+
+// Storage
+export { loadIncomeHistoryInput, loadTaxForms, saveTaxForm } from './store';
+
+export type {
+  CaseTaxForm,
+  IncomeHistoryInput,
+  IncomeHistoryReport,
+  ReconciledYearSource,
+  TaxReturnCheck,
+  TaxReturnCheckStatus,
+} from './types';
@@ -0,0 +1,105 @@
+/**
+ * Tax Form Storage
+ *
+ * Saves the structured figures read from each 1040 and 1099 and loads
+ * them with the case's reconciled income sources for the income history.
+ */
+
+import type postgres from 'postgres';
+import type { ExtractedTaxForm } from '../../extraction/financial-extractor';
+import type { CaseTaxForm, IncomeHistoryInput, ReconciledYearSource } from './types';
+
+async function tableExists(sql: postgres.Sql, name: string): Promise<boolean> {
+  const [table] = await sql`SELECT to_regclass(${name}) AS name`;
+  return !!table?.name;
+}
+
+/**
+ * Save a document's tax form, replacing what an earlier extraction of the
+ * same document saved
+ */
+export async function saveTaxForm(
+  sql: postgres.Sql,
+  caseId: string,
+  documentId: string,
+  form: ExtractedTaxForm
+): Promise<string> {
+  const id = `tax_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  const { fieldSources, ...figures } = form;
+
+  await sql`DELETE FROM tax_forms WHERE case_id = ${caseId} AND document_id = ${documentId}`;
+  await sql`
+    INSERT INTO tax_forms (
+      id, case_id, document_id, form_type, tax_year, payer_name,
+      figures, confidence, field_sources, created_at
+    ) VALUES (
+      ${id},
+      ${caseId},
+      ${documentId},
+      ${form.formType},
+      ${form.taxYear},
+      ${form.formType === '1040' ? null : form.payerName},
+      ${JSON.stringify(figures)},
+      ${form.confidence},
+      ${JSON.stringify(fieldSources)},
+      NOW()
+    )
+  `;
+  return id;
+}
+
+export async function loadTaxForms(sql: postgres.Sql, caseId: string): Promise<CaseTaxForm[]> {
+  if (!(await tableExists(sql, 'tax_forms'))) return [];
+
+  const rows = await sql`
+    SELECT id, document_id, figures, field_sources
+    FROM tax_forms
+    WHERE case_id = ${caseId}
+    ORDER BY tax_year DESC, created_at
+  `;
+  return rows.map(row => ({
+    ...(row.figures as ExtractedTaxForm),
+    fieldSources: row.field_sources ?? {},
+    id: row.id,
+    documentId: row.document_id,
+  }));
+}
+
+async function loadReconciledSources(sql: postgres.Sql, caseId: string): Promise<ReconciledYearSource[]> {
+  const rows = await sql`
+    SELECT employer_name, income_type, income_year, verified_annual_gross
+    FROM reconciled_income_sources
+    WHERE case_id = ${caseId}
+      AND review_status IS DISTINCT FROM 'rejected'
+  `;
+  return rows.map(row => ({
+    employerName: row.employer_name,
+    incomeType: row.income_type,
+    incomeYear: Number(row.income_year),
+    verifiedAnnualGross: Number(row.verified_annual_gross),
+  }));
+}
+
+/**
+ * Tax forms and reconciled sources for a case, or null when the case does
+ * not exist
+ */
+export async function loadIncomeHistoryInput(
+  sql: postgres.Sql,
+  caseId: string,
+  today: Date = new Date()
+): Promise<IncomeHistoryInput | null> {
+  const [caseRow] = await sql`
+    SELECT to_char(filing_date, 'YYYY-MM-DD') as "filingDate"
+    FROM bankruptcy_cases
+    WHERE id = ${caseId}
+  `;
+  if (!caseRow) return null;
+
+  return {
+    filingDate: caseRow.filingDate ?? today.toISOString().slice(0, 10),
+    filingDateEstimated: !caseRow.filingDate,
+    forms: await loadTaxForms(sql, caseId),
+    sources: await loadReconciledSources(sql, caseId),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Tax Form Types
+ */
+
+import type { ExtractedTaxForm } from '../../extraction/financial-extractor';
+import type { ReconciledIncomeSource } from '../income/types';
+
+/** A Form 1040 or 1099 saved for a case */
+export type CaseTaxForm = ExtractedTaxForm & {
+  id: string;
+  documentId: string | null;
+};
+
+/** An employer or payer found by income reconciliation */
+export type ReconciledYearSource = Pick<
+  ReconciledIncomeSource,
+  'employerName' | 'incomeType' | 'incomeYear' | 'verifiedAnnualGross'
+>;
+
+export interface IncomeHistoryInput {
+  /** Petition date, or today while the case is unfiled (YYYY-MM-DD) */
+  filingDate: string;
+  filingDateEstimated: boolean;
+  forms: CaseTaxForm[];
+  sources: ReconciledYearSource[];
+}
+
+export type TaxReturnCheckStatus = 'matches' | 'differs' | 'unsupported' | 'unreported';
+
+/**
+ * A Form 1040 line compared with the employers or payers reconciliation
+ * found for the same year
+ */
+export interface TaxReturnCheck {
+  taxYear: number;
+  line: 'wages' | 'business_income';
+  /** Amount on the return */
+  reported: number;
+  /** Total of the reconciled sources for the year */
+  documented: number;
+  employers: string[];
+  status: TaxReturnCheckStatus;
+  message: string;
+}
+
+export interface IncomeHistoryReport {
+  filingDate: string;
+  filingDateEstimated: boolean;
+  /** The two calendar years before filing that Form 107 question 4 covers */
+  years: number[];
+  /** Forms for those years */
+  forms: CaseTaxForm[];
+  checks: TaxReturnCheck[];
+  /** Years with no return on file */
+  gaps: string[];
+}
@@ -4,7 +4,7 @@
  */
 
 import { CaseDevClient } from './client';
-import { db } from '@/lib/db';
+import { getDb } from '@/lib/db';
 import { userDatabases } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 
@@ -60,7 +60,7 @@ export async function provisionUserDatabase(
       status: 'active',
     };
 
-    await db.insert(userDatabases).values({
+    await getDb().insert(userDatabases).values({
       userId,
       projectId: project.id,
       projectName,
@@ -79,7 +79,7 @@ export async function provisionUserDatabase(
     console.error(`Failed to provision database for user ${userId}:`, error);
 
     // Store error state
-    await db.insert(userDatabases).values({
+    await getDb().insert(userDatabases).values({
       userId,
       projectId: `error-${Date.now()}`,
       projectName: `error-${userId}`,
@@ -99,7 +99,7 @@ export async function provisionUserDatabase(
 export async function getUserDatabase(
   userId: string
 ): Promise<UserDatabaseInfo | null> {
-  const result = await db
+  const result = await getDb()
     .select()
     .from(userDatabases)
     .where(eq(userDatabases.userId, userId))
@@ -146,7 +146,7 @@ export async function deleteUserDatabase(
     await caseDevClient.deleteDatabaseProject(dbInfo.projectId);
 
     // Delete from our database
-    await db.delete(userDatabases).where(eq(userDatabases.userId, userId));
+    await getDb().delete(userDatabases).where(eq(userDatabases.userId, userId));
 
     console.log(`Database ${dbInfo.projectId} deleted for user ${userId}`);
   } catch (error) {
@@ -5,7 +5,7 @@
  * All keys are encrypted before storage and decrypted only when needed
  */
 
-import { db } from '../db';
+import { getDb } from '../db';
 import { caseDevCredentials } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { ApiKeyEncryption } from './encryption';
@@ -29,7 +29,7 @@ export async function storeApiKey(
   const last4 = ApiKeyEncryption.getLast4(apiKey);
 
   // Upsert (insert or update if exists)
-  await db
+  await getDb()
     .insert(caseDevCredentials)
     .values({
       userId,
@@ -62,7 +62,7 @@ export async function storeApiKey(
 export async function getApiKeyForUser(
   userId: string
 ): Promise<string | null> {
-  const result = await db
+  const result = await getDb()
     .select()
     .from(caseDevCredentials)
     .where(eq(caseDevCredentials.userId, userId))
@@ -96,7 +96,7 @@ export async function getApiKeyForUser(
  * @param userId - The user's ID
  */
 export async function removeApiKey(userId: string): Promise<void> {
-  await db
+  await getDb()
     .delete(caseDevCredentials)
     .where(eq(caseDevCredentials.userId, userId));
 }
@@ -109,7 +109,7 @@ export async function removeApiKey(userId: string): Promise<void> {
  * @param userId - The user's ID
  */
 export async function updateLastUsed(userId: string): Promise<void> {
-  await db
+  await getDb()
     .update(caseDevCredentials)
     .set({ lastUsedAt: new Date() })
     .where(eq(caseDevCredentials.userId, userId));
@@ -127,7 +127,7 @@ export async function updateLastUsed(userId: string): Promise<void> {
 export async function getApiKeyDisplay(
   userId: string
 ): Promise<{ last4: string; verified: boolean } | null> {
-  const result = await db
+  const result = await getDb()
     .select({
       last4: caseDevCredentials.apiKeyLast4,
       verifiedAt: caseDevCredentials.verifiedAt,
@@ -157,7 +157,7 @@ export async function getApiKeyDisplay(
  * @returns true if user has API key stored
  */
 export async function hasApiKey(userId: string): Promise<boolean> {
-  const result = await db
+  const result = await getDb()
     .select({ id: caseDevCredentials.id })
     .from(caseDevCredentials)
     .where(eq(caseDevCredentials.userId, userId))
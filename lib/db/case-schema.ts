@@ -0,0 +1,971 @@
+/**
+ * Case Database Schema
+ *
+ * Drizzle schema for the per-user case.dev databases that hold bankruptcy
+ * cases. Migrations in drizzle/case are generated from this file and
+ * applied on connect; see lib/db/migrate.ts.
+ *
+ * Ids are TEXT: routes generate `${prefix}_${Date.now()}_${random}` ids,
+ * and cases and documents default to gen_random_uuid()::text.
+ */
+
+import { sql } from 'drizzle-orm';
+import {
+  pgTable,
+  text,
+  timestamp,
+  boolean,
+  index,
+  uniqueIndex,
+  unique,
+  integer,
+  decimal,
+  date,
+  primaryKey,
+  jsonb,
+  foreignKey,
+} from 'drizzle-orm/pg-core';
+
+/**
+ * Bankruptcy Case Management Tables
+ */
+
+export const bankruptcyCases = pgTable(
+  'bankruptcy_cases',
+  {
+    id: text('id').primaryKey().default(sql`gen_random_uuid()::text`),
+    userId: text('user_id'), // Set by voice intake; the database already belongs to one account
+
+    // Client Information
+    clientName: text('client_name').notNull(),
+    clientEmail: text('client_email'),
+    clientPhone: text('client_phone'),
+    ssnLast4: text('ssn_last4'),
+    ssn: text('ssn'), // Encrypted; see lib/db/field-encryption.ts
+    dateOfBirth: text('date_of_birth'), // Encrypted
+
+    // Address
+    address: text('address'),
+    city: text('city'),
+    state: text('state'),
+    zip: text('zip'),
+    county: text('county'),
+
+    // Case Details
+    caseType: text('case_type').notNull().$type<'chapter7' | 'chapter13'>(),
+    filingType: text('filing_type').notNull().$type<'individual' | 'joint'>(),
+    householdSize: integer('household_size'),
+
+    // Status
+    status: text('status').notNull().default('intake')
+      .$type<'intake' | 'documents_pending' | 'review' | 'ready_to_file' | 'filed' | 'discharged' | 'dismissed'>(),
+
+    // Court Information
+    pacerCaseNumber: text('pacer_case_number'),
+    courtDistrict: text('court_district'),
+    filingDate: date('filing_date'),
+    dischargeDate: date('discharge_date'),
+
+    // Timestamps
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    statusIdx: index('bankruptcy_cases_status_idx').on(table.status),
+  })
+);
+
+export const caseDocuments = pgTable(
+  'case_documents',
+  {
+    id: text('id').primaryKey().default(sql`gen_random_uuid()::text`),
+    caseId: text('case_id').notNull(),
+
+    // Document Storage
+    fileName: text('file_name').notNull(),
+    fileType: text('file_type'),
+    fileSize: integer('file_size'),
+    vaultFileId: text('vault_file_id'),
+
+    // Document Classification
+    documentType: text('document_type')
+      .$type<'paystub' | 'w2' | 'tax_return' | '1099' | 'bank_statement' | 'mortgage' | 'lease' | 'utility' | 'insurance' | 'credit_card' | 'loan_statement' | 'medical_bill' | 'collection_notice' | 'vehicle_title' | 'property_deed' | 'other'>(),
+
+    // Validation and extraction results
+    validationStatus: text('validation_status').default('pending')
+      .$type<'pending' | 'valid' | 'invalid' | 'needs_review'>(),
+    extractedData: jsonb('extracted_data'),
+
+    // OCR Results
+    ocrText: text('ocr_text'), // Encrypted
+    ocrCompleted: boolean('ocr_completed').default(false),
+
+    // Batch upload classification: predicted type, confidence, page range, corrections
+    classification: jsonb('classification'),
+
+    // Review inbox decision on documents flagged needs_review
+    reviewStatus: text('review_status'),
+    verifiedBy: text('verified_by'),
+    verifiedAt: timestamp('verified_at'),
+
+    // Timestamps
+    uploadedAt: timestamp('uploaded_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => ({
+    caseFk: foreignKey({
+      name: 'case_documents_case_id_fkey',
+      columns: [table.caseId],
+      foreignColumns: [bankruptcyCases.id],
+    }).onDelete('cascade'),
+    caseIdIdx: index('case_documents_case_id_idx').on(table.caseId),
+    documentTypeIdx: index('case_documents_type_idx').on(table.documentType),
+  })
+);
+
+export const incomeRecords = pgTable(
+  'income_records',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    documentId: text('document_id'), // case_documents.id the record was extracted from
+
+    // Income Month (YYYY-MM format for 6-month CMI tracking per Form B 122A-2)
+    // This is the calendar month the income was RECEIVED (not earned)
+    incomeMonth: text('income_month').notNull(), // e.g., '2025-01'
+
+    // Income Details
+    employer: text('employer'),
+    occupation: text('occupation'),
+    grossAmount: decimal('gross_amount', { precision: 10, scale: 2 }).notNull(),
+    netAmount: decimal('net_amount', { precision: 10, scale: 2 }),
+
+    // Income Source Type (per Form B 122A-2 income categories)
+    incomeSource: text('income_source').notNull().default('employment')
+      .$type<
+        | 'employment'      // Line 2: Gross wages, salary, tips, bonuses, overtime, commissions
+        | 'self_employment' // Line 3: Net income from business, profession, or farm
+        | 'rental'          // Line 4: Rent and other real property income
+        | 'interest'        // Line 5: Interest, dividends, and royalties
+        | 'pension'         // Line 6: Pension and retirement income
+        | 'government'      // Line 7: State disability, unemployment, etc.
+        | 'spouse'          // Line 8: Income from spouse (if not filing jointly)
+        | 'alimony'         // Line 9: Alimony/maintenance received
+        | 'contributions'   // Line 10: Regular contributions from others
+        | 'social_security' // Excluded from CMI by § 101(10A)(B)
+        | 'other'           // Line 11: Other income
+      >(),
+
+    // Additional metadata
+    description: text('description'), // e.g., "Bi-weekly paycheck", "Monthly rental income"
+    confidence: decimal('confidence', { precision: 3, scale: 2 }), // LLM extraction confidence 0-1
+    extractedAt: timestamp('extracted_at'), // When LLM extraction occurred
+    fieldSources: jsonb('field_sources'), // Page, offsets and snippet of the OCR text each field was read from
+
+    // Review inbox decision
+    reviewStatus: text('review_status').$type<'accepted' | 'edited' | 'rejected'>(),
+    determinationMethod: text('determination_method'), // 'manual_override' once reviewed
+    verifiedBy: text('verified_by'),
+    verifiedAt: timestamp('verified_at'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('income_records_case_id_idx').on(table.caseId),
+    incomeMonthIdx: index('income_records_month_idx').on(table.incomeMonth),
+  })
+);
+
+/**
+ * Employer-level income after reconciling paystubs, W-2s and tax returns;
+ * see lib/bankruptcy/income/case-reconciliation.ts
+ */
+export const reconciledIncomeSources = pgTable(
+  'reconciled_income_sources',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    employerName: text('employer_name').notNull(),
+    employerEin: text('employer_ein'),
+    incomeType: text('income_type').notNull(),
+    incomeYear: integer('income_year').notNull().default(sql`EXTRACT(YEAR FROM CURRENT_DATE)::integer`),
+    verifiedAnnualGross: decimal('verified_annual_gross', { precision: 12, scale: 2 }).notNull(),
+    verifiedMonthlyGross: decimal('verified_monthly_gross', { precision: 12, scale: 2 }).notNull(),
+    verifiedAnnualNet: decimal('verified_annual_net', { precision: 12, scale: 2 }),
+    verifiedMonthlyNet: decimal('verified_monthly_net', { precision: 12, scale: 2 }),
+    determinationMethod: text('determination_method').notNull(),
+    evidence: jsonb('evidence'),
+    confidence: decimal('confidence', { precision: 3, scale: 2 }).notNull(),
+    status: text('status').notNull(),
+    discrepancy: jsonb('discrepancy'),
+
+    // Review inbox decision (see incomeRecords.reviewStatus)
+    reviewStatus: text('review_status'),
+    verifiedBy: text('verified_by'),
+    verifiedAt: timestamp('verified_at'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('reconciled_income_sources_case_id_idx').on(table.caseId),
+  })
+);
+
+export const debts = pgTable(
+  'debts',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    // Creditor Information
+    creditorName: text('creditor_name').notNull(),
+    creditorAddress: text('creditor_address'),
+    accountNumber: text('account_number'), // Encrypted
+    accountLast4: text('account_last4'),
+
+    // Debt Details
+    balance: decimal('balance', { precision: 10, scale: 2 }).notNull(),
+    monthlyPayment: decimal('monthly_payment', { precision: 10, scale: 2 }),
+    interestRate: decimal('interest_rate', { precision: 5, scale: 2 }),
+
+    // Classification
+    debtType: text('debt_type').notNull()
+      .$type<'credit_card' | 'medical' | 'personal_loan' | 'auto_loan' | 'mortgage' | 'student_loan' | 'tax' | 'child_support' | 'other'>(),
+    secured: boolean('secured').default(false),
+    priority: boolean('priority').default(false),
+
+    // Collateral (if secured)
+    collateral: text('collateral'),
+    collateralValue: decimal('collateral_value', { precision: 10, scale: 2 }),
+
+    // Dates
+    dateIncurred: date('date_incurred'),
+    statementDate: date('statement_date'),
+
+    // Extraction provenance (see incomeRecords.fieldSources)
+    documentId: text('document_id'),
+    confidence: decimal('confidence', { precision: 3, scale: 2 }),
+    fieldSources: jsonb('field_sources'),
+
+    // Review inbox decision (see incomeRecords.reviewStatus)
+    reviewStatus: text('review_status'),
+    determinationMethod: text('determination_method'),
+    verifiedBy: text('verified_by'),
+    verifiedAt: timestamp('verified_at'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('debts_case_id_idx').on(table.caseId),
+    debtTypeIdx: index('debts_type_idx').on(table.debtType),
+  })
+);
+
+export const assets = pgTable(
+  'assets',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    // Asset Details
+    assetType: text('asset_type').notNull()
+      .$type<'real_estate' | 'vehicle' | 'bank_account' | 'retirement' | 'household_goods' | 'jewelry' | 'collectibles' | 'tax_refund' | 'business' | 'other'>(),
+    description: text('description').notNull(),
+    currentValue: decimal('current_value', { precision: 10, scale: 2 }).notNull(),
+
+    // Real Estate Specific
+    address: text('address'),
+
+    // Vehicle Specific
+    make: text('make'),
+    model: text('model'),
+    year: integer('year'),
+    vin: text('vin'),
+
+    // Financial Account Specific
+    institution: text('institution'),
+    accountNumberLast4: text('account_number_last4'),
+    statementDate: date('statement_date'),
+
+    // Ownership
+    ownershipPercentage: decimal('ownership_percentage', { precision: 5, scale: 2 }).default('100'),
+
+    // Extraction provenance (see incomeRecords.fieldSources)
+    documentId: text('document_id'),
+    confidence: decimal('confidence', { precision: 3, scale: 2 }),
+    fieldSources: jsonb('field_sources'),
+
+    // Review inbox decision (see incomeRecords.reviewStatus)
+    reviewStatus: text('review_status'),
+    determinationMethod: text('determination_method'),
+    verifiedBy: text('verified_by'),
+    verifiedAt: timestamp('verified_at'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('assets_case_id_idx').on(table.caseId),
+  })
+);
+
+export const executoryContracts = pgTable(
+  'executory_contracts',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    // Contract or Lease Details (Schedule G)
+    counterpartyName: text('counterparty_name').notNull(),
+    counterpartyAddress: text('counterparty_address'),
+    contractType: text('contract_type').notNull()
+      .$type<'residential_lease' | 'vehicle_lease' | 'equipment_lease' | 'service_contract' | 'other'>(),
+    description: text('description').notNull(),
+    monthlyPayment: decimal('monthly_payment', { precision: 10, scale: 2 }),
+    expirationDate: date('expiration_date'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('executory_contracts_case_id_idx').on(table.caseId),
+  })
+);
+
+export const codebtors = pgTable(
+  'codebtors',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    debtId: text('debt_id').notNull(), // debts.id
+
+    // Codebtor Details (Schedule H)
+    name: text('name').notNull(),
+    address: text('address'),
+    relationship: text('relationship'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('codebtors_case_id_idx').on(table.caseId),
+    debtIdIdx: index('codebtors_debt_id_idx').on(table.debtId),
+  })
+);
+
+export const caseInsiders = pgTable(
+  'case_insiders',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    // Relatives and partners checked in the SOFA insider look-back
+    name: text('name').notNull(),
+    relationship: text('relationship').notNull(),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('case_insiders_case_id_idx').on(table.caseId),
+  })
+);
+
+export const assetExemptions = pgTable(
+  'asset_exemptions',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    assetId: text('asset_id').notNull(), // assets.id
+
+    // Exemption Claim (Schedule C)
+    schemeId: text('scheme_id').notNull(), // 'federal' or state code
+    ruleId: text('rule_id').notNull(),
+    category: text('category').notNull()
+      .$type<'homestead' | 'motor_vehicle' | 'household_goods' | 'jewelry' | 'tools_of_trade' | 'retirement' | 'personal_property' | 'wildcard'>(),
+    statute: text('statute').notNull(),
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('asset_exemptions_case_id_idx').on(table.caseId),
+  })
+);
+
+export const expenses = pgTable(
+  'expenses',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    documentId: text('document_id'),
+
+    // Expense Details
+    category: text('category').notNull()
+      .$type<'housing' | 'utilities' | 'telecommunications' | 'food' | 'clothing' | 'transportation' | 'medical' | 'childcare' | 'insurance' | 'life_insurance' | 'taxes' | 'payroll_deductions' | 'court_ordered_payments' | 'debt_payments' | 'entertainment' | 'education' | 'other'>(),
+    description: text('description'),
+    monthlyAmount: decimal('monthly_amount', { precision: 10, scale: 2 }).notNull(),
+
+    // IRS Standard Reference (for means test)
+    isIrsStandard: boolean('is_irs_standard').default(false),
+    irsStandardType: text('irs_standard_type').$type<'national' | 'local' | 'other' | null>(),
+
+    confidence: decimal('confidence', { precision: 3, scale: 2 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('expenses_case_id_idx').on(table.caseId),
+    categoryIdx: index('expenses_category_idx').on(table.category),
+  })
+);
+
+/**
+ * Bank statement ledger; see lib/transactions
+ */
+export const bankTransactions = pgTable(
+  'bank_transactions',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    documentId: text('document_id'), // case_documents.id of the statement
+    accountLast4: text('account_last4'),
+
+    postedDate: date('posted_date').notNull(),
+    description: text('description').notNull(),
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(), // Deposits positive, withdrawals negative
+
+    // Deposit source or Schedule J bucket (see TransactionCategory)
+    category: text('category').notNull(),
+    categoryOverride: boolean('category_override').notNull().default(false),
+    recurring: boolean('recurring').notNull().default(false),
+    flag: text('flag').$type<'large_transfer' | 'cash_withdrawal' | null>(),
+    fieldSources: jsonb('field_sources'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseDateIdx: index('bank_transactions_case_date_idx').on(table.caseId, table.postedDate),
+  })
+);
+
+/**
+ * Structured 1040 and 1099 figures; see lib/bankruptcy/tax-forms
+ */
+export const taxForms = pgTable(
+  'tax_forms',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    documentId: text('document_id'), // case_documents.id of the form
+
+    formType: text('form_type')
+      .notNull()
+      .$type<'1040' | '1099-NEC' | '1099-MISC' | '1099-INT' | '1099-DIV' | '1099-R' | 'SSA-1099'>(),
+    taxYear: integer('tax_year').notNull(),
+    payerName: text('payer_name'), // 1099 payer
+    figures: jsonb('figures').notNull(), // ExtractedTaxForm without its field sources
+    confidence: decimal('confidence', { precision: 3, scale: 2 }),
+    fieldSources: jsonb('field_sources'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseYearIdx: index('tax_forms_case_year_idx').on(table.caseId, table.taxYear),
+  })
+);
+
+/**
+ * Self-employment sub-ledger: monthly gross receipts and categorized
+ * business expenses; see lib/bankruptcy/self-employment
+ */
+export const selfEmploymentEntries = pgTable(
+  'self_employment_entries',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    businessName: text('business_name').notNull(),
+    entryMonth: text('entry_month').notNull(), // YYYY-MM
+    entryType: text('entry_type').notNull().$type<'receipts' | 'expense'>(),
+    category: text('category'), // Schedule C expense category
+    amount: decimal('amount', { precision: 12, scale: 2 }).notNull(),
+    description: text('description'),
+    taxFormId: text('tax_form_id'), // tax_forms.id when imported from Schedule C
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseMonthIdx: index('self_employment_entries_case_month_idx').on(table.caseId, table.entryMonth),
+  })
+);
+
+export const meansTestResults = pgTable('means_test_results', {
+  id: text('id').primaryKey(),
+  caseId: text('case_id').notNull().unique('means_test_results_case_id_key'),
+
+  // Income Calculations
+  currentMonthlyIncome: decimal('current_monthly_income', { precision: 10, scale: 2 }).notNull(),
+  annualizedIncome: decimal('annualized_income', { precision: 10, scale: 2 }).notNull(),
+  stateMedianIncome: decimal('state_median_income', { precision: 10, scale: 2 }).notNull(),
+  belowMedian: boolean('below_median').notNull(),
+
+  // Disposable Income (if above median)
+  disposableIncome: decimal('disposable_income', { precision: 10, scale: 2 }),
+
+  // Result
+  passed: boolean('passed').notNull(),
+  eligible: boolean('eligible').notNull(),
+
+  // Explanation
+  explanation: text('explanation'),
+
+  // Standards release used (see lib/bankruptcy/standards)
+  standardsVersion: text('standards_version').notNull(),
+
+  calculatedAt: timestamp('calculated_at').notNull().defaultNow(),
+});
+
+// Non-filing spouse facts for the CMI marital adjustment (Form 122A-2 Line 3)
+export const householdIncomeSettings = pgTable('household_income_settings', {
+  caseId: text('case_id').primaryKey(),
+  spouseHouseholdContribution: decimal('spouse_household_contribution', { precision: 10, scale: 2 }),
+  spouseSeparateHousehold: boolean('spouse_separate_household').notNull().default(false),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// Firm-wide income reconciliation tolerances; each save is a new version
+export const reconciliationPolicies = pgTable('reconciliation_policies', {
+  version: integer('version').primaryKey(),
+  settings: jsonb('settings').notNull(), // ReconciliationPolicySettings
+  updatedBy: text('updated_by'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+/**
+ * Recorded income reconciliations: inputs, policy, per-source decisions,
+ * and changes since the previous run; see lib/bankruptcy/income/runs.ts
+ */
+export const reconciliationRuns = pgTable(
+  'reconciliation_runs',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+    trigger: text('trigger').notNull().$type<'api' | 'document_processing'>(),
+    policyVersion: integer('policy_version').notNull(),
+    policy: jsonb('policy').notNull(),
+    inputs: jsonb('inputs').notNull(), // RawIncomeExtraction[]
+    sources: jsonb('sources').notNull(),
+    decisions: jsonb('decisions').notNull(),
+    currentMonthlyIncome: decimal('current_monthly_income', { precision: 12, scale: 2 }).notNull(),
+    diff: jsonb('diff').notNull(),
+    previousRunId: text('previous_run_id'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseCreatedIdx: index('reconciliation_runs_case_created_idx').on(table.caseId, table.createdAt),
+  })
+);
+
+/**
+ * Statement of Financial Affairs (Form 107) Tables
+ * Section tables mirror SOFA_SECTIONS in lib/bankruptcy/sofa/sections.ts
+ */
+
+export const sofaAnswers = pgTable(
+  'sofa_answers',
+  {
+    caseId: text('case_id').notNull(),
+    section: text('section').notNull(),
+    answer: boolean('answer').notNull(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ name: 'sofa_answers_pkey', columns: [table.caseId, table.section] }),
+  })
+);
+
+export const sofaPriorAddresses = pgTable(
+  'sofa_prior_addresses',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    street: text('street').notNull(),
+    city: text('city').notNull(),
+    state: text('state').notNull(),
+    zip: text('zip'),
+    fromDate: date('from_date').notNull(),
+    toDate: date('to_date').notNull(),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_prior_addresses_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaIncomeHistory = pgTable(
+  'sofa_income_history',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    incomeType: text('income_type').notNull().$type<'employment' | 'business' | 'other'>(),
+    year: text('year').notNull(),
+    source: text('source').notNull(),
+    grossAmount: decimal('gross_amount', { precision: 12, scale: 2 }).notNull(),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_income_history_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaCreditorPayments = pgTable(
+  'sofa_creditor_payments',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    creditorName: text('creditor_name').notNull(),
+    creditorAddress: text('creditor_address'),
+    paymentDates: text('payment_dates').notNull(),
+    totalPaid: decimal('total_paid', { precision: 12, scale: 2 }).notNull(),
+    amountStillOwed: decimal('amount_still_owed', { precision: 12, scale: 2 }),
+    reason: text('reason'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_creditor_payments_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaInsiderPayments = pgTable(
+  'sofa_insider_payments',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    insiderName: text('insider_name').notNull(),
+    relationship: text('relationship').notNull(),
+    paymentDates: text('payment_dates').notNull(),
+    totalPaid: decimal('total_paid', { precision: 12, scale: 2 }).notNull(),
+    amountStillOwed: decimal('amount_still_owed', { precision: 12, scale: 2 }),
+    reason: text('reason'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_insider_payments_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaLawsuits = pgTable(
+  'sofa_lawsuits',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    caseTitle: text('case_title').notNull(),
+    caseNumber: text('case_number'),
+    natureOfCase: text('nature_of_case').notNull(),
+    court: text('court').notNull(),
+    status: text('status').notNull().$type<'pending' | 'on_appeal' | 'concluded'>(),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_lawsuits_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaRepossessions = pgTable(
+  'sofa_repossessions',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    creditorName: text('creditor_name').notNull(),
+    property: text('property').notNull(),
+    action: text('action').notNull()
+      .$type<'repossessed' | 'foreclosed' | 'garnished' | 'attached_seized_levied'>(),
+    actionDate: date('action_date').notNull(),
+    value: decimal('value', { precision: 12, scale: 2 }),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_repossessions_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaGifts = pgTable(
+  'sofa_gifts',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    recipientName: text('recipient_name').notNull(),
+    relationship: text('relationship'),
+    isCharity: boolean('is_charity'),
+    description: text('description').notNull(),
+    giftDate: date('gift_date').notNull(),
+    value: decimal('value', { precision: 12, scale: 2 }).notNull(),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_gifts_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaLosses = pgTable(
+  'sofa_losses',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    description: text('description').notNull(),
+    lossDate: date('loss_date').notNull(),
+    value: decimal('value', { precision: 12, scale: 2 }).notNull(),
+    insurancePaid: decimal('insurance_paid', { precision: 12, scale: 2 }),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_losses_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaTransfers = pgTable(
+  'sofa_transfers',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    transfereeName: text('transferee_name').notNull(),
+    relationship: text('relationship'),
+    description: text('description').notNull(),
+    transferDate: date('transfer_date').notNull(),
+    paymentReceived: decimal('payment_received', { precision: 12, scale: 2 }),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_transfers_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaClosedAccounts = pgTable(
+  'sofa_closed_accounts',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    institution: text('institution').notNull(),
+    accountLast4: text('account_last4'),
+    accountType: text('account_type').notNull()
+      .$type<'checking' | 'savings' | 'money_market' | 'brokerage' | 'other'>(),
+    closedDate: date('closed_date').notNull(),
+    lastBalance: decimal('last_balance', { precision: 12, scale: 2 }),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_closed_accounts_case_id_idx').on(table.caseId),
+  })
+);
+
+export const sofaSafeDepositBoxes = pgTable(
+  'sofa_safe_deposit_boxes',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    institution: text('institution').notNull(),
+    institutionAddress: text('institution_address'),
+    accessHolders: text('access_holders'),
+    contents: text('contents').notNull(),
+    stillHas: boolean('still_has'),
+
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseIdIdx: index('sofa_safe_deposit_boxes_case_id_idx').on(table.caseId),
+  })
+);
+
+/**
+ * Petition Acknowledgments
+ * The debtor's e-acknowledgment from the client portal; see
+ * lib/bankruptcy/acknowledgment. The digest pins the summary they reviewed.
+ */
+
+export const petitionAcknowledgments = pgTable(
+  'petition_acknowledgments',
+  {
+    id: text('id').primaryKey(),
+    caseId: text('case_id').notNull(),
+
+    signerName: text('signer_name').notNull(),
+    summary: jsonb('summary').notNull(), // PetitionSummary
+    summaryDigest: text('summary_digest').notNull(),
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+
+    acknowledgedAt: timestamp('acknowledged_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    caseAcknowledgedIdx: index('petition_acknowledgments_case_acknowledged_idx').on(table.caseId, table.acknowledgedAt),
+  })
+);
+
+/**
+ * Data Keys
+ * The firm's field encryption keys, wrapped with CASE_DEV_ENCRYPTION_KEY;
+ * see lib/db/field-encryption.ts. The newest unretired version encrypts
+ * new values; retired versions are kept to read values not yet rotated.
+ */
+
+export const dataKeys = pgTable('data_keys', {
+  version: integer('version').primaryKey(),
+  wrappedKey: text('wrapped_key').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  retiredAt: timestamp('retired_at', { withTimezone: true }),
+});
+
+/**
+ * Background Jobs
+ * Durable processing queue; see lib/jobs/store.ts
+ */
+
+export const backgroundJobs = pgTable(
+  'background_jobs',
+  {
+    id: text('id').primaryKey(),
+    jobType: text('job_type').notNull(),
+    caseId: text('case_id').notNull(),
+    subjectId: text('subject_id').notNull(), // e.g. case_documents.id
+    status: text('status').notNull().default('queued'), // 'queued', 'running', 'completed', 'failed'
+    payload: jsonb('payload').notNull().default({}),
+    currentStep: text('current_step'),
+    stepResults: jsonb('step_results').notNull().default({}),
+    progress: integer('progress').notNull().default(0),
+    message: text('message'),
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(5),
+    runAfter: timestamp('run_after', { withTimezone: true }).notNull().defaultNow(),
+    lockedBy: text('locked_by'),
+    lockedAt: timestamp('locked_at', { withTimezone: true }),
+    lastError: text('last_error'),
+    apiKeyEncrypted: text('api_key_encrypted'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => ({
+    // One queued or running job per subject and type
+    activeIdx: uniqueIndex('background_jobs_active_idx')
+      .on(table.jobType, table.subjectId)
+      .where(sql`status IN ('queued', 'running')`),
+    readyIdx: index('background_jobs_ready_idx').on(table.status, table.runAfter),
+  })
+);
+
+/**
+ * Batch uploads: source files are split into pages, each page is
+ * classified, and runs of pages become case documents
+ */
+export const documentBatches = pgTable('document_batches', {
+  id: text('id').primaryKey(),
+  caseId: text('case_id').notNull(),
+  status: text('status').notNull().default('processing'), // 'processing', 'completed', 'failed'
+  sourceCount: integer('source_count').notNull().default(0),
+  documentCount: integer('document_count').notNull().default(0),
+  skippedFiles: jsonb('skipped_files').notNull().default([]),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at'),
+});
+
+export const documentBatchSources = pgTable(
+  'document_batch_sources',
+  {
+    id: text('id').primaryKey(),
+    batchId: text('batch_id').notNull(),
+    sourceIndex: integer('source_index').notNull(),
+    fileName: text('file_name').notNull(),
+    contentType: text('content_type').notNull(),
+    vaultFileId: text('vault_file_id').notNull(),
+    pageCount: integer('page_count').notNull().default(1),
+  },
+  (table) => ({
+    batchFk: foreignKey({
+      name: 'document_batch_sources_batch_id_fkey',
+      columns: [table.batchId],
+      foreignColumns: [documentBatches.id],
+    }).onDelete('cascade'),
+    batchSourceUnique: unique('document_batch_sources_batch_id_source_index_key').on(table.batchId, table.sourceIndex),
+  })
+);
+
+export const documentBatchPages = pgTable(
+  'document_batch_pages',
+  {
+    id: text('id').primaryKey(),
+    batchId: text('batch_id').notNull(),
+    sourceId: text('source_id').notNull(),
+    pageNumber: integer('page_number').notNull(),
+    vaultFileId: text('vault_file_id'),
+    ocrText: text('ocr_text'), // Encrypted
+    classification: jsonb('classification'),
+    documentId: text('document_id'), // case_documents.id once pages are grouped
+  },
+  (table) => ({
+    batchFk: foreignKey({
+      name: 'document_batch_pages_batch_id_fkey',
+      columns: [table.batchId],
+      foreignColumns: [documentBatches.id],
+    }).onDelete('cascade'),
+    sourceFk: foreignKey({
+      name: 'document_batch_pages_source_id_fkey',
+      columns: [table.sourceId],
+      foreignColumns: [documentBatchSources.id],
+    }).onDelete('cascade'),
+    sourcePageUnique: unique('document_batch_pages_source_id_page_number_key').on(table.sourceId, table.pageNumber),
+  })
+);
+
+/**
+ * Type exports for use in application code
+ */
+
+export type BankruptcyCase = typeof bankruptcyCases.$inferSelect;
+export type NewBankruptcyCase = typeof bankruptcyCases.$inferInsert;
+export type CaseDocument = typeof caseDocuments.$inferSelect;
+export type NewCaseDocument = typeof caseDocuments.$inferInsert;
+export type IncomeRecord = typeof incomeRecords.$inferSelect;
+export type NewIncomeRecord = typeof incomeRecords.$inferInsert;
+export type ReconciledIncomeSource = typeof reconciledIncomeSources.$inferSelect;
+export type Debt = typeof debts.$inferSelect;
+export type NewDebt = typeof debts.$inferInsert;
+export type Asset = typeof assets.$inferSelect;
+export type NewAsset = typeof assets.$inferInsert;
+export type AssetExemption = typeof assetExemptions.$inferSelect;
+export type NewAssetExemption = typeof assetExemptions.$inferInsert;
+export type ExecutoryContract = typeof executoryContracts.$inferSelect;
+export type NewExecutoryContract = typeof executoryContracts.$inferInsert;
+export type Codebtor = typeof codebtors.$inferSelect;
+export type NewCodebtor = typeof codebtors.$inferInsert;
+export type CaseInsider = typeof caseInsiders.$inferSelect;
+export type MeansTestResult = typeof meansTestResults.$inferSelect;
+export type NewMeansTestResult = typeof meansTestResults.$inferInsert;
+export type Expense = typeof expenses.$inferSelect;
+export type NewExpense = typeof expenses.$inferInsert;
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type TaxForm = typeof taxForms.$inferSelect;
+export type SelfEmploymentEntry = typeof selfEmploymentEntries.$inferSelect;
+export type ReconciliationRunRecord = typeof reconciliationRuns.$inferSelect;
+export type SofaAnswer = typeof sofaAnswers.$inferSelect;
+export type SofaPriorAddress = typeof sofaPriorAddresses.$inferSelect;
+export type PetitionAcknowledgment = typeof petitionAcknowledgments.$inferSelect;
+export type DataKey = typeof dataKeys.$inferSelect;
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type DocumentBatch = typeof documentBatches.$inferSelect;
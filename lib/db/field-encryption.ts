@@ -0,0 +1,256 @@
+/**
+ * Field Encryption
+ *
+ * Envelope encryption for sensitive case database columns: full SSNs,
+ * dates of birth, full account numbers and OCR text. Each firm's case
+ * database holds its own data keys in data_keys, wrapped with
+ * CASE_DEV_ENCRYPTION_KEY through ApiKeyEncryption, so a leaked database
+ * dump is unreadable without the server's key.
+ *
+ * Values are stored as "enc:v1:<keyVersion>:<iv>:<tag>:<ciphertext>".
+ * Anything without that prefix is a value written before encryption and is
+ * read as plaintext until `npm run rotate-data-key` re-encrypts it.
+ */
+
+import crypto from 'crypto';
+import type postgres from 'postgres';
+import { ApiKeyEncryption } from '../case-dev/encryption';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const PREFIX = 'enc:v1:';
+
+/**
+ * Columns holding encrypted values, each keyed by its table's id column
+ */
+export const ENCRYPTED_COLUMNS = [
+  { table: 'bankruptcy_cases', column: 'ssn' },
+  { table: 'bankruptcy_cases', column: 'date_of_birth' },
+  { table: 'debts', column: 'account_number' },
+  { table: 'case_documents', column: 'ocr_text' },
+  { table: 'document_batch_pages', column: 'ocr_text' },
+] as const;
+
+export type EncryptedColumn = (typeof ENCRYPTED_COLUMNS)[number];
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+/**
+ * Key version an encrypted value was written with; null for plaintext
+ */
+export function keyVersionOf(value: string): number | null {
+  if (!isEncryptedValue(value)) return null;
+  const version = Number(value.slice(PREFIX.length).split(':')[0]);
+  return Number.isInteger(version) ? version : null;
+}
+
+/**
+ * Wrap a data key with CASE_DEV_ENCRYPTION_KEY for storage
+ */
+export function wrapDataKey(key: Buffer): string {
+  const { encrypted, iv, tag } = ApiKeyEncryption.encrypt(key.toString('hex'));
+  return ApiKeyEncryption.combine(encrypted, iv, tag);
+}
+
+export function unwrapDataKey(wrapped: string): Buffer {
+  const { encrypted, iv, tag } = ApiKeyEncryption.split(wrapped);
+  const key = Buffer.from(ApiKeyEncryption.decrypt(encrypted, iv, tag), 'hex');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error('Data key has the wrong length');
+  }
+  return key;
+}
+
+/**
+ * Encrypts with the active data key and decrypts with any key version the
+ * database still holds. Plaintext values pass through decrypt unchanged.
+ */
+export class FieldCipher {
+  constructor(
+    private readonly keys: ReadonlyMap<number, Buffer>,
+    readonly activeVersion: number
+  ) {
+    if (!keys.has(activeVersion)) {
+      throw new Error(`Active data key version ${activeVersion} is missing`);
+    }
+  }
+
+  encrypt(value: string): string;
+  encrypt(value: string | null | undefined): string | null;
+  encrypt(value: string | null | undefined): string | null {
+    if (value === null || value === undefined) return null;
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.keys.get(this.activeVersion)!, iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+    return `${PREFIX}${this.activeVersion}:${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted.toString('base64')}`;
+  }
+
+  decrypt(value: string): string;
+  decrypt(value: string | null | undefined): string | null;
+  decrypt(value: string | null | undefined): string | null {
+    if (value === null || value === undefined) return null;
+    if (!isEncryptedValue(value)) return value;
+
+    const [version, iv, tag, encrypted] = value.slice(PREFIX.length).split(':');
+    if (!version || !iv || !tag || encrypted === undefined) {
+      throw new Error('Invalid encrypted field format');
+    }
+
+    const key = this.keys.get(Number(version));
+    if (!key) {
+      throw new Error(`Data key version ${version} is not available`);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * True when the value is empty or already encrypted with the active key
+   */
+  isCurrent(value: string | null | undefined): boolean {
+    if (value === null || value === undefined) return true;
+    return keyVersionOf(value) === this.activeVersion;
+  }
+}
+
+interface DataKeyRow {
+  version: number;
+  wrappedKey: string;
+  retiredAt: Date | null;
+}
+
+async function loadDataKeys(sql: postgres.Sql): Promise<DataKeyRow[]> {
+  const rows = await sql`
+    SELECT version, wrapped_key as "wrappedKey", retired_at as "retiredAt"
+    FROM data_keys
+    ORDER BY version
+  `;
+  return rows as unknown as DataKeyRow[];
+}
+
+function toCipher(rows: DataKeyRow[]): FieldCipher {
+  const keys = new Map(rows.map(row => [row.version, unwrapDataKey(row.wrappedKey)]));
+  const active = rows.filter(row => !row.retiredAt).pop() ?? rows[rows.length - 1];
+  return new FieldCipher(keys, active.version);
+}
+
+/**
+ * Load the firm's data keys, creating the first one on first use
+ */
+export async function loadFieldCipher(sql: postgres.Sql): Promise<FieldCipher> {
+  let rows = await loadDataKeys(sql);
+
+  if (rows.length === 0) {
+    // Concurrent first uses race to insert version 1; the loser reads the winner's key
+    await sql`
+      INSERT INTO data_keys (version, wrapped_key)
+      VALUES (1, ${wrapDataKey(crypto.randomBytes(KEY_LENGTH))})
+      ON CONFLICT (version) DO NOTHING
+    `;
+    rows = await loadDataKeys(sql);
+  }
+
+  return toCipher(rows);
+}
+
+export interface DataKeyRotation {
+  version: number;
+  // Values re-encrypted per "table.column", including plaintext written before encryption
+  reencrypted: Record<string, number>;
+  // Retired versions deleted because no value uses them any more
+  purgedVersions: number[];
+}
+
+const ROTATION_BATCH_SIZE = 200;
+
+/**
+ * Start a new data key version, re-encrypt every encrypted column with it,
+ * and optionally delete retired keys that no value still uses. Safe to
+ * re-run: values already on the active key are skipped.
+ */
+export async function rotateDataKey(
+  sql: postgres.Sql,
+  options: { purge?: boolean; onProgress?: (message: string) => void } = {}
+): Promise<DataKeyRotation> {
+  await loadFieldCipher(sql);
+
+  await sql.begin(async transaction => {
+    // postgres.js types TransactionSql without the tagged-template call signature
+    const tx = transaction as unknown as postgres.Sql;
+    await tx`SELECT pg_advisory_xact_lock(hashtext('data_keys'))`;
+    const [latest] = await tx`SELECT COALESCE(MAX(version), 0) as version FROM data_keys`;
+    await tx`UPDATE data_keys SET retired_at = NOW() WHERE retired_at IS NULL`;
+    await tx`
+      INSERT INTO data_keys (version, wrapped_key)
+      VALUES (${Number(latest.version) + 1}, ${wrapDataKey(crypto.randomBytes(KEY_LENGTH))})
+    `;
+  });
+
+  const cipher = await loadFieldCipher(sql);
+  const reencrypted: Record<string, number> = {};
+
+  for (const { table, column } of ENCRYPTED_COLUMNS) {
+    const name = `${table}.${column}`;
+    reencrypted[name] = 0;
+    let lastId = '';
+
+    for (;;) {
+      const rows = await sql`
+        SELECT id, ${sql(column)} as value
+        FROM ${sql(table)}
+        WHERE ${sql(column)} IS NOT NULL AND id > ${lastId}
+        ORDER BY id
+        LIMIT ${ROTATION_BATCH_SIZE}
+      `;
+      if (rows.length === 0) break;
+      lastId = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+        if (cipher.isCurrent(row.value)) continue;
+
+        // Skip the row if it changed since it was read; a re-run picks it up
+        const updated = await sql`
+          UPDATE ${sql(table)}
+          SET ${sql(column)} = ${cipher.encrypt(cipher.decrypt(row.value as string))}
+          WHERE id = ${row.id} AND ${sql(column)} = ${row.value}
+          RETURNING id
+        `;
+        reencrypted[name] += updated.length;
+      }
+    }
+
+    options.onProgress?.(`${name}: ${reencrypted[name]} re-encrypted`);
+  }
+
+  const purgedVersions: number[] = [];
+  if (options.purge) {
+    const retired = await sql`SELECT version FROM data_keys WHERE retired_at IS NOT NULL ORDER BY version`;
+
+    for (const { version } of retired) {
+      let inUse = false;
+      for (const { table, column } of ENCRYPTED_COLUMNS) {
+        const [match] = await sql`
+          SELECT 1 FROM ${sql(table)} WHERE ${sql(column)} LIKE ${`${PREFIX}${version}:%`} LIMIT 1
+        `;
+        if (match) {
+          inUse = true;
+          break;
+        }
+      }
+
+      if (!inUse) {
+        await sql`DELETE FROM data_keys WHERE version = ${version}`;
+        purgedVersions.push(version);
+      }
+    }
+  }
+
+  return { version: cipher.activeVersion, reencrypted, purgedVersions };
+}
@@ -1,10 +1,30 @@
 /**
- * Database Connection (NOT USED)
+ * Directory Database Connection
  *
- * This app doesn't use a central database!
- * Each user provides their case.dev API key and gets their own database.
+ * The central database (DATABASE_URL) holds firm accounts: users, their
+ * organization memberships and invitations, and the firm's sealed case.dev
+ * key and case database. Case data never lives here; it stays in each firm's
+ * case database (see case-schema.ts).
  *
- * This file is kept for compatibility but db is null.
+ * Without DATABASE_URL, db is null and only API key sign-in is available.
  */
 
-export const db = null as any;
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import * as schema from './schema';
+
+export const db = process.env.DATABASE_URL
+  ? drizzle(postgres(process.env.DATABASE_URL), { schema })
+  : null;
+
+export type DirectoryDatabase = NonNullable<typeof db>;
+
+/**
+ * The directory database, or an error when DATABASE_URL is not configured
+ */
+export function getDb(): DirectoryDatabase {
+  if (!db) {
+    throw new Error('Firm accounts require DATABASE_URL to be configured');
+  }
+  return db;
+}
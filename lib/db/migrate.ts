@@ -0,0 +1,197 @@
+/**
+ * Case Database Migrations
+ *
+ * Applies the versioned migrations in drizzle/case (generated from
+ * lib/db/case-schema.ts) to a per-user case database. Applied versions are
+ * recorded in schema_migrations; each migration runs in its own transaction
+ * under an advisory lock, so concurrent connections apply it only once.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import postgres from 'postgres';
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'drizzle', 'case');
+
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+export interface Migration {
+  version: number;
+  name: string;
+  checksum: string;
+  statements: string[];
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number | null;
+  latestVersion: number | null;
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+  // Applied migrations whose file has since been edited
+  modified: number[];
+}
+
+interface Journal {
+  entries: Array<{ idx: number; tag: string }>;
+}
+
+/**
+ * Migrations in journal order; the journal index is the version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const journal: Journal = JSON.parse(readFileSync(path.join(dir, 'meta', '_journal.json'), 'utf8'));
+
+  return [...journal.entries]
+    .sort((a, b) => a.idx - b.idx)
+    .map(entry => {
+      const text = readFileSync(path.join(dir, `${entry.tag}.sql`), 'utf8');
+      return {
+        version: entry.idx,
+        name: entry.tag,
+        checksum: createHash('sha256').update(text).digest('hex'),
+        statements: splitStatements(text),
+      };
+    });
+}
+
+/**
+ * Split a drizzle-kit migration file on its statement breakpoints
+ */
+export function splitStatements(text: string): string[] {
+  return text
+    .split(STATEMENT_BREAKPOINT)
+    .map(statement => statement.trim())
+    .filter(Boolean);
+}
+
+// postgres.js types TransactionSql without the tagged-template call signature
+function inTransaction<T>(sql: postgres.Sql, fn: (tx: postgres.Sql) => Promise<T>): Promise<T> {
+  return sql.begin(tx => fn(tx as unknown as postgres.Sql)) as Promise<T>;
+}
+
+async function ensureMigrationsTable(sql: postgres.Sql) {
+  await inTransaction(sql, async tx => {
+    await tx`SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))`;
+    await tx`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `;
+  });
+}
+
+async function listApplied(sql: postgres.Sql): Promise<AppliedMigration[]> {
+  const rows = await sql`
+    SELECT version, name, checksum, applied_at as "appliedAt"
+    FROM schema_migrations
+    ORDER BY version
+  `;
+  return rows.map(row => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: new Date(row.appliedAt).toISOString(),
+  }));
+}
+
+/**
+ * Apply pending migrations in order; returns the versions this call applied
+ */
+export async function applyMigrations(
+  sql: postgres.Sql,
+  migrations: Migration[] = loadMigrations()
+): Promise<number[]> {
+  await ensureMigrationsTable(sql);
+
+  const appliedVersions = new Set((await listApplied(sql)).map(m => m.version));
+  const newlyApplied: number[] = [];
+
+  for (const migration of migrations) {
+    if (appliedVersions.has(migration.version)) continue;
+
+    const applied = await inTransaction(sql, async tx => {
+      await tx`SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))`;
+
+      // Another connection may have applied it while we waited for the lock
+      const [existing] = await tx`SELECT 1 FROM schema_migrations WHERE version = ${migration.version}`;
+      if (existing) return false;
+
+      for (const statement of migration.statements) {
+        await tx.unsafe(statement);
+      }
+
+      await tx`
+        INSERT INTO schema_migrations (version, name, checksum)
+        VALUES (${migration.version}, ${migration.name}, ${migration.checksum})
+      `;
+      return true;
+    });
+
+    if (applied) {
+      console.log(`Applied case database migration ${migration.name}`);
+      newlyApplied.push(migration.version);
+    }
+  }
+
+  return newlyApplied;
+}
+
+/**
+ * Compare the database's schema_migrations with the migration files
+ */
+export async function getMigrationStatus(
+  sql: postgres.Sql,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus> {
+  const [table] = await sql`SELECT to_regclass('schema_migrations') AS name`;
+  const applied = table?.name ? await listApplied(sql) : [];
+  const byVersion = new Map(applied.map(m => [m.version, m]));
+
+  return {
+    currentVersion: applied.length > 0 ? applied[applied.length - 1].version : null,
+    latestVersion: migrations.length > 0 ? migrations[migrations.length - 1].version : null,
+    applied,
+    pending: migrations
+      .filter(m => !byVersion.has(m.version))
+      .map(({ version, name }) => ({ version, name })),
+    modified: migrations
+      .filter(m => byVersion.has(m.version) && byVersion.get(m.version)!.checksum !== m.checksum)
+      .map(m => m.version),
+  };
+}
+
+// Databases this process has brought up to date; a failed run is retried on the next connect
+const migratedDatabases = new Map<string, Promise<void>>();
+
+/**
+ * Apply pending migrations to a case database once per process
+ */
+export function ensureCaseDatabase(connectionString: string): Promise<void> {
+  let migrated = migratedDatabases.get(connectionString);
+
+  if (!migrated) {
+    migrated = (async () => {
+      const sql = postgres(connectionString, { max: 1 });
+      try {
+        await applyMigrations(sql);
+      } finally {
+        await sql.end();
+      }
+    })();
+    migrated.catch(() => migratedDatabases.delete(connectionString));
+    migratedDatabases.set(connectionString, migrated);
+  }
+
+  return migrated;
+}
@@ -1,7 +1,8 @@
 /**
  * Database Schema
  *
- * Drizzle ORM schema definitions for Better Auth and case.dev integration
+ * Drizzle ORM schema definitions for Better Auth and case.dev integration.
+ * Case tables live in each user's case database; see case-schema.ts.
  */
 
 import { pgTable, text, timestamp, uuid, boolean, index } from 'drizzle-orm/pg-core';
@@ -83,6 +84,8 @@ export const member = pgTable('member', {
     .notNull()
     .references(() => user.id, { onDelete: 'cascade' }),
   role: text('role').notNull(),
+  // The one matter a client member may see
+  caseId: text('case_id'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
@@ -93,6 +96,7 @@ export const invitation = pgTable('invitation', {
     .references(() => organization.id, { onDelete: 'cascade' }),
   email: text('email').notNull(),
   role: text('role'),
+  caseId: text('case_id'),
   status: text('status').notNull(),
   expiresAt: timestamp('expires_at').notNull(),
   inviterId: text('inviter_id')
@@ -166,277 +170,6 @@ export const userDatabases = pgTable(
   })
 );
 
-/**
- * Bankruptcy Case Management Tables
- */
-
-import { integer, decimal, date } from 'drizzle-orm/pg-core';
-
-export const bankruptcyCases = pgTable(
-  'bankruptcy_cases',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    userId: text('user_id')
-      .notNull()
-      .references(() => user.id, { onDelete: 'cascade' }),
-
-    // Client Information
-    clientName: text('client_name').notNull(),
-    clientEmail: text('client_email'),
-    clientPhone: text('client_phone'),
-    ssnLast4: text('ssn_last4'),
-
-    // Address
-    address: text('address'),
-    city: text('city'),
-    state: text('state'),
-    zip: text('zip'),
-    county: text('county'),
-
-    // Case Details
-    caseType: text('case_type').notNull().$type<'chapter7' | 'chapter13'>(),
-    filingType: text('filing_type').notNull().$type<'individual' | 'joint'>(),
-    householdSize: integer('household_size'),
-
-    // Status
-    status: text('status').notNull().default('intake')
-      .$type<'intake' | 'documents_pending' | 'review' | 'ready_to_file' | 'filed' | 'discharged' | 'dismissed'>(),
-
-    // Court Information
-    pacerCaseNumber: text('pacer_case_number'),
-    courtDistrict: text('court_district'),
-    filingDate: date('filing_date'),
-    dischargeDate: date('discharge_date'),
-
-    // Timestamps
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-    updatedAt: timestamp('updated_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    userIdIdx: index('bankruptcy_cases_user_id_idx').on(table.userId),
-    statusIdx: index('bankruptcy_cases_status_idx').on(table.status),
-  })
-);
-
-export const caseDocuments = pgTable(
-  'case_documents',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    caseId: uuid('case_id')
-      .notNull()
-      .references(() => bankruptcyCases.id, { onDelete: 'cascade' }),
-
-    // Document Storage
-    vaultObjectId: text('vault_object_id').notNull(),
-    fileName: text('file_name').notNull(),
-    fileSize: integer('file_size'),
-    contentType: text('content_type'),
-
-    // Document Classification
-    documentType: text('document_type').notNull()
-      .$type<'paystub' | 'w2' | 'tax_return' | '1099' | 'bank_statement' | 'mortgage' | 'lease' | 'utility' | 'insurance' | 'credit_card' | 'loan_statement' | 'medical_bill' | 'collection_notice' | 'vehicle_title' | 'property_deed' | 'other'>(),
-
-    // Validation
-    validationStatus: text('validation_status').notNull().default('pending')
-      .$type<'pending' | 'valid' | 'invalid' | 'needs_review'>(),
-    validationNotes: text('validation_notes'),
-
-    // OCR Results
-    ocrText: text('ocr_text'),
-    ocrCompleted: boolean('ocr_completed').default(false),
-
-    // Timestamps
-    uploadedAt: timestamp('uploaded_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    caseIdIdx: index('case_documents_case_id_idx').on(table.caseId),
-    documentTypeIdx: index('case_documents_type_idx').on(table.documentType),
-  })
-);
-
-export const incomeRecords = pgTable(
-  'income_records',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    caseId: uuid('case_id')
-      .notNull()
-      .references(() => bankruptcyCases.id, { onDelete: 'cascade' }),
-    documentId: uuid('document_id')
-      .references(() => caseDocuments.id, { onDelete: 'set null' }),
-
-    // Income Month (YYYY-MM format for 6-month CMI tracking per Form B 122A-2)
-    // This is the calendar month the income was RECEIVED (not earned)
-    incomeMonth: text('income_month').notNull(), // e.g., '2025-01'
-
-    // Income Details
-    employer: text('employer'),
-    occupation: text('occupation'),
-    grossAmount: decimal('gross_amount', { precision: 10, scale: 2 }).notNull(),
-    netAmount: decimal('net_amount', { precision: 10, scale: 2 }),
-
-    // Income Source Type (per Form B 122A-2 income categories)
-    incomeSource: text('income_source').notNull().default('employment')
-      .$type<
-        | 'employment'      // Line 2: Gross wages, salary, tips, bonuses, overtime, commissions
-        | 'self_employment' // Line 3: Net income from business, profession, or farm
-        | 'rental'          // Line 4: Rent and other real property income
-        | 'interest'        // Line 5: Interest, dividends, and royalties
-        | 'pension'         // Line 6: Pension and retirement income
-        | 'government'      // Line 7: State disability, unemployment, etc.
-        | 'spouse'          // Line 8: Income from spouse (if not filing jointly)
-        | 'alimony'         // Line 9: Alimony/maintenance received
-        | 'contributions'   // Line 10: Regular contributions from others
-        | 'other'           // Line 11: Other income
-      >(),
-
-    // Additional metadata
-    description: text('description'), // e.g., "Bi-weekly paycheck", "Monthly rental income"
-    confidence: decimal('confidence', { precision: 3, scale: 2 }), // LLM extraction confidence 0-1
-    extractedAt: timestamp('extracted_at'), // When LLM extraction occurred
-
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    caseIdIdx: index('income_records_case_id_idx').on(table.caseId),
-    incomeMonthIdx: index('income_records_month_idx').on(table.incomeMonth),
-  })
-);
-
-export const debts = pgTable(
-  'debts',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    caseId: uuid('case_id')
-      .notNull()
-      .references(() => bankruptcyCases.id, { onDelete: 'cascade' }),
-
-    // Creditor Information
-    creditorName: text('creditor_name').notNull(),
-    creditorAddress: text('creditor_address'),
-    accountNumber: text('account_number'),
-    accountLast4: text('account_last4'),
-
-    // Debt Details
-    balance: decimal('balance', { precision: 10, scale: 2 }).notNull(),
-    monthlyPayment: decimal('monthly_payment', { precision: 10, scale: 2 }),
-    interestRate: decimal('interest_rate', { precision: 5, scale: 2 }),
-
-    // Classification
-    debtType: text('debt_type').notNull()
-      .$type<'credit_card' | 'medical' | 'personal_loan' | 'auto_loan' | 'mortgage' | 'student_loan' | 'tax' | 'child_support' | 'other'>(),
-    secured: boolean('secured').default(false),
-    priority: boolean('priority').default(false),
-
-    // Collateral (if secured)
-    collateral: text('collateral'),
-    collateralValue: decimal('collateral_value', { precision: 10, scale: 2 }),
-
-    // Dates
-    dateIncurred: date('date_incurred'),
-
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    caseIdIdx: index('debts_case_id_idx').on(table.caseId),
-    debtTypeIdx: index('debts_type_idx').on(table.debtType),
-  })
-);
-
-export const assets = pgTable(
-  'assets',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    caseId: uuid('case_id')
-      .notNull()
-      .references(() => bankruptcyCases.id, { onDelete: 'cascade' }),
-
-    // Asset Details
-    assetType: text('asset_type').notNull()
-      .$type<'real_estate' | 'vehicle' | 'bank_account' | 'retirement' | 'household_goods' | 'jewelry' | 'collectibles' | 'business' | 'other'>(),
-    description: text('description').notNull(),
-    currentValue: decimal('current_value', { precision: 10, scale: 2 }).notNull(),
-
-    // Real Estate Specific
-    address: text('address'),
-
-    // Vehicle Specific
-    make: text('make'),
-    model: text('model'),
-    year: integer('year'),
-    vin: text('vin'),
-
-    // Financial Account Specific
-    institution: text('institution'),
-    accountNumberLast4: text('account_number_last4'),
-
-    // Ownership
-    ownershipPercentage: decimal('ownership_percentage', { precision: 5, scale: 2 }).default('100'),
-
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    caseIdIdx: index('assets_case_id_idx').on(table.caseId),
-  })
-);
-
-export const expenses = pgTable(
-  'expenses',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    caseId: uuid('case_id')
-      .notNull()
-      .references(() => bankruptcyCases.id, { onDelete: 'cascade' }),
-
-    // Expense Details
-    category: text('category').notNull()
-      .$type<'housing' | 'utilities' | 'food' | 'clothing' | 'transportation' | 'medical' | 'childcare' | 'insurance' | 'taxes' | 'debt_payments' | 'entertainment' | 'education' | 'other'>(),
-    description: text('description'),
-    monthlyAmount: decimal('monthly_amount', { precision: 10, scale: 2 }).notNull(),
-
-    // IRS Standard Reference (for means test)
-    isIrsStandard: boolean('is_irs_standard').default(false),
-    irsStandardType: text('irs_standard_type').$type<'national' | 'local' | 'other' | null>(),
-
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    caseIdIdx: index('expenses_case_id_idx').on(table.caseId),
-    categoryIdx: index('expenses_category_idx').on(table.category),
-  })
-);
-
-export const meansTestResults = pgTable(
-  'means_test_results',
-  {
-    id: uuid('id').primaryKey().defaultRandom(),
-    caseId: uuid('case_id')
-      .notNull()
-      .unique()
-      .references(() => bankruptcyCases.id, { onDelete: 'cascade' }),
-
-    // Income Calculations
-    currentMonthlyIncome: decimal('current_monthly_income', { precision: 10, scale: 2 }).notNull(),
-    annualizedIncome: decimal('annualized_income', { precision: 10, scale: 2 }).notNull(),
-    stateMedianIncome: decimal('state_median_income', { precision: 10, scale: 2 }).notNull(),
-    belowMedian: boolean('below_median').notNull(),
-
-    // Disposable Income (if above median)
-    disposableIncome: decimal('disposable_income', { precision: 10, scale: 2 }),
-
-    // Result
-    passed: boolean('passed').notNull(),
-    eligible: boolean('eligible').notNull(),
-
-    // Explanation
-    explanation: text('explanation'),
-
-    calculatedAt: timestamp('calculated_at').notNull().defaultNow(),
-  },
-  (table) => ({
-    caseIdIdx: index('means_test_case_id_idx').on(table.caseId),
-  })
-);
-
 /**
  * Type exports for use in application code
  */
@@ -447,20 +180,6 @@ export type Session = typeof session.$inferSelect;
 export type Account = typeof account.$inferSelect;
 export type Organization = typeof organization.$inferSelect;
 export type Member = typeof member.$inferSelect;
+export type Invitation = typeof invitation.$inferSelect;
 export type CaseDevCredentials = typeof caseDevCredentials.$inferSelect;
 export type NewCaseDevCredentials = typeof caseDevCredentials.$inferInsert;
-
-export type BankruptcyCase = typeof bankruptcyCases.$inferSelect;
-export type NewBankruptcyCase = typeof bankruptcyCases.$inferInsert;
-export type CaseDocument = typeof caseDocuments.$inferSelect;
-export type NewCaseDocument = typeof caseDocuments.$inferInsert;
-export type IncomeRecord = typeof incomeRecords.$inferSelect;
-export type NewIncomeRecord = typeof incomeRecords.$inferInsert;
-export type Debt = typeof debts.$inferSelect;
-export type NewDebt = typeof debts.$inferInsert;
-export type Asset = typeof assets.$inferSelect;
-export type NewAsset = typeof assets.$inferInsert;
-export type MeansTestResult = typeof meansTestResults.$inferSelect;
-export type NewMeansTestResult = typeof meansTestResults.$inferInsert;
-export type Expense = typeof expenses.$inferSelect;
-export type NewExpense = typeof expenses.$inferInsert;
@@ -0,0 +1,198 @@
+/**
+ * Upload File Handling
+ *
+ * Expands ZIP archives into their documents and splits or slices PDFs by
+ * page for batch uploads.
+ */
+
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+
+export interface UploadedFile {
+  name: string;
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+// File types accepted in a batch, by extension
+export const BATCH_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+// Caps on what one batch may unpack; ZIP entries are checked against their
+// declared sizes before anything is inflated
+const MAX_BATCH_ENTRIES = 500;
+const MAX_BATCH_BYTES = 512 * 1024 * 1024;
+
+/**
+ * A batch that would unpack to more entries or bytes than allowed
+ */
+export class UploadLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadLimitError';
+  }
+}
+
+// Untyped JSZip internals: the central directory sizes and the chunked reader
+interface ZipEntryInternals {
+  _data?: { uncompressedSize?: number };
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+}
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const isZipFile = (name: string, contentType?: string) =>
+  extensionOf(name) === 'zip' || contentType === 'application/zip' || contentType === 'application/x-zip-compressed';
+
+export const isPdfFile = (file: Pick<UploadedFile, 'name' | 'contentType'>) =>
+  file.contentType === 'application/pdf' || extensionOf(file.name) === 'pdf';
+
+function toUploadedFile(name: string, bytes: Uint8Array, contentType?: string): UploadedFile | null {
+  const expected = BATCH_CONTENT_TYPES[extensionOf(name)];
+  if (!expected) return null;
+  return { name, contentType: contentType || expected, bytes };
+}
+
+/**
+ * Inflate one ZIP entry, refusing to produce more than its declared size
+ * so a forged header cannot slip past the batch limits
+ */
+function inflateEntry(entry: JSZip.JSZipObject, declaredBytes: number): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = (entry as unknown as ZipEntryInternals).internalStream('uint8array');
+
+    stream
+      .on('data', chunk => {
+        size += chunk.length;
+        if (size > declaredBytes) {
+          stream.pause();
+          reject(new UploadLimitError(`${entry.name} unpacks to more than its archive header declares`));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => {
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(bytes);
+      })
+      .resume();
+  });
+}
+
+/**
+ * Unpack ZIP archives and keep the files a batch can process. Returns the
+ * names of anything skipped. Throws UploadLimitError when the batch holds
+ * more than MAX_BATCH_ENTRIES files or MAX_BATCH_BYTES once unpacked.
+ */
+export async function expandUploads(
+  files: Array<{ name: string; type: string; arrayBuffer: () => Promise<ArrayBuffer> }>,
+  { maxEntries = MAX_BATCH_ENTRIES, maxBytes = MAX_BATCH_BYTES }: { maxEntries?: number; maxBytes?: number } = {}
+): Promise<{ files: UploadedFile[]; skipped: string[] }> {
+  const expanded: UploadedFile[] = [];
+  const skipped: string[] = [];
+  let entryCount = 0;
+  let totalBytes = 0;
+
+  const reserve = (entries: number, bytes: number) => {
+    entryCount += entries;
+    totalBytes += bytes;
+    if (entryCount > maxEntries) {
+      throw new UploadLimitError(`Batch has more than ${maxEntries} files; upload fewer at a time`);
+    }
+    if (totalBytes > maxBytes) {
+      throw new UploadLimitError(
+        `Batch unpacks to more than ${Math.floor(maxBytes / (1024 * 1024))} MB; upload fewer files at a time`
+      );
+    }
+  };
+
+  for (const file of files) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (!isZipFile(file.name, file.type)) {
+      reserve(1, bytes.length);
+      const uploaded = toUploadedFile(file.name, bytes, file.type);
+      if (uploaded) expanded.push(uploaded);
+      else skipped.push(file.name);
+      continue;
+    }
+
+    const zip = await JSZip.loadAsync(bytes);
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir)
+      .filter(entry => {
+        const baseName = entry.name.split('/').pop() ?? entry.name;
+        // Archive metadata (macOS resource forks, hidden files)
+        return !entry.name.startsWith('__MACOSX/') && !baseName.startsWith('.');
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    // Refuse the whole batch on declared sizes before inflating any entry
+    const declaredSize = (entry: JSZip.JSZipObject) => (entry as unknown as ZipEntryInternals)._data?.uncompressedSize ?? 0;
+    reserve(entries.length, entries.reduce((sum, entry) => sum + declaredSize(entry), 0));
+
+    for (const entry of entries) {
+      const baseName = entry.name.split('/').pop() ?? entry.name;
+      const uploaded = toUploadedFile(baseName, await inflateEntry(entry, declaredSize(entry)));
+      if (uploaded) expanded.push(uploaded);
+      else skipped.push(`${file.name}/${entry.name}`);
+    }
+  }
+
+  return { files: expanded, skipped };
+}
+
+export async function countPdfPages(bytes: Uint8Array): Promise<number> {
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  return pdf.getPageCount();
+}
+
+/**
+ * Copy a page range (1-based, inclusive) into a new PDF
+ */
+export async function extractPdfPages(bytes: Uint8Array, startPage: number, endPage: number): Promise<Uint8Array> {
+  const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const output = await PDFDocument.create();
+  const indices = Array.from({ length: endPage - startPage + 1 }, (_, i) => startPage - 1 + i);
+
+  const pages = await output.copyPages(source, indices);
+  pages.forEach(page => output.addPage(page));
+  return output.save();
+}
+
+/**
+ * Split a PDF into single-page PDFs
+ */
+export async function splitPdfPages(bytes: Uint8Array): Promise<Uint8Array[]> {
+  const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const pages: Uint8Array[] = [];
+
+  for (let i = 0; i < source.getPageCount(); i++) {
+    const output = await PDFDocument.create();
+    const [page] = await output.copyPages(source, [i]);
+    output.addPage(page);
+    pages.push(await output.save());
+  }
+  return pages;
+}
+
+/**
+ * File name for pages cut out of a larger upload, e.g. "scan (pages 3-7).pdf"
+ */
+export function segmentFileName(sourceName: string, startPage: number, endPage: number): string {
+  const base = sourceName.replace(/\.[^.]+$/, '');
+  const range = startPage === endPage ? `page ${startPage}` : `pages ${startPage}-${endPage}`;
+  return `${base} (${range}).pdf`;
+}
@@ -0,0 +1,32 @@
+/**
+ * Case Documents
+ *
+ * Storage, batch upload tracking, and file handling for case documents.
+ */
+
+// Persistence
+export {
+  createDocumentBatch,
+  getDocumentBatch,
+  type BatchPage,
+  type BatchSource,
+  type DocumentBatch,
+  type DocumentClassification,
+} from './store';
+
+// Files
+export {
+  BATCH_CONTENT_TYPES,
+  UploadLimitError,
+  expandUploads,
+  countPdfPages,
+  extractPdfPages,
+  splitPdfPages,
+  segmentFileName,
+  isPdfFile,
+  isZipFile,
+  type UploadedFile,
+} from './files';
+
+// Vault storage
+export { caseVaultName, parseVaultFileId, uploadCaseFile, downloadCaseFile } from './vault';
@@ -0,0 +1,205 @@
+/**
+ * Document Persistence
+ *
+ * case_documents setup, plus the tables that track a batch upload: its
+ * source files, and each page's text and classification until the pages
+ * are grouped into case documents.
+ */
+
+import type postgres from 'postgres';
+import { loadFieldCipher } from '../db/field-encryption';
+import type { ClassificationMethod, PageClassification } from '../extraction/document-classifier';
+
+export interface DocumentClassification {
+  predictedType: string;
+  confidence: number;
+  method: ClassificationMethod | 'manual';
+  batchId?: string;
+  sourceFileName?: string;
+  startPage?: number;
+  endPage?: number;
+  correctedFrom?: string;
+  correctedAt?: string;
+}
+
+export interface BatchSource {
+  id: string;
+  batchId: string;
+  sourceIndex: number;
+  fileName: string;
+  contentType: string;
+  vaultFileId: string;
+  pageCount: number;
+}
+
+export interface BatchPage {
+  id: string;
+  sourceId: string;
+  pageNumber: number;
+  vaultFileId: string | null;
+  ocrText: string | null;
+  classification: PageClassification | null;
+  documentId: string | null;
+}
+
+export interface DocumentBatch {
+  id: string;
+  caseId: string;
+  status: 'processing' | 'completed' | 'failed';
+  sourceCount: number;
+  documentCount: number;
+  skippedFiles: string[];
+  createdAt: string;
+}
+
+const pageId = (sourceId: string, pageNumber: number) => `${sourceId}_p${pageNumber}`;
+
+/**
+ * Record a batch and its uploaded source files. Single-page sources are
+ * their own page, so they get a page row straight away.
+ */
+export async function createDocumentBatch(
+  sql: postgres.Sql,
+  input: {
+    caseId: string;
+    sources: Array<{ fileName: string; contentType: string; vaultFileId: string; pageCount: number }>;
+    skippedFiles: string[];
+  }
+): Promise<DocumentBatch> {
+  const batchId = `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const rows = await sql`
+    INSERT INTO document_batches (id, case_id, source_count, skipped_files)
+    VALUES (${batchId}, ${input.caseId}, ${input.sources.length}, ${sql.json(input.skippedFiles)})
+    RETURNING *
+  `;
+
+  for (const [index, source] of input.sources.entries()) {
+    const sourceId = `${batchId}_s${index}`;
+    await sql`
+      INSERT INTO document_batch_sources (id, batch_id, source_index, file_name, content_type, vault_file_id, page_count)
+      VALUES (${sourceId}, ${batchId}, ${index}, ${source.fileName}, ${source.contentType}, ${source.vaultFileId}, ${source.pageCount})
+    `;
+
+    if (source.pageCount === 1) {
+      await savePageUpload(sql, { batchId, sourceId, pageNumber: 1, vaultFileId: source.vaultFileId });
+    }
+  }
+
+  return rowToBatch(rows[0]);
+}
+
+function rowToBatch(row: Record<string, unknown>): DocumentBatch {
+  return {
+    id: String(row.id),
+    caseId: String(row.case_id),
+    status: row.status as DocumentBatch['status'],
+    sourceCount: Number(row.source_count) || 0,
+    documentCount: Number(row.document_count) || 0,
+    skippedFiles: (row.skipped_files ?? []) as string[],
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at),
+  };
+}
+
+export async function getDocumentBatch(sql: postgres.Sql, batchId: string): Promise<DocumentBatch | null> {
+  const rows = await sql`SELECT * FROM document_batches WHERE id = ${batchId}`;
+  return rows.length > 0 ? rowToBatch(rows[0]) : null;
+}
+
+export async function loadBatchSources(sql: postgres.Sql, batchId: string): Promise<BatchSource[]> {
+  const rows = await sql`
+    SELECT
+      id,
+      batch_id as "batchId",
+      source_index as "sourceIndex",
+      file_name as "fileName",
+      content_type as "contentType",
+      vault_file_id as "vaultFileId",
+      page_count as "pageCount"
+    FROM document_batch_sources
+    WHERE batch_id = ${batchId}
+    ORDER BY source_index
+  `;
+  return rows as unknown as BatchSource[];
+}
+
+export async function loadBatchPages(sql: postgres.Sql, batchId: string): Promise<BatchPage[]> {
+  const rows = await sql`
+    SELECT
+      p.id,
+      p.source_id as "sourceId",
+      p.page_number as "pageNumber",
+      p.vault_file_id as "vaultFileId",
+      p.ocr_text as "ocrText",
+      p.classification,
+      p.document_id as "documentId"
+    FROM document_batch_pages p
+    JOIN document_batch_sources s ON s.id = p.source_id
+    WHERE p.batch_id = ${batchId}
+    ORDER BY s.source_index, p.page_number
+  `;
+  const cipher = await loadFieldCipher(sql);
+  return (rows as unknown as BatchPage[]).map(page => ({ ...page, ocrText: cipher.decrypt(page.ocrText) }));
+}
+
+export async function savePageUpload(
+  sql: postgres.Sql,
+  page: { batchId: string; sourceId: string; pageNumber: number; vaultFileId: string }
+): Promise<void> {
+  await sql`
+    INSERT INTO document_batch_pages (id, batch_id, source_id, page_number, vault_file_id)
+    VALUES (${pageId(page.sourceId, page.pageNumber)}, ${page.batchId}, ${page.sourceId}, ${page.pageNumber}, ${page.vaultFileId})
+    ON CONFLICT (source_id, page_number) DO NOTHING
+  `;
+}
+
+export async function savePageText(sql: postgres.Sql, pageIdValue: string, text: string): Promise<void> {
+  const cipher = await loadFieldCipher(sql);
+  await sql`
+    UPDATE document_batch_pages SET ocr_text = ${cipher.encrypt(text.substring(0, 50000))} WHERE id = ${pageIdValue}
+  `;
+}
+
+export async function savePageClassification(
+  sql: postgres.Sql,
+  pageIdValue: string,
+  classification: PageClassification
+): Promise<void> {
+  await sql`
+    UPDATE document_batch_pages
+    SET classification = ${sql.json(JSON.parse(JSON.stringify(classification)))}
+    WHERE id = ${pageIdValue}
+  `;
+}
+
+export async function assignPagesToDocument(
+  sql: postgres.Sql,
+  sourceId: string,
+  startPage: number,
+  endPage: number,
+  documentId: string
+): Promise<void> {
+  await sql`
+    UPDATE document_batch_pages
+    SET document_id = ${documentId}
+    WHERE source_id = ${sourceId} AND page_number BETWEEN ${startPage} AND ${endPage}
+  `;
+}
+
+export async function completeDocumentBatch(sql: postgres.Sql, batchId: string): Promise<void> {
+  await sql`
+    UPDATE document_batches
+    SET status = 'completed',
+        document_count = (
+          SELECT COUNT(DISTINCT document_id) FROM document_batch_pages
+          WHERE batch_id = ${batchId} AND document_id IS NOT NULL
+        ),
+        completed_at = NOW()
+    WHERE id = ${batchId}
+  `;
+}
+
+export async function failDocumentBatch(sql: postgres.Sql, batchId: string): Promise<void> {
+  await sql`
+    UPDATE document_batches SET status = 'failed', completed_at = NOW() WHERE id = ${batchId}
+  `;
+}
@@ -0,0 +1,49 @@
+/**
+ * Case Document Vault Helpers
+ *
+ * Documents are stored in one case.dev vault per case. vault_file_id on
+ * case_documents is stored as "vaultId:objectId".
+ */
+
+import type { CaseDevClient } from '../case-dev/client';
+import type { UploadedFile } from './files';
+
+export const caseVaultName = (caseId: string) => `bankruptcy-case-${caseId}`;
+
+export function parseVaultFileId(vaultFileId: string | null | undefined): { vaultId: string; objectId: string } | null {
+  const [vaultId, objectId] = (vaultFileId ?? '').split(':');
+  return vaultId && objectId ? { vaultId, objectId } : null;
+}
+
+/**
+ * Upload bytes to the case vault and return the stored vault_file_id
+ */
+export async function uploadCaseFile(
+  client: CaseDevClient,
+  caseId: string,
+  file: UploadedFile,
+  options: { enableOCR: boolean; metadata?: Record<string, unknown> }
+): Promise<string> {
+  const result = await client.uploadToVault({
+    vaultName: caseVaultName(caseId),
+    file: new File([file.bytes as BlobPart], file.name, { type: file.contentType }),
+    enableOCR: options.enableOCR,
+    enableSemanticSearch: options.enableOCR,
+    metadata: { caseId, fileName: file.name, ...options.metadata },
+  });
+  return `${result.vaultId}:${result.objectId}`;
+}
+
+export async function downloadCaseFile(client: CaseDevClient, vaultFileId: string): Promise<Uint8Array> {
+  const location = parseVaultFileId(vaultFileId);
+  if (!location) {
+    throw new Error(`Invalid vault file id: ${vaultFileId}`);
+  }
+
+  const { downloadUrl } = await client.getDownloadUrl(location);
+  const response = await fetch(downloadUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download file from storage: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
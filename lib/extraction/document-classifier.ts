@@ -0,0 +1,232 @@
+/**
+ * Document Classification
+ *
+ * Assigns pages of uploaded files to the document types in
+ * CHAPTER_7_REQUIRED_DOCUMENTS, then groups consecutive pages into
+ * documents. The LLM classifies pages in batches; pages it cannot classify
+ * fall back to keyword matching.
+ */
+
+import type { CaseDevClient } from '../case-dev/client';
+import { CHAPTER_7_REQUIRED_DOCUMENTS } from '../bankruptcy/required-documents';
+import { redactSensitive } from '../utils/redact';
+
+export const UNCLASSIFIED_DOCUMENT_TYPE = 'other';
+
+export const CLASSIFIABLE_DOCUMENT_TYPES = [
+  ...CHAPTER_7_REQUIRED_DOCUMENTS.map(doc => doc.type),
+  UNCLASSIFIED_DOCUMENT_TYPE,
+];
+
+export type ClassificationMethod = 'llm' | 'keyword';
+
+export interface PageClassification {
+  documentType: string;
+  confidence: number;
+  method: ClassificationMethod;
+  // True when this page begins a new document, even if the type is unchanged
+  startsNewDocument: boolean;
+}
+
+export interface DocumentSegment {
+  documentType: string;
+  // 1-based, inclusive
+  startPage: number;
+  endPage: number;
+  confidence: number;
+  method: ClassificationMethod;
+}
+
+// Pages sent to the LLM per request, and characters of each page included
+const LLM_BATCH_SIZE = 10;
+const LLM_PAGE_CHARS = 1500;
+
+/**
+ * Phrases that identify each document type. Earlier types win ties, so the
+ * more specific forms (W-2, 1099) come before statements that mention them.
+ */
+const DOCUMENT_TYPE_KEYWORDS: Array<{ type: string; patterns: RegExp[] }> = [
+  { type: 'w2', patterns: [/\bW-?2\b/i, /wage and tax statement/i, /employer identification number/i] },
+  { type: 'tax_return', patterns: [/\bform 1040\b/i, /u\.?s\.? individual income tax return/i, /adjusted gross income/i, /schedule [a-e]\b/i] },
+  { type: 'paystub', patterns: [/\bpay ?stub\b/i, /earnings statement/i, /pay period/i, /\bnet pay\b/i, /\bytd\b/i, /gross pay/i] },
+  { type: 'credit_card', patterns: [/credit card/i, /minimum payment due/i, /credit limit/i, /\bAPR\b/, /new balance/i] },
+  { type: 'mortgage', patterns: [/\bmortgage\b/i, /escrow/i, /principal and interest/i, /loan servicing/i] },
+  { type: 'loan_statement', patterns: [/loan statement/i, /\bauto loan\b/i, /\bstudent loan\b/i, /amount financed/i, /payoff amount/i] },
+  { type: 'bank_statement', patterns: [/\bchecking\b/i, /\bsavings\b/i, /beginning balance/i, /ending balance/i, /deposits and (other )?credits/i, /statement period/i] },
+  { type: 'medical_bill', patterns: [/patient (name|account)/i, /\bhospital\b/i, /date of service/i, /insurance adjustment/i, /\bmedical\b/i] },
+  { type: 'collection_notice', patterns: [/collection agency/i, /debt collector/i, /this is an attempt to collect a debt/i, /validation notice/i] },
+  { type: 'vehicle_title', patterns: [/certificate of title/i, /\bVIN\b/, /vehicle identification number/i, /\blienholder\b/i] },
+  { type: 'property_deed', patterns: [/\bdeed\b/i, /\bgrantor\b/i, /\bgrantee\b/i, /parcel (number|id)/i, /legal description/i] },
+  { type: 'lease', patterns: [/lease agreement/i, /\blandlord\b/i, /\btenant\b/i, /security deposit/i, /monthly rent/i] },
+  { type: 'utility', patterns: [/\bkwh\b/i, /electric(ity)? service/i, /\bgas service\b/i, /water (usage|service)/i, /meter (reading|number)/i] },
+];
+
+// Markers that usually appear on the first page of a document
+const FIRST_PAGE_PATTERN = /\bpage 1 of\b|\b1 of \d+\b/i;
+
+/**
+ * Classify a page by keyword hits. Confidence grows with the number of
+ * distinct phrases found and is kept below what the LLM reports.
+ */
+export function classifyByKeywords(text: string): PageClassification {
+  let best = { type: UNCLASSIFIED_DOCUMENT_TYPE, hits: 0 };
+
+  for (const { type, patterns } of DOCUMENT_TYPE_KEYWORDS) {
+    const hits = patterns.filter(pattern => pattern.test(text)).length;
+    if (hits > best.hits) {
+      best = { type, hits };
+    }
+  }
+
+  return {
+    documentType: best.type,
+    confidence: best.hits === 0 ? 0.2 : Math.min(0.4 + best.hits * 0.1, 0.7),
+    method: 'keyword',
+    startsNewDocument: FIRST_PAGE_PATTERN.test(text),
+  };
+}
+
+function buildClassificationPrompt(): string {
+  const types = CHAPTER_7_REQUIRED_DOCUMENTS.map(doc => `- ${doc.type}: ${doc.name} (${doc.description})`).join('\n');
+
+  return `You are sorting pages scanned for a bankruptcy case into document types.
+
+Document types:
+${types}
+- ${UNCLASSIFIED_DOCUMENT_TYPE}: Anything else
+
+Pages are given in order and may come from several documents. For each page, return its document type and whether it starts a new document (a new statement, form, or letter), even if the type is the same as the previous page.
+
+Return ONLY this JSON:
+{ "pages": [ { "page": 1, "documentType": "bank_statement", "startsNewDocument": true, "confidence": 0.9 } ] }`;
+}
+
+/**
+ * Parse the LLM response for a batch of pages. Pages missing from the
+ * response, or given an unknown type, are returned as null.
+ */
+export function parseClassificationResponse(
+  content: string | null | undefined,
+  pageCount: number
+): Array<PageClassification | null> {
+  const results: Array<PageClassification | null> = new Array(pageCount).fill(null);
+  if (!content) return results;
+
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return results;
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed.pages)) return results;
+
+    for (const page of parsed.pages) {
+      const index = Number(page.page) - 1;
+      if (!Number.isInteger(index) || index < 0 || index >= pageCount) continue;
+      if (!CLASSIFIABLE_DOCUMENT_TYPES.includes(page.documentType)) continue;
+
+      results[index] = {
+        documentType: page.documentType,
+        confidence: typeof page.confidence === 'number' ? Math.min(Math.max(page.confidence, 0), 1) : 0.8,
+        method: 'llm',
+        startsNewDocument: page.startsNewDocument === true,
+      };
+    }
+  } catch (e) {
+    console.warn('Failed to parse classification response:', e);
+  }
+
+  return results;
+}
+
+/**
+ * Classify pages in order. Without a client, or when the LLM call fails,
+ * pages are classified by keywords.
+ */
+export async function classifyPages(
+  client: CaseDevClient | null,
+  pages: string[]
+): Promise<PageClassification[]> {
+  const classifications: PageClassification[] = [];
+
+  for (let start = 0; start < pages.length; start += LLM_BATCH_SIZE) {
+    const batch = pages.slice(start, start + LLM_BATCH_SIZE);
+    let llmResults: Array<PageClassification | null> = new Array(batch.length).fill(null);
+
+    if (client) {
+      try {
+        const response = await client.completeLLM({
+          model: 'gpt-4o-mini',
+          messages: [
+            { role: 'system', content: buildClassificationPrompt() },
+            {
+              role: 'user',
+              content: batch
+                .map((text, i) => `--- Page ${i + 1} ---\n${redactSensitive(text.substring(0, LLM_PAGE_CHARS))}`)
+                .join('\n\n'),
+            },
+          ],
+          temperature: 0.1,
+        });
+        llmResults = parseClassificationResponse(response?.choices?.[0]?.message?.content, batch.length);
+      } catch (llmError) {
+        console.error('LLM classification error:', llmError);
+      }
+    }
+
+    batch.forEach((text, i) => {
+      const classification = llmResults[i] ?? classifyByKeywords(text);
+      const previous = classifications[classifications.length - 1];
+
+      // A page with no keywords (e.g. a page of transactions) continues the previous document
+      if (
+        classification.method === 'keyword' &&
+        classification.documentType === UNCLASSIFIED_DOCUMENT_TYPE &&
+        !classification.startsNewDocument &&
+        previous
+      ) {
+        classifications.push({ ...classification, documentType: previous.documentType, confidence: 0.3 });
+        return;
+      }
+      classifications.push(classification);
+    });
+  }
+
+  return classifications;
+}
+
+/**
+ * Group consecutive pages into documents. A new document starts when the
+ * type changes or a page is marked as starting one.
+ */
+export function segmentPages(classifications: PageClassification[]): DocumentSegment[] {
+  const segments: DocumentSegment[] = [];
+  const confidenceSums: number[] = [];
+
+  classifications.forEach((page, index) => {
+    const current = segments[segments.length - 1];
+    const startsNew = !current || page.documentType !== current.documentType || (page.startsNewDocument && index > 0);
+
+    if (startsNew) {
+      segments.push({
+        documentType: page.documentType,
+        startPage: index + 1,
+        endPage: index + 1,
+        confidence: page.confidence,
+        method: page.method,
+      });
+      confidenceSums.push(page.confidence);
+      return;
+    }
+
+    current.endPage = index + 1;
+    confidenceSums[confidenceSums.length - 1] += page.confidence;
+    // A segment is only as trustworthy as its weakest method
+    if (page.method === 'keyword') current.method = 'keyword';
+  });
+
+  segments.forEach((segment, i) => {
+    const pageCount = segment.endPage - segment.startPage + 1;
+    segment.confidence = Math.round((confidenceSums[i] / pageCount) * 100) / 100;
+  });
+
+  return segments;
+}
@@ -4,6 +4,13 @@
  */
 
 import { CaseDevClient } from '@/lib/case-dev/client';
+import { resolveFieldSources, type FieldSources } from './provenance';
+import { redactSensitive } from '../utils/redact';
+import type { ParsedTransaction } from '../transactions/types';
+import type { FilingStatus, Form1099Type } from './templates/types';
+
+// Asks the LLM to quote where each value came from; see provenance.ts
+const SOURCE_QUOTE_INSTRUCTIONS = `For each record, "sources" maps a field name to the exact text copied from the document that shows that value (e.g. "Gross Pay 2,450.00"). Copy the text character for character and keep each quote short. Leave out fields you cannot point to.`;
 
 /**
  * Monthly income record for 6-month CMI calculation per Form B 122A-2
@@ -27,6 +34,7 @@ export interface ExtractedMonthlyIncome {
     | 'other';          // Line 11: Other income
   description: string; // e.g., "Bi-weekly paycheck", "Monthly rental income"
   confidence: number; // 0-1 extraction confidence
+  fieldSources: FieldSources; // Where each field was found in the OCR text
 }
 
 /**
@@ -77,10 +85,11 @@ export interface ExtractedDebt {
   statementDate: string | null; // YYYY-MM-DD for determining most recent
   source: string;
   confidence: number;
+  fieldSources: FieldSources;
 }
 
 export interface ExtractedAsset {
-  assetType: 'real-estate' | 'vehicle' | 'bank-account' | 'investment' | 'retirement' | 'personal-property' | 'other';
+  assetType: 'real-estate' | 'vehicle' | 'bank-account' | 'investment' | 'retirement' | 'personal-property' | 'tax_refund' | 'other';
   description: string;
   estimatedValue: number;
   ownershipPercentage: number;
@@ -91,8 +100,45 @@ export interface ExtractedAsset {
   statementDate: string | null; // YYYY-MM-DD for determining most recent
   source: string;
   confidence: number;
+  fieldSources: FieldSources;
+}
+
+/**
+ * Structured Form 1040 figures. Amounts are annual; business and rental
+ * income are negative for a loss.
+ */
+export interface ExtractedTaxReturn {
+  formType: '1040';
+  taxYear: number;
+  filingStatus: FilingStatus | null;
+  wages: number | null;
+  totalIncome: number | null;
+  adjustedGrossIncome: number;
+  businessIncome: number | null; // Schedule C net profit
+  businessReceipts: number | null; // Schedule C line 1 gross receipts
+  businessExpenses: number | null; // Schedule C line 28 total expenses
+  rentalIncome: number | null; // Schedule E rental and royalty income
+  refund: number | null;
+  amountOwed: number | null;
+  source: string;
+  confidence: number;
+  fieldSources: FieldSources;
 }
 
+export interface Extracted1099 {
+  formType: Form1099Type;
+  taxYear: number;
+  payerName: string | null;
+  amount: number; // Annual amount from the income box
+  box: string | null;
+  federalWithheld: number | null;
+  source: string;
+  confidence: number;
+  fieldSources: FieldSources;
+}
+
+export type ExtractedTaxForm = ExtractedTaxReturn | Extracted1099;
+
 export interface ExtractedExpenses {
   housing: number;
   utilities: number;
@@ -124,7 +170,7 @@ export class FinancialDataExtractor {
         },
         {
           role: 'user',
-          content: `Extract income information from this document:\n\n${ocrText}`,
+          content: `Extract income information from this document:\n\n${redactSensitive(ocrText)}`,
         },
       ],
     });
@@ -132,7 +178,7 @@ export class FinancialDataExtractor {
     // Safely extract content from response
     const content = response?.choices?.[0]?.message?.content;
     if (!content) {
-      console.warn('LLM income extraction returned unexpected response:', JSON.stringify(response));
+      console.warn('LLM income extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
       return [];
     }
 
@@ -174,7 +220,7 @@ export class FinancialDataExtractor {
         },
         {
           role: 'user',
-          content: `Extract monthly income information from this ${documentType} document:\n\n${ocrText}`,
+          content: `Extract monthly income information from this ${documentType} document:\n\n${redactSensitive(ocrText)}`,
         },
       ],
     });
@@ -182,7 +228,7 @@ export class FinancialDataExtractor {
     // Safely extract content from response
     const content = response?.choices?.[0]?.message?.content;
     if (!content) {
-      console.warn('LLM monthly income extraction returned unexpected response:', JSON.stringify(response));
+      console.warn('LLM monthly income extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
       return {
         documentId,
         documentType,
@@ -206,7 +252,7 @@ export class FinancialDataExtractor {
 
     try {
       const extracted = JSON.parse(jsonMatch[0]);
-      return this.normalizeMonthlyIncomeData(extracted, documentId, documentType);
+      return this.normalizeMonthlyIncomeData(extracted, documentId, documentType, ocrText);
     } catch (e) {
       return {
         documentId,
@@ -296,12 +342,15 @@ Return a JSON object with this EXACT structure:
       "employer": "<string or null>",
       "incomeSource": "employment" | "self_employment" | "rental" | "interest" | "pension" | "government" | "alimony" | "contributions" | "other",
       "description": "<brief description of income>",
-      "confidence": <0-1 score>
+      "confidence": <0-1 score>,
+      "sources": { "grossAmount": "<quoted text>", "netAmount": "<quoted text>", "employer": "<quoted text>", "incomeMonth": "<quoted text>" }
     }
   ],
   "warnings": ["<any issues or uncertainties>"]
 }
 
+${SOURCE_QUOTE_INSTRUCTIONS}
+
 Income source mapping:
 - employment: wages, salary, tips, bonuses (W-2 income)
 - self_employment: business income, 1099-NEC, Schedule C
@@ -326,7 +375,8 @@ IMPORTANT:
   private normalizeMonthlyIncomeData(
     extracted: any,
     documentId: string,
-    documentType: string
+    documentType: string,
+    ocrText: string
   ): IncomeExtractionResult {
     const warnings: string[] = extracted.warnings || [];
 
@@ -342,15 +392,27 @@ IMPORTANT:
 
     const monthlyIncomes: ExtractedMonthlyIncome[] = extracted.monthlyIncomes
       .filter((income: any) => income.incomeMonth && income.grossAmount)
-      .map((income: any) => ({
-        incomeMonth: this.normalizeMonth(income.incomeMonth),
-        grossAmount: Math.round(parseFloat(income.grossAmount) * 100) / 100,
-        netAmount: income.netAmount ? Math.round(parseFloat(income.netAmount) * 100) / 100 : null,
-        employer: income.employer || null,
-        incomeSource: this.normalizeIncomeSource(income.incomeSource),
-        description: income.description || `Income from ${documentType}`,
-        confidence: Math.min(1, Math.max(0, parseFloat(income.confidence) || 0.7)),
-      }));
+      .map((income: any) => {
+        const grossAmount = Math.round(parseFloat(income.grossAmount) * 100) / 100;
+        const netAmount = income.netAmount ? Math.round(parseFloat(income.netAmount) * 100) / 100 : null;
+        const employer = income.employer || null;
+
+        return {
+          incomeMonth: this.normalizeMonth(income.incomeMonth),
+          grossAmount,
+          netAmount,
+          employer,
+          incomeSource: this.normalizeIncomeSource(income.incomeSource),
+          description: income.description || `Income from ${documentType}`,
+          confidence: Math.min(1, Math.max(0, parseFloat(income.confidence) || 0.7)),
+          fieldSources: resolveFieldSources(ocrText, income.sources, {
+            grossAmount,
+            netAmount,
+            employer,
+            incomeMonth: income.incomeMonth,
+          }),
+        };
+      });
 
     // Calculate average confidence
     const totalConfidence = monthlyIncomes.length > 0
@@ -426,7 +488,7 @@ IMPORTANT:
         },
         {
           role: 'user',
-          content: `Extract debt information from this document:\n\n${ocrText}`,
+          content: `Extract debt information from this document:\n\n${redactSensitive(ocrText)}`,
         },
       ],
     });
@@ -434,7 +496,7 @@ IMPORTANT:
     // Safely extract content from response
     const content = response?.choices?.[0]?.message?.content;
     if (!content) {
-      console.warn('LLM debt extraction returned unexpected response:', JSON.stringify(response));
+      console.warn('LLM debt extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
       return [];
     }
 
@@ -445,7 +507,7 @@ IMPORTANT:
     }
 
     const extracted = JSON.parse(jsonMatch[0]);
-    return this.normalizeDebtData(extracted);
+    return this.normalizeDebtData(extracted, ocrText);
   }
 
   /**
@@ -463,7 +525,7 @@ IMPORTANT:
         },
         {
           role: 'user',
-          content: `Extract asset information from this document:\n\n${ocrText}`,
+          content: `Extract asset information from this document:\n\n${redactSensitive(ocrText)}`,
         },
       ],
     });
@@ -471,7 +533,7 @@ IMPORTANT:
     // Safely extract content from response
     const content = response?.choices?.[0]?.message?.content;
     if (!content) {
-      console.warn('LLM asset extraction returned unexpected response:', JSON.stringify(response));
+      console.warn('LLM asset extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
       return [];
     }
 
@@ -482,7 +544,133 @@ IMPORTANT:
     }
 
     const extracted = JSON.parse(jsonMatch[0]);
-    return this.normalizeAssetData(extracted);
+    return this.normalizeAssetData(extracted, ocrText);
+  }
+
+  /**
+   * Extract the transaction lines of a bank statement. Used when the
+   * statement's layout is not one the line parser can read.
+   */
+  async extractTransactions(ocrText: string): Promise<ParsedTransaction[]> {
+    const prompt = `You are a bankruptcy paralegal assistant reading a BANK STATEMENT.
+List every transaction in the statement's transaction detail: deposits, withdrawals, checks, card purchases, fees, and transfers.
+Do not include summary totals or daily balances.
+
+Return a JSON object with this exact structure:
+{
+  "transactions": [
+    {
+      "date": "<YYYY-MM-DD posting date>",
+      "description": "<description as printed>",
+      "amount": <number, positive for deposits and negative for withdrawals>,
+      "sources": { "postedDate": "<quoted text>", "description": "<quoted text>", "amount": "<quoted text>" }
+    }
+  ]
+}
+
+${SOURCE_QUOTE_INSTRUCTIONS}
+
+Include ONLY the JSON object in your response.`;
+
+    const response = await this.client.llmComplete({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: prompt,
+        },
+        {
+          role: 'user',
+          content: `Extract the transactions from this bank statement:\n\n${redactSensitive(ocrText)}`,
+        },
+      ],
+    });
+
+    // Safely extract content from response
+    const content = response?.choices?.[0]?.message?.content;
+    if (!content) {
+      console.warn('LLM transaction extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
+      return [];
+    }
+
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+
+    if (!jsonMatch) {
+      throw new Error('Failed to extract structured transaction data');
+    }
+
+    const extracted = JSON.parse(jsonMatch[0]);
+    return this.normalizeTransactionData(extracted, ocrText);
+  }
+
+  /**
+   * Read a tax return or 1099 the templates do not recognise. Returns null
+   * when the document has no tax year or income figure.
+   */
+  async extractTaxForm(ocrText: string, documentType: string): Promise<ExtractedTaxForm | null> {
+    const fields = documentType === '1099'
+      ? `  "formType": "1099-NEC" | "1099-MISC" | "1099-INT" | "1099-DIV" | "1099-R" | "SSA-1099",
+  "taxYear": <number>,
+  "payerName": "<payer name or null>",
+  "amount": <number from the income box: NEC box 1, MISC box 1-3, INT box 1, DIV box 1a, R box 1, SSA-1099 box 5>,
+  "box": "<box number the amount came from>",
+  "federalWithheld": <number or null>,`
+      : `  "formType": "1040",
+  "taxYear": <number>,
+  "filingStatus": "single" | "married_joint" | "married_separate" | "head_of_household" | "qualifying_surviving_spouse" | null,
+  "wages": <line 1z wages or null>,
+  "totalIncome": <line 9 total income or null>,
+  "adjustedGrossIncome": <line 11 adjusted gross income>,
+  "businessIncome": <Schedule 1 line 3 or Schedule C line 31, negative for a loss, or null>,
+  "businessReceipts": <Schedule C line 1 gross receipts or null>,
+  "businessExpenses": <Schedule C line 28 total expenses or null>,
+  "rentalIncome": <Schedule 1 line 5 or Schedule E line 26, negative for a loss, or null>,
+  "refund": <line 35a refund or null>,
+  "amountOwed": <line 37 amount owed or null>,`;
+
+    const prompt = `You are a bankruptcy paralegal assistant reading a ${documentType === '1099' ? '1099 FORM' : 'FORM 1040 TAX RETURN'}.
+Copy the figures exactly as printed. Use annual amounts and do NOT divide them.
+
+Return a JSON object with this exact structure:
+{
+${fields}
+  "confidence": <0-1 score>,
+  "sources": { "<field name>": "<quoted text>" }
+}
+
+${SOURCE_QUOTE_INSTRUCTIONS}
+
+Include ONLY the JSON object in your response.`;
+
+    const response = await this.client.llmComplete({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: prompt,
+        },
+        {
+          role: 'user',
+          content: `Extract the tax form figures from this document:\n\n${redactSensitive(ocrText)}`,
+        },
+      ],
+    });
+
+    // Safely extract content from response
+    const content = response?.choices?.[0]?.message?.content;
+    if (!content) {
+      console.warn('LLM tax form extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
+      return null;
+    }
+
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+
+    if (!jsonMatch) {
+      throw new Error('Failed to extract structured tax form data');
+    }
+
+    const extracted = JSON.parse(jsonMatch[0]);
+    return this.normalizeTaxFormData(extracted, ocrText);
   }
 
   /**
@@ -518,7 +706,7 @@ Include ONLY the JSON object in your response. Calculate monthly averages if dat
         },
         {
           role: 'user',
-          content: `Extract expense information from this document:\n\n${ocrText}`,
+          content: `Extract expense information from this document:\n\n${redactSensitive(ocrText)}`,
         },
       ],
     });
@@ -526,7 +714,7 @@ Include ONLY the JSON object in your response. Calculate monthly averages if dat
     // Safely extract content from response
     const content = response?.choices?.[0]?.message?.content;
     if (!content) {
-      console.warn('LLM expense extraction returned unexpected response:', JSON.stringify(response));
+      console.warn('LLM expense extraction returned unexpected response:', redactSensitive(JSON.stringify(response)));
       return {
         housing: 0,
         utilities: 0,
@@ -783,7 +971,7 @@ Return a JSON object with this exact structure:
   "debts": [
     {
       "creditorName": "<string>",
-      "accountNumber": "<full account number if visible, or null>",
+      "accountNumber": "<account number as shown, or null>",
       "accountLast4": "<last 4 digits of account number - IMPORTANT for matching>",
       "debtType": "credit-card" | "medical" | "personal-loan" | "auto-loan" | "mortgage" | "student-loan" | "tax-debt" | "other",
       "originalAmount": <number or null>,
@@ -792,11 +980,14 @@ Return a JSON object with this exact structure:
       "isSecured": <boolean>,
       "collateralDescription": "<string or null>",
       "statementDate": "<YYYY-MM-DD format - the statement date or closing date>",
-      "confidence": <0-1 score>
+      "confidence": <0-1 score>,
+      "sources": { "currentBalance": "<quoted text>", "monthlyPayment": "<quoted text>", "creditorName": "<quoted text>", "accountLast4": "<quoted text>", "statementDate": "<quoted text>" }
     }
   ]
 }
 
+${SOURCE_QUOTE_INSTRUCTIONS}
+
 CRITICAL:
 - Extract accountLast4 (last 4 digits) - this is used to match the same account across multiple statements
 - Extract statementDate - this determines which statement is most recent
@@ -860,11 +1051,14 @@ Return a JSON object with this exact structure:
       "accountLast4": "<last 4 digits of account number for bank accounts - CRITICAL>",
       "institutionName": "<bank or institution name - CRITICAL for matching>",
       "statementDate": "<YYYY-MM-DD - statement date or period end date - CRITICAL>",
-      "confidence": <0-1 score>
+      "confidence": <0-1 score>,
+      "sources": { "estimatedValue": "<quoted text>", "description": "<quoted text>", "institutionName": "<quoted text>", "accountLast4": "<quoted text>", "statementDate": "<quoted text>" }
     }
   ]
 }
 
+${SOURCE_QUOTE_INSTRUCTIONS}
+
 CRITICAL:
 - For bank accounts: accountLast4, institutionName, and statementDate are REQUIRED for matching across multiple statements
 - For bank accounts, use the ENDING or CURRENT balance as estimatedValue
@@ -902,7 +1096,7 @@ CRITICAL:
     }));
   }
 
-  private normalizeDebtData(extracted: any): ExtractedDebt[] {
+  private normalizeDebtData(extracted: any, ocrText: string): ExtractedDebt[] {
     if (!extracted.debts || !Array.isArray(extracted.debts)) {
       return [];
     }
@@ -915,19 +1109,29 @@ CRITICAL:
         accountLast4 = cleaned.slice(-4) || null;
       }
 
+      const currentBalance = parseFloat(debt.currentBalance) || 0;
+      const monthlyPayment = debt.monthlyPayment ? parseFloat(debt.monthlyPayment) : null;
+
       return {
         creditorName: debt.creditorName || 'Unknown Creditor',
         accountNumber: debt.accountNumber || null,
         accountLast4,
         debtType: debt.debtType || 'other',
         originalAmount: debt.originalAmount ? parseFloat(debt.originalAmount) : null,
-        currentBalance: parseFloat(debt.currentBalance) || 0,
-        monthlyPayment: debt.monthlyPayment ? parseFloat(debt.monthlyPayment) : null,
+        currentBalance,
+        monthlyPayment,
         isSecured: debt.isSecured || false,
         collateralDescription: debt.collateralDescription || null,
         statementDate: this.normalizeDate(debt.statementDate),
         source: 'llm-extraction',
         confidence: debt.confidence || 0.7,
+        fieldSources: resolveFieldSources(ocrText, debt.sources, {
+          currentBalance,
+          monthlyPayment,
+          creditorName: debt.creditorName,
+          accountLast4,
+          statementDate: debt.statementDate,
+        }),
       };
     });
   }
@@ -956,7 +1160,7 @@ CRITICAL:
     return null;
   }
 
-  private normalizeAssetData(extracted: any): ExtractedAsset[] {
+  private normalizeAssetData(extracted: any, ocrText: string): ExtractedAsset[] {
     if (!extracted.assets || !Array.isArray(extracted.assets)) {
       return [];
     }
@@ -969,10 +1173,12 @@ CRITICAL:
         accountLast4 = cleaned.slice(-4) || null;
       }
 
+      const estimatedValue = parseFloat(asset.estimatedValue) || 0;
+
       return {
         assetType: asset.assetType || 'other',
         description: asset.description || 'Unknown asset',
-        estimatedValue: parseFloat(asset.estimatedValue) || 0,
+        estimatedValue,
         ownershipPercentage: parseFloat(asset.ownershipPercentage) || 100,
         isExempt: asset.isExempt !== undefined ? asset.isExempt : null,
         encumbrances: parseFloat(asset.encumbrances) || 0,
@@ -981,7 +1187,94 @@ CRITICAL:
         statementDate: this.normalizeDate(asset.statementDate),
         source: 'llm-extraction',
         confidence: asset.confidence || 0.7,
+        fieldSources: resolveFieldSources(ocrText, asset.sources, {
+          estimatedValue,
+          description: asset.description,
+          institutionName: asset.institutionName,
+          accountLast4,
+          statementDate: asset.statementDate,
+        }),
       };
     });
   }
+
+  private normalizeTransactionData(extracted: { transactions?: unknown }, ocrText: string): ParsedTransaction[] {
+    if (!Array.isArray(extracted.transactions)) {
+      return [];
+    }
+
+    return extracted.transactions.flatMap((transaction: Record<string, unknown>) => {
+      const postedDate = this.normalizeDate(transaction.date as string);
+      const amount = parseFloat(String(transaction.amount));
+      const description = String(transaction.description ?? '').trim();
+      if (!postedDate || isNaN(amount) || !description) return [];
+
+      return [{
+        postedDate,
+        description,
+        amount,
+        fieldSources: resolveFieldSources(ocrText, transaction.sources, {
+          postedDate: transaction.date as string,
+          description,
+          amount: Math.abs(amount),
+        }),
+      }];
+    });
+  }
+
+  private normalizeTaxFormData(extracted: Record<string, unknown>, ocrText: string): ExtractedTaxForm | null {
+    const number = (value: unknown) => {
+      const parsed = parseFloat(String(value ?? '').replace(/[$,]/g, ''));
+      return isNaN(parsed) ? null : parsed;
+    };
+    const taxYear = number(extracted.taxYear);
+    const confidence = Number(extracted.confidence) || 0.7;
+    if (!taxYear) return null;
+
+    if (extracted.formType === '1040') {
+      const adjustedGrossIncome = number(extracted.adjustedGrossIncome);
+      if (adjustedGrossIncome === null) return null;
+
+      const statuses: FilingStatus[] = ['single', 'married_joint', 'married_separate', 'head_of_household', 'qualifying_surviving_spouse'];
+      const values = {
+        wages: number(extracted.wages),
+        totalIncome: number(extracted.totalIncome),
+        adjustedGrossIncome,
+        businessIncome: number(extracted.businessIncome),
+        businessReceipts: number(extracted.businessReceipts),
+        businessExpenses: number(extracted.businessExpenses),
+        rentalIncome: number(extracted.rentalIncome),
+        refund: number(extracted.refund),
+        amountOwed: number(extracted.amountOwed),
+      };
+      return {
+        formType: '1040',
+        taxYear,
+        filingStatus: statuses.find(status => status === extracted.filingStatus) ?? null,
+        ...values,
+        source: 'llm-extraction',
+        confidence,
+        fieldSources: resolveFieldSources(ocrText, extracted.sources, { taxYear, ...values }),
+      };
+    }
+
+    const formTypes: Form1099Type[] = ['1099-NEC', '1099-MISC', '1099-INT', '1099-DIV', '1099-R', 'SSA-1099'];
+    const formType = formTypes.find(type => type === extracted.formType);
+    const amount = number(extracted.amount);
+    if (!formType || !amount) return null;
+
+    const payerName = typeof extracted.payerName === 'string' && extracted.payerName.trim() ? extracted.payerName.trim() : null;
+    const federalWithheld = number(extracted.federalWithheld);
+    return {
+      formType,
+      taxYear,
+      payerName,
+      amount,
+      box: typeof extracted.box === 'string' ? extracted.box : null,
+      federalWithheld,
+      source: 'llm-extraction',
+      confidence,
+      fieldSources: resolveFieldSources(ocrText, extracted.sources, { taxYear, payerName, amount, federalWithheld }),
+    };
+  }
 }
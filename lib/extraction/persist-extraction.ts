@@ -0,0 +1,490 @@
+/**
+ * Extraction Persistence
+ *
+ * Runs the financial extractor for a document and writes what it finds to
+ * the case's income, debt, asset, and expense tables, bank statement
+ * transactions to the case ledger, and 1040 and 1099 figures to the case's
+ * tax forms. Pay stubs, bank statements, and IRS forms in a known layout
+ * are read by a template parser instead. Writes are
+ * de-duplicated against existing rows, so running it again for the same
+ * document does not create duplicates.
+ */
+
+import type postgres from 'postgres';
+import type { CaseDevClient } from '../case-dev/client';
+import { FinancialDataExtractor, type ExtractedAsset, type ExtractedTaxForm } from './financial-extractor';
+import {
+  bankStatementToAsset,
+  matchTemplate,
+  templateIncomeResult,
+  templateTaxForm,
+  type TemplateMatch,
+} from './templates';
+import { parseStatementTransactions, saveStatementTransactions } from '../transactions';
+import { saveTaxForm, taxFormIncomes, taxRefundAsset } from '../bankruptcy/tax-forms';
+
+// Document type categories for extraction
+export const INCOME_DOCUMENT_TYPES = ['paystub', 'w2', 'tax_return', '1099'];
+export const DEBT_DOCUMENT_TYPES = ['credit_card', 'loan_statement', 'medical_bill', 'collection_notice', 'mortgage'];
+export const ASSET_DOCUMENT_TYPES = ['vehicle_title', 'property_deed', 'bank_statement', 'mortgage'];
+export const EXPENSE_DOCUMENT_TYPES = ['utility', 'lease', 'mortgage', 'insurance'];
+export const TRANSACTION_DOCUMENT_TYPES = ['bank_statement'];
+export const TAX_FORM_DOCUMENT_TYPES = ['tax_return', '1099'];
+
+export interface ExtractionDocument {
+  id: string;
+  caseId: string;
+  documentType: string;
+  ocrText: string;
+}
+
+export interface ExtractionCounts {
+  extractedIncomeCount: number;
+  extractedDebtCount: number;
+  extractedAssetCount: number;
+  extractedExpenseCount: number;
+  extractedTransactionCount: number;
+  extractionWarnings: string[];
+}
+
+type ReportProgress = (progress: number, message: string) => Promise<void>;
+
+const recordId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+async function saveIncome(
+  sql: postgres.Sql,
+  extractor: FinancialDataExtractor,
+  doc: ExtractionDocument,
+  template: TemplateMatch | null,
+  taxForm: ExtractedTaxForm | null,
+  warnings: string[]
+): Promise<number> {
+  const extractionResult = taxForm
+    ? { monthlyIncomes: taxFormIncomes(taxForm), warnings: [] }
+    : template
+      ? templateIncomeResult(template, doc.ocrText, doc.id)
+      : await extractor.extractMonthlyIncome(doc.ocrText, doc.documentType, doc.id);
+  warnings.push(...extractionResult.warnings);
+  if (extractionResult.monthlyIncomes.length === 0) return 0;
+
+  let count = 0;
+  for (const income of extractionResult.monthlyIncomes) {
+    // Check for duplicate: same case, month, amount (within $1), and income source
+    const existingRecords = await sql`
+      SELECT id FROM income_records
+      WHERE case_id = ${doc.caseId}
+        AND income_month = ${income.incomeMonth}
+        AND income_source = ${income.incomeSource}
+        AND ABS(gross_amount - ${income.grossAmount}) < 1
+    `;
+
+    if (existingRecords.length > 0) {
+      warnings.push(`Skipped duplicate income: ${income.employer || income.incomeSource} for ${income.incomeMonth}`);
+      continue;
+    }
+
+    await sql`
+      INSERT INTO income_records (
+        id, case_id, document_id, income_month,
+        employer, gross_amount, net_amount,
+        income_source, description, confidence, field_sources, extracted_at, created_at
+      ) VALUES (
+        ${recordId('inc')},
+        ${doc.caseId},
+        ${doc.id},
+        ${income.incomeMonth},
+        ${income.employer},
+        ${income.grossAmount},
+        ${income.netAmount},
+        ${income.incomeSource},
+        ${income.description},
+        ${income.confidence},
+        ${JSON.stringify(income.fieldSources)},
+        NOW(),
+        NOW()
+      )
+      ON CONFLICT DO NOTHING
+    `;
+    count++;
+  }
+  return count;
+}
+
+async function saveDebts(
+  sql: postgres.Sql,
+  extractor: FinancialDataExtractor,
+  doc: ExtractionDocument,
+  warnings: string[]
+): Promise<number> {
+  const debts = await extractor.extractDebts(doc.ocrText, doc.documentType);
+  if (debts.length === 0) return 0;
+
+  let count = 0;
+  for (const debt of debts) {
+    const accountLast4 = debt.accountLast4 || (debt.accountNumber?.replace(/\D/g, '').slice(-4)) || null;
+
+    // For credit cards and loans with account numbers, use "most recent wins" logic
+    if (accountLast4 && (debt.debtType === 'credit-card' || debt.debtType === 'personal-loan' || debt.debtType === 'auto-loan' || debt.debtType === 'mortgage')) {
+      const existingDebts = await sql`
+        SELECT id, statement_date, balance FROM debts
+        WHERE case_id = ${doc.caseId}
+          AND account_last4 = ${accountLast4}
+          AND LOWER(creditor_name) = LOWER(${debt.creditorName})
+      `;
+
+      if (existingDebts.length > 0) {
+        const existing = existingDebts[0];
+        const existingDate = existing.statement_date ? new Date(existing.statement_date) : null;
+        const newDate = debt.statementDate ? new Date(debt.statementDate) : null;
+
+        // If new statement is more recent (or existing has no date), update
+        if (!existingDate || (newDate && newDate > existingDate)) {
+          await sql`
+            UPDATE debts
+            SET balance = ${debt.currentBalance},
+                statement_date = ${debt.statementDate},
+                document_id = ${doc.id},
+                monthly_payment = ${debt.monthlyPayment},
+                confidence = ${debt.confidence},
+                field_sources = ${JSON.stringify(debt.fieldSources)}
+            WHERE id = ${existing.id}
+          `;
+          warnings.push(`Updated ${debt.debtType} ****${accountLast4} with more recent balance: $${debt.currentBalance}`);
+        } else {
+          warnings.push(`Skipped older statement for ${debt.debtType} ****${accountLast4}`);
+        }
+        continue;
+      }
+    } else {
+      // For other debts (medical, collection, etc.), check for duplicate by creditor and similar balance
+      const existingDebts = await sql`
+        SELECT id FROM debts
+        WHERE case_id = ${doc.caseId}
+          AND LOWER(creditor_name) = LOWER(${debt.creditorName})
+          AND ABS(balance - ${debt.currentBalance}) < 1
+      `;
+
+      if (existingDebts.length > 0) {
+        warnings.push(`Skipped duplicate debt: ${debt.creditorName}`);
+        continue;
+      }
+    }
+
+    await sql`
+      INSERT INTO debts (
+        id, case_id, document_id, creditor_name, account_last4,
+        balance, monthly_payment, debt_type, secured, collateral,
+        collateral_value, statement_date, confidence, field_sources, created_at
+      ) VALUES (
+        ${recordId('debt')},
+        ${doc.caseId},
+        ${doc.id},
+        ${debt.creditorName},
+        ${accountLast4},
+        ${debt.currentBalance},
+        ${debt.monthlyPayment},
+        ${debt.debtType},
+        ${debt.isSecured},
+        ${debt.collateralDescription},
+        ${null},
+        ${debt.statementDate},
+        ${debt.confidence},
+        ${JSON.stringify(debt.fieldSources)},
+        NOW()
+      )
+      ON CONFLICT DO NOTHING
+    `;
+    count++;
+  }
+  return count;
+}
+
+async function saveAssets(
+  sql: postgres.Sql,
+  extractor: FinancialDataExtractor,
+  doc: ExtractionDocument,
+  template: TemplateMatch | null,
+  warnings: string[]
+): Promise<number> {
+  const assets = template?.result.kind === 'bank_statement'
+    ? [bankStatementToAsset(template.result, template.parserId, doc.ocrText)]
+    : await extractor.extractAssets(doc.ocrText, doc.documentType);
+  return insertAssets(sql, doc, assets, warnings);
+}
+
+async function insertAssets(
+  sql: postgres.Sql,
+  doc: ExtractionDocument,
+  assets: ExtractedAsset[],
+  warnings: string[]
+): Promise<number> {
+  if (assets.length === 0) return 0;
+
+  let count = 0;
+  for (const asset of assets) {
+    // For bank accounts, use "most recent wins" logic based on account number
+    if (asset.assetType === 'bank-account' && asset.accountLast4) {
+      const existingAccounts = await sql`
+        SELECT id, statement_date, current_value FROM assets
+        WHERE case_id = ${doc.caseId}
+          AND asset_type = 'bank-account'
+          AND account_number_last4 = ${asset.accountLast4}
+      `;
+
+      if (existingAccounts.length > 0) {
+        const existing = existingAccounts[0];
+        const existingDate = existing.statement_date ? new Date(existing.statement_date) : null;
+        const newDate = asset.statementDate ? new Date(asset.statementDate) : null;
+
+        // If new statement is more recent (or existing has no date), update
+        if (!existingDate || (newDate && newDate > existingDate)) {
+          await sql`
+            UPDATE assets
+            SET current_value = ${asset.estimatedValue},
+                statement_date = ${asset.statementDate},
+                document_id = ${doc.id},
+                description = ${asset.description},
+                institution = ${asset.institutionName},
+                confidence = ${asset.confidence},
+                field_sources = ${JSON.stringify(asset.fieldSources)}
+            WHERE id = ${existing.id}
+          `;
+          warnings.push(`Updated bank account ****${asset.accountLast4} with more recent balance: $${asset.estimatedValue}`);
+        } else {
+          warnings.push(`Skipped older statement for bank account ****${asset.accountLast4}`);
+        }
+        continue;
+      }
+    } else {
+      // For non-bank-account assets, check for duplicate by type and similar value
+      const existingAssets = await sql`
+        SELECT id FROM assets
+        WHERE case_id = ${doc.caseId}
+          AND asset_type = ${asset.assetType}
+          AND ABS(current_value - ${asset.estimatedValue}) < 1
+      `;
+
+      if (existingAssets.length > 0) {
+        warnings.push(`Skipped duplicate asset: ${asset.description}`);
+        continue;
+      }
+    }
+
+    await sql`
+      INSERT INTO assets (
+        id, case_id, document_id, asset_type, description, current_value,
+        institution, account_number_last4, statement_date,
+        ownership_percentage, confidence, field_sources, created_at
+      ) VALUES (
+        ${recordId('asset')},
+        ${doc.caseId},
+        ${doc.id},
+        ${asset.assetType},
+        ${asset.description},
+        ${asset.estimatedValue},
+        ${asset.institutionName},
+        ${asset.accountLast4},
+        ${asset.statementDate},
+        ${asset.ownershipPercentage},
+        ${asset.confidence},
+        ${JSON.stringify(asset.fieldSources)},
+        NOW()
+      )
+      ON CONFLICT DO NOTHING
+    `;
+    count++;
+  }
+  return count;
+}
+
+async function saveExpenses(
+  sql: postgres.Sql,
+  extractor: FinancialDataExtractor,
+  doc: ExtractionDocument,
+  warnings: string[]
+): Promise<number> {
+  const expenses = await extractor.extractExpenses(doc.ocrText);
+
+  // Create expense records for each category with non-zero values
+  const expenseCategories = [
+    { category: 'housing', amount: expenses.housing },
+    { category: 'utilities', amount: expenses.utilities },
+    { category: 'food', amount: expenses.food },
+    { category: 'transportation', amount: expenses.transportation },
+    { category: 'insurance', amount: expenses.insurance },
+    { category: 'medical', amount: expenses.medical },
+    { category: 'childcare', amount: expenses.childcare },
+    { category: 'other', amount: expenses.other },
+  ];
+
+  let count = 0;
+  for (const exp of expenseCategories) {
+    if (exp.amount <= 0) continue;
+
+    // Check for duplicate: same case, category, and similar amount
+    const existingExpenses = await sql`
+      SELECT id FROM expenses
+      WHERE case_id = ${doc.caseId}
+        AND category = ${exp.category}
+        AND ABS(monthly_amount - ${exp.amount}) < 1
+    `;
+
+    if (existingExpenses.length > 0) {
+      warnings.push(`Skipped duplicate expense: ${exp.category}`);
+      continue;
+    }
+
+    await sql`
+      INSERT INTO expenses (
+        id, case_id, document_id, category, description, monthly_amount,
+        confidence, created_at
+      ) VALUES (
+        ${recordId('exp')},
+        ${doc.caseId},
+        ${doc.id},
+        ${exp.category},
+        ${'Extracted from ' + doc.documentType},
+        ${exp.amount},
+        ${expenses.confidence},
+        NOW()
+      )
+      ON CONFLICT DO NOTHING
+    `;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Read and save a 1040 or 1099, and the refund it shows as an asset.
+ * Returns null when neither a template nor the LLM could read the form.
+ */
+async function saveTaxFormFigures(
+  sql: postgres.Sql,
+  extractor: FinancialDataExtractor,
+  doc: ExtractionDocument,
+  template: TemplateMatch | null,
+  counts: ExtractionCounts
+): Promise<ExtractedTaxForm | null> {
+  const taxForm = template
+    ? templateTaxForm(template, doc.ocrText)
+    : await extractor.extractTaxForm(doc.ocrText, doc.documentType);
+  if (!taxForm) return null;
+
+  await saveTaxForm(sql, doc.caseId, doc.id, taxForm);
+
+  const refund = taxRefundAsset(taxForm);
+  if (refund) {
+    counts.extractedAssetCount += await insertAssets(sql, doc, [refund], counts.extractionWarnings);
+  }
+  return taxForm;
+}
+
+async function saveTransactions(
+  sql: postgres.Sql,
+  extractor: FinancialDataExtractor,
+  doc: ExtractionDocument,
+  template: TemplateMatch | null
+): Promise<number> {
+  // The line parser reads most statements; the LLM handles the rest
+  let transactions = parseStatementTransactions(doc.ocrText);
+  if (transactions.length === 0) {
+    transactions = await extractor.extractTransactions(doc.ocrText);
+  }
+  if (transactions.length === 0) return 0;
+
+  const accountLast4 = template?.result.kind === 'bank_statement' ? template.result.accountLast4?.value ?? null : null;
+  return saveStatementTransactions(sql, doc, transactions, accountLast4);
+}
+
+/**
+ * Extract and save financial data for a document based on its type.
+ * A failure in one category is recorded as a warning and does not stop
+ * the others.
+ */
+export async function extractDocumentFinancials(
+  sql: postgres.Sql,
+  client: CaseDevClient,
+  doc: ExtractionDocument,
+  report: ReportProgress
+): Promise<ExtractionCounts> {
+  const counts: ExtractionCounts = {
+    extractedIncomeCount: 0,
+    extractedDebtCount: 0,
+    extractedAssetCount: 0,
+    extractedExpenseCount: 0,
+    extractedTransactionCount: 0,
+    extractionWarnings: [],
+  };
+  if (!doc.ocrText || doc.ocrText.length <= 50) return counts;
+
+  const extractor = new FinancialDataExtractor(client);
+  const warnings = counts.extractionWarnings;
+  // Null when no template recognises the layout; the LLM handles those
+  const template = matchTemplate(doc.ocrText, doc.documentType);
+  const progressMessage = template ? `Reading ${template.parserName} template...` : 'AI extraction in progress...';
+
+  // Income records come from the tax form's figures when it can be read
+  let taxForm: ExtractedTaxForm | null = null;
+  if (TAX_FORM_DOCUMENT_TYPES.includes(doc.documentType)) {
+    await report(68, template ? progressMessage : 'Reading tax form...');
+    try {
+      taxForm = await saveTaxFormFigures(sql, extractor, doc, template, counts);
+    } catch (extractError) {
+      console.error('Tax form extraction error:', extractError);
+      warnings.push('Tax form figures could not be read, income history not updated');
+    }
+  }
+
+  if (INCOME_DOCUMENT_TYPES.includes(doc.documentType)) {
+    await report(70, progressMessage);
+    try {
+      counts.extractedIncomeCount = await saveIncome(sql, extractor, doc, template, taxForm, warnings);
+    } catch (extractError) {
+      console.error('Income extraction error:', extractError);
+      warnings.push('Income extraction failed, manual entry required');
+    }
+  }
+
+  if (DEBT_DOCUMENT_TYPES.includes(doc.documentType)) {
+    await report(75, progressMessage);
+    try {
+      counts.extractedDebtCount = await saveDebts(sql, extractor, doc, warnings);
+    } catch (extractError) {
+      console.error('Debt extraction error:', extractError);
+      warnings.push('Debt extraction failed, manual entry required');
+    }
+  }
+
+  if (ASSET_DOCUMENT_TYPES.includes(doc.documentType)) {
+    await report(80, progressMessage);
+    try {
+      counts.extractedAssetCount = await saveAssets(sql, extractor, doc, template, warnings);
+    } catch (extractError) {
+      console.error('Asset extraction error:', extractError);
+      warnings.push('Asset extraction failed, manual entry required');
+    }
+  }
+
+  if (EXPENSE_DOCUMENT_TYPES.includes(doc.documentType)) {
+    await report(85, progressMessage);
+    try {
+      counts.extractedExpenseCount = await saveExpenses(sql, extractor, doc, warnings);
+    } catch (extractError) {
+      console.error('Expense extraction error:', extractError);
+      warnings.push('Expense extraction failed, manual entry required');
+    }
+  }
+
+  if (TRANSACTION_DOCUMENT_TYPES.includes(doc.documentType)) {
+    await report(88, 'Reading statement transactions...');
+    try {
+      counts.extractedTransactionCount = await saveTransactions(sql, extractor, doc, template);
+    } catch (extractError) {
+      console.error('Transaction extraction error:', extractError);
+      warnings.push('Transaction extraction failed, statement ledger not updated');
+    }
+  }
+
+  return counts;
+}
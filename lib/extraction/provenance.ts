@@ -0,0 +1,106 @@
+/**
+ * Extraction Provenance
+ *
+ * Locates the text each extracted figure came from in a document's OCR
+ * text. The LLM quotes its source for every field; the quote is matched
+ * back to character offsets so the figure can be shown in the document.
+ */
+
+export interface FieldSource {
+  // 1-based page within the document
+  page: number;
+  // Character offsets into case_documents.ocr_text
+  start: number;
+  end: number;
+  snippet: string;
+}
+
+export type FieldSources = Record<string, FieldSource>;
+
+// Pages in stored OCR text are separated by form feeds
+export const PAGE_BREAK = '\f';
+
+const MAX_SNIPPET_LENGTH = 300;
+
+export function pageAt(text: string, offset: number): number {
+  let page = 1;
+  for (let i = text.indexOf(PAGE_BREAK); i !== -1 && i < offset; i = text.indexOf(PAGE_BREAK, i + 1)) {
+    page++;
+  }
+  return page;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find a quote in the text, first exactly and then ignoring case and
+ * differences in whitespace (OCR line breaks rarely match the quote).
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  const trimmed = quote.trim();
+  if (!trimmed || trimmed.length > MAX_SNIPPET_LENGTH) return null;
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const tokens = trimmed.split(/\s+/).map(escapeRegExp);
+  const match = new RegExp(tokens.join('\\s+'), 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Find a dollar amount as it is usually printed: with or without a dollar
+ * sign, thousands separators, and cents.
+ */
+export function locateAmount(text: string, amount: number): { start: number; end: number } | null {
+  if (!Number.isFinite(amount) || amount === 0) return null;
+
+  const fixed = Math.abs(amount).toFixed(2);
+  const [whole, cents] = fixed.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const wholePattern = grouped === whole ? whole : `(?:${grouped}|${whole})`;
+  const centsPattern = cents === '00' ? `(?:\\.00)?` : `\\.${cents}`;
+
+  const pattern = new RegExp(`(?:\\$\\s?)?${wholePattern}${centsPattern}(?![\\d,]*\\d)`, 'g');
+  for (const match of text.matchAll(pattern)) {
+    // Skip matches that are the tail of a longer number
+    const before = text[match.index - 1];
+    if (before && /[\d,.]/.test(before)) continue;
+    return { start: match.index, end: match.index + match[0].length };
+  }
+  return null;
+}
+
+/**
+ * Resolve the quotes the LLM gave for each field. Fields without a usable
+ * quote fall back to searching for the value itself; fields that cannot be
+ * found are left out.
+ */
+export function resolveFieldSources(
+  text: string,
+  quotes: unknown,
+  values: Record<string, string | number | null | undefined>
+): FieldSources {
+  const sources: FieldSources = {};
+  const quoteMap = quotes && typeof quotes === 'object' ? (quotes as Record<string, unknown>) : {};
+
+  for (const [field, value] of Object.entries(values)) {
+    if (value === null || value === undefined || value === '') continue;
+
+    const quote = quoteMap[field];
+    let span = typeof quote === 'string' ? locateQuote(text, quote) : null;
+    if (!span) {
+      span = typeof value === 'number' ? locateAmount(text, value) : locateQuote(text, value);
+    }
+    if (!span) continue;
+
+    sources[field] = {
+      page: pageAt(text, span.start),
+      start: span.start,
+      end: span.end,
+      snippet: text.slice(span.start, span.end),
+    };
+  }
+
+  return sources;
+}
@@ -0,0 +1,111 @@
+/**
+ * Bank Statement Templates
+ *
+ * Checking and savings statements from the largest retail banks share a
+ * shape: a statement period, an account number, and an account summary
+ * with beginning and ending balances. Each bank is described by the
+ * labels it prints; one parser reads them all.
+ */
+
+import {
+  findAccountLast4,
+  findAmount,
+  findDateRange,
+  findFirstDate,
+} from './text';
+import type { ParsedBankStatement, TemplateParser } from './types';
+
+interface BankStatementLayout {
+  id: string;
+  name: string;
+  /** Every pattern must match for the layout to apply */
+  identify: RegExp[];
+  /** Captures the printed account number in group 1 */
+  accountNumber: RegExp;
+  /**
+   * Label before the statement date range: null when the range stands on
+   * its own, undefined when the bank prints only the closing date
+   */
+  period?: RegExp | null;
+  beginningBalance: RegExp;
+  endingBalance: RegExp;
+}
+
+const BANK_STATEMENT_LAYOUTS: BankStatementLayout[] = [
+  {
+    id: 'chase',
+    name: 'Chase',
+    identify: [/JPMorgan Chase Bank/i, /Beginning Balance/i],
+    accountNumber: /Account Number:?\s*([\d -]{8,})/i,
+    period: null,
+    beginningBalance: /Beginning Balance/i,
+    endingBalance: /Ending Balance/i,
+  },
+  {
+    id: 'bank_of_america',
+    name: 'Bank of America',
+    identify: [/Bank of America/i, /Beginning balance on/i],
+    accountNumber: /Account number:?\s*([\d ]{8,})/i,
+    period: null,
+    beginningBalance: /Beginning balance on [A-Za-z]+ \d{1,2}, \d{4}/i,
+    endingBalance: /Ending balance on [A-Za-z]+ \d{1,2}, \d{4}/i,
+  },
+  {
+    id: 'wells_fargo',
+    name: 'Wells Fargo',
+    identify: [/Wells Fargo/i, /Statement period activity summary/i],
+    accountNumber: /Account number:?\s*(\d{6,})/i,
+    beginningBalance: /Beginning balance on \d{1,2}\/\d{1,2}/i,
+    endingBalance: /Ending balance on \d{1,2}\/\d{1,2}/i,
+  },
+  {
+    id: 'capital_one',
+    name: 'Capital One',
+    identify: [/Capital One/i, /Closing Balance/i],
+    accountNumber: /(?:Checking|Savings)\s*\.{2,}\s*(\d{4})/i,
+    period: /Statement Period:?/i,
+    beginningBalance: /Opening Balance/i,
+    endingBalance: /Closing Balance/i,
+  },
+];
+
+function accountTypeOf(text: string): ParsedBankStatement['accountType'] {
+  const checking = text.search(/checking/i);
+  const savings = text.search(/savings/i);
+  if (checking === -1 && savings === -1) return null;
+  if (savings === -1) return 'checking';
+  if (checking === -1) return 'savings';
+  // Statements mention both in marketing copy; the product name comes first
+  return checking < savings ? 'checking' : 'savings';
+}
+
+function bankStatementParser(layout: BankStatementLayout): TemplateParser<ParsedBankStatement> {
+  return {
+    id: layout.id,
+    name: layout.name,
+    documentType: 'bank_statement',
+    matches: text => layout.identify.every(pattern => pattern.test(text)),
+    parse: text => {
+      const period = layout.period === undefined ? null : findDateRange(text, layout.period ?? undefined);
+      const periodEnd = period?.[1] ?? findFirstDate(text);
+      const endingBalance = findAmount(text, layout.endingBalance);
+      if (!periodEnd || !endingBalance) return null;
+
+      // findAmount drops the sign; an overdrawn account prints a minus
+      const overdrawn = text.slice(endingBalance.start, endingBalance.end).startsWith('-');
+
+      return {
+        kind: 'bank_statement',
+        institution: layout.name,
+        accountType: accountTypeOf(text),
+        accountLast4: findAccountLast4(text, layout.accountNumber),
+        periodStart: period?.[0] ?? null,
+        periodEnd,
+        beginningBalance: findAmount(text, layout.beginningBalance),
+        endingBalance: overdrawn ? { ...endingBalance, value: -endingBalance.value } : endingBalance,
+      };
+    },
+  };
+}
+
+export const BANK_STATEMENT_PARSERS = BANK_STATEMENT_LAYOUTS.map(bankStatementParser);
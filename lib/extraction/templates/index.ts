@@ -0,0 +1,194 @@
+/**
+ * Template Parsers
+ *
+ * Deterministic parsers for common pay stub, bank statement, and IRS form
+ * layouts.
+ * Extraction tries these first and only calls the LLM extractor when no
+ * template recognises the document.
+ */
+
+import type {
+  ExtractedAsset,
+  ExtractedMonthlyIncome,
+  ExtractedTaxForm,
+  IncomeExtractionResult,
+} from '../financial-extractor';
+import { BANK_STATEMENT_PARSERS } from './bank-statements';
+import { PAY_STUB_PARSERS } from './paystubs';
+import { TAX_FORM_PARSERS } from './tax-forms';
+import { locatedSources } from './text';
+import type { ParsedBankStatement, ParsedPayStub, TemplateMatch, TemplateParser } from './types';
+
+export { PAY_STUB_PARSERS } from './paystubs';
+export { BANK_STATEMENT_PARSERS } from './bank-statements';
+export { TAX_FORM_PARSERS } from './tax-forms';
+export { parseAmount, parseDate, type Located } from './text';
+export type {
+  FilingStatus,
+  Form1099Type,
+  Parsed1099,
+  ParsedBankStatement,
+  ParsedPayStub,
+  ParsedTaxReturn,
+  TemplateMatch,
+  TemplateParser,
+  TemplateResult,
+} from './types';
+
+export const TEMPLATE_PARSERS: TemplateParser[] = [...PAY_STUB_PARSERS, ...BANK_STATEMENT_PARSERS, ...TAX_FORM_PARSERS];
+
+// Values read from a known layout rather than inferred
+export const TEMPLATE_CONFIDENCE = 0.95;
+
+/**
+ * Parse a document with the first template that recognises it
+ */
+export function matchTemplate(text: string, documentType: string): TemplateMatch | null {
+  for (const parser of TEMPLATE_PARSERS) {
+    if (parser.documentType !== documentType || !parser.matches(text)) continue;
+
+    const result = parser.parse(text);
+    if (result) return { parserId: parser.id, parserName: parser.name, result };
+  }
+  return null;
+}
+
+/**
+ * Pay frequency implied by the length of the pay period
+ */
+export function payFrequencyOf(stub: ParsedPayStub): 'weekly' | 'biweekly' | 'semi_monthly' | 'monthly' | null {
+  if (!stub.periodStart || !stub.periodEnd) return null;
+
+  const days = Math.round(
+    (Date.parse(stub.periodEnd.value) - Date.parse(stub.periodStart.value)) / (24 * 60 * 60 * 1000)
+  ) + 1;
+
+  if (days >= 6 && days <= 8) return 'weekly';
+  if (days === 14) return 'biweekly';
+  if (days >= 13 && days <= 16) return 'semi_monthly';
+  if (days >= 28 && days <= 31) return 'monthly';
+  return null;
+}
+
+export function payStubToMonthlyIncome(stub: ParsedPayStub, parserName: string, text: string): ExtractedMonthlyIncome {
+  return {
+    // Income counts in the month it was paid
+    incomeMonth: stub.payDate.value.slice(0, 7),
+    grossAmount: stub.grossPay.value,
+    netAmount: stub.netPay?.value ?? null,
+    employer: stub.employer?.value ?? null,
+    incomeSource: 'employment',
+    description: `${parserName} pay stub paid ${stub.payDate.value}`,
+    confidence: TEMPLATE_CONFIDENCE,
+    fieldSources: locatedSources(text, {
+      grossAmount: stub.grossPay,
+      netAmount: stub.netPay,
+      employer: stub.employer,
+      incomeMonth: stub.payDate,
+    }),
+  };
+}
+
+export function bankStatementToAsset(statement: ParsedBankStatement, parserId: string, text: string): ExtractedAsset {
+  const accountLabel = statement.accountType ? `${statement.accountType} account` : 'account';
+  return {
+    assetType: 'bank-account',
+    description: `${statement.institution} ${accountLabel}${statement.accountLast4 ? ` ****${statement.accountLast4.value}` : ''}`,
+    estimatedValue: statement.endingBalance.value,
+    ownershipPercentage: 100,
+    isExempt: null,
+    encumbrances: 0,
+    accountLast4: statement.accountLast4?.value ?? null,
+    institutionName: statement.institution,
+    statementDate: statement.periodEnd.value,
+    source: `template:${parserId}`,
+    confidence: TEMPLATE_CONFIDENCE,
+    fieldSources: locatedSources(text, {
+      estimatedValue: statement.endingBalance,
+      accountLast4: statement.accountLast4,
+      statementDate: statement.periodEnd,
+    }),
+  };
+}
+
+/**
+ * Structured figures from a recognised Form 1040 or 1099
+ */
+export function templateTaxForm(match: TemplateMatch, text: string): ExtractedTaxForm | null {
+  const { result } = match;
+  const source = `template:${match.parserId}`;
+
+  if (result.kind === 'tax_return') {
+    return {
+      formType: '1040',
+      taxYear: result.taxYear.value,
+      filingStatus: result.filingStatus?.value ?? null,
+      wages: result.wages?.value ?? null,
+      totalIncome: result.totalIncome?.value ?? null,
+      adjustedGrossIncome: result.adjustedGrossIncome.value,
+      businessIncome: result.businessIncome?.value ?? null,
+      businessReceipts: result.businessReceipts?.value ?? null,
+      businessExpenses: result.businessExpenses?.value ?? null,
+      rentalIncome: result.rentalIncome?.value ?? null,
+      refund: result.refund?.value ?? null,
+      amountOwed: result.amountOwed?.value ?? null,
+      source,
+      confidence: TEMPLATE_CONFIDENCE,
+      fieldSources: locatedSources(text, {
+        taxYear: result.taxYear,
+        filingStatus: result.filingStatus,
+        wages: result.wages,
+        totalIncome: result.totalIncome,
+        adjustedGrossIncome: result.adjustedGrossIncome,
+        businessIncome: result.businessIncome,
+        businessReceipts: result.businessReceipts,
+        businessExpenses: result.businessExpenses,
+        rentalIncome: result.rentalIncome,
+        refund: result.refund,
+        amountOwed: result.amountOwed,
+      }),
+    };
+  }
+
+  if (result.kind === '1099') {
+    return {
+      formType: result.formType,
+      taxYear: result.taxYear.value,
+      payerName: result.payer?.value ?? null,
+      amount: result.amount.value,
+      box: result.box,
+      federalWithheld: result.federalWithheld?.value ?? null,
+      source,
+      confidence: TEMPLATE_CONFIDENCE,
+      fieldSources: locatedSources(text, {
+        taxYear: result.taxYear,
+        payerName: result.payer,
+        amount: result.amount,
+        federalWithheld: result.federalWithheld,
+      }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Monthly income from a recognised pay stub, in the extractor's result shape
+ */
+export function templateIncomeResult(
+  match: TemplateMatch,
+  text: string,
+  documentId: string
+): IncomeExtractionResult {
+  const monthlyIncomes = match.result.kind === 'paystub'
+    ? [payStubToMonthlyIncome(match.result, match.parserName, text)]
+    : [];
+
+  return {
+    documentId,
+    documentType: match.result.kind,
+    monthlyIncomes,
+    totalConfidence: monthlyIncomes.length > 0 ? TEMPLATE_CONFIDENCE : 0,
+    warnings: [],
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Pay Stub Templates
+ *
+ * Parsers for the earnings statements printed by the large payroll
+ * providers. Each one reads the pay date, pay period, and current and
+ * year-to-date gross and net pay from the provider's fixed layout.
+ */
+
+import {
+  findAmount,
+  findDate,
+  findDateRange,
+  findLine,
+  readTableRow,
+} from './text';
+import type { ParsedPayStub, TemplateParser } from './types';
+
+function payStub(fields: Omit<ParsedPayStub, 'kind' | 'payDate' | 'grossPay'> & {
+  payDate: ParsedPayStub['payDate'] | null;
+  grossPay: ParsedPayStub['grossPay'] | null;
+}): ParsedPayStub | null {
+  const { payDate, grossPay } = fields;
+  if (!payDate || !grossPay) return null;
+  return { ...fields, kind: 'paystub', payDate, grossPay };
+}
+
+/**
+ * ADP "Earnings Statement": company address top left, period and pay date
+ * top right, then earnings with this-period and year-to-date columns
+ */
+export const adpPayStubParser: TemplateParser<ParsedPayStub> = {
+  id: 'adp',
+  name: 'ADP',
+  documentType: 'paystub',
+  matches: text => /Earnings Statement/i.test(text) && /Company Code/i.test(text),
+  parse: text =>
+    payStub({
+      employer: findLine(text, undefined, { remove: /Earnings Statement/i }),
+      payDate: findDate(text, /Pay Date:?/i),
+      periodStart: findDate(text, /Period Beginning:?/i),
+      periodEnd: findDate(text, /Period Ending:?/i),
+      grossPay: findAmount(text, /Gross Pay/i),
+      netPay: findAmount(text, /Net Pay/i),
+      ytdGross: findAmount(text, /Gross Pay/i, 1),
+      ytdNet: findAmount(text, /Net Pay/i, 1),
+      ytdFederalWithheld: findAmount(text, /Federal Income Tax/i, 1),
+    }),
+};
+
+/**
+ * Paychex: provider banner, company name below it, check date and pay
+ * period on one line, current and YTD columns
+ */
+export const paychexPayStubParser: TemplateParser<ParsedPayStub> = {
+  id: 'paychex',
+  name: 'Paychex',
+  documentType: 'paystub',
+  matches: text => /paychex/i.test(text) && /Check Date/i.test(text),
+  parse: text => {
+    const period = findDateRange(text, /Pay Period:?/i);
+    const gross = /Gross Earnings/i.test(text) ? /Gross Earnings/i : /Gross Pay/i;
+    return payStub({
+      employer: findLine(text, /^\s*paychex\b.*$/im),
+      payDate: findDate(text, /Check Date:?/i),
+      periodStart: period?.[0] ?? null,
+      periodEnd: period?.[1] ?? null,
+      grossPay: findAmount(text, gross),
+      netPay: findAmount(text, /Net Pay/i),
+      ytdGross: findAmount(text, gross, 1),
+      ytdNet: findAmount(text, /Net Pay/i, 1),
+      ytdFederalWithheld: findAmount(text, /Federal Income Tax/i, 1),
+    });
+  },
+};
+
+/**
+ * Gusto: company name first, "Pay period" and "Pay Day" lines, dollar
+ * amounts with current and year-to-date columns
+ */
+export const gustoPayStubParser: TemplateParser<ParsedPayStub> = {
+  id: 'gusto',
+  name: 'Gusto',
+  documentType: 'paystub',
+  matches: text => /\bgusto\b/i.test(text) && /Pay Day/i.test(text),
+  parse: text => {
+    const period = findDateRange(text, /Pay period:?/i);
+    return payStub({
+      employer: findLine(text),
+      payDate: findDate(text, /Pay Day:?/i),
+      periodStart: period?.[0] ?? null,
+      periodEnd: period?.[1] ?? null,
+      grossPay: findAmount(text, /Gross Earnings/i),
+      netPay: findAmount(text, /Net Pay/i),
+      ytdGross: findAmount(text, /Gross Earnings/i, 1),
+      ytdNet: findAmount(text, /Net Pay/i, 1),
+      ytdFederalWithheld: findAmount(text, /Federal Income Tax/i, 1),
+    });
+  },
+};
+
+const WORKDAY_TOTAL_COLUMNS = [
+  'Hours Worked',
+  'Gross Pay',
+  'Pre Tax Deductions',
+  'Employee Taxes',
+  'Post Tax Deductions',
+  'Net Pay',
+];
+
+/**
+ * Workday pay slip: a header table (company, period begin and end, check
+ * date) and a "Current and YTD Totals" table read by column
+ */
+export const workdayPayStubParser: TemplateParser<ParsedPayStub> = {
+  id: 'workday',
+  name: 'Workday',
+  documentType: 'paystub',
+  matches: text => /Period Begin Date/i.test(text) && /Check Date/i.test(text),
+  parse: text => {
+    // The row under the header holds the company followed by the three dates
+    const headerRow = findLine(text, /Period Begin Date/i);
+    const [periodStart, periodEnd, payDate] = [0, 1, 2].map(column =>
+      findDate(text, /Period Begin Date.*\n\s*/i, column)
+    );
+    const company = headerRow ? /^(.*?)\s+\d{1,2}\/\d{1,2}\/\d{2,4}/.exec(headerRow.value) : null;
+
+    const current = readTableRow(text, /Gross Pay.*Net Pay/i, /Current\b/, WORKDAY_TOTAL_COLUMNS);
+    const ytd = readTableRow(text, /Gross Pay.*Net Pay/i, /YTD\b/, WORKDAY_TOTAL_COLUMNS);
+
+    return payStub({
+      employer: company && headerRow
+        ? { value: company[1].trim(), start: headerRow.start, end: headerRow.start + company[1].trim().length }
+        : null,
+      payDate,
+      periodStart,
+      periodEnd,
+      grossPay: current?.['Gross Pay'] ?? null,
+      netPay: current?.['Net Pay'] ?? null,
+      ytdGross: ytd?.['Gross Pay'] ?? null,
+      ytdNet: ytd?.['Net Pay'] ?? null,
+      ytdFederalWithheld: null,
+    });
+  },
+};
+
+export const PAY_STUB_PARSERS: TemplateParser<ParsedPayStub>[] = [
+  adpPayStubParser,
+  paychexPayStubParser,
+  gustoPayStubParser,
+  workdayPayStubParser,
+];
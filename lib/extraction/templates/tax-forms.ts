@@ -0,0 +1,195 @@
+/**
+ * Tax Form Templates
+ *
+ * Parsers for the IRS forms debtors bring in for prior-year income: the
+ * Form 1040 (with Schedules 1, C and E when attached) and the 1099 series.
+ * The IRS layouts are fixed, so each value is read from its line label.
+ */
+
+import { findFormAmount, findLine, type Located } from './text';
+import type { FilingStatus, Form1099Type, Parsed1099, ParsedTaxReturn, TemplateParser } from './types';
+
+// Check marks as they come out of OCR
+const CHECKED = String.raw`(?:☒|☑|✓|✔|■|\[[xX✓]\]|\bX\b)`;
+
+const FILING_STATUSES: Array<{ status: FilingStatus; label: RegExp }> = [
+  { status: 'single', label: /Single/ },
+  { status: 'married_joint', label: /Married filing jointly/ },
+  { status: 'married_separate', label: /Married filing separately/ },
+  { status: 'head_of_household', label: /Head of household/ },
+  { status: 'qualifying_surviving_spouse', label: /Qualifying (?:surviving spouse|widow)/ },
+];
+
+function findYear(text: string, patterns: RegExp[]): Located<number> | null {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const start = match.index + match[0].lastIndexOf(match[1]);
+    return { value: Number(match[1]), start, end: start + match[1].length };
+  }
+  return null;
+}
+
+/** The first label, in order of preference, that has an amount */
+function firstFormAmount(text: string, labels: RegExp[]): Located<number> | null {
+  for (const label of labels) {
+    const found = findFormAmount(text, label);
+    if (found) return found;
+  }
+  return null;
+}
+
+function findFilingStatus(text: string): Located<FilingStatus> | null {
+  for (const { status, label } of FILING_STATUSES) {
+    const match = new RegExp(`${CHECKED}\\s*(${label.source})`, 'i').exec(text);
+    if (!match) continue;
+
+    const start = match.index + match[0].length - match[1].length;
+    return { value: status, start, end: match.index + match[0].length };
+  }
+  return null;
+}
+
+/**
+ * Form 1040 and 1040-SR: tax year in the title, filing status check boxes,
+ * then numbered income lines with amounts in the right-hand column
+ */
+export const form1040Parser: TemplateParser<ParsedTaxReturn> = {
+  id: 'form_1040',
+  name: 'Form 1040',
+  documentType: 'tax_return',
+  matches: text =>
+    /Form\s*1040(?:-SR)?\b/i.test(text) && /Individual Income Tax Return|Tax Return for Seniors/i.test(text),
+  parse: text => {
+    const taxYear = findYear(text, [
+      /(?:Individual Income Tax Return|Tax Return for Seniors)\s*(20\d{2})/i,
+      /Form\s*1040(?:-SR)?\s*\((20\d{2})\)/i,
+      /For the year Jan\.? 1\s*[-–]\s*Dec\.? 31,?\s*(20\d{2})/i,
+    ]);
+    const adjustedGrossIncome = firstFormAmount(text, [/This is your adjusted gross income/i, /Adjusted gross income/i]);
+    if (!taxYear || !adjustedGrossIncome) return null;
+
+    return {
+      kind: 'tax_return',
+      taxYear,
+      filingStatus: findFilingStatus(text),
+      wages: firstFormAmount(text, [
+        /Add lines 1a through 1h/i,
+        /Total amount from Form\(s\) W-2/i,
+        /Wages, salaries, tips/i,
+      ]),
+      totalIncome: findFormAmount(text, /This is your total income/i),
+      adjustedGrossIncome,
+      businessIncome: firstFormAmount(text, [/Business income or \(loss\)/i, /Net profit or \(loss\)/i]),
+      businessReceipts: findFormAmount(text, /Gross receipts or sales/i),
+      businessExpenses: findFormAmount(text, /Total expenses before expenses for business use of home/i),
+      rentalIncome: firstFormAmount(text, [
+        /Rental real estate, royalties, partnerships/i,
+        /Total rental real estate and royalty income/i,
+      ]),
+      refund: firstFormAmount(text, [/refunded to you/i, /This is the amount you overpaid/i]),
+      amountOwed: findFormAmount(text, /This is the amount you owe/i),
+    };
+  },
+};
+
+const FORM_1099_YEAR = [
+  /calendar year\s*(20\d{2})/i,
+  /Tax year\s*(20\d{2})/i,
+  /Net benefits for\s*(20\d{2})/i,
+  /\b(20\d{2})\s+(?:Form\s+)?(?:SSA-)?1099\b/i,
+];
+
+interface Form1099Layout {
+  formType: Form1099Type;
+  matches: RegExp;
+  /** Income boxes in order of preference; the first with an amount is used */
+  boxes: Array<{ box: string; label: RegExp }>;
+  withheld: RegExp;
+  payer: (text: string) => Located<string> | null;
+}
+
+const payerBlock = (text: string) => findLine(text, /PAYER'?S name/i);
+
+function form1099Parser(id: string, layout: Form1099Layout): TemplateParser<Parsed1099> {
+  return {
+    id,
+    name: `Form ${layout.formType}`,
+    documentType: '1099',
+    matches: text => layout.matches.test(text),
+    parse: text => {
+      const taxYear = findYear(text, FORM_1099_YEAR);
+      if (!taxYear) return null;
+
+      for (const { box, label } of layout.boxes) {
+        const amount = findFormAmount(text, label);
+        if (!amount || amount.value <= 0) continue;
+
+        return {
+          kind: '1099',
+          formType: layout.formType,
+          taxYear,
+          payer: layout.payer(text),
+          amount,
+          box,
+          federalWithheld: findFormAmount(text, layout.withheld),
+        };
+      }
+      return null;
+    },
+  };
+}
+
+export const TAX_FORM_PARSERS: TemplateParser[] = [
+  form1040Parser,
+  form1099Parser('form_1099_nec', {
+    formType: '1099-NEC',
+    matches: /Form\s*1099-NEC/i,
+    boxes: [{ box: '1', label: /Nonemployee compensation/i }],
+    withheld: /Federal income tax withheld/i,
+    payer: payerBlock,
+  }),
+  form1099Parser('form_1099_misc', {
+    formType: '1099-MISC',
+    matches: /Form\s*1099-MISC/i,
+    boxes: [
+      { box: '1', label: /\bRents\b/i },
+      { box: '2', label: /\bRoyalties\b/i },
+      { box: '3', label: /\bOther income\b/i },
+    ],
+    withheld: /Federal income tax withheld/i,
+    payer: payerBlock,
+  }),
+  form1099Parser('form_1099_int', {
+    formType: '1099-INT',
+    matches: /Form\s*1099-INT/i,
+    boxes: [{ box: '1', label: /Interest income/i }],
+    withheld: /Federal income tax withheld/i,
+    payer: payerBlock,
+  }),
+  form1099Parser('form_1099_div', {
+    formType: '1099-DIV',
+    matches: /Form\s*1099-DIV/i,
+    boxes: [{ box: '1a', label: /Total ordinary dividends/i }],
+    withheld: /Federal income tax withheld/i,
+    payer: payerBlock,
+  }),
+  form1099Parser('form_1099_r', {
+    formType: '1099-R',
+    matches: /Form\s*1099-R\b/i,
+    boxes: [{ box: '1', label: /Gross distribution/i }],
+    withheld: /Federal income tax withheld/i,
+    payer: payerBlock,
+  }),
+  form1099Parser('form_ssa_1099', {
+    formType: 'SSA-1099',
+    matches: /SSA-1099/i,
+    boxes: [{ box: '5', label: /Net benefits for\s*\d{4}/i }],
+    withheld: /Voluntary federal income tax withholding/i,
+    payer: text => {
+      const match = /Social Security Administration/i.exec(text);
+      return match ? { value: 'Social Security Administration', start: match.index, end: match.index + match[0].length } : null;
+    },
+  }),
+];
@@ -0,0 +1,266 @@
+/**
+ * Template Text Helpers
+ *
+ * Finds labelled amounts, dates, and account numbers in OCR text, keeping
+ * the character offsets of each value so the parsers can record where it
+ * came from.
+ */
+
+import { pageAt, type FieldSources } from '../provenance';
+
+export interface Located<T> {
+  value: T;
+  start: number;
+  end: number;
+}
+
+// Amounts always carry cents on these documents, which keeps counts and years out
+const MONEY = String.raw`-?\$?\s?(?:\d{1,3}(?:,\d{3})+|\d+)\.\d{2}(?!\d)`;
+
+// Tax forms print whole dollars and show losses in parentheses
+const FORM_AMOUNT = String.raw`\(?-?\$?\s?(?:\d{1,3}(?:,\d{3})+|\d{3,}|\d+(?=\.\d{2}))(?:\.\d{2})?\.?\)?`;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = String.raw`(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?`;
+const DATE = String.raw`(?:\d{1,2}/\d{1,2}/(?:\d{4}|\d{2})(?!\d)|\d{4}-\d{2}-\d{2}|${MONTH}\s+\d{1,2},?\s+\d{4})`;
+// A range whose first date may leave out the year ("Feb 1 - Feb 28, 2025")
+const DATE_RANGE = String.raw`(${DATE}|${MONTH}\s+\d{1,2})\s*(?:-|–|—|to|through|thru)\s*(${DATE})`;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function parseAmount(text: string): number {
+  return Math.round(parseFloat(text.replace(/[$,\s]/g, '')) * 100) / 100;
+}
+
+/**
+ * Parse a printed date to YYYY-MM-DD. Dates without a year take
+ * `defaultYear`.
+ */
+export function parseDate(text: string, defaultYear?: number): string | null {
+  const trimmed = text.trim();
+
+  let match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})$/.exec(trimmed);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return `${year}-${pad(Number(match[1]))}-${pad(Number(match[2]))}`;
+  }
+
+  match = /^([A-Za-z]+)\.?\s+(\d{1,2}),?(?:\s+(\d{4}))?$/.exec(trimmed);
+  if (match) {
+    const month = MONTH_NAMES.indexOf(match[1].slice(0, 3).toLowerCase());
+    const year = match[3] ? Number(match[3]) : defaultYear;
+    if (month === -1 || !year) return null;
+    return `${year}-${pad(month + 1)}-${pad(Number(match[2]))}`;
+  }
+
+  return null;
+}
+
+function lineEnd(text: string, from: number): number {
+  const end = text.indexOf('\n', from);
+  return end === -1 ? text.length : end;
+}
+
+function lineStart(text: string, from: number): number {
+  return text.lastIndexOf('\n', from - 1) + 1;
+}
+
+/**
+ * Values matching `pattern` on the same line as a label, for the first
+ * occurrence of the label that has any
+ */
+function valuesAfterLabel(text: string, label: RegExp, pattern: string): Located<string>[] {
+  const labels = new RegExp(label.source, label.flags.includes('g') ? label.flags : `${label.flags}g`);
+
+  for (const labelMatch of text.matchAll(labels)) {
+    const from = labelMatch.index + labelMatch[0].length;
+    const line = text.slice(from, lineEnd(text, from));
+    const values = [...line.matchAll(new RegExp(pattern, 'g'))].map(match => ({
+      value: match[0].trim(),
+      start: from + match.index + (match[0].length - match[0].trimStart().length),
+      end: from + match.index + match[0].trimEnd().length,
+    }));
+    if (values.length > 0) return values;
+  }
+
+  return [];
+}
+
+/**
+ * Amount printed after a label on the same line. `column` picks between
+ * several amounts, e.g. 0 for the current period and 1 for year to date.
+ */
+export function findAmount(text: string, label: RegExp, column = 0): Located<number> | null {
+  const found = valuesAfterLabel(text, label, MONEY)[column];
+  return found ? { ...found, value: Math.abs(parseAmount(found.value)) } : null;
+}
+
+function formAmountAt(text: string, from: number, to: number): Located<number> | null {
+  const match = new RegExp(`(${FORM_AMOUNT})\\s*$`).exec(text.slice(from, to));
+  if (!match) return null;
+
+  const printed = match[1].trimStart();
+  const amount = parseAmount(printed.replace(/[()]/g, '').replace(/\.$/, ''));
+  const negative = printed.startsWith('(') || printed.includes('-');
+  const start = from + match.index + match[1].length - printed.length;
+  return { value: negative ? -Math.abs(amount) : amount, start, end: start + printed.length };
+}
+
+/**
+ * Amount in the right-hand column of a tax form line, or alone on the line
+ * below a box label. Negative when printed in parentheses.
+ */
+export function findFormAmount(text: string, label: RegExp): Located<number> | null {
+  const labels = new RegExp(label.source, label.flags.includes('g') ? label.flags : `${label.flags}g`);
+
+  for (const labelMatch of text.matchAll(labels)) {
+    const from = labelMatch.index + labelMatch[0].length;
+    const end = lineEnd(text, from);
+    const sameLine = formAmountAt(text, from, end);
+    if (sameLine) return sameLine;
+
+    const next = text.slice(end + 1, lineEnd(text, end + 1));
+    if (new RegExp(`^\\s*${FORM_AMOUNT}\\s*$`).test(next)) return formAmountAt(text, end + 1, lineEnd(text, end + 1));
+  }
+
+  return null;
+}
+
+export function findDate(text: string, label: RegExp, column = 0): Located<string> | null {
+  const found = valuesAfterLabel(text, label, DATE)[column];
+  const value = found ? parseDate(found.value) : null;
+  return found && value ? { ...found, value } : null;
+}
+
+/**
+ * Start and end of a date range, after a label or anywhere in the text
+ */
+export function findDateRange(text: string, label?: RegExp): [Located<string>, Located<string>] | null {
+  let from = 0;
+  if (label) {
+    const labelMatch = label.exec(text);
+    if (!labelMatch) return null;
+    from = labelMatch.index + labelMatch[0].length;
+  }
+
+  const match = new RegExp(DATE_RANGE).exec(text.slice(from));
+  if (!match) return null;
+
+  const end = parseDate(match[2]);
+  if (!end) return null;
+  // A start date without a year belongs to the end date's year, or the one before
+  let start = parseDate(match[1], Number(end.slice(0, 4)));
+  if (start && start > end) start = `${Number(start.slice(0, 4)) - 1}${start.slice(4)}`;
+  if (!start) return null;
+
+  const startIndex = from + match.index;
+  const endIndex = startIndex + match[0].lastIndexOf(match[2]);
+  return [
+    { value: start, start: startIndex, end: startIndex + match[1].length },
+    { value: end, start: endIndex, end: endIndex + match[2].length },
+  ];
+}
+
+/** The first full date anywhere in the text */
+export function findFirstDate(text: string): Located<string> | null {
+  const match = new RegExp(DATE).exec(text);
+  const value = match ? parseDate(match[0]) : null;
+  return match && value ? { value, start: match.index, end: match.index + match[0].length } : null;
+}
+
+/**
+ * Last four digits of an account number. `pattern` captures the printed
+ * number in its first group.
+ */
+export function findAccountLast4(text: string, pattern: RegExp): Located<string> | null {
+  const match = pattern.exec(text);
+  if (!match?.[1]) return null;
+
+  const digits = match[1].replace(/\D/g, '');
+  if (digits.length < 4) return null;
+
+  const groupStart = match.index + match[0].lastIndexOf(match[1]);
+  const groupEnd = groupStart + match[1].trimEnd().length;
+  return { value: digits.slice(-4), start: groupStart, end: groupEnd };
+}
+
+/**
+ * The first non-empty line after the line matching `pattern`, or the first
+ * line of the text when no pattern is given
+ */
+export function findLine(text: string, pattern?: RegExp, { remove }: { remove?: RegExp } = {}): Located<string> | null {
+  let from = 0;
+  if (pattern) {
+    const match = pattern.exec(text);
+    if (!match) return null;
+    from = lineEnd(text, match.index) + 1;
+  }
+
+  for (let start = from; start < text.length; start = lineEnd(text, start) + 1) {
+    const line = text.slice(start, lineEnd(text, start));
+    const value = (remove ? line.replace(remove, '') : line).trim();
+    if (!value) continue;
+
+    const offset = start + line.indexOf(value);
+    return { value, start: offset, end: offset + value.length };
+  }
+
+  return null;
+}
+
+/**
+ * Split a table row into the values under each known column heading. The
+ * header gives the column order; rows must have one value per column.
+ */
+export function readTableRow(
+  text: string,
+  headerPattern: RegExp,
+  rowLabel: RegExp,
+  columns: string[]
+): Record<string, Located<number>> | null {
+  const header = headerPattern.exec(text);
+  if (!header) return null;
+
+  const headerLine = text.slice(lineStart(text, header.index), lineEnd(text, header.index));
+  const order = columns
+    .map(column => ({ column, position: headerLine.toLowerCase().indexOf(column.toLowerCase()) }))
+    .filter(entry => entry.position !== -1)
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.column);
+
+  const rest = text.slice(lineEnd(text, header.index));
+  const row = new RegExp(`^\\s*${rowLabel.source}`, 'im').exec(rest);
+  if (!row) return null;
+
+  const rowStart = lineEnd(text, header.index) + row.index + row[0].length;
+  const line = text.slice(rowStart, lineEnd(text, rowStart));
+  const values = [...line.matchAll(/-?[\d,]+\.\d{2}/g)];
+  if (values.length !== order.length) return null;
+
+  return Object.fromEntries(
+    order.map((column, index) => {
+      const match = values[index];
+      return [column, { value: parseAmount(match[0]), start: rowStart + match.index, end: rowStart + match.index + match[0].length }];
+    })
+  );
+}
+
+/**
+ * Field sources for values a template located itself
+ */
+export function locatedSources(text: string, fields: Record<string, Located<unknown> | null>): FieldSources {
+  const sources: FieldSources = {};
+  for (const [field, located] of Object.entries(fields)) {
+    if (!located) continue;
+    sources[field] = {
+      page: pageAt(text, located.start),
+      start: located.start,
+      end: located.end,
+      snippet: text.slice(located.start, located.end),
+    };
+  }
+  return sources;
+}
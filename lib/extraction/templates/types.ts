@@ -0,0 +1,91 @@
+/**
+ * Template Parser Types
+ */
+
+import type { Located } from './text';
+
+export interface ParsedPayStub {
+  kind: 'paystub';
+  employer: Located<string> | null;
+  /** Dates are YYYY-MM-DD */
+  payDate: Located<string>;
+  periodStart: Located<string> | null;
+  periodEnd: Located<string> | null;
+  grossPay: Located<number>;
+  netPay: Located<number> | null;
+  ytdGross: Located<number> | null;
+  ytdNet: Located<number> | null;
+  ytdFederalWithheld: Located<number> | null;
+}
+
+export interface ParsedBankStatement {
+  kind: 'bank_statement';
+  institution: string;
+  accountType: 'checking' | 'savings' | null;
+  accountLast4: Located<string> | null;
+  periodStart: Located<string> | null;
+  periodEnd: Located<string>;
+  beginningBalance: Located<number> | null;
+  endingBalance: Located<number>;
+}
+
+export type FilingStatus =
+  | 'single'
+  | 'married_joint'
+  | 'married_separate'
+  | 'head_of_household'
+  | 'qualifying_surviving_spouse';
+
+/** Form 1040 with the Schedule 1, C and E totals when they are attached */
+export interface ParsedTaxReturn {
+  kind: 'tax_return';
+  taxYear: Located<number>;
+  filingStatus: Located<FilingStatus> | null;
+  wages: Located<number> | null;
+  totalIncome: Located<number> | null;
+  adjustedGrossIncome: Located<number>;
+  /** Schedule C net profit; negative for a loss */
+  businessIncome: Located<number> | null;
+  /** Schedule C line 1 gross receipts, when Schedule C is attached */
+  businessReceipts: Located<number> | null;
+  /** Schedule C line 28 total expenses */
+  businessExpenses: Located<number> | null;
+  /** Schedule E rental and royalty income; negative for a loss */
+  rentalIncome: Located<number> | null;
+  refund: Located<number> | null;
+  amountOwed: Located<number> | null;
+}
+
+export type Form1099Type = '1099-NEC' | '1099-MISC' | '1099-INT' | '1099-DIV' | '1099-R' | 'SSA-1099';
+
+export interface Parsed1099 {
+  kind: '1099';
+  formType: Form1099Type;
+  taxYear: Located<number>;
+  payer: Located<string> | null;
+  /** The box that carries the income, e.g. box 1 nonemployee compensation */
+  amount: Located<number>;
+  box: string;
+  federalWithheld: Located<number> | null;
+}
+
+export type TemplateResult = ParsedPayStub | ParsedBankStatement | ParsedTaxReturn | Parsed1099;
+
+/**
+ * Deterministic parser for one vendor's document layout. `matches` should
+ * be cheap and specific; `parse` returns null when a required field is
+ * missing so extraction can fall back to the LLM.
+ */
+export interface TemplateParser<T extends TemplateResult = TemplateResult> {
+  id: string;
+  name: string;
+  documentType: T['kind'];
+  matches(text: string): boolean;
+  parse(text: string): T | null;
+}
+
+export interface TemplateMatch {
+  parserId: string;
+  parserName: string;
+  result: TemplateResult;
+}
@@ -0,0 +1,46 @@
+/**
+ * Job Credentials
+ *
+ * Jobs call case.dev with the API key of the user who queued them. The key
+ * is stored encrypted on the job row so a separate worker process can use
+ * it. Without CASE_DEV_ENCRYPTION_KEY the key is only held in memory, and
+ * only the in-process worker can run the job.
+ */
+
+import { ApiKeyEncryption } from '../case-dev/encryption';
+
+const inMemoryKeys = new Map<string, string>();
+
+/**
+ * Encrypt an API key for the job row; null when encryption is not configured
+ */
+export function sealApiKey(apiKey: string): string | null {
+  try {
+    const { encrypted, iv, tag } = ApiKeyEncryption.encrypt(apiKey);
+    return ApiKeyEncryption.combine(encrypted, iv, tag);
+  } catch {
+    return null;
+  }
+}
+
+export function rememberApiKey(jobId: string, apiKey: string): void {
+  inMemoryKeys.set(jobId, apiKey);
+}
+
+export function forgetApiKey(jobId: string): void {
+  inMemoryKeys.delete(jobId);
+}
+
+export function resolveApiKey(jobId: string, sealed: string | null): string | null {
+  const remembered = inMemoryKeys.get(jobId);
+  if (remembered) return remembered;
+  if (!sealed) return null;
+
+  try {
+    const { encrypted, iv, tag } = ApiKeyEncryption.split(sealed);
+    return ApiKeyEncryption.decrypt(encrypted, iv, tag);
+  } catch (error) {
+    console.error(`Could not decrypt API key for job ${jobId}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Document Batch Job
+ *
+ * Turns a batch upload into case documents: split multi-page PDFs into
+ * pages, read each page, classify the pages, then create one case document
+ * per run of pages and queue it for processing. Pages keep their text,
+ * classification, and document assignment, so a retried step only redoes
+ * the pages that are missing them.
+ */
+
+import type postgres from 'postgres';
+import {
+  classifyPages,
+  segmentPages,
+  type PageClassification,
+} from '../extraction/document-classifier';
+import { PAGE_BREAK } from '../extraction/provenance';
+import { extractPdfPages, segmentFileName, splitPdfPages } from '../documents/files';
+import {
+  assignPagesToDocument,
+  completeDocumentBatch,
+  failDocumentBatch,
+  loadBatchPages,
+  loadBatchSources,
+  savePageClassification,
+  savePageText,
+  savePageUpload,
+  type DocumentClassification,
+} from '../documents/store';
+import { downloadCaseFile, parseVaultFileId, uploadCaseFile } from '../documents/vault';
+import { loadFieldCipher } from '../db/field-encryption';
+import { enqueueDocumentProcessing } from './document-processing';
+import { JobDeferredError } from './errors';
+import { enqueueJob } from './store';
+import type { Job, JobHandler, JobStepContext } from './types';
+
+export const DOCUMENT_BATCH_JOB = 'document_batch';
+
+const OCR_POLL_INTERVAL_MS = 5000;
+// Pages still unread after this long are classified without text
+const OCR_TIMEOUT_MS = 15 * 60 * 1000;
+
+const batchIdOf = (job: Job) => String(job.payload.batchId ?? job.subjectId);
+
+function isOcrPending(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  return message.includes('processing') || message.includes('not been processed');
+}
+
+async function runSplit({ sql, job, getClient, report }: JobStepContext) {
+  const batchId = batchIdOf(job);
+  const sources = await loadBatchSources(sql, batchId);
+  const pages = await loadBatchPages(sql, batchId);
+  let pageCount = 0;
+
+  for (const source of sources) {
+    pageCount += source.pageCount;
+    const uploaded = new Set(pages.filter(p => p.sourceId === source.id).map(p => p.pageNumber));
+    if (uploaded.size >= source.pageCount) continue;
+
+    await report(10, `Splitting ${source.fileName}...`);
+    const bytes = await downloadCaseFile(getClient(), source.vaultFileId);
+    const pageFiles = await splitPdfPages(bytes);
+
+    for (const [index, pageBytes] of pageFiles.entries()) {
+      const pageNumber = index + 1;
+      if (uploaded.has(pageNumber)) continue;
+
+      const vaultFileId = await uploadCaseFile(
+        getClient(),
+        job.caseId,
+        { name: segmentFileName(source.fileName, pageNumber, pageNumber), contentType: 'application/pdf', bytes: pageBytes },
+        { enableOCR: true, metadata: { batchId, batchPage: true } }
+      );
+      await savePageUpload(sql, { batchId, sourceId: source.id, pageNumber, vaultFileId });
+    }
+  }
+
+  return { sourceCount: sources.length, pageCount };
+}
+
+async function runOcr({ sql, job, getClient }: JobStepContext) {
+  const pages = await loadBatchPages(sql, batchIdOf(job));
+  const timedOut = Date.now() - new Date(job.createdAt).getTime() > OCR_TIMEOUT_MS;
+  let pending = 0;
+
+  for (const page of pages) {
+    if (page.ocrText !== null) continue;
+
+    const location = parseVaultFileId(page.vaultFileId);
+    if (!location) {
+      await savePageText(sql, page.id, '');
+      continue;
+    }
+
+    try {
+      const result = await getClient().getVaultObjectText(location);
+      await savePageText(sql, page.id, result.text || '');
+    } catch (error) {
+      if (!isOcrPending(error)) throw error;
+      if (timedOut) {
+        await savePageText(sql, page.id, '');
+      } else {
+        pending++;
+      }
+    }
+  }
+
+  if (pending > 0) {
+    throw new JobDeferredError(`Waiting for OCR on ${pending} of ${pages.length} pages...`, OCR_POLL_INTERVAL_MS);
+  }
+
+  return { pagesRead: pages.length };
+}
+
+async function runClassify({ sql, job, getClient }: JobStepContext) {
+  const batchId = batchIdOf(job);
+  const sources = await loadBatchSources(sql, batchId);
+  const pages = await loadBatchPages(sql, batchId);
+  const client = getClient();
+  let segmentCount = 0;
+
+  // Documents never span two uploaded files
+  for (const source of sources) {
+    const sourcePages = pages.filter(p => p.sourceId === source.id);
+    const classifications = await classifyPages(client, sourcePages.map(p => p.ocrText ?? ''));
+
+    for (const [index, page] of sourcePages.entries()) {
+      await savePageClassification(sql, page.id, classifications[index]);
+    }
+    segmentCount += segmentPages(classifications).length;
+  }
+
+  return { segmentCount };
+}
+
+async function createSegmentDocuments({ sql, job, getClient, getApiKey }: JobStepContext) {
+  const batchId = batchIdOf(job);
+  const sources = await loadBatchSources(sql, batchId);
+  const pages = await loadBatchPages(sql, batchId);
+  const cipher = await loadFieldCipher(sql);
+  const documentIds: string[] = [];
+
+  for (const source of sources) {
+    const sourcePages = pages.filter(p => p.sourceId === source.id);
+    const segments = segmentPages(sourcePages.map(p => p.classification as PageClassification));
+    let sourceBytes: Uint8Array | null = null;
+
+    for (const segment of segments) {
+      const segmentPagesList = sourcePages.slice(segment.startPage - 1, segment.endPage);
+      const existing = segmentPagesList.find(p => p.documentId)?.documentId;
+      if (existing) {
+        documentIds.push(existing);
+        continue;
+      }
+
+      // The id is derived from the segment so a retry cannot create it twice
+      const documentId = `${source.id}_${segment.startPage}`;
+      // Multi-page sources were stored without OCR, so every segment of one gets its own copy
+      const wholeFile = source.pageCount === 1;
+      let fileName = source.fileName;
+      let vaultFileId = source.vaultFileId;
+      let fileSize: number | null = null;
+
+      if (!wholeFile) {
+        sourceBytes ??= await downloadCaseFile(getClient(), source.vaultFileId);
+        const bytes = await extractPdfPages(sourceBytes, segment.startPage, segment.endPage);
+        fileName = segmentFileName(source.fileName, segment.startPage, segment.endPage);
+        fileSize = bytes.length;
+        vaultFileId = await uploadCaseFile(
+          getClient(),
+          job.caseId,
+          { name: fileName, contentType: 'application/pdf', bytes },
+          { enableOCR: true, metadata: { batchId, documentType: segment.documentType } }
+        );
+      }
+
+      const classification: DocumentClassification = {
+        predictedType: segment.documentType,
+        confidence: segment.confidence,
+        method: segment.method,
+        batchId,
+        sourceFileName: source.fileName,
+        ...(wholeFile ? {} : { startPage: segment.startPage, endPage: segment.endPage }),
+      };
+      const ocrText = segmentPagesList.map(p => p.ocrText ?? '').join(PAGE_BREAK).substring(0, 50000);
+
+      await sql`
+        INSERT INTO case_documents (
+          id, case_id, file_name, file_type, file_size, document_type,
+          validation_status, vault_file_id, ocr_text, ocr_completed, classification
+        ) VALUES (
+          ${documentId},
+          ${job.caseId},
+          ${fileName},
+          ${wholeFile ? source.contentType : 'application/pdf'},
+          ${fileSize},
+          ${segment.documentType},
+          'pending',
+          ${vaultFileId},
+          ${cipher.encrypt(ocrText)},
+          true,
+          ${sql.json(JSON.parse(JSON.stringify(classification)))}
+        )
+        ON CONFLICT (id) DO NOTHING
+      `;
+      await assignPagesToDocument(sql, source.id, segment.startPage, segment.endPage, documentId);
+      documentIds.push(documentId);
+    }
+  }
+
+  // Validation and extraction run per document on the processing queue
+  for (const documentId of documentIds) {
+    await enqueueDocumentProcessing(sql, { documentId, caseId: job.caseId, apiKey: getApiKey() });
+  }
+  await completeDocumentBatch(sql, batchId);
+
+  return { documentCount: documentIds.length, documentIds };
+}
+
+export const documentBatchHandler: JobHandler = {
+  jobType: DOCUMENT_BATCH_JOB,
+  completedMessage: 'Batch upload complete',
+  steps: [
+    { name: 'split', progress: 10, message: 'Splitting files into pages...', run: runSplit },
+    { name: 'ocr', progress: 30, message: 'Reading pages...', run: runOcr },
+    { name: 'classify', progress: 60, message: 'Detecting document types...', run: runClassify },
+    { name: 'create', progress: 85, message: 'Creating documents...', run: createSegmentDocuments },
+  ],
+  onFailed: (sql, job) => failDocumentBatch(sql, batchIdOf(job)),
+};
+
+export function enqueueDocumentBatch(
+  sql: postgres.Sql,
+  input: { batchId: string; caseId: string; apiKey: string }
+): Promise<Job> {
+  return enqueueJob(sql, {
+    jobType: DOCUMENT_BATCH_JOB,
+    caseId: input.caseId,
+    subjectId: input.batchId,
+    payload: { batchId: input.batchId },
+    apiKey: input.apiKey,
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * Document Processing Job
+ *
+ * OCR → validate → extract → reconcile for one uploaded document. Each step
+ * saves its result on the job, and the steps that write to the case tables
+ * de-duplicate or replace, so a retried job can safely run them again.
+ */
+
+import type postgres from 'postgres';
+import { getValidationPrompt, parseValidationResponse } from '../extraction/document-validator';
+import { extractDocumentFinancials } from '../extraction/persist-extraction';
+import { loadFieldCipher } from '../db/field-encryption';
+import { redactSensitive } from '../utils/redact';
+import {
+  INCOME_DOCUMENT_TYPES as RECONCILED_DOCUMENT_TYPES,
+  reconcileCaseIncome,
+} from '../bankruptcy/income/case-reconciliation';
+import { JobDeferredError, JobFailedError } from './errors';
+import { enqueueJob } from './store';
+import type { Job, JobHandler, JobStepContext } from './types';
+
+export const DOCUMENT_PROCESSING_JOB = 'document_processing';
+
+// How often to check on OCR, and how long to wait before treating it as failed
+const OCR_POLL_INTERVAL_MS = 5000;
+const OCR_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Text shorter than this is treated as a failed OCR
+const MIN_TEXT_LENGTH = 50;
+
+interface DocumentRow {
+  id: string;
+  caseId: string;
+  documentType: string;
+  vaultFileId: string | null;
+  validationStatus: string | null;
+  ocrText: string | null;
+}
+
+async function loadDocument(sql: postgres.Sql, documentId: string): Promise<DocumentRow> {
+  const docs = await sql`
+    SELECT
+      id,
+      case_id as "caseId",
+      document_type as "documentType",
+      vault_file_id as "vaultFileId",
+      validation_status as "validationStatus",
+      ocr_text as "ocrText"
+    FROM case_documents
+    WHERE id = ${documentId}
+  `;
+  if (docs.length === 0) {
+    throw new JobFailedError('Document not found');
+  }
+  const cipher = await loadFieldCipher(sql);
+  const doc = docs[0] as DocumentRow;
+  return { ...doc, ocrText: cipher.decrypt(doc.ocrText) };
+}
+
+const documentIdOf = (job: Job) => String(job.payload.documentId ?? job.subjectId);
+
+const hasText = (text: string | null | undefined): text is string =>
+  !!text && text.length > MIN_TEXT_LENGTH;
+
+function isOcrPending(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  return message.includes('processing') || message.includes('not been processed');
+}
+
+async function runOcr({ sql, job, getClient }: JobStepContext) {
+  const doc = await loadDocument(sql, documentIdOf(job));
+
+  // Reuse text from an earlier run, or read page by page in a batch upload
+  if (hasText(doc.ocrText)) {
+    return { ocrTextLength: doc.ocrText.length, reused: true };
+  }
+
+  const [vaultId, objectId] = (doc.vaultFileId ?? '').split(':');
+  if (!vaultId || !objectId) {
+    // Nothing to OCR; the document is kept as uploaded
+    return { ocrTextLength: 0, skipped: true };
+  }
+
+  let ocrText: string;
+  try {
+    const ocrResult = await getClient().getVaultObjectText({ vaultId, objectId });
+    ocrText = ocrResult.text || '';
+  } catch (error) {
+    if (!isOcrPending(error)) throw error;
+    if (Date.now() - new Date(job.createdAt).getTime() > OCR_TIMEOUT_MS) {
+      throw new Error('OCR did not finish in time');
+    }
+    throw new JobDeferredError('Waiting for OCR to finish...', OCR_POLL_INTERVAL_MS);
+  }
+
+  const cipher = await loadFieldCipher(sql);
+  await sql`
+    UPDATE case_documents
+    SET ocr_text = ${cipher.encrypt(ocrText.substring(0, 50000))},
+        ocr_completed = true
+    WHERE id = ${doc.id}
+  `;
+
+  return { ocrTextLength: ocrText.length };
+}
+
+async function runValidation({ sql, job, results, getClient }: JobStepContext) {
+  if (results.ocr?.skipped) return { skipped: true };
+
+  const doc = await loadDocument(sql, documentIdOf(job));
+
+  // Reprocessing keeps the reviewed validation status
+  if (job.payload.reprocess && doc.validationStatus && doc.validationStatus !== 'pending') {
+    return { validationStatus: doc.validationStatus, validationNotes: '', reused: true };
+  }
+
+  let validationStatus = 'valid';
+  let validationNotes = '';
+
+  if (hasText(doc.ocrText)) {
+    try {
+      const validation = await getClient().llmComplete({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: getValidationPrompt(doc.documentType),
+          },
+          {
+            role: 'user',
+            content: `Validate this ${doc.documentType} document:\n\n${redactSensitive(doc.ocrText.substring(0, 3000))}`,
+          },
+        ],
+        temperature: 0.1,
+      });
+
+      const validationResult = parseValidationResponse(validation?.choices?.[0]?.message?.content);
+      validationStatus = validationResult.valid ? 'valid' : 'needs_review';
+      validationNotes = validationResult.issues?.join('; ') || '';
+
+      console.log(`Document ${doc.id} validation: ${validationStatus} (confidence: ${validationResult.confidence})`);
+    } catch (llmError) {
+      if (llmError instanceof JobFailedError) throw llmError;
+      console.error('LLM validation error:', llmError);
+      validationStatus = 'valid'; // Default to valid if LLM fails
+    }
+  }
+
+  return { validationStatus, validationNotes };
+}
+
+async function runExtraction({ sql, job, results, getClient, report }: JobStepContext) {
+  if (results.ocr?.skipped) return { skipped: true };
+
+  const doc = await loadDocument(sql, documentIdOf(job));
+  const validationStatus = String(results.validate?.validationStatus ?? 'valid');
+  const validationNotes = String(results.validate?.validationNotes ?? '');
+
+  const counts = await extractDocumentFinancials(
+    sql,
+    getClient(),
+    {
+      id: doc.id,
+      caseId: doc.caseId,
+      documentType: doc.documentType,
+      ocrText: doc.ocrText ?? '',
+    },
+    report
+  );
+
+  await sql`
+    UPDATE case_documents
+    SET validation_status = ${validationStatus},
+        extracted_data = ${JSON.stringify({
+          validationNotes,
+          ...counts,
+          ...(job.payload.reprocess ? { reprocessedAt: new Date().toISOString() } : {}),
+        })}
+    WHERE id = ${doc.id}
+  `;
+
+  return { ...counts };
+}
+
+async function runReconciliation({ sql, job, results, getClient }: JobStepContext) {
+  if (results.ocr?.skipped) return { skipped: true };
+
+  const doc = await loadDocument(sql, documentIdOf(job));
+  if (!RECONCILED_DOCUMENT_TYPES.includes(doc.documentType)) {
+    return { skipped: true };
+  }
+
+  const result = await reconcileCaseIncome(sql, doc.caseId, getClient(), 'document_processing');
+  return {
+    reconciledSourcesCreated: result.reconciledSourcesCreated,
+    currentMonthlyIncome: result.summary.currentMonthlyIncome,
+  };
+}
+
+export const documentProcessingHandler: JobHandler = {
+  jobType: DOCUMENT_PROCESSING_JOB,
+  completedMessage: 'Document processing complete',
+  steps: [
+    { name: 'ocr', progress: 30, message: 'Reading document text...', run: runOcr },
+    { name: 'validate', progress: 60, message: 'Validating document...', run: runValidation },
+    { name: 'extract', progress: 70, message: 'AI extraction in progress...', run: runExtraction },
+    { name: 'reconcile', progress: 95, message: 'Reconciling income...', run: runReconciliation },
+  ],
+};
+
+/**
+ * Queue processing for a document. Returns the job already in progress if
+ * there is one.
+ */
+export function enqueueDocumentProcessing(
+  sql: postgres.Sql,
+  input: { documentId: string; caseId: string; reprocess?: boolean; apiKey?: string | null }
+): Promise<Job> {
+  return enqueueJob(sql, {
+    jobType: DOCUMENT_PROCESSING_JOB,
+    caseId: input.caseId,
+    subjectId: input.documentId,
+    payload: { documentId: input.documentId, reprocess: !!input.reprocess },
+    apiKey: input.apiKey,
+  });
+}
+
+/**
+ * Status string the documents page expects for a job's current step
+ */
+export function getDocumentJobPhase(job: Job): string {
+  if (job.status === 'completed') return 'completed';
+  if (job.status === 'failed') return 'error';
+  switch (job.currentStep) {
+    case 'ocr':
+      return 'processing';
+    case 'validate':
+      return 'validating';
+    default:
+      return 'extracting';
+  }
+}
+
+/**
+ * Fields sent with the completion event, in the shape the SSE stream used
+ * before processing moved to the job queue
+ */
+export function summarizeDocumentJob(job: Job): Record<string, unknown> {
+  const { ocr = {}, validate = {}, extract = {}, reconcile = {} } = job.stepResults;
+
+  if (ocr.skipped) {
+    return { note: 'No stored file to process' };
+  }
+
+  return {
+    validationStatus: validate.validationStatus,
+    validationNotes: validate.validationNotes,
+    ocrTextLength: ocr.ocrTextLength,
+    extractedIncomeCount: extract.extractedIncomeCount ?? 0,
+    extractedDebtCount: extract.extractedDebtCount ?? 0,
+    extractedAssetCount: extract.extractedAssetCount ?? 0,
+    extractedExpenseCount: extract.extractedExpenseCount ?? 0,
+    extractedTransactionCount: extract.extractedTransactionCount ?? 0,
+    extractionWarnings: extract.extractionWarnings ?? [],
+    reconciledSourcesCreated: reconcile.reconciledSourcesCreated,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Job Step Errors
+ *
+ * Steps throw these to control how the worker reschedules a job. Any other
+ * error is retried with backoff until the job runs out of attempts.
+ */
+
+/**
+ * The step is waiting on something outside the app (e.g. OCR still running).
+ * The job is rescheduled without using up an attempt.
+ */
+export class JobDeferredError extends Error {
+  constructor(message: string, public readonly delayMs: number) {
+    super(message);
+    this.name = 'JobDeferredError';
+  }
+}
+
+/**
+ * Retrying cannot help (e.g. the document was deleted); the job fails now
+ */
+export class JobFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobFailedError';
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Registered job handlers, keyed by job type
+ */
+
+import { documentBatchHandler } from './document-batch';
+import { documentProcessingHandler } from './document-processing';
+import type { JobHandler } from './types';
+
+export const JOB_HANDLERS: JobHandler[] = [documentProcessingHandler, documentBatchHandler];
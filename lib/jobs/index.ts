@@ -0,0 +1,49 @@
+/**
+ * Background Jobs
+ *
+ * Durable job queue stored in the case database.
+ */
+
+// Types
+export * from './types';
+
+// Errors
+export { JobDeferredError, JobFailedError } from './errors';
+
+// Persistence
+export {
+  enqueueJob,
+  getJob,
+  getLatestJob,
+  listCaseJobs,
+  JOB_LOCK_TIMEOUT_SECONDS,
+} from './store';
+
+// Worker
+export {
+  getRetryDelay,
+  getFailureOutcome,
+  runJobSteps,
+  processNextJob,
+  runWorker,
+  kickInProcessWorker,
+  createWorkerId,
+  type JobOutcome,
+  type JobRecorder,
+} from './worker';
+
+// Document processing
+export {
+  DOCUMENT_PROCESSING_JOB,
+  documentProcessingHandler,
+  enqueueDocumentProcessing,
+  getDocumentJobPhase,
+  summarizeDocumentJob,
+} from './document-processing';
+
+// Batch uploads
+export {
+  DOCUMENT_BATCH_JOB,
+  documentBatchHandler,
+  enqueueDocumentBatch,
+} from './document-batch';
@@ -0,0 +1,279 @@
+/**
+ * Job Persistence
+ *
+ * Jobs live in the case database so they survive restarts and can be picked
+ * up by any worker connected to it. Claiming uses FOR UPDATE SKIP LOCKED, so
+ * several workers can share a queue.
+ */
+
+import type postgres from 'postgres';
+import { sealApiKey, rememberApiKey } from './credentials';
+import type { EnqueueJobInput, Job, JobStatus, JobStepResults } from './types';
+
+// A running job whose worker has not reported for this long is reclaimed
+export const JOB_LOCK_TIMEOUT_SECONDS = 300;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export interface ClaimedJob extends Job {
+  sealedApiKey: string | null;
+}
+
+function toIso(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+export function rowToJob(row: Record<string, unknown>): Job {
+  return {
+    id: String(row.id),
+    jobType: String(row.job_type),
+    caseId: String(row.case_id),
+    subjectId: String(row.subject_id),
+    status: row.status as JobStatus,
+    payload: (row.payload ?? {}) as Record<string, unknown>,
+    currentStep: row.current_step ? String(row.current_step) : null,
+    stepResults: (row.step_results ?? {}) as JobStepResults,
+    progress: Number(row.progress) || 0,
+    message: row.message ? String(row.message) : null,
+    attempts: Number(row.attempts) || 0,
+    maxAttempts: Number(row.max_attempts) || DEFAULT_MAX_ATTEMPTS,
+    runAfter: toIso(row.run_after) ?? '',
+    lastError: row.last_error ? String(row.last_error) : null,
+    createdAt: toIso(row.created_at) ?? '',
+    updatedAt: toIso(row.updated_at) ?? '',
+    completedAt: toIso(row.completed_at),
+  };
+}
+
+/**
+ * Queue a job, or return the unfinished job already queued for the subject
+ */
+export async function enqueueJob(sql: postgres.Sql, input: EnqueueJobInput): Promise<Job> {
+  const jobId = `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const sealedApiKey = input.apiKey ? sealApiKey(input.apiKey) : null;
+
+  const inserted = await sql`
+    INSERT INTO background_jobs (
+      id, job_type, case_id, subject_id, payload, max_attempts, message, api_key_encrypted
+    ) VALUES (
+      ${jobId},
+      ${input.jobType},
+      ${input.caseId},
+      ${input.subjectId},
+      ${sql.json(JSON.parse(JSON.stringify(input.payload ?? {})))},
+      ${input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS},
+      'Queued',
+      ${sealedApiKey}
+    )
+    ON CONFLICT (job_type, subject_id) WHERE status IN ('queued', 'running') DO NOTHING
+    RETURNING *
+  `;
+
+  const row = inserted[0] ?? (await sql`
+    SELECT * FROM background_jobs
+    WHERE job_type = ${input.jobType}
+      AND subject_id = ${input.subjectId}
+      AND status IN ('queued', 'running')
+  `)[0];
+
+  const job = rowToJob(row);
+  if (input.apiKey) {
+    rememberApiKey(job.id, input.apiKey);
+    // An existing job queued without a usable key picks this one up
+    if (!inserted[0] && sealedApiKey) {
+      await sql`
+        UPDATE background_jobs SET api_key_encrypted = ${sealedApiKey}
+        WHERE id = ${job.id} AND api_key_encrypted IS NULL
+      `;
+    }
+  }
+  return job;
+}
+
+export async function getJob(sql: postgres.Sql, jobId: string): Promise<Job | null> {
+  const rows = await sql`SELECT * FROM background_jobs WHERE id = ${jobId}`;
+  return rows.length > 0 ? rowToJob(rows[0]) : null;
+}
+
+/**
+ * Most recent job of a type for a subject (e.g. the latest processing run
+ * of a document)
+ */
+export async function getLatestJob(
+  sql: postgres.Sql,
+  jobType: string,
+  subjectId: string
+): Promise<Job | null> {
+  const rows = await sql`
+    SELECT * FROM background_jobs
+    WHERE job_type = ${jobType} AND subject_id = ${subjectId}
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  return rows.length > 0 ? rowToJob(rows[0]) : null;
+}
+
+export async function listCaseJobs(
+  sql: postgres.Sql,
+  caseId: string,
+  options: { activeOnly?: boolean; limit?: number } = {}
+): Promise<Job[]> {
+  const rows = await sql`
+    SELECT * FROM background_jobs
+    WHERE case_id = ${caseId}
+      ${options.activeOnly ? sql`AND status IN ('queued', 'running')` : sql``}
+    ORDER BY created_at DESC
+    LIMIT ${options.limit ?? 100}
+  `;
+  return rows.map(rowToJob);
+}
+
+/**
+ * Lock the next ready job for a worker. Running jobs whose lock has gone
+ * stale (the worker died) are reclaimed.
+ */
+export async function claimNextJob(
+  sql: postgres.Sql,
+  workerId: string,
+  jobTypes: string[]
+): Promise<ClaimedJob | null> {
+  const rows = await sql`
+    UPDATE background_jobs
+    SET status = 'running',
+        locked_by = ${workerId},
+        locked_at = NOW(),
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id = (
+      SELECT id FROM background_jobs
+      WHERE job_type = ANY(${jobTypes})
+        AND (
+          (status = 'queued' AND run_after <= NOW())
+          OR (status = 'running' AND locked_at < NOW() - ${JOB_LOCK_TIMEOUT_SECONDS} * INTERVAL '1 second')
+        )
+      ORDER BY run_after
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  if (rows.length === 0) return null;
+  return { ...rowToJob(rows[0]), sealedApiKey: rows[0].api_key_encrypted ?? null };
+}
+
+/**
+ * Seconds until the next queued job becomes ready, or null when none are queued
+ */
+export async function secondsUntilNextJob(sql: postgres.Sql, jobTypes: string[]): Promise<number | null> {
+  const rows = await sql`
+    SELECT EXTRACT(EPOCH FROM MIN(run_after) - NOW()) AS wait
+    FROM background_jobs
+    WHERE job_type = ANY(${jobTypes}) AND status = 'queued'
+  `;
+  const wait = rows[0]?.wait;
+  return wait === null || wait === undefined ? null : Math.max(Number(wait), 0);
+}
+
+export async function reportJobProgress(
+  sql: postgres.Sql,
+  jobId: string,
+  workerId: string,
+  update: { currentStep?: string; progress: number; message: string }
+): Promise<void> {
+  await sql`
+    UPDATE background_jobs
+    SET current_step = COALESCE(${update.currentStep ?? null}, current_step),
+        progress = ${update.progress},
+        message = ${update.message},
+        locked_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+  `;
+}
+
+export async function saveStepResult(
+  sql: postgres.Sql,
+  jobId: string,
+  workerId: string,
+  step: string,
+  result: Record<string, unknown>
+): Promise<void> {
+  await sql`
+    UPDATE background_jobs
+    SET step_results = step_results || ${sql.json({ [step]: JSON.parse(JSON.stringify(result)) })},
+        locked_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+  `;
+}
+
+export async function completeJob(
+  sql: postgres.Sql,
+  jobId: string,
+  workerId: string,
+  message: string
+): Promise<void> {
+  await sql`
+    UPDATE background_jobs
+    SET status = 'completed',
+        progress = 100,
+        message = ${message},
+        current_step = NULL,
+        locked_by = NULL,
+        locked_at = NULL,
+        last_error = NULL,
+        api_key_encrypted = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+  `;
+}
+
+/**
+ * Put a job back in the queue to run after a delay
+ *
+ * @param countAttempt - false for deferrals, which should not use up an attempt
+ */
+export async function rescheduleJob(
+  sql: postgres.Sql,
+  jobId: string,
+  workerId: string,
+  delayMs: number,
+  message: string,
+  options: { error?: string; countAttempt?: boolean } = {}
+): Promise<void> {
+  await sql`
+    UPDATE background_jobs
+    SET status = 'queued',
+        run_after = NOW() + ${Math.max(delayMs, 0) / 1000} * INTERVAL '1 second',
+        attempts = attempts - ${options.countAttempt === false ? 1 : 0},
+        message = ${message},
+        last_error = COALESCE(${options.error ?? null}, last_error),
+        locked_by = NULL,
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+  `;
+}
+
+export async function failJob(
+  sql: postgres.Sql,
+  jobId: string,
+  workerId: string,
+  error: string
+): Promise<void> {
+  await sql`
+    UPDATE background_jobs
+    SET status = 'failed',
+        message = ${error},
+        last_error = ${error},
+        locked_by = NULL,
+        locked_at = NULL,
+        api_key_encrypted = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${jobId} AND locked_by = ${workerId}
+  `;
+}
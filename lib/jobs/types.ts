@@ -0,0 +1,74 @@
+/**
+ * Background Job Types
+ *
+ * A job is a named list of steps run in order by a worker. Each step's
+ * result is saved as it completes, so a retried job resumes at the step
+ * that failed instead of starting over.
+ */
+
+import type postgres from 'postgres';
+import type { CaseDevClient } from '../case-dev/client';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type JobStepResults = Record<string, Record<string, unknown>>;
+
+export interface Job {
+  id: string;
+  jobType: string;
+  caseId: string;
+  // Record the job works on, e.g. a document id
+  subjectId: string;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  currentStep: string | null;
+  stepResults: JobStepResults;
+  progress: number;
+  message: string | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface JobStepContext {
+  sql: postgres.Sql;
+  job: Job;
+  // Results of the steps already completed, keyed by step name
+  results: JobStepResults;
+  // Both throw when no case.dev API key is available to the worker
+  getClient: () => CaseDevClient;
+  getApiKey: () => string;
+  report: (progress: number, message: string) => Promise<void>;
+}
+
+export interface JobStep {
+  name: string;
+  // Progress reported when the step starts
+  progress: number;
+  message: string;
+  // Must be safe to run again if the worker dies partway through
+  run: (ctx: JobStepContext) => Promise<Record<string, unknown>>;
+}
+
+export interface JobHandler {
+  jobType: string;
+  steps: JobStep[];
+  // Job message once every step has run
+  completedMessage: string;
+  // Called once the job has failed for good
+  onFailed?: (sql: postgres.Sql, job: Job, error: string) => Promise<void>;
+}
+
+export interface EnqueueJobInput {
+  jobType: string;
+  caseId: string;
+  subjectId: string;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+  // case.dev API key the worker should use for this job
+  apiKey?: string | null;
+}
@@ -0,0 +1,227 @@
+/**
+ * Job Worker
+ *
+ * Claims queued jobs and runs their steps. The same loop runs in the Next.js
+ * server (drained after each enqueue) or as a long-lived process started
+ * with `npm run worker`.
+ */
+
+import os from 'os';
+import postgres from 'postgres';
+import { CaseDevClient } from '../case-dev/client';
+import { forgetApiKey, resolveApiKey } from './credentials';
+import { JobDeferredError, JobFailedError } from './errors';
+import { JOB_HANDLERS } from './handlers';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  reportJobProgress,
+  rescheduleJob,
+  saveStepResult,
+  secondsUntilNextJob,
+} from './store';
+import type { Job, JobHandler, JobStepResults } from './types';
+
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type JobOutcome =
+  | { status: 'completed'; results: JobStepResults }
+  | { status: 'deferred'; delayMs: number; message: string }
+  | { status: 'retry'; delayMs: number; error: string }
+  | { status: 'failed'; error: string };
+
+export interface JobRecorder {
+  report: (update: { currentStep?: string; progress: number; message: string }) => Promise<void>;
+  saveStepResult: (step: string, result: Record<string, unknown>) => Promise<void>;
+}
+
+/**
+ * Exponential backoff after a failed attempt (5s, 10s, 20s, ... up to 5 minutes)
+ */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Decide what happens to a job after a step throws
+ */
+export function getFailureOutcome(job: Pick<Job, 'attempts' | 'maxAttempts'>, error: unknown): JobOutcome {
+  const message = error instanceof Error ? error.message : 'Job step failed';
+
+  if (error instanceof JobDeferredError) {
+    return { status: 'deferred', delayMs: error.delayMs, message };
+  }
+  if (error instanceof JobFailedError || job.attempts >= job.maxAttempts) {
+    return { status: 'failed', error: message };
+  }
+  return { status: 'retry', delayMs: getRetryDelay(job.attempts), error: message };
+}
+
+/**
+ * Run a job's remaining steps. Steps that already have a saved result are
+ * skipped, so a retry resumes where the last attempt stopped.
+ */
+export async function runJobSteps(
+  job: Job,
+  handler: JobHandler,
+  options: {
+    sql: postgres.Sql;
+    getClient: () => CaseDevClient;
+    getApiKey: () => string;
+    recorder: JobRecorder;
+  }
+): Promise<JobOutcome> {
+  const results: JobStepResults = { ...job.stepResults };
+
+  try {
+    for (const step of handler.steps) {
+      if (results[step.name]) continue;
+
+      await options.recorder.report({ currentStep: step.name, progress: step.progress, message: step.message });
+      const result = await step.run({
+        sql: options.sql,
+        job,
+        results,
+        getClient: options.getClient,
+        getApiKey: options.getApiKey,
+        report: (progress, message) => options.recorder.report({ progress, message }),
+      });
+
+      results[step.name] = result;
+      await options.recorder.saveStepResult(step.name, result);
+    }
+    return { status: 'completed', results };
+  } catch (error) {
+    return getFailureOutcome(job, error);
+  }
+}
+
+export function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${Math.random().toString(36).substring(2, 7)}`;
+}
+
+/**
+ * Claim and run one job. Returns the job, or null when none were ready.
+ */
+export async function processNextJob(
+  sql: postgres.Sql,
+  workerId: string,
+  handlers: JobHandler[] = JOB_HANDLERS
+): Promise<Job | null> {
+  const job = await claimNextJob(sql, workerId, handlers.map(h => h.jobType));
+  if (!job) return null;
+
+  const handler = handlers.find(h => h.jobType === job.jobType)!;
+  const getApiKey = () => {
+    const apiKey = resolveApiKey(job.id, job.sealedApiKey);
+    if (!apiKey) {
+      throw new JobFailedError('No case.dev API key is available to the worker. Reprocess the document to retry.');
+    }
+    return apiKey;
+  };
+
+  const outcome = await runJobSteps(job, handler, {
+    sql,
+    getClient: () => new CaseDevClient(getApiKey()),
+    getApiKey,
+    recorder: {
+      report: update => reportJobProgress(sql, job.id, workerId, update),
+      saveStepResult: (step, result) => saveStepResult(sql, job.id, workerId, step, result),
+    },
+  });
+
+  switch (outcome.status) {
+    case 'completed':
+      await completeJob(sql, job.id, workerId, handler.completedMessage);
+      forgetApiKey(job.id);
+      break;
+    case 'deferred':
+      await rescheduleJob(sql, job.id, workerId, outcome.delayMs, outcome.message, { countAttempt: false });
+      break;
+    case 'retry':
+      console.error(`Job ${job.id} attempt ${job.attempts} failed:`, outcome.error);
+      await rescheduleJob(sql, job.id, workerId, outcome.delayMs, `Retrying after error: ${outcome.error}`, {
+        error: outcome.error,
+      });
+      break;
+    case 'failed':
+      console.error(`Job ${job.id} failed:`, outcome.error);
+      await failJob(sql, job.id, workerId, outcome.error);
+      forgetApiKey(job.id);
+      await handler.onFailed?.(sql, job, outcome.error);
+      break;
+  }
+
+  return job;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Process jobs until stopped
+ *
+ * @param exitWhenIdle - Return once no queued jobs remain instead of polling
+ */
+export async function runWorker(
+  sql: postgres.Sql,
+  options: {
+    workerId?: string;
+    pollIntervalMs?: number;
+    exitWhenIdle?: boolean;
+    signal?: AbortSignal;
+    handlers?: JobHandler[];
+  } = {}
+): Promise<void> {
+  const workerId = options.workerId ?? createWorkerId();
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  const handlers = options.handlers ?? JOB_HANDLERS;
+
+  while (!options.signal?.aborted) {
+    const job = await processNextJob(sql, workerId, handlers);
+    if (job) continue;
+
+    if (options.exitWhenIdle) {
+      const wait = await secondsUntilNextJob(sql, handlers.map(h => h.jobType));
+      if (wait === null) return;
+      await sleep(Math.min(wait * 1000, pollIntervalMs));
+    } else {
+      await sleep(pollIntervalMs);
+    }
+  }
+}
+
+const drains = new Map<string, Promise<void>>();
+const rekicked = new Set<string>();
+
+/**
+ * Drain the queue in this server process. Does nothing when JOB_WORKER is
+ * "external" (a separate worker process owns the queue).
+ */
+export function kickInProcessWorker(connectionString: string): void {
+  if (process.env.JOB_WORKER === 'external') return;
+
+  if (drains.has(connectionString)) {
+    // Jobs queued while a drain is finishing are picked up by another pass
+    rekicked.add(connectionString);
+    return;
+  }
+
+  const drain = (async () => {
+    const sql = postgres(connectionString);
+    try {
+      do {
+        rekicked.delete(connectionString);
+        await runWorker(sql, { exitWhenIdle: true });
+      } while (rekicked.has(connectionString));
+    } catch (error) {
+      console.error('In-process job worker stopped:', error);
+    } finally {
+      drains.delete(connectionString);
+      await sql.end();
+    }
+  })();
+
+  drains.set(connectionString, drain);
+}
@@ -0,0 +1,34 @@
+/**
+ * Review Queue
+ *
+ * Cross-case inbox of low-confidence extractions, reconciliation
+ * conflicts, and documents that need review.
+ */
+
+// Item kinds and decision parsing
+export {
+  DEFAULT_REVIEW_CONFIDENCE,
+  REVIEW_KINDS,
+  normalizeReviewChanges,
+  parseReviewDecisions,
+  parseReviewItemId,
+  reviewItemId,
+  sortReviewItems,
+  type ReviewField,
+  type ReviewFieldType,
+  type ReviewKindConfig,
+} from './kinds';
+
+// Persistence
+export { loadReviewQueue, applyReviewDecision } from './store';
+
+export type {
+  ReviewAction,
+  ReviewDecision,
+  ReviewItem,
+  ReviewItemKind,
+  ReviewOutcome,
+  ReviewReason,
+  ReviewStatus,
+  ReviewValue,
+} from './types';
@@ -0,0 +1,213 @@
+/**
+ * Review Item Kinds
+ *
+ * The records that can land in the review queue, where they are stored,
+ * and which of their fields a reviewer may correct. Also parses and
+ * validates review decisions before they touch the database.
+ */
+
+import type {
+  ReviewAction,
+  ReviewDecision,
+  ReviewItem,
+  ReviewItemKind,
+  ReviewValue,
+} from './types';
+
+// Matches the cut-off reconcileIncome uses for single-source figures
+export const DEFAULT_REVIEW_CONFIDENCE = 0.7;
+
+export type ReviewFieldType = 'text' | 'money' | 'month';
+
+export interface ReviewField {
+  /** camelCase key used by the API and UI */
+  name: string;
+  /** snake_case column in the record's table */
+  column: string;
+  label: string;
+  type: ReviewFieldType;
+  required?: boolean;
+  /** Key in the record's field_sources when the extractor named it differently */
+  sourceField?: string;
+}
+
+export interface ReviewKindConfig {
+  kind: ReviewItemKind;
+  table: string;
+  label: string;
+  fields: ReviewField[];
+}
+
+export const REVIEW_KINDS: Record<ReviewItemKind, ReviewKindConfig> = {
+  income_record: {
+    kind: 'income_record',
+    table: 'income_records',
+    label: 'Income',
+    fields: [
+      { name: 'employer', column: 'employer', label: 'Employer', type: 'text' },
+      { name: 'incomeMonth', column: 'income_month', label: 'Month', type: 'month', required: true },
+      { name: 'grossAmount', column: 'gross_amount', label: 'Gross amount', type: 'money', required: true },
+      { name: 'netAmount', column: 'net_amount', label: 'Net amount', type: 'money' },
+    ],
+  },
+  debt: {
+    kind: 'debt',
+    table: 'debts',
+    label: 'Debt',
+    fields: [
+      { name: 'creditorName', column: 'creditor_name', label: 'Creditor', type: 'text', required: true },
+      { name: 'balance', column: 'balance', label: 'Balance', type: 'money', required: true, sourceField: 'currentBalance' },
+      { name: 'monthlyPayment', column: 'monthly_payment', label: 'Monthly payment', type: 'money' },
+    ],
+  },
+  asset: {
+    kind: 'asset',
+    table: 'assets',
+    label: 'Asset',
+    fields: [
+      { name: 'description', column: 'description', label: 'Description', type: 'text', required: true },
+      { name: 'institution', column: 'institution', label: 'Institution', type: 'text', sourceField: 'institutionName' },
+      { name: 'currentValue', column: 'current_value', label: 'Value', type: 'money', required: true, sourceField: 'estimatedValue' },
+    ],
+  },
+  reconciled_income: {
+    kind: 'reconciled_income',
+    table: 'reconciled_income_sources',
+    label: 'Reconciled income',
+    fields: [
+      { name: 'employerName', column: 'employer_name', label: 'Employer', type: 'text', required: true },
+      { name: 'verifiedMonthlyGross', column: 'verified_monthly_gross', label: 'Monthly gross', type: 'money', required: true },
+      { name: 'verifiedMonthlyNet', column: 'verified_monthly_net', label: 'Monthly net', type: 'money' },
+    ],
+  },
+  document: {
+    kind: 'document',
+    table: 'case_documents',
+    label: 'Document',
+    // Document type corrections go through the documents page so extraction reruns
+    fields: [],
+  },
+};
+
+const REVIEW_ACTIONS: ReviewAction[] = ['accept', 'edit', 'reject'];
+
+export function reviewItemId(kind: ReviewItemKind, recordId: string): string {
+  return `${kind}:${recordId}`;
+}
+
+export function parseReviewItemId(itemId: string): { kind: ReviewItemKind; recordId: string } | null {
+  const separator = itemId.indexOf(':');
+  if (separator === -1) return null;
+
+  const kind = itemId.slice(0, separator);
+  const recordId = itemId.slice(separator + 1);
+  if (!(kind in REVIEW_KINDS) || !recordId) return null;
+
+  return { kind: kind as ReviewItemKind, recordId };
+}
+
+/**
+ * Convert edited field values into column values for the record's table
+ */
+export function normalizeReviewChanges(
+  kind: ReviewItemKind,
+  changes: Record<string, unknown>
+): { values: Record<string, ReviewValue>; errors: string[] } {
+  const values: Record<string, ReviewValue> = {};
+  const errors: string[] = [];
+
+  for (const field of REVIEW_KINDS[kind].fields) {
+    const raw = changes[field.name];
+    // Omitted fields keep their current value
+    if (raw === undefined) continue;
+
+    if (raw === null || raw === '') {
+      if (field.required) {
+        errors.push(`${field.label} is required`);
+      } else {
+        values[field.column] = null;
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'money': {
+        const amount = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(/[$,]/g, ''));
+        if (isNaN(amount) || amount < 0) {
+          errors.push(`${field.label} must be a positive number`);
+        } else {
+          values[field.column] = Math.round(amount * 100) / 100;
+        }
+        break;
+      }
+      case 'month':
+        if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(String(raw))) {
+          errors.push(`${field.label} must be a month (YYYY-MM)`);
+        } else {
+          values[field.column] = String(raw);
+        }
+        break;
+      default:
+        values[field.column] = String(raw).trim();
+    }
+  }
+
+  const unknown = Object.keys(changes).filter(name => !REVIEW_KINDS[kind].fields.some(f => f.name === name));
+  if (unknown.length > 0) {
+    errors.push(`${REVIEW_KINDS[kind].label} fields cannot be edited: ${unknown.join(', ')}`);
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Validate a batch of decisions from the API body
+ */
+export function parseReviewDecisions(body: unknown): { decisions: ReviewDecision[]; errors: string[] } {
+  const raw = (body as { decisions?: unknown })?.decisions;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { decisions: [], errors: ['decisions must be a non-empty array'] };
+  }
+
+  const decisions: ReviewDecision[] = [];
+  const errors: string[] = [];
+
+  raw.forEach((entry, index) => {
+    const { itemId, action, changes } = (entry ?? {}) as Record<string, unknown>;
+
+    if (typeof itemId !== 'string' || !parseReviewItemId(itemId)) {
+      errors.push(`decisions[${index}]: unknown item id`);
+      return;
+    }
+    if (!REVIEW_ACTIONS.includes(action as ReviewAction)) {
+      errors.push(`decisions[${index}]: action must be one of ${REVIEW_ACTIONS.join(', ')}`);
+      return;
+    }
+    if (action === 'edit' && (!changes || typeof changes !== 'object' || Array.isArray(changes))) {
+      errors.push(`decisions[${index}]: edit requires changes`);
+      return;
+    }
+
+    decisions.push({
+      itemId,
+      action: action as ReviewAction,
+      ...(action === 'edit' ? { changes: changes as Record<string, unknown> } : {}),
+    });
+  });
+
+  return { decisions, errors };
+}
+
+const REASON_ORDER = { conflict: 0, needs_review: 1, low_confidence: 2 };
+
+/**
+ * Conflicts first, then the least confident items, oldest first
+ */
+export function sortReviewItems(items: ReviewItem[]): ReviewItem[] {
+  return [...items].sort(
+    (a, b) =>
+      REASON_ORDER[a.reason] - REASON_ORDER[b.reason] ||
+      (a.confidence ?? 1) - (b.confidence ?? 1) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
@@ -0,0 +1,254 @@
+/**
+ * Review Queue Persistence
+ *
+ * Collects items that need a person to look at them from every case:
+ * extracted income, debts, and assets below the confidence threshold,
+ * reconciled income sources marked needs_review or conflict, and documents
+ * that failed validation. Decisions are written back to the record with
+ * the reviewer and time.
+ */
+
+import type postgres from 'postgres';
+import type { FieldSources } from '../extraction/provenance';
+import { REVIEW_KINDS, normalizeReviewChanges, parseReviewItemId, reviewItemId, sortReviewItems } from './kinds';
+import type {
+  ReviewDecision,
+  ReviewItem,
+  ReviewItemKind,
+  ReviewOutcome,
+  ReviewStatus,
+  ReviewValue,
+} from './types';
+
+const REVIEW_STATUS: Record<ReviewDecision['action'], ReviewStatus> = {
+  accept: 'accepted',
+  edit: 'edited',
+  reject: 'rejected',
+};
+
+const EXTRACTED_KINDS: ReviewItemKind[] = ['income_record', 'debt', 'asset'];
+
+async function existingTables(sql: postgres.Sql): Promise<Set<string>> {
+  const names = [...Object.values(REVIEW_KINDS).map(k => k.table), 'bankruptcy_cases'];
+  const rows = await sql`
+    SELECT name FROM unnest(${names}::text[]) AS name
+    WHERE to_regclass(name) IS NOT NULL
+  `;
+  return new Set(rows.map(row => String(row.name)));
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+const toText = (value: unknown) => (value === null || value === undefined ? null : String(value));
+const toTimestamp = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value ?? ''));
+
+function toReviewItem(
+  kind: ReviewItemKind,
+  row: postgres.Row,
+  item: Pick<ReviewItem, 'reason' | 'title' | 'amount' | 'detail' | 'documentId'>
+): ReviewItem {
+  const values: Record<string, ReviewValue> = {};
+  for (const field of REVIEW_KINDS[kind].fields) {
+    values[field.name] = field.type === 'money' ? toNumber(row[field.column]) : toText(row[field.column]);
+  }
+
+  return {
+    id: reviewItemId(kind, String(row.id)),
+    kind,
+    recordId: String(row.id),
+    caseId: String(row.case_id),
+    clientName: toText(row.client_name),
+    confidence: toNumber(row.confidence),
+    fieldSources: (row.field_sources as FieldSources | null) ?? null,
+    values,
+    createdAt: toTimestamp(row.created_at),
+    ...item,
+  };
+}
+
+/**
+ * Load every open review item across all cases
+ */
+export async function loadReviewQueue(
+  sql: postgres.Sql,
+  { confidenceThreshold }: { confidenceThreshold: number }
+): Promise<ReviewItem[]> {
+  const tables = await existingTables(sql);
+  const items: ReviewItem[] = [];
+
+  // Cases are joined for the client name; the queue still works without them
+  const clientName = tables.has('bankruptcy_cases')
+    ? (alias: string) => sql`(SELECT client_name FROM bankruptcy_cases c WHERE c.id = ${sql(alias)}.case_id)`
+    : () => sql`NULL`;
+
+  if (tables.has('income_records')) {
+    const rows = await sql`
+      SELECT r.*, ${clientName('r')} AS client_name
+      FROM income_records r
+      WHERE r.review_status IS NULL AND r.confidence < ${confidenceThreshold}
+    `;
+    for (const row of rows) {
+      items.push(toReviewItem('income_record', row, {
+        reason: 'low_confidence',
+        title: `${row.employer || 'Unknown employer'} · ${row.income_month}`,
+        amount: toNumber(row.gross_amount),
+        detail: toText(row.description),
+        documentId: toText(row.document_id),
+      }));
+    }
+  }
+
+  if (tables.has('debts')) {
+    const rows = await sql`
+      SELECT d.*, ${clientName('d')} AS client_name
+      FROM debts d
+      WHERE d.review_status IS NULL AND d.confidence < ${confidenceThreshold}
+    `;
+    for (const row of rows) {
+      items.push(toReviewItem('debt', row, {
+        reason: 'low_confidence',
+        title: row.account_last4 ? `${row.creditor_name} ****${row.account_last4}` : String(row.creditor_name),
+        amount: toNumber(row.balance),
+        detail: toText(row.debt_type),
+        documentId: toText(row.document_id),
+      }));
+    }
+  }
+
+  if (tables.has('assets')) {
+    const rows = await sql`
+      SELECT a.*, ${clientName('a')} AS client_name
+      FROM assets a
+      WHERE a.review_status IS NULL AND a.confidence < ${confidenceThreshold}
+    `;
+    for (const row of rows) {
+      items.push(toReviewItem('asset', row, {
+        reason: 'low_confidence',
+        title: String(row.description),
+        amount: toNumber(row.current_value),
+        detail: toText(row.asset_type),
+        documentId: toText(row.document_id),
+      }));
+    }
+  }
+
+  if (tables.has('reconciled_income_sources')) {
+    const rows = await sql`
+      SELECT s.*, ${clientName('s')} AS client_name
+      FROM reconciled_income_sources s
+      WHERE s.status IN ('needs_review', 'conflict') AND s.review_status IS NULL
+    `;
+    for (const row of rows) {
+      const discrepancy = row.discrepancy as { suggestedResolution?: string } | null;
+      items.push(toReviewItem('reconciled_income', row, {
+        reason: row.status === 'conflict' ? 'conflict' : 'needs_review',
+        title: `${row.employer_name} · ${row.income_year}`,
+        amount: toNumber(row.verified_monthly_gross),
+        detail: discrepancy?.suggestedResolution ?? null,
+        documentId: null,
+      }));
+    }
+  }
+
+  if (tables.has('case_documents')) {
+    const rows = await sql`
+      SELECT
+        d.id, d.case_id, d.file_name, d.document_type, d.uploaded_at AS created_at,
+        (d.classification->>'confidence')::numeric AS confidence,
+        d.extracted_data->>'validationNotes' AS validation_notes,
+        ${clientName('d')} AS client_name
+      FROM case_documents d
+      WHERE d.validation_status = 'needs_review'
+    `;
+    for (const row of rows) {
+      items.push(toReviewItem('document', row, {
+        reason: 'needs_review',
+        title: `${row.file_name}${row.document_type ? ` (${row.document_type})` : ''}`,
+        amount: null,
+        detail: toText(row.validation_notes),
+        documentId: String(row.id),
+      }));
+    }
+  }
+
+  return sortReviewItems(items);
+}
+
+/**
+ * Apply one reviewer decision. Accepted and edited figures become manual
+ * overrides; rejected extractions are removed, rejected reconciled sources
+ * are kept (so reconciliation does not recreate them) but left out of totals.
+ */
+export async function applyReviewDecision(
+  sql: postgres.Sql,
+  decision: ReviewDecision,
+  reviewer: string
+): Promise<ReviewOutcome> {
+  const outcome = (ok: boolean, error?: string): ReviewOutcome => ({
+    itemId: decision.itemId,
+    action: decision.action,
+    ok,
+    ...(error ? { error } : {}),
+  });
+
+  const parsed = parseReviewItemId(decision.itemId);
+  if (!parsed) return outcome(false, 'Unknown item');
+  const { kind, recordId } = parsed;
+  const { table } = REVIEW_KINDS[kind];
+
+  let values: Record<string, ReviewValue> = {};
+  if (decision.action === 'edit') {
+    if (kind === 'document') {
+      return outcome(false, 'Change the document type from the case documents page');
+    }
+    const normalized = normalizeReviewChanges(kind, decision.changes ?? {});
+    if (normalized.errors.length > 0) return outcome(false, normalized.errors.join('; '));
+    values = normalized.values;
+  }
+
+  const reviewed = {
+    review_status: REVIEW_STATUS[decision.action],
+    verified_by: reviewer,
+    verified_at: new Date(),
+  };
+
+  let result: postgres.RowList<postgres.Row[]>;
+
+  if (kind === 'document') {
+    result = await sql`
+      UPDATE case_documents
+      SET ${sql({ ...reviewed, validation_status: decision.action === 'reject' ? 'invalid' : 'valid' })}
+      WHERE id = ${recordId}
+      RETURNING id
+    `;
+  } else if (EXTRACTED_KINDS.includes(kind) && decision.action === 'reject') {
+    result = await sql`DELETE FROM ${sql(table)} WHERE id = ${recordId} RETURNING id`;
+  } else {
+    const update: Record<string, ReviewValue | Date> = {
+      ...values,
+      ...reviewed,
+      determination_method: 'manual_override',
+    };
+
+    if (kind === 'reconciled_income') {
+      update.status = 'manual';
+      update.updated_at = new Date();
+      // Annual figures follow the corrected monthly ones
+      if (typeof values.verified_monthly_gross === 'number') {
+        update.verified_annual_gross = Math.round(values.verified_monthly_gross * 12 * 100) / 100;
+      }
+      if ('verified_monthly_net' in values) {
+        const net = values.verified_monthly_net;
+        update.verified_annual_net = typeof net === 'number' ? Math.round(net * 12 * 100) / 100 : null;
+      }
+    }
+
+    result = await sql`
+      UPDATE ${sql(table)}
+      SET ${sql(update)}
+      WHERE id = ${recordId}
+      RETURNING id
+    `;
+  }
+
+  return result.length > 0 ? outcome(true) : outcome(false, 'Item not found');
+}
@@ -0,0 +1,50 @@
+/**
+ * Review Queue Types
+ */
+
+import type { FieldSources } from '../extraction/provenance';
+
+export type ReviewItemKind = 'income_record' | 'debt' | 'asset' | 'reconciled_income' | 'document';
+
+export type ReviewReason = 'low_confidence' | 'conflict' | 'needs_review';
+
+export type ReviewAction = 'accept' | 'edit' | 'reject';
+
+/** Stored in review_status once a reviewer has acted on a record */
+export type ReviewStatus = 'accepted' | 'edited' | 'rejected';
+
+export type ReviewValue = string | number | null;
+
+export interface ReviewItem {
+  /** `${kind}:${recordId}`, unique across the queue */
+  id: string;
+  kind: ReviewItemKind;
+  recordId: string;
+  caseId: string;
+  clientName: string | null;
+  reason: ReviewReason;
+  confidence: number | null;
+  title: string;
+  amount: number | null;
+  /** Suggested resolution for conflicts, validation notes for documents */
+  detail: string | null;
+  documentId: string | null;
+  fieldSources: FieldSources | null;
+  /** Current values of the fields a reviewer can edit, keyed by field name */
+  values: Record<string, ReviewValue>;
+  createdAt: string;
+}
+
+export interface ReviewDecision {
+  itemId: string;
+  action: ReviewAction;
+  /** Field name to new value; only used by edit */
+  changes?: Record<string, unknown>;
+}
+
+export interface ReviewOutcome {
+  itemId: string;
+  action: ReviewAction;
+  ok: boolean;
+  error?: string;
+}
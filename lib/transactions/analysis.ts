@@ -0,0 +1,150 @@
+/**
+ * Transaction Analysis
+ *
+ * Works over a case's ledger: finds recurring deposits, averages spending
+ * per Schedule J category, and flags the transactions a trustee will ask
+ * about.
+ */
+
+import { EXPENSE_CATEGORIES, isDepositCategory, isExpenseCategory } from './categories';
+import type {
+  BankTransaction,
+  DepositCategory,
+  ExpenseProposal,
+  RecurringDeposit,
+  TransactionCategory,
+  TransactionFlag,
+  TransactionSummary,
+} from './types';
+
+// Form 107 uses $600 as the floor for payments it asks about
+export const LARGE_TRANSFER_THRESHOLD = 600;
+export const CASH_WITHDRAWAL_THRESHOLD = 500;
+
+// Schedule J proposals average the six most recent months on file
+export const EXPENSE_AVERAGE_MONTHS = 6;
+
+type LedgerEntry = Pick<BankTransaction, 'postedDate' | 'description' | 'amount' | 'category'>;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function flagTransaction(entry: Pick<LedgerEntry, 'amount' | 'category'>): TransactionFlag | null {
+  const amount = Math.abs(entry.amount);
+  if (entry.category === 'transfer' && amount >= LARGE_TRANSFER_THRESHOLD) return 'large_transfer';
+  if (entry.category === 'cash_withdrawal' && amount >= CASH_WITHDRAWAL_THRESHOLD) return 'cash_withdrawal';
+  return null;
+}
+
+// Words that vary between deposits from the same payer
+const PAYER_NOISE = new Set(['PPD', 'CCD', 'WEB', 'ACH', 'ID', 'DES', 'INDN', 'CO', 'ENTRY', 'DIR', 'DEP', 'DEPOSIT', 'ORIG', 'TRN', 'REF', 'ONLINE', 'MOBILE']);
+
+/**
+ * Stable name for the payer of a deposit, ignoring reference numbers and
+ * ACH codes
+ */
+export function payerKey(description: string): string {
+  return description
+    .toUpperCase()
+    .replace(/[^A-Z& ]+/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !PAYER_NOISE.has(word))
+    .slice(0, 3)
+    .join(' ');
+}
+
+function monthRange(from: string, to: string): string[] {
+  const months: string[] = [];
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7));
+  while (`${year}-${String(month).padStart(2, '0')}` <= to) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+  return months;
+}
+
+function coverage(entries: LedgerEntry[]): { from: string; to: string } | null {
+  if (entries.length === 0) return null;
+  const months = entries.map(entry => entry.postedDate.slice(0, 7)).sort();
+  return { from: months[0], to: months[months.length - 1] };
+}
+
+/**
+ * Deposits from the same payer in the same category, seen at least twice.
+ * Transfers are not income and never recur.
+ */
+export function groupRecurringDeposits<T extends LedgerEntry>(
+  entries: T[]
+): Array<{ deposit: RecurringDeposit; entries: T[] }> {
+  const range = coverage(entries);
+  const monthsOnFile = range ? monthRange(range.from, range.to).length : 1;
+
+  const groups = new Map<string, { category: DepositCategory; entries: T[] }>();
+  for (const entry of entries) {
+    if (entry.amount <= 0 || !isDepositCategory(entry.category)) continue;
+    const key = `${entry.category}|${payerKey(entry.description)}`;
+    const group = groups.get(key) ?? { category: entry.category, entries: [] };
+    group.entries.push(entry);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .filter(group => group.entries.length >= 2)
+    .map(group => {
+      const total = roundCents(group.entries.reduce((sum, entry) => sum + entry.amount, 0));
+      return {
+        deposit: {
+          category: group.category,
+          payer: payerKey(group.entries[0].description) || group.entries[0].description,
+          months: [...new Set(group.entries.map(entry => entry.postedDate.slice(0, 7)))].sort(),
+          deposits: group.entries.length,
+          total,
+          monthlyAverage: roundCents(total / monthsOnFile),
+        },
+        entries: group.entries,
+      };
+    })
+    .sort((a, b) => b.deposit.total - a.deposit.total);
+}
+
+/**
+ * Average monthly spending per expense category over the most recent
+ * months on file, for proposing Schedule J figures
+ */
+export function proposeExpenses(entries: LedgerEntry[], months = EXPENSE_AVERAGE_MONTHS): ExpenseProposal[] {
+  const range = coverage(entries);
+  if (!range) return [];
+
+  const window = monthRange(range.from, range.to).slice(-months);
+  const inWindow = entries.filter(entry => entry.amount < 0 && window.includes(entry.postedDate.slice(0, 7)));
+
+  return EXPENSE_CATEGORIES.flatMap(({ value }) => {
+    const spending = inWindow.filter(entry => entry.category === value);
+    if (spending.length === 0) return [];
+
+    const total = spending.reduce((sum, entry) => sum - entry.amount, 0);
+    return [{
+      category: value,
+      monthlyAverage: roundCents(total / window.length),
+      months: window.length,
+      transactions: spending.length,
+    }];
+  });
+}
+
+export function summarizeTransactions(transactions: BankTransaction[]): TransactionSummary {
+  return {
+    transactionCount: transactions.length,
+    coverage: coverage(transactions),
+    recurringDeposits: groupRecurringDeposits(transactions).map(group => group.deposit),
+    expenseProposals: proposeExpenses(transactions),
+    flagged: transactions.filter(transaction => transaction.flag !== null),
+  };
+}
+
+/** Categories a person can assign to a transaction of this sign */
+export function allowedCategory(category: string, amount: number): category is TransactionCategory {
+  if (category === 'transfer' || category === 'cash_withdrawal') return true;
+  return amount >= 0 ? isDepositCategory(category) : isExpenseCategory(category);
+}
@@ -0,0 +1,112 @@
+/**
+ * Transaction Categories
+ *
+ * Keyword rules that sort deposits by source and spending into the
+ * Schedule J expense buckets used by the expenses table. Rules are tried
+ * in order, so more specific merchants come before general ones.
+ */
+
+import type { DepositCategory, ExpenseCategory, TransactionCategory } from './types';
+
+export const EXPENSE_CATEGORIES: Array<{ value: ExpenseCategory; label: string }> = [
+  { value: 'housing', label: 'Housing (Rent/Mortgage)' },
+  { value: 'utilities', label: 'Utilities' },
+  { value: 'telecommunications', label: 'Phone/Internet' },
+  { value: 'food', label: 'Food' },
+  { value: 'clothing', label: 'Clothing' },
+  { value: 'transportation', label: 'Transportation' },
+  { value: 'medical', label: 'Medical/Healthcare' },
+  { value: 'childcare', label: 'Childcare' },
+  { value: 'insurance', label: 'Insurance' },
+  { value: 'life_insurance', label: 'Term Life Insurance' },
+  { value: 'taxes', label: 'Taxes' },
+  { value: 'payroll_deductions', label: 'Payroll Deductions (Retirement, Union Dues)' },
+  { value: 'court_ordered_payments', label: 'Court-Ordered Support/Alimony' },
+  { value: 'debt_payments', label: 'Debt Payments' },
+  { value: 'entertainment', label: 'Entertainment' },
+  { value: 'education', label: 'Education' },
+  { value: 'other', label: 'Other' },
+];
+
+export const DEPOSIT_CATEGORIES: Array<{ value: DepositCategory; label: string }> = [
+  { value: 'payroll', label: 'Payroll' },
+  { value: 'social_security', label: 'Social Security' },
+  { value: 'child_support', label: 'Child Support' },
+  { value: 'gig_platform', label: 'Gig Platform' },
+  { value: 'other_income', label: 'Other Deposit' },
+];
+
+export const TRANSACTION_CATEGORY_LABELS: Record<TransactionCategory, string> = {
+  ...Object.fromEntries(EXPENSE_CATEGORIES.map(category => [category.value, category.label])),
+  ...Object.fromEntries(DEPOSIT_CATEGORIES.map(category => [category.value, category.label])),
+  transfer: 'Transfer',
+  cash_withdrawal: 'Cash Withdrawal',
+} as Record<TransactionCategory, string>;
+
+export function isDepositCategory(category: string): category is DepositCategory {
+  return DEPOSIT_CATEGORIES.some(entry => entry.value === category);
+}
+
+export function isExpenseCategory(category: string): category is ExpenseCategory {
+  return EXPENSE_CATEGORIES.some(entry => entry.value === category);
+}
+
+const TRANSFER_PATTERNS = [/\btransfer\b/i, /\bxfer\b/i, /\bzelle\b/i, /\bvenmo\b/i, /cash ?app/i, /\bpaypal\b/i, /\bwire\b/i, /apple cash/i];
+
+const CASH_PATTERNS = [/\bATM\b/i, /cash withdrawal/i, /(teller|branch|counter) withdrawal/i, /withdrawal.*\b(teller|branch)\b/i];
+
+const DEPOSIT_RULES: Array<{ category: DepositCategory; patterns: RegExp[] }> = [
+  { category: 'social_security', patterns: [/\bSSA\b/i, /soc(ial)? ?sec/i, /\bSSI\b/i, /treas 310/i] },
+  { category: 'child_support', patterns: [/child ?supp(ort)?/i, /\bSDU\b/i, /\bDCSE\b/i, /\bOCSE\b/i, /support pa?yme?n?t/i] },
+  {
+    category: 'gig_platform',
+    patterns: [/\buber\b/i, /\blyft\b/i, /doordash/i, /instacart/i, /grubhub/i, /postmates/i, /\bshipt\b/i, /amazon flex/i, /upwork/i, /fiverr/i, /\betsy\b/i, /taskrabbit/i],
+  },
+  { category: 'payroll', patterns: [/payroll/i, /\bdir(ect)? ?dep\b/i, /direct deposit/i, /\bsalary\b/i, /\bADP\b/, /paychex/i, /\bgusto\b/i] },
+];
+
+const EXPENSE_RULES: Array<{ category: ExpenseCategory; patterns: RegExp[] }> = [
+  {
+    category: 'debt_payments',
+    patterns: [/credit cr?d/i, /card (auto)?pa?yme?n?t/i, /capital one/i, /discover/i, /\bamex\b|american express/i, /synchrony/i, /navient|nelnet|sallie mae|mohela/i, /\baffirm\b|klarna|afterpay/i, /loan (pmt|payment)/i],
+  },
+  { category: 'taxes', patterns: [/\bIRS\b/i, /treas tax/i, /franchise tax/i, /dep(artmen)?t of revenue/i, /property tax/i] },
+  { category: 'housing', patterns: [/\brent\b/i, /mortgage/i, /property management|apartments?\b/i, /\bHOA\b/i, /loan servicing|mr\.? cooper|rocket mortgage/i] },
+  { category: 'telecommunications', patterns: [/comcast|xfinity|spectrum|cox comm/i, /at&t|verizon|t-mobile|sprint|cricket/i, /internet|wireless/i] },
+  { category: 'utilities', patterns: [/electric|energy|power co/i, /\bgas co\b|natural gas/i, /\bwater\b|sewer/i, /pg&e|con ?ed|duke energy/i] },
+  { category: 'life_insurance', patterns: [/term life|life ins(urance)?\b/i] },
+  { category: 'insurance', patterns: [/insurance|\bins\b/i, /geico|state farm|progressive|allstate|liberty mutual|farmers/i] },
+  { category: 'medical', patterns: [/pharmacy|\bcvs\b|walgreens|rite aid/i, /hospital|clinic|medical|urgent care/i, /dental|\bDDS\b|orthodont|optometr/i, /labcorp|quest diag/i] },
+  { category: 'childcare', patterns: [/day ?care|child ?care/i, /kindercare|bright horizons/i] },
+  { category: 'education', patterns: [/tuition|university|college|school/i] },
+  {
+    category: 'food',
+    patterns: [/grocery|supermarket|market\b/i, /kroger|safeway|albertsons|publix|aldi|walmart|costco|sam'?s club|whole foods|trader joe|h-e-b|meijer|food lion|wegmans/i, /restaurant|mcdonald|starbucks|chipotle|subway|pizza|cafe|diner/i, /doordash|grubhub|uber eats/i],
+  },
+  {
+    category: 'transportation',
+    patterns: [/\bshell\b|chevron|exxon|\bmobil\b|\bbp\b|marathon|speedway|sunoco|valero|circle k/i, /\bfuel\b|gas station/i, /parking|toll|e-?zpass|\bDMV\b|transit|metro/i, /\buber\b|\blyft\b/i, /jiffy lube|autozone|auto parts/i],
+  },
+  { category: 'clothing', patterns: [/old navy|\bgap\b|tj ?maxx|marshalls|\bross\b|kohl'?s|h&m|nike|foot locker|burlington/i] },
+  { category: 'entertainment', patterns: [/netflix|spotify|hulu|disney|hbo|max\.com/i, /\bamc\b|cinema|theat(er|re)/i, /steam|playstation|xbox|nintendo|ticketmaster/i] },
+];
+
+function firstRule<T>(rules: Array<{ category: T; patterns: RegExp[] }>, description: string): T | undefined {
+  return rules.find(rule => rule.patterns.some(pattern => pattern.test(description)))?.category;
+}
+
+/**
+ * Category for a transaction from its description. Positive amounts are
+ * deposits.
+ */
+export function categorizeTransaction(description: string, amount: number): TransactionCategory {
+  if (amount >= 0) {
+    return firstRule(DEPOSIT_RULES, description)
+      ?? (TRANSFER_PATTERNS.some(pattern => pattern.test(description)) ? 'transfer' : 'other_income');
+  }
+
+  if (CASH_PATTERNS.some(pattern => pattern.test(description))) return 'cash_withdrawal';
+  // Merchants first, so "Zelle to landlord rent" counts as housing
+  return firstRule(EXPENSE_RULES, description)
+    ?? (TRANSFER_PATTERNS.some(pattern => pattern.test(description)) ? 'transfer' : 'other');
+}
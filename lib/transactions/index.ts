@@ -0,0 +1,54 @@
+/**
+ * Bank Transactions
+ *
+ * Transaction ledger read from bank statements, with deposit and expense
+ * categories, recurring deposits, Schedule J proposals, and flags for
+ * transfers and cash withdrawals the trustee will ask about.
+ */
+
+// Statement parsing
+export { parseStatementTransactions } from './parse';
+
+// Categories
+export {
+  DEPOSIT_CATEGORIES,
+  EXPENSE_CATEGORIES,
+  TRANSACTION_CATEGORY_LABELS,
+  categorizeTransaction,
+  isDepositCategory,
+  isExpenseCategory,
+} from './categories';
+
+// Ledger analysis
+export {
+  CASH_WITHDRAWAL_THRESHOLD,
+  EXPENSE_AVERAGE_MONTHS,
+  LARGE_TRANSFER_THRESHOLD,
+  allowedCategory,
+  flagTransaction,
+  groupRecurringDeposits,
+  payerKey,
+  proposeExpenses,
+  summarizeTransactions,
+} from './analysis';
+
+// Persistence
+export {
+  loadCaseTransactions,
+  loadTransaction,
+  refreshRecurringDeposits,
+  saveStatementTransactions,
+  updateTransactionCategory,
+} from './store';
+
+export type {
+  BankTransaction,
+  DepositCategory,
+  ExpenseCategory,
+  ExpenseProposal,
+  ParsedTransaction,
+  RecurringDeposit,
+  TransactionCategory,
+  TransactionFlag,
+  TransactionSummary,
+} from './types';
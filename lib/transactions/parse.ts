@@ -0,0 +1,120 @@
+/**
+ * Statement Transaction Parser
+ *
+ * Reads the transaction lines of a bank statement's OCR text: a posting
+ * date, a description, the amount, and usually a running balance. Whether
+ * a line is a deposit or a withdrawal comes from its sign, the change in
+ * the running balance, or the statement section it is printed under.
+ */
+
+import {
+  findDateRange,
+  findFirstDate,
+  locatedSources,
+  parseAmount,
+  parseDate,
+  type Located,
+} from '../extraction/templates/text';
+import type { ParsedTransaction } from './types';
+
+const TRANSACTION_LINE =
+  /^[ \t]*(\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)[ \t]+(.*?[A-Za-z].*?)[ \t]+(-[ \t]*)?(\$?[\d,]*\d\.\d{2})(?:[ \t]+(-?\$?[\d,]*\d\.\d{2}))?[ \t]*$/;
+
+type Section = 'credit' | 'debit' | 'skip' | null;
+
+const SECTION_HEADINGS: Array<{ section: Exclude<Section, null>; pattern: RegExp }> = [
+  { section: 'skip', pattern: /daily (ending )?balance|balance summary/i },
+  { section: 'debit', pattern: /withdrawals?|subtractions|debits|checks paid|purchases|fees charged|payments/i },
+  { section: 'credit', pattern: /deposits|additions|credits/i },
+];
+
+// Balance rows seed the running balance but are not transactions
+const BALANCE_ROW = /\b(beginning|ending|opening|closing) balance\b|balance (forward|brought forward)/i;
+
+// Used only when nothing else on the statement says which way money moved
+const DEPOSIT_HINT = /\b(deposit|dep|payroll|credit|refund|interest paid|transfer from|zelle from)\b/i;
+
+function sectionOf(line: string): Section | undefined {
+  // Headings are short and carry no amounts; anything else is prose or a summary row
+  if (line.trim().length > 60 || /\d\.\d{2}/.test(line)) return undefined;
+  return SECTION_HEADINGS.find(heading => heading.pattern.test(line))?.section;
+}
+
+function statementEnd(text: string): string | null {
+  return findDateRange(text)?.[1].value ?? findFirstDate(text)?.value ?? null;
+}
+
+/**
+ * Dates printed without a year take the statement's closing year, or the
+ * year before for December lines on a January statement
+ */
+function postedDate(printed: string, end: string | null): string | null {
+  if (printed.split('/').length === 3) return parseDate(printed);
+  if (!end) return null;
+
+  const [month, day] = printed.split('/').map(Number);
+  const endYear = Number(end.slice(0, 4));
+  const year = month > Number(end.slice(5, 7)) ? endYear - 1 : endYear;
+  return parseDate(`${month}/${day}/${year}`);
+}
+
+export function parseStatementTransactions(text: string): ParsedTransaction[] {
+  const end = statementEnd(text);
+  const transactions: ParsedTransaction[] = [];
+
+  let section: Section = null;
+  let previousBalance: number | null = null;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    const match = TRANSACTION_LINE.exec(line);
+    if (!match) {
+      const heading = sectionOf(line);
+      if (heading !== undefined) {
+        section = heading;
+        previousBalance = null;
+      }
+      continue;
+    }
+    if (section === 'skip') continue;
+
+    const [, printedDate, description, minus, printedAmount, printedBalance] = match;
+    const date = postedDate(printedDate, end);
+    if (!date) continue;
+
+    const amount = parseAmount(printedAmount);
+    const balance = printedBalance ? parseAmount(printedBalance) : null;
+    if (BALANCE_ROW.test(description)) {
+      previousBalance = balance ?? amount;
+      continue;
+    }
+
+    let credit: boolean;
+    if (minus) credit = false;
+    else if (balance !== null && previousBalance !== null && balance !== previousBalance) credit = balance > previousBalance;
+    else if (section) credit = section === 'credit';
+    else credit = DEPOSIT_HINT.test(description);
+    previousBalance = balance;
+
+    const at = (value: string): Located<string> => {
+      const start = lineStart + line.indexOf(value, value === printedDate ? 0 : printedDate.length);
+      return { value, start, end: start + value.length };
+    };
+
+    transactions.push({
+      postedDate: date,
+      description: description.replace(/\s+/g, ' ').trim(),
+      amount: credit ? amount : -amount,
+      fieldSources: locatedSources(text, {
+        postedDate: at(printedDate),
+        description: at(description),
+        amount: at(printedAmount),
+      }),
+    });
+  }
+
+  return transactions;
+}
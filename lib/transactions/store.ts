@@ -0,0 +1,173 @@
+/**
+ * Bank Transaction Persistence
+ *
+ * Ledger rows are replaced per statement each time it is extracted.
+ * Categories a person chose are carried over to the new rows, and the
+ * recurring-deposit marks are recomputed for the whole case.
+ */
+
+import type postgres from 'postgres';
+import { flagTransaction, groupRecurringDeposits } from './analysis';
+import { categorizeTransaction } from './categories';
+import type { BankTransaction, ParsedTransaction, TransactionCategory } from './types';
+
+const transactionId = () => `txn_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const ledgerKey = (row: { postedDate: string; description: string; amount: number }) =>
+  `${row.postedDate}|${row.description}|${row.amount.toFixed(2)}`;
+
+function toTransaction(row: postgres.Row): BankTransaction {
+  return {
+    id: row.id,
+    caseId: row.caseId,
+    documentId: row.documentId,
+    accountLast4: row.accountLast4,
+    postedDate: row.postedDate,
+    description: row.description,
+    amount: Number(row.amount),
+    category: row.category,
+    categoryOverride: row.categoryOverride,
+    recurring: row.recurring,
+    flag: row.flag,
+    fieldSources: row.fieldSources,
+  };
+}
+
+const TRANSACTION_COLUMNS = `
+  id,
+  case_id as "caseId",
+  document_id as "documentId",
+  account_last4 as "accountLast4",
+  to_char(posted_date, 'YYYY-MM-DD') as "postedDate",
+  description,
+  amount,
+  category,
+  category_override as "categoryOverride",
+  recurring,
+  flag,
+  field_sources as "fieldSources"
+`;
+
+export async function loadCaseTransactions(sql: postgres.Sql, caseId: string): Promise<BankTransaction[]> {
+  const [table] = await sql`SELECT to_regclass('bank_transactions') AS name`;
+  if (!table?.name) return [];
+
+  const rows = await sql`
+    SELECT ${sql.unsafe(TRANSACTION_COLUMNS)}
+    FROM bank_transactions
+    WHERE case_id = ${caseId}
+    ORDER BY posted_date DESC, id
+  `;
+  return rows.map(toTransaction);
+}
+
+export async function loadTransaction(
+  sql: postgres.Sql,
+  caseId: string,
+  transactionId: string
+): Promise<BankTransaction | null> {
+  const [table] = await sql`SELECT to_regclass('bank_transactions') AS name`;
+  if (!table?.name) return null;
+
+  const [row] = await sql`
+    SELECT ${sql.unsafe(TRANSACTION_COLUMNS)}
+    FROM bank_transactions
+    WHERE id = ${transactionId} AND case_id = ${caseId}
+  `;
+  return row ? toTransaction(row) : null;
+}
+
+/**
+ * Mark the deposits that belong to a recurring group
+ */
+export async function refreshRecurringDeposits(sql: postgres.Sql, caseId: string) {
+  const transactions = await loadCaseTransactions(sql, caseId);
+  const recurringIds = groupRecurringDeposits(transactions).flatMap(group => group.entries.map(entry => entry.id));
+
+  await sql`
+    UPDATE bank_transactions
+    SET recurring = (id = ANY(${recurringIds}::text[]))
+    WHERE case_id = ${caseId}
+  `;
+}
+
+/**
+ * Replace the ledger rows read from one statement. Returns the number of
+ * transactions saved.
+ */
+export async function saveStatementTransactions(
+  sql: postgres.Sql,
+  doc: { id: string; caseId: string },
+  transactions: ParsedTransaction[],
+  accountLast4: string | null
+): Promise<number> {
+  const overrides = await sql`
+    SELECT
+      to_char(posted_date, 'YYYY-MM-DD') as "postedDate",
+      description,
+      amount,
+      category
+    FROM bank_transactions
+    WHERE document_id = ${doc.id} AND category_override = true
+  `;
+  const overridden = new Map<string, TransactionCategory>(
+    overrides.map(row => [
+      ledgerKey({ postedDate: row.postedDate, description: row.description, amount: Number(row.amount) }),
+      row.category,
+    ])
+  );
+
+  await sql`DELETE FROM bank_transactions WHERE document_id = ${doc.id}`;
+
+  for (const transaction of transactions) {
+    const override = overridden.get(ledgerKey(transaction));
+    const category = override ?? categorizeTransaction(transaction.description, transaction.amount);
+
+    await sql`
+      INSERT INTO bank_transactions (
+        id, case_id, document_id, account_last4, posted_date, description,
+        amount, category, category_override, flag, field_sources, created_at
+      ) VALUES (
+        ${transactionId()},
+        ${doc.caseId},
+        ${doc.id},
+        ${accountLast4},
+        ${transaction.postedDate},
+        ${transaction.description},
+        ${transaction.amount},
+        ${category},
+        ${override !== undefined},
+        ${flagTransaction({ amount: transaction.amount, category })},
+        ${JSON.stringify(transaction.fieldSources)},
+        NOW()
+      )
+    `;
+  }
+
+  await refreshRecurringDeposits(sql, doc.caseId);
+  return transactions.length;
+}
+
+/**
+ * Set a transaction's category by hand. The category must fit the
+ * transaction's direction (see allowedCategory).
+ */
+export async function updateTransactionCategory(
+  sql: postgres.Sql,
+  transaction: BankTransaction,
+  category: TransactionCategory
+): Promise<BankTransaction> {
+  const flag = flagTransaction({ amount: transaction.amount, category });
+
+  await sql`
+    UPDATE bank_transactions
+    SET category = ${category},
+        category_override = true,
+        flag = ${flag}
+    WHERE id = ${transaction.id}
+  `;
+  await refreshRecurringDeposits(sql, transaction.caseId);
+
+  const [row] = await sql`SELECT recurring FROM bank_transactions WHERE id = ${transaction.id}`;
+  return { ...transaction, category, categoryOverride: true, flag, recurring: Boolean(row?.recurring) };
+}
@@ -0,0 +1,84 @@
+/**
+ * Bank Transaction Types
+ */
+
+import type { FieldSources } from '../extraction/provenance';
+
+export type ExpenseCategory =
+  | 'housing'
+  | 'utilities'
+  | 'telecommunications'
+  | 'food'
+  | 'clothing'
+  | 'transportation'
+  | 'medical'
+  | 'childcare'
+  | 'insurance'
+  | 'life_insurance'
+  | 'taxes'
+  | 'payroll_deductions'
+  | 'court_ordered_payments'
+  | 'debt_payments'
+  | 'entertainment'
+  | 'education'
+  | 'other';
+
+export type DepositCategory = 'payroll' | 'social_security' | 'child_support' | 'gig_platform' | 'other_income';
+
+/**
+ * Credits take a deposit category, debits an expense category; transfers
+ * and cash withdrawals can be either and never count toward Schedule J.
+ */
+export type TransactionCategory = ExpenseCategory | DepositCategory | 'transfer' | 'cash_withdrawal';
+
+export type TransactionFlag = 'large_transfer' | 'cash_withdrawal';
+
+/** A transaction line read from statement OCR */
+export interface ParsedTransaction {
+  postedDate: string; // YYYY-MM-DD
+  description: string;
+  /** Deposits are positive, withdrawals negative */
+  amount: number;
+  fieldSources: FieldSources;
+}
+
+export interface BankTransaction {
+  id: string;
+  caseId: string;
+  documentId: string | null;
+  accountLast4: string | null;
+  postedDate: string;
+  description: string;
+  amount: number;
+  category: TransactionCategory;
+  /** Set when a person chose the category */
+  categoryOverride: boolean;
+  recurring: boolean;
+  flag: TransactionFlag | null;
+  fieldSources: FieldSources | null;
+}
+
+export interface RecurringDeposit {
+  category: DepositCategory;
+  payer: string;
+  months: string[]; // YYYY-MM
+  deposits: number;
+  total: number;
+  monthlyAverage: number;
+}
+
+export interface ExpenseProposal {
+  category: ExpenseCategory;
+  monthlyAverage: number;
+  months: number;
+  transactions: number;
+}
+
+export interface TransactionSummary {
+  transactionCount: number;
+  /** First and last month covered by the ledger */
+  coverage: { from: string; to: string } | null;
+  recurringDeposits: RecurringDeposit[];
+  expenseProposals: ExpenseProposal[];
+  flagged: BankTransaction[];
+}
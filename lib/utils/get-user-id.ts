@@ -4,8 +4,8 @@
  * This utility handles getting a user identifier regardless of whether
  * authentication is enabled or disabled.
  *
- * - If auth is enabled: Uses Better Auth session userId
- * - If auth is disabled: Generates/retrieves a stable identifier from localStorage
+ * - Firm members: their account's userId from the session
+ * - API key sessions: Generates/retrieves a stable identifier from localStorage
  */
 
 const USER_ID_KEY = 'bankruptcy_user_id';
@@ -42,7 +42,7 @@ function getOrCreateLocalUserId(): string {
 /**
  * Get user ID from session or fallback to localStorage
  *
- * @param sessionUserId - User ID from Better Auth session (if available)
+ * @param sessionUserId - Firm member's user ID from the session (if available)
  * @returns A stable user identifier
  */
 export function getUserId(sessionUserId?: string | null): string {
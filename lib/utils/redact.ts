@@ -0,0 +1,34 @@
+/**
+ * Redaction of SSNs, account numbers and dates of birth from free text,
+ * for log lines and LLM prompts that don't need them.
+ *
+ * Masking is length-preserving and keeps the last 4 digits of SSNs and
+ * account numbers, so character offsets into the original text (see
+ * lib/extraction/provenance.ts) still line up, and "last 4" fields can
+ * still be read from the redacted text.
+ */
+
+// 123-45-6789 or 123 45 6789
+const SSN_PATTERN = /\b\d{3}([- ])\d{2}\1\d{4}\b/g;
+
+// 8-19 digit runs, or card-style groups of four
+const ACCOUNT_PATTERN = /\b(?:\d{8,19}|\d{4}(?:[- ]\d{4}){2,3})\b/g;
+
+// A date following a DOB label: 01/15/1980, 1980-01-15, January 15, 1980
+const DOB_PATTERN =
+  /(\b(?:DOB|D\.O\.B\.?|date of birth|birth ?date)\s*[:#]?\s*)(\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|\d{4}-\d{2}-\d{2}|[A-Za-z]{3,9}\.? \d{1,2},? \d{4})/gi;
+
+/**
+ * Mask every digit except the last `keep`
+ */
+function maskDigits(value: string, keep: number): string {
+  let remaining = value.replace(/\D/g, '').length;
+  return value.replace(/\d/g, digit => (remaining-- > keep ? '*' : digit));
+}
+
+export function redactSensitive(text: string): string {
+  return text
+    .replace(DOB_PATTERN, (_match, label: string, date: string) => label + date.replace(/[A-Za-z0-9]/g, '*'))
+    .replace(SSN_PATTERN, match => maskDigits(match, 4))
+    .replace(ACCOUNT_PATTERN, match => maskDigits(match, 4));
+}
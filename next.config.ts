@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Case database migrations are read from disk at runtime
+  outputFileTracingIncludes: {
+    '/api/**': ['./drizzle/case/**'],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,36 @@
+/**
+ * Official form field listing
+ *
+ * Usage: npm run form-fields -- <template.pdf>
+ *
+ * Prints each AcroForm field in a vendored official PDF with its type, as
+ * a starting point for the form's map in lib/bankruptcy/acroform/field-maps.ts.
+ * A bare filename is looked up in public/official-forms.
+ */
+
+import path from 'path';
+import { listAcroFormFields, loadOfficialTemplate, OFFICIAL_FORMS_DIR } from '../lib/bankruptcy/acroform';
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('Template path is required');
+    process.exit(1);
+  }
+
+  const resolved = path.isAbsolute(file) || file.includes(path.sep) ? path.resolve(file) : path.join(OFFICIAL_FORMS_DIR, file);
+  const template = await loadOfficialTemplate(path.basename(resolved), path.dirname(resolved));
+  if (!template) {
+    console.error(`No template at ${resolved}`);
+    process.exit(1);
+  }
+
+  for (const field of await listAcroFormFields(template)) {
+    console.log(`${field.type}\t${field.name}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Listing form fields failed:', error);
+  process.exit(1);
+});
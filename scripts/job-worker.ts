@@ -0,0 +1,48 @@
+/**
+ * Standalone job worker
+ *
+ * Usage: npm run worker -- [connectionString]
+ *
+ * Applies pending migrations to one case database, then processes its
+ * background job queue. Falls back to DATABASE_URL when no connection
+ * string is given. Set JOB_WORKER=external on the web server so it leaves
+ * the queue to this process, and set CASE_DEV_ENCRYPTION_KEY to the same
+ * value in both so the worker can use the API key stored with each job.
+ */
+
+import postgres from 'postgres';
+import { createWorkerId, runWorker } from '../lib/jobs';
+import { applyMigrations } from '../lib/db/migrate';
+
+async function main() {
+  const connectionString = process.argv[2] || process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error('Connection string is required (argument or DATABASE_URL)');
+    process.exit(1);
+  }
+
+  const sql = postgres(connectionString);
+  const workerId = createWorkerId();
+  const controller = new AbortController();
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      console.log(`Received ${signal}, finishing current job...`);
+      controller.abort();
+    });
+  }
+
+  try {
+    await applyMigrations(sql);
+    console.log(`Job worker ${workerId} started`);
+    await runWorker(sql, { workerId, signal: controller.signal });
+  } finally {
+    await sql.end();
+  }
+  console.log(`Job worker ${workerId} stopped`);
+}
+
+main().catch((error) => {
+  console.error('Job worker failed:', error);
+  process.exit(1);
+});
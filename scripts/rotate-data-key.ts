@@ -0,0 +1,47 @@
+/**
+ * Data key rotation
+ *
+ * Usage: npm run rotate-data-key -- [connectionString] [--purge]
+ *
+ * Applies pending migrations to one case database, starts a new data key
+ * version, and re-encrypts every encrypted column with it, including values
+ * written before field encryption existed. With --purge, retired keys that
+ * no value uses any more are deleted. Falls back to DATABASE_URL when no
+ * connection string is given; needs the server's CASE_DEV_ENCRYPTION_KEY.
+ */
+
+import postgres from 'postgres';
+import { applyMigrations } from '../lib/db/migrate';
+import { rotateDataKey } from '../lib/db/field-encryption';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const purge = args.includes('--purge');
+  const connectionString = args.find(arg => !arg.startsWith('--')) || process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error('Connection string is required (argument or DATABASE_URL)');
+    process.exit(1);
+  }
+
+  const sql = postgres(connectionString);
+
+  try {
+    await applyMigrations(sql);
+    const result = await rotateDataKey(sql, { purge, onProgress: message => console.log(message) });
+    console.log(`Data key version ${result.version} is now active`);
+    if (purge) {
+      console.log(
+        result.purgedVersions.length > 0
+          ? `Deleted retired key versions ${result.purgedVersions.join(', ')}`
+          : 'No retired key versions could be deleted'
+      );
+    }
+  } finally {
+    await sql.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('Data key rotation failed:', error);
+  process.exit(1);
+});